@@ -54,6 +54,7 @@ case "${1:-help}" in
     echo "  DESIRED_COUNT    ECS desired task count (default: 2)"
     echo "  TASK_CPU         ECS task CPU (default: 1024)"
     echo "  TASK_MEMORY      ECS task memory (default: 2048)"
+    echo "  PUBLIC_DECK_POPULARITY_INDEX  false for step 1 of the deck index upgrade (see README)"
     echo ""
     echo "Example:"
     echo "  ENVIRONMENT=prod ./cdk.sh deploy"
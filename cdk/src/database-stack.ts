@@ -4,6 +4,13 @@ import { Construct } from 'constructs';
 
 export interface DatabaseStackProps extends cdk.StackProps {
   readonly environment: string;
+  /**
+   * Add PublicDeckPopularityIndex to the decklists table (default true).
+   * DynamoDB adds one GSI per table update, so an existing table that has
+   * neither public deck index is upgraded in two deploys: first with this
+   * off, then with it on. See cdk/README.md.
+   */
+  readonly publicDeckPopularityIndex?: boolean;
 }
 
 export class DatabaseStack extends cdk.Stack {
@@ -12,6 +19,8 @@ export class DatabaseStack extends cdk.Stack {
   public readonly cardCatalogTable: dynamodb.Table;
   public readonly decklistsTable: dynamodb.Table;
   public readonly matchmakingQueueTable: dynamodb.Table;
+  public readonly pubSubEventsTable: dynamodb.Table;
+  public readonly leaderboardTable: dynamodb.Table;
 
   constructor(scope: Construct, id: string, props: DatabaseStackProps) {
     super(scope, id, props);
@@ -147,6 +156,36 @@ export class DatabaseStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // Sparse index over public decks: only they carry PublicListing.
+    this.decklistsTable.addGlobalSecondaryIndex({
+      indexName: 'PublicDeckIndex',
+      partitionKey: {
+        name: 'PublicListing',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'UpdatedAt',
+        type: dynamodb.AttributeType.NUMBER,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // The same public decks ordered by ForkCount, for the popular sort.
+    if (props.publicDeckPopularityIndex ?? true) {
+      this.decklistsTable.addGlobalSecondaryIndex({
+        indexName: 'PublicDeckPopularityIndex',
+        partitionKey: {
+          name: 'PublicListing',
+          type: dynamodb.AttributeType.STRING,
+        },
+        sortKey: {
+          name: 'ForkCount',
+          type: dynamodb.AttributeType.NUMBER,
+        },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
     // Matchmaking queue table
     this.matchmakingQueueTable = new dynamodb.Table(this, 'MatchmakingQueueTable', {
       tableName: `riftbound-${props.environment}-matchmaking-queue`,
@@ -163,7 +202,46 @@ export class DatabaseStack extends cdk.Stack {
       timeToLiveAttribute: 'ExpiresAt',
       removalPolicy: cdk.RemovalPolicy.DESTROY,
     });
-    
+
+    // Cross-task pub/sub fan-out. Items are short-lived; tasks tail the stream.
+    this.pubSubEventsTable = new dynamodb.Table(this, 'PubSubEventsTable', {
+      tableName: `riftbound-${props.environment}-pubsub-events`,
+      partitionKey: {
+        name: 'MessageId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'ExpiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      stream: dynamodb.StreamViewType.NEW_IMAGE,
+    });
+
+    // Rating ladder: one item per rated player and mode. The local index
+    // lists a mode's players by LadderScore so the leaderboard reads in order.
+    this.leaderboardTable = new dynamodb.Table(this, 'LeaderboardTable', {
+      tableName: `riftbound-${props.environment}-leaderboard`,
+      partitionKey: {
+        name: 'Mode',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'UserId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // Change for production
+    });
+
+    this.leaderboardTable.addLocalSecondaryIndex({
+      indexName: 'LadderScoreIndex',
+      sortKey: {
+        name: 'LadderScore',
+        type: dynamodb.AttributeType.NUMBER,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
     // Outputs
     new cdk.CfnOutput(this, 'UsersTableName', {
       value: this.usersTable.tableName,
@@ -189,5 +267,15 @@ export class DatabaseStack extends cdk.Stack {
       value: this.matchmakingQueueTable.tableName,
       exportName: `riftbound-${props.environment}-matchmaking-queue-table`,
     });
+
+    new cdk.CfnOutput(this, 'PubSubEventsTableName', {
+      value: this.pubSubEventsTable.tableName,
+      exportName: `riftbound-${props.environment}-pubsub-events-table`,
+    });
+
+    new cdk.CfnOutput(this, 'LeaderboardTableName', {
+      value: this.leaderboardTable.tableName,
+      exportName: `riftbound-${props.environment}-leaderboard-table`,
+    });
   }
 }
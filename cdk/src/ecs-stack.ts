@@ -7,6 +7,8 @@ import * as logs from 'aws-cdk-lib/aws-logs';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
 import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as cr from 'aws-cdk-lib/custom-resources';
 import { Construct } from 'constructs';
 
 export interface EcsStackProps extends cdk.StackProps {
@@ -18,9 +20,13 @@ export interface EcsStackProps extends cdk.StackProps {
   readonly matchHistoryTable: dynamodb.Table;
   readonly decklistsTable: dynamodb.Table;
   readonly matchmakingQueueTable: dynamodb.Table;
+  readonly pubSubEventsTable: dynamodb.Table;
+  readonly leaderboardTable: dynamodb.Table;
   readonly rankedMatchmakingQueue: sqs.IQueue;
   readonly quickPlayMatchmakingQueue: sqs.IQueue;
   readonly userPoolArn?: string;
+  readonly userPoolId?: string;
+  readonly userPoolClientId?: string;
   readonly containerImage?: string;
   readonly desiredCount?: number;
   readonly taskCpu?: string;
@@ -72,6 +78,9 @@ export class EcsStack extends cdk.Stack {
     props.matchHistoryTable.grantReadWriteData(taskRole);
     props.decklistsTable.grantReadWriteData(taskRole);
     props.matchmakingQueueTable.grantReadWriteData(taskRole);
+    props.pubSubEventsTable.grantReadWriteData(taskRole);
+    props.pubSubEventsTable.grantStreamRead(taskRole);
+    props.leaderboardTable.grantReadWriteData(taskRole);
     props.rankedMatchmakingQueue.grantConsumeMessages(taskRole);
     props.quickPlayMatchmakingQueue.grantConsumeMessages(taskRole);
     props.rankedMatchmakingQueue.grantSendMessages(taskRole);
@@ -83,6 +92,24 @@ export class EcsStack extends cdk.Stack {
       matchStateTableName
     );
     matchStateTable.grantReadWriteData(taskRole);
+    // The table is created outside this app, so its TTL is switched on through
+    // the API. Idempotency records carry `ExpiresAt` (epoch seconds).
+    new cr.AwsCustomResource(this, 'MatchStateTableTtl', {
+      onCreate: {
+        service: 'DynamoDB',
+        action: 'updateTimeToLive',
+        parameters: {
+          TableName: matchStateTableName,
+          TimeToLiveSpecification: { AttributeName: 'ExpiresAt', Enabled: true },
+        },
+        physicalResourceId: cr.PhysicalResourceId.of(`${matchStateTableName}-ttl`),
+        // Already enabled on this attribute
+        ignoreErrorCodesMatching: 'ValidationException',
+      },
+      policy: cr.AwsCustomResourcePolicy.fromSdkCalls({
+        resources: [matchStateTable.tableArn],
+      }),
+    });
 
     if (props.userPoolArn) {
       taskRole.addToPrincipalPolicy(
@@ -132,6 +159,13 @@ export class EcsStack extends cdk.Stack {
       appRepository.grantPull(executionRole);
     }
 
+    // Shared key the matchmaking worker sends to /matches/init; only calls
+    // carrying it may create rated matches.
+    const internalApiKey = new secretsmanager.Secret(this, 'InternalApiKey', {
+      secretName: `riftbound-${props.environment}-internal-api-key`,
+      generateSecretString: { excludePunctuation: true, passwordLength: 48 },
+    });
+
     // Add container to task definition
     const container = taskDefinition.addContainer('AppContainer', {
       image: containerImage,
@@ -147,12 +181,23 @@ export class EcsStack extends cdk.Stack {
         MATCH_TABLE: props.matchHistoryTable.tableName,
         DECKLISTS_TABLE: props.decklistsTable.tableName,
         MATCHMAKING_QUEUE_TABLE: props.matchmakingQueueTable.tableName,
+        LEADERBOARD_TABLE: props.leaderboardTable.tableName,
+        // Fan subscription events out across tasks
+        PUBSUB_BACKEND: 'dynamodb',
+        PUBSUB_TABLE: props.pubSubEventsTable.tableName,
+        PUBSUB_STREAM_ARN: props.pubSubEventsTable.tableStreamArn ?? '',
         AWS_REGION: this.region,
         REDEPLOY_TOKEN: process.env.REDEPLOY_TOKEN ?? '',
         MATCHMAKING_RANKED_QUEUE_URL: props.rankedMatchmakingQueue.queueUrl,
         MATCHMAKING_RANKED_QUEUE_ARN: props.rankedMatchmakingQueue.queueArn,
         MATCHMAKING_FREE_QUEUE_URL: props.quickPlayMatchmakingQueue.queueUrl,
         MATCHMAKING_FREE_QUEUE_ARN: props.quickPlayMatchmakingQueue.queueArn,
+        // Issuer and audience for verifying Cognito tokens
+        COGNITO_USER_POOL_ID: props.userPoolId ?? '',
+        COGNITO_CLIENT_ID: props.userPoolClientId ?? '',
+      },
+      secrets: {
+        INTERNAL_API_KEY: ecs.Secret.fromSecretsManager(internalApiKey),
       },
       portMappings: [
         {
@@ -13,6 +13,9 @@ const containerImage = process.env.CONTAINER_IMAGE;
 const desiredCount = parseInt(process.env.DESIRED_COUNT || '2');
 const taskCpu = process.env.TASK_CPU || '1024';
 const taskMemory = process.env.TASK_MEMORY || '2048';
+// Only `false` for the first of the two deploys that add the public deck
+// indexes to an existing decklists table (see README).
+const publicDeckPopularityIndex = process.env.PUBLIC_DECK_POPULARITY_INDEX !== 'false';
 const corsOrigins = (process.env.CORS_ORIGINS || '*')
   .split(',')
   .map((origin) => origin.trim())
@@ -26,6 +29,7 @@ const networkingStack = new NetworkingStack(app, `RiftboundNetworking-${environm
 
 const databaseStack = new DatabaseStack(app, `RiftboundDatabase-${environment}`, {
   environment,
+  publicDeckPopularityIndex,
   description: `Database infrastructure for Riftbound Online ${environment}`,
 });
 
@@ -47,9 +51,13 @@ const ecsStack = new EcsStack(app, `RiftboundEcs-${environment}`, {
   matchHistoryTable: databaseStack.matchHistoryTable,
   decklistsTable: databaseStack.decklistsTable,
   matchmakingQueueTable: databaseStack.matchmakingQueueTable,
+  pubSubEventsTable: databaseStack.pubSubEventsTable,
+  leaderboardTable: databaseStack.leaderboardTable,
   rankedMatchmakingQueue: queueStack.rankedQueue,
   quickPlayMatchmakingQueue: queueStack.quickPlayQueue,
   userPoolArn: authStack.userPool.userPoolArn,
+  userPoolId: authStack.userPool.userPoolId,
+  userPoolClientId: authStack.userPoolClient.userPoolClientId,
   containerImage,
   desiredCount,
   taskCpu,
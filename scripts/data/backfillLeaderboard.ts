@@ -0,0 +1,70 @@
+import AWS from 'aws-sdk';
+import { TABLE_NAMES } from '../../src/config/tableNames';
+import type { MatchMode } from '../../src/game-engine';
+import { buildLadderItem, parseStoredRating, ratingAttributeForMode } from '../../src/rating';
+
+/**
+ * One-off backfill for the leaderboard table. Ratings recorded before the
+ * table existed live only on the users table, so those players are missing
+ * from the ladder until their next rated match. Run it once after the deploy
+ * that creates the table (see "Leaderboard table" in cdk/README.md), with
+ * ENVIRONMENT set to the target stage. Safe to re-run; pass --dry-run to
+ * only count.
+ */
+
+const USERS_TABLE = TABLE_NAMES.USERS;
+const LEADERBOARD_TABLE = TABLE_NAMES.LEADERBOARD;
+const REGION = process.env.AWS_REGION || 'us-east-1';
+const MODES: MatchMode[] = ['ranked', 'free'];
+const DRY_RUN = process.argv.includes('--dry-run');
+
+const dynamodb = new AWS.DynamoDB.DocumentClient({ region: REGION });
+
+const main = async () => {
+  let scanned = 0;
+  let pending = 0;
+  let written = 0;
+  let startKey: AWS.DynamoDB.DocumentClient.Key | undefined;
+  do {
+    const result = await dynamodb
+      .scan({
+        TableName: USERS_TABLE,
+        FilterExpression: MODES.map((_, index) => `attribute_exists(#rating${index})`).join(' OR '),
+        ExpressionAttributeNames: Object.fromEntries(
+          MODES.map((mode, index) => [`#rating${index}`, ratingAttributeForMode(mode)])
+        ),
+        ExclusiveStartKey: startKey
+      })
+      .promise();
+    scanned += result.ScannedCount ?? 0;
+    for (const user of result.Items || []) {
+      for (const mode of MODES) {
+        const stored = user[ratingAttributeForMode(mode)];
+        if (!stored) {
+          continue;
+        }
+        pending++;
+        if (!DRY_RUN) {
+          await dynamodb
+            .put({
+              TableName: LEADERBOARD_TABLE,
+              Item: buildLadderItem(user.UserId, mode, parseStoredRating(stored))
+            })
+            .promise();
+          written++;
+        }
+      }
+    }
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  console.log(
+    `Scanned ${scanned} users in ${USERS_TABLE}; ${pending} ratings to list in ${LEADERBOARD_TABLE}` +
+      (DRY_RUN ? ' (dry run, nothing written).' : `; ${written} written.`)
+  );
+};
+
+main().catch((error) => {
+  console.error('Failed to backfill leaderboard:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,74 @@
+import AWS from 'aws-sdk';
+import { TABLE_NAMES } from '../../src/config/tableNames';
+
+/**
+ * One-off backfill for the public deck library. Decks made public before the
+ * sparse indexes existed lack PublicListing, and older decks lack ForkCount,
+ * so neither index lists them. Run it once both index deploys are done (see
+ * "Upgrading the decklists table" in cdk/README.md), with ENVIRONMENT set to
+ * the target stage. Safe to re-run; pass --dry-run to only count.
+ */
+
+const TABLE_NAME = TABLE_NAMES.DECKLISTS;
+const REGION = process.env.AWS_REGION || 'us-east-1';
+const PUBLIC_DECK_LISTING = 'public';
+const DRY_RUN = process.argv.includes('--dry-run');
+
+const dynamodb = new AWS.DynamoDB.DocumentClient({ region: REGION });
+
+const backfillDeck = async (item: AWS.DynamoDB.DocumentClient.AttributeMap): Promise<boolean> => {
+  try {
+    await dynamodb
+      .update({
+        TableName: TABLE_NAME,
+        Key: { UserId: item.UserId, DeckId: item.DeckId },
+        UpdateExpression: 'SET PublicListing = :public, ForkCount = if_not_exists(ForkCount, :zero)',
+        // Skip decks deleted or made private since the scan read them.
+        ConditionExpression: 'attribute_exists(DeckId) AND IsPublic = :true',
+        ExpressionAttributeValues: { ':public': PUBLIC_DECK_LISTING, ':zero': 0, ':true': true }
+      })
+      .promise();
+    return true;
+  } catch (error: any) {
+    if (error?.code === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+};
+
+const main = async () => {
+  let scanned = 0;
+  let pending = 0;
+  let updated = 0;
+  let startKey: AWS.DynamoDB.DocumentClient.Key | undefined;
+  do {
+    const result = await dynamodb
+      .scan({
+        TableName: TABLE_NAME,
+        FilterExpression:
+          'IsPublic = :true AND (attribute_not_exists(PublicListing) OR attribute_not_exists(ForkCount))',
+        ExpressionAttributeValues: { ':true': true },
+        ExclusiveStartKey: startKey
+      })
+      .promise();
+    scanned += result.ScannedCount ?? 0;
+    for (const item of result.Items || []) {
+      pending++;
+      if (!DRY_RUN && (await backfillDeck(item))) {
+        updated++;
+      }
+    }
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  console.log(
+    `Scanned ${scanned} decks in ${TABLE_NAME}; ${pending} public decks missing from the listing` +
+      (DRY_RUN ? ' (dry run, nothing written).' : `; ${updated} backfilled.`)
+  );
+};
+
+main().catch((error) => {
+  console.error('Failed to backfill public deck listing:', error);
+  process.exitCode = 1;
+});
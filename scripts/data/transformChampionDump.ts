@@ -2,7 +2,7 @@
 
 import fs from 'node:fs';
 import path from 'node:path';
-import { parseTokenSpecs } from '../../src/card-catalog';
+import { extractRemovalFromEffect, parseTokenSpecs } from '../../src/card-catalog';
 
 const ROOT = path.resolve(__dirname, '..', '..');
 const DATA_DIR = path.join(ROOT, 'data');
@@ -345,6 +345,13 @@ const EFFECT_CLASS_DEFINITIONS = [
     operation: { type: 'scoring', targetHint: 'self', zone: 'board', automated: false },
     ruleRefs: ['106', '437']
   },
+  {
+    id: 'instant_win',
+    label: 'Alternate win',
+    patterns: [/\bwins? the game\b/i],
+    operation: { type: 'win_game', targetHint: 'self', zone: 'board', automated: false },
+    ruleRefs: []
+  },
   {
     id: 'conquer_trigger',
     label: 'Conquer trigger effects',
@@ -1361,6 +1368,9 @@ const buildEffectProfile = (effect, activation, tokenSpecs = []) => {
     if (magnitude !== null) {
       operation.magnitudeHint = magnitude;
     }
+    if (operation.type === 'remove_permanent') {
+      Object.assign(operation, extractRemovalFromEffect(text));
+    }
     if (
       (operation.type === 'create_token' || operation.type === 'summon_unit') &&
       tokenCursor < tokenSpecs.length
@@ -93,10 +93,12 @@ async function main() {
     `Match ${matchId} | main=${deckA.mainDeck.length}/${deckB.mainDeck.length} runes=${deckA.runeDeck.length}/${deckB.runeDeck.length} bf=${deckA.battlefields.length}/${deckB.battlefields.length}`,
   );
 
+  // Random decks with stand-in runes and no champions: only sandbox-legal.
   const body = {
     matchId,
     player1,
     player2,
+    format: 'sandbox',
     decks: {
       [player1]: deckA,
       [player2]: deckB,
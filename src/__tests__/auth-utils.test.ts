@@ -1,10 +1,32 @@
 /**
  * Auth Utils - Comprehensive Unit Tests
  *
- * Tests cover: decodeJwtPayload, authenticateRequest, requireAuthenticatedUser,
- * parseCookies (via authenticateRequest), token extraction from all sources.
+ * Tests cover: decodeJwtPayload, verifyJwt, authenticateRequest,
+ * requireAuthenticatedUser, parseCookies (via authenticateRequest), token
+ * extraction from all sources. Tokens are signed with a key pair generated
+ * per run and verified through a local JWKS file.
  */
-import { decodeJwtPayload, authenticateRequest, requireAuthenticatedUser, AuthContext } from '../auth-utils';
+jest.mock('../logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() },
+}));
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createSign, generateKeyPairSync, type KeyObject } from 'node:crypto';
+import {
+  decodeJwtPayload,
+  authenticateRequest,
+  requireAuthenticatedUser,
+  isAdminUser,
+  verifyJwt,
+  allowsUnverifiedIdentity,
+  buildInternalApiHeaders,
+  isInternalRequest,
+  clearJwksCache,
+  AuthContext,
+} from '../auth-utils';
 import type { Request, Response } from 'express';
 
 // ---------------------------------------------------------------------------
@@ -25,6 +47,52 @@ function makeToken(payload: object, sig = 'fakesig'): string {
   return `${HEADER}.${b64url(payload)}.${sig}`;
 }
 
+// ---------------------------------------------------------------------------
+// Helpers: signed Cognito-style tokens and a local JWKS file
+// ---------------------------------------------------------------------------
+
+const ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_test';
+const CLIENT_ID = 'test-client';
+const KID = 'test-key';
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const JWKS_FILE = path.join(os.tmpdir(), `riftbound-auth-jwks-${process.pid}.json`);
+
+function signToken(
+  payload: object,
+  { kid = KID, key = privateKey, alg = 'RS256' }: { kid?: string; key?: KeyObject; alg?: string } = {}
+): string {
+  const header = b64url({ alg, typ: 'JWT', kid });
+  const body = b64url({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    token_use: 'id',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...payload,
+  });
+  const signature = createSign('RSA-SHA256').update(`${header}.${body}`).sign(key).toString('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+const originalAuthEnv = { ...process.env };
+
+beforeAll(() => {
+  fs.writeFileSync(
+    JWKS_FILE,
+    JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' }] })
+  );
+});
+
+beforeEach(() => {
+  process.env.COGNITO_ISSUER = ISSUER;
+  process.env.COGNITO_CLIENT_ID = CLIENT_ID;
+  process.env.COGNITO_JWKS_FILE = JWKS_FILE;
+});
+
+afterAll(() => {
+  process.env = { ...originalAuthEnv };
+  fs.rmSync(JWKS_FILE, { force: true });
+});
+
 // ---------------------------------------------------------------------------
 // Helpers: mock Express objects
 // ---------------------------------------------------------------------------
@@ -33,8 +101,10 @@ function mockRequest(overrides: {
   authorizationHeader?: string;
   xIdTokenHeader?: string;
   cookieHeader?: string;
+  internalApiKeyHeader?: string;
 } = {}): Request {
   const headers: Record<string, string> = {};
+  if (overrides.internalApiKeyHeader) headers['x-internal-api-key'] = overrides.internalApiKeyHeader;
   if (overrides.authorizationHeader) headers['authorization'] = overrides.authorizationHeader;
   if (overrides.xIdTokenHeader) headers['x-id-token'] = overrides.xIdTokenHeader;
   if (overrides.cookieHeader) headers['cookie'] = overrides.cookieHeader;
@@ -165,172 +235,254 @@ describe('decodeJwtPayload', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// verifyJwt - signature and claim checks
+// ---------------------------------------------------------------------------
+
+describe('verifyJwt', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+
+  it('returns the claims of a valid id token', async () => {
+    await expect(verifyJwt(signToken({ sub: 'user-1' }))).resolves.toMatchObject({ sub: 'user-1' });
+  });
+
+  it('accepts access tokens by client_id', async () => {
+    const token = signToken({ sub: 'user-1', token_use: 'access', aud: undefined, client_id: CLIENT_ID });
+    await expect(verifyJwt(token)).resolves.toMatchObject({ token_use: 'access' });
+  });
+
+  it('rejects a token signed by another key', async () => {
+    const { privateKey: otherKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    await expect(verifyJwt(signToken({ sub: 'user-1' }, { key: otherKey }))).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects a tampered payload', async () => {
+    const [header, , signature] = signToken({ sub: 'user-1' }).split('.');
+    const forged = b64url({ sub: 'admin', iss: ISSUER, aud: CLIENT_ID, token_use: 'id', exp: now() + 3600 });
+    await expect(verifyJwt(`${header}.${forged}.${signature}`)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects unsigned and unknown-key tokens', async () => {
+    await expect(verifyJwt(makeToken({ sub: 'user-1' }))).rejects.toThrow('Unsupported token algorithm');
+    await expect(verifyJwt(signToken({ sub: 'user-1' }, { alg: 'none' }))).rejects.toThrow('Unsupported token algorithm');
+    await expect(verifyJwt(signToken({ sub: 'user-1' }, { kid: 'rotated-away' }))).rejects.toThrow('Unknown signing key');
+  });
+
+  it('rejects expired tokens', async () => {
+    await expect(verifyJwt(signToken({ sub: 'user-1', exp: now() - 3600 }))).rejects.toThrow('Token expired');
+    await expect(verifyJwt(signToken({ sub: 'user-1', exp: undefined }))).rejects.toThrow('Token expired');
+  });
+
+  it('rejects the wrong issuer, audience or token use', async () => {
+    await expect(verifyJwt(signToken({ iss: 'https://evil.example.com' }))).rejects.toThrow('issuer');
+    await expect(verifyJwt(signToken({ aud: 'another-client' }))).rejects.toThrow('audience');
+    await expect(verifyJwt(signToken({ token_use: 'refresh' }))).rejects.toThrow('token use');
+  });
+
+  it('refuses to verify when no issuer or audience is configured', async () => {
+    delete process.env.COGNITO_CLIENT_ID;
+    await expect(verifyJwt(signToken({ sub: 'user-1' }))).rejects.toThrow('not configured');
+  });
+
+  it('picks up a rotated key file once the cache is cleared', async () => {
+    const { privateKey: nextKey, publicKey: nextPublic } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const rotatedFile = path.join(os.tmpdir(), `riftbound-auth-jwks-rotated-${process.pid}.json`);
+    fs.writeFileSync(rotatedFile, JSON.stringify({ keys: [{ ...nextPublic.export({ format: 'jwk' }), kid: 'next' }] }));
+    process.env.COGNITO_JWKS_FILE = rotatedFile;
+    try {
+      clearJwksCache();
+      await expect(verifyJwt(signToken({ sub: 'user-1' }, { kid: 'next', key: nextKey }))).resolves.toBeTruthy();
+    } finally {
+      fs.rmSync(rotatedFile, { force: true });
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// allowsUnverifiedIdentity
+// ---------------------------------------------------------------------------
+
+describe('allowsUnverifiedIdentity', () => {
+  it('only honours ALLOW_LOCAL_BYPASS on local stages', () => {
+    process.env.ALLOW_LOCAL_BYPASS = 'true';
+    process.env.NODE_ENV = 'production';
+    process.env.ENVIRONMENT = 'prod';
+    expect(allowsUnverifiedIdentity()).toBe(false);
+
+    process.env.ENVIRONMENT = 'local';
+    expect(allowsUnverifiedIdentity()).toBe(true);
+
+    process.env.ALLOW_LOCAL_BYPASS = 'false';
+    expect(allowsUnverifiedIdentity()).toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // authenticateRequest - token extraction
 // ---------------------------------------------------------------------------
 
 describe('authenticateRequest', () => {
   const payload = { sub: 'user-1', email: 'user@example.com' };
-  const token = makeToken(payload);
+  const token = signToken(payload);
 
   describe('no token present', () => {
-    it('returns null when no auth header, no x-id-token, no cookies', () => {
+    it('returns null when no auth header, no x-id-token, no cookies', async () => {
       const req = mockRequest();
-      expect(authenticateRequest(req)).toBeNull();
+      expect(await authenticateRequest(req)).toBeNull();
     });
 
-    it('returns null when Authorization header is present but not Bearer', () => {
+    it('returns null when Authorization header is present but not Bearer', async () => {
       const req = mockRequest({ authorizationHeader: `Basic somebase64stuff` });
-      expect(authenticateRequest(req)).toBeNull();
+      expect(await authenticateRequest(req)).toBeNull();
     });
 
-    it('returns null when Authorization header is just "Bearer " with no token', () => {
+    it('returns null when Authorization header is just "Bearer " with no token', async () => {
       const req = mockRequest({ authorizationHeader: 'Bearer ' });
       // Empty string after trim → decodeJwtPayload('') → null
-      expect(authenticateRequest(req)).toBeNull();
+      expect(await authenticateRequest(req)).toBeNull();
     });
   });
 
   describe('Bearer token in Authorization header', () => {
-    it('returns AuthContext when Bearer token has sub claim', () => {
+    it('returns AuthContext when Bearer token has sub claim', async () => {
       const req = mockRequest({ authorizationHeader: `Bearer ${token}` });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result).not.toBeNull();
       expect(result!.userId).toBe('user-1');
       expect(result!.token).toBe(token);
-      expect(result!.payload).toEqual(payload);
+      expect(result!.payload).toMatchObject(payload);
     });
 
-    it('uses email as userId when sub is absent', () => {
+    it('uses email as userId when sub is absent', async () => {
       const emailOnlyPayload = { email: 'only@email.com' };
-      const emailToken = makeToken(emailOnlyPayload);
+      const emailToken = signToken(emailOnlyPayload);
       const req = mockRequest({ authorizationHeader: `Bearer ${emailToken}` });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result).not.toBeNull();
       expect(result!.userId).toBe('only@email.com');
     });
 
-    it('returns null when token has neither sub nor email', () => {
+    it('returns null when token has neither sub nor email', async () => {
       const noIdPayload = { iss: 'somewhere', iat: 1234 };
-      const noIdToken = makeToken(noIdPayload);
+      const noIdToken = signToken(noIdPayload);
       const req = mockRequest({ authorizationHeader: `Bearer ${noIdToken}` });
-      expect(authenticateRequest(req)).toBeNull();
+      expect(await authenticateRequest(req)).toBeNull();
     });
 
-    it('returns null when Bearer token is malformed', () => {
+    it('returns null when Bearer token is malformed', async () => {
       const req = mockRequest({ authorizationHeader: 'Bearer notajwt' });
-      expect(authenticateRequest(req)).toBeNull();
+      expect(await authenticateRequest(req)).toBeNull();
     });
 
-    it('prefers sub over email when both are present', () => {
+    it('prefers sub over email when both are present', async () => {
       const bothPayload = { sub: 'sub-user', email: 'email@user.com' };
-      const bothToken = makeToken(bothPayload);
+      const bothToken = signToken(bothPayload);
       const req = mockRequest({ authorizationHeader: `Bearer ${bothToken}` });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result!.userId).toBe('sub-user');
     });
 
-    it('returns null when sub exists but is not a string', () => {
+    it('returns null when sub exists but is not a string', async () => {
       const numericSub = { sub: 12345 };
-      const numericToken = makeToken(numericSub);
+      const numericToken = signToken(numericSub);
       const req = mockRequest({ authorizationHeader: `Bearer ${numericToken}` });
       // sub is not a string, email absent → null
-      expect(authenticateRequest(req)).toBeNull();
+      expect(await authenticateRequest(req)).toBeNull();
     });
 
-    it('falls back to email when sub is numeric (non-string)', () => {
+    it('falls back to email when sub is numeric (non-string)', async () => {
       const numericSubWithEmail = { sub: 12345, email: 'fallback@test.com' };
-      const t = makeToken(numericSubWithEmail);
+      const t = signToken(numericSubWithEmail);
       const req = mockRequest({ authorizationHeader: `Bearer ${t}` });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result!.userId).toBe('fallback@test.com');
     });
   });
 
   describe('x-id-token header (fallback from Authorization)', () => {
-    it('returns AuthContext when x-id-token header is present', () => {
+    it('returns AuthContext when x-id-token header is present', async () => {
       const req = mockRequest({ xIdTokenHeader: token });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result).not.toBeNull();
       expect(result!.userId).toBe('user-1');
       expect(result!.token).toBe(token);
     });
 
-    it('trims whitespace from x-id-token value', () => {
+    it('trims whitespace from x-id-token value', async () => {
       const req = mockRequest({ xIdTokenHeader: `  ${token}  ` });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result).not.toBeNull();
       expect(result!.token).toBe(token);
     });
 
-    it('Authorization Bearer takes precedence over x-id-token', () => {
+    it('Authorization Bearer takes precedence over x-id-token', async () => {
       const altPayload = { sub: 'bearer-user' };
-      const altToken = makeToken(altPayload);
+      const altToken = signToken(altPayload);
       const req = mockRequest({
         authorizationHeader: `Bearer ${altToken}`,
         xIdTokenHeader: token,
       });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result!.userId).toBe('bearer-user');
     });
   });
 
   describe('cookie-based token extraction', () => {
-    it('reads idToken cookie (lowercase) when no header token', () => {
+    it('reads idToken cookie (lowercase) when no header token', async () => {
       const req = mockRequest({ cookieHeader: `idToken=${token}` });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result).not.toBeNull();
       expect(result!.userId).toBe('user-1');
     });
 
-    it('reads IdToken cookie (capitalized) when no header token', () => {
+    it('reads IdToken cookie (capitalized) when no header token', async () => {
       const req = mockRequest({ cookieHeader: `IdToken=${token}` });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result).not.toBeNull();
       expect(result!.userId).toBe('user-1');
     });
 
-    it('prefers idToken (lowercase) over IdToken (capitalized) when both present', () => {
+    it('prefers idToken (lowercase) over IdToken (capitalized) when both present', async () => {
       const altPayload = { sub: 'lowercase-cookie-user' };
-      const altToken = makeToken(altPayload);
+      const altToken = signToken(altPayload);
       const req = mockRequest({
         cookieHeader: `idToken=${altToken}; IdToken=${token}`,
       });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result!.userId).toBe('lowercase-cookie-user');
     });
 
-    it('handles cookies with other values alongside token cookie', () => {
+    it('handles cookies with other values alongside token cookie', async () => {
       const req = mockRequest({ cookieHeader: `session=abc123; idToken=${token}; theme=dark` });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result).not.toBeNull();
       expect(result!.userId).toBe('user-1');
     });
 
-    it('handles URL-encoded values in cookies', () => {
+    it('handles URL-encoded values in cookies', async () => {
       // token with = padding - encode it
       const encoded = encodeURIComponent(token);
       const req = mockRequest({ cookieHeader: `idToken=${encoded}` });
-      const result = authenticateRequest(req);
+      const result = await authenticateRequest(req);
       expect(result).not.toBeNull();
       expect(result!.userId).toBe('user-1');
     });
 
-    it('returns null when cookie token is malformed', () => {
+    it('returns null when cookie token is malformed', async () => {
       const req = mockRequest({ cookieHeader: 'idToken=notajwt' });
-      expect(authenticateRequest(req)).toBeNull();
+      expect(await authenticateRequest(req)).toBeNull();
     });
 
-    it('returns null when cookie header is empty', () => {
+    it('returns null when cookie header is empty', async () => {
       const req = mockRequest({ cookieHeader: '' });
-      expect(authenticateRequest(req)).toBeNull();
+      expect(await authenticateRequest(req)).toBeNull();
     });
   });
 
   describe('AuthContext shape', () => {
-    it('returned AuthContext contains userId, token, and payload', () => {
+    it('returned AuthContext contains userId, token, and payload', async () => {
       const req = mockRequest({ authorizationHeader: `Bearer ${token}` });
-      const result = authenticateRequest(req) as AuthContext;
+      const result = (await authenticateRequest(req)) as AuthContext;
       expect(typeof result.userId).toBe('string');
       expect(typeof result.token).toBe('string');
       expect(typeof result.payload).toBe('object');
@@ -345,100 +497,155 @@ describe('authenticateRequest', () => {
 
 describe('requireAuthenticatedUser', () => {
   const payload = { sub: 'middleware-user', email: 'mw@test.com' };
-  const token = makeToken(payload);
+  const token = signToken(payload);
 
-  it('calls next() and attaches auth data to req when authenticated via Bearer', () => {
+  it('calls next() and attaches auth data to req when authenticated via Bearer', async () => {
     const req = mockRequest({ authorizationHeader: `Bearer ${token}` }) as any;
     const { res } = mockResponse();
     const next = jest.fn();
 
-    requireAuthenticatedUser(req, res, next);
+    await requireAuthenticatedUser(req, res, next);
 
     expect(next).toHaveBeenCalledTimes(1);
     expect(next).toHaveBeenCalledWith(); // no error passed
     expect(req.userId).toBe('middleware-user');
     expect(req.authToken).toBe(token);
-    expect(req.authPayload).toEqual(payload);
+    expect(req.authPayload).toMatchObject(payload);
   });
 
-  it('responds 401 and does NOT call next() when no token is present', () => {
+  it('responds 401 and does NOT call next() when no token is present', async () => {
     const req = mockRequest() as any;
     const { res, status, json } = mockResponse();
     const next = jest.fn();
 
-    requireAuthenticatedUser(req, res, next);
+    await requireAuthenticatedUser(req, res, next);
 
     expect(next).not.toHaveBeenCalled();
     expect(status).toHaveBeenCalledWith(401);
     expect(json).toHaveBeenCalledWith({ error: 'Unauthorized' });
   });
 
-  it('responds 401 when token is malformed', () => {
+  it('responds 401 when token is malformed', async () => {
     const req = mockRequest({ authorizationHeader: 'Bearer bad.token' }) as any;
     const { res, status, json } = mockResponse();
     const next = jest.fn();
 
-    requireAuthenticatedUser(req, res, next);
+    await requireAuthenticatedUser(req, res, next);
 
     expect(next).not.toHaveBeenCalled();
     expect(status).toHaveBeenCalledWith(401);
     expect(json).toHaveBeenCalledWith({ error: 'Unauthorized' });
   });
 
-  it('responds 401 when token has no sub or email', () => {
-    const noIdToken = makeToken({ iss: 'somewhere' });
+  it('responds 401 when token has no sub or email', async () => {
+    const noIdToken = signToken({ iss: 'somewhere' });
     const req = mockRequest({ authorizationHeader: `Bearer ${noIdToken}` }) as any;
     const { res, status } = mockResponse();
     const next = jest.fn();
 
-    requireAuthenticatedUser(req, res, next);
+    await requireAuthenticatedUser(req, res, next);
 
     expect(next).not.toHaveBeenCalled();
     expect(status).toHaveBeenCalledWith(401);
   });
 
-  it('works with x-id-token header', () => {
+  it('works with x-id-token header', async () => {
     const req = mockRequest({ xIdTokenHeader: token }) as any;
     const { res } = mockResponse();
     const next = jest.fn();
 
-    requireAuthenticatedUser(req, res, next);
+    await requireAuthenticatedUser(req, res, next);
 
     expect(next).toHaveBeenCalledTimes(1);
     expect(req.userId).toBe('middleware-user');
   });
 
-  it('works with idToken cookie', () => {
+  it('works with idToken cookie', async () => {
     const req = mockRequest({ cookieHeader: `idToken=${token}` }) as any;
     const { res } = mockResponse();
     const next = jest.fn();
 
-    requireAuthenticatedUser(req, res, next);
+    await requireAuthenticatedUser(req, res, next);
 
     expect(next).toHaveBeenCalledTimes(1);
     expect(req.userId).toBe('middleware-user');
   });
 
-  it('works with IdToken cookie (capitalized)', () => {
+  it('works with IdToken cookie (capitalized)', async () => {
     const req = mockRequest({ cookieHeader: `IdToken=${token}` }) as any;
     const { res } = mockResponse();
     const next = jest.fn();
 
-    requireAuthenticatedUser(req, res, next);
+    await requireAuthenticatedUser(req, res, next);
 
     expect(next).toHaveBeenCalledTimes(1);
     expect(req.userId).toBe('middleware-user');
   });
 
-  it('uses email as userId when sub absent', () => {
-    const emailToken = makeToken({ email: 'only@email.com' });
+  it('uses email as userId when sub absent', async () => {
+    const emailToken = signToken({ email: 'only@email.com' });
     const req = mockRequest({ authorizationHeader: `Bearer ${emailToken}` }) as any;
     const { res } = mockResponse();
     const next = jest.fn();
 
-    requireAuthenticatedUser(req, res, next);
+    await requireAuthenticatedUser(req, res, next);
 
     expect(next).toHaveBeenCalledTimes(1);
     expect(req.userId).toBe('only@email.com');
   });
 });
+
+// ---------------------------------------------------------------------------
+// isAdminUser
+// ---------------------------------------------------------------------------
+
+describe('isAdminUser', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('accepts members of the admin Cognito group', () => {
+    expect(isAdminUser('u1', { 'cognito:groups': ['players', 'admin'] })).toBe(true);
+    expect(isAdminUser('u1', { 'cognito:groups': ['players'] })).toBe(false);
+  });
+
+  it('honours ADMIN_GROUP and ADMIN_USER_IDS', () => {
+    process.env.ADMIN_GROUP = 'judges';
+    process.env.ADMIN_USER_IDS = 'ops-1, ops-2';
+    expect(isAdminUser('u1', { 'cognito:groups': ['judges'] })).toBe(true);
+    expect(isAdminUser('u1', { 'cognito:groups': ['admin'] })).toBe(false);
+    expect(isAdminUser('ops-2', null)).toBe(true);
+  });
+
+  it('rejects anonymous callers', () => {
+    expect(isAdminUser(null, { 'cognito:groups': ['admin'] })).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isInternalRequest
+// ---------------------------------------------------------------------------
+
+describe('isInternalRequest', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('accepts the configured key, as sent by buildInternalApiHeaders', () => {
+    process.env.INTERNAL_API_KEY = 'service-secret';
+    const [, key] = Object.entries(buildInternalApiHeaders())[0];
+    expect(isInternalRequest(mockRequest({ internalApiKeyHeader: key }))).toBe(true);
+    expect(isInternalRequest(mockRequest({ internalApiKeyHeader: 'guess' }))).toBe(false);
+    expect(isInternalRequest(mockRequest())).toBe(false);
+  });
+
+  it('trusts nothing when no key is configured', () => {
+    delete process.env.INTERNAL_API_KEY;
+    expect(buildInternalApiHeaders()).toEqual({});
+    expect(isInternalRequest(mockRequest({ internalApiKeyHeader: 'anything' }))).toBe(false);
+  });
+});
@@ -22,6 +22,7 @@ import express from 'express';
 import request from 'supertest';
 import { cardCatalogRouter } from '../card-catalog-routes';
 import { getCardCatalog, type EnrichedCardRecord } from '../card-catalog';
+import { setDeckFormatCatalog } from '../deck-validation';
 
 const buildApp = () => {
   const app = express();
@@ -203,6 +204,38 @@ describe('GET /api/cards', () => {
     expect(tagIds).toEqual(['e', 'l']);
   });
 
+  it('format keeps only cards legal in that format', async () => {
+    mockGetCardCatalog.mockReturnValue(
+      makeCatalog().map((card) => (card.id === 'l' ? { ...card, setName: 'SFD' } : card))
+    );
+    setDeckFormatCatalog({
+      formats: [
+        {
+          id: 'league',
+          name: 'League',
+          rules: {
+            minDeckSize: 40, maxDeckSize: 40, maxCopies: 3, runeDeckSize: 12, battlefieldCount: 3,
+            maxSideDeckSize: 8, requireChampions: true, domainIdentity: true,
+          },
+          versions: [
+            { version: '1', effectiveFrom: '2025-01-01', legalSets: ['ogn'], banned: ['Jagged Maw'], copyLimits: {} },
+          ],
+        },
+      ],
+    });
+
+    try {
+      const res = await request(app).get('/api/cards').query({ domain: 'chaos', format: 'league' });
+      expect(res.status).toBe(200);
+      expect(res.body.items).toEqual([]);
+
+      const all = await request(app).get('/api/cards').query({ format: 'league' });
+      expect(all.body.pageInfo.total).toBe(10);
+    } finally {
+      setDeckFormatCatalog(null);
+    }
+  });
+
   it('returns 200 with empty items when valid filters match nothing', async () => {
     const res = await request(app).get('/api/cards').query({ domain: 'fury', type: 'rune', rarity: 'mythic' });
     expect(res.status).toBe(200);
@@ -297,4 +330,10 @@ describe('GET /api/cards', () => {
     expect(res.status).toBe(400);
     expect(res.body.error).toMatch(/order/i);
   });
+
+  it('returns 400 when format is unknown', async () => {
+    const res = await request(app).get('/api/cards').query({ format: 'vintage' });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Unknown deck format: vintage');
+  });
 });
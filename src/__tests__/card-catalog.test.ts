@@ -199,4 +199,20 @@ describe('Card Catalog - Effect Profile', () => {
     // Either null or a valid profile
     expect(result === null || typeof result === 'object').toBe(true);
   });
+
+  it.each([
+    ['Kill a unit.', { mode: 'kill' }],
+    ['Banish a unit.', { mode: 'banish' }],
+    ['Banish this. Kill a unit.', { mode: 'kill' }],
+    ['Kill me. Banish an enemy unit.', { mode: 'banish' }],
+    ["Banish a unit. At end of turn, return it to its owner's base.", { mode: 'banish', returnAt: 'end_of_turn' }]
+  ])('buildEffectProfile sets the removal mode of %j', (text, expected) => {
+    const result = buildEffectProfile(
+      text,
+      { timing: 'action', triggers: [], actions: [], requiresTarget: true, reactionWindows: [], stateful: false } as any
+    );
+    const removal = result.operations.find((operation) => operation.type === 'remove_permanent');
+    expect(removal).toMatchObject(expected);
+    expect(removal?.returnAt).toBe((expected as { returnAt?: string }).returnAt);
+  });
 });
@@ -0,0 +1,128 @@
+/**
+ * Deck analytics
+ *
+ * The odds are checked against closed-form values and, for the mulligan,
+ * against a brute-force walk over every ordering of a small deck played by
+ * the engine's rules. Curves, domains and type mix use a mocked catalog.
+ */
+jest.mock('../card-catalog', () => {
+  const records: any[] = [];
+  const add = (id: string, type: string, colors: string[], energy: number | null = null, powerCost = 0) =>
+    records.push({ id, slug: id, name: id, type, colors, tags: [], cost: { energy, powerSymbols: [], raw: null, powerCost } });
+  add('legend', 'Legend', ['Fury', 'Chaos']);
+  add('fury-1', 'Unit', ['Fury'], 1);
+  add('fury-3', 'Spell', ['Fury'], 3, 1);
+  add('chaos-8', 'Unit', ['Chaos'], 8, 2);
+  add('calm-2', 'Unit', ['Calm'], 2, 5);
+  add('gear', 'Gear', [], null);
+  return {
+    findCardById: (id: string) => records.find((r) => r.id === id),
+    findCardBySlug: (slug: string) => records.find((r) => r.slug === slug),
+    findCardByName: (name: string) => records.find((r) => r.name === name)
+  };
+});
+
+import { analyzeDeck, hypergeometricAtLeast, hypergeometricWithMulligan } from '../deck-analysis';
+import { RULE_PROFILES } from '../rule-profiles';
+import { MULLIGAN_MAX_REPLACEMENTS } from '../game-engine';
+
+/** Every ordering of `deck` (true = hit), played hand -> mulligan -> draws. */
+function bruteForce(deck: boolean[], hand: number, laterDraws: number, mulliganMax: number, atLeast: number): number {
+  let hits = 0;
+  let total = 0;
+  const permute = (rest: boolean[], order: boolean[]) => {
+    if (rest.length === 0) {
+      const opening = order.slice(0, hand);
+      let found = opening.filter(Boolean).length;
+      const replaced = found >= atLeast ? 0 : Math.min(mulliganMax, opening.filter((card) => !card).length);
+      const library = order.slice(hand);
+      found += library.slice(0, replaced + laterDraws).filter(Boolean).length;
+      total += 1;
+      hits += found >= atLeast ? 1 : 0;
+      return;
+    }
+    rest.forEach((card, index) => permute([...rest.slice(0, index), ...rest.slice(index + 1)], [...order, card]));
+  };
+  permute(deck, []);
+  return hits / total;
+}
+
+describe('draw odds', () => {
+  it('matches the closed form for a 40-card deck and a 4-card hand', () => {
+    expect(hypergeometricAtLeast(40, 3, 4)).toBeCloseTo(0.277328, 6);
+    expect(hypergeometricAtLeast(40, 3, 7)).toBeCloseTo(0.447773, 6);
+    expect(hypergeometricWithMulligan(40, 3, 4, 0, 2)).toBeCloseTo(0.394332, 6);
+    expect(hypergeometricWithMulligan(40, 3, 4, 3, 2)).toBeCloseTo(0.54504, 5);
+  });
+
+  it('agrees with playing out every ordering of a small deck', () => {
+    const deck = [true, true, true, false, false, false, false, false];
+    for (const atLeast of [1, 2, 3]) {
+      expect(hypergeometricWithMulligan(8, 3, 3, 1, 2, atLeast)).toBeCloseTo(bruteForce(deck, 3, 1, 2, atLeast), 10);
+    }
+  });
+
+  it('handles the edges', () => {
+    expect(hypergeometricAtLeast(40, 0, 10)).toBe(0);
+    expect(hypergeometricAtLeast(40, 40, 1)).toBe(1);
+    expect(hypergeometricAtLeast(10, 2, 50)).toBe(1);
+    expect(hypergeometricAtLeast(0, 0, 4)).toBe(0);
+    expect(hypergeometricWithMulligan(40, 3, 4, 0, 2, 0)).toBe(1);
+  });
+});
+
+describe('analyzeDeck', () => {
+  const deck = {
+    championLegend: { cardId: 'legend', quantity: 1 },
+    cards: [
+      { cardId: 'fury-1', quantity: 3 },
+      { slug: 'fury-3', quantity: 2 },
+      { cardSnapshot: { name: 'chaos-8' }, quantity: 1 },
+      { cardId: 'calm-2', quantity: 2 },
+      { cardId: 'gear', quantity: 1 },
+      { cardId: 'retired', quantity: 1 }
+    ]
+  };
+
+  it('builds curves, domain split against the legend and type mix', () => {
+    const analysis = analyzeDeck(deck, { ruleProfile: RULE_PROFILES.standard });
+
+    expect(analysis.librarySize).toBe(10);
+    expect(analysis.unknownCards).toEqual(['retired']);
+    expect(analysis.energyCurve.map((bucket) => bucket.count)).toEqual([0, 3, 2, 2, 0, 0, 0, 1]);
+    expect(analysis.energyCurve[7]!.label).toBe('7+');
+    expect(analysis.powerCurve.map((bucket) => bucket.count)).toEqual([4, 2, 1, 0, 2]);
+    expect(analysis.averageEnergyCost).toBe(2.63);
+    expect(analysis.legendDomains).toEqual(['fury', 'chaos']);
+    expect(analysis.domains).toEqual([
+      { domain: 'fury', count: 5, inIdentity: true },
+      { domain: 'calm', count: 2, inIdentity: false },
+      { domain: 'chaos', count: 1, inIdentity: true }
+    ]);
+    expect(analysis.colorlessCount).toBe(1);
+    expect(analysis.offIdentityCount).toBe(2);
+    expect(analysis.typeMix).toEqual([
+      { type: 'Unit', count: 6 },
+      { type: 'Spell', count: 2 },
+      { type: 'Gear', count: 1 }
+    ]);
+  });
+
+  it('uses the rule profile hand size and the engine mulligan for draw odds', () => {
+    const analysis = analyzeDeck(deck, { ruleProfile: RULE_PROFILES.quick_play, turns: 2 });
+    const fury1 = analysis.cardOdds[0]!;
+
+    expect(analysis.openingHandSize).toBe(5);
+    expect(analysis.mulliganMax).toBe(MULLIGAN_MAX_REPLACEMENTS);
+    expect(fury1).toEqual(expect.objectContaining({ cardId: 'fury-1', copies: 3, energyCost: 1 }));
+    expect(fury1.byTurn.map((odds) => odds.cardsSeen)).toEqual([5, 6, 7]);
+    expect(fury1.byTurn[1]!.probability).toBeCloseTo(hypergeometricAtLeast(10, 3, 6), 4);
+    expect(fury1.byTurn[1]!.withMulligan).toBeCloseTo(hypergeometricWithMulligan(10, 3, 5, 1, 2), 4);
+    expect(analysis.costOdds.map((odds) => [odds.label, odds.copies])).toEqual([
+      ['1 energy', 3],
+      ['2 energy', 2],
+      ['3 energy', 2],
+      ['7+ energy', 1]
+    ]);
+  });
+});
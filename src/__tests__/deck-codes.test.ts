@@ -0,0 +1,141 @@
+/**
+ * Deck share codes and plain-text decklists
+ *
+ * Codes must round-trip, be canonical and URL-safe, and refuse anything
+ * damaged or from an unknown version. The text parser must read the usual
+ * chat formats. The catalog is mocked with a small fixture.
+ */
+jest.mock('../card-catalog', () => {
+  const records: any[] = [];
+  const add = (id: string, name: string, type: string, tags: string[] = []) =>
+    records.push({ id, slug: name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/-$/, ''), name, type, tags });
+  add('ogn-001', 'Jinx, Loose Cannon', 'Legend');
+  add('ogn-002', 'Jinx, Demolitionist', 'Unit');
+  add('ogn-003', 'Get Excited!', 'Spell');
+  add('ogn-004', 'Fury Rune', 'Rune');
+  add('ogn-005', 'Zaun Warrens', 'Battlefield');
+  add('ogn-006', 'Sun Disc', 'Gear', ['Battlefield']);
+  add('ogn-007', 'Calm Rune', 'Rune');
+  return {
+    findCardById: (id: string) => records.find((r) => r.id === id),
+    findCardBySlug: (slug: string) => records.find((r) => r.slug === slug.toLowerCase()),
+    findCardByName: (name: string) => records.find((r) => r.name.toLowerCase() === name.trim().toLowerCase())
+  };
+});
+
+import zlib from 'node:zlib';
+import { DeckCodeDeck, DeckCodeError, decodeDeckCode, encodeDeckCode, parseDecklistText, toDeckCodeDeck } from '../deck-codes';
+
+const sampleDeck = (): DeckCodeDeck => ({
+  championLegend: { cardId: 'ogn-001', quantity: 1 },
+  championLeader: { cardId: 'ogn-002', quantity: 1 },
+  cards: [
+    { cardId: 'ogn-002', quantity: 2 },
+    { cardId: 'ogn-003', quantity: 3 }
+  ],
+  runeDeck: [
+    { cardId: 'ogn-004', quantity: 9 },
+    { cardId: 'ogn-007', quantity: 3 }
+  ],
+  battlefields: [{ cardId: 'ogn-005', quantity: 1 }],
+  sideDeck: []
+});
+
+const codeFor = (payload: string, version = 1) =>
+  `RB${version}.${zlib.deflateRawSync(Buffer.from(payload, 'utf8')).toString('base64url')}`;
+
+describe('deck codes', () => {
+  it('round-trips a deck through a URL-safe code', () => {
+    const code = encodeDeckCode(sampleDeck());
+
+    expect(code).toMatch(/^RB1\.[A-Za-z0-9_-]+$/);
+    expect(encodeURIComponent(code)).toBe(code);
+    expect(decodeDeckCode(code)).toEqual(sampleDeck());
+  });
+
+  it('is canonical: order and repeated entries do not change the code', () => {
+    const shuffled = sampleDeck();
+    shuffled.cards = [
+      { cardId: 'ogn-002', quantity: 1 },
+      { cardId: 'ogn-003', quantity: 3 },
+      { cardId: 'ogn-002', quantity: 1 }
+    ];
+    shuffled.runeDeck.reverse();
+
+    expect(encodeDeckCode(shuffled)).toBe(encodeDeckCode(sampleDeck()));
+  });
+
+  it('keeps ids containing separator characters intact', () => {
+    const deck = { ...sampleDeck(), sideDeck: [{ cardId: 'promo|1:a,b', quantity: 2 }] };
+
+    expect(decodeDeckCode(encodeDeckCode(deck)).sideDeck).toEqual([{ cardId: 'promo|1:a,b', quantity: 2 }]);
+  });
+
+  it('rejects malformed, damaged and future-version codes', () => {
+    expect(() => decodeDeckCode('hello')).toThrow(new DeckCodeError('Not a deck code'));
+    expect(() => decodeDeckCode('RB1.!!!')).toThrow('Not a deck code');
+    expect(() => decodeDeckCode('RB1.AAAA')).toThrow('Deck code is damaged');
+    expect(() => decodeDeckCode(codeFor('a|b|c'))).toThrow('Deck code is damaged');
+    expect(() => decodeDeckCode(codeFor('a,b|||||'))).toThrow('Deck code is damaged');
+    expect(() => decodeDeckCode(codeFor('||ogn-003:0|||'))).toThrow('Deck code is damaged');
+    expect(() => decodeDeckCode(codeFor('|||||', 2))).toThrow('Unsupported deck code version 2');
+  });
+
+  it('names stored cards by catalog id, keeping references it cannot resolve', () => {
+    expect(
+      toDeckCodeDeck({
+        cards: [{ slug: 'get-excited', quantity: 3 }, { cardId: 'retired-card', quantity: 1 }],
+        championLegend: { slug: 'jinx-loose-cannon', quantity: 1 }
+      })
+    ).toEqual({
+      championLegend: { cardId: 'ogn-001', quantity: 1 },
+      championLeader: null,
+      cards: [
+        { cardId: 'ogn-003', quantity: 3 },
+        { cardId: 'retired-card', quantity: 1 }
+      ],
+      runeDeck: [],
+      battlefields: [],
+      sideDeck: []
+    });
+  });
+});
+
+describe('parseDecklistText', () => {
+  it('reads sectioned lists in the usual quantity styles', () => {
+    const { deck, unresolved } = parseDecklistText(
+      [
+        'Legend: Jinx, Loose Cannon',
+        'Champion:',
+        '1 Jinx, Demolitionist',
+        '',
+        'Main Deck (5):',
+        '3x Get Excited!',
+        'Jinx, Demolitionist x2',
+        '# tech choices',
+        'Runes (12):',
+        '9 fury rune',
+        '3 Calm Rune',
+        'Battlefields',
+        'Zaun Warrens',
+        'Sideboard:',
+        '2x Not A Real Card'
+      ].join('\n')
+    );
+
+    expect(deck).toEqual(sampleDeck());
+    expect(unresolved).toEqual(['2x Not A Real Card']);
+  });
+
+  it('places unsectioned cards by type and rejects a second legend', () => {
+    const { deck, unresolved } = parseDecklistText(
+      'Jinx, Loose Cannon\r\n3x Get Excited!\r\n12 Fury Rune\r\nSun Disc\r\nJinx, Loose Cannon'
+    );
+
+    expect(deck.championLegend).toEqual({ cardId: 'ogn-001', quantity: 1 });
+    expect(deck.cards).toEqual([{ cardId: 'ogn-003', quantity: 3 }]);
+    expect(deck.runeDeck).toEqual([{ cardId: 'ogn-004', quantity: 12 }]);
+    expect(deck.battlefields).toEqual([{ cardId: 'ogn-006', quantity: 1 }]);
+    expect(unresolved).toEqual(['Jinx, Loose Cannon']);
+  });
+});
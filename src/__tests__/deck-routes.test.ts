@@ -0,0 +1,77 @@
+/**
+ * REST /api/decks endpoints - unit tests.
+ *
+ * Validation rules themselves are covered in deck-validation.test.ts; these
+ * pin the request and response contract.
+ */
+
+jest.mock('dotenv/config', () => ({}));
+
+jest.mock('../logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('../card-catalog', () => ({
+  __esModule: true,
+  findCardById: jest.fn((id: string) =>
+    id === 'calm-unit' ? { id, slug: id, name: 'Calm Monk', type: 'Unit', colors: ['Calm'], tags: [] } : undefined
+  ),
+  findCardBySlug: jest.fn(),
+  findCardByName: jest.fn(),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { deckRouter } from '../deck-routes';
+
+const buildApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/decks', deckRouter);
+  return app;
+};
+
+describe('POST /api/decks/validate', () => {
+  it('returns the legality of the deck in the requested format', async () => {
+    const res = await request(buildApp())
+      .post('/api/decks/validate')
+      .send({ deck: { cards: [{ cardId: 'calm-unit', quantity: 3 }, 'mystery'] }, format: 'sandbox' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      legal: false,
+      format: 'sandbox',
+      version: '2025.1',
+      violations: [{ code: 'unknown_card', message: 'Unknown card mystery in the main deck', zone: 'main', cardId: 'mystery' }],
+    });
+  });
+
+  it('defaults to standard', async () => {
+    const res = await request(buildApp())
+      .post('/api/decks/validate')
+      .send({ deck: { cards: [{ cardId: 'calm-unit', quantity: 3 }] } });
+
+    expect(res.status).toBe(200);
+    expect(res.body.format).toBe('standard');
+    expect(res.body.violations.map((v: { code: string }) => v.code)).toEqual([
+      'deck_size',
+      'rune_deck_size',
+      'battlefield_count',
+      'missing_legend',
+      'missing_champion',
+    ]);
+  });
+
+  it('rejects a missing deck and unknown formats', async () => {
+    const app = buildApp();
+
+    const missing = await request(app).post('/api/decks/validate').send({});
+    const unknown = await request(app).post('/api/decks/validate').send({ deck: { cards: [] }, format: 'vintage' });
+
+    expect(missing.status).toBe(400);
+    expect(missing.body.error).toBe('deck is required');
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toBe('Unknown deck format: vintage');
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Deck legality
+ *
+ * validateDecklist reports every construction problem for a format as a
+ * structured violation: sizes, copy limits, card types, battlefield
+ * uniqueness, champion pairing, domain identity and the format's card pool
+ * (bans, legal sets, restricted cards). The catalog is mocked with a small
+ * fixture so each rule can be broken on its own.
+ */
+jest.mock('../card-catalog', () => {
+  const records: any[] = [];
+  const add = (id: string, name: string, type: string, colors: string[], tags: string[] = []) =>
+    records.push({ id, slug: id, name, type, colors, tags, setName: /^fury-1\d$/.test(id) ? 'Spiritforged' : 'Origins' });
+  add('jinx-legend', 'Jinx, Loose Cannon', 'Legend', ['Fury', 'Chaos'], ['Jinx']);
+  add('jinx-unit', 'Jinx, Demolitionist', 'Unit', ['Fury']);
+  add('garen-unit', 'Garen, Rugged', 'Unit', ['Body']);
+  add('calm-unit', 'Calm Monk', 'Unit', ['Calm']);
+  add('gear-1', 'Trusty Blade', 'Gear', []);
+  add('fury-rune', 'Fury Rune', 'Rune', ['Fury']);
+  add('calm-rune', 'Calm Rune', 'Rune', ['Calm']);
+  for (let i = 0; i < 13; i++) {
+    add(`fury-${i}`, `Fury Card ${i}`, i % 2 ? 'Spell' : 'Unit', ['Fury']);
+  }
+  for (let i = 0; i < 4; i++) {
+    add(`bf-${i}`, `Battlefield ${i}`, 'Battlefield', []);
+  }
+  const byId = (id: string) => records.find((r) => r.id === id);
+  return {
+    getCardCatalog: () => records,
+    findCardById: byId,
+    findCardBySlug: (slug: string) => records.find((r) => r.slug === slug.toLowerCase()),
+    findCardByName: (name: string) => records.find((r) => r.name.toLowerCase() === name.toLowerCase())
+  };
+});
+
+import {
+  DeckValidationInput,
+  IllegalDeckError,
+  deckFormatForRuleProfile,
+  getQueueDeckFormat,
+  isCardLegalInFormat,
+  listDeckFormats,
+  parseDeckFormatCatalog,
+  resolveDeckFormat,
+  setDeckFormatCatalog,
+  validateDecklist
+} from '../deck-validation';
+import { findCardById } from '../card-catalog';
+import { CardType } from '../game-engine';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** 39 main-deck cards + Jinx = a standard-legal 40. */
+function legalDeck(): DeckValidationInput {
+  return {
+    cards: Array.from({ length: 13 }, (_, i) => ({ cardId: `fury-${i}`, quantity: 3 })),
+    runeDeck: [{ cardId: 'fury-rune', quantity: 12 }],
+    battlefields: ['bf-0', 'bf-1', 'bf-2'],
+    championLegend: { cardId: 'jinx-legend' },
+    championLeader: { cardId: 'jinx-unit' }
+  };
+}
+
+const codes = (deck: DeckValidationInput, format?: string) =>
+  validateDecklist(deck, format).violations.map((violation) => violation.code);
+
+const STANDARD_RULES = {
+  minDeckSize: 40,
+  maxDeckSize: 40,
+  maxCopies: 3,
+  runeDeckSize: 12,
+  battlefieldCount: 3,
+  maxSideDeckSize: 8,
+  requireChampions: true,
+  domainIdentity: true
+};
+
+/** A league format: Origins only until a spring rotation adds Spiritforged. */
+const leagueCatalog = () => ({
+  queues: { ranked: 'league' },
+  formats: [
+    {
+      id: 'league',
+      name: 'League',
+      rules: STANDARD_RULES,
+      versions: [
+        {
+          version: '2026.2',
+          effectiveFrom: '2026-04-01',
+          legalSets: ['Origins', 'Spiritforged'],
+          banned: ['Fury Card 3'],
+          copyLimits: { 'fury-0': 1 }
+        },
+        { version: '2026.1', effectiveFrom: '2026-01-01', legalSets: ['origins'], banned: [], copyLimits: {} }
+      ]
+    }
+  ]
+});
+
+afterEach(() => {
+  setDeckFormatCatalog(null);
+});
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+describe('deck formats', () => {
+  it('resolves known ids and rejects unknown ones', () => {
+    expect(resolveDeckFormat()).toEqual({
+      id: 'standard',
+      name: 'Standard',
+      ...STANDARD_RULES,
+      version: '2025.1',
+      effectiveFrom: '2025-01-01',
+      legalSets: null,
+      banned: [],
+      copyLimits: {}
+    });
+    expect(resolveDeckFormat('sandbox').id).toBe('sandbox');
+    expect(() => resolveDeckFormat('vintage')).toThrow('Unknown deck format: vintage');
+  });
+
+  it('follows the match rule profile', () => {
+    expect(deckFormatForRuleProfile({ id: 'quick_play' })).toBe('quick_play');
+    expect(deckFormatForRuleProfile({ id: 'house-rules' })).toBe('standard');
+    expect(deckFormatForRuleProfile(null)).toBe('standard');
+  });
+
+  it('picks the newest version in effect on the date', () => {
+    setDeckFormatCatalog(leagueCatalog());
+
+    expect(resolveDeckFormat('league', '2026-02-15').version).toBe('2026.1');
+    expect(resolveDeckFormat('league', '2026-04-01').version).toBe('2026.2');
+    expect(() => resolveDeckFormat('league', '2025-12-31')).toThrow('Deck format league is not in effect yet');
+    expect(listDeckFormats('2025-12-31')).toEqual([]);
+    expect(getQueueDeckFormat('ranked')).toBe('league');
+    expect(getQueueDeckFormat('free')).toBe('standard');
+  });
+
+  it('rejects malformed format data, naming the field', () => {
+    const badDate = leagueCatalog();
+    badDate.formats[0]!.versions[1]!.effectiveFrom = 'soon';
+    const badQueue = { ...leagueCatalog(), queues: { ranked: 'vintage' } };
+
+    expect(() => parseDeckFormatCatalog({ formats: [] })).toThrow('formats must be a non-empty list');
+    expect(() => parseDeckFormatCatalog(badDate)).toThrow('league.versions[1].effectiveFrom must be an ISO date');
+    expect(() => parseDeckFormatCatalog(badQueue)).toThrow('queue ranked uses unknown format vintage');
+    expect(() =>
+      parseDeckFormatCatalog({ formats: [{ ...leagueCatalog().formats[0], rules: { ...STANDARD_RULES, maxCopies: -1 } }] })
+    ).toThrow('league.rules.maxCopies must be a whole number or null');
+  });
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe('validateDecklist', () => {
+  it('accepts a legal deck', () => {
+    expect(validateDecklist(legalDeck(), 'standard')).toEqual({
+      legal: true,
+      format: 'standard',
+      version: '2025.1',
+      violations: []
+    });
+  });
+
+  it('counts the chosen champion toward deck size and copy limits', () => {
+    const deck = legalDeck();
+    deck.cards = [...deck.cards!, { cardId: 'jinx-unit', quantity: 3 }];
+
+    expect(validateDecklist(deck).violations).toEqual([
+      expect.objectContaining({ code: 'deck_size', zone: 'main' }),
+      expect.objectContaining({ code: 'copy_limit', cardId: 'jinx-unit' })
+    ]);
+    expect(validateDecklist(deck).violations[0]!.message).toMatch(/40 cards including the chosen champion \(has 43\)/);
+  });
+
+  it('reports unknown cards and cards in the wrong zone', () => {
+    const deck = legalDeck();
+    deck.cards = [...deck.cards!.slice(1), { slug: 'no-such-card', quantity: 2 }, 'fury-rune'];
+
+    expect(validateDecklist(deck).violations).toEqual([
+      expect.objectContaining({ code: 'unknown_card', cardId: 'no-such-card', zone: 'main' }),
+      expect.objectContaining({ code: 'wrong_card_type', cardId: 'fury-rune', zone: 'main' })
+    ]);
+  });
+
+  it('checks rune and battlefield counts and battlefield uniqueness', () => {
+    const deck = legalDeck();
+    deck.runeDeck = [{ cardId: 'fury-rune', quantity: 11 }];
+    deck.battlefields = ['bf-0', 'bf-0', 'bf-1', 'bf-2'];
+
+    expect(codes(deck)).toEqual(['rune_deck_size', 'battlefield_count', 'duplicate_battlefield']);
+  });
+
+  it('requires a legend and a champion that belongs to it', () => {
+    expect(codes({ ...legalDeck(), championLegend: null, championLeader: null })).toEqual([
+      'deck_size',
+      'missing_legend',
+      'missing_champion'
+    ]);
+    expect(validateDecklist({ ...legalDeck(), championLeader: 'garen-unit' }).violations).toEqual([
+      expect.objectContaining({ code: 'champion_mismatch', cardId: 'garen-unit' }),
+      expect.objectContaining({ code: 'off_domain', cardId: 'garen-unit', zone: 'champion' })
+    ]);
+  });
+
+  it('enforces domain identity, letting domainless cards through', () => {
+    const deck = legalDeck();
+    deck.cards = [...deck.cards!.slice(2), { cardId: 'calm-unit', quantity: 3 }, { cardId: 'gear-1', quantity: 3 }];
+    deck.runeDeck = [{ cardId: 'fury-rune', quantity: 10 }, { cardId: 'calm-rune', quantity: 2 }];
+
+    expect(validateDecklist(deck).violations).toEqual([
+      expect.objectContaining({ code: 'off_domain', cardId: 'calm-unit', zone: 'main' }),
+      expect.objectContaining({ code: 'off_domain', cardId: 'calm-rune', zone: 'rune' })
+    ]);
+  });
+
+  it('is lenient in sandbox', () => {
+    const deck: DeckValidationInput = { mainDeck: Array.from({ length: 5 }, () => 'calm-unit') };
+
+    expect(validateDecklist(deck, 'sandbox').legal).toBe(true);
+    expect(codes({ mainDeck: [] }, 'sandbox')).toEqual(['deck_size']);
+  });
+
+  it('takes engine-style card objects as they are', () => {
+    const deck: DeckValidationInput = {
+      mainDeck: [{ id: 'custom-1', name: 'Custom', type: CardType.CREATURE, text: '' }],
+      runeDeck: [{ id: 'stand-in-rune', name: 'Stand-in Rune', domain: 'fury' } as any]
+    };
+
+    expect(validateDecklist(deck, 'sandbox').violations).toEqual([]);
+  });
+});
+
+describe('format card pool', () => {
+  beforeEach(() => {
+    setDeckFormatCatalog(leagueCatalog());
+  });
+
+  it('rejects sets that have not rotated in yet', () => {
+    const result = validateDecklist(legalDeck(), 'league', '2026-03-01');
+
+    expect(result.version).toBe('2026.1');
+    expect(result.violations.map((violation) => violation.cardId)).toEqual(['fury-10', 'fury-11', 'fury-12']);
+    expect(result.violations[0]).toEqual({
+      code: 'set_not_legal',
+      message: 'Fury Card 10 is from Spiritforged, which is not legal in League (2026.1)',
+      zone: 'main',
+      cardId: 'fury-10'
+    });
+  });
+
+  it('applies bans and per-card copy limits from the version in effect', () => {
+    expect(validateDecklist(legalDeck(), 'league', '2026-05-01').violations).toEqual([
+      expect.objectContaining({ code: 'copy_limit', cardId: 'fury-0', message: 'Fury Card 0 appears 3 times (limit 1)' }),
+      expect.objectContaining({ code: 'banned', cardId: 'fury-3', zone: 'main' })
+    ]);
+  });
+
+  it('tells the card browser which cards are legal', () => {
+    const format = resolveDeckFormat('league', '2026-02-01');
+
+    expect(isCardLegalInFormat(findCardById('fury-0')!, format)).toBe(true);
+    expect(isCardLegalInFormat(findCardById('fury-10')!, format)).toBe(false);
+    expect(isCardLegalInFormat(findCardById('fury-3')!, resolveDeckFormat('league', '2026-04-02'))).toBe(false);
+  });
+});
+
+describe('IllegalDeckError', () => {
+  it('summarizes the first violation and keeps them all', () => {
+    const result = validateDecklist({ ...legalDeck(), championLegend: null, championLeader: null });
+    const error = new IllegalDeckError(result, 'player-1');
+
+    expect(error.message).toBe(
+      'Deck for player player-1 is not legal in standard: Main deck must have 40 cards including the chosen champion (has 39) (and 2 more)'
+    );
+    expect(error.violations).toHaveLength(3);
+    expect(error.statusCode).toBe(400);
+  });
+});
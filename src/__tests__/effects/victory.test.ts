@@ -0,0 +1,55 @@
+/**
+ * support_scoring and win_game handler contract tests.
+ *
+ * The engine adapter path (awardVictoryPoints, winGame, addWinCondition) is
+ * covered in game-engine-win-conditions.test.ts; these pin the patch path.
+ */
+import {
+  BACKEND,
+  describeIfBackend,
+  makeCtx,
+  makeUnit,
+  applyPatches,
+  resetInstanceCounter,
+  EffectOp,
+} from './_harness';
+
+beforeEach(() => {
+  resetInstanceCounter();
+});
+
+describeIfBackend('support_scoring: points from a card effect', () => {
+  it('increments the player\'s points by the op amount', () => {
+    let ctx = makeCtx();
+    const op: EffectOp = { type: 'support_scoring', player: 'p2', amount: 2 };
+    const res = BACKEND!.runOp(ctx, op, makeUnit({ controller: 'p2' }));
+    ctx = applyPatches(ctx, res.patches);
+    expect(ctx.players[1]!.points).toBe(2);
+    expect(ctx.players[0]!.points).toBe(0);
+  });
+});
+
+describeIfBackend('win_game: instant wins and win conditions', () => {
+  it('reports an unconditional win', () => {
+    const ctx = makeCtx();
+    const res = BACKEND!.runOp(ctx, { type: 'win_game', player: 'p1' }, makeUnit());
+    expect(res.patches).toEqual([]);
+    expect(res.log.map((entry) => entry.kind)).toEqual(['win_game']);
+  });
+
+  it('registers a stated condition instead of winning', () => {
+    const ctx = makeCtx();
+    const op: EffectOp = {
+      type: 'win_game',
+      player: 'p1',
+      condition: { kind: 'control_battlefields', threshold: 2 },
+    };
+    const res = BACKEND!.runOp(ctx, op, makeUnit());
+    expect(res.log).toEqual([
+      expect.objectContaining({
+        kind: 'win_condition_registered',
+        payload: { player: 'p1', condition: { kind: 'control_battlefields', threshold: 2 } },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Banishment and exile
+ *
+ * Banish effects resolved through the remove_permanent handler send cards to
+ * their owner's banishment instead of the graveyard; "return at end of turn"
+ * banishes park the card in exile until the end step brings it back.
+ */
+import { extractRemovalFromEffect } from '../card-catalog';
+import { removePermanentHandler } from '../effects/handlers/zones';
+import type { EngineCtx } from '../effects/types';
+import { BoardCard, Card, GamePhase, RiftboundGameEngine } from '../game-engine';
+import { serializePlayerState } from '../game-state-serializer';
+import { createInProgressEngine, makeCreature, makeSpell, resetCardCounter } from './test-helpers';
+
+beforeEach(() => {
+  resetCardCounter();
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function placeUnit(
+  engine: RiftboundGameEngine,
+  playerId: string,
+  overrides: Partial<Card> = {}
+): BoardCard {
+  const player = engine.getGameState().players.find((p) => p.playerId === playerId)!;
+  const card = makeCreature({ energyCost: 0, ...overrides });
+  const boardCard = {
+    ...card,
+    instanceId: `${card.id}_board`,
+    currentToughness: card.toughness ?? 1,
+    isTapped: false,
+    summoned: false,
+    activationState: {
+      cardId: card.id,
+      isStateful: false,
+      active: false,
+      lastChangedAt: Date.now(),
+      history: []
+    },
+    ruleLog: [],
+    location: { zone: 'base' }
+  } as BoardCard;
+  player.board.creatures.push(boardCard);
+  return boardCard;
+}
+
+function castRemoval(engine: RiftboundGameEngine, text: string, target: BoardCard): void {
+  const caster = engine.getCurrentPlayerState();
+  const ctx: EngineCtx = {
+    engine: (engine as any).getEffectsAdapter(),
+    caster,
+    operationContext: { source: makeSpell({ name: 'Removal', text }), boardTarget: target }
+  };
+  // The catalog op for the text, as buildEffectProfile emits it.
+  const op = { type: 'remove_permanent', ...extractRemovalFromEffect(text) };
+  removePermanentHandler.execute(ctx, op as never, ctx.operationContext.source);
+}
+
+function setup() {
+  const engine = createInProgressEngine();
+  const pId = engine.getCurrentPlayerState().playerId;
+  const oId = engine.getGameState().players.find((p) => p.playerId !== pId)!.playerId;
+  return { engine, pId, oId, opponent: () => engine.getPlayerState(oId) };
+}
+
+// ============================================================================
+// Banish
+// ============================================================================
+
+describe('banish via remove_permanent', () => {
+  it('moves the unit to its owner\'s banishment, not the graveyard', () => {
+    const { engine, oId, opponent } = setup();
+    const unit = placeUnit(engine, oId, { name: 'Victim' });
+
+    castRemoval(engine, 'Banish a unit.', unit);
+
+    expect(opponent().board.creatures).toHaveLength(0);
+    expect(opponent().graveyard).toHaveLength(0);
+    expect(opponent().banishment.map((card) => card.instanceId)).toEqual([unit.instanceId]);
+    expect(engine.getGameState().duelLog.some((entry) => entry.message === 'Victim is banished by Removal.')).toBe(true);
+  });
+
+  it('still kills when the card text does not banish', () => {
+    const { engine, oId, opponent } = setup();
+    const unit = placeUnit(engine, oId);
+
+    castRemoval(engine, 'Kill a unit.', unit);
+
+    expect(opponent().graveyard.map((card) => card.instanceId)).toEqual([unit.instanceId]);
+    expect(opponent().banishment).toHaveLength(0);
+  });
+
+  it('kills when banish only appears in another clause of the text', () => {
+    const { engine, oId, opponent } = setup();
+    const unit = placeUnit(engine, oId);
+    const other = placeUnit(engine, oId);
+
+    const third = placeUnit(engine, oId);
+
+    castRemoval(engine, 'When a unit is banished, draw 1. Kill a unit. Then banish this.', unit);
+    castRemoval(engine, "Kill a unit. Units can't be banished this turn.", other);
+    castRemoval(engine, 'Banish this. Kill a unit.', third);
+
+    expect(opponent().graveyard.map((card) => card.instanceId)).toEqual([
+      unit.instanceId,
+      other.instanceId,
+      third.instanceId
+    ]);
+    expect(opponent().banishment).toHaveLength(0);
+  });
+
+  it('removes banished tokens from the game', () => {
+    const { engine, oId, opponent } = setup();
+    const token = placeUnit(engine, oId, { name: 'Recruit Token', tags: ['Token'] });
+
+    castRemoval(engine, 'Banish a unit.', token);
+
+    expect(opponent().board.creatures).toHaveLength(0);
+    expect(opponent().banishment).toHaveLength(0);
+    expect(opponent().graveyard).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// Delayed returns
+// ============================================================================
+
+describe('banish until end of turn', () => {
+  const text = "Banish a unit. At end of turn, return it to its owner's base.";
+
+  it('holds the unit in exile and returns it during the end step', () => {
+    const { engine, oId, opponent } = setup();
+    const unit = placeUnit(engine, oId, { name: 'Blinked', toughness: 3 });
+    unit.currentToughness = 1;
+
+    castRemoval(engine, text, unit);
+
+    expect(opponent().exile.map((card) => card.instanceId)).toEqual([unit.instanceId]);
+    expect(opponent().banishment).toHaveLength(0);
+    expect(engine.getGameState().delayedReturns).toHaveLength(1);
+
+    (engine as any).gameState.currentPhase = GamePhase.MAIN_2;
+    (engine as any).advancePhaseOnce();
+
+    const returned = opponent().board.creatures.find((card) => card.name === 'Blinked');
+    expect(returned).toBeDefined();
+    expect(returned?.instanceId).not.toBe(unit.instanceId);
+    expect(returned?.location.zone).toBe('base');
+    expect(returned?.currentToughness).toBe(3);
+    expect(opponent().exile).toHaveLength(0);
+    expect(engine.getGameState().delayedReturns).toEqual([]);
+  });
+
+  it('survives a save/load round-trip', () => {
+    const { engine, oId } = setup();
+    const unit = placeUnit(engine, oId, { name: 'Blinked' });
+    castRemoval(engine, text, unit);
+
+    const restored = RiftboundGameEngine.fromSerializedState(JSON.parse(JSON.stringify(engine.getGameState())));
+    (restored as any).gameState.currentPhase = GamePhase.MAIN_2;
+    (restored as any).advancePhaseOnce();
+
+    expect(restored.getPlayerState(oId).board.creatures.map((card) => card.name)).toEqual(['Blinked']);
+  });
+});
+
+// ============================================================================
+// State shape
+// ============================================================================
+
+describe('banishment zone state', () => {
+  it('is public in every player view', () => {
+    const { engine, oId } = setup();
+    castRemoval(engine, 'Banish a unit.', placeUnit(engine, oId, { name: 'Gone' }));
+
+    const view = serializePlayerState(engine.getPlayerState(oId), 'opponent');
+    expect(view.banishment.map((card) => card.name)).toEqual(['Gone']);
+  });
+
+  it('is repaired on load for older saved states', () => {
+    const { engine, oId } = setup();
+    const saved = JSON.parse(JSON.stringify(engine.getGameState()));
+    delete saved.delayedReturns;
+    for (const player of saved.players) {
+      delete player.banishment;
+    }
+
+    const restored = RiftboundGameEngine.fromSerializedState(saved);
+    expect(restored.getPlayerState(oId).banishment).toEqual([]);
+    expect(restored.getGameState().delayedReturns).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Match clock — chess-clock banks and response deadlines
+ *
+ * Drives the engine's clock directly against a hand-set state so the
+ * timing rules are checked without playing out a full match.
+ */
+import {
+  RiftboundGameEngine,
+  GameStatus,
+  GamePhase,
+  MatchClockConfig,
+} from '../game-engine';
+
+const CLOCK: MatchClockConfig = {
+  bankMs: 60_000,
+  incrementMs: 5_000,
+  priorityWindowMs: 10_000,
+  promptMs: 20_000,
+};
+
+function createClockedEngine(): RiftboundGameEngine {
+  const engine = new RiftboundGameEngine('clock-match', ['player-1', 'player-2'], { clock: CLOCK });
+  const state = engine.getGameState();
+  state.status = GameStatus.IN_PROGRESS;
+  state.currentPhase = GamePhase.MAIN_1;
+  state.currentPlayerIndex = 0;
+  return engine;
+}
+
+describe('match clock', () => {
+  it('starts every player with a full bank and no running clock', () => {
+    const engine = createClockedEngine();
+    expect(engine.getGameState().clock).toMatchObject({
+      banks: { 'player-1': 60_000, 'player-2': 60_000 },
+      runningFor: null,
+    });
+  });
+
+  it('is absent on untimed matches', () => {
+    const engine = new RiftboundGameEngine('untimed', ['player-1', 'player-2']);
+    expect(engine.getGameState().clock).toBeNull();
+    expect(engine.enforceClock()).toBe(false);
+    expect(engine.getNextClockDeadline()).toBeNull();
+  });
+
+  it('drains the bank of the player the engine is waiting on', () => {
+    const engine = createClockedEngine();
+    engine.syncClock(1_000);
+    expect(engine.getGameState().clock?.runningFor).toBe('player-1');
+
+    engine.syncClock(13_000);
+    expect(engine.getGameState().clock?.banks).toEqual({ 'player-1': 48_000, 'player-2': 60_000 });
+    expect(engine.getNextClockDeadline()).toBe(13_000 + 48_000);
+  });
+
+  it('ends the match as a timeout loss when a bank runs out', () => {
+    const engine = createClockedEngine();
+    engine.syncClock(0);
+
+    expect(engine.enforceClock(60_000)).toBe(true);
+    const result = engine.getMatchResult();
+    expect(result).toMatchObject({ winner: 'player-2', loser: 'player-1', reason: 'timeout' });
+    expect(engine.getGameState().clock?.runningFor).toBeNull();
+    expect(engine.enforceClock(120_000)).toBe(false);
+  });
+
+  it('auto-passes an expired priority window and charges its holder', () => {
+    const engine = createClockedEngine();
+    const state = engine.getGameState();
+    state.priorityWindow = {
+      id: 'pw-1',
+      type: 'reaction',
+      holder: 'player-2',
+      openedAt: 0,
+      event: 'end-step',
+      expiresAt: 10_000,
+    };
+    engine.syncClock(0);
+    expect(engine.getNextClockDeadline()).toBe(10_000);
+
+    expect(engine.enforceClock(5_000)).toBe(false);
+    expect(state.priorityWindow).not.toBeNull();
+
+    expect(engine.enforceClock(10_000)).toBe(true);
+    expect(state.priorityWindow).toBeNull();
+    expect(state.clock?.banks['player-2']).toBe(50_000);
+    expect(state.clock?.runningFor).toBe('player-1');
+    expect(state.duelLog.some((entry) => /ran out of time to respond/.test(entry.message))).toBe(true);
+  });
+
+  it('closes an expired prompt that has no usable default', () => {
+    const engine = createClockedEngine();
+    const state = engine.getGameState();
+    state.prompts.push({
+      id: 'action_1',
+      type: 'action',
+      playerId: 'player-2',
+      data: {},
+      resolved: false,
+      createdAt: 0,
+      expiresAt: 20_000,
+    });
+    engine.syncClock(0);
+    expect(state.clock?.runningFor).toBe('player-2');
+
+    expect(engine.enforceClock(20_000)).toBe(true);
+    expect(state.prompts[0]).toMatchObject({ resolved: true, resolution: { timedOut: true } });
+    expect(state.clock?.runningFor).toBe('player-1');
+  });
+
+  it('stamps deadlines on new priority windows', () => {
+    const engine = createClockedEngine();
+    (engine as any).openPriorityWindow('main', 'player-1', 'turn-start');
+    const window = engine.getGameState().priorityWindow!;
+    expect(window.expiresAt).toBe(window.openedAt + CLOCK.priorityWindowMs);
+  });
+});
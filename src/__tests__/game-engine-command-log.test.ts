@@ -0,0 +1,158 @@
+/**
+ * Command log and deterministic replay
+ *
+ * Accepted engine commands are appended to GameState.commandLog with the
+ * RNG seed, so replayCommands can rebuild the match at any step and the
+ * divergence checker can confirm a stored match reproduces.
+ */
+import { GameState, RiftboundGameEngine, createRng } from '../game-engine';
+import { checkReplayDivergence } from '../replay-divergence';
+import {
+  advancePastBattlefieldSelection,
+  advancePastCoinFlip,
+  advancePastMulligan,
+  createInitializedEngine,
+  resetCardCounter
+} from './test-helpers';
+
+beforeEach(() => {
+  resetCardCounter();
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Save and restore through JSON, the way each match-routes request does. */
+function reload(engine: RiftboundGameEngine): RiftboundGameEngine {
+  return RiftboundGameEngine.fromSerializedState(JSON.parse(JSON.stringify(engine.getGameState())));
+}
+
+/** Play through setup into the first turn, reloading between requests. */
+function playOpening(): { engine: RiftboundGameEngine; steps: GameState[] } {
+  const steps: GameState[] = [];
+  const snapshot = (engine: RiftboundGameEngine) =>
+    steps.push(JSON.parse(JSON.stringify(engine.getGameState())));
+
+  let engine = createInitializedEngine();
+  snapshot(engine);
+  engine = reload(engine);
+  advancePastCoinFlip(engine);
+  engine = reload(engine);
+  advancePastBattlefieldSelection(engine);
+  engine = reload(engine);
+  advancePastMulligan(engine);
+  snapshot(engine);
+  engine = reload(engine);
+  const current = engine.getCurrentPlayerState().playerId;
+  engine.addChatMessage({ playerId: current, message: 'gl hf' });
+  engine.proceedToNextPhase();
+  return { engine, steps };
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+describe('command log', () => {
+  it('records accepted commands with the RNG seed', () => {
+    const engine = new RiftboundGameEngine('log-match', ['player-1', 'player-2'], { rng: createRng('seed-1') });
+    const log = engine.getGameState().commandLog!;
+
+    expect(log).toMatchObject({ matchId: 'log-match', rngSeed: 'seed-1', commands: [] });
+    expect(log.options.ruleProfile.id).toBe('standard');
+
+    const { engine: played } = playOpening();
+    const names = played.getGameState().commandLog!.commands.map((command) => command.name);
+    expect(names[0]).toBe('initializeGame');
+    expect(names).toContain('submitMulligan');
+    expect(names.slice(-2)).toEqual(['addChatMessage', 'proceedToNextPhase']);
+  });
+
+  it('leaves out rejected commands and commands issued by other commands', () => {
+    const engine = createInitializedEngine();
+    const commands = () => engine.getGameState().commandLog!.commands.map((command) => command.name);
+
+    expect(() => engine.submitInitiativeChoice('player-1', 7)).toThrow('Invalid initiative choice');
+    expect(commands()).toEqual(['initializeGame']);
+
+    advancePastCoinFlip(engine);
+    advancePastBattlefieldSelection(engine);
+    advancePastMulligan(engine);
+
+    // The last mulligan starts the first turn through beginTurn, which is
+    // part of that command rather than a command of its own.
+    expect(commands().slice(-2)).toEqual(['submitMulligan', 'submitMulligan']);
+  });
+
+  it('marks the first command after each reload', () => {
+    const { engine } = playOpening();
+    const flags = engine.getGameState().commandLog!.commands.map((command) => command.afterLoad);
+
+    expect(flags[0]).toBe(false);
+    expect(flags.filter(Boolean)).toHaveLength(4);
+  });
+
+  it('resumes the RNG stream after a reload', () => {
+    const rng = createRng(42);
+    rng.next();
+    const resumed = createRng(42, rng.getState!());
+
+    expect(resumed.next()).toBe(rng.next());
+  });
+});
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+describe('replayCommands', () => {
+  it('rebuilds the stored state from the log', () => {
+    const { engine } = playOpening();
+    const stored = JSON.parse(JSON.stringify(engine.getGameState())) as GameState;
+
+    expect(checkReplayDivergence(stored)).toMatchObject({ consistent: true, error: null, divergences: [] });
+  });
+
+  it('rebuilds the state at an earlier step', () => {
+    const { engine, steps } = playOpening();
+    const log = engine.getGameState().commandLog!;
+    const afterMulligan = steps[1];
+
+    const replayed = RiftboundGameEngine.replayCommands(log, afterMulligan.commandLog!.commands.length);
+
+    expect(JSON.parse(JSON.stringify(replayed.getGameState()))).toEqual(afterMulligan);
+  });
+
+  it('rejects steps outside the log', () => {
+    const log = createInitializedEngine().getGameState().commandLog!;
+    expect(() => RiftboundGameEngine.replayCommands(log, 5)).toThrow('Cannot replay to step 5; the log has 1 commands');
+  });
+});
+
+// ============================================================================
+// Divergence
+// ============================================================================
+
+describe('checkReplayDivergence', () => {
+  it('points at state the log cannot explain', () => {
+    const { engine } = playOpening();
+    const stored = JSON.parse(JSON.stringify(engine.getGameState())) as GameState;
+    stored.players[1].victoryPoints = 3;
+
+    const check = checkReplayDivergence(stored);
+
+    expect(check.consistent).toBe(false);
+    expect(check.divergences).toEqual([{ path: 'players[1].victoryPoints', stored: 3, replayed: 0 }]);
+  });
+
+  it('reports matches saved before commands were logged', () => {
+    const stored = JSON.parse(JSON.stringify(createInitializedEngine().getGameState())) as GameState;
+    delete stored.commandLog;
+
+    expect(checkReplayDivergence(stored)).toMatchObject({
+      consistent: false,
+      error: 'Match has no command log'
+    });
+  });
+});
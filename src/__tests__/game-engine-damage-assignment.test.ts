@@ -0,0 +1,218 @@
+/**
+ * Player-chosen combat damage assignment
+ *
+ * Players listed in damageAssignmentPlayerIds answer a damage_assignment
+ * prompt when their damage pool could be split more than one way; everyone
+ * else keeps the automatic Tank-first assignment.
+ */
+import { BoardCard, Card, GamePhase, GamePrompt, RiftboundGameEngine } from '../game-engine';
+import { createInProgressEngine, makeCreature, resetCardCounter } from './test-helpers';
+
+beforeEach(() => {
+  resetCardCounter();
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function setup(optIn: boolean) {
+  const engine = createInProgressEngine();
+  const state = engine.getGameState();
+  const pId = engine.getCurrentPlayerState().playerId;
+  const oId = state.players.find((p) => p.playerId !== pId)!.playerId;
+  const bfId = state.battlefields[0]!.battlefieldId;
+  state.battlefields[0]!.controller = pId;
+  engine.beginTurn();
+  (engine as any).gameState.currentPhase = GamePhase.MAIN_1;
+  if (optIn) {
+    state.damageAssignmentPlayerIds = [pId, oId];
+  }
+  return { engine, pId, oId, bfId };
+}
+
+function placeUnit(
+  engine: RiftboundGameEngine,
+  playerId: string,
+  battlefieldId: string,
+  overrides: Partial<Card>
+): BoardCard {
+  const player = engine.getGameState().players.find((p) => p.playerId === playerId)!;
+  const card = makeCreature({ energyCost: 0, ...overrides });
+  const boardCard = {
+    ...card,
+    instanceId: `${card.id}_bf`,
+    currentToughness: card.toughness ?? 1,
+    isTapped: false,
+    summoned: false,
+    activationState: {
+      cardId: card.id,
+      isStateful: false,
+      active: false,
+      lastChangedAt: Date.now(),
+      history: []
+    },
+    ruleLog: [],
+    location: { zone: 'battlefield', battlefieldId }
+  } as BoardCard;
+  player.board.creatures.push(boardCard);
+  return boardCard;
+}
+
+function fight(engine: RiftboundGameEngine, pId: string, bfId: string): void {
+  engine.commenceBattle(pId, bfId);
+  for (let i = 0; i < 2; i++) {
+    const window = engine.getGameState().priorityWindow;
+    if (window?.type === 'combat') {
+      engine.passPriority(window.holder);
+    }
+  }
+}
+
+function openDamagePrompts(engine: RiftboundGameEngine): GamePrompt[] {
+  return engine
+    .getGameState()
+    .prompts.filter((prompt) => prompt.type === 'damage_assignment' && !prompt.resolved);
+}
+
+function findUnit(engine: RiftboundGameEngine, instanceId: string): BoardCard | undefined {
+  return engine
+    .getGameState()
+    .players.flatMap((p) => p.board.creatures)
+    .find((unit) => unit.instanceId === instanceId);
+}
+
+// ============================================================================
+// Prompting
+// ============================================================================
+
+describe('damage_assignment prompt', () => {
+  it('pauses combat and suggests the automatic split', () => {
+    const { engine, pId, oId, bfId } = setup(true);
+    placeUnit(engine, pId, bfId, { power: 3, toughness: 3 });
+    const first = placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+    const second = placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+
+    fight(engine, pId, bfId);
+
+    // Only the attacker has a choice: the defenders face a single unit.
+    const prompts = openDamagePrompts(engine);
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0].playerId).toBe(pId);
+    expect(prompts[0].data).toMatchObject({
+      battlefieldId: bfId,
+      damagePool: 3,
+      suggested: { [first.instanceId]: 2, [second.instanceId]: 1 }
+    });
+    expect(engine.getGameState().combatContext?.damageAssignments).toEqual({});
+    expect(engine.getGameState().priorityWindow).toBeNull();
+  });
+
+  it('resolves combat with the chosen split', () => {
+    const { engine, pId, oId, bfId } = setup(true);
+    placeUnit(engine, pId, bfId, { power: 3, toughness: 3 });
+    const first = placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+    const second = placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+    fight(engine, pId, bfId);
+    const [prompt] = openDamagePrompts(engine);
+
+    engine.submitDamageAssignment(pId, prompt.id, {
+      [first.instanceId]: 1,
+      [second.instanceId]: 2
+    });
+
+    expect(findUnit(engine, second.instanceId)).toBeUndefined();
+    expect(findUnit(engine, first.instanceId)?.currentToughness).toBe(1);
+    expect(engine.getGameState().combatContext).toBeNull();
+    expect(engine.getGameState().priorityWindow?.type).toBe('main');
+  });
+
+  it('keeps the automatic assignment for players who did not opt in', () => {
+    const { engine, pId, oId, bfId } = setup(false);
+    placeUnit(engine, pId, bfId, { power: 3, toughness: 3 });
+    const first = placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+    placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+
+    fight(engine, pId, bfId);
+
+    expect(openDamagePrompts(engine)).toHaveLength(0);
+    expect(findUnit(engine, first.instanceId)).toBeUndefined();
+    expect(engine.getGameState().combatContext).toBeNull();
+  });
+
+  it('does not prompt when every legal split is the same', () => {
+    const { engine, pId, oId, bfId } = setup(true);
+    placeUnit(engine, pId, bfId, { power: 4, toughness: 5 });
+    placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+    placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+
+    fight(engine, pId, bfId);
+
+    expect(openDamagePrompts(engine)).toHaveLength(0);
+    expect(engine.getGameState().combatContext).toBeNull();
+  });
+
+  it('applies the suggested split when the prompt times out', () => {
+    const { engine, pId, oId, bfId } = setup(true);
+    placeUnit(engine, pId, bfId, { power: 3, toughness: 3 });
+    const first = placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+    const second = placeUnit(engine, oId, bfId, { power: 2, toughness: 2 });
+    fight(engine, pId, bfId);
+
+    (engine as any).applyPromptDefault(openDamagePrompts(engine)[0]);
+
+    expect(findUnit(engine, first.instanceId)).toBeUndefined();
+    expect(findUnit(engine, second.instanceId)?.currentToughness).toBe(1);
+    expect(engine.getGameState().combatContext).toBeNull();
+  });
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe('submitDamageAssignment validation', () => {
+  it('rejects splits that break the assignment rules', () => {
+    const { engine, pId, oId, bfId } = setup(true);
+    placeUnit(engine, pId, bfId, { power: 4, toughness: 5 });
+    const tank = placeUnit(engine, oId, bfId, { power: 1, toughness: 2, keywords: ['Tank'] });
+    const plainA = placeUnit(engine, oId, bfId, { power: 1, toughness: 3 });
+    const plainB = placeUnit(engine, oId, bfId, { power: 1, toughness: 3 });
+    fight(engine, pId, bfId);
+    const [prompt] = openDamagePrompts(engine);
+    const submit = (assignments: Record<string, number>, playerId = pId) => () =>
+      engine.submitDamageAssignment(playerId, prompt.id, assignments);
+
+    expect(submit({ [tank.instanceId]: 4 }, oId)).toThrow('does not belong to this player');
+    expect(submit({ [tank.instanceId]: 3 })).toThrow('Assign exactly 4 damage');
+    expect(submit({ 'not-a-unit': 4 })).toThrow('is not an enemy unit');
+    expect(submit({ [plainA.instanceId]: 3, [tank.instanceId]: 1 })).toThrow(
+      'Tank units must be assigned lethal damage first'
+    );
+    expect(submit({ [tank.instanceId]: 2, [plainA.instanceId]: 2 })).toThrow(
+      'Assign lethal damage to a unit before damaging the next one'
+    );
+
+    engine.submitDamageAssignment(pId, prompt.id, { [tank.instanceId]: 3, [plainB.instanceId]: 1 });
+    expect(findUnit(engine, tank.instanceId)).toBeUndefined();
+    expect(findUnit(engine, plainA.instanceId)?.currentToughness).toBe(3);
+    expect(findUnit(engine, plainB.instanceId)?.currentToughness).toBe(2);
+    expect(submit({ [tank.instanceId]: 4 })).toThrow('Damage assignment prompt not found');
+  });
+
+  it('only allows excess damage once every unit has lethal', () => {
+    const { engine, pId, oId, bfId } = setup(true);
+    placeUnit(engine, pId, bfId, { power: 4, toughness: 9 });
+    const first = placeUnit(engine, oId, bfId, { power: 1, toughness: 2 });
+    const second = placeUnit(engine, oId, bfId, { power: 1, toughness: 3 });
+    fight(engine, pId, bfId);
+    const [prompt] = openDamagePrompts(engine);
+
+    expect(() =>
+      engine.submitDamageAssignment(pId, prompt.id, { [first.instanceId]: 4 })
+    ).toThrow('Excess damage can only be assigned once every enemy unit has lethal damage');
+    engine.submitDamageAssignment(pId, prompt.id, { [second.instanceId]: 3, [first.instanceId]: 1 });
+    expect(findUnit(engine, second.instanceId)).toBeUndefined();
+    expect(findUnit(engine, first.instanceId)?.currentToughness).toBe(1);
+  });
+});
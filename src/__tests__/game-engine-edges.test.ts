@@ -686,9 +686,9 @@ describe('Concede - concedeMatch', () => {
     const pId = currentPlayerId(engine);
     const oId = opponentPlayerId(engine);
     const result = engine.concedeMatch(pId);
-    expect(result.winner).toBe(oId);
-    expect(result.loser).toBe(pId);
-    expect(result.reason).toBe('concede');
+    expect(result!.winner).toBe(oId);
+    expect(result!.loser).toBe(pId);
+    expect(result!.reason).toBe('concede');
   });
 
   it('should return the existing result when concede called on already-ended match', () => {
@@ -700,7 +700,7 @@ describe('Concede - concedeMatch', () => {
     engine.concedeMatch(pId);
     // Second call should return the already-decided result without throwing
     const result = engine.concedeMatch(oId);
-    expect(result.winner).toBe(oId); // Same winner as before
+    expect(result!.winner).toBe(oId); // Same winner as before
   });
 
   it('should add a log entry for the concession', () => {
@@ -1344,6 +1344,7 @@ describe('Card Zone Integrity', () => {
         player.hand.length +
         player.graveyard.length +
         player.exile.length +
+        player.banishment.length +
         player.board.creatures.length +
         player.board.artifacts.length +
         player.board.enchantments.length;
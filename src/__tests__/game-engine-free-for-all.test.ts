@@ -0,0 +1,285 @@
+/**
+ * Free-for-all (3-4 player) matches
+ *
+ * Turns, priority windows and the reaction chain go round the table in seat
+ * order; combat can have more than two sides; conceding eliminates a player
+ * until only one remains.
+ */
+import { BoardCard, Card, GamePhase, GameStatus, RiftboundGameEngine } from '../game-engine';
+import { buildDeckConfig, makeCreature, makeSpell, resetCardCounter } from './test-helpers';
+
+beforeEach(() => {
+  resetCardCounter();
+});
+
+const PLAYERS = ['player-1', 'player-2', 'player-3'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createEngine(players = PLAYERS, firstPlayerId?: string): RiftboundGameEngine {
+  const engine = new RiftboundGameEngine('ffa-match', players);
+  engine.initializeGame(
+    Object.fromEntries(players.map((playerId) => [playerId, buildDeckConfig()])),
+    { firstPlayerId }
+  );
+  return engine;
+}
+
+function selectBattlefields(engine: RiftboundGameEngine, players: string[]): void {
+  for (let i = 0; i < 8 && engine.status === GameStatus.BATTLEFIELD_SELECTION; i++) {
+    for (const playerId of players) {
+      const prompt = engine
+        .getGameState()
+        .prompts.find((p) => p.type === 'battlefield' && p.playerId === playerId && !p.resolved);
+      const option = (prompt?.data as any)?.options?.[0];
+      if (option) {
+        engine.selectBattlefield(playerId, option.cardId);
+      }
+    }
+  }
+}
+
+function startMatch(players = PLAYERS): RiftboundGameEngine {
+  const engine = createEngine(players, players[0]);
+  selectBattlefields(engine, players);
+  for (const playerId of players) {
+    engine.submitMulligan(playerId, []);
+  }
+  return engine;
+}
+
+function placeUnit(
+  engine: RiftboundGameEngine,
+  playerId: string,
+  battlefieldId: string,
+  overrides: Partial<Card>
+): BoardCard {
+  const card = makeCreature({ energyCost: 0, ...overrides });
+  const boardCard = {
+    ...card,
+    instanceId: `${card.id}_bf`,
+    currentToughness: card.toughness ?? 1,
+    isTapped: false,
+    summoned: false,
+    activationState: {
+      cardId: card.id,
+      isStateful: false,
+      active: false,
+      lastChangedAt: Date.now(),
+      history: []
+    },
+    ruleLog: [],
+    location: { zone: 'battlefield', battlefieldId }
+  } as BoardCard;
+  engine.getPlayerState(playerId).board.creatures.push(boardCard);
+  return boardCard;
+}
+
+function endTurn(engine: RiftboundGameEngine): void {
+  (engine as any).endTurn();
+}
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+describe('free-for-all setup', () => {
+  it('picks a random first player instead of running the initiative duel', () => {
+    const engine = createEngine();
+    const state = engine.getGameState();
+    const firstId = engine.getCurrentPlayerState().playerId;
+
+    expect(engine.status).toBe(GameStatus.BATTLEFIELD_SELECTION);
+    expect(state.prompts.some((prompt) => prompt.type === 'coin_flip')).toBe(false);
+    expect(state.initiativeWinner).toBe(firstId);
+    expect(state.initiativeLoser).toBeNull();
+    expect(state.duelLog.some((entry) => entry.message.endsWith('is chosen at random to go first.'))).toBe(true);
+    for (const player of state.players) {
+      expect(player.firstTurnRuneBoost ?? 0).toBe(player.playerId === firstId ? 0 : 1);
+    }
+  });
+
+  it('puts one battlefield per player into play', () => {
+    const players = [...PLAYERS, 'player-4'];
+    const engine = startMatch(players);
+
+    expect(engine.status).toBe(GameStatus.IN_PROGRESS);
+    expect(engine.getGameState().battlefields).toHaveLength(4);
+  });
+});
+
+// ============================================================================
+// Turn order and priority
+// ============================================================================
+
+describe('free-for-all turn order', () => {
+  it('passes the turn round the table and counts a round once', () => {
+    const engine = startMatch();
+    const startRound = engine.getGameState().turnNumber;
+    const seen: string[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      endTurn(engine);
+      seen.push(engine.getCurrentPlayerState().playerId);
+    }
+
+    expect(seen).toEqual(['player-2', 'player-3', 'player-1']);
+    expect(engine.getGameState().turnNumber).toBe(startRound + 1);
+  });
+
+  it('offers an opponents\' priority window to each opponent before closing it', () => {
+    const engine = startMatch();
+    (engine as any).openPriorityWindow('main', 'player-2', 'test');
+
+    engine.passPriority('player-2');
+    expect(engine.getGameState().priorityWindow?.holder).toBe('player-3');
+
+    engine.passPriority('player-3');
+    expect(engine.getGameState().priorityWindow).toBeNull();
+  });
+
+  it('lets every other player respond before the chain resolves', () => {
+    const engine = startMatch();
+    (engine as any).gameState.reactionChain = {
+      id: 'ffa-chain',
+      items: [
+        {
+          id: 'item-1',
+          type: 'spell',
+          card: makeSpell({ energyCost: 0 }),
+          casterId: 'player-1',
+          targets: [],
+          targetDescriptions: [],
+          createdAt: Date.now()
+        }
+      ],
+      currentReactorId: 'player-2',
+      originalCasterId: 'player-1',
+      awaitingResponse: true,
+      createdAt: Date.now(),
+      lastUpdatedAt: Date.now()
+    };
+
+    const resolve = jest.spyOn(engine as any, 'resolveReactionChain').mockImplementation(() => undefined);
+
+    engine.respondToChainReaction('player-2', true);
+    expect(engine.getGameState().reactionChain?.currentReactorId).toBe('player-3');
+    expect(resolve).not.toHaveBeenCalled();
+
+    engine.respondToChainReaction('player-3', true);
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ============================================================================
+// Combat
+// ============================================================================
+
+describe('free-for-all combat', () => {
+  function fight(engine: RiftboundGameEngine, battlefieldId: string): void {
+    if (!engine.getGameState().combatContext) {
+      engine.commenceBattle('player-1', battlefieldId);
+    }
+    for (let i = 0; i < 6 && engine.getGameState().priorityWindow?.type === 'combat'; i++) {
+      engine.passPriority(engine.getGameState().priorityWindow!.holder);
+    }
+  }
+
+  function setupCombat() {
+    const engine = startMatch();
+    const state = engine.getGameState();
+    const battlefield = state.battlefields[0]!;
+    battlefield.controller = 'player-1';
+    (engine as any).gameState.currentPhase = GamePhase.MAIN_1;
+    return { engine, bfId: battlefield.battlefieldId };
+  }
+
+  function unitsOf(engine: RiftboundGameEngine, playerId: string): string[] {
+    return engine.getPlayerState(playerId).board.creatures.map((unit) => unit.instanceId);
+  }
+
+  it('records every defending player and resolves a three-sided fight', () => {
+    const { engine, bfId } = setupCombat();
+    const attacker = placeUnit(engine, 'player-1', bfId, { power: 5, toughness: 9 });
+    placeUnit(engine, 'player-2', bfId, { power: 2, toughness: 2 });
+    placeUnit(engine, 'player-3', bfId, { power: 2, toughness: 2 });
+
+    engine.commenceBattle('player-1', bfId);
+    expect(engine.getGameState().combatContext?.defendingPlayerIds).toEqual(['player-2', 'player-3']);
+    fight(engine, bfId);
+
+    expect(unitsOf(engine, 'player-1')).toEqual([attacker.instanceId]);
+    expect(unitsOf(engine, 'player-2')).toEqual([]);
+    expect(unitsOf(engine, 'player-3')).toEqual([]);
+    expect(engine.getGameState().battlefields[0]!.controller).toBe('player-1');
+  });
+
+  it('leaves the battlefield contested when two sides survive', () => {
+    const { engine, bfId } = setupCombat();
+    placeUnit(engine, 'player-1', bfId, { power: 1, toughness: 1 });
+    placeUnit(engine, 'player-2', bfId, { power: 1, toughness: 5 });
+    placeUnit(engine, 'player-3', bfId, { power: 1, toughness: 5 });
+
+    fight(engine, bfId);
+
+    expect(unitsOf(engine, 'player-1')).toEqual([]);
+    expect(engine.getGameState().battlefields[0]!.contestedBy.sort()).toEqual(['player-2', 'player-3']);
+  });
+});
+
+// ============================================================================
+// Elimination
+// ============================================================================
+
+describe('free-for-all elimination', () => {
+  it('eliminates a conceding player and carries on while two remain', () => {
+    const engine = startMatch();
+    const bfId = engine.getGameState().battlefields[1]!.battlefieldId;
+    engine.getGameState().battlefields[1]!.controller = 'player-2';
+    placeUnit(engine, 'player-2', bfId, { power: 1, toughness: 1 });
+
+    expect(engine.concedeMatch('player-2')).toBeNull();
+
+    const state = engine.getGameState();
+    expect(engine.status).toBe(GameStatus.IN_PROGRESS);
+    expect(engine.getPlayerState('player-2').eliminated).toBe(true);
+    expect(engine.getPlayerState('player-2').board.creatures).toEqual([]);
+    expect(state.battlefields[1]!.controller).toBeUndefined();
+    expect(() => engine.concedeMatch('player-2')).toThrow('Player has already left the match');
+
+    endTurn(engine);
+    expect(engine.getCurrentPlayerState().playerId).toBe('player-3');
+  });
+
+  it('hands the turn on when the turn player concedes', () => {
+    const engine = startMatch();
+
+    engine.concedeMatch('player-1');
+
+    expect(engine.getCurrentPlayerState().playerId).toBe('player-2');
+    expect(engine.status).toBe(GameStatus.IN_PROGRESS);
+  });
+
+  it('ends the match when the second-to-last player leaves', () => {
+    const engine = startMatch();
+    engine.concedeMatch('player-2');
+
+    const result = engine.concedeMatch('player-3');
+
+    expect(engine.status).toBe(GameStatus.WINNER_DETERMINED);
+    expect(result).toMatchObject({ winner: 'player-1', loser: 'player-3', reason: 'concede' });
+    expect(result!.losers).toEqual(['player-2', 'player-3']);
+  });
+
+  it('lists every other seat as a loser in an adjudication', () => {
+    const engine = startMatch();
+
+    engine.adjudicateResult('player-3', { adjudicatorId: 'judge-1', note: 'Table ruling', at: 7 });
+
+    expect(engine.getGameState().adjudications).toEqual([
+      expect.objectContaining({ winner: 'player-3', losers: ['player-1', 'player-2'] })
+    ]);
+  });
+});
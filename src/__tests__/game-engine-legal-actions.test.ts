@@ -0,0 +1,244 @@
+/**
+ * getLegalActions
+ *
+ * One list of everything a player may do, built from the same checks the
+ * commands run. Every listed action has to be accepted by its command, and
+ * only the player holding the turn, priority or a prompt gets anything more
+ * than conceding.
+ */
+import { BoardCard, Card, GamePhase, GameStatus, LegalAction, RiftboundGameEngine } from '../game-engine';
+import {
+  advancePastBattlefieldSelection,
+  advancePastCoinFlip,
+  createInitializedEngine,
+  createInProgressEngine,
+  makeCreature,
+  resetCardCounter
+} from './test-helpers';
+
+beforeEach(() => {
+  resetCardCounter();
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function startTurn(): { engine: RiftboundGameEngine; playerId: string; opponentId: string } {
+  const engine = createInProgressEngine();
+  (engine as any).gameState.currentPhase = GamePhase.MAIN_1;
+  const playerId = engine.getCurrentPlayerState().playerId;
+  const opponentId = engine.getGameState().players.find((p) => p.playerId !== playerId)!.playerId;
+  return { engine, playerId, opponentId };
+}
+
+function placeUnit(
+  engine: RiftboundGameEngine,
+  playerId: string,
+  overrides: Partial<BoardCard> = {}
+): BoardCard {
+  const card = makeCreature({ energyCost: 0 });
+  const unit = {
+    ...card,
+    instanceId: `${card.id}_unit`,
+    currentToughness: card.toughness ?? 1,
+    isTapped: false,
+    summoned: false,
+    activationState: {
+      cardId: card.id,
+      isStateful: false,
+      active: false,
+      lastChangedAt: Date.now(),
+      history: []
+    },
+    ruleLog: [],
+    location: { zone: 'base' },
+    ...overrides
+  } as BoardCard;
+  engine.getPlayerState(playerId).board.creatures.push(unit);
+  return unit;
+}
+
+function giveCard(engine: RiftboundGameEngine, playerId: string, card: Card): number {
+  const hand = engine.getPlayerState(playerId).hand;
+  hand.push({ ...card, energyCost: 0, powerCost: undefined });
+  return hand.length - 1;
+}
+
+function kinds(actions: LegalAction[]): string[] {
+  return actions.map((action) => action.kind);
+}
+
+function find<K extends LegalAction['kind']>(
+  actions: LegalAction[],
+  kind: K,
+  match: (action: Extract<LegalAction, { kind: K }>) => boolean = () => true
+): Extract<LegalAction, { kind: K }> | undefined {
+  return actions.find(
+    (action): action is Extract<LegalAction, { kind: K }> =>
+      action.kind === kind && match(action as Extract<LegalAction, { kind: K }>)
+  );
+}
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+describe('getLegalActions during setup', () => {
+  it('offers each player their initiative choice', () => {
+    const engine = createInitializedEngine();
+
+    for (const playerId of ['player-1', 'player-2']) {
+      const actions = engine.getLegalActions(playerId);
+      expect(find(actions, 'submit_initiative')?.choices).toEqual([0, 1, 2]);
+      expect(kinds(actions)).toEqual(['submit_initiative', 'concede']);
+    }
+  });
+
+  it('lists the battlefield options from the selection prompt', () => {
+    const engine = createInitializedEngine();
+    advancePastCoinFlip(engine);
+    const prompt = engine
+      .getGameState()
+      .prompts.find((p) => p.type === 'battlefield' && p.playerId === 'player-1' && !p.resolved)!;
+
+    const action = find(engine.getLegalActions('player-1'), 'select_battlefield');
+
+    expect(action?.promptId).toBe(prompt.id);
+    expect(action?.options).toEqual((prompt.data.options as Array<{ cardId: string }>).map((o) => o.cardId));
+  });
+
+  it('offers the mulligan until it is submitted', () => {
+    const engine = createInitializedEngine();
+    advancePastCoinFlip(engine);
+    advancePastBattlefieldSelection(engine);
+
+    expect(find(engine.getLegalActions('player-1'), 'mulligan')?.max).toBe(2);
+    engine.submitMulligan('player-1', []);
+    expect(kinds(engine.getLegalActions('player-1'))).toEqual(['concede']);
+  });
+});
+
+// ============================================================================
+// Own turn
+// ============================================================================
+
+describe('getLegalActions on the player\'s turn', () => {
+  it('lists plays, moves and phase advance for the turn player only', () => {
+    const { engine, playerId, opponentId } = startTurn();
+    giveCard(engine, playerId, makeCreature());
+    placeUnit(engine, playerId);
+
+    const actions = engine.getLegalActions(playerId);
+
+    expect(kinds(actions)).toEqual(expect.arrayContaining(['play_card', 'move_unit', 'advance_phase', 'concede']));
+    expect(kinds(engine.getLegalActions(opponentId))).toEqual(['concede']);
+  });
+
+  it('lists every battlefield a unit in base can move to', () => {
+    const { engine, playerId } = startTurn();
+    const unit = placeUnit(engine, playerId);
+    const battlefieldIds = engine.getGameState().battlefields.map((bf) => bf.battlefieldId);
+
+    const move = find(engine.getLegalActions(playerId), 'move_unit', (a) => a.instanceId === unit.instanceId);
+
+    expect(move?.destinations).toEqual(battlefieldIds);
+  });
+
+  it('leaves out tapped units and units that can\'t move', () => {
+    const { engine, playerId } = startTurn();
+    const tapped = placeUnit(engine, playerId, { isTapped: true });
+    const held = placeUnit(engine, playerId, { instanceId: 'held-unit' });
+    engine.addRestriction({ kind: 'cannot_move', instanceId: held.instanceId, duration: 'permanent' });
+
+    const moved = engine
+      .getLegalActions(playerId)
+      .filter((action) => action.kind === 'move_unit')
+      .map((action) => (action as Extract<LegalAction, { kind: 'move_unit' }>).instanceId);
+
+    expect(moved).not.toContain(tapped.instanceId);
+    expect(moved).not.toContain(held.instanceId);
+  });
+
+  it('offers battle and a way back to base for a unit on a battlefield', () => {
+    const { engine, playerId } = startTurn();
+    const battlefieldId = engine.getGameState().battlefields[0]!.battlefieldId;
+    const unit = placeUnit(engine, playerId, { location: { zone: 'battlefield', battlefieldId } });
+
+    const actions = engine.getLegalActions(playerId);
+
+    expect(find(actions, 'commence_battle')?.battlefieldId).toBe(battlefieldId);
+    expect(find(actions, 'move_unit', (a) => a.instanceId === unit.instanceId)?.destinations).toEqual(['base']);
+  });
+
+  it('only lists permanents\' destinations the deployment rules accept', () => {
+    const { engine, playerId } = startTurn();
+    const [owned, open] = engine.getGameState().battlefields;
+    owned!.controller = playerId;
+    open!.controller = undefined;
+    const cardIndex = giveCard(engine, playerId, makeCreature());
+
+    const play = find(engine.getLegalActions(playerId), 'play_card', (a) => a.cardIndex === cardIndex);
+
+    expect(play?.destinations).toEqual(['base', owned!.battlefieldId]);
+  });
+
+  it('lists only actions the engine accepts', () => {
+    const { engine, playerId } = startTurn();
+    const battlefieldId = engine.getGameState().battlefields[0]!.battlefieldId;
+    engine.getGameState().battlefields[0]!.controller = playerId;
+    placeUnit(engine, playerId);
+    placeUnit(engine, playerId, { instanceId: 'fielded', location: { zone: 'battlefield', battlefieldId } });
+    giveCard(engine, playerId, makeCreature());
+    const saved = JSON.stringify(engine.getGameState());
+    const fresh = () => RiftboundGameEngine.fromSerializedState(JSON.parse(saved));
+
+    for (const action of engine.getLegalActions(playerId)) {
+      if (action.kind === 'move_unit') {
+        for (const destination of action.destinations) {
+          expect(() => fresh().moveUnit(playerId, action.instanceId, destination)).not.toThrow();
+        }
+      } else if (action.kind === 'play_card') {
+        for (const destination of action.destinations) {
+          expect(() => fresh().playCard(playerId, action.cardIndex, [], destination)).not.toThrow();
+        }
+      } else if (action.kind === 'commence_battle') {
+        expect(() => fresh().commenceBattle(playerId, action.battlefieldId)).not.toThrow();
+      }
+    }
+  });
+});
+
+// ============================================================================
+// Windows and prompts
+// ============================================================================
+
+describe('getLegalActions in windows and prompts', () => {
+  it('gives the priority holder a pass and nothing else on the opponent\'s turn', () => {
+    const { engine, opponentId } = startTurn();
+    (engine as any).openPriorityWindow('main', opponentId, 'test');
+
+    expect(kinds(engine.getLegalActions(opponentId))).toEqual(['pass_priority', 'concede']);
+  });
+
+  it('holds the turn player to an open prompt', () => {
+    const { engine, playerId } = startTurn();
+    placeUnit(engine, playerId);
+    const prompt = (engine as any).enqueuePrompt('target', playerId, { min: 1, max: 2 });
+
+    expect(engine.getLegalActions(playerId)).toEqual([
+      { kind: 'select_targets', promptId: prompt.id, min: 1, max: 2 },
+      { kind: 'concede' }
+    ]);
+  });
+
+  it('returns nothing once the match is over or for unknown players', () => {
+    const { engine, playerId } = startTurn();
+    expect(engine.getLegalActions('nobody')).toEqual([]);
+
+    engine.concedeMatch(playerId);
+
+    expect(engine.status).toBe(GameStatus.WINNER_DETERMINED);
+    expect(engine.getLegalActions(playerId)).toEqual([]);
+  });
+});
@@ -741,9 +741,9 @@ describe('concedeMatch', () => {
 
     const result = engine.concedeMatch(pId);
 
-    expect(result.winner).toBe(oId);
-    expect(result.loser).toBe(pId);
-    expect(result.reason).toBe('concede');
+    expect(result!.winner).toBe(oId);
+    expect(result!.loser).toBe(pId);
+    expect(result!.reason).toBe('concede');
   });
 
   it('should return existing result if match is already decided', () => {
@@ -755,7 +755,7 @@ describe('concedeMatch', () => {
     // Try to concede again (match already over)
     const result = engine.concedeMatch(oId);
     // Returns existing result
-    expect(result.winner).toBeDefined();
+    expect(result!.winner).toBeDefined();
   });
 });
 
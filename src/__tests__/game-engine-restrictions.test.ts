@@ -0,0 +1,212 @@
+/**
+ * Restriction registry ("can't beats can")
+ *
+ * Prohibitions registered directly or read off card text must be honoured by
+ * every legality check: targeting, moving and playing.
+ */
+import { playRestrictionHandler } from '../effects/handlers/battlefield';
+import type { EngineCtx } from '../effects/types';
+import { BoardCard, Card, CardType, RiftboundGameEngine } from '../game-engine';
+import { createInProgressEngine, makeCreature, makeSpell, resetCardCounter } from './test-helpers';
+
+beforeEach(() => {
+  resetCardCounter();
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function setup() {
+  const engine = createInProgressEngine();
+  const pId = engine.getCurrentPlayerState().playerId;
+  const oId = engine.getGameState().players.find((p) => p.playerId !== pId)!.playerId;
+  return { engine, pId, oId };
+}
+
+function placeUnit(engine: RiftboundGameEngine, playerId: string, overrides: Partial<Card> = {}): BoardCard {
+  const player = engine.getPlayerState(playerId);
+  const card = makeCreature({ energyCost: 0, ...overrides });
+  const boardCard = {
+    ...card,
+    instanceId: `${card.id}_board`,
+    currentToughness: card.toughness ?? 1,
+    isTapped: false,
+    summoned: false,
+    activationState: {
+      cardId: card.id,
+      isStateful: false,
+      active: false,
+      lastChangedAt: Date.now(),
+      history: []
+    },
+    ruleLog: [],
+    location: { zone: 'base' }
+  } as BoardCard;
+  player.board.creatures.push(boardCard);
+  return boardCard;
+}
+
+function addToHand(engine: RiftboundGameEngine, playerId: string, card: Card): number {
+  const hand = engine.getPlayerState(playerId).hand;
+  hand.unshift(card);
+  return 0;
+}
+
+function resolveRestrictionText(
+  engine: RiftboundGameEngine,
+  playerId: string,
+  text: string,
+  target?: BoardCard
+): void {
+  const ctx: EngineCtx = {
+    engine: (engine as any).getEffectsAdapter(),
+    caster: engine.getPlayerState(playerId),
+    operationContext: { source: makeSpell({ name: 'Edict', text }), boardTarget: target }
+  };
+  playRestrictionHandler.execute(ctx, { type: 'play_restriction' } as never, ctx.operationContext.source);
+}
+
+function endTurn(engine: RiftboundGameEngine): void {
+  (engine as any).endTurn();
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+describe('addRestriction', () => {
+  it('blocks targeting a unit for the bound players only', () => {
+    const { engine, pId, oId } = setup();
+    const unit = placeUnit(engine, oId);
+    engine.addRestriction({
+      kind: 'cannot_be_targeted',
+      instanceId: unit.instanceId,
+      playerIds: [pId],
+      duration: 'permanent',
+      sourceName: 'Veil'
+    });
+
+    const caster = engine.getPlayerState(pId);
+    expect(() => (engine as any).validateTargets(caster, makeCreature(), [unit.instanceId])).toThrow(
+      "can't be targeted (Veil)"
+    );
+    const owner = engine.getPlayerState(oId);
+    expect(() => (engine as any).validateTargets(owner, makeCreature(), [unit.instanceId])).not.toThrow();
+  });
+
+  it('filters prohibited units out of getLegalTargets', () => {
+    const { engine, pId, oId } = setup();
+    const shielded = placeUnit(engine, oId);
+    const exposed = placeUnit(engine, oId);
+    const spell = makeSpell({ name: 'Zap' });
+    const index = addToHand(engine, pId, spell);
+    jest.spyOn(engine, 'getSpellTargetingProfile').mockReturnValue({
+      scope: 'enemy_unit',
+      requiresSelection: true,
+      allowFriendly: false,
+      allowEnemy: true,
+      minTargets: 1,
+      maxTargets: 1
+    } as any);
+    engine.addRestriction({ kind: 'cannot_be_targeted', instanceId: shielded.instanceId, duration: 'permanent' });
+
+    expect(engine.getLegalTargets(pId, index).map((candidate) => candidate.targetId)).toEqual([
+      exposed.instanceId
+    ]);
+  });
+
+  it('blocks targeting from a hidden spell and keeps the card hidden', () => {
+    const { engine, pId, oId } = setup();
+    const unit = placeUnit(engine, oId);
+    const battlefield = engine.getGameState().battlefields[0]!;
+    battlefield.hiddenCards.push({
+      instanceId: 'hidden-zap',
+      card: makeSpell({ name: 'Zap' }),
+      ownerId: pId,
+      hiddenOnTurn: engine.getGameState().turnNumber - 1,
+      battlefieldId: battlefield.battlefieldId
+    });
+    engine.addRestriction({
+      kind: 'cannot_be_targeted',
+      instanceId: unit.instanceId,
+      playerIds: [pId],
+      duration: 'permanent',
+      sourceName: 'Veil'
+    });
+
+    expect(() => engine.activateHiddenCard(pId, 'hidden-zap', [unit.instanceId])).toThrow(
+      "can't be targeted (Veil)"
+    );
+    expect(battlefield.hiddenCards.map((hidden) => hidden.instanceId)).toEqual(['hidden-zap']);
+  });
+
+  it('does not stack identical restrictions', () => {
+    const { engine, oId } = setup();
+    const unit = placeUnit(engine, oId);
+    const input = { kind: 'cannot_move' as const, instanceId: unit.instanceId, duration: 'this_turn' as const };
+    const first = engine.addRestriction(input);
+    expect(engine.addRestriction(input).id).toBe(first.id);
+    expect(engine.getGameState().restrictions).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// Card text
+// ============================================================================
+
+describe('restrictions from card text', () => {
+  it('"can\'t move this turn" stops the move and lapses at end of turn', () => {
+    const { engine, pId } = setup();
+    const unit = placeUnit(engine, pId);
+    resolveRestrictionText(engine, pId, "Choose a unit. It can't move this turn.", unit);
+
+    expect(() => engine.moveUnit(pId, unit.instanceId, 'base')).toThrow("can't move (Edict)");
+
+    endTurn(engine);
+    expect(engine.getGameState().restrictions).toEqual([]);
+  });
+
+  it('"opponents can\'t play spells" binds only the opponents', () => {
+    const { engine, pId, oId } = setup();
+    resolveRestrictionText(engine, pId, "Your opponents can't play spells this turn.");
+
+    const spellIndex = addToHand(engine, oId, makeSpell({ name: 'Counter', energyCost: 0 }));
+    expect(() => engine.playCard(oId, spellIndex)).toThrow("Counter can't be played (Edict)");
+
+    const [restriction] = engine.getGameState().restrictions!;
+    expect(restriction).toMatchObject({ kind: 'cannot_play', playerIds: [oId], cardTypes: [CardType.SPELL] });
+  });
+
+  it('reports PROHIBITED from canPlayCard', () => {
+    const { engine, pId } = setup();
+    engine.addRestriction({ kind: 'cannot_play', playerIds: [pId], cardTypes: [CardType.CREATURE], duration: 'this_turn' });
+    const index = addToHand(engine, pId, makeCreature({ energyCost: 0 }));
+
+    expect(engine.canPlayCard(pId, index)).toEqual({ ok: false, reason: 'PROHIBITED' });
+  });
+
+  it('registers a permanent\'s static text while it stays on the board', () => {
+    const { engine, pId, oId } = setup();
+    const index = addToHand(
+      engine,
+      pId,
+      makeCreature({ name: 'Warded', energyCost: 0, text: "This unit can't be targeted by enemy spells." })
+    );
+    engine.playCard(pId, index);
+    const warded = engine.getPlayerState(pId).board.creatures.find((unit) => unit.name === 'Warded')!;
+
+    expect(engine.getGameState().restrictions).toEqual([
+      expect.objectContaining({
+        kind: 'cannot_be_targeted',
+        instanceId: warded.instanceId,
+        playerIds: [oId],
+        duration: 'while_source_on_board'
+      })
+    ]);
+
+    (engine as any).destroyUnit(warded, 'effect');
+    endTurn(engine);
+    expect(engine.getGameState().restrictions).toEqual([]);
+  });
+});
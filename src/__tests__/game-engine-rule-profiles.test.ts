@@ -0,0 +1,134 @@
+/**
+ * Match rule profiles
+ *
+ * A match is played by the profile it was created with: victory score,
+ * opening hand, deck minimum, runes per turn and battlefield count all come
+ * from GameState.ruleProfile, which survives a save/load round-trip.
+ */
+import { RiftboundGameEngine } from '../game-engine';
+import { RULE_PROFILES, RuleProfile, resolveRuleProfile } from '../rule-profiles';
+import {
+  advancePastBattlefieldSelection,
+  advancePastCoinFlip,
+  advancePastMulligan,
+  buildDeckConfig,
+  buildMainDeck,
+  resetCardCounter
+} from './test-helpers';
+
+beforeEach(() => {
+  resetCardCounter();
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function startMatch(ruleProfile?: RuleProfile): RiftboundGameEngine {
+  const engine = new RiftboundGameEngine('profile-match', ['player-1', 'player-2'], { ruleProfile });
+  engine.initializeGame({
+    'player-1': buildDeckConfig(),
+    'player-2': buildDeckConfig()
+  });
+  advancePastCoinFlip(engine);
+  advancePastBattlefieldSelection(engine);
+  advancePastMulligan(engine);
+  return engine;
+}
+
+/** The second player has not drawn for a turn yet, so holds the opening hand. */
+function openingHandSize(engine: RiftboundGameEngine): number {
+  const currentId = engine.getCurrentPlayerState().playerId;
+  return engine.getGameState().players.find((player) => player.playerId !== currentId)!.hand.length;
+}
+
+// ============================================================================
+// resolveRuleProfile
+// ============================================================================
+
+describe('resolveRuleProfile', () => {
+  it('defaults to the standard profile', () => {
+    expect(resolveRuleProfile()).toEqual(RULE_PROFILES.standard);
+    expect(resolveRuleProfile('quick_play')).toEqual(RULE_PROFILES.quick_play);
+  });
+
+  it('applies overrides on top of a built-in profile', () => {
+    expect(resolveRuleProfile({ base: 'quick_play', victoryScore: 6 })).toEqual({
+      ...RULE_PROFILES.quick_play,
+      victoryScore: 6
+    });
+  });
+
+  it('rejects unknown ids and out-of-range settings', () => {
+    expect(() => resolveRuleProfile('marathon')).toThrow('Unknown rule profile: marathon');
+    expect(() => resolveRuleProfile({ victoryScore: 0 })).toThrow('Invalid rule profile setting: victoryScore');
+    expect(() => resolveRuleProfile({ battlefieldCount: 3 })).toThrow(
+      'Invalid rule profile setting: battlefieldCount'
+    );
+  });
+});
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+describe('engine rule profile', () => {
+  it('plays standard matches by the standard numbers', () => {
+    const engine = startMatch();
+    const state = engine.getGameState();
+
+    expect(state.ruleProfile).toEqual(RULE_PROFILES.standard);
+    expect(state.victoryScore).toBe(8);
+    expect(openingHandSize(engine)).toBe(4);
+  });
+
+  it('uses the quick-play victory score, hand size and rune count', () => {
+    const engine = startMatch(RULE_PROFILES.quick_play);
+    const state = engine.getGameState();
+
+    expect(state.victoryScore).toBe(5);
+    expect(state.players.every((player) => player.victoryScore === 5)).toBe(true);
+    expect(openingHandSize(engine)).toBe(5);
+
+    const current = engine.getCurrentPlayerState();
+    current.firstTurnRuneBoost = 0;
+    const before = current.channeledRunes.length;
+    engine.beginTurn();
+    expect(current.channeledRunes.length - before).toBe(3);
+  });
+
+  it('accepts short decks under the sandbox profile only', () => {
+    const shortDecks = () => ({
+      'player-1': buildDeckConfig({ mainDeck: buildMainDeck(10) }),
+      'player-2': buildDeckConfig({ mainDeck: buildMainDeck(10) })
+    });
+
+    const standard = new RiftboundGameEngine('short', ['player-1', 'player-2']);
+    expect(() => standard.initializeGame(shortDecks())).toThrow('requires at least 40');
+
+    const sandbox = new RiftboundGameEngine('short', ['player-1', 'player-2'], {
+      ruleProfile: 'sandbox'
+    });
+    expect(() => sandbox.initializeGame(shortDecks())).not.toThrow();
+  });
+
+  it('keeps the profile across a save/load round-trip', () => {
+    const engine = startMatch(RULE_PROFILES.quick_play);
+    const restored = RiftboundGameEngine.fromSerializedState(JSON.parse(JSON.stringify(engine.getGameState())));
+
+    const current = restored.getCurrentPlayerState();
+    current.firstTurnRuneBoost = 0;
+    const before = current.channeledRunes.length;
+    restored.beginTurn();
+    expect(restored.getGameState().ruleProfile?.id).toBe('quick_play');
+    expect(current.channeledRunes.length - before).toBe(3);
+  });
+
+  it('treats states saved without a profile as standard', () => {
+    const saved = JSON.parse(JSON.stringify(startMatch().getGameState()));
+    delete saved.ruleProfile;
+
+    const restored = RiftboundGameEngine.fromSerializedState(saved);
+    expect(restored.getGameState().ruleProfile).toEqual(RULE_PROFILES.standard);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Take-backs
+ *
+ * In casual matches a player can ask to undo their last action. Every
+ * opponent answers a take_back prompt; once all accept, the state from
+ * before the action is rebuilt from the command log. Ranked matches and
+ * actions that revealed hidden information are refused.
+ */
+import { GameState, RiftboundGameEngine } from '../game-engine';
+import { checkReplayDivergence } from '../replay-divergence';
+import {
+  advancePastBattlefieldSelection,
+  advancePastCoinFlip,
+  advancePastMulligan,
+  buildDeckConfig,
+  createInProgressEngine,
+  resetCardCounter
+} from './test-helpers';
+
+beforeEach(() => {
+  resetCardCounter();
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function startTurn(engine: RiftboundGameEngine = createInProgressEngine()) {
+  const playerId = engine.getCurrentPlayerState().playerId;
+  const opponentId = engine.getGameState().players.find((p) => p.playerId !== playerId)!.playerId;
+  return { engine, playerId, opponentId };
+}
+
+/** Play the first card in hand to base; reveals nothing the opponent cannot see. */
+function playToBase(engine: RiftboundGameEngine, playerId: string): void {
+  engine.playCard(playerId, 0, [], 'base');
+}
+
+function openTakeBackPrompts(engine: RiftboundGameEngine) {
+  return engine.getGameState().prompts.filter((prompt) => prompt.type === 'take_back' && !prompt.resolved);
+}
+
+function stored(engine: RiftboundGameEngine): GameState {
+  return JSON.parse(JSON.stringify(engine.getGameState())) as GameState;
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+describe('requestTakeBack', () => {
+  it('prompts the opponent and offers them an answer', () => {
+    const { engine, playerId, opponentId } = startTurn();
+    playToBase(engine, playerId);
+
+    engine.requestTakeBack(playerId);
+
+    const [prompt] = openTakeBackPrompts(engine);
+    expect(prompt).toMatchObject({ playerId: opponentId, data: { requestedBy: playerId, command: 'playCard' } });
+    expect(engine.getLegalActions(opponentId)).toEqual([
+      { kind: 'respond_take_back', promptId: prompt.id },
+      { kind: 'concede' }
+    ]);
+  });
+
+  it('is offered as a legal action while there is something to take back', () => {
+    const { engine, playerId, opponentId } = startTurn();
+    expect(engine.getLegalActions(playerId)).not.toContainEqual({ kind: 'request_take_back' });
+
+    playToBase(engine, playerId);
+    expect(engine.getLegalActions(playerId)).toContainEqual({ kind: 'request_take_back' });
+    expect(engine.getLegalActions(opponentId)).not.toContainEqual({ kind: 'request_take_back' });
+
+    engine.requestTakeBack(playerId);
+    expect(engine.getLegalActions(playerId)).not.toContainEqual({ kind: 'request_take_back' });
+  });
+
+  it('needs an action of the requester\'s own since setup', () => {
+    const { engine, playerId, opponentId } = startTurn();
+    playToBase(engine, playerId);
+
+    expect(() => engine.requestTakeBack(opponentId)).toThrow('No action to take back');
+    engine.requestTakeBack(playerId);
+    expect(() => engine.requestTakeBack(playerId)).toThrow('A take-back request is already open');
+  });
+
+  it('is refused in ranked matches', () => {
+    const engine = new RiftboundGameEngine('ranked-match', ['player-1', 'player-2'], { matchMode: 'ranked' });
+    engine.initializeGame({ 'player-1': buildDeckConfig(), 'player-2': buildDeckConfig() });
+    advancePastCoinFlip(engine);
+    advancePastBattlefieldSelection(engine);
+    advancePastMulligan(engine);
+    const { playerId } = startTurn(engine);
+    playToBase(engine, playerId);
+
+    expect(() => engine.requestTakeBack(playerId)).toThrow('Take-backs are not allowed in ranked matches');
+    expect(engine.getLegalActions(playerId)).not.toContainEqual({ kind: 'request_take_back' });
+  });
+
+  it('is refused once the action revealed hidden information', () => {
+    const { engine, playerId } = startTurn();
+    const turn = engine.turnNumber;
+    // Ending the turn makes the next player draw.
+    while (engine.turnNumber === turn) {
+      engine.proceedToNextPhase();
+    }
+
+    expect(() => engine.requestTakeBack(playerId)).toThrow(
+      'Cannot take back an action that revealed hidden information'
+    );
+  });
+});
+
+// ============================================================================
+// Answers
+// ============================================================================
+
+describe('respondToTakeBack', () => {
+  it('restores the state from before the action when accepted', () => {
+    const { engine, playerId, opponentId } = startTurn();
+    const handSize = engine.getPlayerState(playerId).hand.length;
+    engine.addChatMessage({ playerId: opponentId, message: 'gl hf' });
+    playToBase(engine, playerId);
+    expect(engine.getPlayerState(playerId).board.creatures).toHaveLength(1);
+
+    engine.requestTakeBack(playerId);
+    expect(engine.respondToTakeBack(opponentId, true)).toBe(true);
+
+    const state = engine.getGameState();
+    expect(engine.getPlayerState(playerId).hand).toHaveLength(handSize);
+    expect(engine.getPlayerState(playerId).board.creatures).toHaveLength(0);
+    expect(state.chatLog.map((entry) => entry.message)).toEqual(['gl hf']);
+    expect(state.duelLog[state.duelLog.length - 1]?.message).toMatch(/takes back their last action/);
+    expect(openTakeBackPrompts(engine)).toHaveLength(0);
+  });
+
+  it('replays to the same state, take-back included', () => {
+    const { engine, playerId, opponentId } = startTurn();
+    playToBase(engine, playerId);
+    engine.requestTakeBack(playerId);
+    engine.respondToTakeBack(opponentId, true);
+    playToBase(engine, playerId);
+
+    expect(checkReplayDivergence(stored(engine))).toMatchObject({ consistent: true, divergences: [] });
+  });
+
+  it('does not take back the same ground twice', () => {
+    const { engine, playerId, opponentId } = startTurn();
+    playToBase(engine, playerId);
+    engine.requestTakeBack(playerId);
+    engine.respondToTakeBack(opponentId, true);
+
+    expect(() => engine.requestTakeBack(playerId)).toThrow('No action to take back');
+  });
+
+  it('leaves the state alone when declined', () => {
+    const { engine, playerId, opponentId } = startTurn();
+    playToBase(engine, playerId);
+    engine.requestTakeBack(playerId);
+
+    expect(engine.respondToTakeBack(opponentId, false)).toBe(false);
+
+    expect(engine.getPlayerState(playerId).board.creatures).toHaveLength(1);
+    expect(openTakeBackPrompts(engine)).toHaveLength(0);
+  });
+
+  it('lapses when the match moved on before the answer', () => {
+    const { engine, playerId, opponentId } = startTurn();
+    playToBase(engine, playerId);
+    engine.requestTakeBack(playerId);
+    const [unit] = engine.getPlayerState(playerId).board.creatures;
+    engine.addRestriction({ kind: 'cannot_move', instanceId: unit.instanceId, duration: 'permanent' });
+
+    expect(engine.respondToTakeBack(opponentId, true)).toBe(false);
+
+    expect(engine.getPlayerState(playerId).board.creatures).toHaveLength(1);
+    const { duelLog } = engine.getGameState();
+    expect(duelLog[duelLog.length - 1]?.message).toMatch(/could not be applied/);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Alternate wins
+ *
+ * Card effects can win the game three ways besides battlefield scoring:
+ * support points that reach the victory score, "you win the game" text, and
+ * win conditions the state checks evaluate after every command. Each ends
+ * the match with its own reason and a duel-log line.
+ */
+import type { EffectOperation } from '../card-catalog';
+import { BoardCard, Card, GameStatus, RiftboundGameEngine } from '../game-engine';
+import { createInProgressEngine, makeCreature, resetCardCounter } from './test-helpers';
+
+beforeEach(() => {
+  resetCardCounter();
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function startTurn() {
+  const engine = createInProgressEngine();
+  const playerId = engine.getCurrentPlayerState().playerId;
+  const opponentId = engine.getGameState().players.find((p) => p.playerId !== playerId)!.playerId;
+  return { engine, playerId, opponentId };
+}
+
+/** Put a unit carrying `text` in the player's base. */
+function placeSource(engine: RiftboundGameEngine, playerId: string, text: string): BoardCard {
+  const card = makeCreature({ text });
+  const unit = {
+    ...card,
+    instanceId: `${card.id}_unit`,
+    currentToughness: card.toughness ?? 1,
+    isTapped: false,
+    summoned: false,
+    activationState: { cardId: card.id, isStateful: false, active: false, lastChangedAt: 0, history: [] },
+    ruleLog: [],
+    location: { zone: 'base' }
+  } as BoardCard;
+  engine.getPlayerState(playerId).board.creatures.push(unit);
+  return unit;
+}
+
+function resolveOps(
+  engine: RiftboundGameEngine,
+  playerId: string,
+  source: Card,
+  operations: Array<Pick<EffectOperation, 'type'> & Partial<EffectOperation>>
+): void {
+  (engine as any).executeEffectOperations(
+    operations.map((op) => ({ automated: false, ...op })),
+    engine.getPlayerState(playerId),
+    { source }
+  );
+}
+
+function lastLogMessage(engine: RiftboundGameEngine): string | undefined {
+  const { duelLog } = engine.getGameState();
+  return duelLog[duelLog.length - 1]?.message;
+}
+
+// ============================================================================
+// Support scoring
+// ============================================================================
+
+describe('support_scoring', () => {
+  it('scores through the engine and wins with reason support', () => {
+    const { engine, playerId } = startTurn();
+    const player = engine.getPlayerState(playerId);
+    player.victoryPoints = player.victoryScore - 1;
+    const source = placeSource(engine, playerId, 'When you play me, score 1 point.');
+
+    resolveOps(engine, playerId, source, [{ type: 'support_scoring' }]);
+
+    expect(engine.status).toBe(GameStatus.WINNER_DETERMINED);
+    expect(engine.getGameState()).toMatchObject({ winner: playerId, endReason: 'support' });
+    expect(engine.getGameState().scoreLog).toEqual([
+      expect.objectContaining({ playerId, amount: 1, reason: 'support' })
+    ]);
+    expect(lastLogMessage(engine)).toMatch(new RegExp(`gains 1 victory point from ${source.name}`));
+  });
+
+  it('routes scoring text through the same award', () => {
+    const { engine, playerId } = startTurn();
+    const source = placeSource(engine, playerId, 'Score 2 points.');
+
+    resolveOps(engine, playerId, source, [{ type: 'scoring' }]);
+
+    expect(engine.getPlayerState(playerId).victoryPoints).toBe(2);
+    expect(engine.getGameState().scoreLog.map((entry) => entry.reason)).toEqual(['support']);
+  });
+});
+
+// ============================================================================
+// Instant wins
+// ============================================================================
+
+describe('win_game', () => {
+  it('ends the match with reason instant_win', () => {
+    const { engine, playerId } = startTurn();
+    const source = placeSource(engine, playerId, 'When you play me, you win the game.');
+
+    resolveOps(engine, playerId, source, [{ type: 'win_game' }]);
+
+    expect(engine.getGameState()).toMatchObject({
+      status: GameStatus.WINNER_DETERMINED,
+      winner: playerId,
+      endReason: 'instant_win'
+    });
+    expect(lastLogMessage(engine)).toMatch(new RegExp(`wins the game with ${source.name}`));
+  });
+
+  it.each([
+    "Opponents can't win the game this turn.",
+    'At the start of your turn, if you have no cards in hand, an opponent wins the game.',
+    "You can't win the game this turn."
+  ])('does not win for text that wins for no one, or for someone else: %s', (text) => {
+    const { engine, playerId } = startTurn();
+    const source = placeSource(engine, playerId, text);
+
+    resolveOps(engine, playerId, source, [{ type: 'win_game' }]);
+
+    expect(engine.status).toBe(GameStatus.IN_PROGRESS);
+    expect(engine.getGameState().winner).toBeFalsy();
+    expect(engine.getGameState().winConditions).toEqual([]);
+  });
+
+  it('does nothing for a condition it cannot check', () => {
+    const { engine, playerId } = startTurn();
+    const source = placeSource(engine, playerId, 'If you have 20 cards in hand, you win the game.');
+
+    resolveOps(engine, playerId, source, [{ type: 'win_game' }]);
+
+    expect(engine.status).toBe(GameStatus.IN_PROGRESS);
+    expect(engine.getGameState().winConditions).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Win conditions
+// ============================================================================
+
+describe('win conditions', () => {
+  it('registers stated conditions and wins once a command leaves them met', () => {
+    const { engine, playerId } = startTurn();
+    const source = placeSource(engine, playerId, 'If you control 2 battlefields, you win the game.');
+
+    resolveOps(engine, playerId, source, [{ type: 'win_game' }]);
+
+    expect(engine.status).toBe(GameStatus.IN_PROGRESS);
+    expect(engine.getGameState().winConditions).toEqual([
+      expect.objectContaining({
+        kind: 'control_battlefields',
+        threshold: 2,
+        playerId,
+        duration: 'while_source_on_board',
+        sourceInstanceId: source.instanceId
+      })
+    ]);
+
+    for (const battlefield of engine.getGameState().battlefields) {
+      battlefield.controller = playerId;
+    }
+    engine.addChatMessage({ playerId, message: 'gg' });
+
+    expect(engine.getGameState()).toMatchObject({ winner: playerId, endReason: 'win_condition' });
+    expect(lastLogMessage(engine)).toMatch(new RegExp(`meets the win condition of ${source.name}`));
+  });
+
+  it('is recorded as a command and not stacked twice', () => {
+    const { engine, playerId } = startTurn();
+    const input = { kind: 'units_at_battlefield' as const, threshold: 7, playerId, duration: 'permanent' as const };
+
+    const first = engine.addWinCondition(input);
+
+    expect(engine.addWinCondition(input)).toBe(first);
+    expect(engine.getGameState().winConditions).toHaveLength(1);
+    const { commands } = engine.getGameState().commandLog!;
+    expect(commands[commands.length - 1]).toMatchObject({ name: 'addWinCondition', args: [input] });
+  });
+
+  it('drops a condition once its source leaves the board', () => {
+    const { engine, playerId } = startTurn();
+    const source = placeSource(engine, playerId, 'If you control 2 battlefields, you win the game.');
+    resolveOps(engine, playerId, source, [{ type: 'win_game' }]);
+    engine.getPlayerState(playerId).board.creatures = [];
+
+    for (const battlefield of engine.getGameState().battlefields) {
+      battlefield.controller = playerId;
+    }
+    engine.addChatMessage({ playerId, message: 'gg' });
+
+    expect(engine.status).toBe(GameStatus.IN_PROGRESS);
+    expect(engine.getGameState().winConditions).toEqual([]);
+  });
+});
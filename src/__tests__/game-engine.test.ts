@@ -43,9 +43,10 @@ describe('RiftboundGameEngine - Construction', () => {
     expect(state.players[1].name).toBe('Bob');
   });
 
-  it('should throw when not exactly 2 players', () => {
-    expect(() => new RiftboundGameEngine('m', ['p1'])).toThrow('exactly 2 players');
-    expect(() => new RiftboundGameEngine('m', ['p1', 'p2', 'p3'])).toThrow('exactly 2 players');
+  it('should throw when not 2 to 4 players', () => {
+    expect(() => new RiftboundGameEngine('m', ['p1'])).toThrow('2 to 4 players');
+    expect(() => new RiftboundGameEngine('m', ['p1', 'p2', 'p3', 'p4', 'p5'])).toThrow('2 to 4 players');
+    expect(() => new RiftboundGameEngine('m', ['p1', 'p2', 'p3'])).not.toThrow();
   });
 
   it('should throw on invalid player descriptor', () => {
@@ -215,9 +216,9 @@ describe('RiftboundGameEngine - Concession', () => {
     if (engine.status !== GameStatus.IN_PROGRESS) return;
 
     const result = engine.concedeMatch('player-2');
-    expect(result.winner).toBe('player-1');
-    expect(result.loser).toBe('player-2');
-    expect(result.reason).toBe('concede');
+    expect(result!.winner).toBe('player-1');
+    expect(result!.loser).toBe('player-2');
+    expect(result!.reason).toBe('concede');
     expect(engine.status).toBe(GameStatus.WINNER_DETERMINED);
   });
 
@@ -232,6 +233,26 @@ describe('RiftboundGameEngine - Concession', () => {
     expect(result!.matchId).toBe('test-match-1');
   });
 
+  it('should let an adjudication override the outcome and record it', () => {
+    const engine = createInProgressEngine();
+    if (engine.status !== GameStatus.IN_PROGRESS) return;
+
+    engine.concedeMatch('player-2');
+    const result = engine.adjudicateResult('player-2', { adjudicatorId: 'judge-1', note: 'Misclick', at: 42 });
+    expect(result).toMatchObject({ winner: 'player-2', loser: 'player-1', reason: 'adjudicated' });
+    expect(engine.getGameState().adjudications).toEqual([
+      {
+        adjudicatorId: 'judge-1',
+        winner: 'player-2',
+        loser: 'player-1',
+        note: 'Misclick',
+        previousWinner: 'player-1',
+        previousReason: 'concede',
+        at: 42
+      }
+    ]);
+  });
+
   it('should have no match result before game ends', () => {
     const engine = createInProgressEngine();
     if (engine.status !== GameStatus.IN_PROGRESS) return;
@@ -8,6 +8,9 @@ import {
   serializeGameState,
   serializePlayerState,
   buildOpponentView,
+  redactGameStateForViewer,
+  redactPlayerViewForViewer,
+  redactMatchEventForViewer,
 } from '../game-state-serializer';
 import {
   GameState,
@@ -93,6 +96,7 @@ function makePlayerState(playerId: string, overrides: Partial<PlayerState> = {})
     hand: [makeCreature({ id: 'hand-c-1' })],
     graveyard: [],
     exile: [],
+    banishment: [],
     board: {
       playerId,
       creatures: [],
@@ -1375,6 +1379,145 @@ describe('buildOpponentView', () => {
   });
 });
 
+// ===========================================================================
+// Viewer redaction
+// ===========================================================================
+
+describe('redactGameStateForViewer', () => {
+  const SECRET = 'p1-secret';
+
+  function makeSecretState(overrides: Partial<GameState> = {}): GameState {
+    const p1 = makePlayerState('player-1', {
+      hand: [makeCreature({ id: `${SECRET}-hand`, name: 'Secret Hand Card' })],
+      runeDeck: [{ ...makeRuneCard(0), id: `${SECRET}-rune` }],
+      deck: [makeCreature({ id: `${SECRET}-deck` })]
+    });
+    const p2 = makePlayerState('player-2');
+    const hiddenCard: HiddenCard = {
+      instanceId: `${SECRET}-hidden_1700000000000_0`,
+      card: makeCreature({ id: `${SECRET}-hidden`, name: 'Face-down Card' }),
+      ownerId: 'player-1',
+      hiddenOnTurn: 1,
+      battlefieldId: 'bf-1'
+    };
+    const prompt: GamePrompt = {
+      id: 'target_1',
+      type: 'target',
+      playerId: 'player-1',
+      data: { sourceCardId: `${SECRET}-prompt`, options: [`${SECRET}-option`] },
+      resolved: false,
+      createdAt: 1000
+    };
+    return makeMinimalGameState({
+      players: [p1, p2],
+      battlefields: [makeBattlefield({ hiddenCards: [hiddenCard] })],
+      prompts: [prompt],
+      moveHistory: [
+        {
+          playerIndex: 0,
+          turn: 1,
+          phase: GamePhase.MAIN_1,
+          action: 'hide_card',
+          cardId: `${SECRET}-hidden`,
+          targetId: 'bf-1',
+          timestamp: 1000
+        }
+      ],
+      ...overrides
+    });
+  }
+
+  it.each([
+    ['the opponent', 'player-2'],
+    ['a spectator', null],
+    ['an unrelated user', 'someone-else']
+  ])('leaks no hidden card id to %s', (_label, viewerId) => {
+    const redacted = redactGameStateForViewer(serializeGameState(makeSecretState()), viewerId);
+    expect(JSON.stringify(redacted)).not.toContain(SECRET);
+    expect(redacted.players[0].handSize).toBe(1);
+    expect(redacted.players[0].runeDeckSize).toBe(1);
+    expect(redacted.battlefields[0].hiddenCards[0]).toMatchObject({
+      instanceId: 'hidden-bf-1-0',
+      ownerId: 'player-1',
+      card: null,
+      isRevealed: false
+    });
+    expect(redacted.prompts[0]).toMatchObject({ id: 'target_1', type: 'target', data: {}, resolution: null });
+  });
+
+  it('keeps everything the owner is entitled to see', () => {
+    const serialized = serializeGameState(makeSecretState(), { viewerId: 'player-1' });
+    const redacted = redactGameStateForViewer(serialized, 'player-1');
+    expect(redacted.players[0].hand[0].cardId).toBe(`${SECRET}-hand`);
+    expect(redacted.players[0].runeDeck).toHaveLength(1);
+    expect(redacted.battlefields[0].hiddenCards[0].card?.cardId).toBe(`${SECRET}-hidden`);
+    expect(redacted.prompts[0].data).toMatchObject({ sourceCardId: `${SECRET}-prompt` });
+    expect(redacted.moveHistory[0].cardId).toBe(`${SECRET}-hidden`);
+  });
+
+  it('redacts stored frames that went through JSON', () => {
+    const frame = JSON.parse(JSON.stringify(serializeGameState(makeSecretState())));
+    expect(JSON.stringify(redactGameStateForViewer(frame, 'player-2'))).not.toContain(SECRET);
+  });
+
+  it('leaves bot-vs-bot matches fully visible', () => {
+    const state = makeSecretState({
+      players: [makePlayerState('bot-random-A'), makePlayerState('bot-greedy-B')]
+    });
+    const serialized = serializeGameState(state);
+    expect(redactGameStateForViewer(serialized, null)).toBe(serialized);
+  });
+
+  it('passes through payloads that are not match states', () => {
+    expect(redactGameStateForViewer({ idx: 0 } as any, null)).toEqual({ idx: 0 });
+  });
+});
+
+describe('redactPlayerViewForViewer', () => {
+  const makeView = () => {
+    const player = makePlayerState('player-1', {
+      hand: [makeCreature({ id: 'p1-secret-hand' })]
+    });
+    return {
+      matchId: 'match-123',
+      currentPlayer: serializePlayerState(player, 'self'),
+      opponent: { playerId: 'player-2' },
+      legalActions: [{ kind: 'play_card', cardId: 'p1-secret-hand' }]
+    };
+  };
+
+  it('returns the full view to its own player', () => {
+    const view = makeView();
+    expect(redactPlayerViewForViewer(view, 'player-1')).toBe(view);
+  });
+
+  it('reduces the view to public information for anyone else', () => {
+    const redacted = redactPlayerViewForViewer(makeView(), 'player-2');
+    expect(JSON.stringify(redacted)).not.toContain('p1-secret');
+    expect(redacted.currentPlayer.handSize).toBe(1);
+    expect(redacted.legalActions).toEqual([]);
+  });
+});
+
+describe('redactMatchEventForViewer', () => {
+  const event = {
+    matchId: 'match-123',
+    playerId: 'player-1',
+    card: { id: 'played-card' },
+    playerView: { currentPlayer: { hand: [{ cardId: 'p1-secret-hand' }] } }
+  };
+
+  it('only delivers the acting player view to the actor', () => {
+    expect(redactMatchEventForViewer(event, 'player-1').playerView).toBe(event.playerView);
+    for (const viewerId of ['player-2', null]) {
+      const redacted = redactMatchEventForViewer(event, viewerId);
+      expect(redacted.playerView).toBeNull();
+      expect(redacted.card).toEqual({ id: 'played-card' });
+      expect(JSON.stringify(redacted)).not.toContain('p1-secret');
+    }
+  });
+});
+
 // ===========================================================================
 // Edge cases and null handling
 // ===========================================================================
@@ -26,6 +26,7 @@ jest.mock('aws-sdk', () => {
   const updatePromise     = jest.fn().mockResolvedValue({ Attributes: null });
   const transactWritePromise = jest.fn().mockResolvedValue({});
   const scanPromise       = jest.fn().mockResolvedValue({ Items: [] });
+  const batchGetPromise   = jest.fn().mockResolvedValue({ Responses: {} });
   const sqsSendMsgPromise = jest.fn().mockResolvedValue({});
 
   const clientInstance = {
@@ -36,6 +37,7 @@ jest.mock('aws-sdk', () => {
     update:       jest.fn().mockReturnValue({ promise: updatePromise }),
     transactWrite:jest.fn().mockReturnValue({ promise: transactWritePromise }),
     scan:         jest.fn().mockReturnValue({ promise: scanPromise }),
+    batchGet:     jest.fn().mockReturnValue({ promise: batchGetPromise }),
     // Exposed for per-test reconfiguration
     _getPromise:         getPromise,
     _putPromise:         putPromise,
@@ -44,6 +46,7 @@ jest.mock('aws-sdk', () => {
     _updatePromise:      updatePromise,
     _transactWritePromise: transactWritePromise,
     _scanPromise:        scanPromise,
+    _batchGetPromise:    batchGetPromise,
   };
 
   const sqsInstance = {
@@ -89,12 +92,14 @@ jest.mock('../graphql/pubsub', () => ({
   publishCardPlayed:             jest.fn(),
   publishAttackDeclared:         jest.fn(),
   publishPhaseChange:            jest.fn(),
+  getMatchEventsSince:           jest.fn().mockReturnValue([]),
 }));
 
 jest.mock('../card-catalog', () => ({
   getCardCatalog:           jest.fn().mockReturnValue([]),
   findCardById:             jest.fn().mockReturnValue(null),
   findCardBySlug:           jest.fn().mockReturnValue(null),
+  findCardByName:           jest.fn().mockReturnValue(null),
   getImageManifest:         jest.fn().mockReturnValue([]),
   buildActivationStateIndex: jest.fn().mockReturnValue({}),
 }));
@@ -120,7 +125,8 @@ import {
 import type { ResolverContext } from '../graphql/resolvers';
 import AWS from 'aws-sdk';
 import { pubSub, publishGameStateChange, publishCardPlayed, publishAttackDeclared, publishPhaseChange, publishMatchCompletion } from '../graphql/pubsub';
-import { findCardById, findCardBySlug, getImageManifest, buildActivationStateIndex } from '../card-catalog';
+import { findCardById, findCardByName, findCardBySlug, getImageManifest, buildActivationStateIndex } from '../card-catalog';
+import { decodeDeckCode, encodeDeckCode } from '../deck-codes';
 import { GraphQLError } from 'graphql';
 
 // ---------------------------------------------------------------------------
@@ -167,6 +173,11 @@ function mockFetchSequence(...responses: Array<{ data?: any; status?: number }>)
   return m;
 }
 
+/** Body the match service returns from an action route */
+function actionResponse(gameState: any = defaultState) {
+  return { success: true, gameState, currentPhase: gameState.currentPhase };
+}
+
 let db: any;
 
 beforeEach(() => {
@@ -180,6 +191,7 @@ beforeEach(() => {
   db._updatePromise.mockResolvedValue({ Attributes: null });
   db._transactWritePromise.mockResolvedValue({});
   db._scanPromise.mockResolvedValue({ Items: [] });
+  db._batchGetPromise.mockResolvedValue({ Responses: {} });
   (AWS as any)._sqs._sendMsgPromise.mockResolvedValue({});
   mockFetch();
 });
@@ -274,37 +286,57 @@ describe('queryResolvers.user', () => {
 });
 
 describe('queryResolvers.leaderboard', () => {
+  /** Ladder items best first, and the users-table items they point at. */
+  function mockLadder(users: any[]) {
+    db._queryPromise.mockResolvedValue({ Items: users.map((user) => ({ Mode: 'ranked', UserId: user.UserId })) });
+    db._batchGetPromise.mockResolvedValue({ Responses: { 'riftbound-dev-users': [...users].reverse() } });
+  }
+
   it('returns empty leaderboard when no users', async () => {
-    db._scanPromise.mockResolvedValue({ Items: [] });
     const result = await queryResolvers.leaderboard(null, { limit: 10 });
     expect(result).toEqual([]);
   });
 
-  it('returns sorted leaderboard entries by wins', async () => {
-    db._scanPromise.mockResolvedValue({
-      Items: [
-        { UserId: 'u2', Username: 'b', Wins: 5, TotalMatches: 10 },
-        { UserId: 'u1', Username: 'a', Wins: 20, TotalMatches: 30 },
-      ]
+  it('reads the mode\'s ladder in score order instead of scanning users', async () => {
+    mockLadder([{ UserId: 'u1', Username: 'a', Wins: 20, TotalMatches: 30 }]);
+
+    await queryResolvers.leaderboard(null, { limit: 25, mode: 'free' });
+
+    expect(db.scan).not.toHaveBeenCalled();
+    expect(db.query).toHaveBeenCalledWith(
+      expect.objectContaining({
+        TableName: 'riftbound-dev-leaderboard',
+        IndexName: 'LadderScoreIndex',
+        ExpressionAttributeValues: { ':mode': 'free' },
+        ScanIndexForward: false,
+        Limit: 25
+      })
+    );
+    expect(db.batchGet).toHaveBeenCalledWith({
+      RequestItems: { 'riftbound-dev-users': { Keys: [{ UserId: 'u1' }] } }
     });
+  });
+
+  it('returns entries in ladder order, ties broken by wins', async () => {
+    mockLadder([
+      { UserId: 'u3', Username: 'c', Wins: 1, TotalMatches: 12, RankedRating: { Rating: 1700, GamesPlayed: 12 } },
+      { UserId: 'u2', Username: 'b', Wins: 5, TotalMatches: 10 },
+      { UserId: 'u1', Username: 'a', Wins: 20, TotalMatches: 30 },
+    ]);
     const result = await queryResolvers.leaderboard(null, { limit: 100 });
-    expect(result[0].userId).toBe('u1');
-    expect(result[0].wins).toBe(20);
-    expect(result[1].userId).toBe('u2');
+    expect(result.map((entry: any) => entry.userId)).toEqual(['u3', 'u1', 'u2']);
+    expect(result[0]).toMatchObject({ rating: 1700, ratedGames: 12, provisional: false });
+    expect(result[1].wins).toBe(20);
   });
 
   it('computes winRate correctly', async () => {
-    db._scanPromise.mockResolvedValue({
-      Items: [{ UserId: 'u1', Wins: 3, TotalMatches: 10 }]
-    });
+    mockLadder([{ UserId: 'u1', Wins: 3, TotalMatches: 10 }]);
     const result = await queryResolvers.leaderboard(null, {});
     expect(result[0].winRate).toBeCloseTo(0.3);
   });
 
   it('handles users with no matches (winRate 0)', async () => {
-    db._scanPromise.mockResolvedValue({
-      Items: [{ UserId: 'u1', Wins: 0, TotalMatches: 0 }]
-    });
+    mockLadder([{ UserId: 'u1', Wins: 0, TotalMatches: 0 }]);
     const result = await queryResolvers.leaderboard(null, {});
     expect(result[0].winRate).toBe(0);
   });
@@ -324,6 +356,28 @@ describe('queryResolvers.match', () => {
     expect(result.players[0].name).toBe('Alice');
   });
 
+  it('leaks no card ids from another player\'s hand', async () => {
+    mockFetch({
+      ...defaultState,
+      players: [
+        { playerId: 'user-1', name: 'user-1', hand: [{ cardId: 'own-card' }], runeDeck: [] },
+        { playerId: 'user-2', name: 'user-2', hand: [{ cardId: 'secret-card' }], runeDeck: [{ cardId: 'secret-rune' }] }
+      ],
+      battlefields: [{
+        battlefieldId: 'bf-1',
+        hiddenCards: [{ instanceId: 'secret-card-2', ownerId: 'user-2', battlefieldId: 'bf-1', card: { cardId: 'secret-card-2' } }]
+      }]
+    });
+    db._getPromise.mockResolvedValue({ Item: null });
+
+    const result = await queryResolvers.match(null, { matchId: 'match-1' }, authedCtx('user-1'));
+
+    const body = JSON.stringify(result);
+    expect(body).toContain('own-card');
+    expect(body).not.toContain('secret-card');
+    expect(body).not.toContain('secret-rune');
+  });
+
   it('propagates fetch errors', async () => {
     global.fetch = jest.fn().mockResolvedValue(mockResponse({ error: 'Not found' }, 404)) as any;
     await expect(queryResolvers.match(null, { matchId: 'bad' }, authedCtx())).rejects.toThrow();
@@ -338,6 +392,18 @@ describe('queryResolvers.playerMatch', () => {
     const result = await queryResolvers.playerMatch(null, { matchId: 'match-1', playerId: 'user-1' }, authedCtx());
     expect(result.currentPlayer.playerId).toBe('user-1');
   });
+
+  it('redacts another player\'s seat', async () => {
+    mockFetch({
+      currentPlayer: { playerId: 'user-2', name: null, hand: [{ cardId: 'secret-card' }], runeDeck: [] },
+      opponent: { playerId: 'user-1' },
+      legalActions: [{ kind: 'play_card', cardId: 'secret-card' }]
+    });
+    db._getPromise.mockResolvedValue({ Item: null });
+    const result = await queryResolvers.playerMatch(null, { matchId: 'match-1', playerId: 'user-2' }, authedCtx('user-1'));
+    expect(result.currentPlayer.hand).toEqual([]);
+    expect(result.legalActions).toEqual([]);
+  });
 });
 
 describe('queryResolvers.matchHistory', () => {
@@ -431,6 +497,260 @@ describe('queryResolvers.decklist', () => {
     });
     await expect(queryResolvers.decklist(null, { deckId: 'deck-1' }, authedCtx('user-1'))).rejects.toThrow('Forbidden');
   });
+
+  it('returns another user\'s deck when it is public', async () => {
+    db._queryPromise.mockResolvedValue({
+      Items: [{ UserId: 'other-user', DeckId: 'deck-1', Name: 'Their Deck', IsPublic: true, Tags: [], Cards: [] }]
+    });
+    const result = await queryResolvers.decklist(null, { deckId: 'deck-1' }, authedCtx('user-1'));
+    expect(result!.name).toBe('Their Deck');
+  });
+});
+
+describe('queryResolvers.publicDecklists', () => {
+  const publicDeck = (deckId: string, overrides: Record<string, any> = {}) => ({
+    UserId: `owner-${deckId}`, DeckId: deckId, Name: deckId, IsPublic: true, PublicListing: 'public',
+    Format: 'standard', Tags: [], Cards: [], ...overrides
+  });
+  const ids = (page: { items: Array<Record<string, any> | null> }) => page.items.map((deck) => deck!.deckId);
+
+  beforeEach(() => {
+    const jinx = { id: 'jinx-legend', slug: 'jinx-loose-cannon', name: 'Jinx, Loose Cannon', colors: ['Fury', 'Chaos'] };
+    (findCardById as jest.Mock).mockImplementation((id: string) => (id === jinx.id ? jinx : null));
+    (findCardBySlug as jest.Mock).mockImplementation((slug: string) => (slug.toLowerCase() === jinx.slug ? jinx : null));
+    (findCardByName as jest.Mock).mockReturnValue(null);
+    db._queryPromise.mockResolvedValue({
+      Items: [
+        publicDeck('d1', { ChampionLegend: { cardId: 'jinx-legend', quantity: 1 }, Cards: [{ slug: 'get-excited', quantity: 3 }], ForkCount: 1 }),
+        publicDeck('d2', { Format: 'quick_play', ForkCount: 5 }),
+        publicDeck('d3', {
+          ChampionLegend: { slug: 'garen', quantity: 1, cardSnapshot: { colors: ['Body'] } },
+          SideDeck: [{ cardId: 'x', quantity: 1, cardSnapshot: { name: 'Get Excited' } }],
+          ForkCount: 1
+        })
+      ]
+    });
+  });
+
+  afterEach(() => {
+    (findCardById as jest.Mock).mockReset().mockReturnValue(null);
+    (findCardBySlug as jest.Mock).mockReset().mockReturnValue(null);
+  });
+
+  it('lists public decks newest first from the sparse index', async () => {
+    const page = await queryResolvers.publicDecklists(null, {});
+    expect(ids(page)).toEqual(['d1', 'd2', 'd3']);
+    expect(page.total).toBe(3);
+    expect(db.query).toHaveBeenCalledWith(expect.objectContaining({
+      IndexName: 'PublicDeckIndex',
+      ExpressionAttributeValues: { ':public': 'public' },
+      ScanIndexForward: false
+    }));
+  });
+
+  it('filters by legend, domain, format and included cards', async () => {
+    expect(ids(await queryResolvers.publicDecklists(null, { filter: { legend: 'Jinx-Loose-Cannon' } }))).toEqual(['d1']);
+    expect(ids(await queryResolvers.publicDecklists(null, { filter: { domain: 'body' } }))).toEqual(['d3']);
+    expect(ids(await queryResolvers.publicDecklists(null, { filter: { format: 'quick_play' } }))).toEqual(['d2']);
+    expect(ids(await queryResolvers.publicDecklists(null, { filter: { cards: ['get excited'] } }))).toEqual(['d3']);
+    expect(ids(await queryResolvers.publicDecklists(null, { filter: { cards: ['get-excited'] } }))).toEqual(['d1']);
+  });
+
+  it('reads the popularity index for the popular sort and pages with offset and limit', async () => {
+    const [d1, d2, d3] = (await db._queryPromise()).Items;
+    db._queryPromise.mockResolvedValue({ Items: [d2, d1, d3] });
+
+    const page = await queryResolvers.publicDecklists(null, { sort: 'popular', offset: 1, limit: 1 });
+
+    expect(ids(page)).toEqual(['d1']);
+    expect(page.items[0]!.forkCount).toBe(1);
+    expect(page.total).toBeNull();
+    expect(db.query).toHaveBeenCalledWith(expect.objectContaining({
+      IndexName: 'PublicDeckPopularityIndex',
+      ScanIndexForward: false
+    }));
+  });
+
+  it('returns a cursor that resumes after the last deck read', async () => {
+    const first = await queryResolvers.publicDecklists(null, { limit: 2 });
+    expect(ids(first)).toEqual(['d1', 'd2']);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    db._queryPromise.mockResolvedValue({ Items: [publicDeck('d3')] });
+    const second = await queryResolvers.publicDecklists(null, { limit: 2, after: first.nextCursor });
+
+    expect(ids(second)).toEqual(['d3']);
+    expect(second.nextCursor).toBeNull();
+    expect(db.query).toHaveBeenLastCalledWith(expect.objectContaining({
+      ExclusiveStartKey: { UserId: 'owner-d2', DeckId: 'd2', PublicListing: 'public', UpdatedAt: undefined }
+    }));
+  });
+
+  it('keeps reading index pages until a filtered page fills', async () => {
+    db._queryPromise
+      .mockResolvedValueOnce({ Items: [publicDeck('d1'), publicDeck('d2')], LastEvaluatedKey: { DeckId: 'd2' } })
+      .mockResolvedValueOnce({ Items: [publicDeck('d4', { Format: 'quick_play' })] });
+
+    const page = await queryResolvers.publicDecklists(null, { filter: { format: 'quick_play' } });
+
+    expect(ids(page)).toEqual(['d4']);
+    expect(page.total).toBe(1);
+    expect(db.query).toHaveBeenLastCalledWith(expect.objectContaining({ ExclusiveStartKey: { DeckId: 'd2' } }));
+  });
+
+  it('rejects a cursor it did not issue', async () => {
+    await expect(queryResolvers.publicDecklists(null, { after: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+  });
+});
+
+describe('queryResolvers.validateDecklist', () => {
+  it('returns structured violations for the requested format', () => {
+    (findCardById as jest.Mock).mockReturnValue(null);
+    (findCardBySlug as jest.Mock).mockReturnValue(null);
+    const result = queryResolvers.validateDecklist(null, {
+      input: { cards: [{ slug: 'missing-card', quantity: 2 }] },
+      format: 'sandbox'
+    });
+    expect(result).toEqual({
+      legal: false,
+      format: 'sandbox',
+      version: '2025.1',
+      violations: [expect.objectContaining({ code: 'unknown_card', cardId: 'missing-card', zone: 'main' })]
+    });
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() =>
+      queryResolvers.validateDecklist(null, { input: { cards: [] }, format: 'vintage' })
+    ).toThrow('Unknown deck format: vintage');
+  });
+});
+
+describe('deck share codes', () => {
+  const storedDeck = {
+    UserId: 'owner', DeckId: 'deck-1', Name: 'Jinx', IsPublic: false,
+    Cards: [{ cardId: 'card-b', quantity: 3 }, { slug: 'card-a', quantity: 2 }],
+    RuneDeck: [{ cardId: 'rune-1', quantity: 12 }],
+    ChampionLegend: { cardId: 'legend-1', quantity: 1 }
+  };
+  const catalogCard = (id: string, name = id) => ({
+    id, slug: id, name, type: 'Unit', rarity: 'Common', colors: [], keywords: [], effect: '', tags: [],
+    assets: { remote: null, localPath: `assets/${id}.webp` }
+  });
+
+  beforeEach(() => {
+    (findCardById as jest.Mock).mockImplementation((id: string) => (id === 'missing' ? null : catalogCard(id)));
+    (findCardBySlug as jest.Mock).mockReturnValue(null);
+    (findCardByName as jest.Mock).mockImplementation((name: string) =>
+      name === 'Card A' ? catalogCard('card-a', 'Card A') : null
+    );
+  });
+
+  afterEach(() => {
+    (findCardById as jest.Mock).mockReset().mockReturnValue(null);
+    (findCardByName as jest.Mock).mockReset().mockReturnValue(null);
+  });
+
+  it('exports a stored deck for its owner, and public decks for anyone signed in', async () => {
+    db._queryPromise.mockResolvedValue({ Items: [storedDeck] });
+
+    const code = await queryResolvers.exportDeckCode(null, { deckId: 'deck-1' }, authedCtx('owner'));
+    expect(decodeDeckCode(code)).toEqual(expect.objectContaining({
+      championLegend: { cardId: 'legend-1', quantity: 1 },
+      cards: [{ cardId: 'card-a', quantity: 2 }, { cardId: 'card-b', quantity: 3 }],
+      runeDeck: [{ cardId: 'rune-1', quantity: 12 }]
+    }));
+    await expect(queryResolvers.exportDeckCode(null, { deckId: 'deck-1' }, authedCtx('user-1'))).rejects.toThrow('Forbidden');
+
+    db._queryPromise.mockResolvedValue({ Items: [{ ...storedDeck, IsPublic: true }] });
+    await expect(queryResolvers.exportDeckCode(null, { deckId: 'deck-1' }, authedCtx('user-1'))).resolves.toBe(code);
+
+    db._queryPromise.mockResolvedValue({ Items: [] });
+    await expect(queryResolvers.exportDeckCode(null, { deckId: 'nope' }, authedCtx('user-1'))).rejects.toThrow('Deck not found');
+  });
+
+  it('imports a code into saveable cards, listing cards the catalog does not know', () => {
+    const code = encodeDeckCode({
+      championLegend: null, championLeader: null,
+      cards: [{ cardId: 'card-a', quantity: 3 }, { cardId: 'missing', quantity: 1 }],
+      runeDeck: [], battlefields: [], sideDeck: []
+    });
+
+    const result = queryResolvers.importDeckCode(null, { code, format: 'sandbox' });
+    expect(result.cards).toEqual([
+      expect.objectContaining({ cardId: 'card-a', quantity: 3, cardSnapshot: expect.objectContaining({ name: 'card-a' }) })
+    ]);
+    expect(result.unresolved).toEqual(['missing']);
+    expect(result.legality).toEqual(expect.objectContaining({ format: 'sandbox', legal: true }));
+    expect(decodeDeckCode(result.code).cards).toEqual([{ cardId: 'card-a', quantity: 3 }]);
+  });
+
+  it('reports unreadable codes as bad input', () => {
+    try {
+      queryResolvers.importDeckCode(null, { code: 'not-a-code' });
+      throw new Error('expected importDeckCode to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(GraphQLError);
+      expect((error as GraphQLError).message).toBe('Not a deck code');
+      expect((error as GraphQLError).extensions.code).toBe('BAD_USER_INPUT');
+    }
+  });
+
+  it('parses pasted text through the card names', () => {
+    const result = queryResolvers.parseDecklistText(null, { text: '3x Card A\n2x Nobody', format: 'sandbox' });
+    expect(result.cards).toEqual([expect.objectContaining({ cardId: 'card-a', quantity: 3 })]);
+    expect(result.unresolved).toEqual(['2x Nobody']);
+  });
+});
+
+describe('queryResolvers.deckAnalysis', () => {
+  const storedDeck = {
+    UserId: 'owner', DeckId: 'deck-1', Name: 'Jinx', IsPublic: false, Format: 'quick_play',
+    Cards: [{ cardId: 'card-a', quantity: 3 }, { cardId: 'card-b', quantity: 1 }]
+  };
+
+  beforeEach(() => {
+    (findCardById as jest.Mock).mockImplementation((id: string) => ({
+      id, slug: id, name: id, type: 'Unit', colors: ['Fury'], tags: [],
+      cost: { energy: id === 'card-a' ? 2 : 5, powerSymbols: [], raw: null, powerCost: 0 }
+    }));
+  });
+
+  afterEach(() => {
+    (findCardById as jest.Mock).mockReset().mockReturnValue(null);
+  });
+
+  it('analyzes a deck for its owner under the profile of its format', async () => {
+    db._queryPromise.mockResolvedValue({ Items: [storedDeck] });
+
+    const analysis = await queryResolvers.deckAnalysis(null, { deckId: 'deck-1', turns: 1 }, authedCtx('owner'));
+    expect(analysis).toEqual(expect.objectContaining({ ruleProfile: 'quick_play', openingHandSize: 5, librarySize: 4, turns: 1 }));
+    expect(analysis.energyCurve.map((bucket: { count: number }) => bucket.count)).toEqual([0, 0, 3, 0, 0, 1, 0, 0]);
+    expect(analysis.cardOdds[0].byTurn[0]).toEqual(expect.objectContaining({ cardsSeen: 4, probability: 1 }));
+
+    const standard = await queryResolvers.deckAnalysis(null, { deckId: 'deck-1', ruleProfile: 'standard' }, authedCtx('owner'));
+    expect(standard).toEqual(expect.objectContaining({ ruleProfile: 'standard', openingHandSize: 4 }));
+  });
+
+  it('keeps private decks to their owner', async () => {
+    db._queryPromise.mockResolvedValue({ Items: [storedDeck] });
+    await expect(queryResolvers.deckAnalysis(null, { deckId: 'deck-1' }, authedCtx('user-1'))).rejects.toThrow('Forbidden');
+
+    db._queryPromise.mockResolvedValue({ Items: [{ ...storedDeck, IsPublic: true }] });
+    await expect(queryResolvers.deckAnalysis(null, { deckId: 'deck-1' }, authedCtx('user-1'))).resolves.toBeDefined();
+
+    db._queryPromise.mockResolvedValue({ Items: [] });
+    await expect(queryResolvers.deckAnalysis(null, { deckId: 'nope' }, authedCtx('user-1'))).rejects.toThrow('Deck not found');
+  });
+});
+
+describe('queryResolvers.deckFormats', () => {
+  it('lists the formats in effect with copy limits as a list', () => {
+    const formats = queryResolvers.deckFormats(null, {});
+    expect(formats.map((format: { id: string }) => format.id)).toEqual(['standard', 'quick_play', 'sandbox']);
+    expect(formats[0]).toEqual(expect.objectContaining({ version: '2025.1', legalSets: null, banned: [], copyLimits: [] }));
+    expect(queryResolvers.deckFormats(null, { at: '2024-06-01' })).toEqual([]);
+  });
 });
 
 describe('queryResolvers.matchmakingStatus', () => {
@@ -467,7 +787,7 @@ describe('queryResolvers.matchmakingStatus', () => {
 describe('queryResolvers.matchReplay', () => {
   it('returns null when no replay record found', async () => {
     db._queryPromise.mockResolvedValue({ Items: [] });
-    const result = await queryResolvers.matchReplay(null, { matchId: 'no-replay' });
+    const result = await queryResolvers.matchReplay(null, { matchId: 'no-replay' }, {});
     expect(result).toBeNull();
   });
 
@@ -482,7 +802,7 @@ describe('queryResolvers.matchReplay', () => {
         CreatedAt: Date.now()
       }]
     });
-    const result = await queryResolvers.matchReplay(null, { matchId: 'r1' });
+    const result = await queryResolvers.matchReplay(null, { matchId: 'r1' }, {});
     expect(result!.matchId).toBe('r1');
     expect(result!.createdAt).toBeInstanceOf(Date);
     expect(result!.frames).toHaveLength(2);
@@ -493,11 +813,44 @@ describe('queryResolvers.matchReplay', () => {
     db._queryPromise.mockResolvedValue({
       Items: [{ MatchId: 'r2', Players: ['u1', 'u2'], Winner: 'u1', Moves: [], CreatedAt: Date.now() }]
     });
-    const result = await queryResolvers.matchReplay(null, { matchId: 'r2' });
+    const result = await queryResolvers.matchReplay(null, { matchId: 'r2' }, {});
     expect(result!.frames).toEqual([]);
   });
 });
 
+// Serialized match state with player p1's hidden information planted in
+// every place a non-owner must not see it.
+const makeLeakyFrame = () => ({
+  matchId: 'm1',
+  players: [
+    {
+      playerId: 'p1',
+      handSize: 1,
+      hand: [{ cardId: 'p1-secret-hand' }],
+      runeDeck: [{ runeId: 'p1-secret-rune' }],
+      championLegendState: null,
+      championLeaderState: null,
+    },
+    { playerId: 'p2', handSize: 0, hand: [], runeDeck: [] },
+  ],
+  prompts: [{ id: 'pr1', type: 'target', playerId: 'p1', data: { sourceCardId: 'p1-secret-prompt' } }],
+  battlefields: [
+    {
+      battlefieldId: 'bf-1',
+      hiddenCards: [
+        {
+          instanceId: 'p1-secret-hidden_1_0',
+          ownerId: 'p1',
+          battlefieldId: 'bf-1',
+          card: { cardId: 'p1-secret-hidden' },
+          isRevealed: true,
+        },
+      ],
+    },
+  ],
+  moveHistory: [{ playerIndex: 0, action: 'hide_card', cardId: 'p1-secret-hidden' }],
+}) as any;
+
 describe('queryResolvers.matchFrames (BE-2)', () => {
   // The resolver reads the live in-memory bot-match REGISTRY first and falls back
   // to MATCH_TABLE.Frames. These tests cover the DDB fallback path; the
@@ -505,7 +858,7 @@ describe('queryResolvers.matchFrames (BE-2)', () => {
   // exercises the real engine.
   it('returns [] when no live registry entry and no persisted record', async () => {
     db._queryPromise.mockResolvedValue({ Items: [] });
-    const result = await queryResolvers.matchFrames(null, { matchId: 'gone' });
+    const result = await queryResolvers.matchFrames(null, { matchId: 'gone' }, {});
     expect(result).toEqual([]);
   });
 
@@ -520,7 +873,7 @@ describe('queryResolvers.matchFrames (BE-2)', () => {
         ]
       }]
     });
-    const result = await queryResolvers.matchFrames(null, { matchId: 'persisted-1' });
+    const result = await queryResolvers.matchFrames(null, { matchId: 'persisted-1' }, {});
     expect(result).toHaveLength(3);
   });
 
@@ -537,10 +890,20 @@ describe('queryResolvers.matchFrames (BE-2)', () => {
       matchId: 'persisted-2',
       offset: 1,
       limit: 2
-    });
+    }, {});
     expect(result).toEqual([{ idx: 1 }, { idx: 2 }]);
   });
 
+  it('redacts hidden information from frames for the caller', async () => {
+    db._queryPromise.mockResolvedValue({
+      Items: [{ MatchId: 'persisted-4', Frames: [makeLeakyFrame()] }]
+    });
+    const asOpponent = await queryResolvers.matchFrames(null, { matchId: 'persisted-4' }, { userId: 'p2' });
+    expect(JSON.stringify(asOpponent)).not.toContain('p1-secret');
+    const asOwner = await queryResolvers.matchFrames(null, { matchId: 'persisted-4' }, { userId: 'p1' });
+    expect(JSON.stringify(asOwner)).toContain('p1-secret');
+  });
+
   it('clamps negative offset to 0 and ignores zero/negative limit', async () => {
     db._queryPromise.mockResolvedValue({
       Items: [{
@@ -552,7 +915,7 @@ describe('queryResolvers.matchFrames (BE-2)', () => {
       matchId: 'persisted-3',
       offset: -5,
       limit: 0
-    });
+    }, {});
     expect(result).toHaveLength(2);
   });
 });
@@ -734,6 +1097,37 @@ describe('mutationResolvers.initMatch', () => {
     }, authedCtx());
     expect(result.matchId).toBe('match-new');
   });
+
+  it('forwards the rule profile to the match service', async () => {
+    mockFetch({ matchId: 'match-new', status: 'initialized' });
+    db._getPromise.mockResolvedValue({ Item: null });
+
+    await mutationResolvers.initMatch(null, {
+      matchId: 'match-new', player1: 'p1', player2: 'p2', decks: {}, ruleProfile: 'quick_play'
+    }, authedCtx());
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(body.ruleProfile).toBe('quick_play');
+  });
+});
+
+describe('mutationResolvers.initMatchSeries', () => {
+  const args = { seriesId: 's1', player1: 'user-1', player2: 'user-2', decks: {} };
+
+  it('requires the caller to be one of the players', async () => {
+    await expect(mutationResolvers.initMatchSeries(null, args, anonCtx())).rejects.toThrow('Unauthorized');
+    await expect(mutationResolvers.initMatchSeries(null, args, authedCtx('user-3'))).rejects.toThrow('Forbidden');
+  });
+
+  it('never asks the match service for a rated series', async () => {
+    mockFetch({ seriesId: 's1', matchId: 'm1', series: null });
+    db._getPromise.mockResolvedValue({ Item: null });
+
+    await mutationResolvers.initMatchSeries(null, { ...args, mode: 'ranked' } as any, authedCtx('user-1'));
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(JSON.parse(init.body).mode).toBeUndefined();
+    expect(init.headers['x-internal-api-key']).toBeUndefined();
+  });
 });
 
 describe('mutationResolvers.submitInitiativeChoice', () => {
@@ -744,7 +1138,7 @@ describe('mutationResolvers.submitInitiativeChoice', () => {
   });
 
   it('posts initiative choice and returns spectator state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.submitInitiativeChoice(null, {
       matchId: 'm1', playerId: 'user-1', choice: 0
     }, authedCtx('user-1'));
@@ -766,16 +1160,17 @@ describe('mutationResolvers.submitMulligan', () => {
   });
 
   it('submits mulligan and returns spectator state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.submitMulligan(null, {
       matchId: 'm1', playerId: 'user-1', indices: [0, 2]
     }, authedCtx('user-1'));
     expect(result.currentPhase).toBe('main');
-    expect(publishGameStateChange).toHaveBeenCalled();
+    // The match service publishes; the resolver only relays.
+    expect(publishGameStateChange).not.toHaveBeenCalled();
   });
 
   it('defaults to empty indices when not provided', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     await mutationResolvers.submitMulligan(null, { matchId: 'm1', playerId: 'user-1' }, authedCtx('user-1'));
     const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
     expect(body.indices).toEqual([]);
@@ -792,7 +1187,7 @@ describe('mutationResolvers.submitDiscardSelection', () => {
   });
 
   it('submits discard selection and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.submitDiscardSelection(null, {
       matchId: 'm1', playerId: 'user-1', promptId: 'prompt-1', cardInstanceIds: ['card-a', 'card-b']
     }, authedCtx('user-1'));
@@ -810,7 +1205,7 @@ describe('mutationResolvers.submitTargetSelection', () => {
   });
 
   it('posts target selection and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.submitTargetSelection(null, {
       matchId: 'm1', playerId: 'user-1', promptId: 'p1', selectionIds: ['target-1']
     }, authedCtx('user-1'));
@@ -818,6 +1213,33 @@ describe('mutationResolvers.submitTargetSelection', () => {
   });
 });
 
+describe('mutationResolvers.assignCombatDamage', () => {
+  it('requires auth', async () => {
+    await expect(
+      mutationResolvers.assignCombatDamage(null, {
+        matchId: 'm1', playerId: 'other', promptId: 'p1', assignments: []
+      }, authedCtx('user-1'))
+    ).rejects.toThrow('Forbidden');
+  });
+
+  it('posts the split keyed by unit and returns state', async () => {
+    mockFetchSequence({ data: actionResponse() });
+    const result = await mutationResolvers.assignCombatDamage(null, {
+      matchId: 'm1',
+      playerId: 'user-1',
+      promptId: 'p1',
+      assignments: [
+        { instanceId: 'unit-a', amount: 2 },
+        { instanceId: 'unit-b', amount: 1 }
+      ]
+    }, authedCtx('user-1'));
+    expect(result.currentPhase).toBe('main');
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain('/matches/m1/actions/assign-damage');
+    expect(JSON.parse(init.body).assignments).toEqual({ 'unit-a': 2, 'unit-b': 1 });
+  });
+});
+
 describe('mutationResolvers.selectBattlefield', () => {
   it('requires auth', async () => {
     await expect(
@@ -826,7 +1248,7 @@ describe('mutationResolvers.selectBattlefield', () => {
   });
 
   it('posts battlefield selection and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.selectBattlefield(null, {
       matchId: 'm1', playerId: 'user-1', battlefieldId: 'bf-alpha'
     }, authedCtx('user-1'));
@@ -850,39 +1272,28 @@ describe('mutationResolvers.playCard', () => {
   });
 
   it('plays card and returns success with game state', async () => {
-    // Call sequence: GET player view, POST play-card, GET spectator state
-    mockFetchSequence(
-      { data: { currentPlayer: { hand: [{ cardId: 'c1', name: 'Fire Imp', energyCost: 2, type: 'creature' }] } } },
-      { data: { playerView: null } },
-      { data: defaultState }
-    );
+    const fetchMock = mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.playCard(null, {
       matchId: 'm1', playerId: 'user-1', cardIndex: 0
     }, authedCtx('user-1'));
     expect(result.success).toBe(true);
     expect(result.gameState.currentPhase).toBe('main');
-    expect(publishCardPlayed).toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toContain('/matches/m1/actions/play-card');
+    expect(publishCardPlayed).not.toHaveBeenCalled();
   });
 
-  it('handles missing card snapshot gracefully', async () => {
-    // First call (GET player view) fails - card snapshot unavailable
-    mockFetchSequence(
-      { data: { error: 'not found' }, status: 404 },
-      { data: {} },
-      { data: defaultState }
-    );
-    // Should still succeed - card snapshot is optional
-    // The error on the first call is caught internally, so the 404 causes a retry loop.
-    // Let's instead mock a successful player view with no hand item at the cardIndex
-    mockFetchSequence(
-      { data: { currentPlayer: { hand: [] } } },
-      { data: {} },
-      { data: defaultState }
-    );
+  it('returns the player view and rune payment from the match service', async () => {
+    const playerView = { currentPlayer: { hand: [] } };
+    const runePayment = { runesUsed: 1, runesTapped: 0, runesRecycled: 1 };
+    mockFetchSequence({ data: { ...actionResponse(), playerView, runePayment } });
     const result = await mutationResolvers.playCard(null, {
-      matchId: 'm1', playerId: 'user-1', cardIndex: 5
+      matchId: 'm1', playerId: 'user-1', cardIndex: 0, useAccelerate: true
     }, authedCtx('user-1'));
-    expect(result.success).toBe(true);
+    expect(result.playerView).toEqual(playerView);
+    expect(result.runePayment).toEqual(runePayment);
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(body).toMatchObject({ type: 'play-card', cardIndex: 0, useAccelerate: true });
   });
 });
 
@@ -902,16 +1313,25 @@ describe('mutationResolvers.attack', () => {
   it('throws when destinationId is "base"', async () => {
     await expect(
       mutationResolvers.attack(null, { matchId: 'm1', playerId: 'user-1', creatureInstanceId: 'c1', destinationId: 'base' }, authedCtx('user-1'))
-    ).rejects.toThrow('Use moveUnit to return to base');
+    ).rejects.toThrow('Use move to return to base');
   });
 
-  it('posts attack and publishes event', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+  it('posts attack and leaves the event to the match service', async () => {
+    const fetchMock = mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.attack(null, {
       matchId: 'm1', playerId: 'user-1', creatureInstanceId: 'creature-1', destinationId: 'bf-alpha'
     }, authedCtx('user-1'));
     expect(result.success).toBe(true);
-    expect(publishAttackDeclared).toHaveBeenCalled();
+    expect(fetchMock.mock.calls[0][0]).toContain('/matches/m1/actions/attack');
+    expect(publishAttackDeclared).not.toHaveBeenCalled();
+  });
+
+  it('does not call the match service for input it would reject', async () => {
+    const fetchMock = mockFetch();
+    await expect(
+      mutationResolvers.attack(null, { matchId: 'm1', playerId: 'user-1', creatureInstanceId: 'c1', destinationId: 'base' }, authedCtx('user-1'))
+    ).rejects.toThrow();
+    expect(fetchMock).not.toHaveBeenCalled();
   });
 });
 
@@ -923,7 +1343,7 @@ describe('mutationResolvers.moveUnit', () => {
   });
 
   it('posts move and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.moveUnit(null, {
       matchId: 'm1', playerId: 'user-1', creatureInstanceId: 'c1', destinationId: 'base'
     }, authedCtx('user-1'));
@@ -939,7 +1359,7 @@ describe('mutationResolvers.hideCard', () => {
   });
 
   it('posts hide-card and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.hideCard(null, {
       matchId: 'm1', playerId: 'user-1', cardIndex: 2, battlefieldId: 'bf-alpha'
     }, authedCtx('user-1'));
@@ -956,20 +1376,20 @@ describe('mutationResolvers.activateHiddenCard', () => {
   });
 
   it('posts activate-hidden and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.activateHiddenCard(null, {
       matchId: 'm1', playerId: 'user-1', hiddenInstanceId: 'h1', targets: ['target-1']
     }, authedCtx('user-1'));
     expect(result.success).toBe(true);
   });
 
-  it('defaults targets to empty array', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+  it('leaves missing targets for the match service to default', async () => {
+    mockFetchSequence({ data: actionResponse() });
     await mutationResolvers.activateHiddenCard(null, {
       matchId: 'm1', playerId: 'user-1', hiddenInstanceId: 'h1'
     }, authedCtx('user-1'));
     const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
-    expect(body.targets).toEqual([]);
+    expect(body.targets).toBeUndefined();
   });
 });
 
@@ -981,7 +1401,7 @@ describe('mutationResolvers.commenceBattle', () => {
   });
 
   it('posts commence-battle and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.commenceBattle(null, {
       matchId: 'm1', playerId: 'user-1', battlefieldId: 'bf-alpha'
     }, authedCtx('user-1'));
@@ -997,7 +1417,7 @@ describe('mutationResolvers.activateChampionAbility', () => {
   });
 
   it('posts activate-legend and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.activateChampionAbility(null, {
       matchId: 'm1', playerId: 'user-1', target: 'legend'
     }, authedCtx('user-1'));
@@ -1013,10 +1433,20 @@ describe('mutationResolvers.passPriority', () => {
   });
 
   it('posts pass-priority and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.passPriority(null, { matchId: 'm1', playerId: 'user-1' }, authedCtx('user-1'));
     expect(result.success).toBe(true);
   });
+
+  it('forwards the request Idempotency-Key to the match service', async () => {
+    const fetchMock = mockFetchSequence({ data: actionResponse() });
+    await mutationResolvers.passPriority(
+      null,
+      { matchId: 'm1', playerId: 'user-1' },
+      { ...authedCtx('user-1'), idempotencyKey: 'tap-42' }
+    );
+    expect(fetchMock.mock.calls[0][1].headers['Idempotency-Key']).toBe('tap-42');
+  });
 });
 
 describe('mutationResolvers.respondToSpellReaction', () => {
@@ -1027,7 +1457,7 @@ describe('mutationResolvers.respondToSpellReaction', () => {
   });
 
   it('posts respond-to-spell-reaction and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.respondToSpellReaction(null, {
       matchId: 'm1', playerId: 'user-1', pass: false
     }, authedCtx('user-1'));
@@ -1043,7 +1473,7 @@ describe('mutationResolvers.respondToChainReaction', () => {
   });
 
   it('posts respond-to-chain-reaction and returns state', async () => {
-    mockFetchSequence({ data: {} }, { data: defaultState });
+    mockFetchSequence({ data: actionResponse() });
     const result = await mutationResolvers.respondToChainReaction(null, {
       matchId: 'm1', playerId: 'user-1', pass: true
     }, authedCtx('user-1'));
@@ -1051,6 +1481,25 @@ describe('mutationResolvers.respondToChainReaction', () => {
   });
 });
 
+describe('mutationResolvers.respondToTakeBack', () => {
+  it('requires auth', async () => {
+    await expect(
+      mutationResolvers.respondToTakeBack(null, { matchId: 'm1', playerId: 'other', accept: true }, authedCtx('user-1'))
+    ).rejects.toThrow('Forbidden');
+  });
+
+  it('posts the answer to respond-to-take-back', async () => {
+    const fetchMock = mockFetchSequence({ data: actionResponse() });
+    const result = await mutationResolvers.respondToTakeBack(null, {
+      matchId: 'm1', playerId: 'user-1', accept: true
+    }, authedCtx('user-1'));
+    expect(result.success).toBe(true);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain('/matches/m1/actions/respond-to-take-back');
+    expect(JSON.parse(init.body)).toMatchObject({ playerId: 'user-1', accept: true });
+  });
+});
+
 describe('mutationResolvers.nextPhase', () => {
   it('requires auth', async () => {
     await expect(
@@ -1058,12 +1507,12 @@ describe('mutationResolvers.nextPhase', () => {
     ).rejects.toThrow('Forbidden');
   });
 
-  it('posts next-phase and publishes phase change', async () => {
-    mockFetchSequence({ data: {} }, { data: { ...defaultState, currentPhase: 'battle' } });
+  it('posts next-phase and returns the new phase', async () => {
+    mockFetchSequence({ data: actionResponse({ ...defaultState, currentPhase: 'battle' }) });
     const result = await mutationResolvers.nextPhase(null, { matchId: 'm1', playerId: 'user-1' }, authedCtx('user-1'));
     expect(result.success).toBe(true);
     expect(result.currentPhase).toBe('battle');
-    expect(publishPhaseChange).toHaveBeenCalledWith('m1', expect.objectContaining({ newPhase: 'battle' }));
+    expect(publishPhaseChange).not.toHaveBeenCalled();
   });
 });
 
@@ -1080,6 +1529,12 @@ describe('mutationResolvers.recordDuelLogEntry', () => {
     ).rejects.toThrow('Unauthorized');
   });
 
+  it('requires auth matching playerId', async () => {
+    await expect(
+      mutationResolvers.recordDuelLogEntry(null, { matchId: 'm1', playerId: 'other', message: 'hi' }, authedCtx('user-1'))
+    ).rejects.toThrow('Forbidden');
+  });
+
   it('posts duel-log entry and returns state', async () => {
     mockFetchSequence({ data: {} }, { data: defaultState });
     const result = await mutationResolvers.recordDuelLogEntry(null, {
@@ -1125,7 +1580,7 @@ describe('mutationResolvers.sendChatMessage', () => {
 });
 
 describe('mutationResolvers.reportMatchResult', () => {
-  it('posts result, publishes completion, and removes players from queue', async () => {
+  it('posts result and removes players from queue, leaving the publish to the match service', async () => {
     const matchResult = { matchId: 'm1', winner: 'user-1', loser: 'user-2', players: ['user-1', 'user-2'] };
     mockFetch({ success: true, matchResult, gameState: { players: ['user-1', 'user-2'] } });
 
@@ -1134,7 +1589,7 @@ describe('mutationResolvers.reportMatchResult', () => {
     }, authedCtx());
     expect(result.success).toBe(true);
     expect(result.matchResult).toEqual(matchResult);
-    expect(publishMatchCompletion).toHaveBeenCalledWith('m1', matchResult);
+    expect(publishMatchCompletion).not.toHaveBeenCalled();
   });
 
   it('returns null gameState when API response has none', async () => {
@@ -1144,17 +1599,31 @@ describe('mutationResolvers.reportMatchResult', () => {
     }, authedCtx());
     expect(result.gameState).toBeNull();
   });
+
+  it('requires auth', async () => {
+    await expect(
+      mutationResolvers.reportMatchResult(null, { matchId: 'm1', winner: 'u1' }, anonCtx())
+    ).rejects.toThrow('Unauthorized');
+  });
+
+  it('forwards the winner and adjudication note but not the reason', async () => {
+    const fetchMock = mockFetch({ success: true, matchResult: { winner: 'u2' } });
+    await mutationResolvers.reportMatchResult(null, {
+      matchId: 'm1', winner: 'u2', reason: 'concede', note: 'disconnect'
+    }, authedCtx());
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ winner: 'u2', note: 'disconnect' });
+  });
 });
 
 describe('mutationResolvers.concedeMatch', () => {
-  it('posts concede, publishes completion, and returns result', async () => {
+  it('posts concede and returns result, leaving the publish to the match service', async () => {
     const matchResult = { winner: 'user-2', loser: 'user-1', players: ['user-1', 'user-2'] };
     mockFetch({ success: true, matchResult, gameState: null });
     const result = await mutationResolvers.concedeMatch(null, {
       matchId: 'm1', playerId: 'user-1'
     }, authedCtx());
     expect(result.success).toBe(true);
-    expect(publishMatchCompletion).toHaveBeenCalled();
+    expect(publishMatchCompletion).not.toHaveBeenCalled();
   });
 
   it('propagates fetch errors', async () => {
@@ -1163,6 +1632,14 @@ describe('mutationResolvers.concedeMatch', () => {
       mutationResolvers.concedeMatch(null, { matchId: 'm1', playerId: 'user-1' }, authedCtx())
     ).rejects.toThrow();
   });
+
+  it('refuses to concede for another player', async () => {
+    global.fetch = jest.fn() as any;
+    await expect(
+      mutationResolvers.concedeMatch(null, { matchId: 'm1', playerId: 'user-2' }, authedCtx('user-1'))
+    ).rejects.toThrow('Forbidden');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
 });
 
 describe('mutationResolvers.saveDecklist', () => {
@@ -1219,6 +1696,24 @@ describe('mutationResolvers.saveDecklist', () => {
     expect(db.put).toHaveBeenCalled();
   });
 
+  it('returns the deck legality under its format', async () => {
+    (findCardById as jest.Mock).mockReturnValue(null);
+    (findCardBySlug as jest.Mock).mockReturnValue(null);
+    const result = await mutationResolvers.saveDecklist(null, { input: validInput }, authedCtx('user-1'));
+    expect(result!.format).toBe('standard');
+    expect(result!.legality).toMatchObject({ legal: false, format: 'standard' });
+    expect(result!.legality!.violations.map((v: any) => v.code)).toEqual(
+      expect.arrayContaining(['unknown_card', 'missing_legend', 'missing_champion'])
+    );
+  });
+
+  it('rejects unknown formats', async () => {
+    await expect(
+      mutationResolvers.saveDecklist(null, { input: { ...validInput, format: 'vintage' } }, authedCtx('user-1'))
+    ).rejects.toThrow('Unknown deck format: vintage');
+    expect(db.put).not.toHaveBeenCalled();
+  });
+
   it('merges duplicate card entries up to MAX_CARD_COPIES=3', async () => {
     // 3 copies of same card should be merged
     const cards = [
@@ -1265,6 +1760,18 @@ describe('mutationResolvers.saveDecklist', () => {
     expect(result!.createdAt).toBe(new Date(originalTs).toISOString());
   });
 
+  it('lists public decks and keeps fork history across edits', async () => {
+    db._getPromise.mockResolvedValue({
+      Item: { CreatedAt: 1, ForkCount: 2, ForkLineage: ['deck-0'], ForkedFrom: { DeckId: 'deck-0', UserId: 'u0' } }
+    });
+    await mutationResolvers.saveDecklist(null, {
+      input: { ...validInput, deckId: 'existing-deck-id', isPublic: true }
+    }, authedCtx('user-1'));
+    expect(db.put.mock.calls[0][0].Item).toEqual(expect.objectContaining({
+      PublicListing: 'public', ForkCount: 2, ForkLineage: ['deck-0']
+    }));
+  });
+
   it('sanitizes card snapshot slug to lowercase', async () => {
     const cards = [
       ...Array.from({ length: 39 }, (_, i) => ({
@@ -1280,6 +1787,70 @@ describe('mutationResolvers.saveDecklist', () => {
   });
 });
 
+describe('mutationResolvers.forkDecklist', () => {
+  const source = {
+    UserId: 'author', DeckId: 'deck-2', Name: 'Jinx Aggro', IsPublic: true, PublicListing: 'public', IsDefault: true,
+    Format: 'standard', CardCount: 39, Cards: [{ cardId: 'c1', quantity: 3 }], ForkCount: 4,
+    ForkedFrom: { DeckId: 'deck-1', UserId: 'first', Name: 'Original' }, ForkLineage: ['deck-1'],
+    ChampionLegend: { cardId: 'legend-1', quantity: 1 }
+  };
+
+  it('copies a public deck into the caller\'s list with its lineage', async () => {
+    db._queryPromise.mockResolvedValue({ Items: [source] });
+
+    const result = await mutationResolvers.forkDecklist(null, { userId: 'user-1', deckId: 'deck-2' }, authedCtx('user-1'));
+
+    const saved = db.put.mock.calls[0][0].Item;
+    expect(saved).toEqual(expect.objectContaining({
+      UserId: 'user-1', Name: 'Jinx Aggro', IsPublic: false, IsDefault: false, ForkCount: 0,
+      Cards: source.Cards, ChampionLegend: source.ChampionLegend,
+      ForkedFrom: { DeckId: 'deck-2', UserId: 'author', Name: 'Jinx Aggro' },
+      ForkLineage: ['deck-1', 'deck-2']
+    }));
+    expect(saved.DeckId).not.toBe('deck-2');
+    expect(saved.PublicListing).toBeUndefined();
+    expect(db.update).toHaveBeenCalledWith(expect.objectContaining({
+      Key: { UserId: 'author', DeckId: 'deck-2' },
+      UpdateExpression: 'ADD #forkCount :one',
+      ConditionExpression: 'attribute_exists(DeckId)'
+    }));
+    expect(result!.forkedFrom).toEqual({ deckId: 'deck-2', userId: 'author', name: 'Jinx Aggro' });
+  });
+
+  it('still forks when the source is deleted before its count is bumped', async () => {
+    db._queryPromise.mockResolvedValue({ Items: [source] });
+    db._updatePromise.mockRejectedValueOnce(
+      Object.assign(new Error('The conditional request failed'), { code: 'ConditionalCheckFailedException' })
+    );
+
+    const result = await mutationResolvers.forkDecklist(null, { userId: 'user-1', deckId: 'deck-2' }, authedCtx('user-1'));
+
+    expect(result!.forkedFrom).toEqual({ deckId: 'deck-2', userId: 'author', name: 'Jinx Aggro' });
+  });
+
+  it('refuses private decks of other players, and missing decks', async () => {
+    db._queryPromise.mockResolvedValue({ Items: [{ ...source, IsPublic: false }] });
+    await expect(
+      mutationResolvers.forkDecklist(null, { userId: 'user-1', deckId: 'deck-2' }, authedCtx('user-1'))
+    ).rejects.toThrow('Forbidden');
+
+    db._queryPromise.mockResolvedValue({ Items: [] });
+    await expect(
+      mutationResolvers.forkDecklist(null, { userId: 'user-1', deckId: 'nope' }, authedCtx('user-1'))
+    ).rejects.toThrow('Deck not found');
+    expect(db.put).not.toHaveBeenCalled();
+  });
+
+  it('duplicates the caller\'s own private deck without counting it as popular', async () => {
+    db._queryPromise.mockResolvedValue({ Items: [{ ...source, UserId: 'user-1', IsPublic: false }] });
+
+    const result = await mutationResolvers.forkDecklist(null, { userId: 'user-1', deckId: 'deck-2', name: ' Copy ' }, authedCtx('user-1'));
+
+    expect(result!.name).toBe('Copy');
+    expect(db.update).not.toHaveBeenCalled();
+  });
+});
+
 describe('mutationResolvers.deleteDecklist', () => {
   it('throws when userId is missing', async () => {
     await expect(
@@ -1334,6 +1905,27 @@ describe('mutationResolvers.joinMatchmakingQueue', () => {
     expect(db.put).toHaveBeenCalled();
   });
 
+  it('refuses to queue a deck that is not standard-legal', async () => {
+    (findCardById as jest.Mock).mockReturnValue(null);
+    (findCardBySlug as jest.Mock).mockReturnValue(null);
+    db._queryPromise.mockResolvedValue({
+      Items: [{ UserId: 'user-1', DeckId: 'deck-1', Format: 'sandbox', Cards: [{ slug: 'c1', quantity: 1 }] }]
+    });
+
+    const error = await mutationResolvers
+      .joinMatchmakingQueue(null, { input: { userId: 'user-1', mode: 'ranked', deckId: 'deck-1' } }, authedCtx('user-1'))
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(GraphQLError);
+    expect((error as GraphQLError).message).toMatch(/^Deck is not legal in standard/);
+    expect((error as GraphQLError).extensions).toMatchObject({
+      code: 'BAD_USER_INPUT',
+      deckId: 'deck-1',
+      violations: expect.arrayContaining([expect.objectContaining({ code: 'unknown_card', cardId: 'c1' })])
+    });
+    expect(db.put).not.toHaveBeenCalled();
+  });
+
   it('returns existing match when already matched', async () => {
     db._getPromise
       .mockResolvedValueOnce({ Item: { State: 'matched', MatchId: 'match-existing', OpponentId: 'opp-1', MMR: 1200 } })
@@ -1414,6 +2006,35 @@ describe('subscriptionResolvers', () => {
     expect(pubSub.asyncIterator).toHaveBeenCalledWith(['PHASE_CHANGED:m1']);
   });
 
+  it('redacts gameStateChanged per subscriber', () => {
+    const payload = { gameStateChanged: makeLeakyFrame() };
+    const resolve = subscriptionResolvers.gameStateChanged.resolve;
+    expect(JSON.stringify(resolve(payload, {}, { userId: 'p2' }))).not.toContain('p1-secret');
+    expect(JSON.stringify(resolve(payload, {}, {}))).not.toContain('p1-secret');
+    expect(resolve(payload, {}, { userId: 'p1' }).players[0].hand).toHaveLength(1);
+  });
+
+  it('redacts a player view delivered to anyone but its player', () => {
+    const view = { matchId: 'm1', currentPlayer: makeLeakyFrame().players[0], opponent: { playerId: 'p2' } };
+    const resolve = subscriptionResolvers.playerGameStateChanged.resolve;
+    expect(JSON.stringify(resolve({ playerGameStateChanged: view }, {}, { userId: 'p2' }))).not.toContain('p1-secret');
+    expect(resolve({ playerGameStateChanged: view }, {}, { userId: 'p1' })).toBe(view);
+  });
+
+  it('only sends the cardPlayed playerView to the acting player', () => {
+    const event = {
+      matchId: 'm1',
+      playerId: 'p1',
+      card: { id: 'played' },
+      playerView: { currentPlayer: makeLeakyFrame().players[0] },
+    };
+    const resolve = subscriptionResolvers.cardPlayed.resolve;
+    expect(resolve({ cardPlayed: event }, {}, { userId: 'p2' }).playerView).toBeNull();
+    expect(resolve({ cardPlayed: event }, {}, { userId: 'p1' }).playerView).toBe(event.playerView);
+    const attack = { matchId: 'm1', playerId: 'p1', creatureInstanceId: 'c1', destinationId: 'bf-1' };
+    expect(subscriptionResolvers.attackDeclared.resolve({ attackDeclared: attack }, {}, {})).toEqual(attack);
+  });
+
   it('matchmakingStatusUpdated.subscribe uses normalized mode in key', () => {
     subscriptionResolvers.matchmakingStatusUpdated.subscribe(null, { userId: 'u1', mode: 'ranked' });
     expect(pubSub.asyncIterator).toHaveBeenCalledWith(['MATCHMAKING_STATUS_UPDATED:ranked:u1']);
@@ -1475,9 +2096,15 @@ describe('runMatchmakingSweep', () => {
 
     db._getPromise.mockResolvedValue({ Item: null }); // getUserProfileSummary / getUserMmr
     mockFetch({ matchId: 'new-match', status: 'initialized' }); // spawnMatchService
+    process.env.INTERNAL_API_KEY = 'matchmaker-key';
 
     const result = await runMatchmakingSweep('free');
+    delete process.env.INTERNAL_API_KEY;
     expect(result).toBe(true);
+    // The match service only rates the match for internal callers.
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(JSON.parse(init.body).mode).toBe('free');
+    expect(init.headers['x-internal-api-key']).toBe('matchmaker-key');
   });
 });
 
@@ -22,6 +22,7 @@ export function makePlayerState(overrides: Partial<PlayerState> = {}): PlayerSta
     board: { creatures: [], artifacts: [], enchantments: [] },
     graveyard: [],
     exile: [],
+    banishment: [],
     resources: {
       energy: 0,
       universalPower: 0,
@@ -35,6 +36,7 @@ export function makePlayerState(overrides: Partial<PlayerState> = {}): PlayerSta
     championLegendState: null,
     championLeaderState: null,
     burnedOut: false,
+    eliminated: false,
     ...overrides,
   };
 }
@@ -42,6 +44,7 @@ export function makePlayerState(overrides: Partial<PlayerState> = {}): PlayerSta
 export function makeMatchState(overrides: Partial<MatchState> = {}): MatchState {
   return {
     matchId: 'match-1',
+    version: 0,
     players: [],
     currentPlayerIndex: 0,
     currentPhase: GamePhase.MAIN_1,
@@ -60,6 +63,8 @@ export function makeMatchState(overrides: Partial<MatchState> = {}): MatchState
     endReason: null,
     prompts: [],
     priorityWindow: null,
+    clock: null,
+    ruleProfile: null,
     snapshots: [],
     battlefields: [],
     duelLog: [],
@@ -68,6 +73,7 @@ export function makeMatchState(overrides: Partial<MatchState> = {}): MatchState
     combatContext: null,
     pendingSpellResolution: null,
     reactionChain: null,
+    restrictions: [],
     ...overrides,
   };
 }
@@ -61,10 +61,10 @@ describe('Integration - Full Game Lifecycle', () => {
     if (engine.status !== GameStatus.IN_PROGRESS) return;
 
     const result = engine.concedeMatch('bob');
-    expect(result.winner).toBe('alice');
-    expect(result.loser).toBe('bob');
-    expect(result.reason).toBe('concede');
-    expect(result.matchId).toBe('concede-test');
+    expect(result!.winner).toBe('alice');
+    expect(result!.loser).toBe('bob');
+    expect(result!.reason).toBe('concede');
+    expect(result!.matchId).toBe('concede-test');
 
     // Engine should now be in WINNER_DETERMINED
     expect(engine.status).toBe(GameStatus.WINNER_DETERMINED);
@@ -91,6 +91,7 @@ describe('Integration - State Consistency', () => {
         player.hand.length +
         player.graveyard.length +
         player.exile.length +
+        player.banishment.length +
         player.board.creatures.length +
         player.board.artifacts.length +
         player.board.enchantments.length;
@@ -153,7 +154,7 @@ describe('Integration - Serialize and Resume', () => {
 
     // Should be able to concede from restored state
     const result = restored.concedeMatch('player-2');
-    expect(result.winner).toBe('player-1');
+    expect(result!.winner).toBe('player-1');
     expect(restored.status).toBe(GameStatus.WINNER_DETERMINED);
   });
 
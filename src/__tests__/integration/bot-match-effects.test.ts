@@ -49,7 +49,7 @@ import {
 } from '../../effects';
 import {
   makeRng,
-  enumerateLegalActions,
+  listBotActions,
   dispatchAction,
   getBot,
   Rng,
@@ -541,7 +541,7 @@ function runOneMatch(
         }
       } else {
         for (const pid of [p1, p2]) {
-          const legals = enumerateLegalActions(engine, pid);
+          const legals = listBotActions(engine, pid);
           if (legals.length === 0) continue;
           const action = botFor(pid)(engine, pid, pickRng(pid));
           if (!action) continue;
@@ -0,0 +1,177 @@
+/**
+ * Match commands
+ *
+ * parseMatchCommand gives REST bodies and GraphQL arguments the same
+ * defaults and input checks, authorizeMatchCommand keeps players to their own
+ * seat, and applyMatchCommand gates turn actions before calling the engine.
+ */
+import {
+  MatchCommandError,
+  applyMatchCommand,
+  authorizeMatchCommand,
+  parseMatchCommand
+} from '../match-commands';
+import type { RiftboundGameEngine } from '../game-engine';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const ORIGINAL_ENV = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...ORIGINAL_ENV };
+});
+
+function rejection(run: () => unknown): MatchCommandError {
+  try {
+    run();
+  } catch (error) {
+    return error as MatchCommandError;
+  }
+  throw new Error('Expected the command to be rejected');
+}
+
+function fakeEngine(canAct = true) {
+  return {
+    canPlayerAct: jest.fn(() => canAct),
+    playCard: jest.fn(),
+    moveUnit: jest.fn(),
+    submitDamageAssignment: jest.fn(),
+    respondToChainReaction: jest.fn(),
+    passPriority: jest.fn(),
+    proceedToNextPhase: jest.fn()
+  };
+}
+
+const asEngine = (fake: ReturnType<typeof fakeEngine>) => fake as unknown as RiftboundGameEngine;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe('parseMatchCommand', () => {
+  it('rejects unknown commands and missing players', () => {
+    expect(rejection(() => parseMatchCommand('surrender', { playerId: 'p1' }))).toMatchObject({
+      message: 'Unknown match command surrender',
+      statusCode: 404
+    });
+    expect(rejection(() => parseMatchCommand('pass-priority', {}))).toMatchObject({
+      message: 'playerId is required',
+      statusCode: 400
+    });
+  });
+
+  it('fills in the shared defaults', () => {
+    expect(parseMatchCommand('mulligan', { playerId: 'p1' })).toEqual({ type: 'mulligan', playerId: 'p1', indices: [] });
+    expect(parseMatchCommand('play-card', { playerId: 'p1', cardIndex: 2 })).toEqual({
+      type: 'play-card',
+      playerId: 'p1',
+      cardIndex: 2,
+      targets: undefined,
+      destinationId: undefined,
+      useAccelerate: false
+    });
+    expect(parseMatchCommand('activate-legend', { playerId: 'p1' })).toEqual({
+      type: 'activate-legend',
+      playerId: 'p1',
+      target: 'legend',
+      destinationId: null
+    });
+    expect(parseMatchCommand('assign-damage', { playerId: 'p1', promptId: 'x', assignments: [1] })).toMatchObject({
+      assignments: {}
+    });
+  });
+
+  it('checks attack destinations and reaction answers', () => {
+    expect(() =>
+      parseMatchCommand('attack', { playerId: 'p1', creatureInstanceId: 'u1' })
+    ).toThrow('Battlefield destination required');
+    expect(() =>
+      parseMatchCommand('attack', { playerId: 'p1', creatureInstanceId: 'u1', destinationId: 'base' })
+    ).toThrow('Use move to return to base');
+    expect(() => parseMatchCommand('respond-to-spell-reaction', { playerId: 'p1', pass: 'yes' })).toThrow(
+      'pass (boolean) is required'
+    );
+    expect(() => parseMatchCommand('respond-to-take-back', { playerId: 'p1' })).toThrow(
+      'accept (boolean) is required'
+    );
+  });
+});
+
+// ============================================================================
+// Authorization
+// ============================================================================
+
+describe('authorizeMatchCommand', () => {
+  const command = parseMatchCommand('pass-priority', { playerId: 'p1' });
+
+  beforeEach(() => {
+    delete process.env.ALLOW_LOCAL_BYPASS;
+  });
+
+  it('lets players act for their own seat and in-process callers through', () => {
+    expect(() => authorizeMatchCommand(command, { userId: 'p1' })).not.toThrow();
+    expect(() => authorizeMatchCommand(command, {})).not.toThrow();
+  });
+
+  it('refuses another seat unless the caller is an admin', () => {
+    expect(rejection(() => authorizeMatchCommand(command, { userId: 'p2' }))).toMatchObject({
+      message: 'Players can only act for themselves',
+      statusCode: 403
+    });
+    expect(() =>
+      authorizeMatchCommand(command, { userId: 'p2', authPayload: { 'cognito:groups': ['admin'] } })
+    ).not.toThrow();
+  });
+});
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+describe('applyMatchCommand', () => {
+  it('turns away turn actions from the player without the turn', () => {
+    const engine = fakeEngine(false);
+    const command = parseMatchCommand('play-card', { playerId: 'p1', cardIndex: 0 });
+
+    expect(rejection(() => applyMatchCommand(asEngine(engine), command))).toMatchObject({
+      message: 'Not your turn',
+      statusCode: 403
+    });
+    expect(engine.playCard).not.toHaveBeenCalled();
+  });
+
+  it('lets answers to prompts and windows through out of turn', () => {
+    const engine = fakeEngine(false);
+
+    applyMatchCommand(asEngine(engine), parseMatchCommand('pass-priority', { playerId: 'p2' }));
+    applyMatchCommand(asEngine(engine), parseMatchCommand('respond-to-chain-reaction', { playerId: 'p2', pass: true }));
+
+    expect(engine.passPriority).toHaveBeenCalledWith('p2');
+    expect(engine.respondToChainReaction).toHaveBeenCalledWith('p2', true);
+  });
+
+  it('calls the matching engine method', () => {
+    const engine = fakeEngine();
+
+    applyMatchCommand(
+      asEngine(engine),
+      parseMatchCommand('play-card', { playerId: 'p1', cardIndex: 1, targets: ['t1'], destinationId: 'bf1', useAccelerate: true })
+    );
+    applyMatchCommand(
+      asEngine(engine),
+      parseMatchCommand('attack', { playerId: 'p1', creatureInstanceId: 'u1', destinationId: 'bf1' })
+    );
+    applyMatchCommand(
+      asEngine(engine),
+      parseMatchCommand('assign-damage', { playerId: 'p1', promptId: 'd1', assignments: { u2: 3 } })
+    );
+    applyMatchCommand(asEngine(engine), parseMatchCommand('next-phase', { playerId: 'p1' }));
+
+    expect(engine.playCard).toHaveBeenCalledWith('p1', 1, ['t1'], 'bf1', { useAccelerate: true });
+    expect(engine.moveUnit).toHaveBeenCalledWith('p1', 'u1', 'bf1');
+    expect(engine.submitDamageAssignment).toHaveBeenCalledWith('p1', 'd1', { u2: 3 });
+    expect(engine.proceedToNextPhase).toHaveBeenCalled();
+  });
+});
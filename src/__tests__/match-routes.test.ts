@@ -5,11 +5,13 @@
  *   POST /matches/init
  *   GET  /matches/:matchId
  *   GET  /matches/:matchId/player/:playerId
+ *   GET  /matches/:matchId/player/:playerId/legal-actions
  *   POST /matches/:matchId/actions/play-card
  *   POST /matches/:matchId/actions/select-battlefield
  *   POST /matches/:matchId/actions/mulligan
  *   POST /matches/:matchId/actions/discard
  *   POST /matches/:matchId/actions/target
+ *   POST /matches/:matchId/actions/assign-damage
  *   POST /matches/:matchId/actions/initiative
  *   POST /matches/:matchId/actions/attack
  *   POST /matches/:matchId/actions/move
@@ -20,12 +22,17 @@
  *   POST /matches/:matchId/actions/pass-priority
  *   POST /matches/:matchId/actions/respond-to-spell-reaction
  *   POST /matches/:matchId/actions/respond-to-chain-reaction
+ *   POST /matches/:matchId/actions/request-take-back
+ *   POST /matches/:matchId/actions/respond-to-take-back
  *   POST /matches/:matchId/actions/next-phase
  *   POST /matches/:matchId/logs  (and /actions/duel-log)
  *   POST /matches/:matchId/chat  (and /actions/chat)
  *   POST /matches/:matchId/result
  *   POST /matches/:matchId/concede
  *   GET  /matches/:matchId/history
+ *   GET  /matches/:matchId/replay-check
+ *   GET  /series/:seriesId
+ *   POST /series/:seriesId/first-player  (and /sideboard)
  */
 
 // ---------------------------------------------------------------------------
@@ -80,6 +87,7 @@ jest.mock('../game-engine', () => {
     getGameState:             jest.fn(),
     getPlayerState:           jest.fn(),
     canPlayerAct:             jest.fn().mockReturnValue(true),
+    getLegalActions:          jest.fn().mockReturnValue([]),
     playCard:                 jest.fn(),
     moveUnit:                 jest.fn(),
     hideCard:                 jest.fn(),
@@ -88,17 +96,24 @@ jest.mock('../game-engine', () => {
     submitMulligan:           jest.fn(),
     submitDiscardSelection:   jest.fn(),
     submitTargetSelection:    jest.fn(),
+    submitDamageAssignment:   jest.fn(),
     submitInitiativeChoice:   jest.fn(),
     commenceBattle:           jest.fn(),
     activateChampionAbility:  jest.fn(),
     passPriority:             jest.fn(),
     respondToSpellReaction:   jest.fn(),
     respondToChainReaction:   jest.fn(),
+    requestTakeBack:          jest.fn(),
+    respondToTakeBack:        jest.fn(),
     proceedToNextPhase:       jest.fn(),
     addDuelLogEntry:          jest.fn(),
     addChatMessage:           jest.fn(),
     concedeMatch:             jest.fn(),
+    adjudicateResult:         jest.fn(),
     getMatchResult:           jest.fn().mockReturnValue(null),
+    enforceClock:             jest.fn().mockReturnValue(false),
+    syncClock:                jest.fn(),
+    getNextClockDeadline:     jest.fn().mockReturnValue(null),
   };
 
   const MockEngine: any = jest.fn().mockImplementation(() => engineInstance);
@@ -129,6 +144,14 @@ jest.mock('../game-state-serializer', () => ({
   serializeGameState:  jest.fn(),
   serializePlayerState: jest.fn().mockReturnValue({ playerId: 'player-1', handSize: 7 }),
   buildOpponentView:   jest.fn().mockReturnValue({ playerId: 'player-2', handSize: 5 }),
+  buildOpponentViews:  jest.fn().mockReturnValue([{ playerId: 'player-2', handSize: 5 }]),
+  redactGameStateForViewer: jest.fn(),
+  isOpenInformationMatch: jest.fn(),
+}));
+
+jest.mock('../replay-divergence', () => ({
+  __esModule: true,
+  checkReplayDivergence: jest.fn(),
 }));
 
 // ---------------------------------------------------------------------------
@@ -137,10 +160,16 @@ jest.mock('../game-state-serializer', () => ({
 
 import express from 'express';
 import request from 'supertest';
+import { randomBytes } from 'node:crypto';
+import { gzipSync } from 'node:zlib';
 import AWS from 'aws-sdk';
+import logger from '../logger';
 import { RiftboundGameEngine } from '../game-engine';
-import { serializeGameState, serializePlayerState, buildOpponentView } from '../game-state-serializer';
-import { registerMatchRoutes } from '../match-routes';
+import { serializeGameState, serializePlayerState, buildOpponentView, redactGameStateForViewer } from '../game-state-serializer';
+import { MAX_STORED_COMMAND_LOG_BYTES, registerMatchRoutes } from '../match-routes';
+import { checkReplayDivergence } from '../replay-divergence';
+import { createMatchSeries, recordSeriesGameResult } from '../match-series';
+import { SEQ_PER_VERSION, SubscriptionEvents, clearMatchEventLogs, getMatchEventsSince } from '../graphql/pubsub';
 
 // ---------------------------------------------------------------------------
 // Typed helpers
@@ -164,6 +193,7 @@ interface EngineInstance {
   getGameState: jest.Mock;
   getPlayerState: jest.Mock;
   canPlayerAct: jest.Mock;
+  getLegalActions: jest.Mock;
   playCard: jest.Mock;
   moveUnit: jest.Mock;
   hideCard: jest.Mock;
@@ -172,17 +202,24 @@ interface EngineInstance {
   submitMulligan: jest.Mock;
   submitDiscardSelection: jest.Mock;
   submitTargetSelection: jest.Mock;
+  submitDamageAssignment: jest.Mock;
   submitInitiativeChoice: jest.Mock;
   commenceBattle: jest.Mock;
   activateChampionAbility: jest.Mock;
   passPriority: jest.Mock;
   respondToSpellReaction: jest.Mock;
   respondToChainReaction: jest.Mock;
+  requestTakeBack: jest.Mock;
+  respondToTakeBack: jest.Mock;
   proceedToNextPhase: jest.Mock;
   addDuelLogEntry: jest.Mock;
   addChatMessage: jest.Mock;
   concedeMatch: jest.Mock;
+  adjudicateResult: jest.Mock;
   getMatchResult: jest.Mock;
+  enforceClock: jest.Mock;
+  syncClock: jest.Mock;
+  getNextClockDeadline: jest.Mock;
 }
 
 const db  = (AWS as any)._client as DbClient;
@@ -190,6 +227,7 @@ const eng = (RiftboundGameEngine as any)._instance as EngineInstance;
 
 const mockSerialize        = serializeGameState   as jest.Mock;
 const mockSerializePlayer  = serializePlayerState as jest.Mock;
+const mockRedact           = redactGameStateForViewer as jest.Mock;
 const mockBuildOpponent    = buildOpponentView    as jest.Mock;
 
 // ---------------------------------------------------------------------------
@@ -207,6 +245,7 @@ const makePlayerState = (playerId = 'player-1') => ({
   deck: [],
   graveyard: [],
   exile: [],
+  banishment: [],
   board: { creatures: [], artifacts: [], enchantments: [] },
   runeDeck: [],
 });
@@ -255,6 +294,15 @@ const givenStateNotFound = () => {
 
 const app = express();
 app.use(express.json());
+// Stand-in for the server's auth middleware
+app.use((req, _res, next) => {
+  const userId = req.get('x-user-id');
+  if (userId) {
+    (req as any).userId = userId;
+    (req as any).authPayload = { 'cognito:groups': (req.get('x-user-groups') ?? '').split(',') };
+  }
+  next();
+});
 registerMatchRoutes(app);
 
 // ---------------------------------------------------------------------------
@@ -288,17 +336,23 @@ beforeEach(() => {
   eng.submitMulligan.mockReturnValue(undefined);
   eng.submitDiscardSelection.mockReturnValue(undefined);
   eng.submitTargetSelection.mockReturnValue(undefined);
+  eng.submitDamageAssignment.mockReturnValue(undefined);
   eng.submitInitiativeChoice.mockReturnValue(undefined);
   eng.commenceBattle.mockReturnValue(undefined);
   eng.activateChampionAbility.mockReturnValue(undefined);
   eng.passPriority.mockReturnValue(undefined);
   eng.respondToSpellReaction.mockReturnValue(undefined);
   eng.respondToChainReaction.mockReturnValue(undefined);
+  eng.requestTakeBack.mockReturnValue(undefined);
+  eng.respondToTakeBack.mockReturnValue(true);
   eng.proceedToNextPhase.mockReturnValue(undefined);
   eng.getGameState.mockReturnValue(makeGameState());
   eng.getPlayerState.mockReturnValue(makePlayerState());
   eng.canPlayerAct.mockReturnValue(true);
+  eng.getLegalActions.mockReturnValue([]);
   eng.getMatchResult.mockReturnValue(null);
+  eng.enforceClock.mockReturnValue(false);
+  eng.getNextClockDeadline.mockReturnValue(null);
   eng.addDuelLogEntry.mockReturnValue({
     id: 'entry-1', playerId: 'player-1', message: 'hello', tone: 'normal', timestamp: 1_000_000
   });
@@ -316,6 +370,7 @@ beforeEach(() => {
   // Serializer defaults
   mockSerialize.mockReturnValue(makeSerializedState());
   mockSerializePlayer.mockReturnValue({ playerId: 'player-1', handSize: 7 });
+  mockRedact.mockImplementation((state, viewerId) => ({ ...state, redactedFor: viewerId }));
   mockBuildOpponent.mockReturnValue({ playerId: 'player-2', handSize: 5 });
 });
 
@@ -386,6 +441,33 @@ describe('POST /matches/init', () => {
     expect(res.body.error).toMatch(/invalid deck/i);
   });
 
+  it('returns 400 with the violations when a player deck is not legal', async () => {
+    givenStateNotFound();
+
+    const res = await request(app).post('/matches/init').send({
+      ...validBody,
+      format: 'sandbox',
+      decks: { 'player-1': { deckId: 'deck-1', mainDeck: [] }, 'player-2': { mainDeck: [] } },
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toMatchObject({
+      error: 'Deck for player player-1 is not legal in sandbox: Main deck must have at least 1 cards including the chosen champion (has 0)',
+      playerId: 'player-1',
+      violations: [{ code: 'deck_size', zone: 'main' }],
+    });
+    expect(eng.initializeGame).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an unknown deck format', async () => {
+    givenStateNotFound();
+
+    const res = await request(app).post('/matches/init').send({ ...validBody, format: 'vintage' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Unknown deck format: vintage');
+  });
+
   it('accepts playerProfiles and passes usernames to engine constructor', async () => {
     givenStateNotFound();
     const bodyWithProfiles = {
@@ -431,6 +513,36 @@ describe('GET /matches/:matchId', () => {
     expect(res.body.matchId).toBe('test-match');
   });
 
+  it('scopes the state to the caller', async () => {
+    givenStateExists();
+
+    const res = await request(app).get('/matches/test-match').set('x-user-id', 'player-2');
+
+    expect(res.status).toBe(200);
+    expect(mockRedact).toHaveBeenCalledWith(expect.objectContaining({ matchId: 'test-match' }), 'player-2');
+    expect(res.body.redactedFor).toBe('player-2');
+  });
+
+  it('shows an anonymous caller only what a spectator may see', async () => {
+    givenStateExists();
+
+    const res = await request(app).get('/matches/test-match');
+
+    expect(res.body.redactedFor).toBeNull();
+  });
+
+  it('gives admins the full state', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .get('/matches/test-match')
+      .set('x-user-id', 'judge')
+      .set('x-user-groups', 'admin');
+
+    expect(mockRedact).not.toHaveBeenCalled();
+    expect(res.body.matchId).toBe('test-match');
+  });
+
   it('returns 404 when match not found', async () => {
     givenStateNotFound();
 
@@ -455,10 +567,16 @@ describe('GET /matches/:matchId', () => {
 // ===========================================================================
 
 describe('GET /matches/:matchId/player/:playerId', () => {
+  const viewAs = (userId: string, playerId = 'player-1', groups = '') =>
+    request(app)
+      .get(`/matches/test-match/player/${playerId}`)
+      .set('x-user-id', userId)
+      .set('x-user-groups', groups);
+
   it('returns player-specific view for an existing match', async () => {
     givenStateExists();
 
-    const res = await request(app).get('/matches/test-match/player/player-1');
+    const res = await viewAs('player-1');
 
     expect(res.status).toBe(200);
     expect(res.body.matchId).toBe('test-match');
@@ -467,6 +585,43 @@ describe('GET /matches/:matchId/player/:playerId', () => {
     expect(res.body.gameState).toBeDefined();
   });
 
+  it('includes the player\'s legal actions', async () => {
+    givenStateExists();
+    eng.getLegalActions.mockReturnValue([{ kind: 'advance_phase' }, { kind: 'concede' }]);
+
+    const res = await viewAs('player-1');
+
+    expect(res.body.legalActions).toEqual([{ kind: 'advance_phase' }, { kind: 'concede' }]);
+    expect(eng.getLegalActions).toHaveBeenCalledWith('player-1');
+  });
+
+  it('refuses another player\'s seat', async () => {
+    givenStateExists();
+    eng.getLegalActions.mockReturnValue([{ kind: 'concede' }]);
+
+    const res = await viewAs('player-2');
+
+    expect(res.status).toBe(403);
+    expect(eng.getLegalActions).not.toHaveBeenCalled();
+  });
+
+  it('refuses an anonymous caller a seat\'s view', async () => {
+    givenStateExists();
+
+    const res = await request(app).get('/matches/test-match/player/player-1');
+
+    expect(res.status).toBe(403);
+  });
+
+  it('lets an admin view any seat', async () => {
+    givenStateExists();
+
+    const res = await viewAs('judge', 'player-1', 'admin');
+
+    expect(res.status).toBe(200);
+    expect(res.body.currentPlayer).toBeDefined();
+  });
+
   it('returns 404 when match not found', async () => {
     givenStateNotFound();
 
@@ -490,6 +645,47 @@ describe('GET /matches/:matchId/player/:playerId', () => {
     expect(res.body.opponent).toBeDefined();
     expect(res.body.gameState).toBeDefined();
     expect(res.body.gameState.canAct).toBe(false);
+    expect(res.body.legalActions).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// GET /matches/:matchId/player/:playerId/legal-actions
+// ===========================================================================
+
+describe('GET /matches/:matchId/player/:playerId/legal-actions', () => {
+  const listAs = (userId: string, playerId = 'player-1', groups = '') =>
+    request(app)
+      .get(`/matches/test-match/player/${playerId}/legal-actions`)
+      .set('x-user-id', userId)
+      .set('x-user-groups', groups);
+
+  it('lists the caller\'s own legal actions', async () => {
+    givenStateExists();
+    const actions = [{ kind: 'move_unit', instanceId: 'unit-1', destinations: ['base'] }, { kind: 'concede' }];
+    eng.getLegalActions.mockReturnValue(actions);
+
+    const res = await listAs('player-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ matchId: 'test-match', playerId: 'player-1', legalActions: actions });
+  });
+
+  it('refuses to list another player\'s actions', async () => {
+    givenStateExists();
+
+    const res = await listAs('player-2');
+
+    expect(res.status).toBe(403);
+    expect(eng.getLegalActions).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for a player outside the match', async () => {
+    givenStateExists();
+
+    const res = await listAs('judge', 'stranger', 'admin');
+
+    expect(res.status).toBe(404);
   });
 });
 
@@ -752,6 +948,42 @@ describe('POST /matches/:matchId/actions/target', () => {
   });
 });
 
+// ===========================================================================
+// POST /matches/:matchId/actions/assign-damage
+// ===========================================================================
+
+describe('POST /matches/:matchId/actions/assign-damage', () => {
+  it('submits the damage split', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/assign-damage')
+      .send({ playerId: 'player-1', promptId: 'prompt-1', assignments: { 'unit-a': 2, 'unit-b': 1 } });
+
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(eng.submitDamageAssignment).toHaveBeenCalledWith('player-1', 'prompt-1', {
+      'unit-a': 2,
+      'unit-b': 1
+    });
+  });
+
+  it('returns 400 with the engine error for an illegal split', async () => {
+    givenStateExists();
+    eng.submitDamageAssignment.mockImplementation(() => {
+      throw new Error('Tank units must be assigned lethal damage first');
+    });
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/assign-damage')
+      .send({ playerId: 'player-1', promptId: 'prompt-1', assignments: [] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Tank units must be assigned lethal damage first');
+    expect(eng.submitDamageAssignment).toHaveBeenCalledWith('player-1', 'prompt-1', {});
+  });
+});
+
 // ===========================================================================
 // POST /matches/:matchId/actions/initiative
 // ===========================================================================
@@ -847,7 +1079,7 @@ describe('POST /matches/:matchId/actions/attack', () => {
       .send({ playerId: 'player-1', creatureInstanceId: 'inst-1', destinationId: 'base' });
 
     expect(res.status).toBe(400);
-    expect(res.body.error).toMatch(/move endpoint/i);
+    expect(res.body.error).toMatch(/use move/i);
   });
 
   it('returns 404 when match not found', async () => {
@@ -1287,6 +1519,57 @@ describe('POST /matches/:matchId/actions/respond-to-chain-reaction', () => {
   });
 });
 
+// ===========================================================================
+// POST /matches/:matchId/actions/request-take-back, respond-to-take-back
+// ===========================================================================
+
+describe('take-back actions', () => {
+  it('asks the opponent to take back the last action', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/request-take-back')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(200);
+    expect(eng.requestTakeBack).toHaveBeenCalledWith('player-1');
+  });
+
+  it('returns 400 with the engine\'s reason when the action cannot be taken back', async () => {
+    givenStateExists();
+    eng.requestTakeBack.mockImplementation(() => {
+      throw new Error('Take-backs are not allowed in ranked matches');
+    });
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/request-take-back')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Take-backs are not allowed in ranked matches');
+  });
+
+  it('passes the answer to the engine', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/respond-to-take-back')
+      .send({ playerId: 'player-2', accept: false });
+
+    expect(res.status).toBe(200);
+    expect(eng.respondToTakeBack).toHaveBeenCalledWith('player-2', false);
+  });
+
+  it('returns 400 when accept is not a boolean', async () => {
+    const res = await request(app)
+      .post('/matches/test-match/actions/respond-to-take-back')
+      .send({ playerId: 'player-2', accept: 'yes' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/accept.*boolean.*required/i);
+  });
+});
+
 // ===========================================================================
 // POST /matches/:matchId/actions/next-phase
 // ===========================================================================
@@ -1340,6 +1623,106 @@ describe('POST /matches/:matchId/actions/next-phase', () => {
   });
 });
 
+// ===========================================================================
+// Match commands: seat authorization and published events
+// ===========================================================================
+
+describe('match command actions', () => {
+  const eventsOn = (event: SubscriptionEvents) =>
+    getMatchEventsSince('test-match', [`${event}:test-match`], 0).map((entry) => Object.values(entry.payload)[0]);
+
+  beforeEach(() => {
+    clearMatchEventLogs();
+  });
+
+  it('refuses a command sent for another player\'s seat', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/pass-priority')
+      .set('x-user-id', 'player-2')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe('Players can only act for themselves');
+    expect(eng.passPriority).not.toHaveBeenCalled();
+  });
+
+  it('lets an admin act for a player', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/pass-priority')
+      .set('x-user-id', 'judge')
+      .set('x-user-groups', 'admin')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(200);
+    expect(eng.passPriority).toHaveBeenCalledWith('player-1');
+  });
+
+  it('publishes the state to every player and the card played', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/play-card')
+      .set('x-user-id', 'player-1')
+      .send({ playerId: 'player-1', cardIndex: 0 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.playerView).toBeDefined();
+    expect(eventsOn(SubscriptionEvents.GAME_STATE_CHANGED)).toHaveLength(1);
+    for (const playerId of ['player-1', 'player-2']) {
+      expect(
+        getMatchEventsSince('test-match', [`${SubscriptionEvents.PLAYER_GAME_STATE_CHANGED}:test-match:${playerId}`], 0)
+      ).toHaveLength(1);
+    }
+    expect(eventsOn(SubscriptionEvents.CARD_PLAYED)).toEqual([
+      expect.objectContaining({
+        playerId: 'player-1',
+        card: expect.objectContaining({ cardId: 'card-1', name: 'Test Card', cost: 2 }),
+        runePayment: res.body.runePayment
+      })
+    ]);
+  });
+
+  it('publishes attacks and phase changes', async () => {
+    const state = makeGameState();
+    givenStateExists(state);
+    eng.getGameState.mockReturnValue(state);
+    eng.proceedToNextPhase.mockImplementation(() => {
+      state.currentPhase = 'combat';
+    });
+
+    await request(app)
+      .post('/matches/test-match/actions/attack')
+      .send({ playerId: 'player-1', creatureInstanceId: 'unit-1', destinationId: 'bf-1' });
+    await request(app)
+      .post('/matches/test-match/actions/next-phase')
+      .send({ playerId: 'player-1' });
+
+    expect(eventsOn(SubscriptionEvents.ATTACK_DECLARED)).toEqual([
+      expect.objectContaining({ playerId: 'player-1', creatureInstanceId: 'unit-1', destinationId: 'bf-1' })
+    ]);
+    expect(eventsOn(SubscriptionEvents.PHASE_CHANGED)).toEqual([
+      expect.objectContaining({ newPhase: 'combat', turnNumber: 1 })
+    ]);
+  });
+
+  it('publishes nothing when the command is rejected', async () => {
+    givenStateExists();
+    eng.passPriority.mockImplementation(() => {
+      throw new Error('No priority window');
+    });
+
+    await request(app)
+      .post('/matches/test-match/actions/pass-priority')
+      .send({ playerId: 'player-1' });
+
+    expect(eventsOn(SubscriptionEvents.GAME_STATE_CHANGED)).toEqual([]);
+  });
+});
+
 // ===========================================================================
 // POST /matches/:matchId/logs  (duel log — two paths)
 // ===========================================================================
@@ -1380,6 +1763,18 @@ describe('POST /matches/:matchId/logs (duel log)', () => {
     expect(res.body.success).toBe(true);
   });
 
+  it('refuses an entry written for another player\'s seat', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/logs')
+      .set('x-user-id', 'player-2')
+      .send(body);
+
+    expect(res.status).toBe(403);
+    expect(eng.addDuelLogEntry).not.toHaveBeenCalled();
+  });
+
   it('returns 404 when match not found', async () => {
     givenStateNotFound();
 
@@ -1431,6 +1826,17 @@ describe('POST /matches/:matchId/chat', () => {
     }));
   });
 
+  it('publishes the new state to subscribers', async () => {
+    givenStateExists();
+    clearMatchEventLogs();
+
+    await request(app).post('/matches/test-match/chat').send(body);
+
+    expect(
+      getMatchEventsSince('test-match', [`${SubscriptionEvents.GAME_STATE_CHANGED}:test-match`], 0)
+    ).toHaveLength(1);
+  });
+
   it('sends a chat message via /actions/chat alias', async () => {
     givenStateExists();
 
@@ -1442,6 +1848,19 @@ describe('POST /matches/:matchId/chat', () => {
     expect(res.body.success).toBe(true);
   });
 
+  it('refuses a message sent as another player', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/chat')
+      .set('x-user-id', 'player-2')
+      .send(body);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe('Players can only act for themselves');
+    expect(eng.addChatMessage).not.toHaveBeenCalled();
+  });
+
   it('returns 400 when playerId is missing', async () => {
     const res = await request(app)
       .post('/matches/test-match/chat')
@@ -1488,83 +1907,91 @@ describe('POST /matches/:matchId/chat', () => {
 // ===========================================================================
 
 describe('POST /matches/:matchId/result', () => {
-  it('reports match result and persists to DynamoDB', async () => {
+  const engineResult = {
+    matchId: 'test-match',
+    winner: 'player-1',
+    loser: 'player-2',
+    reason: 'victory_points',
+    duration: 5000,
+    turns: 3,
+    moves: [],
+  };
+  const reportAs = (userId: string, body: Record<string, unknown>, groups = '') =>
+    request(app)
+      .post('/matches/test-match/result')
+      .set('x-user-id', userId)
+      .set('x-user-groups', groups)
+      .send(body);
+
+  it('confirms the engine result and persists to DynamoDB', async () => {
     givenStateExists();
+    eng.getMatchResult.mockReturnValue(engineResult);
 
-    const res = await request(app)
-      .post('/matches/test-match/result')
-      .send({ winner: 'player-1', reason: 'victory_points' });
+    const res = await reportAs('player-2', {});
 
     expect(res.status).toBe(200);
     expect(res.body.success).toBe(true);
-    expect(res.body.matchResult).toBeDefined();
     expect(res.body.matchResult.winner).toBe('player-1');
     // DynamoDB put should have been called for match persistence
     expect(db._putPromise).toHaveBeenCalled();
   });
 
-  it('uses engine.getMatchResult() when available', async () => {
+  it('uses engine.getMatchResult() rather than the reported reason', async () => {
     givenStateExists();
-    eng.getMatchResult.mockReturnValue({
-      matchId: 'test-match',
-      winner: 'player-1',
-      loser: 'player-2',
-      reason: 'health_depleted',
-      duration: 5000,
-      turns: 3,
-      moves: [],
-    });
+    eng.getMatchResult.mockReturnValue({ ...engineResult, reason: 'burn_out' });
 
-    const res = await request(app)
-      .post('/matches/test-match/result')
-      .send({ winner: 'player-1' });
+    const res = await reportAs('player-1', { winner: 'player-1', reason: 'concede' });
 
     expect(res.status).toBe(200);
-    expect(res.body.matchResult.reason).toBe('health_depleted');
+    expect(res.body.matchResult.reason).toBe('burn_out');
   });
 
-  it('falls back to constructing matchResult when engine returns null', async () => {
+  it('rejects a reported winner when the engine has not decided the match', async () => {
     givenStateExists();
     eng.getMatchResult.mockReturnValue(null);
 
-    const res = await request(app)
-      .post('/matches/test-match/result')
-      .send({ winner: 'player-2', reason: 'timeout' });
+    const res = await reportAs('player-2', { winner: 'player-2', reason: 'timeout' });
 
-    expect(res.status).toBe(200);
-    expect(res.body.matchResult.winner).toBe('player-2');
-    expect(res.body.matchResult.reason).toBe('timeout');
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/not been decided/i);
+    expect(db.put).not.toHaveBeenCalled();
   });
 
-  it('returns 400 when winner is missing', async () => {
+  it('rejects a reported winner that contradicts the engine', async () => {
     givenStateExists();
+    eng.getMatchResult.mockReturnValue(engineResult);
 
-    const res = await request(app)
-      .post('/matches/test-match/result')
-      .send({ reason: 'timeout' });
+    const res = await reportAs('player-2', { winner: 'player-2' });
 
-    expect(res.status).toBe(400);
-    expect(res.body.error).toMatch(/winner must be specified/i);
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/does not match/i);
+    expect(eng.adjudicateResult).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for callers outside the match', async () => {
+    givenStateExists();
+    eng.getMatchResult.mockReturnValue(engineResult);
+
+    const res = await reportAs('stranger', {});
+
+    expect(res.status).toBe(403);
   });
 
   it('returns 404 when match not found', async () => {
     givenStateNotFound();
 
-    const res = await request(app)
-      .post('/matches/test-match/result')
-      .send({ winner: 'player-1' });
+    const res = await reportAs('player-1', { winner: 'player-1' });
 
     expect(res.status).toBe(404);
   });
 
   it('skips duplicate persist when match already has completed status in DB', async () => {
     givenStateExists();
+    eng.getMatchResult.mockReturnValue(engineResult);
     // Query returns an existing completed match
     db._queryPromise.mockResolvedValue({ Items: [{ Status: 'completed' }] });
 
-    const res = await request(app)
-      .post('/matches/test-match/result')
-      .send({ winner: 'player-1' });
+    const res = await reportAs('player-1', { winner: 'player-1' });
 
     expect(res.status).toBe(200);
     // put should NOT have been called for match table (deduplication)
@@ -1577,15 +2004,54 @@ describe('POST /matches/:matchId/result', () => {
 
   it('returns 500 when DynamoDB throws during persist', async () => {
     givenStateExists();
+    eng.getMatchResult.mockReturnValue(engineResult);
     db._putPromise.mockRejectedValue(new Error('Write failed'));
 
-    const res = await request(app)
-      .post('/matches/test-match/result')
-      .send({ winner: 'player-1' });
+    const res = await reportAs('player-1', { winner: 'player-1' });
 
     expect(res.status).toBe(500);
     expect(res.body.error).toMatch(/failed to report/i);
   });
+
+  describe('admin adjudication', () => {
+    const ruling = { ...engineResult, winner: 'player-2', loser: 'player-1', reason: 'adjudicated' };
+
+    it('lets an admin rule a different winner and saves the state', async () => {
+      givenStateExists();
+      eng.getMatchResult.mockReturnValue(engineResult);
+      eng.adjudicateResult.mockReturnValue(ruling);
+
+      const res = await reportAs('judge', { winner: 'player-2', note: 'Opponent disconnected mid-combat' }, 'admin');
+
+      expect(res.status).toBe(200);
+      expect(res.body.matchResult.reason).toBe('adjudicated');
+      expect(eng.adjudicateResult).toHaveBeenCalledWith('player-2', {
+        adjudicatorId: 'judge',
+        note: 'Opponent disconnected mid-combat',
+      });
+      expect(db.put.mock.calls[0][0].Item.MatchId).toBe('test-match');
+    });
+
+    it('requires a note', async () => {
+      givenStateExists();
+
+      const res = await reportAs('judge', { winner: 'player-2' }, 'admin');
+
+      expect(res.status).toBe(400);
+      expect(eng.adjudicateResult).not.toHaveBeenCalled();
+    });
+
+    it('refuses to override a result that is already final', async () => {
+      givenStateExists();
+      eng.getGameState.mockReturnValue(makeGameState({ outcomePersisted: true }));
+      eng.getMatchResult.mockReturnValue(engineResult);
+
+      const res = await reportAs('judge', { winner: 'player-2', note: 'late appeal' }, 'admin');
+
+      expect(res.status).toBe(409);
+      expect(eng.adjudicateResult).not.toHaveBeenCalled();
+    });
+  });
 });
 
 // ===========================================================================
@@ -1606,6 +2072,45 @@ describe('POST /matches/:matchId/concede', () => {
     expect(eng.concedeMatch).toHaveBeenCalledWith('player-1');
   });
 
+  it('publishes the result numbered from the saved version', async () => {
+    givenStateExists();
+    clearMatchEventLogs();
+    eng.getMatchResult.mockReturnValue({ matchId: 'test-match', winner: 'player-2', loser: 'player-1' });
+
+    await request(app).post('/matches/test-match/concede').send({ playerId: 'player-1' });
+
+    const [completion] = getMatchEventsSince('test-match', [`${SubscriptionEvents.MATCH_COMPLETED}:test-match`], 0);
+    expect(completion.payload.matchCompleted.winner).toBe('player-2');
+    expect(completion.seq).toBeGreaterThanOrEqual(SEQ_PER_VERSION * eng.getGameState().version);
+    expect(completion.seq).toBeLessThan(SEQ_PER_VERSION * (eng.getGameState().version + 1));
+  });
+
+  it('refuses to concede for another player\'s seat', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/concede')
+      .set('x-user-id', 'player-2')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe('Players can only act for themselves');
+    expect(eng.concedeMatch).not.toHaveBeenCalled();
+  });
+
+  it('lets an admin concede for a player', async () => {
+    givenStateExists();
+
+    const res = await request(app)
+      .post('/matches/test-match/concede')
+      .set('x-user-id', 'judge')
+      .set('x-user-groups', 'admin')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(200);
+    expect(eng.concedeMatch).toHaveBeenCalledWith('player-1');
+  });
+
   it('returns 400 when playerId is missing', async () => {
     const res = await request(app)
       .post('/matches/test-match/concede')
@@ -1625,6 +2130,20 @@ describe('POST /matches/:matchId/concede', () => {
     expect(res.status).toBe(404);
   });
 
+  it('returns a null result when a free-for-all player leaves and play continues', async () => {
+    givenStateExists();
+    eng.concedeMatch.mockReturnValue(null);
+
+    const res = await request(app)
+      .post('/matches/test-match/concede')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(res.body.matchResult).toBeNull();
+    expect(res.body.gameState).toBeDefined();
+  });
+
   it('returns 500 when engine.concedeMatch throws', async () => {
     givenStateExists();
     eng.concedeMatch.mockImplementation(() => {
@@ -1677,6 +2196,46 @@ describe('GET /matches/:matchId/history', () => {
   });
 });
 
+// ===========================================================================
+// GET /matches/:matchId/replay-check
+// ===========================================================================
+
+describe('GET /matches/:matchId/replay-check', () => {
+  const checkAs = (userId: string, groups = '') =>
+    request(app)
+      .get('/matches/test-match/replay-check')
+      .set('x-user-id', userId)
+      .set('x-user-groups', groups);
+
+  it('returns the divergence report for admins', async () => {
+    const state = makeGameState();
+    givenStateExists(state);
+    const report = {
+      matchId: 'test-match',
+      commands: 12,
+      consistent: false,
+      error: null,
+      divergences: [{ path: 'players[0].hand.length', stored: 5, replayed: 4 }],
+    };
+    (checkReplayDivergence as jest.Mock).mockReturnValue(report);
+
+    const res = await checkAs('judge', 'admin');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(report);
+    expect((checkReplayDivergence as jest.Mock).mock.calls[0][0].matchId).toBe(state.matchId);
+  });
+
+  it('refuses players', async () => {
+    givenStateExists();
+
+    const res = await checkAs('player-1');
+
+    expect(res.status).toBe(403);
+    expect(checkReplayDivergence).not.toHaveBeenCalled();
+  });
+});
+
 // ===========================================================================
 // Edge cases & middleware
 // ===========================================================================
@@ -1710,4 +2269,525 @@ describe('saveGameState — auto-finalize on WINNER_DETERMINED', () => {
     // persistMatchFinalState calls dynamodb.put for the match record
     expect(db._putPromise).toHaveBeenCalled();
   });
+  it('does not rate a free-for-all', async () => {
+    const players = [makePlayerState('player-1'), makePlayerState('player-2'), makePlayerState('player-3')];
+    givenStateExists(makeGameState({ players }));
+    eng.getGameState.mockReturnValue(makeGameState({ status: 'winner_determined', matchMode: 'free', players }));
+    eng.getMatchResult.mockReturnValue({
+      matchId: 'test-match', winner: 'player-1', loser: 'player-2', losers: ['player-2', 'player-3'],
+      reason: 'concede', duration: 3000, turns: 5, moves: [],
+    });
+
+    await request(app).post('/matches/test-match/actions/next-phase').send({ playerId: 'player-1' });
+
+    expect(logger.warn).toHaveBeenCalledWith('[RATING] Not rating a free-for-all match', expect.objectContaining({
+      matchId: 'test-match', players: 3
+    }));
+  });
+});
+
+describe('match clock', () => {
+  it('applies expired deadlines on load and saves before the action runs', async () => {
+    givenStateExists();
+    eng.enforceClock.mockReturnValue(true);
+    eng.canPlayerAct.mockReturnValue(false);
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/play-card')
+      .send({ playerId: 'player-1', cardIndex: 0 });
+
+    expect(res.status).toBe(403);
+    expect(eng.enforceClock).toHaveBeenCalled();
+    expect(db.put).toHaveBeenCalledWith(expect.objectContaining({ TableName: expect.any(String) }));
+    expect(eng.playCard).not.toHaveBeenCalled();
+  });
+
+  it('restarts the clock for the next holder on every save', async () => {
+    givenStateExists();
+
+    await request(app)
+      .post('/matches/test-match/actions/pass-priority')
+      .send({ playerId: 'player-1' });
+
+    expect(eng.syncClock).toHaveBeenCalled();
+  });
+
+  it('clocks new matches by default and honours clock: false', async () => {
+    givenStateNotFound();
+    await request(app).post('/matches/init').send({
+      matchId: 'test-match', player1: 'player-1', player2: 'player-2', decks: {}
+    });
+    const MockEngine = RiftboundGameEngine as unknown as jest.Mock;
+    expect(MockEngine.mock.calls[0][2].clock).not.toBeNull();
+
+    givenStateNotFound();
+    await request(app).post('/matches/init').send({
+      matchId: 'test-match', player1: 'player-1', player2: 'player-2', decks: {}, clock: false
+    });
+    expect(MockEngine.mock.calls[1][2].clock).toBeNull();
+  });
+
+  it('rejects invalid clock settings', async () => {
+    givenStateNotFound();
+    const res = await request(app).post('/matches/init').send({
+      matchId: 'test-match', player1: 'player-1', player2: 'player-2', decks: {},
+      clock: { bankMs: -1 }
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/invalid clock setting/i);
+  });
+});
+
+describe('match rule profile', () => {
+  it('passes the resolved profile to the engine', async () => {
+    givenStateNotFound();
+    await request(app).post('/matches/init').send({
+      matchId: 'test-match', player1: 'player-1', player2: 'player-2', decks: {},
+      ruleProfile: { base: 'quick_play', victoryScore: 6 }
+    });
+
+    const MockEngine = RiftboundGameEngine as unknown as jest.Mock;
+    expect(MockEngine.mock.calls[0][2].ruleProfile).toMatchObject({
+      id: 'quick_play',
+      victoryScore: 6,
+      initialHandSize: 5
+    });
+  });
+
+  it('rejects unknown profiles', async () => {
+    givenStateNotFound();
+    const res = await request(app).post('/matches/init').send({
+      matchId: 'test-match', player1: 'player-1', player2: 'player-2', decks: {},
+      ruleProfile: 'marathon'
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Unknown rule profile: marathon');
+  });
+});
+
+describe('free-for-all match init', () => {
+  const decks = { 'player-1': {}, 'player-2': {}, 'player-3': {} };
+
+  it('seats every listed player', async () => {
+    givenStateNotFound();
+    const res = await request(app).post('/matches/init').send({
+      matchId: 'test-match', players: ['player-1', 'player-2', 'player-3'], decks
+    });
+
+    expect(res.status).toBe(201);
+    expect(res.body.players).toEqual(['player-1', 'player-2', 'player-3']);
+    const MockEngine = RiftboundGameEngine as unknown as jest.Mock;
+    expect(MockEngine.mock.calls[0][1].map((player: { playerId: string }) => player.playerId)).toEqual([
+      'player-1', 'player-2', 'player-3'
+    ]);
+  });
+
+  it('rejects too many or repeated players', async () => {
+    givenStateNotFound();
+    const tooMany = await request(app).post('/matches/init').send({
+      matchId: 'test-match', players: ['a', 'b', 'c', 'd', 'e'], decks
+    });
+    const repeated = await request(app).post('/matches/init').send({
+      matchId: 'test-match', players: ['player-1', 'player-1', 'player-2'], decks
+    });
+
+    expect(tooMany.status).toBe(400);
+    expect(repeated.status).toBe(400);
+    expect(repeated.body.error).toBe('players must list 2 to 4 distinct player ids');
+  });
+
+  it('keeps rated matches one-on-one', async () => {
+    givenStateNotFound();
+    process.env.INTERNAL_API_KEY = 'matchmaker-key';
+    const res = await request(app)
+      .post('/matches/init')
+      .set('x-internal-api-key', 'matchmaker-key')
+      .send({ matchId: 'test-match', players: ['player-1', 'player-2', 'player-3'], decks, mode: 'ranked' });
+    delete process.env.INTERNAL_API_KEY;
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Rated matches are one-on-one');
+  });
+});
+
+describe('rated match init', () => {
+  const MockEngine = RiftboundGameEngine as unknown as jest.Mock;
+  const body = {
+    matchId: 'test-match', player1: 'player-1', player2: 'player-2', decks: {},
+    mode: 'ranked', ruleProfile: { base: 'sandbox', victoryScore: 1 }, format: 'sandbox'
+  };
+
+  beforeEach(() => {
+    process.env.INTERNAL_API_KEY = 'matchmaker-key';
+  });
+
+  afterEach(() => {
+    delete process.env.INTERNAL_API_KEY;
+  });
+
+  it('ignores the mode when a player sets it', async () => {
+    givenStateNotFound();
+    const res = await request(app).post('/matches/init').send(body);
+
+    expect(res.status).toBe(201);
+    expect(MockEngine.mock.calls[0][2].matchMode).toBeNull();
+    expect(MockEngine.mock.calls[0][2].ruleProfile).toMatchObject({ id: 'sandbox', victoryScore: 1 });
+  });
+
+  it('plays internal rated matches under the standard profile', async () => {
+    givenStateNotFound();
+    const res = await request(app).post('/matches/init').set('x-internal-api-key', 'matchmaker-key').send(body);
+
+    expect(res.status).toBe(201);
+    expect(MockEngine.mock.calls[0][2].matchMode).toBe('ranked');
+    expect(MockEngine.mock.calls[0][2].ruleProfile).toMatchObject({ id: 'standard', victoryScore: 8 });
+  });
+
+  it('rejects a wrong internal key', async () => {
+    givenStateNotFound();
+    await request(app).post('/matches/init').set('x-internal-api-key', 'guess').send(body);
+
+    expect(MockEngine.mock.calls[0][2].matchMode).toBeNull();
+  });
+});
+
+describe('optimistic concurrency', () => {
+  const conflict = () =>
+    Object.assign(new Error('The conditional request failed'), { code: 'ConditionalCheckFailedException' });
+
+  it('writes on top of the loaded version', async () => {
+    givenStateExists();
+    eng.getGameState.mockReturnValue(makeGameState({ version: 4 }));
+
+    await request(app)
+      .post('/matches/test-match/actions/pass-priority')
+      .send({ playerId: 'player-1' });
+
+    const params = db.put.mock.calls[0][0];
+    expect(params.ConditionExpression).toBe('#version = :expected');
+    expect(params.ExpressionAttributeValues).toEqual({ ':expected': 4 });
+    expect(params.Item.Version).toBe(5);
+    expect(params.Item.GameState.version).toBe(5);
+  });
+
+  it('accepts unversioned snapshots as version 0', async () => {
+    givenStateExists();
+
+    await request(app)
+      .post('/matches/test-match/actions/pass-priority')
+      .send({ playerId: 'player-1' });
+
+    expect(db.put.mock.calls[0][0].ConditionExpression).toBe(
+      'attribute_not_exists(#version) OR #version = :expected'
+    );
+  });
+
+  it('returns 409 when a state-dependent action loses the race', async () => {
+    givenStateExists();
+    db._putPromise.mockRejectedValueOnce(conflict());
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/pass-priority')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/reload and retry/i);
+    expect(eng.passPriority).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-applies simultaneous setup choices against the newer state', async () => {
+    givenStateExists();
+    db._putPromise.mockRejectedValueOnce(conflict());
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/mulligan')
+      .send({ playerId: 'player-1', indices: [0] });
+
+    expect(res.status).toBe(200);
+    expect(eng.submitMulligan).toHaveBeenCalledTimes(2);
+    expect(db._getPromise).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up with 409 after repeated conflicts', async () => {
+    givenStateExists();
+    db._putPromise.mockRejectedValue(conflict());
+
+    const res = await request(app)
+      .post('/matches/test-match/actions/initiative')
+      .send({ playerId: 'player-1', choice: 1 });
+
+    expect(res.status).toBe(409);
+    expect(eng.submitInitiativeChoice).toHaveBeenCalledTimes(3);
+  });
+});
+
+// ===========================================================================
+// Command log storage
+// ===========================================================================
+
+describe('command log storage', () => {
+  const DYNAMODB_ITEM_LIMIT = 400 * 1024;
+  const makeCommandLog = (count: number, arg: () => unknown = () => ({ cardIndex: 2, targets: ['unit-1'] })) => ({
+    matchId: 'test-match',
+    rngSeed: 42,
+    createdAt: 1_000_000,
+    players: [{ playerId: 'player-1' }, { playerId: 'player-2' }],
+    options: {},
+    commands: Array.from({ length: count }, (_, seq) => ({
+      seq,
+      name: 'playCard',
+      args: ['player-1', arg()],
+      at: 1_000_000 + seq * 1_500,
+      afterLoad: false,
+      playerId: 'player-1'
+    }))
+  });
+  const itemBytes = (item: Record<string, any>) =>
+    Buffer.byteLength(JSON.stringify({ ...item, CommandLog: undefined })) + (item.CommandLog?.length ?? 0);
+  const savePassPriority = () =>
+    request(app).post('/matches/test-match/actions/pass-priority').send({ playerId: 'player-1' });
+
+  it('stores a long log compressed beside the snapshot, inside the item limit', async () => {
+    givenStateExists();
+    const commandLog = makeCommandLog(5_000);
+    eng.getGameState.mockReturnValue(makeGameState({ commandLog }));
+    expect(Buffer.byteLength(JSON.stringify(commandLog))).toBeGreaterThan(DYNAMODB_ITEM_LIMIT);
+
+    await savePassPriority();
+
+    const { Item } = db.put.mock.calls[0][0];
+    expect(Item.GameState.commandLog).toBeUndefined();
+    expect(Buffer.isBuffer(Item.CommandLog)).toBe(true);
+    expect(itemBytes(Item)).toBeLessThan(DYNAMODB_ITEM_LIMIT);
+  });
+
+  it('puts the stored log back on the loaded snapshot', async () => {
+    const commandLog = makeCommandLog(3);
+    db._getPromise.mockResolvedValue({
+      Item: { GameState: makeGameState(), CommandLog: gzipSync(JSON.stringify(commandLog)) }
+    });
+
+    await savePassPriority();
+
+    const loaded = (RiftboundGameEngine as any).fromSerializedState.mock.calls[0][0];
+    expect(loaded.commandLog).toEqual(commandLog);
+  });
+
+  it('drops a log that would not fit rather than failing the save', async () => {
+    givenStateExists();
+    const commandLog = makeCommandLog(400, () => randomBytes(1_024).toString('base64'));
+    eng.getGameState.mockReturnValue(makeGameState({ commandLog }));
+
+    const res = await savePassPriority();
+
+    expect(res.status).toBe(200);
+    const { Item } = db.put.mock.calls[0][0];
+    expect(Item.CommandLog).toBeUndefined();
+    expect(Item.GameState.commandLog).toBeUndefined();
+    expect(MAX_STORED_COMMAND_LOG_BYTES).toBeLessThan(DYNAMODB_ITEM_LIMIT);
+  });
+});
+
+describe('idempotency keys', () => {
+  const conflict = () =>
+    Object.assign(new Error('The conditional request failed'), { code: 'ConditionalCheckFailedException' });
+  const recordKey = 'idem#test-match#player-1#retry-1';
+  const passPriority = (body: Record<string, unknown> = { playerId: 'player-1' }) =>
+    request(app)
+      .post('/matches/test-match/actions/pass-priority')
+      .set('Idempotency-Key', 'retry-1')
+      .send(body);
+  // The claim put is always the first write of a keyed request.
+  const givenKeyHeldBy = (overrides: Record<string, unknown>) => {
+    db._putPromise.mockRejectedValueOnce(conflict());
+    db._getPromise.mockImplementationOnce(async () => ({
+      Item: { Idempotency: { ...db.put.mock.calls[0][0].Item.Idempotency, ...overrides } },
+    }));
+  };
+
+  it('claims the key and stores the response', async () => {
+    givenStateExists();
+
+    const res = await passPriority();
+
+    expect(res.status).toBe(200);
+    const claim = db.put.mock.calls[0][0];
+    expect(claim.Item.MatchId).toBe(recordKey);
+    expect(claim.Item.Idempotency.status).toBe('pending');
+    expect(claim.ConditionExpression).toBe('attribute_not_exists(MatchId) OR ExpiresAt < :now');
+    const stored = db.put.mock.calls[db.put.mock.calls.length - 1][0].Item;
+    expect(stored.MatchId).toBe(recordKey);
+    expect(stored.Idempotency).toMatchObject({ status: 'completed', responseStatus: 200, responseBody: res.body });
+  });
+
+  it('replays the stored response without re-running the action', async () => {
+    givenStateExists();
+    const first = await passPriority();
+    const stored = db.put.mock.calls[db.put.mock.calls.length - 1][0].Item.Idempotency;
+    db.put.mockClear();
+
+    db._putPromise.mockRejectedValueOnce(conflict());
+    db._getPromise.mockResolvedValueOnce({ Item: { Idempotency: stored } });
+    const retry = await passPriority();
+
+    expect(retry.status).toBe(200);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+    expect(eng.passPriority).toHaveBeenCalledTimes(1);
+    expect(db.put).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    givenKeyHeldBy({ status: 'completed', fingerprint: 'another-request' });
+
+    const res = await passPriority();
+
+    expect(res.status).toBe(422);
+    expect(eng.passPriority).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 while the first request is still in flight', async () => {
+    givenKeyHeldBy({ status: 'pending' });
+
+    const res = await passPriority();
+
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/still in progress/);
+    expect(eng.passPriority).not.toHaveBeenCalled();
+  });
+
+  it('releases the key when the action loses a state race', async () => {
+    givenStateExists();
+    db._putPromise
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(conflict());
+
+    const res = await passPriority();
+
+    expect(res.status).toBe(409);
+    expect(db.delete).toHaveBeenCalledWith({ TableName: expect.any(String), Key: { MatchId: recordKey } });
+  });
+
+  it('scopes keys per player', async () => {
+    givenStateExists();
+
+    await passPriority({ playerId: 'player-2' });
+
+    expect(db.put.mock.calls[0][0].Item.MatchId).toBe('idem#test-match#player-2#retry-1');
+  });
+
+  it('scopes keys to the signed-in caller, not the body', async () => {
+    givenStateExists();
+
+    await request(app)
+      .post('/matches/test-match/actions/pass-priority')
+      .set('Idempotency-Key', 'retry-1')
+      .set('x-user-id', 'judge')
+      .set('x-user-groups', 'admin')
+      .send({ playerId: 'player-1' });
+
+    expect(db.put.mock.calls[0][0].Item.MatchId).toBe('idem#test-match#judge#retry-1');
+  });
+});
+
+// ===========================================================================
+// Series
+// ===========================================================================
+
+describe('series routes', () => {
+  const givenSeries = () => {
+    const series = createMatchSeries({
+      seriesId: 'series-1',
+      players: ['player-1', 'player-2'],
+      decks: {
+        'player-1': { mainDeck: [{ cardId: 'card-a', quantity: 3 }], sideDeck: [{ cardId: 'card-b', quantity: 1 }] },
+        'player-2': { mainDeck: [{ cardId: 'card-c', quantity: 3 }], sideDeck: [{ cardId: 'card-d', quantity: 1 }] }
+      }
+    });
+    series.games.push({
+      gameNumber: 1, matchId: 'series-1-game-1', firstPlayerId: null,
+      winner: null, loser: null, reason: null, completedAt: null
+    });
+    series.currentMatchId = 'series-1-game-1';
+    recordSeriesGameResult(series, 'series-1-game-1', { winner: 'player-2', loser: 'player-1', reason: 'victory_points' });
+    db._getPromise.mockResolvedValue({ Item: { Series: series } });
+    return series;
+  };
+
+  it('shows the caller only their own decklist, whatever playerId they ask for', async () => {
+    givenSeries();
+
+    const res = await request(app)
+      .get('/series/series-1?playerId=player-2')
+      .set('x-user-id', 'player-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.decks['player-1'].mainDeck).toEqual([{ cardId: 'card-a', quantity: 3 }]);
+    expect(res.body.decks['player-2'].mainDeck).toBeNull();
+  });
+
+  it('lets an admin view the series as a player', async () => {
+    givenSeries();
+
+    const res = await request(app)
+      .get('/series/series-1?playerId=player-2')
+      .set('x-user-id', 'judge')
+      .set('x-user-groups', 'admin');
+
+    expect(res.body.decks['player-2'].mainDeck).toEqual([{ cardId: 'card-c', quantity: 3 }]);
+  });
+
+  it('refuses sideboard and first-player choices made for the other player', async () => {
+    givenSeries();
+
+    const sideboard = await request(app)
+      .post('/series/series-1/sideboard')
+      .set('x-user-id', 'player-2')
+      .send({ playerId: 'player-1' });
+    const firstPlayer = await request(app)
+      .post('/series/series-1/first-player')
+      .set('x-user-id', 'player-2')
+      .send({ playerId: 'player-1', goFirst: false });
+
+    expect(sideboard.status).toBe(403);
+    expect(firstPlayer.status).toBe(403);
+    expect(db.put).not.toHaveBeenCalled();
+  });
+
+  it('reapplies a sideboard submission that lost a write race', async () => {
+    const series = givenSeries();
+    const stored = JSON.stringify({ ...series, version: 4 });
+    db._getPromise.mockImplementation(async () => ({ Item: { Series: JSON.parse(stored) } }));
+    db._putPromise
+      .mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), { code: 'ConditionalCheckFailedException' }))
+      .mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/series/series-1/sideboard')
+      .set('x-user-id', 'player-1')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(200);
+    expect(db.put).toHaveBeenCalledTimes(2);
+    expect(db.put.mock.calls[1][0]).toEqual(expect.objectContaining({
+      ConditionExpression: '#version = :expected',
+      ExpressionAttributeValues: { ':expected': 4 }
+    }));
+    expect(db.put.mock.calls[1][0].Item.Version).toBe(5);
+  });
+
+  it('records a player\'s own sideboard', async () => {
+    givenSeries();
+
+    const res = await request(app)
+      .post('/series/series-1/sideboard')
+      .set('x-user-id', 'player-1')
+      .send({ playerId: 'player-1' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.series.sideboarding.ready).toEqual({ 'player-1': true, 'player-2': false });
+    expect(res.body.series.decks['player-1'].mainDeck).toEqual([{ cardId: 'card-a', quantity: 3 }]);
+  });
 });
@@ -0,0 +1,193 @@
+/**
+ * Best-of match series — unit tests
+ *
+ * Exercises the pure series lifecycle: deck validation, one-for-one
+ * sideboarding, result recording and the loser's first-player choice.
+ */
+
+import {
+  applySideboardSwap,
+  beginNextSeriesGame,
+  chooseSeriesFirstPlayer,
+  createMatchSeries,
+  isReadyForNextGame,
+  recordSeriesGameResult,
+  serializeSeriesForViewer,
+  submitSeriesSideboard,
+  type MatchSeries,
+} from '../match-series';
+import { resolveDeckFormat, setDeckFormatCatalog } from '../deck-validation';
+
+const standard = () => resolveDeckFormat('standard');
+
+const deckFor = () => ({
+  championLegend: 'legend-1',
+  mainDeck: [
+    { cardId: 'unit-a', quantity: 3 },
+    { cardId: 'unit-b', quantity: 2 },
+  ],
+  sideDeck: [
+    { cardId: 'unit-b', quantity: 1 },
+    { cardId: 'spell-c', quantity: 2 },
+  ],
+});
+
+const newSeries = (): MatchSeries =>
+  createMatchSeries({
+    seriesId: 's1',
+    players: ['p1', 'p2'],
+    decks: { p1: deckFor(), p2: deckFor() },
+    mode: 'ranked',
+    now: 1000,
+  });
+
+const finishGame = (series: MatchSeries, winner: string) => {
+  const loser = series.players.find((id) => id !== winner)!;
+  return recordSeriesGameResult(series, series.currentMatchId!, { winner, loser, reason: 'victory_points' });
+};
+
+describe('createMatchSeries', () => {
+  it('defaults to best of three', () => {
+    const series = newSeries();
+    expect(series.bestOf).toBe(3);
+    expect(series.wins).toEqual({ p1: 0, p2: 0 });
+  });
+
+  it('rejects even series lengths and oversized side decks', () => {
+    expect(() =>
+      createMatchSeries({ seriesId: 's', players: ['p1', 'p2'], decks: { p1: deckFor(), p2: deckFor() }, bestOf: 2 })
+    ).toThrow('odd number');
+
+    const bloated = { ...deckFor(), sideDeck: [{ cardId: 'x', quantity: 3 }, { cardId: 'y', quantity: 3 }, { cardId: 'z', quantity: 3 }] };
+    expect(() =>
+      createMatchSeries({ seriesId: 's', players: ['p1', 'p2'], decks: { p1: bloated, p2: deckFor() } })
+    ).toThrow('Side deck for p1');
+  });
+
+  it('counts copies across main and side deck together', () => {
+    const overLimit = { ...deckFor(), sideDeck: [{ cardId: 'unit-a', quantity: 1 }] };
+    expect(() =>
+      createMatchSeries({ seriesId: 's', players: ['p1', 'p2'], decks: { p1: overLimit, p2: deckFor() } })
+    ).toThrow('4 copies of unit-a');
+  });
+
+  it('takes copy and side deck limits from the series deck format', () => {
+    const overLimit = { ...deckFor(), sideDeck: [{ cardId: 'unit-a', quantity: 1 }] };
+    const sandbox = createMatchSeries({ seriesId: 's', players: ['p1', 'p2'], decks: { p1: overLimit, p2: deckFor() }, format: 'sandbox' });
+    expect(sandbox.format).toBe('sandbox');
+
+    const rules = {
+      minDeckSize: 1, maxDeckSize: null, maxCopies: 3, runeDeckSize: null, battlefieldCount: null,
+      maxSideDeckSize: 2, requireChampions: false, domainIdentity: false
+    };
+    setDeckFormatCatalog({
+      queues: {},
+      formats: [{
+        id: 'league', name: 'League', rules,
+        versions: [{ version: '1', effectiveFrom: '2020-01-01', legalSets: null, banned: [], copyLimits: { 'spell-c': 1 } }]
+      }]
+    });
+    try {
+      const series = (deck: Record<string, any>) =>
+        createMatchSeries({ seriesId: 's', players: ['p1', 'p2'], decks: { p1: deck, p2: { mainDeck: [] } }, format: 'league' });
+      expect(() => series(deckFor())).toThrow('Side deck for p1 cannot include more than 2 cards');
+      expect(() => series({ ...deckFor(), sideDeck: [{ cardId: 'spell-c', quantity: 2 }] })).toThrow(
+        '2 copies of spell-c (max 1 across main and side deck)'
+      );
+    } finally {
+      setDeckFormatCatalog(null);
+    }
+  });
+});
+
+describe('applySideboardSwap', () => {
+  it('moves cards one-for-one between main and side deck', () => {
+    const { decks } = newSeries();
+    const next = applySideboardSwap('p1', decks.p1, {
+      swapIn: [{ cardId: 'spell-c', quantity: 2 }],
+      swapOut: [{ cardId: 'unit-a', quantity: 2 }],
+    }, standard());
+
+    expect(next.mainDeck).toEqual(
+      expect.arrayContaining([
+        { cardId: 'unit-a', quantity: 1 },
+        { cardId: 'spell-c', quantity: 2 },
+      ])
+    );
+    expect(next.sideDeck).toEqual(expect.arrayContaining([{ cardId: 'unit-a', quantity: 2 }]));
+    expect(decks.p1.mainDeck).toContainEqual({ cardId: 'unit-a', quantity: 3 });
+  });
+
+  it('rejects uneven swaps and cards the deck does not hold', () => {
+    const { decks } = newSeries();
+    expect(() =>
+      applySideboardSwap('p1', decks.p1, { swapIn: [{ cardId: 'spell-c', quantity: 2 }], swapOut: [{ cardId: 'unit-a', quantity: 1 }] }, standard())
+    ).toThrow('one-for-one');
+    expect(() =>
+      applySideboardSwap('p1', decks.p1, { swapIn: [{ cardId: 'unit-z', quantity: 1 }], swapOut: [{ cardId: 'unit-a', quantity: 1 }] }, standard())
+    ).toThrow('Not enough copies of unit-z in side deck');
+  });
+});
+
+describe('series lifecycle', () => {
+  it('runs game one with the normal initiative duel', () => {
+    const series = newSeries();
+    const setup = beginNextSeriesGame(series, 2000);
+
+    expect(setup).toMatchObject({ matchId: 's1-game-1', gameNumber: 1, firstPlayerId: null });
+    expect(setup.decks.p1.championLegend).toBe('legend-1');
+    expect(() => beginNextSeriesGame(series)).toThrow('already in progress');
+  });
+
+  it('opens sideboarding for the loser and starts game two with their pick', () => {
+    const series = newSeries();
+    beginNextSeriesGame(series);
+    expect(finishGame(series, 'p1')).toBe(true);
+    expect(series.status).toBe('sideboarding');
+    expect(series.sideboarding?.chooserId).toBe('p2');
+
+    expect(() => chooseSeriesFirstPlayer(series, 'p1', true)).toThrow('Only the loser');
+    chooseSeriesFirstPlayer(series, 'p2', false);
+    submitSeriesSideboard(series, 'p1', {});
+    expect(isReadyForNextGame(series)).toBe(false);
+    expect(() => beginNextSeriesGame(series)).toThrow('Sideboarding is still in progress');
+
+    submitSeriesSideboard(series, 'p2', {
+      swapIn: [{ cardId: 'unit-b', quantity: 1 }],
+      swapOut: [{ cardId: 'unit-a', quantity: 1 }],
+    });
+    expect(isReadyForNextGame(series)).toBe(true);
+
+    const setup = beginNextSeriesGame(series);
+    expect(setup).toMatchObject({ matchId: 's1-game-2', firstPlayerId: 'p1' });
+    expect(setup.decks.p2.mainDeck).toContainEqual({ cardId: 'unit-b', quantity: 3 });
+  });
+
+  it('ignores repeated results and completes at the required wins', () => {
+    const series = newSeries();
+    beginNextSeriesGame(series);
+    const gameOne = series.currentMatchId!;
+    finishGame(series, 'p1');
+    expect(recordSeriesGameResult(series, gameOne, { winner: 'p1', loser: 'p2', reason: 'victory_points' })).toBe(false);
+    expect(series.wins.p1).toBe(1);
+
+    chooseSeriesFirstPlayer(series, 'p2', true);
+    submitSeriesSideboard(series, 'p1', {});
+    submitSeriesSideboard(series, 'p2', {});
+    beginNextSeriesGame(series);
+    finishGame(series, 'p1');
+
+    expect(series.status).toBe('completed');
+    expect(series.winner).toBe('p1');
+    expect(() => beginNextSeriesGame(series)).toThrow('already complete');
+  });
+});
+
+describe('serializeSeriesForViewer', () => {
+  it('hides the opponent decklist', () => {
+    const view = serializeSeriesForViewer(newSeries(), 'p1') as any;
+    expect(view.decks.p1.sideDeck).toHaveLength(2);
+    expect(view.decks.p2).toEqual({ mainDeck: null, sideDeck: null, mainDeckCount: 5, sideDeckCount: 3 });
+    expect(view.winsNeeded).toBe(2);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Pub/sub transports — unit tests
+ *
+ * Two engines sharing one in-memory bus stand in for two ECS tasks; the
+ * Redis and DynamoDB Streams adapters run against hand-rolled client fakes.
+ */
+jest.mock('../logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() },
+}));
+
+import AWS from 'aws-sdk';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import {
+  DistributedPubSub,
+  DynamoDbStreamTransport,
+  InMemoryBus,
+  InMemoryTransport,
+  PubSubEnvelope,
+  RedisTransport,
+  createPubSubTransport,
+  resolvePubSubBackend,
+} from '../graphql/pubsub-adapters';
+
+const awsRequest = <T>(value: T) => ({ promise: jest.fn().mockResolvedValue(value) });
+
+describe('DistributedPubSub', () => {
+  it('fans a publish out to subscribers on another instance exactly once', async () => {
+    const bus = new InMemoryBus();
+    const taskA = new DistributedPubSub(new InMemoryTransport(bus));
+    const taskB = new DistributedPubSub(new InMemoryTransport(bus));
+    await taskA.start();
+    await taskB.start();
+
+    const onA = jest.fn();
+    const onB = jest.fn();
+    await taskA.subscribe('GAME_STATE_CHANGED:m1', onA);
+    await taskB.subscribe('GAME_STATE_CHANGED:m1', onB);
+    const remote = jest.fn();
+    taskB.onRemoteMessage(remote);
+
+    await taskA.publish('GAME_STATE_CHANGED:m1', { gameStateChanged: { seq: 1 } });
+
+    expect(onA).toHaveBeenCalledTimes(1);
+    expect(onB).toHaveBeenCalledWith({ gameStateChanged: { seq: 1 } });
+    expect(remote).toHaveBeenCalledWith(expect.objectContaining({ origin: taskA.instanceId }));
+
+    await taskB.stop();
+    await taskA.publish('GAME_STATE_CHANGED:m1', { gameStateChanged: { seq: 2 } });
+    expect(onB).toHaveBeenCalledTimes(1);
+  });
+
+  it('still serves local subscribers when the transport is down', async () => {
+    const failing = new InMemoryTransport();
+    jest.spyOn(failing, 'send').mockRejectedValue(new Error('network'));
+    const engine = new DistributedPubSub(failing);
+    const onMessage = jest.fn();
+    await engine.subscribe('PHASE_CHANGED:m1', onMessage);
+
+    await expect(engine.publish('PHASE_CHANGED:m1', { phaseChanged: {} })).resolves.toBeUndefined();
+    expect(onMessage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RedisTransport', () => {
+  it('publishes JSON envelopes and delivers what the subscriber receives', async () => {
+    let listener: ((message: string) => void) | null = null;
+    const clients = {
+      publisher: { publish: jest.fn().mockResolvedValue(1) },
+      subscriber: {
+        subscribe: jest.fn(async (_channel: string, onMessage: (message: string) => void) => {
+          listener = onMessage;
+        }),
+        unsubscribe: jest.fn().mockResolvedValue(undefined),
+      },
+    };
+    const transport = new RedisTransport(clients, 'test:pubsub');
+    const deliver = jest.fn();
+    await transport.start(deliver);
+
+    const envelope: PubSubEnvelope = { origin: 'a', trigger: 'CARD_PLAYED:m1', payload: { cardPlayed: {} } };
+    await transport.send(envelope);
+    expect(clients.publisher.publish).toHaveBeenCalledWith('test:pubsub', JSON.stringify(envelope));
+
+    listener!(JSON.stringify(envelope));
+    listener!('not json');
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(deliver).toHaveBeenCalledWith(envelope);
+
+    await transport.stop();
+    expect(clients.subscriber.unsubscribe).toHaveBeenCalledWith('test:pubsub');
+  });
+});
+
+describe('DynamoDbStreamTransport', () => {
+  const envelope: PubSubEnvelope = { origin: 'a', trigger: 'GAME_STATE_CHANGED:m1', payload: { gameStateChanged: { seq: 3 } } };
+
+  const makeTransport = () => {
+    const documentClient = { put: jest.fn().mockReturnValue(awsRequest({})) };
+    const streams = {
+      describeStream: jest.fn().mockReturnValue(
+        awsRequest({ StreamDescription: { Shards: [{ ShardId: 'shard-1', SequenceNumberRange: {} }] } })
+      ),
+      getShardIterator: jest.fn().mockReturnValue(awsRequest({ ShardIterator: 'it-1' })),
+      getRecords: jest.fn().mockReturnValue(
+        awsRequest({
+          Records: [
+            {
+              eventID: 'e1',
+              eventName: 'INSERT',
+              dynamodb: {
+                NewImage: AWS.DynamoDB.Converter.marshall({ MessageId: 'x', Body: gzipSync(JSON.stringify(envelope)) }),
+              },
+            },
+            { eventID: 'e2', eventName: 'REMOVE', dynamodb: {} },
+          ],
+          NextShardIterator: 'it-2',
+        })
+      ),
+    };
+    const transport = new DynamoDbStreamTransport({
+      tableName: 'pubsub-events',
+      streamArn: 'arn:stream',
+      pollIntervalMs: 60_000,
+      documentClient: documentClient as any,
+      streams: streams as any,
+    });
+    return { transport, documentClient, streams };
+  };
+
+  it('writes gzipped envelopes with a TTL', async () => {
+    const { transport, documentClient } = makeTransport();
+    await transport.send(envelope);
+
+    const item = documentClient.put.mock.calls[0][0].Item;
+    expect(documentClient.put.mock.calls[0][0].TableName).toBe('pubsub-events');
+    expect(JSON.parse(gunzipSync(item.Body).toString('utf8'))).toEqual(envelope);
+    expect(item.ExpiresAt).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it('tails the stream from the latest position and delivers inserts', async () => {
+    const { transport, streams } = makeTransport();
+    const deliver = jest.fn();
+    await transport.start(deliver);
+    await transport.poll();
+    await transport.stop();
+
+    expect(streams.getShardIterator).toHaveBeenCalledWith(
+      expect.objectContaining({ ShardId: 'shard-1', ShardIteratorType: 'LATEST' })
+    );
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(deliver).toHaveBeenCalledWith(envelope);
+  });
+});
+
+describe('createPubSubTransport', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('picks the adapter from PUBSUB_BACKEND', () => {
+    process.env = { ...originalEnv, PUBSUB_TABLE: 'pubsub-events' };
+    expect(createPubSubTransport('memory').name).toBe('memory');
+    expect(createPubSubTransport('dynamodb').name).toBe('dynamodb');
+    expect(() => createPubSubTransport('redis')).toThrow('requires Redis publisher and subscriber clients');
+  });
+
+  it('does not select Redis from PUBSUB_BACKEND until the server creates clients', () => {
+    process.env = { ...originalEnv, PUBSUB_BACKEND: 'redis' };
+    expect(resolvePubSubBackend()).toBe('memory');
+    process.env.PUBSUB_BACKEND = 'dynamodb';
+    expect(resolvePubSubBackend()).toBe('dynamodb');
+  });
+
+  it('requires a table for the DynamoDB adapter', () => {
+    process.env = { ...originalEnv };
+    delete process.env.PUBSUB_TABLE;
+    expect(() => createPubSubTransport('dynamodb')).toThrow('PUBSUB_TABLE');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Match event sequencing and missed-event resync
+ *
+ * Drives the real in-memory PubSub: every match publish is numbered and
+ * buffered, and a subscriber that reconnects with `sinceSeq` is caught up
+ * before the live stream resumes.
+ */
+jest.mock('../logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() },
+}));
+
+import {
+  MATCH_EVENT_BUFFER_SIZE,
+  SEQ_PER_VERSION,
+  SubscriptionEvents,
+  clearMatchEventLogs,
+  getMatchEventsSince,
+  publishCardPlayed,
+  publishGameStateChange,
+  publishPhaseChange,
+  pubSub,
+  startPubSub,
+  stopPubSub,
+} from '../graphql/pubsub';
+import { DistributedPubSub, InMemoryBus, InMemoryTransport } from '../graphql/pubsub-adapters';
+import { subscriptionResolvers } from '../graphql/resolvers';
+
+const GAME_STATE = `${SubscriptionEvents.GAME_STATE_CHANGED}:m1`;
+const CARD_PLAYED = `${SubscriptionEvents.CARD_PLAYED}:m1`;
+
+beforeEach(() => {
+  clearMatchEventLogs();
+});
+
+describe('match event sequence', () => {
+  it('numbers every publish per match across channels', () => {
+    publishGameStateChange('m1', { turnNumber: 1 });
+    publishCardPlayed('m1', { playerId: 'p1' });
+    publishGameStateChange('m2', { turnNumber: 1 });
+    publishPhaseChange('m1', { newPhase: 'main_2' });
+
+    expect(getMatchEventsSince('m1', [GAME_STATE, CARD_PLAYED], 0).map((event) => event.seq)).toEqual([1, 2]);
+    expect(getMatchEventsSince('m2', [`${SubscriptionEvents.GAME_STATE_CHANGED}:m2`], 0)[0].payload).toEqual({
+      gameStateChanged: { turnNumber: 1, seq: 1 },
+    });
+  });
+
+  it('returns only the events after sinceSeq', () => {
+    for (let turn = 1; turn <= 4; turn++) {
+      publishGameStateChange('m1', { turnNumber: turn });
+    }
+    const missed = getMatchEventsSince('m1', [GAME_STATE], 2);
+    expect(missed.map((event) => event.payload.gameStateChanged.turnNumber)).toEqual([3, 4]);
+    expect(getMatchEventsSince('m1', [GAME_STATE], 4)).toEqual([]);
+  });
+
+  it('falls back to the latest snapshot once the buffer has moved past the client', () => {
+    publishCardPlayed('m1', { playerId: 'p1' });
+    for (let turn = 1; turn <= MATCH_EVENT_BUFFER_SIZE + 5; turn++) {
+      publishGameStateChange('m1', { turnNumber: turn });
+    }
+
+    const resync = getMatchEventsSince('m1', [GAME_STATE, CARD_PLAYED], 1);
+    expect(resync).toHaveLength(1);
+    expect(resync[0].payload.gameStateChanged).toMatchObject({ turnNumber: MATCH_EVENT_BUFFER_SIZE + 5 });
+  });
+
+  it('resyncs a client that is ahead of this process', () => {
+    publishGameStateChange('m1', { turnNumber: 1 });
+    const resync = getMatchEventsSince('m1', [GAME_STATE], 40);
+    expect(resync.map((event) => event.seq)).toEqual([1]);
+  });
+});
+
+describe('versioned match events', () => {
+  it('are numbered from the saved version, in publish order within it', () => {
+    publishGameStateChange('m1', { turnNumber: 1 }, 3);
+    publishCardPlayed('m1', { cardId: 'c1' }, 3);
+    publishGameStateChange('m1', { turnNumber: 2 }, 4);
+    const since = 3 * SEQ_PER_VERSION - 1;
+    expect(getMatchEventsSince('m1', [GAME_STATE, CARD_PLAYED], since).map((event) => event.seq)).toEqual([
+      3 * SEQ_PER_VERSION,
+      3 * SEQ_PER_VERSION + 1,
+      4 * SEQ_PER_VERSION,
+    ]);
+  });
+
+  it('keep rising across tasks and restarts', () => {
+    publishGameStateChange('m1', { turnNumber: 1 }, 3);
+    publishCardPlayed('m1', { cardId: 'c1' }, 3);
+    // A different task (or this one after a restart) saves the next version.
+    clearMatchEventLogs();
+    publishGameStateChange('m1', { turnNumber: 2 }, 4);
+    expect(getMatchEventsSince('m1', [GAME_STATE], 0)[0].seq).toBeGreaterThan(3 * SEQ_PER_VERSION + 1);
+  });
+});
+
+describe('events from other instances', () => {
+  it('buffers them under the sequence number they were published with', async () => {
+    const bus = new InMemoryBus();
+    const otherTask = new DistributedPubSub(new InMemoryTransport(bus));
+    await pubSub.useTransport(new InMemoryTransport(bus));
+    await pubSub.start();
+
+    await otherTask.publish(GAME_STATE, { gameStateChanged: { turnNumber: 5, seq: 7 } });
+    publishGameStateChange('m1', { turnNumber: 6 });
+
+    expect(getMatchEventsSince('m1', [GAME_STATE], 6).map((event) => event.seq)).toEqual([7, 8]);
+    await pubSub.stop();
+  });
+});
+
+describe('subscribing with sinceSeq', () => {
+  it('replays missed events, then continues live without duplicates', async () => {
+    publishGameStateChange('m1', { turnNumber: 1 });
+    publishGameStateChange('m1', { turnNumber: 2 });
+    publishGameStateChange('m1', { turnNumber: 3 });
+
+    const iter = subscriptionResolvers.gameStateChanged.subscribe(null, {
+      matchId: 'm1',
+      sinceSeq: 1,
+    }) as AsyncIterator<any>;
+
+    expect((await iter.next()).value.gameStateChanged).toMatchObject({ turnNumber: 2, seq: 2 });
+    expect((await iter.next()).value.gameStateChanged).toMatchObject({ turnNumber: 3, seq: 3 });
+
+    publishGameStateChange('m1', { turnNumber: 4 });
+    expect((await iter.next()).value.gameStateChanged).toMatchObject({ turnNumber: 4, seq: 4 });
+    await iter.return?.(undefined);
+  });
+
+  it('stays a plain live subscription without sinceSeq', async () => {
+    publishGameStateChange('m1', { turnNumber: 1 });
+    const iter = subscriptionResolvers.gameStateChanged.subscribe(null, { matchId: 'm1' }) as AsyncIterator<any>;
+    const next = iter.next();
+    publishGameStateChange('m1', { turnNumber: 2 });
+    expect((await next).value.gameStateChanged).toMatchObject({ turnNumber: 2, seq: 2 });
+    await iter.return?.(undefined);
+  });
+});
+
+describe('startPubSub', () => {
+  const originalEnv = process.env;
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await stopPubSub();
+  });
+
+  it('falls back to the in-memory transport when the configured one cannot start', async () => {
+    process.env = { ...originalEnv, PUBSUB_BACKEND: 'dynamodb' };
+    delete process.env.PUBSUB_TABLE;
+
+    await expect(startPubSub()).resolves.toBeUndefined();
+
+    expect(pubSub.transportName).toBe('memory');
+    const onEvent = jest.fn();
+    await pubSub.subscribe(GAME_STATE, onEvent);
+    await pubSub.publish(GAME_STATE, { ok: true });
+    expect(onEvent).toHaveBeenCalledWith({ ok: true });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Glicko-2 rating module — unit tests
+ *
+ * Covers the pure rating math (checked against Glickman's worked example)
+ * and the transactional persistence path against a mocked DocumentClient.
+ */
+
+jest.mock('../logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('aws-sdk', () => {
+  const getPromise = jest.fn().mockResolvedValue({ Item: null });
+  const transactWritePromise = jest.fn().mockResolvedValue({});
+  const queryPromise = jest.fn().mockResolvedValue({ Items: [] });
+  const batchGetPromise = jest.fn().mockResolvedValue({ Responses: {} });
+
+  const clientInstance = {
+    get: jest.fn().mockReturnValue({ promise: getPromise }),
+    transactWrite: jest.fn().mockReturnValue({ promise: transactWritePromise }),
+    query: jest.fn().mockReturnValue({ promise: queryPromise }),
+    batchGet: jest.fn().mockReturnValue({ promise: batchGetPromise }),
+    _getPromise: getPromise,
+    _transactWritePromise: transactWritePromise,
+    _queryPromise: queryPromise,
+    _batchGetPromise: batchGetPromise,
+  };
+
+  const DocumentClient = jest.fn().mockImplementation(() => clientInstance);
+
+  return {
+    __esModule: true,
+    default: {
+      DynamoDB: { DocumentClient },
+      _client: clientInstance,
+    },
+    DynamoDB: { DocumentClient },
+  };
+});
+
+import AWS from 'aws-sdk';
+import {
+  DEFAULT_RATING,
+  DEFAULT_RATING_DEVIATION,
+  RATING_PERIOD_MS,
+  applyInactivity,
+  compareLadderStanding,
+  createDefaultRating,
+  fetchLadderUsers,
+  getPlayerRating,
+  rateHeadToHead,
+  recordRatedMatchResult,
+  updateGlicko2Rating,
+  type PlayerRating,
+} from '../rating';
+
+const db = (AWS as any)._client;
+
+const rating = (overrides: Partial<PlayerRating> = {}): PlayerRating => ({
+  ...createDefaultRating(),
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db._getPromise.mockResolvedValue({ Item: null });
+  db._transactWritePromise.mockResolvedValue({});
+  db._queryPromise.mockResolvedValue({ Items: [] });
+  db._batchGetPromise.mockResolvedValue({ Responses: {} });
+});
+
+describe('updateGlicko2Rating', () => {
+  it('matches the worked example from the Glicko-2 paper', () => {
+    const player = rating({ rating: 1500, ratingDeviation: 200, volatility: 0.06 });
+    const next = updateGlicko2Rating(player, [
+      { opponent: rating({ rating: 1400, ratingDeviation: 30 }), score: 1 },
+      { opponent: rating({ rating: 1550, ratingDeviation: 100 }), score: 0 },
+      { opponent: rating({ rating: 1700, ratingDeviation: 300 }), score: 0 },
+    ]);
+
+    expect(next.rating).toBeCloseTo(1464.06, 1);
+    expect(next.ratingDeviation).toBeCloseTo(151.52, 1);
+    expect(next.volatility).toBeCloseTo(0.05999, 4);
+    expect(next.gamesPlayed).toBe(3);
+  });
+
+  it('only widens RD when the player has no games in the period', () => {
+    const player = rating({ ratingDeviation: 50 });
+    const next = updateGlicko2Rating(player, []);
+    expect(next.rating).toBe(player.rating);
+    expect(next.ratingDeviation).toBeGreaterThan(50);
+    expect(next.gamesPlayed).toBe(0);
+  });
+});
+
+describe('rateHeadToHead', () => {
+  it('moves a newcomer further than an established player', () => {
+    const veteran = rating({ ratingDeviation: 50, gamesPlayed: 300 });
+    const newcomer = rating();
+    const { winner, loser } = rateHeadToHead(newcomer, veteran);
+
+    expect(winner.rating - DEFAULT_RATING).toBeGreaterThan(DEFAULT_RATING - loser.rating);
+    expect(winner.ratingDeviation).toBeLessThan(DEFAULT_RATING_DEVIATION);
+  });
+
+  it('does not let a short win streak outrank a long, strong record', () => {
+    let newcomer = rating();
+    const veteran = rating({ rating: 1900, ratingDeviation: 45, gamesPlayed: 300 });
+    for (let i = 0; i < 3; i++) {
+      newcomer = rateHeadToHead(newcomer, rating({ gamesPlayed: 50, ratingDeviation: 60 })).winner;
+    }
+
+    expect(newcomer.rating).toBeLessThan(veteran.rating);
+    expect(compareLadderStanding({ rating: veteran, wins: 200 }, { rating: newcomer, wins: 3 })).toBeLessThan(0);
+  });
+});
+
+describe('applyInactivity', () => {
+  it('widens RD per idle rating period, capped at the default', () => {
+    const now = Date.now();
+    const active = rating({ ratingDeviation: 60, updatedAt: now - RATING_PERIOD_MS * 4 });
+    expect(applyInactivity(active, now).ratingDeviation).toBeGreaterThan(60);
+
+    const longGone = rating({ ratingDeviation: 340, updatedAt: now - RATING_PERIOD_MS * 10_000 });
+    expect(applyInactivity(longGone, now).ratingDeviation).toBe(DEFAULT_RATING_DEVIATION);
+  });
+});
+
+describe('getPlayerRating', () => {
+  it('reads the per-mode attribute', async () => {
+    db._getPromise.mockResolvedValue({
+      Item: { RankedRating: { Rating: 1712, RatingDeviation: 80, Volatility: 0.05, GamesPlayed: 40 } },
+    });
+    const result = await getPlayerRating('u1', 'ranked');
+
+    expect(result.rating).toBe(1712);
+    expect(result.gamesPlayed).toBe(40);
+    expect(db.get).toHaveBeenCalledWith(
+      expect.objectContaining({ ExpressionAttributeNames: { '#rating': 'RankedRating' } })
+    );
+  });
+
+  it('falls back to the default rating on read failure', async () => {
+    db._getPromise.mockRejectedValue(new Error('boom'));
+    await expect(getPlayerRating('u1', 'free')).resolves.toMatchObject({ rating: DEFAULT_RATING });
+  });
+});
+
+describe('recordRatedMatchResult', () => {
+  const match = { matchId: 'm1', mode: 'ranked' as const, winnerId: 'w', loserId: 'l' };
+
+  it('updates both players in one conditional transaction', async () => {
+    db._getPromise
+      .mockResolvedValueOnce({ Item: { RankedRating: { Rating: 1500, RatingDeviation: 100, Volatility: 0.06, GamesPlayed: 12 } } })
+      .mockResolvedValueOnce({ Item: null });
+
+    const result = await recordRatedMatchResult(match);
+
+    expect(result?.winner.rating).toBeGreaterThan(1500);
+    expect(result?.loser.rating).toBeLessThan(DEFAULT_RATING);
+    expect(db.transactWrite).toHaveBeenCalledTimes(1);
+    const [winnerUpdate, loserUpdate] = db.transactWrite.mock.calls[0][0].TransactItems;
+    expect(winnerUpdate.Update.Key).toEqual({ UserId: 'w' });
+    expect(winnerUpdate.Update.ConditionExpression).toContain('#rating.GamesPlayed = :previousGames');
+    expect(winnerUpdate.Update.ExpressionAttributeValues[':previousGames']).toBe(12);
+    expect(winnerUpdate.Update.ExpressionAttributeValues[':next'].LastMatchId).toBe('m1');
+    expect(loserUpdate.Update.ConditionExpression).toBe('attribute_not_exists(#rating)');
+  });
+
+  it('lists both players on the mode\'s ladder in the same transaction', async () => {
+    db._getPromise
+      .mockResolvedValueOnce({ Item: { RankedRating: { Rating: 1600, RatingDeviation: 60, GamesPlayed: 30 } } })
+      .mockResolvedValueOnce({ Item: null });
+
+    const result = await recordRatedMatchResult(match);
+
+    const [, , winnerLadder, loserLadder] = db.transactWrite.mock.calls[0][0].TransactItems;
+    expect(winnerLadder.Put).toMatchObject({
+      TableName: 'riftbound-dev-leaderboard',
+      Item: { Mode: 'ranked', UserId: 'w', LadderScore: 100000 + result!.winner.rating }
+    });
+    // Provisional players rank below every established one.
+    expect(loserLadder.Put.Item).toMatchObject({ UserId: 'l', LadderScore: result!.loser.rating });
+  });
+
+  it('is a no-op when the match was already applied', async () => {
+    db._getPromise.mockResolvedValue({
+      Item: { RankedRating: { Rating: 1520, GamesPlayed: 1, LastMatchId: 'm1' } },
+    });
+    await expect(recordRatedMatchResult(match)).resolves.toBeNull();
+    expect(db.transactWrite).not.toHaveBeenCalled();
+  });
+
+  it('retries from a fresh read when the transaction is cancelled', async () => {
+    db._transactWritePromise
+      .mockRejectedValueOnce(Object.assign(new Error('cancelled'), { code: 'TransactionCanceledException' }))
+      .mockResolvedValueOnce({});
+
+    await expect(recordRatedMatchResult(match)).resolves.not.toBeNull();
+    expect(db.transactWrite).toHaveBeenCalledTimes(2);
+    expect(db.get).toHaveBeenCalledTimes(4);
+  });
+
+  it('rejects matches without two distinct players', async () => {
+    await expect(recordRatedMatchResult({ ...match, loserId: 'w' })).rejects.toThrow(
+      'Rated matches require two distinct players'
+    );
+  });
+});
+
+describe('fetchLadderUsers', () => {
+  it('loads the top of the ladder and returns users best first', async () => {
+    db._queryPromise.mockResolvedValue({ Items: [{ UserId: 'a' }, { UserId: 'b' }, { UserId: 'gone' }] });
+    db._batchGetPromise
+      .mockResolvedValueOnce({
+        Responses: { 'riftbound-dev-users': [{ UserId: 'b', Wins: 9 }] },
+        UnprocessedKeys: { 'riftbound-dev-users': { Keys: [{ UserId: 'a' }] } },
+      })
+      .mockResolvedValueOnce({
+        Responses: { 'riftbound-dev-users': [{ UserId: 'a', Wins: 1, RankedRating: { Rating: 1650, GamesPlayed: 20 } }] },
+      });
+
+    const users = await fetchLadderUsers('ranked', 3);
+
+    expect(db.query).toHaveBeenCalledWith(
+      expect.objectContaining({ IndexName: 'LadderScoreIndex', ScanIndexForward: false, Limit: 3 })
+    );
+    expect(db.batchGet).toHaveBeenLastCalledWith({
+      RequestItems: { 'riftbound-dev-users': { Keys: [{ UserId: 'a' }] } },
+    });
+    expect(users.map((user) => user.UserId)).toEqual(['a', 'b']);
+  });
+});
@@ -4,7 +4,7 @@
  * battlefield presence.
  *
  * The root cause was twofold:
- *   1. `enumerateLegalActions` only emitted battlefield-destination play_card
+ *   1. `listBotActions` only emitted battlefield-destination play_card
  *      actions for battlefields the player already CONTROLLED. At game start
  *      no one controls anything, so no direct-to-battlefield deploys ever
  *      surfaced — even for cards whose rules text says "you may play me to
@@ -28,7 +28,7 @@ import {
   resetCardCounter
 } from './test-helpers';
 import {
-  enumerateLegalActions,
+  listBotActions,
   heuristicBot,
   playOneGame,
   makeRng,
@@ -65,7 +65,7 @@ function injectCardAtHandIndexZero(
 // ===========================================================================
 // Enumerator: open-battlefield plays
 // ===========================================================================
-describe('enumerateLegalActions — open/enemy-occupied battlefield deploys', () => {
+describe('listBotActions — open/enemy-occupied battlefield deploys', () => {
   it('emits play_card actions for each open battlefield when the card grants canPlayToOpenBattlefield', () => {
     const engine = createInProgressEngine();
     const pid = currentPlayerId(engine);
@@ -83,7 +83,7 @@ describe('enumerateLegalActions — open/enemy-occupied battlefield deploys', ()
     });
     injectCardAtHandIndexZero(engine, pid, openBfCard);
 
-    const actions = enumerateLegalActions(engine, pid);
+    const actions = listBotActions(engine, pid);
     const openDeploys = actions.filter(
       (a) =>
         a.kind === 'play_card' &&
@@ -137,7 +137,7 @@ describe('enumerateLegalActions — open/enemy-occupied battlefield deploys', ()
     });
     injectCardAtHandIndexZero(engine, pid, plain);
 
-    const actions = enumerateLegalActions(engine, pid);
+    const actions = listBotActions(engine, pid);
     const openDeploys = actions.filter(
       (a) =>
         a.kind === 'play_card' &&
@@ -150,6 +150,26 @@ describe('enumerateLegalActions — open/enemy-occupied battlefield deploys', ()
   });
 });
 
+describe('listBotActions — built from engine.getLegalActions', () => {
+  it('offers exactly the engine\'s plays and destinations, and never concedes', () => {
+    const engine = createInProgressEngine();
+    const pid = currentPlayerId(engine);
+    injectCardAtHandIndexZero(engine, pid, makeCreature({ name: 'Deployer', energyCost: 1 }));
+
+    const legal = engine.getLegalActions(pid);
+    const expected = legal.flatMap((action) =>
+      action.kind === 'play_card' ? action.destinations.map((destinationId) => `${action.cardIndex}:${destinationId}`) : []
+    );
+    const plays = listBotActions(engine, pid).flatMap((action) =>
+      action.kind === 'play_card' ? [`${action.cardIndex}:${action.destinationId}`] : []
+    );
+
+    expect(plays).toEqual(expected);
+    expect(plays).toContain('0:base');
+    expect(listBotActions(engine, pid).some((action) => action.kind === 'concede')).toBe(false);
+  });
+});
+
 // ===========================================================================
 // heuristicBot: move_unit preferred over play_card to base
 // ===========================================================================
@@ -1,4 +1,19 @@
+import fs from 'node:fs';
+import {
+  createPublicKey,
+  timingSafeEqual,
+  verify as verifySignature,
+  type JsonWebKey,
+  type KeyObject
+} from 'node:crypto';
 import type { Request, Response, NextFunction } from 'express';
+import logger from './logger';
+
+const parseList = (value?: string | null): string[] =>
+  (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
 
 const parseCookies = (header?: string | null): Record<string, string> => {
   const cookies: Record<string, string> = {};
@@ -31,6 +46,197 @@ export const decodeJwtPayload = (token?: string): Record<string, any> | null =>
   }
 };
 
+// ============================================================================
+// TOKEN VERIFICATION
+// ============================================================================
+
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+// Minimum gap between refetches triggered by an unknown `kid`, so forged
+// tokens cannot make us hammer the JWKS endpoint.
+const JWKS_REFETCH_COOLDOWN_MS = 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+const LOCAL_STAGES = new Set(['local', 'test']);
+
+export class TokenVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenVerificationError';
+  }
+}
+
+export interface TokenVerifierConfig {
+  issuer: string | null;
+  /** App client ids accepted as `aud` (id tokens) or `client_id` (access tokens). */
+  audience: string[];
+  tokenUse: string[];
+  jwksUrl: string | null;
+  /** Local JWKS file, used instead of the URL (tests and offline development). */
+  jwksFile: string | null;
+}
+
+/**
+ * Read the verifier settings from the environment. The issuer and JWKS URL
+ * default to the Cognito pool in COGNITO_USER_POOL_ID.
+ */
+export const resolveTokenVerifierConfig = (): TokenVerifierConfig => {
+  const region = (process.env.COGNITO_REGION || process.env.AWS_REGION || 'us-east-1').trim();
+  const userPoolId = process.env.COGNITO_USER_POOL_ID?.trim();
+  const issuer =
+    process.env.COGNITO_ISSUER?.trim().replace(/\/$/, '') ||
+    (userPoolId ? `https://cognito-idp.${region}.amazonaws.com/${userPoolId}` : null);
+  return {
+    issuer,
+    audience: parseList(process.env.COGNITO_CLIENT_ID),
+    tokenUse: parseList(process.env.COGNITO_TOKEN_USE || 'id,access'),
+    jwksUrl: process.env.COGNITO_JWKS_URL?.trim() || (issuer ? `${issuer}/.well-known/jwks.json` : null),
+    jwksFile: process.env.COGNITO_JWKS_FILE?.trim() || null
+  };
+};
+
+interface JwksCacheEntry {
+  keys: Map<string, KeyObject>;
+  fetchedAt: number;
+}
+
+const jwksCache = new Map<string, JwksCacheEntry>();
+
+const loadJwks = async (config: TokenVerifierConfig): Promise<{ keys: JsonWebKey[] }> => {
+  if (config.jwksFile) {
+    return JSON.parse(await fs.promises.readFile(config.jwksFile, 'utf-8'));
+  }
+  if (!config.jwksUrl) {
+    throw new TokenVerificationError('Token verification is not configured');
+  }
+  const response = await fetch(config.jwksUrl);
+  if (!response.ok) {
+    throw new Error(`JWKS request failed (${response.status})`);
+  }
+  return (await response.json()) as { keys: JsonWebKey[] };
+};
+
+const refreshJwks = async (source: string, config: TokenVerifierConfig): Promise<JwksCacheEntry> => {
+  const jwks = await loadJwks(config);
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of jwks.keys ?? []) {
+    if (typeof jwk.kid !== 'string' || jwk.kty !== 'RSA') {
+      continue;
+    }
+    try {
+      keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    } catch (error) {
+      logger.warn('[AUTH] Skipping unusable JWKS key', { kid: jwk.kid, error });
+    }
+  }
+  const entry = { keys, fetchedAt: Date.now() };
+  jwksCache.set(source, entry);
+  return entry;
+};
+
+const getSigningKey = async (kid: string, config: TokenVerifierConfig): Promise<KeyObject> => {
+  const source = config.jwksFile ?? config.jwksUrl ?? '';
+  let entry = jwksCache.get(source);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+  if (!entry || age > JWKS_CACHE_TTL_MS || (!entry.keys.has(kid) && age > JWKS_REFETCH_COOLDOWN_MS)) {
+    entry = await refreshJwks(source, config);
+  }
+  const key = entry.keys.get(kid);
+  if (!key) {
+    throw new TokenVerificationError(`Unknown signing key ${kid}`);
+  }
+  return key;
+};
+
+/** Drop cached signing keys, e.g. after rotating the local key file in tests. */
+export const clearJwksCache = (): void => {
+  jwksCache.clear();
+};
+
+const decodeSegment = (segment: string): Record<string, any> => {
+  try {
+    const parsed = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error('not an object');
+    }
+    return parsed;
+  } catch {
+    throw new TokenVerificationError('Malformed token');
+  }
+};
+
+/**
+ * Verify an RS256 Cognito token against the configured JWKS and return its
+ * claims. Checks `exp`, `nbf`, `iss`, `token_use` and the audience
+ * (`aud` for id tokens, `client_id` for access tokens).
+ */
+export const verifyJwt = async (
+  token: string,
+  config: TokenVerifierConfig = resolveTokenVerifierConfig()
+): Promise<Record<string, any>> => {
+  if (!config.issuer || config.audience.length === 0) {
+    throw new TokenVerificationError('Token verification is not configured');
+  }
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new TokenVerificationError('Malformed token');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = decodeSegment(encodedHeader);
+  if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+    throw new TokenVerificationError('Unsupported token algorithm');
+  }
+  const key = await getSigningKey(header.kid, config);
+  const signatureValid = verifySignature(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key,
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!signatureValid) {
+    throw new TokenVerificationError('Invalid token signature');
+  }
+
+  const payload = decodeSegment(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS <= now) {
+    throw new TokenVerificationError('Token expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new TokenVerificationError('Token not yet valid');
+  }
+  if (payload.iss !== config.issuer) {
+    throw new TokenVerificationError('Unexpected token issuer');
+  }
+  if (!config.tokenUse.includes(payload.token_use)) {
+    throw new TokenVerificationError('Unexpected token use');
+  }
+  const audience = payload.token_use === 'access' ? payload.client_id : payload.aud;
+  if (!config.audience.includes(audience)) {
+    throw new TokenVerificationError('Unexpected token audience');
+  }
+  return payload;
+};
+
+/** Local and test stages, the only places unverified identities are allowed. */
+export const isLocalStage = (): boolean => {
+  const nodeEnv = (process.env.NODE_ENV || '').trim().toLowerCase();
+  if (nodeEnv === 'test' || nodeEnv === 'development') {
+    return true;
+  }
+  const stage = (process.env.ENVIRONMENT || process.env.STAGE || '').trim().toLowerCase();
+  return LOCAL_STAGES.has(stage);
+};
+
+/**
+ * Whether identity may be taken from `x-user-id` without a token. Requires
+ * ALLOW_LOCAL_BYPASS and a local stage; the flag is ignored elsewhere.
+ */
+export const allowsUnverifiedIdentity = (): boolean =>
+  process.env.ALLOW_LOCAL_BYPASS === 'true' && isLocalStage();
+
+// ============================================================================
+// REQUEST AUTHENTICATION
+// ============================================================================
+
 const getIdTokenFromRequest = (req: Request): string | null => {
   const authHeader = req.header('authorization');
   if (authHeader && authHeader.startsWith('Bearer ')) {
@@ -56,13 +262,17 @@ export interface AuthContext {
   payload: Record<string, any>;
 }
 
-export const authenticateRequest = (req: Request): AuthContext | null => {
-  const token = getIdTokenFromRequest(req);
-  if (!token) {
-    return null;
-  }
-  const payload = decodeJwtPayload(token);
-  if (!payload) {
+/** Verify a raw token and resolve the caller; null when it does not verify. */
+export const verifyToken = async (token: string): Promise<AuthContext | null> => {
+  let payload: Record<string, any>;
+  try {
+    payload = await verifyJwt(token);
+  } catch (error) {
+    if (error instanceof TokenVerificationError) {
+      logger.debug('[AUTH] Rejected token', { reason: error.message });
+    } else {
+      logger.warn('[AUTH] Token verification failed', { error });
+    }
     return null;
   }
   const userId =
@@ -81,8 +291,25 @@ export const authenticateRequest = (req: Request): AuthContext | null => {
   };
 };
 
-export const requireAuthenticatedUser = (req: Request, res: Response, next: NextFunction) => {
-  const auth = authenticateRequest(req);
+/**
+ * Authenticate a request from its bearer token, `x-id-token` header or
+ * `idToken` cookie. Returns null when there is no token or it fails
+ * verification.
+ */
+export const authenticateRequest = async (req: Request): Promise<AuthContext | null> => {
+  const token = getIdTokenFromRequest(req);
+  if (!token) {
+    return null;
+  }
+  return verifyToken(token);
+};
+
+export const requireAuthenticatedUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const auth = await authenticateRequest(req);
   if (!auth) {
     res.status(401).json({ error: 'Unauthorized' });
     return;
@@ -92,3 +319,54 @@ export const requireAuthenticatedUser = (req: Request, res: Response, next: Next
   (req as any).authToken = auth.token;
   next();
 };
+
+/**
+ * Whether the caller may act as an administrator: a member of the Cognito
+ * group named by ADMIN_GROUP (default `admin`), or listed in ADMIN_USER_IDS.
+ */
+export const isAdminUser = (
+  userId?: string | null,
+  payload?: Record<string, any> | null
+): boolean => {
+  if (!userId) {
+    return false;
+  }
+  if (parseList(process.env.ADMIN_USER_IDS).includes(userId)) {
+    return true;
+  }
+  const adminGroup = (process.env.ADMIN_GROUP || 'admin').trim();
+  const groups = payload?.['cognito:groups'];
+  return Array.isArray(groups) && groups.includes(adminGroup);
+};
+
+// ============================================================================
+// SERVICE-TO-SERVICE CALLS
+// ============================================================================
+
+export const INTERNAL_API_KEY_HEADER = 'x-internal-api-key';
+
+const getInternalApiKey = (): string | null => process.env.INTERNAL_API_KEY?.trim() || null;
+
+/**
+ * Headers marking a call as coming from this backend (the matchmaking
+ * worker) rather than a player. Empty when INTERNAL_API_KEY is not set.
+ */
+export const buildInternalApiHeaders = (): Record<string, string> => {
+  const key = getInternalApiKey();
+  return key ? { [INTERNAL_API_KEY_HEADER]: key } : {};
+};
+
+/**
+ * Whether the request carries the shared INTERNAL_API_KEY. Always false
+ * when no key is configured, so nothing is trusted by default.
+ */
+export const isInternalRequest = (req: Request): boolean => {
+  const key = getInternalApiKey();
+  const presented = req.header(INTERNAL_API_KEY_HEADER);
+  if (!key || !presented) {
+    return false;
+  }
+  const expected = Buffer.from(key);
+  const actual = Buffer.from(presented.trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
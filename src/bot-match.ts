@@ -30,7 +30,7 @@ import {
 } from './replay/replay-frame-store';
 import {
   dispatchAction,
-  enumerateLegalActions,
+  listBotActions,
   getBot,
   makeRng,
   pickBattlefieldRecords,
@@ -749,9 +749,9 @@ const driveMatch = async (
     ]) {
       let legals;
       try {
-        legals = enumerateLegalActions(engine, pid);
+        legals = listBotActions(engine, pid);
       } catch (error) {
-        logger.error('[BOT-MATCH] enumerateLegalActions threw', { matchId, pid, error });
+        logger.error('[BOT-MATCH] listBotActions threw', { matchId, pid, error });
         finalize(matchId, 'crashed', `enumerate_failed: ${(error as Error).message}`, engine);
         return;
       }
@@ -12,6 +12,7 @@
 import express, { Request, Response, Router } from 'express';
 import logger from './logger';
 import { getCardCatalog, type EnrichedCardRecord } from './card-catalog';
+import { isCardLegalInFormat, resolveDeckFormat, type DeckFormat } from './deck-validation';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -94,6 +95,8 @@ interface ParsedQuery {
   type: string | null;
   rarity: string | null;
   q: string | null;
+  /** Deck format (current version) whose legal card pool to browse. */
+  format: DeckFormat | null;
   sort: 'name' | 'cost' | 'rarity';
   order: 'asc' | 'desc';
   limit: number;
@@ -129,6 +132,16 @@ const parseQuery = (req: Request): ParsedQuery => {
   const rarity = readScalar(req.query.rarity);
   const q = readScalar(req.query.q);
 
+  const formatRaw = readScalar(req.query.format);
+  let format: DeckFormat | null = null;
+  if (formatRaw) {
+    try {
+      format = resolveDeckFormat(formatRaw);
+    } catch (err) {
+      throw new HttpError(400, (err as Error).message);
+    }
+  }
+
   const sortRaw = readScalar(req.query.sort) ?? 'name';
   if (!VALID_SORTS.has(sortRaw)) {
     throw new HttpError(400, `Invalid sort: ${sortRaw}`);
@@ -152,6 +165,7 @@ const parseQuery = (req: Request): ParsedQuery => {
     type,
     rarity,
     q,
+    format,
     sort: sortRaw as 'name' | 'cost' | 'rarity',
     order: orderRaw as 'asc' | 'desc',
     limit,
@@ -195,6 +209,10 @@ const applyFilters = (cards: EnrichedCardRecord[], query: ParsedQuery): Enriched
   if (query.q) {
     filtered = filtered.filter((card) => matchesSearch(card, query.q as string));
   }
+  if (query.format) {
+    const format = query.format;
+    filtered = filtered.filter((card) => isCardLegalInFormat(card, format));
+  }
   return filtered;
 };
 
@@ -103,6 +103,8 @@ export type EffectOperationType =
   | 'hold_trigger'
   | 'cost_reduction'
   | 'scoring'
+  | 'support_scoring'
+  | 'win_game'
   | 'conquer_trigger'
   | 'death_trigger'
   | 'keyword_legion'
@@ -148,6 +150,10 @@ export interface EffectOperation {
   automated: boolean;
   ruleRefs?: string[];
   magnitudeHint?: number | null;
+  /** remove_permanent only: the removal the op's clause performs. */
+  mode?: 'kill' | 'banish';
+  /** remove_permanent only: a banished permanent comes back at end of turn. */
+  returnAt?: 'end_of_turn';
   metadata?: Record<string, unknown>;
 }
 
@@ -183,6 +189,7 @@ export type EffectClassId =
   | 'hold_trigger'
   | 'cost_reduction'
   | 'scoring'
+  | 'instant_win'
   | 'conquer_trigger'
   | 'death_trigger'
   | 'keyword_legion'
@@ -747,6 +754,16 @@ const EFFECT_CLASS_DEFINITIONS: EffectClassDefinition[] = [
     ]),
     operation: { type: 'scoring', targetHint: 'self', zone: 'board', automated: false }
   },
+  {
+    id: 'instant_win',
+    label: 'Alternate win',
+    description: 'Card text that wins the game outright or once a stated condition holds.',
+    ruleRefs: [],
+    // Broad on purpose: the handler acts only on "you win the game" and logs
+    // the rest (negated wins, other players winning) as unsupported.
+    patterns: buildPatterns([/\bwins? the game\b/i]),
+    operation: { type: 'win_game', targetHint: 'self', zone: 'board', automated: false }
+  },
   {
     id: 'conquer_trigger',
     label: 'Conquer trigger effects',
@@ -1061,14 +1078,16 @@ const EFFECT_CLASS_DEFINITIONS: EffectClassDefinition[] = [
   },
   {
     id: 'play_restriction',
-    label: 'Play / targeting restriction',
-    description: 'Effects that restrict what can be played or targeted.',
+    label: 'Play / targeting / movement restriction',
+    description: 'Effects that restrict what can be played, targeted or moved.',
     ruleRefs: ['340-360'],
     patterns: buildPatterns([
       /\bcan'?t\s+be\s+played\s+here\b/i,
       /\bunits\s+can'?t\s+be\s+played\b/i,
       /\bcan'?t\s+be\s+chosen\s+by\b/i,
-      /\bcan'?t\s+be\s+targeted\b/i
+      /\bcan'?t\s+be\s+targeted\b/i,
+      /\bcan'?t\s+move\b/i,
+      /\bcan'?t\s+play\s+(?:spells|units|gear|cards)\b/i
     ]),
     operation: { type: 'play_restriction', targetHint: 'any', zone: 'board', automated: true }
   },
@@ -1327,6 +1346,9 @@ export const buildEffectProfile = (
     const magnitude = extractMagnitudeFromEffect(text, operation.type);
     if (magnitude !== null) {
       operation.magnitudeHint = magnitude;
+    }
+    if (operation.type === 'remove_permanent') {
+      Object.assign(operation, extractRemovalFromEffect(text));
     }
      if (
       (operation.type === 'create_token' || operation.type === 'summon_unit') &&
@@ -1526,6 +1548,29 @@ const extractMagnitudeFromEffect = (
   return null;
 };
 
+// Removal clauses aimed at a chosen permanent. "Banish this" / "kill me"
+// remove the card itself, so they never describe what the op targets.
+const REMOVAL_CLAUSE_REGEX = /\b(kill|destroy|banish)\s+(?!(?:this|me|myself|itself)\b)\S/i;
+const RETURN_AT_END_OF_TURN_REGEX = /\bat (?:the )?end of (?:this )?turn,?\s+return\b/i;
+
+/**
+ * Mode of a remove_permanent op, taken from the removal clause that targets
+ * a permanent. Kill is the default for "destroy", for removal worded any
+ * other way, and for text with no targeted clause.
+ */
+export const extractRemovalFromEffect = (
+  effectText: string
+): Pick<EffectOperation, 'mode' | 'returnAt'> => {
+  const clause = REMOVAL_CLAUSE_REGEX.exec(effectText);
+  if (!clause || clause[1].toLowerCase() !== 'banish') {
+    return { mode: 'kill' };
+  }
+  const rest = effectText.slice(clause.index);
+  return RETURN_AT_END_OF_TURN_REGEX.test(rest)
+    ? { mode: 'banish', returnAt: 'end_of_turn' }
+    : { mode: 'banish' };
+};
+
 const TOKEN_REGEX =
   /play\s+(?<quantifier>a|an|\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)?\s*(?<ready>ready)?\s*(?<might>\d+)\s*(?::rb[\s_]*might:|\[might\])\s*(?<name>[A-Za-z' -]+?)\s+unit token/gi;
 const FLEXIBLE_PLACEMENT_REGEX =
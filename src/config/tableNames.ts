@@ -69,6 +69,11 @@ export const TABLE_NAMES = {
     'users',
     'riftbound-online-users-dev',
     process.env.USERS_TABLE
+  ),
+  LEADERBOARD: resolveTableName(
+    'leaderboard',
+    'riftbound-online-leaderboard-dev',
+    process.env.LEADERBOARD_TABLE
   )
 };
 
@@ -0,0 +1,359 @@
+/**
+ * Deck analytics for the deckbuilder: energy and power curves, domain split
+ * against the legend, card-type mix, and the odds of drawing a card (or a
+ * card of a given cost) by a given turn.
+ *
+ * The odds follow the engine's setup rather than generic card-game maths:
+ * the opening hand is the rule profile's `initialHandSize`, the mulligan
+ * sets aside up to `MULLIGAN_MAX_REPLACEMENTS` cards to the bottom of the
+ * deck and redraws them, and every turn's draw step (the first included)
+ * draws one card. The chosen champion starts outside the deck, so only the
+ * main deck is drawn from.
+ */
+import { findCardById, findCardByName, findCardBySlug, type EnrichedCardRecord } from './card-catalog';
+import { MULLIGAN_MAX_REPLACEMENTS } from './game-engine';
+import type { RuleProfile } from './rule-profiles';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A saved deck entry: a catalog reference plus the snapshot taken at save. */
+export interface AnalyzedDeckEntry {
+  cardId?: string | null;
+  slug?: string | null;
+  quantity?: number | null;
+  cardSnapshot?: { cardId?: string | null; slug?: string | null; name?: string | null } | null;
+}
+
+export interface AnalyzedDeck {
+  cards?: AnalyzedDeckEntry[] | null;
+  championLegend?: AnalyzedDeckEntry | null;
+}
+
+export interface CurveBucket {
+  /** Lower bound of the bucket; the last bucket holds everything above. */
+  cost: number;
+  label: string;
+  count: number;
+}
+
+export interface DomainShare {
+  domain: string;
+  count: number;
+  /** Whether the legend's domain identity includes this domain. */
+  inIdentity: boolean;
+}
+
+export interface TypeShare {
+  type: string;
+  count: number;
+}
+
+export interface TurnOdds {
+  /** 0 is the opening hand, after the mulligan when `withMulligan` applies. */
+  turn: number;
+  /** Cards seen without a mulligan: opening hand plus one draw per turn. */
+  cardsSeen: number;
+  probability: number;
+  /** Mulliganing away up to the limit of cards that are not the target. */
+  withMulligan: number;
+}
+
+export interface DrawOdds {
+  label: string;
+  cardId: string | null;
+  energyCost: number | null;
+  copies: number;
+  byTurn: TurnOdds[];
+}
+
+export interface DeckAnalysis {
+  ruleProfile: string;
+  openingHandSize: number;
+  mulliganMax: number;
+  librarySize: number;
+  turns: number;
+  energyCurve: CurveBucket[];
+  powerCurve: CurveBucket[];
+  averageEnergyCost: number | null;
+  legendDomains: string[];
+  domains: DomainShare[];
+  /** Main-deck cards with no domain. */
+  colorlessCount: number;
+  /** Main-deck cards with no domain in the legend's identity. */
+  offIdentityCount: number;
+  typeMix: TypeShare[];
+  /** At least one copy of each distinct main-deck card. */
+  cardOdds: DrawOdds[];
+  /** At least one card of each energy-cost bucket. */
+  costOdds: DrawOdds[];
+  /** References the catalog doesn't know; still counted in the library. */
+  unknownCards: string[];
+}
+
+export interface DeckAnalysisOptions {
+  ruleProfile: RuleProfile;
+  /** Last turn to report odds for. */
+  turns?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DOMAINS = ['fury', 'calm', 'mind', 'body', 'chaos', 'order'];
+// Curves fold everything at or above the cap into one "N+" bucket.
+const ENERGY_CURVE_CAP = 7;
+const POWER_CURVE_CAP = 4;
+export const DEFAULT_ANALYSIS_TURNS = 4;
+export const MAX_ANALYSIS_TURNS = 10;
+
+// ============================================================================
+// PROBABILITY
+// ============================================================================
+
+/** Binomial coefficient as a float; exact enough for deck-sized inputs. */
+const choose = (n: number, k: number): number => {
+  if (k < 0 || k > n) {
+    return 0;
+  }
+  const small = Math.min(k, n - k);
+  let result = 1;
+  for (let i = 1; i <= small; i++) {
+    result = (result * (n - small + i)) / i;
+  }
+  return result;
+};
+
+const clampProbability = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Hypergeometric odds of at least `atLeast` successes when drawing `draws`
+ * cards from `population` cards of which `successes` are hits.
+ */
+export const hypergeometricAtLeast = (
+  population: number,
+  successes: number,
+  draws: number,
+  atLeast = 1
+): number => {
+  if (atLeast <= 0) {
+    return 1;
+  }
+  const n = Math.min(Math.max(0, draws), population);
+  const total = choose(population, n);
+  if (total === 0) {
+    return 0;
+  }
+  let miss = 0;
+  for (let x = 0; x < atLeast; x++) {
+    miss += choose(successes, x) * choose(population - successes, n - x);
+  }
+  return clampProbability(1 - miss / total);
+};
+
+/**
+ * Odds of at least `atLeast` hits after the opening hand, a mulligan and
+ * `laterDraws` more draws. The mulligan sets aside up to `mulliganMax`
+ * misses; they go to the bottom, so their replacements and every later
+ * draw come from the cards below the opening hand.
+ */
+export const hypergeometricWithMulligan = (
+  population: number,
+  successes: number,
+  handSize: number,
+  laterDraws: number,
+  mulliganMax: number,
+  atLeast = 1
+): number => {
+  if (atLeast <= 0) {
+    return 1;
+  }
+  const hand = Math.min(handSize, population);
+  const total = choose(population, hand);
+  if (total === 0) {
+    return 0;
+  }
+  let probability = 0;
+  for (let inHand = 0; inHand <= Math.min(successes, hand); inHand++) {
+    const handOdds = (choose(successes, inHand) * choose(population - successes, hand - inHand)) / total;
+    if (handOdds === 0) {
+      continue;
+    }
+    if (inHand >= atLeast) {
+      probability += handOdds;
+      continue;
+    }
+    const replaced = Math.min(mulliganMax, hand - inHand);
+    probability +=
+      handOdds *
+      hypergeometricAtLeast(population - hand, successes - inHand, replaced + laterDraws, atLeast - inHand);
+  }
+  return clampProbability(probability);
+};
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+const lookupEntry = (entry: AnalyzedDeckEntry): EnrichedCardRecord | undefined => {
+  const snapshot = entry.cardSnapshot;
+  const ids = [entry.cardId, snapshot?.cardId].filter((value): value is string => Boolean(value));
+  const slugs = [entry.slug, snapshot?.slug, ...ids].filter((value): value is string => Boolean(value));
+  for (const id of ids) {
+    const record = findCardById(id);
+    if (record) {
+      return record;
+    }
+  }
+  for (const slug of slugs) {
+    const record = findCardBySlug(slug);
+    if (record) {
+      return record;
+    }
+  }
+  return snapshot?.name ? findCardByName(snapshot.name) : undefined;
+};
+
+const recordDomains = (record: EnrichedCardRecord): string[] =>
+  Array.from(new Set((record.colors ?? []).map((color) => color.toLowerCase()).filter((color) => DOMAINS.includes(color))));
+
+const buildCurve = (costs: Array<{ cost: number; quantity: number }>, cap: number): CurveBucket[] => {
+  const buckets: CurveBucket[] = Array.from({ length: cap + 1 }, (_, cost) => ({
+    cost,
+    label: cost === cap ? `${cap}+` : `${cost}`,
+    count: 0
+  }));
+  for (const { cost, quantity } of costs) {
+    buckets[Math.min(cap, Math.max(0, Math.floor(cost)))]!.count += quantity;
+  }
+  return buckets;
+};
+
+const roundOdds = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Analyze a deck's main deck under a rule profile. Cards the catalog does
+ * not know still take up library slots but are left out of curves, domains
+ * and types.
+ */
+export const analyzeDeck = (deck: AnalyzedDeck, options: DeckAnalysisOptions): DeckAnalysis => {
+  const { ruleProfile } = options;
+  const turns = Math.min(MAX_ANALYSIS_TURNS, Math.max(0, Math.floor(options.turns ?? DEFAULT_ANALYSIS_TURNS)));
+
+  const resolved: Array<{ record: EnrichedCardRecord; quantity: number }> = [];
+  const unknownCards: string[] = [];
+  let librarySize = 0;
+  for (const entry of deck.cards ?? []) {
+    const quantity = Math.max(1, Math.floor(entry.quantity ?? 1));
+    librarySize += quantity;
+    const record = lookupEntry(entry);
+    if (record) {
+      resolved.push({ record, quantity });
+    } else {
+      unknownCards.push(entry.cardId ?? entry.slug ?? entry.cardSnapshot?.name ?? '(missing reference)');
+    }
+  }
+
+  // Curves
+  const energyCosts = resolved
+    .filter(({ record }) => typeof record.cost?.energy === 'number')
+    .map(({ record, quantity }) => ({ cost: record.cost.energy as number, quantity }));
+  const powerCosts = resolved.map(({ record, quantity }) => ({ cost: record.cost?.powerCost ?? 0, quantity }));
+  const costedCards = energyCosts.reduce((sum, { quantity }) => sum + quantity, 0);
+  const averageEnergyCost = costedCards
+    ? Math.round((energyCosts.reduce((sum, { cost, quantity }) => sum + cost * quantity, 0) / costedCards) * 100) / 100
+    : null;
+
+  // Domains against the legend
+  const legendRecord = deck.championLegend ? lookupEntry(deck.championLegend) : undefined;
+  const legendDomains = legendRecord ? recordDomains(legendRecord) : [];
+  const domainCounts = new Map<string, number>();
+  let colorlessCount = 0;
+  let offIdentityCount = 0;
+  for (const { record, quantity } of resolved) {
+    const domains = recordDomains(record);
+    if (domains.length === 0) {
+      colorlessCount += quantity;
+      continue;
+    }
+    for (const domain of domains) {
+      domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + quantity);
+    }
+    if (legendDomains.length > 0 && !domains.some((domain) => legendDomains.includes(domain))) {
+      offIdentityCount += quantity;
+    }
+  }
+  const domains = DOMAINS.filter((domain) => domainCounts.has(domain)).map((domain) => ({
+    domain,
+    count: domainCounts.get(domain)!,
+    inIdentity: legendDomains.includes(domain)
+  }));
+
+  // Type mix
+  const typeCounts = new Map<string, number>();
+  for (const { record, quantity } of resolved) {
+    const type = record.type ?? 'Unknown';
+    typeCounts.set(type, (typeCounts.get(type) ?? 0) + quantity);
+  }
+  const typeMix = Array.from(typeCounts, ([type, count]) => ({ type, count })).sort(
+    (a, b) => b.count - a.count || a.type.localeCompare(b.type)
+  );
+
+  // Draw odds
+  const handSize = ruleProfile.initialHandSize;
+  const oddsFor = (copies: number): TurnOdds[] =>
+    Array.from({ length: turns + 1 }, (_, turn) => ({
+      turn,
+      cardsSeen: Math.min(librarySize, handSize + turn),
+      probability: roundOdds(hypergeometricAtLeast(librarySize, copies, handSize + turn)),
+      withMulligan: roundOdds(
+        hypergeometricWithMulligan(librarySize, copies, handSize, turn, MULLIGAN_MAX_REPLACEMENTS)
+      )
+    }));
+
+  const copiesByCard = new Map<string, { record: EnrichedCardRecord; copies: number }>();
+  for (const { record, quantity } of resolved) {
+    const current = copiesByCard.get(record.id) ?? { record, copies: 0 };
+    current.copies += quantity;
+    copiesByCard.set(record.id, current);
+  }
+  const cardOdds = Array.from(copiesByCard.values())
+    .sort((a, b) => b.copies - a.copies || a.record.name.localeCompare(b.record.name))
+    .map(({ record, copies }) => ({
+      label: record.name,
+      cardId: record.id,
+      energyCost: record.cost?.energy ?? null,
+      copies,
+      byTurn: oddsFor(copies)
+    }));
+  const costOdds = buildCurve(energyCosts, ENERGY_CURVE_CAP)
+    .filter((bucket) => bucket.count > 0)
+    .map((bucket) => ({
+      label: `${bucket.label} energy`,
+      cardId: null,
+      energyCost: bucket.cost,
+      copies: bucket.count,
+      byTurn: oddsFor(bucket.count)
+    }));
+
+  return {
+    ruleProfile: ruleProfile.id,
+    openingHandSize: handSize,
+    mulliganMax: MULLIGAN_MAX_REPLACEMENTS,
+    librarySize,
+    turns,
+    energyCurve: buildCurve(energyCosts, ENERGY_CURVE_CAP),
+    powerCurve: buildCurve(powerCosts, POWER_CURVE_CAP),
+    averageEnergyCost,
+    legendDomains,
+    domains,
+    colorlessCount,
+    offIdentityCount,
+    typeMix,
+    cardOdds,
+    costOdds,
+    unknownCards
+  };
+};
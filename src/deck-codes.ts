@@ -0,0 +1,361 @@
+/**
+ * Deck share codes and plain-text decklists.
+ *
+ * A deck code is a compact, URL-safe string naming every card of a deck by
+ * catalog id: `RB<version>.<body>`. The body is the deck serialized one zone
+ * after another, raw-deflated and base64url-encoded. Codes are canonical:
+ * each zone is merged and sorted before encoding, so the same deck always
+ * produces the same code. Bump `DECK_CODE_VERSION` (and keep decoding the
+ * old versions) whenever the layout changes, because codes live on in chat
+ * logs long after a release.
+ *
+ * `parseDecklistText` reads the "3x Card Name" lists players paste into chat.
+ * Both paths produce a `DeckCodeDeck`, which already has the shape of
+ * `DecklistInput` zones and `DeckValidationInput`.
+ */
+import zlib from 'node:zlib';
+import { findCardById, findCardByName, findCardBySlug, type EnrichedCardRecord } from './card-catalog';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DeckCodeEntry {
+  cardId: string;
+  quantity: number;
+}
+
+export interface DeckCodeDeck {
+  championLegend: DeckCodeEntry | null;
+  championLeader: DeckCodeEntry | null;
+  cards: DeckCodeEntry[];
+  runeDeck: DeckCodeEntry[];
+  battlefields: DeckCodeEntry[];
+  sideDeck: DeckCodeEntry[];
+}
+
+export interface ParsedDecklistText {
+  deck: DeckCodeDeck;
+  /** Lines that named no catalog card or had no slot left to fill. */
+  unresolved: string[];
+}
+
+/** A stored deck entry: the saved decklist references cards by id or slug. */
+export interface StoredDeckEntry {
+  cardId?: string | null;
+  slug?: string | null;
+  quantity?: number | null;
+}
+
+export interface StoredDeck {
+  cards?: StoredDeckEntry[] | null;
+  runeDeck?: StoredDeckEntry[] | null;
+  battlefields?: StoredDeckEntry[] | null;
+  sideDeck?: StoredDeckEntry[] | null;
+  championLegend?: StoredDeckEntry | null;
+  championLeader?: StoredDeckEntry | null;
+}
+
+/** A code or text that cannot be read. Callers answer 400 / BAD_USER_INPUT. */
+export class DeckCodeError extends Error {
+  statusCode = 400;
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeckCodeError';
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DECK_CODE_VERSION = 1;
+const DECK_CODE_PREFIX = 'RB';
+const DECK_CODE_PATTERN = /^RB(\d+)\.([A-Za-z0-9_-]+)$/;
+
+// Generous bounds so a hostile code cannot make the server do real work.
+const MAX_CODE_LENGTH = 4096;
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+const MAX_ENTRIES_PER_ZONE = 200;
+const MAX_QUANTITY = 99;
+const MAX_TEXT_LINES = 500;
+
+// v1 zone order. Zones are separated by '|', entries by ',', and a quantity
+// other than one follows the id after ':'. Ids are URI-encoded, which
+// escapes all three separators.
+const V1_ZONES = ['championLegend', 'championLeader', 'cards', 'runeDeck', 'battlefields', 'sideDeck'] as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const emptyDeck = (): DeckCodeDeck => ({
+  championLegend: null,
+  championLeader: null,
+  cards: [],
+  runeDeck: [],
+  battlefields: [],
+  sideDeck: []
+});
+
+/** Merge repeated ids and sort so equal decks serialize identically. */
+const canonicalZone = (entries: DeckCodeEntry[]): DeckCodeEntry[] => {
+  const merged = new Map<string, number>();
+  for (const { cardId, quantity } of entries) {
+    merged.set(cardId, (merged.get(cardId) ?? 0) + quantity);
+  }
+  return Array.from(merged, ([cardId, quantity]) => ({ cardId, quantity })).sort((a, b) =>
+    a.cardId < b.cardId ? -1 : a.cardId > b.cardId ? 1 : 0
+  );
+};
+
+const zoneEntries = (deck: DeckCodeDeck, zone: (typeof V1_ZONES)[number]): DeckCodeEntry[] => {
+  const value = deck[zone];
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value ? [value] : [];
+};
+
+const lookupStored = (entry: StoredDeckEntry): EnrichedCardRecord | undefined =>
+  (entry.cardId ? findCardById(entry.cardId) ?? findCardBySlug(entry.cardId) : undefined) ??
+  (entry.slug ? findCardBySlug(entry.slug) : undefined);
+
+// ============================================================================
+// DECK CODES
+// ============================================================================
+
+/**
+ * Name every card of a stored deck by catalog id. References the catalog
+ * no longer knows keep their stored id (or slug) so nothing is dropped.
+ */
+export const toDeckCodeDeck = (stored: StoredDeck): DeckCodeDeck => {
+  const toEntry = (entry: StoredDeckEntry | null | undefined): DeckCodeEntry | null => {
+    if (!entry) {
+      return null;
+    }
+    const cardId = lookupStored(entry)?.id ?? entry.cardId ?? entry.slug;
+    if (!cardId) {
+      return null;
+    }
+    return { cardId, quantity: Math.max(1, Math.floor(entry.quantity ?? 1)) };
+  };
+  const toZone = (entries: StoredDeckEntry[] | null | undefined) =>
+    (entries ?? []).map(toEntry).filter((entry): entry is DeckCodeEntry => entry !== null);
+  const legend = toEntry(stored.championLegend);
+  const leader = toEntry(stored.championLeader);
+  return {
+    championLegend: legend && { ...legend, quantity: 1 },
+    championLeader: leader && { ...leader, quantity: 1 },
+    cards: toZone(stored.cards),
+    runeDeck: toZone(stored.runeDeck),
+    battlefields: toZone(stored.battlefields),
+    sideDeck: toZone(stored.sideDeck)
+  };
+};
+
+export const encodeDeckCode = (deck: DeckCodeDeck): string => {
+  const payload = V1_ZONES.map((zone) =>
+    canonicalZone(zoneEntries(deck, zone))
+      .map(({ cardId, quantity }) => encodeURIComponent(cardId) + (quantity === 1 ? '' : `:${quantity}`))
+      .join(',')
+  ).join('|');
+  const body = zlib.deflateRawSync(Buffer.from(payload, 'utf8'), { level: 9 }).toString('base64url');
+  return `${DECK_CODE_PREFIX}${DECK_CODE_VERSION}.${body}`;
+};
+
+const decodeV1 = (payload: string): DeckCodeDeck => {
+  const zones = payload.split('|');
+  if (zones.length !== V1_ZONES.length) {
+    throw new DeckCodeError('Deck code is damaged');
+  }
+  const deck = emptyDeck();
+  V1_ZONES.forEach((zone, index) => {
+    const raw = zones[index]!;
+    const entries = raw ? raw.split(',') : [];
+    if (entries.length > MAX_ENTRIES_PER_ZONE) {
+      throw new DeckCodeError('Deck code is damaged');
+    }
+    const parsed = entries.map((entry) => {
+      const [id, quantityRaw, extra] = entry.split(':');
+      const quantity = quantityRaw === undefined ? 1 : Number(quantityRaw);
+      if (!id || extra !== undefined || !Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) {
+        throw new DeckCodeError('Deck code is damaged');
+      }
+      try {
+        return { cardId: decodeURIComponent(id), quantity };
+      } catch {
+        throw new DeckCodeError('Deck code is damaged');
+      }
+    });
+    if (zone === 'championLegend' || zone === 'championLeader') {
+      if (parsed.length > 1) {
+        throw new DeckCodeError('Deck code is damaged');
+      }
+      deck[zone] = parsed[0] ?? null;
+    } else {
+      deck[zone] = parsed;
+    }
+  });
+  return deck;
+};
+
+/**
+ * Read a deck code. Throws `DeckCodeError` for anything that is not a
+ * well-formed code of a supported version; card ids are returned as
+ * written and are not checked against the catalog.
+ */
+export const decodeDeckCode = (code: string): DeckCodeDeck => {
+  const trimmed = (code ?? '').trim();
+  if (trimmed.length > MAX_CODE_LENGTH) {
+    throw new DeckCodeError('Deck code is too long');
+  }
+  const match = DECK_CODE_PATTERN.exec(trimmed);
+  if (!match) {
+    throw new DeckCodeError('Not a deck code');
+  }
+  const version = Number(match[1]);
+  if (version !== 1) {
+    throw new DeckCodeError(`Unsupported deck code version ${version}`);
+  }
+  let payload: string;
+  try {
+    payload = zlib
+      .inflateRawSync(Buffer.from(match[2]!, 'base64url'), { maxOutputLength: MAX_PAYLOAD_BYTES })
+      .toString('utf8');
+  } catch {
+    throw new DeckCodeError('Deck code is damaged');
+  }
+  return decodeV1(payload);
+};
+
+// ============================================================================
+// PLAIN-TEXT DECKLISTS
+// ============================================================================
+
+type TextSection = 'auto' | 'legend' | 'champion' | 'main' | 'rune' | 'battlefield' | 'side';
+
+const SECTION_ALIASES: Record<string, TextSection> = {
+  legend: 'legend',
+  'champion legend': 'legend',
+  champion: 'champion',
+  'chosen champion': 'champion',
+  main: 'main',
+  'main deck': 'main',
+  maindeck: 'main',
+  deck: 'main',
+  rune: 'rune',
+  runes: 'rune',
+  'rune deck': 'rune',
+  battlefield: 'battlefield',
+  battlefields: 'battlefield',
+  side: 'side',
+  'side deck': 'side',
+  sidedeck: 'side',
+  sideboard: 'side'
+};
+
+// "Main Deck:", "Runes (12):", "Sideboard"
+const SECTION_PATTERN = /^([a-z ]+?)\s*(?:\(\d+\))?\s*(?::\s*(.*))?$/i;
+// "3x Card Name", "3 Card Name", "Card Name x3"
+const LEADING_QUANTITY = /^(\d+)\s*x?\s+(.+)$/i;
+const TRAILING_QUANTITY = /^(.+?)\s+x\s*(\d+)$/i;
+
+/** Unsectioned lines land where the card's type says it belongs. */
+const sectionForRecord = (record: EnrichedCardRecord): TextSection => {
+  const type = (record.type ?? '').toLowerCase();
+  if (type === 'legend') {
+    return 'legend';
+  }
+  if (type === 'rune') {
+    return 'rune';
+  }
+  if (type === 'battlefield' || record.tags.some((tag) => tag.toLowerCase() === 'battlefield')) {
+    return 'battlefield';
+  }
+  return 'main';
+};
+
+/**
+ * Parse a pasted decklist. Section headers (Legend, Champion, Main Deck,
+ * Runes, Battlefields, Sideboard) place the cards that follow; cards before
+ * any header go where their type says. Card names resolve through
+ * `findCardByName`, falling back to slugs for lists copied from URLs.
+ */
+export const parseDecklistText = (text: string): ParsedDecklistText => {
+  const lines = (text ?? '').split(/\r?\n/);
+  if (lines.length > MAX_TEXT_LINES) {
+    throw new DeckCodeError(`Decklist text cannot have more than ${MAX_TEXT_LINES} lines`);
+  }
+  const deck = emptyDeck();
+  const unresolved: string[] = [];
+  let section: TextSection = 'auto';
+
+  const addCard = (line: string, body: string) => {
+    const leading = LEADING_QUANTITY.exec(body);
+    const trailing = leading ? null : TRAILING_QUANTITY.exec(body);
+    const name = (leading?.[2] ?? trailing?.[1] ?? body).trim();
+    const quantity = Number(leading?.[1] ?? trailing?.[2] ?? 1);
+    const record = findCardByName(name) ?? findCardBySlug(name);
+    if (!record || quantity < 1 || quantity > MAX_QUANTITY) {
+      unresolved.push(line);
+      return;
+    }
+    const entry = { cardId: record.id, quantity };
+    switch (section === 'auto' ? sectionForRecord(record) : section) {
+      case 'legend':
+        if (deck.championLegend) {
+          unresolved.push(line);
+        } else {
+          deck.championLegend = { ...entry, quantity: 1 };
+        }
+        break;
+      case 'champion':
+        if (deck.championLeader) {
+          unresolved.push(line);
+        } else {
+          deck.championLeader = { ...entry, quantity: 1 };
+        }
+        break;
+      case 'rune':
+        deck.runeDeck.push(entry);
+        break;
+      case 'battlefield':
+        deck.battlefields.push(entry);
+        break;
+      case 'side':
+        deck.sideDeck.push(entry);
+        break;
+      default:
+        deck.cards.push(entry);
+    }
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith('//')) {
+      continue;
+    }
+    const header = SECTION_PATTERN.exec(line);
+    const alias = header ? SECTION_ALIASES[header[1]!.toLowerCase().replace(/\s+/g, ' ')] : undefined;
+    if (header && alias) {
+      section = alias;
+      if (header[2]) {
+        addCard(line, header[2]);
+      }
+      continue;
+    }
+    addCard(line, line);
+  }
+
+  return {
+    deck: {
+      ...deck,
+      cards: canonicalZone(deck.cards),
+      runeDeck: canonicalZone(deck.runeDeck),
+      battlefields: canonicalZone(deck.battlefields),
+      sideDeck: canonicalZone(deck.sideDeck)
+    },
+    unresolved
+  };
+};
@@ -0,0 +1,44 @@
+/**
+ * REST endpoints for deckbuilding that don't need a saved deck. Mounted at
+ * `/api/decks`; the GraphQL `validateDecklist` query answers the same
+ * question through `validateDecklist` in deck-validation.ts.
+ */
+import express, { Request, Response, Router } from 'express';
+import logger from './logger';
+import { resolveDeckFormat, validateDecklist, type DeckValidationInput } from './deck-validation';
+
+export const deckRouter: Router = express.Router();
+
+/**
+ * Check a decklist against a format without saving it.
+ * POST /api/decks/validate
+ * Body: { deck: { cards | mainDeck, runeDeck?, battlefields?, sideDeck?, championLegend?, championLeader? }, format? }
+ */
+deckRouter.post('/validate', (req: Request, res: Response): void => {
+  const { deck, format } = (req.body ?? {}) as { deck?: DeckValidationInput; format?: unknown };
+  if (!deck || typeof deck !== 'object' || Array.isArray(deck)) {
+    res.status(400).json({ error: 'deck is required' });
+    return;
+  }
+  if (format !== undefined && format !== null && typeof format !== 'string') {
+    res.status(400).json({ error: 'format must be a string' });
+    return;
+  }
+
+  let formatId: string;
+  try {
+    formatId = resolveDeckFormat(format).id;
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+    return;
+  }
+
+  try {
+    res.status(200).json(validateDecklist(deck, formatId));
+  } catch (err) {
+    logger.error('[DECKS] error validating deck', { error: String(err) });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default deckRouter;
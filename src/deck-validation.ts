@@ -0,0 +1,731 @@
+/**
+ * Deck legality: the construction rules a decklist must meet for a format.
+ *
+ * `validateDecklist` never throws on a bad deck; it reports every problem as
+ * a structured violation so deckbuilders can point at the offending card.
+ * Deck saves, matchmaking joins and `/matches/init` all run the same check,
+ * which lets players learn a deck is illegal before they queue rather than
+ * when the engine refuses to set up the match.
+ *
+ * Formats are data (config/deck-formats.json, or the file named by
+ * `DECK_FORMATS_PATH`): construction rules plus dated versions carrying the
+ * legal sets, ban list and per-card copy limits. A format resolves to the
+ * newest version already in effect, so a rotation or ban can be published
+ * ahead of the day it applies.
+ *
+ * Cards are resolved against the catalog the same way the engine hydrates
+ * deck entries (id, then slug, then name), so a deck that validates here is
+ * the deck the engine will build.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { findCardById, findCardByName, findCardBySlug, type EnrichedCardRecord } from './card-catalog';
+import type { Card, DeckCardEntry } from './game-engine';
+import bundledDeckFormats from './config/deck-formats.json';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The construction rules shared by every version of a format. */
+export interface DeckConstructionRules {
+  /** Main deck size bounds. The chosen champion counts toward them. */
+  minDeckSize: number;
+  maxDeckSize: number | null;
+  /** Copies allowed per card name across the main deck and champion. */
+  maxCopies: number | null;
+  runeDeckSize: number | null;
+  battlefieldCount: number | null;
+  maxSideDeckSize: number;
+  /** Require a Champion Legend and a chosen champion that matches it. */
+  requireChampions: boolean;
+  /** Every card must share a domain with the Champion Legend. */
+  domainIdentity: boolean;
+}
+
+/**
+ * One dated revision of a format's card pool. Cards are named by catalog
+ * id, slug or name; sets by the catalog `setName`.
+ */
+export interface DeckFormatVersion {
+  version: string;
+  /** ISO date the version takes over from the previous one. */
+  effectiveFrom: string;
+  /** Null when every set is legal. */
+  legalSets: string[] | null;
+  banned: string[];
+  /** Per-card copy limits that override `maxCopies` (a restricted list). */
+  copyLimits: Record<string, number>;
+}
+
+export interface DeckFormatDefinition {
+  id: string;
+  name: string;
+  rules: DeckConstructionRules;
+  versions: DeckFormatVersion[];
+}
+
+export interface DeckFormatCatalog {
+  /** Deck format each matchmaking queue plays, keyed by match mode. */
+  queues: Record<string, string>;
+  formats: DeckFormatDefinition[];
+}
+
+/** A format as of a date: its rules plus the version then in effect. */
+export interface DeckFormat extends DeckConstructionRules, DeckFormatVersion {
+  id: string;
+  name: string;
+}
+
+export type DeckZone = 'main' | 'rune' | 'battlefield' | 'side' | 'legend' | 'champion';
+
+export type DeckViolationCode =
+  | 'unknown_card'
+  | 'wrong_card_type'
+  | 'deck_size'
+  | 'copy_limit'
+  | 'banned'
+  | 'set_not_legal'
+  | 'rune_deck_size'
+  | 'battlefield_count'
+  | 'duplicate_battlefield'
+  | 'side_deck_size'
+  | 'missing_legend'
+  | 'missing_champion'
+  | 'champion_mismatch'
+  | 'off_domain';
+
+export interface DeckViolation {
+  code: DeckViolationCode;
+  message: string;
+  zone: DeckZone;
+  cardId?: string | null;
+}
+
+export interface DeckValidationResult {
+  legal: boolean;
+  format: string;
+  /** Format version the deck was checked against. */
+  version: string;
+  violations: DeckViolation[];
+}
+
+/**
+ * A deck in either shape the backend passes around: a saved decklist
+ * (`cards`, `sideDeck`) or an engine deck config (`mainDeck`, `sideboard`).
+ */
+export interface DeckValidationInput {
+  cards?: DeckCardEntry[] | null;
+  mainDeck?: DeckCardEntry[] | null;
+  runeDeck?: DeckCardEntry[] | null;
+  battlefields?: DeckCardEntry[] | null;
+  sideDeck?: DeckCardEntry[] | null;
+  sideboard?: DeckCardEntry[] | null;
+  championLegend?: DeckCardEntry | null;
+  championLeader?: DeckCardEntry | null;
+}
+
+/**
+ * Thrown where an illegal deck must stop a request (matchmaking joins,
+ * match setup). Carries the violations so callers can return them.
+ */
+export class IllegalDeckError extends Error {
+  statusCode = 400;
+  violations: DeckViolation[];
+  playerId: string | null;
+  constructor(result: DeckValidationResult, playerId: string | null = null) {
+    const [first] = result.violations;
+    const subject = playerId ? `Deck for player ${playerId}` : 'Deck';
+    super(
+      `${subject} is not legal in ${result.format}: ${first?.message ?? 'unknown violation'}` +
+        (result.violations.length > 1 ? ` (and ${result.violations.length - 1} more)` : '')
+    );
+    this.name = 'IllegalDeckError';
+    this.violations = result.violations;
+    this.playerId = playerId;
+  }
+}
+
+// ============================================================================
+// FORMAT DATA
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0);
+
+const isLimit = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const parseRules = (raw: unknown, where: string): DeckConstructionRules => {
+  if (!isRecord(raw)) {
+    throw new Error(`Invalid deck format data: ${where}.rules must be an object`);
+  }
+  const nullableLimits = ['maxDeckSize', 'maxCopies', 'runeDeckSize', 'battlefieldCount'] as const;
+  const limits = ['minDeckSize', 'maxSideDeckSize'] as const;
+  for (const key of limits) {
+    if (!isLimit(raw[key])) {
+      throw new Error(`Invalid deck format data: ${where}.rules.${key} must be a whole number`);
+    }
+  }
+  for (const key of nullableLimits) {
+    if (raw[key] !== null && !isLimit(raw[key])) {
+      throw new Error(`Invalid deck format data: ${where}.rules.${key} must be a whole number or null`);
+    }
+  }
+  for (const key of ['requireChampions', 'domainIdentity'] as const) {
+    if (typeof raw[key] !== 'boolean') {
+      throw new Error(`Invalid deck format data: ${where}.rules.${key} must be a boolean`);
+    }
+  }
+  return {
+    minDeckSize: raw.minDeckSize as number,
+    maxDeckSize: raw.maxDeckSize as number | null,
+    maxCopies: raw.maxCopies as number | null,
+    runeDeckSize: raw.runeDeckSize as number | null,
+    battlefieldCount: raw.battlefieldCount as number | null,
+    maxSideDeckSize: raw.maxSideDeckSize as number,
+    requireChampions: raw.requireChampions as boolean,
+    domainIdentity: raw.domainIdentity as boolean
+  };
+};
+
+const parseVersion = (raw: unknown, where: string): DeckFormatVersion => {
+  if (!isRecord(raw) || typeof raw.version !== 'string' || !raw.version) {
+    throw new Error(`Invalid deck format data: ${where} needs a version`);
+  }
+  if (typeof raw.effectiveFrom !== 'string' || Number.isNaN(Date.parse(raw.effectiveFrom))) {
+    throw new Error(`Invalid deck format data: ${where}.effectiveFrom must be an ISO date`);
+  }
+  const legalSets = raw.legalSets ?? null;
+  if (legalSets !== null && !isStringList(legalSets)) {
+    throw new Error(`Invalid deck format data: ${where}.legalSets must be a list of set names or null`);
+  }
+  const banned = raw.banned ?? [];
+  if (!isStringList(banned)) {
+    throw new Error(`Invalid deck format data: ${where}.banned must be a list of cards`);
+  }
+  const copyLimits = raw.copyLimits ?? {};
+  if (!isRecord(copyLimits) || !Object.values(copyLimits).every(isLimit)) {
+    throw new Error(`Invalid deck format data: ${where}.copyLimits must map cards to whole numbers`);
+  }
+  return {
+    version: raw.version,
+    effectiveFrom: raw.effectiveFrom,
+    legalSets,
+    banned,
+    copyLimits: copyLimits as Record<string, number>
+  };
+};
+
+/**
+ * Check format data before it is used. Throws naming the first bad field,
+ * so a broken ban-list upload fails at boot rather than mid-match.
+ */
+export const parseDeckFormatCatalog = (raw: unknown): DeckFormatCatalog => {
+  if (!isRecord(raw) || !Array.isArray(raw.formats) || raw.formats.length === 0) {
+    throw new Error('Invalid deck format data: formats must be a non-empty list');
+  }
+  const formats: DeckFormatDefinition[] = [];
+  for (const [index, entry] of raw.formats.entries()) {
+    const where = `formats[${index}]`;
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !entry.id || typeof entry.name !== 'string') {
+      throw new Error(`Invalid deck format data: ${where} needs an id and a name`);
+    }
+    if (formats.some((format) => format.id === entry.id)) {
+      throw new Error(`Invalid deck format data: duplicate format ${entry.id}`);
+    }
+    if (!Array.isArray(entry.versions) || entry.versions.length === 0) {
+      throw new Error(`Invalid deck format data: ${entry.id} needs at least one version`);
+    }
+    const versions = entry.versions.map((version, i) => parseVersion(version, `${entry.id}.versions[${i}]`));
+    if (new Set(versions.map((version) => version.version)).size !== versions.length) {
+      throw new Error(`Invalid deck format data: ${entry.id} repeats a version`);
+    }
+    versions.sort((a, b) => Date.parse(a.effectiveFrom) - Date.parse(b.effectiveFrom));
+    formats.push({ id: entry.id, name: entry.name, rules: parseRules(entry.rules, entry.id), versions });
+  }
+  const queues = raw.queues ?? {};
+  if (!isRecord(queues)) {
+    throw new Error('Invalid deck format data: queues must map match modes to formats');
+  }
+  for (const [mode, formatId] of Object.entries(queues)) {
+    if (!formats.some((format) => format.id === formatId)) {
+      throw new Error(`Invalid deck format data: queue ${mode} uses unknown format ${String(formatId)}`);
+    }
+  }
+  return { queues: queues as Record<string, string>, formats };
+};
+
+let activeCatalog: DeckFormatCatalog | null = null;
+
+/** The format data in use, loaded and checked on first call. */
+export const getDeckFormatCatalog = (): DeckFormatCatalog => {
+  if (!activeCatalog) {
+    const overridePath = process.env.DECK_FORMATS_PATH;
+    const raw: unknown = overridePath
+      ? JSON.parse(fs.readFileSync(path.resolve(process.cwd(), overridePath), 'utf-8'))
+      : bundledDeckFormats;
+    activeCatalog = parseDeckFormatCatalog(raw);
+  }
+  return activeCatalog;
+};
+
+/** Swap in new format data (checked first); null reloads from disk. */
+export const setDeckFormatCatalog = (raw: unknown): DeckFormatCatalog | null => {
+  activeCatalog = raw === null || raw === undefined ? null : parseDeckFormatCatalog(raw);
+  return activeCatalog;
+};
+
+// ============================================================================
+// FORMAT RESOLUTION
+// ============================================================================
+
+const toTime = (at: Date | number | string): number =>
+  at instanceof Date ? at.getTime() : typeof at === 'number' ? at : Date.parse(at);
+
+const versionInEffect = (definition: DeckFormatDefinition, at: number): DeckFormatVersion | null => {
+  let current: DeckFormatVersion | null = null;
+  for (const version of definition.versions) {
+    if (Date.parse(version.effectiveFrom) <= at) {
+      current = version;
+    }
+  }
+  return current;
+};
+
+/**
+ * Resolve a format id to the version in effect at `at` (default: now).
+ * Throws on unknown ids and on formats whose first version hasn't started.
+ */
+export const resolveDeckFormat = (
+  requested?: string | null,
+  at: Date | number | string = Date.now()
+): DeckFormat => {
+  const id = requested ?? 'standard';
+  const definition = getDeckFormatCatalog().formats.find((format) => format.id === id);
+  if (!definition) {
+    throw new Error(`Unknown deck format: ${id}`);
+  }
+  const version = versionInEffect(definition, toTime(at));
+  if (!version) {
+    throw new Error(`Deck format ${id} is not in effect yet`);
+  }
+  return { id: definition.id, name: definition.name, ...definition.rules, ...version };
+};
+
+/** Every format with a version in effect at `at`. */
+export const listDeckFormats = (at: Date | number | string = Date.now()): DeckFormat[] =>
+  getDeckFormatCatalog()
+    .formats.filter((definition) => versionInEffect(definition, toTime(at)))
+    .map((definition) => resolveDeckFormat(definition.id, at));
+
+/** The deck format a matchmaking queue plays; standard when unconfigured. */
+export const getQueueDeckFormat = (mode: string): string => getDeckFormatCatalog().queues[mode] ?? 'standard';
+
+/**
+ * The deck format a match is played in. Matches pick their deck format
+ * through their rule profile; a custom profile id falls back to standard.
+ */
+export const deckFormatForRuleProfile = (profile?: { id: string } | null): string =>
+  profile && getDeckFormatCatalog().formats.some((format) => format.id === profile.id) ? profile.id : 'standard';
+
+// ============================================================================
+// CARD RESOLUTION
+// ============================================================================
+
+type CardKind = 'unit' | 'spell' | 'gear' | 'rune' | 'battlefield' | 'legend';
+
+interface ResolvedDeckCard {
+  id: string;
+  slug: string | null;
+  name: string;
+  setName: string | null;
+  kind: CardKind | null;
+  domains: string[];
+  tags: string[];
+}
+
+const DOMAINS = new Set(['fury', 'calm', 'mind', 'body', 'chaos', 'order']);
+
+const toKind = (type: string | null | undefined, tags: string[]): CardKind | null => {
+  if (tags.some((tag) => tag.toLowerCase() === 'battlefield')) {
+    return 'battlefield';
+  }
+  switch ((type ?? '').toLowerCase()) {
+    case 'unit':
+    case 'creature':
+    case 'champion':
+      return 'unit';
+    case 'spell':
+      return 'spell';
+    case 'gear':
+    case 'artifact':
+    case 'equipment':
+    case 'enchantment':
+      return 'gear';
+    case 'rune':
+      return 'rune';
+    case 'battlefield':
+    case 'field':
+      return 'battlefield';
+    case 'legend':
+      return 'legend';
+    default:
+      return null;
+  }
+};
+
+const toDomains = (values: Array<string | null | undefined>): string[] =>
+  Array.from(new Set(values.map((value) => (value ?? '').toLowerCase()).filter((value) => DOMAINS.has(value))));
+
+const fromRecord = (record: EnrichedCardRecord): ResolvedDeckCard => ({
+  id: record.id,
+  slug: record.slug ?? null,
+  name: record.name,
+  setName: record.setName ?? null,
+  kind: toKind(record.type, record.tags ?? []),
+  domains: toDomains(record.colors ?? []),
+  tags: record.tags ?? []
+});
+
+const fromCard = (card: Card): ResolvedDeckCard => {
+  const tags = Array.isArray(card.tags) ? card.tags : [];
+  return {
+    id: card.id,
+    slug: card.slug ?? null,
+    name: card.name,
+    setName: null,
+    kind: toKind(card.type, tags),
+    domains: toDomains([card.domain, ...(Array.isArray(card.colors) ? card.colors : [])]),
+    tags
+  };
+};
+
+const lookup = (identifier: string): EnrichedCardRecord | null =>
+  findCardById(identifier) ?? findCardBySlug(identifier) ?? findCardByName(identifier) ?? null;
+
+interface ResolvedEntry {
+  card: ResolvedDeckCard | null;
+  /** Best identifier to report when the card can't be resolved. */
+  ref: string | null;
+  quantity: number;
+}
+
+/** Full card objects, including the rune objects engine rune decks accept. */
+const isCardObject = (entry: object): entry is Card =>
+  'type' in entry || ('id' in entry && 'name' in entry && !('quantity' in entry));
+
+/**
+ * Resolve one entry the way the engine's deck hydration does: catalog
+ * records win, a full card object stands for itself, and a reference that
+ * matches nothing is unknown.
+ */
+const resolveEntry = (entry: DeckCardEntry): ResolvedEntry => {
+  if (typeof entry === 'string') {
+    const record = lookup(entry);
+    return { card: record ? fromRecord(record) : null, ref: entry, quantity: 1 };
+  }
+  if (!entry || typeof entry !== 'object') {
+    return { card: null, ref: null, quantity: 1 };
+  }
+  if (isCardObject(entry)) {
+    const card = entry;
+    const candidates = [(card as { cardId?: string }).cardId, card.id, card.slug].filter(Boolean) as string[];
+    for (const candidate of candidates) {
+      const record = lookup(candidate);
+      if (record) {
+        return { card: fromRecord(record), ref: record.id, quantity: 1 };
+      }
+    }
+    return { card: fromCard(card), ref: card.id ?? null, quantity: 1 };
+  }
+  const snapshot = (entry as { cardSnapshot?: { cardId?: string; slug?: string; name?: string } | null })
+    .cardSnapshot;
+  const candidates = [entry.cardId, entry.slug, snapshot?.cardId, snapshot?.slug, snapshot?.name].filter(
+    Boolean
+  ) as string[];
+  const quantity = Math.max(1, Math.floor(entry.quantity ?? 1));
+  for (const candidate of candidates) {
+    const record = lookup(candidate);
+    if (record) {
+      return { card: fromRecord(record), ref: record.id, quantity };
+    }
+  }
+  return { card: null, ref: candidates[0] ?? null, quantity };
+};
+
+/** "Jinx, Loose Cannon" -> "jinx". */
+const championName = (name: string): string => name.split(/,| - /)[0]!.trim().toLowerCase();
+
+const championMatchesLegend = (champion: ResolvedDeckCard, legend: ResolvedDeckCard): boolean => {
+  const name = championName(champion.name);
+  if (name === championName(legend.name)) {
+    return true;
+  }
+  return legend.tags.some((tag) => tag.toLowerCase() === name);
+};
+
+// ============================================================================
+// CARD POOL
+// ============================================================================
+
+/** True when a ban or copy-limit entry names this card by id, slug or name. */
+const namesCard = (ref: string, card: { id: string; slug?: string | null; name: string }): boolean => {
+  const key = ref.trim().toLowerCase();
+  return [card.id, card.slug, card.name].some((value) => value?.toLowerCase() === key);
+};
+
+const isBanned = (card: ResolvedDeckCard | EnrichedCardRecord, format: DeckFormat): boolean =>
+  format.banned.some((ref) => namesCard(ref, card));
+
+/** Cards whose set the catalog doesn't know are given the benefit of the doubt. */
+const isSetLegal = (setName: string | null | undefined, format: DeckFormat): boolean =>
+  format.legalSets === null ||
+  !setName ||
+  format.legalSets.some((legal) => legal.toLowerCase() === setName.toLowerCase());
+
+const copyLimitFor = (card: ResolvedDeckCard, format: DeckFormat): number | null => {
+  const override = Object.entries(format.copyLimits).find(([ref]) => namesCard(ref, card));
+  return override ? override[1] : format.maxCopies;
+};
+
+/**
+ * The copy limit for a card known only by its catalog id or slug, for
+ * callers that check counts without resolving cards (series sideboarding).
+ */
+export const copyLimitForCardRef = (ref: string, format: DeckFormat): number | null => {
+  const key = ref.trim().toLowerCase();
+  const override = Object.entries(format.copyLimits).find(([name]) => name.trim().toLowerCase() === key);
+  return override ? override[1] : format.maxCopies;
+};
+
+/** Whether a catalog card may be played in a format: not banned, from a legal set. */
+export const isCardLegalInFormat = (record: EnrichedCardRecord, format: DeckFormat): boolean =>
+  !isBanned(record, format) && isSetLegal(record.setName, format);
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const ZONE_KINDS: Record<Exclude<DeckZone, 'side'>, CardKind[]> = {
+  main: ['unit', 'spell', 'gear'],
+  rune: ['rune'],
+  battlefield: ['battlefield'],
+  legend: ['legend'],
+  champion: ['unit']
+};
+
+const ZONE_LABELS: Record<DeckZone, string> = {
+  main: 'main deck',
+  rune: 'rune deck',
+  battlefield: 'battlefields',
+  side: 'side deck',
+  legend: 'Champion Legend slot',
+  champion: 'chosen champion slot'
+};
+
+/**
+ * Check a deck against a format as of `at` (default: now). Returns every
+ * violation found; `legal` is true only when there are none. Throws only
+ * for a format that is unknown or not yet in effect.
+ */
+export const validateDecklist = (
+  deck: DeckValidationInput,
+  format?: string | null,
+  at: Date | number | string = Date.now()
+): DeckValidationResult => {
+  const rules = resolveDeckFormat(format, at);
+  const violations: DeckViolation[] = [];
+  const add = (violation: DeckViolation) => violations.push(violation);
+
+  const resolveZone = (zone: DeckZone, entries: DeckCardEntry[] | null | undefined) => {
+    const resolved: Array<{ card: ResolvedDeckCard; quantity: number }> = [];
+    let count = 0;
+    for (const entry of entries ?? []) {
+      const { card, ref, quantity } = resolveEntry(entry);
+      count += quantity;
+      if (!card) {
+        add({
+          code: 'unknown_card',
+          message: `Unknown card ${ref ?? '(missing reference)'} in the ${ZONE_LABELS[zone]}`,
+          zone,
+          cardId: ref
+        });
+        continue;
+      }
+      if (zone !== 'side' && card.kind && !ZONE_KINDS[zone].includes(card.kind)) {
+        add({
+          code: 'wrong_card_type',
+          message: `${card.name} (${card.kind}) cannot go in the ${ZONE_LABELS[zone]}`,
+          zone,
+          cardId: card.id
+        });
+      }
+      resolved.push({ card, quantity });
+    }
+    return { resolved, count };
+  };
+
+  const main = resolveZone('main', deck.mainDeck ?? deck.cards);
+  const runes = resolveZone('rune', deck.runeDeck);
+  const battlefields = resolveZone('battlefield', deck.battlefields);
+  const side = resolveZone('side', deck.sideDeck ?? deck.sideboard);
+  const legend = resolveZone('legend', deck.championLegend ? [deck.championLegend] : []).resolved[0]?.card ?? null;
+  const champion = resolveZone('champion', deck.championLeader ? [deck.championLeader] : []).resolved[0]?.card ?? null;
+
+  // Size limits
+  const deckSize = main.count + (deck.championLeader ? 1 : 0);
+  if (deckSize < rules.minDeckSize || (rules.maxDeckSize !== null && deckSize > rules.maxDeckSize)) {
+    const required =
+      rules.maxDeckSize === rules.minDeckSize
+        ? `${rules.minDeckSize}`
+        : rules.maxDeckSize === null
+          ? `at least ${rules.minDeckSize}`
+          : `${rules.minDeckSize}-${rules.maxDeckSize}`;
+    add({
+      code: 'deck_size',
+      message: `Main deck must have ${required} cards including the chosen champion (has ${deckSize})`,
+      zone: 'main'
+    });
+  }
+  if (rules.runeDeckSize !== null && runes.count !== rules.runeDeckSize) {
+    add({
+      code: 'rune_deck_size',
+      message: `Rune deck must have ${rules.runeDeckSize} runes (has ${runes.count})`,
+      zone: 'rune'
+    });
+  }
+  if (rules.battlefieldCount !== null && battlefields.count !== rules.battlefieldCount) {
+    add({
+      code: 'battlefield_count',
+      message: `Deck must bring ${rules.battlefieldCount} battlefields (has ${battlefields.count})`,
+      zone: 'battlefield'
+    });
+  }
+  if (side.count > rules.maxSideDeckSize) {
+    add({
+      code: 'side_deck_size',
+      message: `Side deck cannot have more than ${rules.maxSideDeckSize} cards (has ${side.count})`,
+      zone: 'side'
+    });
+  }
+
+  // Copies, by card name so alternate printings share a limit
+  const copies = new Map<string, { card: ResolvedDeckCard; count: number }>();
+  const countable = champion ? [...main.resolved, { card: champion, quantity: 1 }] : main.resolved;
+  for (const { card, quantity } of countable) {
+    const key = card.name.toLowerCase();
+    const current = copies.get(key) ?? { card, count: 0 };
+    current.count += quantity;
+    copies.set(key, current);
+  }
+  for (const { card, count } of copies.values()) {
+    const limit = copyLimitFor(card, rules);
+    if (limit !== null && count > limit) {
+      add({
+        code: 'copy_limit',
+        message: `${card.name} appears ${count} times (limit ${limit})`,
+        zone: 'main',
+        cardId: card.id
+      });
+    }
+  }
+
+  // Card pool: bans and set legality, reported once per card per zone
+  const pool: Array<[DeckZone, ResolvedDeckCard[]]> = [
+    ['legend', legend ? [legend] : []],
+    ['champion', champion ? [champion] : []],
+    ['main', main.resolved.map(({ card }) => card)],
+    ['rune', runes.resolved.map(({ card }) => card)],
+    ['battlefield', battlefields.resolved.map(({ card }) => card)],
+    ['side', side.resolved.map(({ card }) => card)]
+  ];
+  for (const [zone, cards] of pool) {
+    const reported = new Set<string>();
+    for (const card of cards) {
+      if (reported.has(card.id)) {
+        continue;
+      }
+      if (isBanned(card, rules)) {
+        reported.add(card.id);
+        add({
+          code: 'banned',
+          message: `${card.name} is banned in ${rules.name} (${rules.version})`,
+          zone,
+          cardId: card.id
+        });
+      } else if (!isSetLegal(card.setName, rules)) {
+        reported.add(card.id);
+        add({
+          code: 'set_not_legal',
+          message: `${card.name} is from ${card.setName}, which is not legal in ${rules.name} (${rules.version})`,
+          zone,
+          cardId: card.id
+        });
+      }
+    }
+  }
+
+  const seenBattlefields = new Set<string>();
+  for (const { card, quantity } of battlefields.resolved) {
+    const key = card.name.toLowerCase();
+    if (seenBattlefields.has(key) || quantity > 1) {
+      add({
+        code: 'duplicate_battlefield',
+        message: `Battlefield ${card.name} is included more than once`,
+        zone: 'battlefield',
+        cardId: card.id
+      });
+    }
+    seenBattlefields.add(key);
+  }
+
+  // Champions
+  if (rules.requireChampions) {
+    if (!deck.championLegend) {
+      add({ code: 'missing_legend', message: 'Deck must include a Champion Legend', zone: 'legend' });
+    }
+    if (!deck.championLeader) {
+      add({ code: 'missing_champion', message: 'Deck must include a chosen champion', zone: 'champion' });
+    }
+  }
+  if (legend && champion && legend.kind === 'legend' && !championMatchesLegend(champion, legend)) {
+    add({
+      code: 'champion_mismatch',
+      message: `${champion.name} is not a champion of ${legend.name}`,
+      zone: 'champion',
+      cardId: champion.id
+    });
+  }
+
+  // Domain identity: domainless cards are rainbow and always allowed
+  if (rules.domainIdentity && legend && legend.domains.length > 0) {
+    const allowed = new Set(legend.domains);
+    const checkZone = (zone: DeckZone, cards: ResolvedDeckCard[]) => {
+      const reported = new Set<string>();
+      for (const card of cards) {
+        if (card.domains.length === 0 || card.domains.some((domain) => allowed.has(domain)) || reported.has(card.id)) {
+          continue;
+        }
+        reported.add(card.id);
+        add({
+          code: 'off_domain',
+          message: `${card.name} (${card.domains.join(', ')}) does not share a domain with ${legend.name} (${legend.domains.join(', ')})`,
+          zone,
+          cardId: card.id
+        });
+      }
+    };
+    checkZone('main', main.resolved.map(({ card }) => card));
+    checkZone('rune', runes.resolved.map(({ card }) => card));
+    checkZone('side', side.resolved.map(({ card }) => card));
+    if (champion) {
+      checkZone('champion', [champion]);
+    }
+  }
+
+  return { legal: violations.length === 0, format: rules.id, version: rules.version, violations };
+};
@@ -157,7 +157,7 @@ interface ScoringCtxShape {
   turnState?: { turnNumber?: number };
 }
 
-function parseScoreAmountFromText(text: string): number | null {
+export function parseScoreAmountFromText(text: string): number | null {
   if (!text) return null;
   // "score N point(s)" / "you score N point(s)" covers both card text variants.
   const match = /score\s+(\d+)\s+point/i.exec(text);
@@ -229,7 +229,7 @@ export const scoringHandler: OpHandler<{ type: 'scoring' }> = {
     const triggered: TriggerFire[] = [];
     const log: LogEntry[] = [];
 
-    // Engine adapter path: mutate caster.victoryPoints on the live engine.
+    // Engine adapter path: points from card text are support points.
     // Parse "score N point(s)" from source text (rule 13.5 allows any numeric
     // specification in the card text to override the marker op); fall back to
     // magnitudeHint, then op.amount. Marker-only ops (no text, no
@@ -241,7 +241,7 @@ export const scoringHandler: OpHandler<{ type: 'scoring' }> = {
         (typeof operation.magnitudeHint === 'number' ? operation.magnitudeHint : undefined) ??
         (typeof op.amount === 'number' ? op.amount : undefined);
       if (resolvedAmount && resolvedAmount > 0) {
-        ctx.caster.victoryPoints = (ctx.caster.victoryPoints ?? 0) + resolvedAmount;
+        ctx.engine.awardVictoryPoints(ctx.caster, resolvedAmount, 'support', source?.instanceId ?? source?.id);
         ctx.engine.logRuleUsage?.(source as never, 'scoring');
       }
       return emptyResult();
@@ -436,6 +436,19 @@ export const playRestrictionHandler: OpHandler<{ type: 'play_restriction' }> = {
   op: 'play_restriction',
   execute(ctx, _op, source): OpResult {
     const op = _op as unknown as PlayRestrictionOp;
+
+    // Adapter path: the engine's restriction registry reads the "can't"
+    // clauses off the card text and enforces them in its legality checks.
+    if (ctx.engine?.registerRestrictions) {
+      const target = ctx.operationContext?.boardTarget;
+      const registered = ctx.engine.registerRestrictions(source, ctx.caster, target);
+      return {
+        patches: [],
+        triggeredAbilities: [],
+        log: [{ tick: 0, kind: 'play_restriction_registered', payload: { count: registered.length } }]
+      };
+    }
+
     const sourceInstanceId =
       op.source ??
       (source as unknown as { instanceId?: string })?.instanceId ??
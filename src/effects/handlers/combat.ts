@@ -332,7 +332,7 @@ export const shieldHandler: OpHandler<{ type: 'shield' }> = {
       for (const target of shieldTargets) {
         if (target.type !== CardType.CREATURE) continue;
         ctx.engine.applyTemporaryEffect(target.instanceId, {
-          id: `shield_${Date.now()}_${target.instanceId}`,
+          id: `shield_${ctx.engine.now?.() ?? Date.now()}_${target.instanceId}`,
           affectedCards: [target.instanceId],
           // Rule 417.5: shields expire at the end of the current turn; the
           // begin-turn tick in resolveTemporaryEffects decrements and clears.
@@ -98,7 +98,7 @@ export const modifyStatsHandler: OpHandler<{ type: 'modify_stats' }> = {
     for (const target of targets) {
       const value = operation.targetHint === 'enemy' ? -Math.abs(amount) : Math.abs(amount);
       ctx.engine.applyTemporaryEffect(target.instanceId, {
-        id: `mod_${Date.now()}_${target.instanceId}`,
+        id: `mod_${ctx.engine.now?.() ?? Date.now()}_${target.instanceId}`,
         affectedCards: [target.instanceId],
         duration: 1,
         effect: {
@@ -226,7 +226,7 @@ export const combatBonusHandler: OpHandler<{ type: 'combat_bonus' }> = {
     for (const target of targets) {
       const value = operation.targetHint === 'enemy' ? -Math.abs(amount) : Math.abs(amount);
       ctx.engine.applyTemporaryEffect(target.instanceId, {
-        id: `combat_bonus_${Date.now()}_${target.instanceId}`,
+        id: `combat_bonus_${ctx.engine.now?.() ?? Date.now()}_${target.instanceId}`,
         affectedCards: [target.instanceId],
         duration: 1,
         effect: {
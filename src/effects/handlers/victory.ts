@@ -0,0 +1,195 @@
+import type { EffectOperation } from '../../card-catalog';
+import type { BoardCard, WinConditionKind } from '../../game-engine';
+import type { EngineCtx, OpHandler, OpResult, Patch } from '../types';
+import { emptyResult, logOnlyResult } from '../types';
+import { parseScoreAmountFromText } from './battlefield';
+
+// ---------------------------------------------------------------------------
+// support_scoring - victory points from a card effect rather than from
+// conquering or holding a battlefield.
+// ---------------------------------------------------------------------------
+
+interface SupportScoringOp {
+  type: 'support_scoring';
+  player?: string;
+  amount?: number;
+}
+
+/** Instance id when the source is on the board, so the engine can name it. */
+const sourceCardRef = (source: { id?: string; instanceId?: string } | undefined): string | undefined =>
+  source?.instanceId ?? source?.id;
+
+interface PatchCtxShape {
+  players?: Array<{ playerId: string; points?: number; victoryPoints?: number }>;
+}
+
+/**
+ * Adapter path awards through the engine, which logs the points and ends
+ * the match with reason `support` once they reach the victory score. Patch
+ * path increments both point fields like `scoring` does.
+ */
+export const supportScoringHandler: OpHandler<{ type: 'support_scoring' }> = {
+  op: 'support_scoring',
+  execute(ctx: EngineCtx, _op, source): OpResult {
+    const op = _op as unknown as SupportScoringOp;
+    const operation = _op as unknown as EffectOperation;
+    const amount =
+      (typeof op.amount === 'number' ? op.amount : undefined) ??
+      (typeof operation.magnitudeHint === 'number' ? operation.magnitudeHint : undefined) ??
+      parseScoreAmountFromText(source?.text ?? '') ??
+      1;
+    if (amount <= 0) return emptyResult();
+
+    if (ctx.engine && typeof ctx.engine.awardVictoryPoints === 'function' && ctx.caster) {
+      ctx.engine.awardVictoryPoints(ctx.caster, amount, 'support', sourceCardRef(source));
+      return emptyResult();
+    }
+
+    const shape = ctx as unknown as PatchCtxShape;
+    const player = op.player ?? 'p1';
+    const idx = (shape.players ?? []).findIndex((p) => p.playerId === player);
+    if (idx < 0) return emptyResult();
+    const current = shape.players![idx]!;
+    const points = current.points ?? 0;
+    const patches: Patch[] = [
+      { op: 'replace', path: `/players/${idx}/points`, value: points + amount },
+      {
+        op: 'replace',
+        path: `/players/${idx}/victoryPoints`,
+        value: (current.victoryPoints ?? points) + amount
+      }
+    ];
+    return {
+      patches,
+      triggeredAbilities: [],
+      log: [{ tick: 0, kind: 'support_scoring', payload: { player, amount } }]
+    };
+  }
+};
+
+// ---------------------------------------------------------------------------
+// win_game - "you win the game".
+// ---------------------------------------------------------------------------
+
+interface WinGameOp {
+  type: 'win_game';
+  player?: string;
+  condition?: { kind: WinConditionKind; threshold: number; battlefieldId?: string | null };
+}
+
+type ParsedWinCondition = NonNullable<WinGameOp['condition']> & { here?: boolean };
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10
+};
+
+const parseCount = (token: string): number | null => {
+  const n = /^\d+$/.test(token) ? parseInt(token, 10) : NUMBER_WORDS[token.toLowerCase()];
+  return n && n > 0 ? n : null;
+};
+
+// "You win the game", not "opponents can't win the game", "an opponent wins
+// the game" or "you can't win the game".
+const YOU_WIN_THE_GAME = /\byou win the game\b/i;
+
+/**
+ * Read the clause that wins the game. Returns null when the win is
+ * unconditional and 'unsupported' for a condition we can't check, or for
+ * text where the winner isn't "you" or the win is negated, so such cards
+ * do nothing rather than win on the spot. Timing words ("when you play
+ * me") are the trigger's business, not a condition. A source with no text
+ * is a scripted op and wins outright.
+ */
+function parseWinCondition(text: string): ParsedWinCondition | 'unsupported' | null {
+  if (!text.trim()) {
+    return null;
+  }
+  const clause = text.split(/(?<=[.!])\s+/).find((sentence) => YOU_WIN_THE_GAME.test(sentence));
+  if (!clause) {
+    return 'unsupported';
+  }
+  if (!/\b(if|while|unless|as long as)\b/i.test(clause)) {
+    return null;
+  }
+  const units = /\b(\d+|\w+) (?:or more )?(?:friendly )?units (here|at a battlefield|at one battlefield)\b/i.exec(
+    clause
+  );
+  if (units) {
+    const threshold = parseCount(units[1]!);
+    if (!threshold) return 'unsupported';
+    return { kind: 'units_at_battlefield', threshold, here: units[2]!.toLowerCase() === 'here' };
+  }
+  const battlefields = /\bcontrol (\d+|\w+) battlefields\b/i.exec(clause);
+  if (battlefields) {
+    const threshold = parseCount(battlefields[1]!);
+    return threshold ? { kind: 'control_battlefields', threshold } : 'unsupported';
+  }
+  return 'unsupported';
+}
+
+/**
+ * Unconditional text ends the match with reason `instant_win`. Text that
+ * names a condition registers it with the engine instead, and the state
+ * checks after each command end the match with reason `win_condition` once
+ * it holds. "Here" pins the condition to the battlefield the source sits
+ * at, or the one the effect targets.
+ */
+export const winGameHandler: OpHandler<{ type: 'win_game' }> = {
+  op: 'win_game',
+  execute(ctx: EngineCtx, _op, source): OpResult {
+    const op = _op as unknown as WinGameOp;
+    const parsed: ParsedWinCondition | 'unsupported' | null =
+      op.condition ?? parseWinCondition(source?.text ?? '');
+    if (parsed === 'unsupported') {
+      return logOnlyResult('win_game_condition_unsupported', { source: source?.id ?? null });
+    }
+
+    const boardSource = source as Partial<BoardCard> | undefined;
+    let condition: WinGameOp['condition'] | null = null;
+    if (parsed) {
+      const { here, ...rest } = parsed;
+      condition = rest;
+      if (here) {
+        const location = boardSource?.location;
+        const battlefieldId =
+          (location?.zone === 'battlefield' ? location.battlefieldId : undefined) ??
+          ctx.operationContext?.battlefieldTarget?.battlefieldId;
+        if (!battlefieldId) {
+          return logOnlyResult('win_game_condition_unsupported', { source: source?.id ?? null });
+        }
+        condition.battlefieldId = battlefieldId;
+      }
+    }
+
+    if (ctx.engine && typeof ctx.engine.winGame === 'function' && ctx.caster) {
+      if (!condition) {
+        ctx.engine.winGame(ctx.caster, sourceCardRef(source));
+        return emptyResult();
+      }
+      const onBoard = Boolean(boardSource?.instanceId && ctx.engine.findCardInstance(boardSource.instanceId));
+      ctx.engine.addWinCondition({
+        ...condition,
+        playerId: ctx.caster.playerId,
+        duration: onBoard ? 'while_source_on_board' : 'permanent',
+        sourceInstanceId: onBoard ? boardSource!.instanceId : null,
+        sourceCardId: source?.id ?? null,
+        sourceName: source?.name ?? null
+      });
+      return emptyResult();
+    }
+
+    const player = op.player ?? 'p1';
+    return condition
+      ? logOnlyResult('win_condition_registered', { player, condition })
+      : logOnlyResult('win_game', { player });
+  }
+};
@@ -107,6 +107,7 @@ interface RemovePermanentOp {
   type: 'remove_permanent';
   target?: string;
   mode?: 'kill' | 'banish' | 'return_to_hand';
+  returnAt?: 'end_of_turn';
 }
 
 export const removePermanentHandler: OpHandler<{ type: 'remove_permanent' }> = {
@@ -210,8 +211,11 @@ export const removePermanentHandler: OpHandler<{ type: 'remove_permanent' }> = {
       return { patches, triggeredAbilities: triggered, log };
     }
 
-    // Adapter path: legacy behavior (damage-to-toughness routes through
-    // the kill/deathknell pipeline).
+    // Adapter path. The catalog sets the op's mode from its removal clause
+    // (extractRemovalFromEffect); kills keep the legacy damage-to-toughness
+    // route through the kill/deathknell pipeline.
+    const mode = op.mode ?? 'kill';
+    const returnAt = mode === 'banish' ? op.returnAt : undefined;
     const targets = resolveBoardTargets(ctx);
     if (targets.length === 0 && ctx.operationContext?.boardTarget) {
       // Re-validate the fallback boardTarget via findCardInstance so a
@@ -233,6 +237,10 @@ export const removePermanentHandler: OpHandler<{ type: 'remove_permanent' }> = {
       // boardTarget. damageCreature rejects non-creature targets with a
       // throw; skip gear so sibling attach/equip ops still resolve. Units
       // still route through the damage-to-toughness pipeline as before.
+      if (mode === 'banish' && ctx.engine.banishCard) {
+        ctx.engine.banishCard(target.instanceId, { source, returnAt });
+        continue;
+      }
       if (target.type !== CardType.CREATURE) continue;
       // Re-validate per-target: a prior iteration's damageCreature call
       // can chain into deathknell triggers that in turn kill later targets
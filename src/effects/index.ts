@@ -72,6 +72,7 @@ import {
   costIncreaseHandler,
   targetingDiscountHandler
 } from './handlers/costs';
+import { supportScoringHandler, winGameHandler } from './handlers/victory';
 import { genericHandler, abilityCopyHandler } from './handlers/misc';
 import { transformHandler } from './handlers/transform';
 
@@ -89,9 +90,9 @@ export {
 export * from './types';
 
 /**
- * Builds the registry with the 56-op set (Phase 2 top-24 + Phase 3
+ * Builds the registry with the 58-op set (Phase 2 top-24 + Phase 3
  * long-tail 30 + Phase 7 rune_resource defense-in-depth + Phase 8a
- * `transform`). Call once at engine boot. Ops outside this list fail
+ * `transform` + `win_game` and `support_scoring`). Call once at engine boot. Ops outside this list fail
  * soft via the dispatcher (warn + empty OpResult).
  */
 export function buildDefaultRegistry(): OpHandlerRegistry {
@@ -158,7 +159,10 @@ export function buildDefaultRegistry(): OpHandlerRegistry {
     adjustMulliganHandler,
     // Phase 8a: covers UNL-081 "Keeper of Masks" "become copies of me"
     // (docs/effect-ops-frequency-phase7.csv line 56, count=1).
-    transformHandler
+    transformHandler,
+    // Alternate wins: "you win the game" text and points from card effects.
+    winGameHandler,
+    supportScoringHandler
   ] as unknown as OpHandler<EffectOp>[];
   registry.registerAll(handlers);
   return registry;
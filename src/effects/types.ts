@@ -11,7 +11,12 @@ import type {
   Card,
   BoardCard,
   BattlefieldState,
-  PlayerState
+  PlayerState,
+  Restriction,
+  ScoreReason,
+  WinCondition,
+  WinConditionInput,
+  WinConditionKind
 } from '../game-engine';
 import type { EffectOperation } from '../card-catalog';
 
@@ -55,6 +60,16 @@ export type RiftboundOp =
       reason: 'conquer' | 'hold' | 'effect';
       amount?: number;
     }
+  | {
+      type: 'support_scoring';
+      player?: PlayerId;
+      amount?: number;
+    }
+  | {
+      type: 'win_game';
+      player?: PlayerId;
+      condition?: { kind: WinConditionKind; threshold: number; battlefieldId?: BattlefieldId | null };
+    }
   | {
       type: 'attach_gear';
       gearInstance?: InstanceId;
@@ -219,6 +234,11 @@ export interface EngineAdapter {
     battlefield: BattlefieldState
   ): void;
   moveUnitToBase(owner: PlayerState, unit: BoardCard): void;
+  banishCard(
+    instanceId: string,
+    options?: { source?: Card; returnAt?: 'end_of_turn' }
+  ): boolean;
+  registerRestrictions(source: Card, controller: PlayerState, target?: BoardCard): Restriction[];
   openPriorityWindow(
     type: 'main' | 'reaction' | 'showdown' | 'combat',
     holder: string,
@@ -232,6 +252,14 @@ export interface EngineAdapter {
     tone: 'info' | 'success' | 'warning' | 'error';
   }): void;
   resolvePlayerName(playerId: string): string | null;
+  /** Scores, logs, and ends the match once the player reaches their victory score. */
+  awardVictoryPoints(player: PlayerState, amount: number, reason: ScoreReason, sourceCardId?: string): void;
+  /** Ends the match in the player's favour ("you win the game"). */
+  winGame(player: PlayerState, sourceCardId?: string): void;
+  /** Registers a condition the engine checks after every command. */
+  addWinCondition(input: WinConditionInput): WinCondition;
+  /** Engine clock; pinned for the length of a command so replays match. */
+  now?(): number;
 }
 
 /**
@@ -31,6 +31,7 @@ import {
   summarizeChampionCost
 } from './champion-utils';
 import logger from './logger';
+import { RULE_PROFILES, RuleProfile, RuleProfileId, resolveRuleProfile } from './rule-profiles';
 import {
   buildDefaultRegistry,
   filterCatalogRuneResourceOps,
@@ -72,14 +73,20 @@ export interface Rng {
   next(): number;
   nextInt(minInclusive: number, maxExclusive: number): number;
   seed: number | string;
+  /** Current position in the stream; pass back to createRng to resume. */
+  getState?(): number;
 }
 
 /**
  * mulberry32. Accepts a number or string seed; strings are hashed
  * (FNV-1a 32) so callers can pass human-readable seeds like "match-1".
+ * `resumeState` continues a stream saved with `getState()`.
  */
-export function createRng(seed: number | string): Rng {
-  let a = (typeof seed === 'number' ? seed : hashSeedString(seed)) >>> 0;
+export function createRng(seed: number | string, resumeState?: number): Rng {
+  let a =
+    resumeState !== undefined
+      ? resumeState >>> 0
+      : (typeof seed === 'number' ? seed : hashSeedString(seed)) >>> 0;
   const next = (): number => {
     a = (a + 0x6d2b79f5) >>> 0;
     let t = a;
@@ -91,7 +98,7 @@ export function createRng(seed: number | string): Rng {
     if (maxExclusive <= minInclusive) return minInclusive;
     return minInclusive + Math.floor(next() * (maxExclusive - minInclusive));
   };
-  return { next, nextInt, seed };
+  return { next, nextInt, seed, getState: () => a };
 }
 
 function hashSeedString(s: string): number {
@@ -105,6 +112,60 @@ function hashSeedString(s: string): number {
 
 export interface EngineOptions {
   rng?: Rng;
+  /** Matchmaking queue the match came from; unset for unrated matches. */
+  matchMode?: MatchMode | null;
+  /** Best-of series this game belongs to, if any (see match-series.ts). */
+  seriesId?: string | null;
+  /** Enables chess clocks and response deadlines; unset means untimed. */
+  clock?: MatchClockConfig | null;
+  /**
+   * Players who choose how their combat damage is split across enemy units.
+   * Everyone else (bots, and matches created before this existed) gets the
+   * automatic Tank-first assignment.
+   */
+  damageAssignmentPlayerIds?: string[];
+  /** Built-in profile id or a full profile; defaults to `standard`. */
+  ruleProfile?: RuleProfileId | RuleProfile | null;
+}
+
+/**
+ * Time limits for a clocked match. Each player has a chess-clock bank that
+ * drains while the engine is waiting on them; priority windows and prompts
+ * additionally carry their own deadline, after which a default is applied.
+ */
+export interface MatchClockConfig {
+  /** Starting time bank per player. */
+  bankMs: number;
+  /** Added to the active player's bank at the start of each of their turns. */
+  incrementMs: number;
+  /** Time to respond to a priority window or reaction chain before auto-pass. */
+  priorityWindowMs: number;
+  /** Time to answer a setup or effect prompt before its default is applied. */
+  promptMs: number;
+}
+
+export const DEFAULT_MATCH_CLOCK: MatchClockConfig = {
+  bankMs: 25 * 60 * 1000,
+  incrementMs: 15 * 1000,
+  priorityWindowMs: 30 * 1000,
+  promptMs: 60 * 1000
+};
+
+export interface MatchClockState {
+  config: MatchClockConfig;
+  /** Remaining bank per player, in milliseconds. */
+  banks: Record<string, number>;
+  /** Player whose bank is currently draining, if any. */
+  runningFor: string | null;
+  runningSince: number | null;
+}
+
+export interface InitializeGameOptions {
+  /**
+   * Skip the initiative duel and seat this player first. Used by series
+   * games after game one, where the previous loser picks who starts.
+   */
+  firstPlayerId?: string | null;
 }
 
 // ============================================================================
@@ -235,7 +296,14 @@ export interface PlayerState {
   channeledRunes: RuneCard[];
   hand: Card[];
   graveyard: Card[];
+  /**
+   * Cards set aside by a banish effect that will bring them back (see
+   * DelayedZoneReturn). Kept apart from `banishment` so nothing that looks
+   * at banished cards can take one out from under its pending return.
+   */
   exile: Card[];
+  /** Banishment zone (rule 108.6): public, unordered, indefinite. */
+  banishment: Card[];
   board: PlayerBoard;
   resources: ResourcePool;
   temporaryEffects: TemporaryEffect[];
@@ -248,6 +316,8 @@ export interface PlayerState {
   championLeaderStatus?: ChampionAbilityRuntimeState | null;
   championLeaderDeployed?: boolean;
   burnedOut?: boolean;
+  /** Set when the player leaves a free-for-all that carries on without them. */
+  eliminated?: boolean;
 }
 
 export interface ChampionAbilityRuntimeState {
@@ -276,6 +346,11 @@ export interface PlayerDeckConfig {
   cardCount?: number;
   championLegend?: DeckCardEntry | null;
   championLeader?: DeckCardEntry | null;
+  /**
+   * Sideboard cards. Never shuffled into play; the series layer swaps them
+   * with main-deck cards between games before calling `initializeGame`.
+   */
+  sideDeck?: DeckCardEntry[];
 }
 
 export interface DeckCardReference {
@@ -340,7 +415,9 @@ export type PromptType =
   | 'coin_flip'
   | 'discard'
   | 'spell_reaction'
-  | 'chain_reaction';
+  | 'chain_reaction'
+  | 'damage_assignment'
+  | 'take_back';
 
 export interface GamePrompt {
   id: string;
@@ -351,6 +428,8 @@ export interface GamePrompt {
   createdAt: number;
   resolvedAt?: number;
   resolution?: Record<string, unknown>;
+  /** Set on clocked matches; the default answer is applied after this. */
+  expiresAt?: number;
 }
 
 export interface PriorityWindow {
@@ -366,11 +445,18 @@ export interface CombatContext {
   battlefieldId: string;
   initiatedBy: string;
   defendingPlayerId?: string | null;
+  /** Every player with units defending; more than one only in free-for-all. */
+  defendingPlayerIds?: string[];
   attackingUnitIds: string[];
   defendingUnitIds: string[];
   priorityStage: 'action' | 'reaction';
   lastActionPlayerId?: string;
   actionPasses: number;
+  /**
+   * Present while combat waits on damage_assignment prompts; holds each
+   * submitted split (instanceId -> points of the damage pool) by player.
+   */
+  damageAssignments?: Record<string, Record<string, number>>;
 }
 
 export interface GameStateSnapshot {
@@ -452,8 +538,21 @@ const SUPPORTED_KEYWORD_TRIGGERS: Record<string, CardAbility['triggerType']> = {
   deathknell: 'death'
 };
 
+export type MatchMode = 'ranked' | 'free';
+
 export interface GameState {
   matchId: string;
+  matchMode?: MatchMode | null;
+  seriesId?: string | null;
+  clock?: MatchClockState | null;
+  damageAssignmentPlayerIds?: string[];
+  ruleProfile?: RuleProfile;
+  /**
+   * Bumped on every persisted write. The store only accepts a write whose
+   * base version matches what it holds, so concurrent actions cannot
+   * silently overwrite each other.
+   */
+  version?: number;
   players: PlayerState[];
   currentPlayerIndex: number;
   currentPhase: GamePhase;
@@ -466,6 +565,7 @@ export interface GameState {
   victoryScore: number;
   scoreLog: ScoreEvent[];
   endReason?: MatchResult['reason'];
+  adjudications?: MatchAdjudication[];
   prompts: GamePrompt[];
   priorityWindow: PriorityWindow | null;
   snapshots: GameStateSnapshot[];
@@ -481,8 +581,20 @@ export interface GameState {
   focusPlayerId?: string | null;
   combatContext?: CombatContext | null;
   pendingEffects: PendingEffect[];
+  delayedReturns?: DelayedZoneReturn[];
+  restrictions?: Restriction[];
+  winConditions?: WinCondition[];
   pendingSpellResolution?: PendingSpellResolution | null;
   reactionChain?: ReactionChain | null;
+  /** Missing on matches created before commands were logged. */
+  commandLog?: MatchCommandLog;
+  /** RNG position after the last command, so a reloaded engine resumes the stream. */
+  rngState?: number;
+  /**
+   * Log seq of the last granted take-back. Commands up to it were either
+   * undone or came before the restored state, so none can be taken back.
+   */
+  takeBackFloor?: number;
 }
 
 export interface GameMove {
@@ -511,6 +623,108 @@ export interface GameMove {
   timestamp: number;
 }
 
+/**
+ * Public engine methods whose accepted calls are appended to the command
+ * log. Together with the RNG seed they are the match's only inputs, so
+ * replaying them rebuilds every state the match went through.
+ */
+export const RECORDED_COMMANDS = [
+  'initializeGame',
+  'submitInitiativeChoice',
+  'selectBattlefield',
+  'submitMulligan',
+  'submitDiscardSelection',
+  'submitTargetSelection',
+  'submitDamageAssignment',
+  'beginTurn',
+  'proceedToNextPhase',
+  'playCard',
+  'moveUnit',
+  'deployChampionLeader',
+  'hideCard',
+  'activateHiddenCard',
+  'activateChampionAbility',
+  'commenceBattle',
+  'declareAttacker',
+  'passPriority',
+  'stageAbilityForReaction',
+  'stageTriggeredAbilityForReaction',
+  'respondToChainReaction',
+  'respondToSpellReaction',
+  'requestTakeBack',
+  'respondToTakeBack',
+  'addRestriction',
+  'addWinCondition',
+  'addDuelLogEntry',
+  'addChatMessage',
+  'concedeMatch',
+  'adjudicateResult',
+  'syncClock',
+  'enforceClock'
+] as const;
+
+export type RecordedCommandName = (typeof RECORDED_COMMANDS)[number];
+
+export interface MatchCommandRecord {
+  seq: number;
+  name: RecordedCommandName;
+  args: unknown[];
+  /** Engine time the command ran at; replays run it at the same time. */
+  at: number;
+  /**
+   * First command after the engine was restored from a saved state. Replays
+   * reload at the same points so per-load counters line up.
+   */
+  afterLoad: boolean;
+  /** Player who took the action; set on commands a take-back can undo. */
+  playerId?: string;
+}
+
+/**
+ * In-game actions a player can ask to take back. Setup choices and
+ * concessions are never undone.
+ */
+const TAKE_BACK_COMMANDS = new Set<RecordedCommandName>([
+  'submitDiscardSelection',
+  'submitTargetSelection',
+  'submitDamageAssignment',
+  'proceedToNextPhase',
+  'playCard',
+  'moveUnit',
+  'deployChampionLeader',
+  'hideCard',
+  'activateHiddenCard',
+  'activateChampionAbility',
+  'commenceBattle',
+  'declareAttacker',
+  'passPriority',
+  'respondToChainReaction',
+  'respondToSpellReaction'
+]);
+
+/**
+ * Commands that may sit between the action and the take-back without
+ * blocking it. Chat and the duel log are kept when the state is restored.
+ */
+const TAKE_BACK_PASSTHROUGH_COMMANDS = new Set<RecordedCommandName>([
+  'addChatMessage',
+  'addDuelLogEntry',
+  'syncClock',
+  'enforceClock',
+  'requestTakeBack',
+  'respondToTakeBack'
+]);
+
+/** Append-only record of everything needed to re-simulate a match. */
+export interface MatchCommandLog {
+  matchId: string;
+  rngSeed: number | string;
+  createdAt: number;
+  players: Array<{ playerId: string; name: string | null }>;
+  options: Omit<EngineOptions, 'rng' | 'ruleProfile'> & { ruleProfile: RuleProfile };
+  commands: MatchCommandRecord[];
+}
+
 interface EffectContextSnapshot {
   sourceCardId?: string | null;
   sourceInstanceId?: string | null;
@@ -519,6 +733,81 @@ interface EffectContextSnapshot {
   targetIds?: string[] | null;
 }
 
+/**
+ * A card in exile waiting to come back, e.g. "Banish a unit. At end of turn,
+ * return it to its owner's base." Permanents return to their owner's base;
+ * anything else returns to hand.
+ */
+export interface DelayedZoneReturn {
+  id: string;
+  instanceId: string;
+  ownerId: string;
+  timing: 'end_of_turn';
+  /** Turn the card was banished on. */
+  turnNumber: number;
+  sourceCardId?: string | null;
+}
+
+/**
+ * "Can't beats can": when one effect says something can't happen and another
+ * says it can, the prohibition wins. Every legality check asks the restriction registry
+ * before allowing a target, a move or a play.
+ */
+export type RestrictionKind = 'cannot_be_targeted' | 'cannot_move' | 'cannot_play';
+
+/**
+ * - `this_turn`: lifted when the turn ends.
+ * - `while_source_on_board`: lifted once the source permanent leaves the board.
+ * - `permanent`: lasts for the rest of the game.
+ *
+ * A restriction placed on a unit also ends when that unit leaves the board.
+ */
+export type RestrictionDuration = 'this_turn' | 'while_source_on_board' | 'permanent';
+
+export interface Restriction {
+  id: string;
+  kind: RestrictionKind;
+  /** Unit the prohibition sits on (`cannot_be_targeted`, `cannot_move`). */
+  instanceId?: string | null;
+  /** Players bound by it: who can't target the unit, or who can't play. Omitted binds everyone. */
+  playerIds?: string[] | null;
+  /** `cannot_play` only: the card types covered. Omitted covers every card. */
+  cardTypes?: CardType[] | null;
+  duration: RestrictionDuration;
+  sourceInstanceId?: string | null;
+  sourceCardId?: string | null;
+  sourceName?: string | null;
+}
+
+export type RestrictionInput = Omit<Restriction, 'id'>;
+
+/**
+ * Alternate ways to win from card text, e.g. "if you control seven units
+ * here, you win the game". Registered conditions are checked after every
+ * command; the first one met ends the match.
+ *
+ * - `units_at_battlefield`: `threshold` friendly units at one battlefield,
+ *   or at `battlefieldId` when the text says "here".
+ * - `control_battlefields`: control of `threshold` battlefields.
+ */
+export type WinConditionKind = 'units_at_battlefield' | 'control_battlefields';
+
+export interface WinCondition {
+  id: string;
+  kind: WinConditionKind;
+  /** Player who wins once the condition holds. */
+  playerId: string;
+  threshold: number;
+  battlefieldId?: string | null;
+  /** Same lifetimes as restrictions, minus `this_turn`. */
+  duration: Exclude<RestrictionDuration, 'this_turn'>;
+  sourceInstanceId?: string | null;
+  sourceCardId?: string | null;
+  sourceName?: string | null;
+}
+
+export type WinConditionInput = Omit<WinCondition, 'id'>;
+
 interface PendingEffect {
   id: string;
   type: 'discard' | 'target';
@@ -589,6 +878,7 @@ export type CannotPlayReason =
   | 'REACTION_NON_REACTION_CARD'
   | 'INSUFFICIENT_RESOURCES'
   | 'NO_LEGAL_TARGETS'
+  | 'PROHIBITED'
   | 'UNSUPPORTED_CARD_TYPE'
   | 'CARD_NOT_IN_HAND'
   | 'GAME_NOT_IN_PROGRESS';
@@ -654,15 +944,94 @@ export interface TargetCandidate {
   label?: string;
 }
 
+/**
+ * One action a player may take right now, as listed by `getLegalActions`.
+ * `kind` names the engine command it maps to; the list-valued fields hold
+ * every argument the command would accept (battlefields a card can be played
+ * to, units a spell can target), so clients can offer exactly those.
+ *
+ * - `submit_initiative` : `choices` for `submitInitiativeChoice`
+ * - `select_battlefield`: `options` are battlefield card ids
+ * - `mulligan`          : up to `max` hand indices may be replaced
+ * - `discard`           : pick `min` of the hand cards in `options`
+ * - `select_targets`    : answer a target prompt with `min`..`max` ids
+ * - `assign_damage`     : split combat damage at `battlefieldId`
+ * - `play_card`         : spells list `targets` (`min` required); permanents
+ *                         list `destinations` (`'base'` or battlefield ids)
+ * - `hide_card`         : `destinations` are battlefields it can be hidden on
+ * - `activate_hidden`   : reveal the hidden card `instanceId`
+ * - `deploy_leader`     : `destinations` as for permanents
+ * - `move_unit`         : unit `instanceId` may move to `destinations`
+ * - `request_take_back` : the player's last action can be taken back
+ *                         (casual matches; hidden information is checked
+ *                         when the request is made)
+ */
+export type LegalAction =
+  | { kind: 'submit_initiative'; promptId: string; choices: number[] }
+  | { kind: 'select_battlefield'; promptId: string; options: string[] }
+  | { kind: 'mulligan'; promptId: string; max: number }
+  | { kind: 'discard'; promptId: string; min: number; options: string[] }
+  | { kind: 'select_targets'; promptId: string; min: number; max: number }
+  | { kind: 'assign_damage'; promptId: string; battlefieldId: string }
+  | {
+      kind: 'play_card';
+      cardIndex: number;
+      cardId: string;
+      destinations: string[];
+      targets: TargetCandidate[];
+      min: number;
+    }
+  | { kind: 'hide_card'; cardIndex: number; cardId: string; destinations: string[] }
+  | { kind: 'activate_hidden'; instanceId: string; battlefieldId: string }
+  | { kind: 'deploy_leader'; cardId: string; destinations: string[] }
+  | { kind: 'activate_legend'; cardId: string }
+  | { kind: 'move_unit'; instanceId: string; destinations: string[] }
+  | { kind: 'commence_battle'; battlefieldId: string }
+  | { kind: 'pass_priority' }
+  | { kind: 'respond_chain' }
+  | { kind: 'request_take_back' }
+  | { kind: 'respond_take_back'; promptId: string }
+  | { kind: 'advance_phase' }
+  | { kind: 'concede' };
+
 export interface MatchResult {
   matchId: string;
   winner: string;
   loser: string;
-  reason: 'victory_points' | 'burn_out' | 'concede' | 'timeout';
+  /**
+   * `support`: the last points came from a card effect. `instant_win`: card
+   * text said the player wins the game. `win_condition`: a registered
+   * alternate win condition was met.
+   */
+  reason:
+    | 'victory_points'
+    | 'support'
+    | 'instant_win'
+    | 'win_condition'
+    | 'burn_out'
+    | 'concede'
+    | 'timeout'
+    | 'adjudicated';
   duration: number;
   turns: number;
   moves: GameMove[];
   players?: { playerId: string; name?: string | null }[];
+  /** Free-for-all only: every seat other than the winner's. */
+  losers?: string[];
+}
+
+/** An admin's ruling on a match outcome, kept on the state as an audit trail. */
+export interface MatchAdjudication {
+  adjudicatorId: string;
+  winner: string;
+  loser: string;
+  /** Free-for-all only: every seat other than the winner's. */
+  losers?: string[];
+  note: string;
+  /** Outcome the engine had reached before the ruling, if any. */
+  previousWinner: string | null;
+  previousReason: MatchResult['reason'] | null;
+  at: number;
 }
 
 export interface HiddenCard {
@@ -709,6 +1078,9 @@ const INITIATIVE_BEATS: Record<number, number> = {
   2: 0 // Ring beats Blade
 };
 
+/** Cards a player may set aside and redraw during the mulligan. */
+export const MULLIGAN_MAX_REPLACEMENTS = 2;
+
 // ============================================================================
 // GAME ENGINE CLASS
 // ============================================================================
@@ -732,15 +1104,13 @@ function runCatalogSanitization(): void {
 }
 
 export class RiftboundGameEngine {
+  private static readonly MIN_PLAYERS = 2;
+  private static readonly MAX_PLAYERS = 4;
   private static readonly MAX_DUEL_LOG_ENTRIES = 200;
   private static readonly MAX_CHAT_LOG_ENTRIES = 200;
   private gameState: GameState;
-  private readonly INITIAL_HAND_SIZE = 4;
-  private readonly VICTORY_SCORE = 8;
-  private readonly MIN_DECK_SIZE = 40;
+  private ruleProfile: RuleProfile;
   private readonly RUNE_DECK_SIZE = 12;
-  private readonly RUNES_PER_TURN = 2;
-  private readonly DEFAULT_BATTLEFIELD_COUNT = 2;
   private readonly cardActivationTemplates = buildActivationStateIndex();
   private readonly catalogCardCache = new Map<string, Card>();
   private readonly opRegistry: OpHandlerRegistry = buildDefaultRegistry();
@@ -753,15 +1123,34 @@ export class RiftboundGameEngine {
    */
   public statsRecorder: DispatcherStats | undefined = undefined;
   private promptCounter = 0;
+  private restrictionCounter = 0;
+  private winConditionCounter = 0;
   private cardInstanceCounter = 0;
   private readonly rng: Rng;
+  /** Nesting depth of recorded commands; only the outermost call is logged. */
+  private commandDepth = 0;
+  /** Engine time while a command runs, so every timestamp it writes matches. */
+  private commandTime: number | null = null;
+  /** Time a replayed command originally ran at. */
+  private replayAt: number | null = null;
+  private restoredFromSave = false;
 
   constructor(matchId: string, players: PlayerSeed[], options?: EngineOptions) {
     runCatalogSanitization();
     this.rng = options?.rng ?? createRng(Date.now());
-    if (players.length !== 2) {
-      throw new Error('Riftbound requires exactly 2 players');
+    this.installCommandRecorder();
+    if (
+      players.length < RiftboundGameEngine.MIN_PLAYERS ||
+      players.length > RiftboundGameEngine.MAX_PLAYERS
+    ) {
+      throw new Error(
+        `Riftbound requires ${RiftboundGameEngine.MIN_PLAYERS} to ${RiftboundGameEngine.MAX_PLAYERS} players`
+      );
     }
+    this.ruleProfile =
+      options?.ruleProfile && typeof options.ruleProfile === 'object'
+        ? { ...options.ruleProfile }
+        : resolveRuleProfile(options?.ruleProfile);
     const normalizedPlayers = players.map((entry) => {
       if (typeof entry === 'string') {
         return { playerId: entry, name: null };
@@ -776,8 +1165,24 @@ export class RiftboundGameEngine {
       };
     });
 
+    const createdAt = Date.now();
     this.gameState = {
       matchId,
+      matchMode: options?.matchMode ?? null,
+      seriesId: options?.seriesId ?? null,
+      clock: options?.clock
+        ? {
+            config: { ...options.clock },
+            banks: Object.fromEntries(
+              normalizedPlayers.map((player) => [player.playerId, options.clock!.bankMs])
+            ),
+            runningFor: null,
+            runningSince: null
+          }
+        : null,
+      damageAssignmentPlayerIds: options?.damageAssignmentPlayerIds ?? [],
+      ruleProfile: this.ruleProfile,
+      version: 0,
       players: normalizedPlayers.map((player) =>
         this.createPlayerState(player.playerId, player.name)
       ),
@@ -786,8 +1191,8 @@ export class RiftboundGameEngine {
       turnNumber: 1,
       status: GameStatus.SETUP,
       moveHistory: [],
-      timestamp: Date.now(),
-      victoryScore: this.VICTORY_SCORE,
+      timestamp: createdAt,
+      victoryScore: this.ruleProfile.victoryScore,
       scoreLog: [],
       prompts: [],
       priorityWindow: null,
@@ -804,8 +1209,26 @@ export class RiftboundGameEngine {
       focusPlayerId: null,
       combatContext: null,
       pendingEffects: [],
+      delayedReturns: [],
+      restrictions: [],
+      winConditions: [],
       pendingSpellResolution: null,
-      reactionChain: null
+      reactionChain: null,
+      commandLog: {
+        matchId,
+        rngSeed: this.rng.seed,
+        createdAt,
+        players: normalizedPlayers,
+        options: {
+          matchMode: options?.matchMode ?? null,
+          seriesId: options?.seriesId ?? null,
+          clock: options?.clock ?? null,
+          damageAssignmentPlayerIds: options?.damageAssignmentPlayerIds ?? [],
+          ruleProfile: this.ruleProfile
+        },
+        commands: []
+      },
+      rngState: this.rng.getState?.()
     };
   }
 
@@ -846,8 +1269,15 @@ export class RiftboundGameEngine {
       playerId: player.playerId,
       name: player.name ?? null
     }));
-    const engine = new RiftboundGameEngine(state.matchId, players);
+    const log = state.commandLog;
+    const engine = new RiftboundGameEngine(state.matchId, players, {
+      rng: log ? createRng(log.rngSeed, state.rngState ?? undefined) : undefined
+    });
     engine.gameState = RiftboundGameEngine.cloneGameState(state);
+    engine.restoredFromSave = true;
+    // Matches saved before rule profiles existed were all standard games.
+    engine.gameState.ruleProfile = engine.gameState.ruleProfile ?? { ...RULE_PROFILES.standard };
+    engine.ruleProfile = engine.gameState.ruleProfile;
     const ensureBoardCardRuntimeState = (card: BoardCard) => {
       const activationTemplate = engine.cardActivationTemplates[card.id];
       const fallbackStateful =
@@ -905,6 +1335,15 @@ export class RiftboundGameEngine {
     if (!Array.isArray(engine.gameState.pendingEffects)) {
       engine.gameState.pendingEffects = [];
     }
+    if (!Array.isArray(engine.gameState.delayedReturns)) {
+      engine.gameState.delayedReturns = [];
+    }
+    if (!Array.isArray(engine.gameState.restrictions)) {
+      engine.gameState.restrictions = [];
+    }
+    if (!Array.isArray(engine.gameState.winConditions)) {
+      engine.gameState.winConditions = [];
+    }
     engine.promptCounter = engine.gameState.prompts.length;
     if (typeof engine.gameState.pendingMainPhaseEntry !== 'boolean') {
       engine.gameState.pendingMainPhaseEntry = false;
@@ -940,6 +1379,9 @@ export class RiftboundGameEngine {
       if (!Array.isArray(player.exile)) {
         player.exile = [];
       }
+      if (!Array.isArray(player.banishment)) {
+        player.banishment = [];
+      }
       if (!Array.isArray(player.temporaryEffects)) {
         player.temporaryEffects = [];
       }
@@ -996,6 +1438,307 @@ export class RiftboundGameEngine {
     return engine;
   }
 
+  // ========================================================================
+  // COMMAND LOG
+  // ========================================================================
+
+  /**
+   * Rebuild a match from its command log, stopping after `until` commands
+   * (all of them by default). The engine reloads from a saved copy wherever
+   * the live match did, and each command runs at its recorded time, so the
+   * result matches the state that was stored at that step.
+   */
+  public static replayCommands(log: MatchCommandLog, until: number = log.commands.length): RiftboundGameEngine {
+    if (!Number.isInteger(until) || until < 0 || until > log.commands.length) {
+      throw new Error(`Cannot replay to step ${until}; the log has ${log.commands.length} commands`);
+    }
+    let engine = new RiftboundGameEngine(log.matchId, log.players, {
+      ...log.options,
+      rng: createRng(log.rngSeed)
+    });
+    engine.gameState.timestamp = log.createdAt;
+    engine.gameState.commandLog = { ...RiftboundGameEngine.cloneCommandLog(log), commands: [] };
+    for (const record of log.commands.slice(0, until)) {
+      if (record.afterLoad) {
+        engine = RiftboundGameEngine.fromSerializedState(engine.gameState);
+      }
+      const command = engine[record.name] as (...args: unknown[]) => unknown;
+      engine.replayAt = record.at;
+      try {
+        command(...(JSON.parse(JSON.stringify(record.args)) as unknown[]));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Replay failed at command ${record.seq} (${record.name}): ${reason}`);
+      } finally {
+        engine.replayAt = null;
+      }
+    }
+    return engine;
+  }
+
+  private static cloneCommandLog(log: MatchCommandLog): MatchCommandLog {
+    return JSON.parse(JSON.stringify(log)) as MatchCommandLog;
+  }
+
+  /** Route every recorded command through runRecordedCommand. */
+  private installCommandRecorder(): void {
+    const commands = this as unknown as Record<RecordedCommandName, (...args: unknown[]) => unknown>;
+    for (const name of RECORDED_COMMANDS) {
+      const apply = commands[name].bind(this);
+      commands[name] = (...args: unknown[]) => this.runRecordedCommand(name, args, () => apply(...args));
+    }
+  }
+
+  /**
+   * Run a command and, if it is accepted, append it to the log. Commands
+   * issued from inside another command are part of that command and are not
+   * logged again; a command that throws leaves no entry.
+   */
+  private runRecordedCommand<T>(name: RecordedCommandName, args: unknown[], apply: () => T): T {
+    if (this.commandDepth > 0) {
+      return apply();
+    }
+    const at = this.replayAt ?? Date.now();
+    // Trailing undefined arguments would come back from JSON as null and
+    // defeat default parameters on replay.
+    let argCount = args.length;
+    while (argCount > 0 && args[argCount - 1] === undefined) {
+      argCount--;
+    }
+    const recordedArgs = JSON.parse(JSON.stringify(args.slice(0, argCount))) as unknown[];
+    const actor = this.resolveCommandActor(name, args);
+
+    this.commandDepth++;
+    this.commandTime = at;
+    let result: T;
+    try {
+      result = apply();
+      this.runStateBasedChecks();
+    } finally {
+      this.commandDepth--;
+      this.commandTime = null;
+    }
+
+    const log = this.gameState.commandLog;
+    // Clock commands do nothing on an untimed match, so they stay out of its log.
+    const skip = (name === 'syncClock' || name === 'enforceClock') && !this.gameState.clock;
+    if (log && !skip) {
+      log.commands.push({
+        seq: log.commands.length,
+        name,
+        args: recordedArgs,
+        at,
+        afterLoad: this.restoredFromSave,
+        ...(actor ? { playerId: actor } : {})
+      });
+      this.restoredFromSave = false;
+    }
+    this.gameState.rngState = this.rng.getState?.();
+    return result;
+  }
+
+  /** Wall-clock time, pinned to the command's start while one is running. */
+  private now(): number {
+    return this.commandTime ?? Date.now();
+  }
+
+  /** Who is taking a take-back-able action; phase advances belong to the turn player. */
+  private resolveCommandActor(name: RecordedCommandName, args: unknown[]): string | null {
+    if (!TAKE_BACK_COMMANDS.has(name)) {
+      return null;
+    }
+    if (name === 'proceedToNextPhase') {
+      return this.gameState.players[this.gameState.currentPlayerIndex]?.playerId ?? null;
+    }
+    return typeof args[0] === 'string' ? args[0] : null;
+  }
+
+  // ========================================================================
+  // TAKE-BACKS
+  // ========================================================================
+
+  /**
+   * Ask the other players to undo `playerId`'s last action. Each opponent
+   * gets a `take_back` prompt, and play waits on their answers. Refused in
+   * ranked matches and when anything since the action revealed a card.
+   */
+  public requestTakeBack(playerId: string): void {
+    const player = this.getPlayerById(playerId);
+    if (this.gameState.prompts.some((prompt) => prompt.type === 'take_back' && !prompt.resolved)) {
+      throw new Error('A take-back request is already open');
+    }
+    const target = this.findTakeBackTarget(player.playerId);
+    this.rewindForTakeBack(target.seq, player.playerId);
+
+    for (const opponent of this.getOpponents(player)) {
+      this.enqueuePrompt('take_back', opponent.playerId, {
+        requestedBy: player.playerId,
+        commandSeq: target.seq,
+        command: target.name
+      });
+    }
+    this.addDuelLogEntry({
+      playerId: player.playerId,
+      message: `${this.resolvePlayerName(player.playerId) ?? 'Player'} asks to take back their last action.`,
+      tone: 'info'
+    });
+  }
+
+  /**
+   * Answer an open take-back request. One decline ends it; once every
+   * opponent has accepted, the match goes back to the state before the
+   * requester's action. Returns true when the state was restored.
+   */
+  public respondToTakeBack(playerId: string, accept: boolean): boolean {
+    const prompt = this.findPrompt('take_back', playerId);
+    const requestedBy = String(prompt.data.requestedBy);
+    const responderName = this.resolvePlayerName(playerId) ?? 'Player';
+    if (!accept) {
+      this.closeTakeBackRequest({ accept: false });
+      this.addDuelLogEntry({ playerId, message: `${responderName} declines the take-back.`, tone: 'info' });
+      this.tryAutoAdvanceFromBeginPhase();
+      return false;
+    }
+
+    prompt.resolved = true;
+    prompt.resolution = { accept: true };
+    prompt.resolvedAt = this.now();
+    if (!this.promptsResolved('take_back')) {
+      return false;
+    }
+
+    let restored: GameState;
+    try {
+      const target = this.findTakeBackTarget(requestedBy);
+      if (target.seq !== Number(prompt.data.commandSeq)) {
+        throw new Error('The action has already been followed by another');
+      }
+      restored = this.rewindForTakeBack(target.seq, requestedBy);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.addDuelLogEntry({
+        playerId: requestedBy,
+        message: `The take-back could not be applied: ${reason}`,
+        tone: 'warning'
+      });
+      this.tryAutoAdvanceFromBeginPhase();
+      return false;
+    }
+
+    this.restoreForTakeBack(restored);
+    this.addDuelLogEntry({
+      playerId: requestedBy,
+      message: `${this.resolvePlayerName(requestedBy) ?? 'Player'} takes back their last action.`,
+      tone: 'info'
+    });
+    this.recordSnapshot('take-back');
+    return true;
+  }
+
+  /**
+   * The requester's last logged action, provided only table talk, clock
+   * commands and other players' actions came after it.
+   */
+  private findTakeBackTarget(playerId: string): MatchCommandRecord {
+    if (this.gameState.matchMode === 'ranked') {
+      throw new Error('Take-backs are not allowed in ranked matches');
+    }
+    if (this.gameState.status !== GameStatus.IN_PROGRESS) {
+      throw new Error('Game is not in progress');
+    }
+    const commands = this.gameState.commandLog?.commands ?? [];
+    const floor = this.gameState.takeBackFloor ?? -1;
+    for (let i = commands.length - 1; i > floor; i--) {
+      const record = commands[i];
+      if (TAKE_BACK_COMMANDS.has(record.name)) {
+        if (record.playerId === playerId) {
+          return record;
+        }
+      } else if (!TAKE_BACK_PASSTHROUGH_COMMANDS.has(record.name)) {
+        break;
+      }
+    }
+    throw new Error('No action to take back');
+  }
+
+  /**
+   * Replay the log up to `seq` and return that state, refusing if the
+   * commands since then revealed anything hidden.
+   */
+  private rewindForTakeBack(seq: number, requesterId: string): GameState {
+    const log = this.gameState.commandLog!;
+    const restored = RiftboundGameEngine.replayCommands(log, seq).getGameState();
+    if (
+      RiftboundGameEngine.describeHiddenInformation(restored, requesterId) !==
+      RiftboundGameEngine.describeHiddenInformation(this.gameState, requesterId)
+    ) {
+      throw new Error('Cannot take back an action that revealed hidden information');
+    }
+    return restored;
+  }
+
+  /**
+   * What some player could not see: every deck and rune deck in order, and
+   * the hands and facedown cards of the requester's opponents. The
+   * requester's own hand is left out, since playing from it is the usual
+   * thing to take back.
+   */
+  private static describeHiddenInformation(state: GameState, requesterId: string): string {
+    const ids = (cards: Array<{ id: string; instanceId?: string }>) =>
+      cards.map((card) => card.instanceId ?? card.id);
+    return JSON.stringify({
+      players: state.players.map((player) => ({
+        deck: ids(player.deck),
+        runeDeck: ids(player.runeDeck),
+        hand: player.playerId === requesterId ? null : ids(player.hand)
+      })),
+      hidden: state.battlefields.flatMap((battlefield) =>
+        battlefield.hiddenCards
+          .filter((hidden) => hidden.ownerId !== requesterId)
+          .map((hidden) => hidden.instanceId)
+      )
+    });
+  }
+
+  /**
+   * Swap in the rewound state. The log, chat, duel log, clock banks and
+   * store version carry over, and open deadlines start again from now.
+   */
+  private restoreForTakeBack(restored: GameState): void {
+    const current = this.gameState;
+    const now = this.now();
+    for (const prompt of restored.prompts) {
+      if (!prompt.resolved && typeof prompt.expiresAt === 'number') {
+        prompt.expiresAt = now + (prompt.expiresAt - prompt.createdAt);
+      }
+    }
+    const window = restored.priorityWindow;
+    if (window?.expiresAt) {
+      window.expiresAt = now + (window.expiresAt - window.openedAt);
+    }
+    this.gameState = {
+      ...restored,
+      version: current.version,
+      commandLog: current.commandLog,
+      rngState: current.rngState,
+      chatLog: current.chatLog,
+      duelLog: current.duelLog,
+      clock: current.clock,
+      takeBackFloor: current.commandLog?.commands.length ?? 0
+    };
+  }
+
+  private closeTakeBackRequest(resolution: Record<string, unknown>): void {
+    const now = this.now();
+    for (const prompt of this.gameState.prompts) {
+      if (prompt.type === 'take_back' && !prompt.resolved) {
+        prompt.resolved = true;
+        prompt.resolution = resolution;
+        prompt.resolvedAt = now;
+      }
+    }
+  }
+
   // ========================================================================
   // INITIALIZATION
   // ========================================================================
@@ -1009,7 +1752,7 @@ export class RiftboundGameEngine {
       playerId,
       name: normalizedName,
       victoryPoints: 0,
-      victoryScore: this.VICTORY_SCORE,
+      victoryScore: this.ruleProfile.victoryScore,
       mana: 0,
       maxMana: 0,
       deck: [],
@@ -1018,6 +1761,7 @@ export class RiftboundGameEngine {
       hand: [],
       graveyard: [],
       exile: [],
+      banishment: [],
       board: {
         playerId,
         creatures: [],
@@ -1040,16 +1784,23 @@ export class RiftboundGameEngine {
 
   private nextCardInstanceId(cardId: string): string {
     const counter = this.cardInstanceCounter++;
-    return `${cardId}_${Date.now()}_${counter}`;
+    return `${cardId}_${this.now()}_${counter}`;
   }
 
   /**
    * Initialize the game with player decks
    */
-  public initializeGame(decksByPlayerId: Record<string, PlayerDeckConfig | DeckCardEntry[]>): void {
+  public initializeGame(
+    decksByPlayerId: Record<string, PlayerDeckConfig | DeckCardEntry[]>,
+    options: InitializeGameOptions = {}
+  ): void {
     if (this.gameState.status !== GameStatus.SETUP) {
       throw new Error('Game already initialized');
     }
+    const firstPlayerId = options.firstPlayerId ?? null;
+    if (firstPlayerId && !this.gameState.players.some((p) => p.playerId === firstPlayerId)) {
+      throw new Error(`Unknown first player ${firstPlayerId}`);
+    }
 
     for (const player of this.gameState.players) {
       const deckConfig = decksByPlayerId[player.playerId];
@@ -1061,9 +1812,9 @@ export class RiftboundGameEngine {
         ? deckConfig
         : deckConfig.mainDeck ?? deckConfig.cards ?? [];
       const normalizedMainDeck = this.buildDeckFromConfig(mainDeckEntries);
-      if (!normalizedMainDeck.length || normalizedMainDeck.length < this.MIN_DECK_SIZE) {
+      if (!normalizedMainDeck.length || normalizedMainDeck.length < this.ruleProfile.minDeckSize) {
         throw new Error(
-          `Invalid deck size for player ${player.playerId} (requires at least ${this.MIN_DECK_SIZE}, got ${normalizedMainDeck.length})`
+          `Invalid deck size for player ${player.playerId} (requires at least ${this.ruleProfile.minDeckSize}, got ${normalizedMainDeck.length})`
         );
       }
 
@@ -1108,11 +1859,27 @@ export class RiftboundGameEngine {
       this.shuffle(player.deck);
       this.shuffle(player.runeDeck);
       // Opening hand draw is REQUIRED by setup rules.
-      this.drawCards(player, this.INITIAL_HAND_SIZE, true);
+      this.drawCards(player, this.ruleProfile.initialHandSize, true);
     }
 
     this.gameState.status = GameStatus.COIN_FLIP;
     this.recordSnapshot('setup-ready');
+    if (firstPlayerId) {
+      this.applyInitiativeResult(firstPlayerId, {});
+      return;
+    }
+    if (this.isFreeForAll()) {
+      // The Blade/Shield/Ring duel has no winner across more than two
+      // players, so free-for-all seats a random first player instead.
+      const first = this.gameState.players[this.rng.nextInt(0, this.gameState.players.length)];
+      this.addDuelLogEntry({
+        playerId: first.playerId,
+        message: `${this.resolvePlayerName(first.playerId) ?? 'Player'} is chosen at random to go first.`,
+        tone: 'info'
+      });
+      this.applyInitiativeResult(first.playerId, {});
+      return;
+    }
     this.startCoinFlipPhase();
   }
 
@@ -1181,23 +1948,38 @@ export class RiftboundGameEngine {
     const winner = firstWins ? firstSelection : secondSelection;
     const loser = firstWins ? secondSelection : firstSelection;
 
-    const firstIndex = this.gameState.players.findIndex((p) => p.playerId === winner.playerId);
+    const selectionMap: Record<string, number> = {};
+    for (const selection of selections) {
+      selectionMap[selection.playerId] = selection.choice;
+    }
+    this.applyInitiativeResult(winner.playerId, selectionMap, loser.playerId);
+  }
+
+  /**
+   * Seat `firstPlayerId` first, give everyone after them the going-second
+   * rune boost, and move on to battlefield selection. Turn order then runs
+   * round the table in seat order.
+   */
+  private applyInitiativeResult(
+    firstPlayerId: string,
+    selections: Record<string, number>,
+    loserId?: string
+  ): void {
+    const firstIndex = this.gameState.players.findIndex((p) => p.playerId === firstPlayerId);
     if (firstIndex === -1) {
       throw new Error('Failed to locate initiative winner');
     }
     this.gameState.currentPlayerIndex = firstIndex;
 
-    const loserState = this.getPlayerById(loser.playerId);
-    loserState.firstTurnRuneBoost = 1;
-
-    const selectionMap: Record<string, number> = {};
-    for (const selection of selections) {
-      selectionMap[selection.playerId] = selection.choice;
+    const others = this.gameState.players.filter((p) => p.playerId !== firstPlayerId);
+    for (const player of others) {
+      player.firstTurnRuneBoost = 1;
     }
-    this.gameState.initiativeWinner = winner.playerId;
-    this.gameState.initiativeLoser = loser.playerId;
-    this.gameState.initiativeSelections = selectionMap;
-    this.gameState.initiativeDecidedAt = Date.now();
+
+    this.gameState.initiativeWinner = firstPlayerId;
+    this.gameState.initiativeLoser = loserId ?? (others.length === 1 ? others[0].playerId : null);
+    this.gameState.initiativeSelections = selections;
+    this.gameState.initiativeDecidedAt = this.now();
 
     this.gameState.prompts = this.gameState.prompts.filter((prompt) => prompt.type !== 'coin_flip');
     this.recordSnapshot('coin-flip');
@@ -1286,56 +2068,66 @@ export class RiftboundGameEngine {
       return;
     }
 
-    // Rule 103.4: the two active battlefields in a match must be DIFFERENT cards.
-    // If both players picked the same battlefield card, deterministically reject the
-    // later player's selection (the second player in gameState.players order), clear
-    // it, and re-prompt them to choose a different battlefield from their pool.
-    const [firstPlayer, secondPlayer] = this.gameState.players;
-    if (firstPlayer && secondPlayer) {
-      const firstCardId = firstPlayer.selectedBattlefield?.card?.id
-        ?? firstPlayer.selectedBattlefield?.battlefieldId;
-      const secondCardId = secondPlayer.selectedBattlefield?.card?.id
-        ?? secondPlayer.selectedBattlefield?.battlefieldId;
-      if (firstCardId && secondCardId && firstCardId === secondCardId) {
-        // Clear the duplicate (second player's) selection and re-prompt them.
-        secondPlayer.selectedBattlefield = undefined;
-
-        // Filter the second player's options so the duplicate card cannot be chosen
-        // again. Fall back to the full pool if filtering would leave no options.
-        const fullOptions = this.ensureBattlefieldOptions(secondPlayer);
-        const filteredOptions = fullOptions.filter(
-          (card) => card.id !== firstCardId && card.slug !== firstCardId
-        );
-        const promptOptions = filteredOptions.length > 0 ? filteredOptions : fullOptions;
+    // Rule 103.4: the active battlefields in a match must be DIFFERENT cards.
+    // If a player picked a battlefield card already chosen by a player seated
+    // before them, deterministically reject the later selection, clear it, and
+    // re-prompt that player to choose a different battlefield from their pool.
+    const players = this.gameState.players;
+    const cardIdOf = (player: PlayerState) =>
+      player.selectedBattlefield?.card?.id ?? player.selectedBattlefield?.battlefieldId;
+    for (let index = 1; index < players.length; index++) {
+      const laterPlayer = players[index];
+      const laterCardId = cardIdOf(laterPlayer);
+      const earlierPlayer = players
+        .slice(0, index)
+        .find((candidate) => laterCardId && cardIdOf(candidate) === laterCardId);
+      if (!earlierPlayer || !laterCardId) {
+        continue;
+      }
+      // Clear the duplicate (later player's) selection and re-prompt them.
+      laterPlayer.selectedBattlefield = undefined;
+
+      // Filter the later player's options so no battlefield already taken can
+      // be chosen again. Fall back to the full pool if filtering would leave
+      // no options.
+      const takenIds = players
+        .map((candidate) => cardIdOf(candidate))
+        .filter((id): id is string => Boolean(id));
+      const fullOptions = this.ensureBattlefieldOptions(laterPlayer);
+      const filteredOptions = fullOptions.filter(
+        (card) => !takenIds.includes(card.id) && !(card.slug && takenIds.includes(card.slug))
+      );
+      const promptOptions = filteredOptions.length > 0 ? filteredOptions : fullOptions;
 
-        // Drop any stale battlefield prompts for this player and re-issue.
-        this.gameState.prompts = this.gameState.prompts.filter(
-          (prompt) => !(prompt.type === 'battlefield' && prompt.playerId === secondPlayer.playerId)
-        );
-        this.enqueuePrompt('battlefield', secondPlayer.playerId, {
-          options: promptOptions.map((card) => this.buildBattlefieldPromptOption(card)),
-          conflict: true,
-          conflictReason: 'duplicate_battlefield',
-          conflictWithPlayerId: firstPlayer.playerId
-        });
+      // Drop any stale battlefield prompts for this player and re-issue.
+      this.gameState.prompts = this.gameState.prompts.filter(
+        (prompt) => !(prompt.type === 'battlefield' && prompt.playerId === laterPlayer.playerId)
+      );
+      this.enqueuePrompt('battlefield', laterPlayer.playerId, {
+        options: promptOptions.map((card) => this.buildBattlefieldPromptOption(card)),
+        conflict: true,
+        conflictReason: 'duplicate_battlefield',
+        conflictWithPlayerId: earlierPlayer.playerId
+      });
 
-        const playerName = this.resolvePlayerName(secondPlayer.playerId) ?? 'Player';
-        const conflictName =
-          firstPlayer.selectedBattlefield?.name ?? firstPlayer.selectedBattlefield?.card?.name ?? 'the same battlefield';
-        this.addDuelLogEntry({
-          playerId: secondPlayer.playerId,
-          message: `${playerName} must pick a different battlefield (conflict with ${conflictName}).`,
-          tone: 'warning'
-        });
-        this.recordSnapshot('battlefield-conflict');
-        return;
-      }
+      const playerName = this.resolvePlayerName(laterPlayer.playerId) ?? 'Player';
+      const conflictName =
+        earlierPlayer.selectedBattlefield?.name ??
+        earlierPlayer.selectedBattlefield?.card?.name ??
+        'the same battlefield';
+      this.addDuelLogEntry({
+        playerId: laterPlayer.playerId,
+        message: `${playerName} must pick a different battlefield (conflict with ${conflictName}).`,
+        tone: 'warning'
+      });
+      this.recordSnapshot('battlefield-conflict');
+      return;
     }
 
     const orderedSelections = this.gameState.players
       .map((player) => player.selectedBattlefield!)
       .map((state) => this.cloneBattlefieldState(state))
-      .slice(0, this.DEFAULT_BATTLEFIELD_COUNT);
+      .slice(0, this.getBattlefieldCount());
     this.gameState.battlefields = orderedSelections;
     this.initializeBattlefieldEffects(orderedSelections);
     this.gameState.status = GameStatus.MULLIGAN;
@@ -1355,7 +2147,7 @@ export class RiftboundGameEngine {
     for (const player of this.gameState.players) {
       this.enqueuePrompt('mulligan', player.playerId, {
         handSize: player.hand.length,
-        maxReplacements: 2
+        maxReplacements: MULLIGAN_MAX_REPLACEMENTS
       });
     }
   }
@@ -1368,7 +2160,7 @@ export class RiftboundGameEngine {
     const prompt = this.findPrompt('mulligan', playerId);
     const unique = Array.from(new Set(indices))
       .filter((index) => Number.isInteger(index) && index >= 0 && index < player.hand.length)
-      .slice(0, 2)
+      .slice(0, MULLIGAN_MAX_REPLACEMENTS)
       .sort((a, b) => b - a);
 
     const setAside: Card[] = [];
@@ -1489,6 +2281,7 @@ export class RiftboundGameEngine {
     }
     const pending = this.gameState.pendingEffects[pendingIndex];
     const sanitizedSelections = Array.from(new Set(selectionIds.filter(Boolean)));
+    this.assertTargetable(this.getPlayerById(playerId), sanitizedSelections);
     if (pending.operations && pending.context && pending.nextIndex !== undefined) {
       const caster = this.getPlayerById(pending.casterId);
       const contextSnapshot = this.restoreEffectContext(pending.context);
@@ -1576,6 +2369,41 @@ export class RiftboundGameEngine {
     this.resolvePrompt(prompt, { selectedIds: sanitizedSelections });
   }
 
+  /**
+   * Answer a damage_assignment prompt with points of the damage pool per
+   * enemy unit (instanceId -> amount). Combat resolves once every side that
+   * was asked has answered.
+   */
+  public submitDamageAssignment(
+    playerId: string,
+    promptId: string,
+    assignments: Record<string, number>
+  ): void {
+    const prompt = this.gameState.prompts.find(
+      (entry) => entry.id === promptId && entry.type === 'damage_assignment' && !entry.resolved
+    );
+    if (!prompt) {
+      throw new Error('Damage assignment prompt not found');
+    }
+    if (prompt.playerId !== playerId) {
+      throw new Error('Damage assignment prompt does not belong to this player');
+    }
+    const context = this.gameState.combatContext;
+    if (!context?.damageAssignments || context.battlefieldId !== prompt.data?.battlefieldId) {
+      throw new Error('No combat is waiting on damage assignment');
+    }
+    const enemyUnits = this.getUnitsOnBattlefield(context.battlefieldId).filter(
+      (unit) => this.getPlayerByCard(unit.instanceId).playerId !== playerId
+    );
+    const pool = Number(prompt.data?.damagePool ?? 0);
+    const normalized = this.validateDamageAssignment(pool, enemyUnits, assignments);
+    context.damageAssignments[playerId] = normalized;
+    this.resolvePrompt(prompt, { assignments: normalized });
+    if (this.promptsResolved('damage_assignment')) {
+      this.completeCombatEngagement();
+    }
+  }
+
   // ========================================================================
   // PHASE MANAGEMENT
   // ========================================================================
@@ -1586,6 +2414,11 @@ export class RiftboundGameEngine {
   public beginTurn(): void {
     const currentPlayer = this.getCurrentPlayer();
     this.closePriorityWindow();
+    const clock = this.gameState.clock;
+    if (clock && this.gameState.turnNumber > 1) {
+      clock.banks[currentPlayer.playerId] =
+        (clock.banks[currentPlayer.playerId] ?? 0) + clock.config.incrementMs;
+    }
     this.gameState.pendingMainPhaseEntry = true;
     this.currentPhase = GamePhase.BEGIN;
 
@@ -1605,7 +2438,7 @@ export class RiftboundGameEngine {
     // C — Channel
     this.updateTurnSequenceStep('channel', currentPlayer, 'turn-channel');
     const bonusRunes = currentPlayer.firstTurnRuneBoost > 0 ? currentPlayer.firstTurnRuneBoost : 0;
-    const runesToChannel = this.RUNES_PER_TURN + bonusRunes;
+    const runesToChannel = this.ruleProfile.runesPerTurn + bonusRunes;
     this.channelRunes(currentPlayer, runesToChannel);
     currentPlayer.firstTurnRuneBoost = 0;
 
@@ -1662,7 +2495,7 @@ export class RiftboundGameEngine {
     }
     const tone = this.normalizeLogTone(entry.tone);
     const identifier =
-      (entry.id ?? '').trim() || `log_${Date.now()}_${this.rng.nextInt(0, 1000)}`;
+      (entry.id ?? '').trim() || `log_${this.now()}_${this.rng.nextInt(0, 1000)}`;
     const existing = this.gameState.duelLog.find((log) => log.id === identifier);
     if (existing) {
       return existing;
@@ -1672,7 +2505,7 @@ export class RiftboundGameEngine {
       id: identifier,
       message: trimmed.slice(0, 500),
       tone,
-      timestamp: Date.now(),
+      timestamp: this.now(),
       playerId: entry.playerId ?? null,
       actorName: resolvedName ?? null
     };
@@ -1692,7 +2525,7 @@ export class RiftboundGameEngine {
       throw new Error('Chat message cannot be empty');
     }
     const identifier =
-      (entry.id ?? '').trim() || `chat_${Date.now()}_${this.rng.nextInt(0, 1000)}`;
+      (entry.id ?? '').trim() || `chat_${this.now()}_${this.rng.nextInt(0, 1000)}`;
     const existing = this.gameState.chatLog.find((message) => message.id === identifier);
     if (existing) {
       return existing;
@@ -1704,7 +2537,7 @@ export class RiftboundGameEngine {
       playerId: entry.playerId ?? null,
       playerName: resolvedName ?? null,
       message: trimmed.slice(0, 1000),
-      timestamp: Date.now()
+      timestamp: this.now()
     };
     this.gameState.chatLog.push(message);
     this.trimLogCollection(this.gameState.chatLog, RiftboundGameEngine.MAX_CHAT_LOG_ENTRIES);
@@ -2138,13 +2971,17 @@ export class RiftboundGameEngine {
    * End the current turn and switch to the next player
    */
   private endTurn(): void {
-    const nextPlayerIndex = (this.currentPlayerIndex + 1) % this.gameState.players.length;
-    if (nextPlayerIndex === 0) {
+    const next = this.getPlayersAfter(this.getCurrentPlayer().playerId)[0];
+    const nextPlayerIndex = next
+      ? this.gameState.players.indexOf(next)
+      : (this.currentPlayerIndex + 1) % this.gameState.players.length;
+    if (nextPlayerIndex <= this.currentPlayerIndex) {
       this.gameState.turnNumber++;
     }
     this.currentPlayerIndex = nextPlayerIndex;
     this.currentPhase = GamePhase.BEGIN;
     this.gameState.pendingMainPhaseEntry = false;
+    this.pruneRestrictions(true);
   }
 
   // ========================================================================
@@ -2202,6 +3039,11 @@ export class RiftboundGameEngine {
       throw new Error('Card not in hand');
     }
 
+    const playBan = this.findProhibition('cannot_play', { playerId, cardType: card.type });
+    if (playBan) {
+      throw new Error(`${card.name} can't be played (${playBan.sourceName ?? 'restriction'})`);
+    }
+
     // Check if there's an active reaction chain
     const activeChain = this.gameState.reactionChain;
     if (activeChain && activeChain.awaitingResponse) {
@@ -2282,7 +3124,7 @@ export class RiftboundGameEngine {
     }
 
     // Validate targets
-    this.validateTargets(card, targets ?? []);
+    this.validateTargets(player, card, targets ?? []);
 
     // Remove from hand
     player.hand.splice(cardIndex, 1);
@@ -2323,7 +3165,8 @@ export class RiftboundGameEngine {
   /**
    * Validate that targets are legal
    */
-  private validateTargets(card: Card, targets: string[]): void {
+  private validateTargets(player: PlayerState, card: Card, targets: string[]): void {
+    this.assertTargetable(player, targets);
     const cardType = (card.type ?? '').toLowerCase();
     
     // For spells, use spell-specific targeting validation
@@ -2594,8 +3437,9 @@ export class RiftboundGameEngine {
    *   4. NOT_YOUR_TURN
    *   5. WRONG_PHASE / WRONG_PRIORITY
    *   6. UNSUPPORTED_CARD_TYPE
-   *   7. INSUFFICIENT_RESOURCES
-   *   8. NO_LEGAL_TARGETS
+   *   7. PROHIBITED (a "can't play" restriction covers this card)
+   *   8. INSUFFICIENT_RESOURCES
+   *   9. NO_LEGAL_TARGETS
    *
    * Rationale: cheaper-to-check / less-informative-about-opponent-state
    * reasons fire first. INSUFFICIENT_RESOURCES and NO_LEGAL_TARGETS leak
@@ -2680,7 +3524,12 @@ export class RiftboundGameEngine {
         return { ok: false, reason: 'UNSUPPORTED_CARD_TYPE' };
       }
 
-      // 7. INSUFFICIENT_RESOURCES (mirrors playCard L1970-1998 — but we do
+      // 7. PROHIBITED — restrictions are public, so this leaks nothing.
+      if (this.findProhibition('cannot_play', { playerId, cardType: card.type })) {
+        return { ok: false, reason: 'PROHIBITED' };
+      }
+
+      // 8. INSUFFICIENT_RESOURCES (mirrors playCard L1970-1998 — but we do
       // NOT emit addDuelLogEntry, that would violate purity).
       const cardCost = this.getCardCost(card);
       const costMods = this.calculateCostModifiers(card, player, []);
@@ -2691,7 +3540,7 @@ export class RiftboundGameEngine {
         return { ok: false, reason: 'INSUFFICIENT_RESOURCES' };
       }
 
-      // 8. NO_LEGAL_TARGETS (only relevant for spells with minTargets>=1)
+      // 9. NO_LEGAL_TARGETS (only relevant for spells with minTargets>=1)
       if (cardTypeLower === 'spell') {
         const profile = this.getSpellTargetingProfile(card);
         if (profile && profile.requiresSelection && profile.minTargets > 0) {
@@ -2751,20 +3600,13 @@ export class RiftboundGameEngine {
       const profile = this.getSpellTargetingProfile(card);
       if (!profile || !profile.requiresSelection) return [];
 
-      let opponent: PlayerState | undefined;
-      try {
-        opponent = this.getOtherPlayer(player);
-      } catch {
-        opponent = undefined;
-      }
-
       const candidates: TargetCandidate[] = [];
 
       switch (profile.scope) {
         case 'ally_unit':
         case 'ally_units': {
           if (profile.allowFriendly) {
-            for (const u of this.getPlayerUnits(player)) {
+            for (const u of this.getTargetableUnits(player, player)) {
               candidates.push({
                 targetId: u.instanceId ?? u.id,
                 kind: 'unit',
@@ -2776,8 +3618,8 @@ export class RiftboundGameEngine {
         }
         case 'enemy_unit':
         case 'enemy_units': {
-          if (profile.allowEnemy && opponent) {
-            for (const u of this.getPlayerUnits(opponent)) {
+          if (profile.allowEnemy) {
+            for (const u of this.getTargetableEnemyUnits(player)) {
               candidates.push({
                 targetId: u.instanceId ?? u.id,
                 kind: 'unit',
@@ -2790,7 +3632,7 @@ export class RiftboundGameEngine {
         case 'any_unit':
         case 'all_units': {
           if (profile.allowFriendly) {
-            for (const u of this.getPlayerUnits(player)) {
+            for (const u of this.getTargetableUnits(player, player)) {
               candidates.push({
                 targetId: u.instanceId ?? u.id,
                 kind: 'unit',
@@ -2798,8 +3640,8 @@ export class RiftboundGameEngine {
               });
             }
           }
-          if (profile.allowEnemy && opponent) {
-            for (const u of this.getPlayerUnits(opponent)) {
+          if (profile.allowEnemy) {
+            for (const u of this.getTargetableEnemyUnits(player)) {
               candidates.push({
                 targetId: u.instanceId ?? u.id,
                 kind: 'unit',
@@ -3082,10 +3924,345 @@ export class RiftboundGameEngine {
       if (!player.deck || player.deck.length === 0) {
         return { ok: false, reason: 'DECK_EMPTY' };
       }
-      return { ok: true };
+      return { ok: true };
+    } catch {
+      return { ok: false, reason: 'GAME_NOT_IN_PROGRESS' };
+    }
+  }
+
+  // ==========================================================================
+  // LEGAL ACTIONS
+  // --------------------------------------------------------------------------
+  // `getLegalActions` folds the predicates above and the checks inside each
+  // command into one list, so clients and bots ask once per state instead of
+  // probing every card and unit. Same contract as the predicates: read-only,
+  // never throws. Entries derived from the hand reveal the hand, so routes
+  // must only hand a player their own list.
+  // ==========================================================================
+
+  /**
+   * Every action `playerId` may take in the current state. Empty for unknown
+   * or eliminated players and once the match is decided.
+   */
+  public getLegalActions(playerId: string): LegalAction[] {
+    try {
+      let player: PlayerState;
+      try {
+        player = this.getPlayerById(playerId);
+      } catch {
+        return [];
+      }
+      if (player.eliminated) {
+        return [];
+      }
+
+      let actions: LegalAction[];
+      switch (this.gameState.status) {
+        case GameStatus.COIN_FLIP:
+        case GameStatus.BATTLEFIELD_SELECTION:
+        case GameStatus.MULLIGAN:
+          actions = this.getSetupActions(player);
+          break;
+        case GameStatus.IN_PROGRESS: {
+          // An open prompt has to be answered before anything else happens.
+          const promptActions = this.getPromptActions(player);
+          actions = promptActions.length > 0 ? promptActions : this.getInProgressActions(player);
+          if (this.canRequestTakeBack(player.playerId)) {
+            actions.push({ kind: 'request_take_back' });
+          }
+          break;
+        }
+        default:
+          return [];
+      }
+      actions.push({ kind: 'concede' });
+      return actions;
+    } catch {
+      return [];
+    }
+  }
+
+  private findOpenPrompt(type: PromptType, playerId: string): GamePrompt | undefined {
+    return this.gameState.prompts.find(
+      (prompt) => prompt.type === type && prompt.playerId === playerId && !prompt.resolved
+    );
+  }
+
+  private getSetupActions(player: PlayerState): LegalAction[] {
+    const { status } = this.gameState;
+    if (status === GameStatus.COIN_FLIP) {
+      const prompt = this.findOpenPrompt('coin_flip', player.playerId);
+      return prompt
+        ? [{ kind: 'submit_initiative', promptId: prompt.id, choices: INITIATIVE_CHOICES.map((c) => c.value) }]
+        : [];
+    }
+    if (status === GameStatus.BATTLEFIELD_SELECTION) {
+      const prompt = this.findOpenPrompt('battlefield', player.playerId);
+      const options = (prompt?.data.options as Array<{ cardId: string }> | undefined) ?? [];
+      return prompt
+        ? [{ kind: 'select_battlefield', promptId: prompt.id, options: options.map((option) => option.cardId) }]
+        : [];
+    }
+    const prompt = this.findOpenPrompt('mulligan', player.playerId);
+    return prompt
+      ? [{ kind: 'mulligan', promptId: prompt.id, max: Number(prompt.data.maxReplacements ?? 0) }]
+      : [];
+  }
+
+  private getPromptActions(player: PlayerState): LegalAction[] {
+    const actions: LegalAction[] = [];
+    for (const prompt of this.gameState.prompts) {
+      if (prompt.resolved || prompt.playerId !== player.playerId) {
+        continue;
+      }
+      switch (prompt.type) {
+        case 'discard':
+          actions.push({
+            kind: 'discard',
+            promptId: prompt.id,
+            min: Math.min(player.hand.length, Math.max(1, Number(prompt.data.count ?? 1))),
+            options: player.hand.map((card) => card.instanceId ?? card.id)
+          });
+          break;
+        case 'target':
+          actions.push({
+            kind: 'select_targets',
+            promptId: prompt.id,
+            min: Number(prompt.data.min ?? 1),
+            max: Number(prompt.data.max ?? 1)
+          });
+          break;
+        case 'damage_assignment':
+          actions.push({
+            kind: 'assign_damage',
+            promptId: prompt.id,
+            battlefieldId: String(prompt.data.battlefieldId)
+          });
+          break;
+        case 'take_back':
+          actions.push({ kind: 'respond_take_back', promptId: prompt.id });
+          break;
+        default:
+          break;
+      }
+    }
+    return actions;
+  }
+
+  private getInProgressActions(player: PlayerState): LegalAction[] {
+    const playerId = player.playerId;
+    const chain = this.gameState.reactionChain;
+    if (chain && chain.awaitingResponse) {
+      if (chain.currentReactorId !== playerId) {
+        return [];
+      }
+      return [
+        { kind: 'respond_chain' },
+        ...this.getPlayableCardActions(player),
+        ...this.getHiddenActivationActions(player)
+      ];
+    }
+
+    const actions: LegalAction[] = [];
+    const window = this.gameState.priorityWindow;
+    if (window?.holder === playerId) {
+      actions.push({ kind: 'pass_priority' });
+    }
+    if (this.hasCombatPriority(playerId)) {
+      actions.push(...this.getPlayableCardActions(player), ...this.getHiddenActivationActions(player));
+      return actions;
+    }
+    if (this.getCurrentPlayer().playerId !== playerId || (window && window.holder !== playerId)) {
+      return actions;
+    }
+
+    actions.push(...this.getPlayableCardActions(player));
+    const inMainPhase =
+      this.currentPhase === GamePhase.MAIN_1 || this.currentPhase === GamePhase.MAIN_2;
+    if (inMainPhase) {
+      actions.push(...this.getHideCardActions(player));
+    }
+    actions.push(...this.getHiddenActivationActions(player));
+
+    const leader = player.championLeader;
+    if (leader && this.canDeployChampionLeader(playerId).ok) {
+      actions.push({
+        kind: 'deploy_leader',
+        cardId: leader.id,
+        destinations: this.getDeploymentDestinations(player, leader)
+      });
+    }
+    const legend = player.championLegend;
+    if (legend && this.canActivateLegend(player, legend)) {
+      actions.push({ kind: 'activate_legend', cardId: legend.id });
+    }
+
+    for (const unit of player.board.creatures) {
+      const destinations = this.getMoveDestinations(player, unit);
+      if (destinations.length > 0) {
+        actions.push({ kind: 'move_unit', instanceId: unit.instanceId, destinations });
+      }
+    }
+    if (!this.gameState.combatContext) {
+      for (const battlefield of this.gameState.battlefields) {
+        if (this.hasPlayerBattledOnBattlefieldThisTurn(playerId, battlefield)) {
+          continue;
+        }
+        const hasUnit = this.getUnitsOnBattlefield(battlefield.battlefieldId).some(
+          (unit) => this.getPlayerByCard(unit.instanceId).playerId === playerId
+        );
+        if (hasUnit) {
+          actions.push({ kind: 'commence_battle', battlefieldId: battlefield.battlefieldId });
+        }
+      }
+    }
+    if (this.canAdvancePhase(playerId).ok) {
+      actions.push({ kind: 'advance_phase' });
+    }
+    return actions;
+  }
+
+  private getPlayableCardActions(player: PlayerState): LegalAction[] {
+    const actions: LegalAction[] = [];
+    player.hand.forEach((card, cardIndex) => {
+      if (!this.canPlayCard(player.playerId, cardIndex).ok) {
+        return;
+      }
+      if ((card.type ?? '').toLowerCase() === CardType.SPELL) {
+        const profile = this.getSpellTargetingProfile(card);
+        actions.push({
+          kind: 'play_card',
+          cardIndex,
+          cardId: card.id,
+          destinations: [],
+          targets: this.getLegalTargets(player.playerId, cardIndex),
+          min: profile?.requiresSelection ? profile.minTargets : 0
+        });
+        return;
+      }
+      actions.push({
+        kind: 'play_card',
+        cardIndex,
+        cardId: card.id,
+        destinations: this.getDeploymentDestinations(player, card),
+        targets: [],
+        min: 0
+      });
+    });
+    return actions;
+  }
+
+  /** Mirrors the checks in `resolveDeploymentLocation`. */
+  private getDeploymentDestinations(player: PlayerState, card: Card): string[] {
+    const permissions = this.getCardBattlefieldDeploymentPermissions(card);
+    const allyGrant = this.hasAllyGrantingOpenBattlefieldDeploy(player);
+    const destinations = ['base'];
+    for (const battlefield of this.gameState.battlefields) {
+      const controller = battlefield.controller;
+      if (
+        controller === player.playerId ||
+        (!controller && (permissions.canPlayToOpenBattlefield || allyGrant)) ||
+        (controller && permissions.canPlayToOccupiedEnemyBattlefield)
+      ) {
+        destinations.push(battlefield.battlefieldId);
+      }
+    }
+    return destinations;
+  }
+
+  /** Mirrors the checks in `moveUnit`. */
+  private getMoveDestinations(player: PlayerState, unit: BoardCard): string[] {
+    if (unit.isTapped || this.findProhibition('cannot_move', { instanceId: unit.instanceId })) {
+      return [];
+    }
+    const phase = this.currentPhase;
+    const origin = unit.location.zone === 'battlefield' ? unit.location.battlefieldId : null;
+    const destinations: string[] = [];
+    if (
+      origin &&
+      (phase === GamePhase.MAIN_1 || phase === GamePhase.MAIN_2 || phase === GamePhase.COMBAT)
+    ) {
+      destinations.push('base');
+    }
+    if (phase !== GamePhase.MAIN_1 && phase !== GamePhase.COMBAT) {
+      return destinations;
+    }
+    if (origin && !this.cardHasMechanic(unit, 'ganking')) {
+      return destinations;
+    }
+    for (const battlefield of this.gameState.battlefields) {
+      if (
+        battlefield.battlefieldId !== origin &&
+        !this.hasPlayerBattledOnBattlefieldThisTurn(player.playerId, battlefield)
+      ) {
+        destinations.push(battlefield.battlefieldId);
+      }
+    }
+    return destinations;
+  }
+
+  /** Mirrors the checks in `hideCard`. */
+  private getHideCardActions(player: PlayerState): LegalAction[] {
+    const actions: LegalAction[] = [];
+    player.hand.forEach((card, cardIndex) => {
+      if (!this.cardHasMechanic(card, 'Hidden') || !this.canPayCost(player, this.getHideCost(card))) {
+        return;
+      }
+      const destinations = this.gameState.battlefields
+        .filter(
+          (battlefield) =>
+            battlefield.controller === player.playerId &&
+            battlefield.hiddenCards.filter((hidden) => hidden.ownerId === player.playerId).length <
+              this.getMaxHiddenCardsOnBattlefield(battlefield, player)
+        )
+        .map((battlefield) => battlefield.battlefieldId);
+      if (destinations.length > 0) {
+        actions.push({ kind: 'hide_card', cardIndex, cardId: card.id, destinations });
+      }
+    });
+    return actions;
+  }
+
+  /** Mirrors the checks in `activateHiddenCard`; callers check timing. */
+  private getHiddenActivationActions(player: PlayerState): LegalAction[] {
+    const actions: LegalAction[] = [];
+    for (const battlefield of this.gameState.battlefields) {
+      for (const hidden of battlefield.hiddenCards) {
+        if (hidden.ownerId === player.playerId && hidden.hiddenOnTurn !== this.turnNumber) {
+          actions.push({
+            kind: 'activate_hidden',
+            instanceId: hidden.instanceId,
+            battlefieldId: battlefield.battlefieldId
+          });
+        }
+      }
+    }
+    return actions;
+  }
+
+  /** Mirrors the checks in `requestTakeBack`, short of replaying the log. */
+  private canRequestTakeBack(playerId: string): boolean {
+    if (this.gameState.prompts.some((prompt) => prompt.type === 'take_back' && !prompt.resolved)) {
+      return false;
+    }
+    try {
+      this.findTakeBackTarget(playerId);
+      return true;
     } catch {
-      return { ok: false, reason: 'GAME_NOT_IN_PROGRESS' };
+      return false;
+    }
+  }
+
+  /** Mirrors the checks in `activateChampionAbility` for the legend. */
+  private canActivateLegend(player: PlayerState, legend: Card): boolean {
+    const costProfile = parseChampionAbilityCost(legend.text ?? '');
+    if (costProfile.requiresExhaust && legend.isTapped) {
+      return false;
+    }
+    if ((legend.effectProfile?.operations ?? []).length === 0) {
+      return false;
     }
+    return this.canPayCost(player, this.championCostToCardCost(costProfile));
   }
 
   private getCardCost(card: Card): CardCost {
@@ -3205,13 +4382,12 @@ export class RiftboundGameEngine {
       }
     }
 
-    // Check opponent's board for cost increase effects
-    const opponent = this.getOtherPlayer(player);
-    const opponentBoardCards = [
+    // Check every opponent's board for cost increase effects
+    const opponentBoardCards = this.getOpponents(player).flatMap((opponent) => [
       ...opponent.board.creatures,
       ...opponent.board.artifacts,
       ...opponent.board.enchantments
-    ];
+    ]);
     for (const boardCard of opponentBoardCards) {
       const classes = boardCard.effectProfile?.classes ?? [];
       
@@ -3317,6 +4493,11 @@ export class RiftboundGameEngine {
       throw new Error('Creature is tapped');
     }
 
+    const moveBan = this.findProhibition('cannot_move', { instanceId: creature.instanceId });
+    if (moveBan) {
+      throw new Error(`${creature.name} can't move (${moveBan.sourceName ?? 'restriction'})`);
+    }
+
     const originBattlefieldId =
       creature.location.zone === 'battlefield' ? creature.location.battlefieldId : null;
 
@@ -3528,6 +4709,9 @@ export class RiftboundGameEngine {
     if (hiddenCard.hiddenOnTurn === this.turnNumber) {
       throw new Error('Hidden cards cannot be activated on the same turn they were hidden');
     }
+    // Hidden spells skip validateTargets, so check the restriction registry
+    // here, before the card leaves its slot.
+    this.assertTargetable(player, targets ?? []);
 
     // Remove from battlefield's hidden cards BEFORE adding to chain
     // This prevents double-activation issues
@@ -3682,30 +4866,139 @@ export class RiftboundGameEngine {
     }
   }
 
-  public concedeMatch(concedingPlayerId: string): MatchResult {
+  /**
+   * Concede. Ends the match, except in a free-for-all with at least two
+   * opponents left: the player is eliminated, play carries on, and null is
+   * returned.
+   */
+  public concedeMatch(concedingPlayerId: string): MatchResult | null {
     const concedingPlayer = this.getPlayerById(concedingPlayerId);
-    const opponent = this.getOtherPlayer(concedingPlayer);
     const alreadyDecided = this.getMatchResult();
     if (alreadyDecided) {
       return alreadyDecided;
     }
+    if (concedingPlayer.eliminated) {
+      throw new Error('Player has already left the match');
+    }
     this.addDuelLogEntry({
       playerId: concedingPlayer.playerId,
       message: `${this.resolvePlayerName(concedingPlayer.playerId) ?? 'Player'} concedes the duel.`,
       tone: 'warning'
     });
+    if (this.eliminatePlayer(concedingPlayer)) {
+      return null;
+    }
+    const opponent = this.getOtherPlayer(concedingPlayer);
     this.endGame(opponent, concedingPlayer, 'concede');
     return {
       matchId: this.gameState.matchId,
       winner: opponent.playerId,
       loser: concedingPlayer.playerId,
       reason: 'concede',
-      duration: Date.now() - this.gameState.timestamp,
+      duration: this.now() - this.gameState.timestamp,
       turns: this.turnNumber,
-      moves: [...this.gameState.moveHistory]
+      moves: [...this.gameState.moveHistory],
+      ...this.describeFreeForAllLosers(opponent.playerId)
+    };
+  }
+
+  /**
+   * Take a player out of a free-for-all that carries on without them: their
+   * permanents leave the game, battlefields they held become uncontrolled,
+   * and anything waiting on them is passed. Returns false, changing nothing,
+   * when fewer than two opponents would remain; the caller ends the match.
+   */
+  private eliminatePlayer(player: PlayerState): boolean {
+    if (this.getOpponents(player).length < 2) {
+      return false;
+    }
+    const playerId = player.playerId;
+    if (this.gameState.reactionChain?.currentReactorId === playerId) {
+      this.respondToChainReaction(playerId, true);
+    }
+    const wasTurnPlayer = this.getCurrentPlayer().playerId === playerId;
+    if (!wasTurnPlayer && this.gameState.priorityWindow?.holder === playerId) {
+      this.passPriority(playerId);
+    }
+    this.gameState.prompts = this.gameState.prompts.filter(
+      (prompt) => prompt.resolved || prompt.playerId !== playerId
+    );
+
+    player.eliminated = true;
+    player.board.creatures = [];
+    player.board.artifacts = [];
+    player.board.enchantments = [];
+    for (const battlefield of this.gameState.battlefields) {
+      if (battlefield.controller === playerId) {
+        battlefield.controller = undefined;
+      }
+      battlefield.contestedBy = battlefield.contestedBy.filter((entry) => entry !== playerId);
+    }
+    this.addDuelLogEntry({
+      playerId,
+      message: `${this.resolvePlayerName(playerId) ?? 'Player'} leaves the game.`,
+      tone: 'warning'
+    });
+
+    if (wasTurnPlayer) {
+      this.gameState.combatContext = null;
+      this.gameState.reactionChain = null;
+      this.gameState.pendingSpellResolution = null;
+      this.endTurn();
+      this.beginTurn();
+    } else if (this.gameState.combatContext?.damageAssignments && this.promptsResolved('damage_assignment')) {
+      this.completeCombatEngagement();
+    }
+    this.recordSnapshot(`eliminated-${playerId}`);
+    return true;
+  }
+
+  /** `losers` for a free-for-all result; nothing for a two-player match. */
+  private describeFreeForAllLosers(winnerId: string): Pick<MatchResult, 'losers'> {
+    if (!this.isFreeForAll()) {
+      return {};
+    }
+    return {
+      losers: this.gameState.players
+        .filter((player) => player.playerId !== winnerId)
+        .map((player) => player.playerId)
     };
   }
 
+  /**
+   * Settle the match by admin ruling, overriding any outcome the engine
+   * reached. The ruling is appended to `adjudications`.
+   */
+  public adjudicateResult(
+    winnerId: string,
+    ruling: { adjudicatorId: string; note: string; at?: number }
+  ): MatchResult {
+    const winner = this.getPlayerById(winnerId);
+    const loser = this.getOtherPlayer(winner);
+    const previous = this.getMatchResult();
+    const at = ruling.at ?? this.now();
+    this.gameState.adjudications = [
+      ...(this.gameState.adjudications ?? []),
+      {
+        adjudicatorId: ruling.adjudicatorId,
+        winner: winner.playerId,
+        loser: loser.playerId,
+        ...this.describeFreeForAllLosers(winner.playerId),
+        note: ruling.note,
+        previousWinner: previous?.winner ?? null,
+        previousReason: previous?.reason ?? null,
+        at
+      }
+    ];
+    this.addDuelLogEntry({
+      playerId: null,
+      message: `Match adjudicated: ${this.resolvePlayerName(winner.playerId) ?? winner.playerId} is awarded the win.`,
+      tone: 'warning'
+    });
+    this.endGame(winner, loser, 'adjudicated');
+    return this.getMatchResult()!;
+  }
+
   public activateChampionAbility(
     playerId: string,
     target: 'legend' | 'leader' = 'legend',
@@ -3766,6 +5059,14 @@ export class RiftboundGameEngine {
       message: `${this.resolvePlayerName(playerId) ?? 'Player'} passes priority.`,
       tone: 'info'
     });
+    // A window opened for the turn player's opponents goes round the table
+    // before it closes.
+    const next = this.getNextResponder(this.getCurrentPlayer().playerId, playerId);
+    if (next) {
+      this.gameState.focusPlayerId = next.playerId;
+      this.openPriorityWindow(window.type, next.playerId, window.event);
+      return;
+    }
     this.closePriorityWindow();
   }
 
@@ -3897,7 +5198,7 @@ export class RiftboundGameEngine {
         amount: gained,
         reason,
         sourceCardId,
-        timestamp: Date.now()
+        timestamp: this.now()
       });
       const playerName = this.resolvePlayerName(player.playerId) ?? 'Player';
       const sourceName = this.resolveSourceCardName(sourceCardId);
@@ -3912,7 +5213,7 @@ export class RiftboundGameEngine {
 
     if (player.victoryPoints >= player.victoryScore) {
       const opponent = this.getOtherPlayer(player);
-      this.endGame(player, opponent, 'victory_points');
+      this.endGame(player, opponent, reason === 'support' ? 'support' : 'victory_points');
     }
   }
 
@@ -3947,7 +5248,7 @@ export class RiftboundGameEngine {
       case 'objective':
         return sourceName ? `for securing ${sourceName}` : 'for securing an objective';
       case 'support':
-        return 'from a support effect';
+        return sourceName ? `from ${sourceName}` : 'from a support effect';
       case 'decking':
         return 'after the opponent exhausted their deck';
       case 'concede':
@@ -4016,7 +5317,7 @@ export class RiftboundGameEngine {
    *   2) recycle the player's trash/graveyard into the deck, randomized,
    *   3) award the opponent 1 Victory Point,
    *   4) the caller then continues drawing against the recycled deck.
-   * The game ends only when the opponent reaches VICTORY_SCORE, which falls
+   * The game ends only when the opponent reaches their victory score, which falls
    * out naturally from awardVictoryPoints.
    */
   private burnOut(player: PlayerState): void {
@@ -4077,7 +5378,7 @@ export class RiftboundGameEngine {
     item: Omit<ChainItem, 'id' | 'createdAt'>,
     caster: PlayerState
   ): void {
-    const now = Date.now();
+    const now = this.now();
     const chainItem: ChainItem = {
       ...item,
       id: `chain_${now}_${this.rng.next().toString(36).slice(2, 8)}`,
@@ -4275,7 +5576,7 @@ export class RiftboundGameEngine {
     );
     if (promptIndex !== -1) {
       this.gameState.prompts[promptIndex].resolved = true;
-      this.gameState.prompts[promptIndex].resolvedAt = Date.now();
+      this.gameState.prompts[promptIndex].resolvedAt = this.now();
       this.gameState.prompts[promptIndex].resolution = { passed: pass };
     }
 
@@ -4299,6 +5600,17 @@ export class RiftboundGameEngine {
       // If the current reactor DID add the top item and is passing (shouldn't normally happen
       // since you don't get prompted on your own cast), also resolve.
       
+      // In free-for-all every other player gets their chance, in turn order
+      // from whoever added the top item, before the chain resolves.
+      const nextReactor = this.getNextResponder(topItemCasterId, playerId);
+      if (nextReactor) {
+        chain.currentReactorId = nextReactor.playerId;
+        chain.lastUpdatedAt = this.now();
+        this.syncPendingSpellFromChain();
+        this.createChainReactionPrompt();
+        return;
+      }
+
       if (topItemCasterId !== playerId) {
         // The opponent added the top item, and this player is passing → chain resolves
         this.resolveReactionChain();
@@ -4422,7 +5734,7 @@ export class RiftboundGameEngine {
     }
 
     // Validate targets
-    this.validateTargets(card, targets);
+    this.validateTargets(player, card, targets);
 
     // Remove from hand and pay cost
     player.hand.splice(cardIndex, 1);
@@ -4436,7 +5748,7 @@ export class RiftboundGameEngine {
       );
       if (promptIndex !== -1) {
         this.gameState.prompts[promptIndex].resolved = true;
-        this.gameState.prompts[promptIndex].resolvedAt = Date.now();
+        this.gameState.prompts[promptIndex].resolvedAt = this.now();
         this.gameState.prompts[promptIndex].resolution = { playedReaction: true, cardId: card.id };
       }
     }
@@ -4528,7 +5840,7 @@ export class RiftboundGameEngine {
 
         if (profile.actions.includes('buff') && boardTarget) {
           this.applyTemporaryEffect(boardTarget.instanceId, {
-            id: `buff_${Date.now()}`,
+            id: `buff_${this.now()}`,
             affectedCards: [boardTarget.instanceId],
             duration: 1,
             effect: {
@@ -4567,7 +5879,7 @@ export class RiftboundGameEngine {
         if (spellName.includes('buff') || spellName.includes('boost')) {
           if (boardTarget) {
             this.applyTemporaryEffect(boardTarget.instanceId, {
-              id: `buff_${Date.now()}`,
+              id: `buff_${this.now()}`,
               affectedCards: [boardTarget.instanceId],
               duration: 1,
               effect: {
@@ -4624,6 +5936,7 @@ export class RiftboundGameEngine {
     const triggerRegistry = this.triggerRegistry;
     const adapter: EngineAdapter & { getTriggerRegistry: () => TriggerRegistry } = {
       getTriggerRegistry: () => triggerRegistry,
+      now: () => self.now(),
       getOtherPlayer: (p) => self.getOtherPlayer(p),
       drawCards: (p, c, r) => self.drawCards(p, c, r),
       recycleTopOfGraveyard: (p, count) => {
@@ -4659,13 +5972,28 @@ export class RiftboundGameEngine {
       spawnTokenUnits: (p, tokenSpec, ctx) =>
         self.spawnTokenUnits(p, tokenSpec as TokenSpec, ctx as EffectOperationContext),
       getPlayerByCard: (id) => self.getPlayerByCard(id),
-      moveUnitToBattlefield: (owner, unit, bf) => self.moveUnitToBattlefield(owner, unit, bf),
-      moveUnitToBase: (owner, unit) => self.moveUnitToBase(owner, unit),
+      moveUnitToBattlefield: (owner, unit, bf) => {
+        if (!self.findProhibition('cannot_move', { instanceId: unit.instanceId })) {
+          self.moveUnitToBattlefield(owner, unit, bf);
+        }
+      },
+      moveUnitToBase: (owner, unit) => {
+        if (!self.findProhibition('cannot_move', { instanceId: unit.instanceId })) {
+          self.moveUnitToBase(owner, unit);
+        }
+      },
+      registerRestrictions: (source, controller, target) =>
+        self.registerRestrictionsFromText(source, controller, { target }),
+      banishCard: (id, options) => self.banishCard(id, options),
       openPriorityWindow: (type, holder, event) => self.openPriorityWindow(type, holder, event),
       getCurrentPhase: () => String(self.gameState.currentPhase),
       setFocusPlayerId: (id) => { self.gameState.focusPlayerId = id; },
       addDuelLogEntry: (entry) => { self.addDuelLogEntry(entry); },
-      resolvePlayerName: (id) => self.resolvePlayerName(id)
+      resolvePlayerName: (id) => self.resolvePlayerName(id),
+      awardVictoryPoints: (p, amount, reason, sourceCardId) =>
+        self.awardVictoryPoints(p, amount, reason, sourceCardId),
+      winGame: (p, sourceCardId) => self.winByCardEffect(p, sourceCardId),
+      addWinCondition: (input) => self.addWinCondition(input)
     };
     this._effectsAdapter = adapter;
     return adapter;
@@ -5196,6 +6524,118 @@ export class RiftboundGameEngine {
     }
   }
 
+  /**
+   * Banish a permanent (rule 427). Banishing is not killing: no Deathknell,
+   * and the card goes to its owner's banishment instead of the graveyard.
+   * With `returnAt` the card is set aside in exile and comes back through
+   * resolveDelayedReturns.
+   */
+  private banishCard(
+    instanceId: string,
+    options?: { source?: Card; returnAt?: 'end_of_turn' }
+  ): boolean {
+    const permanent = this.findCardInstance(instanceId);
+    if (!permanent) {
+      return false;
+    }
+    const owner = this.getPlayerByCard(instanceId);
+    const zones = [owner.board.creatures, owner.board.artifacts, owner.board.enchantments];
+    const zone = zones.find((entries) => entries.includes(permanent));
+    if (!zone) {
+      return false;
+    }
+    zone.splice(zone.indexOf(permanent), 1);
+    this.updateActivationState(permanent, false, 'banished');
+    if (permanent.location.zone === 'battlefield' && permanent.location.battlefieldId) {
+      this.removeContestant(permanent.location.battlefieldId, owner.playerId);
+    }
+
+    const cardName = permanent.name ?? 'Card';
+    const sourceSuffix =
+      options?.source && options.source.id !== permanent.id ? ` by ${options.source.name}` : '';
+    if (this.isTokenCard(permanent)) {
+      this.addDuelLogEntry({
+        playerId: owner.playerId,
+        message: `${cardName} token is banished${sourceSuffix} and ceases to exist.`,
+        tone: 'warning'
+      });
+      return true;
+    }
+
+    if (options?.returnAt) {
+      owner.exile.push(permanent);
+      this.gameState.delayedReturns = this.gameState.delayedReturns ?? [];
+      this.gameState.delayedReturns.push({
+        id: `return_${permanent.instanceId}_${this.gameState.turnNumber}`,
+        instanceId: permanent.instanceId,
+        ownerId: owner.playerId,
+        timing: options.returnAt,
+        turnNumber: this.gameState.turnNumber,
+        sourceCardId: options.source?.id ?? null
+      });
+    } else {
+      owner.banishment.push(permanent);
+    }
+    this.addDuelLogEntry({
+      playerId: owner.playerId,
+      message: options?.returnAt
+        ? `${cardName} is banished${sourceSuffix} until end of turn.`
+        : `${cardName} is banished${sourceSuffix}.`,
+      tone: 'warning'
+    });
+    return true;
+  }
+
+  /**
+   * Bring back every exiled card whose return is due at this timing.
+   * Permanents re-enter their owner's base as new objects (no "play"
+   * triggers); anything else goes to hand.
+   */
+  private resolveDelayedReturns(timing: DelayedZoneReturn['timing']): void {
+    const pending = this.gameState.delayedReturns ?? [];
+    const due = pending.filter((entry) => entry.timing === timing);
+    if (due.length === 0) {
+      return;
+    }
+    // Returning cards are new objects: drop whatever was placed on the old ones.
+    this.pruneRestrictions(false);
+    this.gameState.delayedReturns = pending.filter((entry) => entry.timing !== timing);
+    // Cards come back player by player in APNAP order.
+    const order = this.getApnapOrder().map((player) => player.playerId);
+    due.sort((a, b) => order.indexOf(a.ownerId) - order.indexOf(b.ownerId));
+
+    for (const entry of due) {
+      const owner = this.gameState.players.find((player) => player.playerId === entry.ownerId);
+      const index = owner?.exile.findIndex((card) => card.instanceId === entry.instanceId) ?? -1;
+      if (!owner || index === -1) {
+        continue;
+      }
+      const card = this.toBaseCard(owner.exile.splice(index, 1)[0]);
+      const cardType = (card.type ?? '').toLowerCase() as CardType;
+      const board =
+        cardType === CardType.CREATURE
+          ? owner.board.creatures
+          : cardType === CardType.ARTIFACT
+          ? owner.board.artifacts
+          : cardType === CardType.ENCHANTMENT
+          ? owner.board.enchantments
+          : null;
+      if (board) {
+        const returned = this.createBoardCard(card);
+        returned.isTapped = cardType === CardType.CREATURE && !this.cardEntersUntapped(card);
+        board.push(returned);
+        this.logRuleUsage(returned, 'returned-from-banishment');
+      } else {
+        owner.hand.push(card);
+      }
+      this.addDuelLogEntry({
+        playerId: owner.playerId,
+        message: `${card.name ?? 'Card'} returns from banishment to ${board ? 'base' : 'hand'}.`,
+        tone: 'info'
+      });
+    }
+  }
+
   private announceUnitDeath(
     unit: BoardCard,
     owner: PlayerState,
@@ -5589,7 +7029,7 @@ export class RiftboundGameEngine {
 
   private buildTokenCard(spec: TokenSpec, source: Card): Card {
     return {
-      id: `token_${spec.slug}_${Date.now()}`,
+      id: `token_${spec.slug}_${this.now()}`,
       slug: spec.slug,
       name: `${spec.name}`,
       type: CardType.CREATURE,
@@ -6204,7 +7644,6 @@ export class RiftboundGameEngine {
    */
   private hasValidTargetsForScope(caster: PlayerState, targeting: SpellTargetingProfile): boolean {
     const scope = targeting.scope;
-    const opponent = this.getOtherPlayer(caster);
 
     switch (scope) {
       case 'none':
@@ -6225,16 +7664,16 @@ export class RiftboundGameEngine {
 
       case 'ally_unit':
       case 'ally_units':
-        return targeting.allowFriendly && this.getPlayerUnits(caster).length > 0;
+        return targeting.allowFriendly && this.getTargetableUnits(caster, caster).length > 0;
 
       case 'enemy_unit':
       case 'enemy_units':
-        return targeting.allowEnemy && this.getPlayerUnits(opponent).length > 0;
+        return targeting.allowEnemy && this.getTargetableEnemyUnits(caster).length > 0;
 
       case 'any_unit':
       case 'all_units': {
-        const friendlyUnits = targeting.allowFriendly ? this.getPlayerUnits(caster).length : 0;
-        const enemyUnits = targeting.allowEnemy ? this.getPlayerUnits(opponent).length : 0;
+        const friendlyUnits = targeting.allowFriendly ? this.getTargetableUnits(caster, caster).length : 0;
+        const enemyUnits = targeting.allowEnemy ? this.getTargetableEnemyUnits(caster).length : 0;
         return friendlyUnits + enemyUnits > 0;
       }
 
@@ -6253,6 +7692,22 @@ export class RiftboundGameEngine {
     return player.board.creatures.filter((unit) => unit.type === CardType.CREATURE);
   }
 
+  /** Units of every opponent of `actor` that `actor` is allowed to target. */
+  private getTargetableEnemyUnits(actor: PlayerState): BoardCard[] {
+    return this.getOpponents(actor).flatMap((opponent) => this.getTargetableUnits(opponent, actor));
+  }
+
+  /** `owner`'s units that `actor` is allowed to target. */
+  private getTargetableUnits(owner: PlayerState, actor: PlayerState): BoardCard[] {
+    return this.getPlayerUnits(owner).filter(
+      (unit) =>
+        !this.findProhibition('cannot_be_targeted', {
+          instanceId: unit.instanceId,
+          playerId: actor.playerId
+        })
+    );
+  }
+
   private restoreEffectContext(snapshot: EffectContextSnapshot): EffectOperationContext {
     const rebuilt: Partial<EffectOperationContext> = {};
     if (snapshot.battlefieldId) {
@@ -6379,6 +7834,7 @@ export class RiftboundGameEngine {
     }
 
     this.applyLegendEndOfTurnEffects(player);
+    this.resolveDelayedReturns('end_of_turn');
   }
 
   private applyLegendEndOfTurnEffects(player: PlayerState): void {
@@ -6410,6 +7866,302 @@ export class RiftboundGameEngine {
     });
   }
 
+  // ========================================================================
+  // RESTRICTIONS
+  // ========================================================================
+
+  /**
+   * Register a prohibition. An identical restriction from the same source is
+   * returned instead of stacking a copy, so static text can be re-applied.
+   */
+  public addRestriction(input: RestrictionInput): Restriction {
+    const restrictions = (this.gameState.restrictions = this.gameState.restrictions ?? []);
+    const key = (entry: RestrictionInput) =>
+      JSON.stringify([
+        entry.kind,
+        entry.instanceId ?? null,
+        entry.playerIds ?? null,
+        entry.cardTypes ?? null,
+        entry.duration,
+        entry.sourceInstanceId ?? null,
+        entry.sourceCardId ?? null
+      ]);
+    const existing = restrictions.find((entry) => key(entry) === key(input));
+    if (existing) {
+      return existing;
+    }
+    const restriction: Restriction = {
+      ...input,
+      id: `restriction_${++this.restrictionCounter}_${this.now()}`
+    };
+    restrictions.push(restriction);
+    return restriction;
+  }
+
+  /**
+   * First active restriction of `kind` covering the given unit, acting player
+   * and card type. Restrictions that name no unit, player or card type cover
+   * everything.
+   */
+  private findProhibition(
+    kind: RestrictionKind,
+    subject: { instanceId?: string; playerId?: string; cardType?: string | null }
+  ): Restriction | undefined {
+    return (this.gameState.restrictions ?? []).find((entry) => {
+      if (entry.kind !== kind || !this.isRestrictionActive(entry)) {
+        return false;
+      }
+      if (entry.instanceId && entry.instanceId !== subject.instanceId) {
+        return false;
+      }
+      if (entry.playerIds?.length && !entry.playerIds.includes(subject.playerId ?? '')) {
+        return false;
+      }
+      if (entry.cardTypes?.length) {
+        const cardType = (subject.cardType ?? '').toLowerCase();
+        return entry.cardTypes.some((type) => type === cardType);
+      }
+      return true;
+    });
+  }
+
+  private isRestrictionActive(restriction: Restriction): boolean {
+    if (restriction.instanceId && !this.findCardInstance(restriction.instanceId)) {
+      return false;
+    }
+    if (restriction.duration === 'while_source_on_board') {
+      return Boolean(
+        restriction.sourceInstanceId && this.findCardInstance(restriction.sourceInstanceId)
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Drop restrictions whose unit or source has left the board, and at the
+   * end of a turn the ones that only lasted that turn.
+   */
+  private pruneRestrictions(endOfTurn: boolean): void {
+    if (!this.gameState.restrictions?.length) {
+      return;
+    }
+    this.gameState.restrictions = this.gameState.restrictions.filter(
+      (entry) => !(endOfTurn && entry.duration === 'this_turn') && this.isRestrictionActive(entry)
+    );
+  }
+
+  private assertTargetable(actor: PlayerState, targetIds: string[]): void {
+    for (const targetId of targetIds) {
+      const unit = targetId ? this.findCardInstance(targetId) : undefined;
+      if (!unit) {
+        continue;
+      }
+      const ban = this.findProhibition('cannot_be_targeted', {
+        instanceId: unit.instanceId,
+        playerId: actor.playerId
+      });
+      if (ban) {
+        throw new Error(`${unit.name} can't be targeted (${ban.sourceName ?? 'restriction'})`);
+      }
+    }
+  }
+
+  /**
+   * Register the "can't" clauses in a card's text:
+   * - "<unit> can't be targeted / chosen [by enemy ...]"
+   * - "<unit> can't move"
+   * - "opponents / players / you can't play spells / units / gear / cards"
+   *
+   * Clauses about "this"/"me" bind to the source permanent; other unit
+   * clauses bind to `target`. "This turn" limits the duration; otherwise a
+   * permanent's restriction lasts while it stays on the board. With
+   * `staticOnly` (a permanent entering play), triggered clauses and clauses
+   * about other units are left to the card's abilities.
+   */
+  private registerRestrictionsFromText(
+    source: Card,
+    controller: PlayerState,
+    options?: { target?: BoardCard; staticOnly?: boolean }
+  ): Restriction[] {
+    const text = (source.text ?? '').toLowerCase().replace(/[\u2018\u2019]/g, "'");
+    const cant = /\b(?:can'?t|cannot)\b/;
+    if (!cant.test(text)) {
+      return [];
+    }
+    const sourceOnBoard = source.instanceId ? this.findCardInstance(source.instanceId) : undefined;
+    const opponentsOf = (playerId: string) =>
+      this.gameState.players.filter((player) => player.playerId !== playerId).map((player) => player.playerId);
+    const existingCount = this.gameState.restrictions?.length ?? 0;
+    const added: Restriction[] = [];
+
+    for (const clause of text.split(/(?<=[.;])\s+|\n+/)) {
+      if (!cant.test(clause)) {
+        continue;
+      }
+      if (options?.staticOnly && /^(?:when|whenever|after|at|if)\b/.test(clause.trim())) {
+        continue;
+      }
+      const [subjectText] = clause.split(cant);
+      const aboutSelf = /\b(?:this|me|i)\b/.test(subjectText);
+      if (options?.staticOnly && !aboutSelf && !/\bplay\b/.test(clause)) {
+        continue;
+      }
+      const unit = aboutSelf ? sourceOnBoard : options?.target ?? sourceOnBoard;
+      const base = {
+        duration: (/\bthis turn\b/.test(clause)
+          ? 'this_turn'
+          : sourceOnBoard
+          ? 'while_source_on_board'
+          : 'permanent') as RestrictionDuration,
+        sourceInstanceId: sourceOnBoard?.instanceId ?? null,
+        sourceCardId: source.id,
+        sourceName: source.name ?? null
+      };
+
+      if (/(?:can'?t|cannot)\s+be\s+(?:targeted|chosen)\b/.test(clause) && unit) {
+        const enemyOnly = /\bby\s+(?:an?\s+)?(?:enemy|enemies|opponents?|your opponents?)\b/.test(clause);
+        added.push(
+          this.addRestriction({
+            ...base,
+            kind: 'cannot_be_targeted',
+            instanceId: unit.instanceId,
+            playerIds: enemyOnly ? opponentsOf(this.getPlayerByCard(unit.instanceId).playerId) : null
+          })
+        );
+      }
+      if (/(?:can'?t|cannot)\s+move\b/.test(clause) && unit?.type === CardType.CREATURE) {
+        added.push(this.addRestriction({ ...base, kind: 'cannot_move', instanceId: unit.instanceId }));
+      }
+      const playMatch =
+        /\b(opponents?|players|you)\s+(?:can'?t|cannot)\s+play\s+(spells|units|gear|cards)\b/.exec(clause);
+      if (playMatch) {
+        const playerIds = playMatch[1].startsWith('opponent')
+          ? opponentsOf(controller.playerId)
+          : playMatch[1] === 'you'
+          ? [controller.playerId]
+          : null;
+        const cardTypes: Record<string, CardType[] | null> = {
+          spells: [CardType.SPELL],
+          units: [CardType.CREATURE],
+          gear: [CardType.ARTIFACT],
+          cards: null
+        };
+        added.push(
+          this.addRestriction({ ...base, kind: 'cannot_play', playerIds, cardTypes: cardTypes[playMatch[2]] })
+        );
+      }
+    }
+
+    const created = (this.gameState.restrictions?.length ?? 0) - existingCount;
+    if (created > 0) {
+      this.addDuelLogEntry({
+        playerId: controller.playerId,
+        message: `${source.name ?? 'An effect'} imposes ${created} restriction${created === 1 ? '' : 's'}.`,
+        tone: 'info'
+      });
+    }
+    return added;
+  }
+
+  // ========================================================================
+  // WIN CONDITIONS
+  // ========================================================================
+
+  /**
+   * Register an alternate win condition. The same condition from the same
+   * source is returned instead of stacking a copy.
+   */
+  public addWinCondition(input: WinConditionInput): WinCondition {
+    const conditions = (this.gameState.winConditions = this.gameState.winConditions ?? []);
+    const existing = conditions.find(
+      (entry) =>
+        entry.kind === input.kind &&
+        entry.playerId === input.playerId &&
+        entry.threshold === input.threshold &&
+        (entry.battlefieldId ?? null) === (input.battlefieldId ?? null) &&
+        (entry.sourceInstanceId ?? null) === (input.sourceInstanceId ?? null) &&
+        (entry.sourceCardId ?? null) === (input.sourceCardId ?? null)
+    );
+    if (existing) {
+      return existing;
+    }
+    this.getPlayerById(input.playerId);
+    const condition: WinCondition = {
+      ...input,
+      id: `win_condition_${++this.winConditionCounter}_${this.now()}`
+    };
+    conditions.push(condition);
+    return condition;
+  }
+
+  /**
+   * State-based checks, run once every command has finished resolving.
+   * Conditions whose source left the board are dropped; the first one
+   * still met ends the match.
+   */
+  private runStateBasedChecks(): void {
+    if (this.gameState.status !== GameStatus.IN_PROGRESS || !this.gameState.winConditions?.length) {
+      return;
+    }
+    this.gameState.winConditions = this.gameState.winConditions.filter(
+      (entry) =>
+        entry.duration !== 'while_source_on_board' ||
+        Boolean(entry.sourceInstanceId && this.findCardInstance(entry.sourceInstanceId))
+    );
+    for (const condition of this.gameState.winConditions) {
+      const player = this.gameState.players.find((entry) => entry.playerId === condition.playerId);
+      if (!player || player.eliminated || !this.isWinConditionMet(condition, player)) {
+        continue;
+      }
+      const source = condition.sourceName ?? this.resolveSourceCardName(condition.sourceCardId ?? undefined);
+      this.addDuelLogEntry({
+        playerId: player.playerId,
+        message: `${this.resolvePlayerName(player.playerId) ?? 'Player'} meets ${
+          source ? `the win condition of ${source}` : 'a win condition'
+        } and wins the game!`,
+        tone: 'success'
+      });
+      this.endGame(player, this.getOtherPlayer(player), 'win_condition');
+      return;
+    }
+  }
+
+  private isWinConditionMet(condition: WinCondition, player: PlayerState): boolean {
+    switch (condition.kind) {
+      case 'units_at_battlefield':
+        return this.gameState.battlefields.some(
+          (battlefield) =>
+            (!condition.battlefieldId || condition.battlefieldId === battlefield.battlefieldId) &&
+            this.getUnitsOnBattlefield(battlefield.battlefieldId).filter(
+              (unit) => this.getPlayerByCard(unit.instanceId).playerId === player.playerId
+            ).length >= condition.threshold
+        );
+      case 'control_battlefields':
+        return (
+          this.gameState.battlefields.filter((battlefield) => battlefield.controller === player.playerId)
+            .length >= condition.threshold
+        );
+      default:
+        return false;
+    }
+  }
+
+  /** Card text said the player wins the game. */
+  private winByCardEffect(player: PlayerState, sourceCardId?: string): void {
+    if (this.gameState.status !== GameStatus.IN_PROGRESS) {
+      return;
+    }
+    const sourceName = this.resolveSourceCardName(sourceCardId);
+    this.addDuelLogEntry({
+      playerId: player.playerId,
+      message: `${this.resolvePlayerName(player.playerId) ?? 'Player'} wins the game${
+        sourceName ? ` with ${sourceName}` : ''
+      }!`,
+      tone: 'success'
+    });
+    this.endGame(player, this.getOtherPlayer(player), 'instant_win');
+  }
+
   // ========================================================================
   // HELPERS
   // ========================================================================
@@ -6760,7 +8512,7 @@ export class RiftboundGameEngine {
       }
     }
     return {
-      id: sourceCardId ?? `spell_${Date.now()}`,
+      id: sourceCardId ?? `spell_${this.now()}`,
       name: sourceCardName ?? 'Spell',
       type: CardType.SPELL,
       text: sourceCardName ?? 'Spell effect'
@@ -6976,14 +8728,22 @@ export class RiftboundGameEngine {
     playerId: string,
     data: Record<string, unknown>
   ): GamePrompt {
+    const createdAt = this.now();
     const prompt: GamePrompt = {
-      id: `${type}_${++this.promptCounter}_${Date.now()}`,
+      id: `${type}_${++this.promptCounter}_${createdAt}`,
       type,
       playerId,
       data,
       resolved: false,
-      createdAt: Date.now()
+      createdAt
     };
+    const clock = this.gameState.clock;
+    if (clock) {
+      // Chain responses are priority passes in all but name.
+      prompt.expiresAt =
+        createdAt +
+        (type === 'chain_reaction' ? clock.config.priorityWindowMs : clock.config.promptMs);
+    }
     this.gameState.prompts.push(prompt);
     return prompt;
   }
@@ -7001,7 +8761,7 @@ export class RiftboundGameEngine {
   private resolvePrompt(prompt: GamePrompt, resolution: Record<string, unknown>): void {
     prompt.resolved = true;
     prompt.resolution = resolution;
-    prompt.resolvedAt = Date.now();
+    prompt.resolvedAt = this.now();
     this.tryAutoAdvanceFromBeginPhase();
   }
 
@@ -7012,13 +8772,16 @@ export class RiftboundGameEngine {
   }
 
   private openPriorityWindow(type: PriorityWindow['type'], holder: string, event?: string): void {
-    const timestamp = Date.now();
+    const timestamp = this.now();
     this.gameState.priorityWindow = {
       id: `priority_${timestamp}_${this.rng.next()}`,
       type,
       holder,
       openedAt: timestamp,
-      event
+      event,
+      ...(this.gameState.clock
+        ? { expiresAt: timestamp + this.gameState.clock.config.priorityWindowMs }
+        : {})
     };
   }
 
@@ -7027,7 +8790,7 @@ export class RiftboundGameEngine {
   }
 
   private recordSnapshot(reason: string): void {
-    const timestamp = Date.now();
+    const timestamp = this.now();
     const summary = {
       currentPlayer: this.gameState.players[this.currentPlayerIndex]?.playerId ?? null,
       scores: this.gameState.players.map((player) => ({
@@ -7143,7 +8906,7 @@ export class RiftboundGameEngine {
         cardId: boardCard.id,
         isStateful: fallbackStateful,
         active: fallbackStateful,
-        lastChangedAt: Date.now(),
+        lastChangedAt: this.now(),
         history: []
       };
     } else if (!Array.isArray(boardCard.activationState.history)) {
@@ -7151,7 +8914,7 @@ export class RiftboundGameEngine {
     }
 
     boardCard.activationState.active = active;
-    boardCard.activationState.lastChangedAt = Date.now();
+    boardCard.activationState.lastChangedAt = this.now();
     boardCard.activationState.history.push({
       at: boardCard.activationState.lastChangedAt,
       reason,
@@ -7168,7 +8931,7 @@ export class RiftboundGameEngine {
       return;
     }
 
-    const timestamp = Date.now();
+    const timestamp = this.now();
     if (!Array.isArray(card.ruleLog)) {
       card.ruleLog = [];
     }
@@ -7253,15 +9016,77 @@ export class RiftboundGameEngine {
         return parsed;
       }
     }
-    return null;
+    return null;
+  }
+
+  private getCurrentPlayer(): PlayerState {
+    return this.gameState.players[this.currentPlayerIndex];
+  }
+
+  /**
+   * The opponent of a two-player match. In free-for-all this is the next
+   * opponent in turn order, which is who "the opponent" effects and
+   * single-holder windows fall back to.
+   */
+  private getOtherPlayer(player: PlayerState): PlayerState {
+    return (
+      this.getOpponents(player)[0] ??
+      this.gameState.players.find((p) => p.playerId !== player.playerId)!
+    );
+  }
+
+  /** True for the 3-4 player free-for-all format. */
+  private isFreeForAll(): boolean {
+    return this.gameState.players.length > 2;
+  }
+
+  /** One battlefield per player in free-for-all; the rule profile's count otherwise. */
+  private getBattlefieldCount(): number {
+    return this.isFreeForAll() ? this.gameState.players.length : this.ruleProfile.battlefieldCount;
+  }
+
+  /**
+   * Players still in the match in turn order, starting after `playerId` and
+   * wrapping round the table, so `playerId` itself comes last.
+   */
+  private getPlayersAfter(playerId: string): PlayerState[] {
+    const players = this.gameState.players;
+    const start = players.findIndex((p) => p.playerId === playerId);
+    const ordered: PlayerState[] = [];
+    for (let step = 1; step <= players.length; step++) {
+      const candidate = players[(start + step) % players.length];
+      if (!candidate.eliminated) {
+        ordered.push(candidate);
+      }
+    }
+    return ordered;
   }
 
-  private getCurrentPlayer(): PlayerState {
-    return this.gameState.players[this.currentPlayerIndex];
+  /** Every opponent still in the match, in turn order from `player`. */
+  private getOpponents(player: PlayerState): PlayerState[] {
+    return this.getPlayersAfter(player.playerId).filter((p) => p.playerId !== player.playerId);
   }
 
-  private getOtherPlayer(player: PlayerState): PlayerState {
-    return this.gameState.players.find((p) => p.playerId !== player.playerId)!;
+  /**
+   * APNAP order: the turn player, then each other player in turn order.
+   * Simultaneous events are handled player by player in this order.
+   */
+  private getApnapOrder(): PlayerState[] {
+    const current = this.getCurrentPlayer();
+    return [current, ...this.getOpponents(current)].filter((p) => !p.eliminated);
+  }
+
+  /**
+   * Who answers next once `passerId` passes on something `anchorId` did:
+   * every other player (limited to `pool` when given) gets one chance, in
+   * turn order from the anchor. Null once everyone has had theirs.
+   */
+  private getNextResponder(anchorId: string, passerId: string, pool?: string[]): PlayerState | null {
+    const order = this.getOpponents(this.getPlayerById(anchorId)).filter(
+      (p) => !pool || pool.includes(p.playerId)
+    );
+    const index = order.findIndex((p) => p.playerId === passerId);
+    return index === -1 ? null : order[index + 1] ?? null;
   }
 
   private getPlayerById(playerId: string): PlayerState {
@@ -7304,10 +9129,29 @@ export class RiftboundGameEngine {
     return target;
   }
 
+  /**
+   * The card under a permanent, without its board state or instance id, so
+   * it can come back into play as a new object.
+   */
+  private toBaseCard(card: Card): Card {
+    const {
+      instanceId: _instanceId,
+      isTapped: _isTapped,
+      currentToughness: _currentToughness,
+      summoned: _summoned,
+      counters: _counters,
+      activationState: _activationState,
+      ruleLog: _ruleLog,
+      location: _location,
+      ...base
+    } = card as BoardCard;
+    return this.cloneCard(base);
+  }
+
   private createBoardCard(card: Card): BoardCard {
     const activationTemplate = this.cardActivationTemplates[card.id];
     const initialActive = activationTemplate?.isStateful ?? Boolean(card.activationProfile?.stateful);
-    const timestamp = Date.now();
+    const timestamp = this.now();
     const resolvedInstanceId = card.instanceId ?? this.nextCardInstanceId(card.id);
     const cloned = this.cloneCard(card);
     cloned.instanceId = resolvedInstanceId;
@@ -7388,6 +9232,7 @@ export class RiftboundGameEngine {
         throw new Error('Only permanent card types can be deployed.');
     }
     this.logRuleUsage(boardCard, 'enter-play');
+    this.registerRestrictionsFromText(boardCard, player, { staticOnly: true });
     this.triggerAbilities(boardCard, 'play', player, targets);
     
     // If deployed to an open battlefield, trigger combat engagement
@@ -7610,7 +9455,7 @@ export class RiftboundGameEngine {
       );
     }
 
-    const count = Math.min(this.DEFAULT_BATTLEFIELD_COUNT, battlefieldRecords.length);
+    const count = Math.min(this.ruleProfile.battlefieldCount, battlefieldRecords.length);
     const pool = [...battlefieldRecords];
     this.shuffle(pool);
     return pool.slice(0, count).map((record) => this.cloneCard(this.convertRecordToCard(record)));
@@ -7871,7 +9716,7 @@ export class RiftboundGameEngine {
           } and claims an immediate victory!`,
           tone: 'success'
         });
-        this.endGame(player, opponent, 'victory_points');
+        this.endGame(player, opponent, 'instant_win');
         return true;
       }
       case 'SFD-219': {
@@ -7953,7 +9798,7 @@ export class RiftboundGameEngine {
     if (triggerType === 'unit_move_from' && cardId === 'OGN-277' && context?.boardTarget) {
       // Back-Alley Bar grants +1 might to the moving unit for the turn.
       this.applyTemporaryEffect(context.boardTarget.instanceId, {
-        id: `back_alley_${Date.now()}`,
+        id: `back_alley_${this.now()}`,
         affectedCards: [context.boardTarget.instanceId],
         duration: 1,
         effect: {
@@ -8212,6 +10057,7 @@ export class RiftboundGameEngine {
     const attackers: BoardCard[] = [];
     const defenders: BoardCard[] = [];
     let defendingPlayerId: string | null = null;
+    const defendingPlayerIds: string[] = [];
     if (contestingUnits.length > 0) {
       contestingUnits.forEach((unit) => {
         const owner = this.getPlayerByCard(unit.instanceId);
@@ -8220,6 +10066,9 @@ export class RiftboundGameEngine {
         } else {
           defenders.push(unit);
           defendingPlayerId = defendingPlayerId ?? owner.playerId;
+          if (!defendingPlayerIds.includes(owner.playerId)) {
+            defendingPlayerIds.push(owner.playerId);
+          }
         }
       });
     }
@@ -8228,6 +10077,7 @@ export class RiftboundGameEngine {
       battlefieldId: battlefield.battlefieldId,
       initiatedBy: player.playerId,
       defendingPlayerId,
+      defendingPlayerIds,
       attackingUnitIds: attackers.map((unit) => unit.instanceId),
       defendingUnitIds: defenders.map((unit) => unit.instanceId),
       priorityStage: 'action',
@@ -8261,6 +10111,13 @@ export class RiftboundGameEngine {
         this.triggerUnits(attackers, 'attack');
       }
       if (defenders.length > 0) {
+        // Several defending players trigger in APNAP order.
+        const order = this.getApnapOrder().map((p) => p.playerId);
+        defenders.sort(
+          (a, b) =>
+            order.indexOf(this.getPlayerByCard(a.instanceId).playerId) -
+            order.indexOf(this.getPlayerByCard(b.instanceId).playerId)
+        );
         this.triggerUnits(defenders, 'defend');
         const defenderOwners = Array.from(
           new Set(defenders.map((unit) => this.getPlayerByCard(unit.instanceId).playerId))
@@ -8288,6 +10145,9 @@ export class RiftboundGameEngine {
       this.resetCombatContext();
       return;
     }
+    if (!context.damageAssignments && this.requestDamageAssignments(battlefield)) {
+      return;
+    }
     this.addDuelLogEntry({
       message: `Combat at ${battlefield.name} resolves.`,
       tone: 'info'
@@ -8596,31 +10456,153 @@ export class RiftboundGameEngine {
   }
 
   /**
-   * Resolve a contested battlefield via per-unit combat damage assignment.
-   *
-   * Previous implementation summed might on each side and wiped every losing
-   * unit regardless of individual stats; that made Tank, Deflect, and excess
-   * power irrelevant, and caused lopsided games that ended via burnout. The
-   * new flow:
-   *   1. Each side computes a total damage pool (sum of each unit's
-   *      effectiveCombatPower).
-   *   2. Side A assigns its damage to side B's units (Tank-first), and vice
-   *      versa. Deflect on a defender redirects one point back to the other
-   *      side's attackers. Damage is applied simultaneously.
-   *   3. Units whose currentToughness drops to 0 are destroyed.
-   *   4. Controller is whichever side has surviving units. If both sides
-   *      survive, the battlefield remains contested (no controller). If both
-   *      sides wipe, the battlefield is left uncontrolled (stalemate).
+   * Points of a damage pool needed to destroy `unit`: its toughness, plus the
+   * point Deflect redirects and the point Tank negates.
    */
-  private resolveBattlefieldOutcome(battlefield: BattlefieldState): void {
-    const context = this.gameState.combatContext;
-    const attackInitiator = context?.initiatedBy ?? null;
-    const defendersPresent = Boolean(context?.defendingUnitIds?.length);
-    const didInitiateAttack = (playerId: string): boolean =>
-      Boolean(defendersPresent && attackInitiator && attackInitiator === playerId);
+  private lethalDamageFor(unit: BoardCard): number {
+    const toughness = Math.max(0, unit.currentToughness ?? unit.toughness ?? 0);
+    return (
+      toughness +
+      (this.cardHasMechanic(unit, 'Deflect') ? 1 : 0) +
+      (this.cardHasMechanic(unit, 'Tank') ? 1 : 0)
+    );
+  }
+
+  /**
+   * The split `assignCombatDamage` would make, expressed as points of the
+   * pool per unit. Used as the suggested (and timeout) answer to a
+   * damage_assignment prompt; any excess lands on the last unit.
+   */
+  private defaultDamageAssignment(pool: number, defenders: BoardCard[]): Record<string, number> {
+    const order = [
+      ...defenders.filter((u) => this.cardHasMechanic(u, 'Tank')),
+      ...defenders.filter((u) => !this.cardHasMechanic(u, 'Tank'))
+    ];
+    const assignment: Record<string, number> = {};
+    let remaining = pool;
+    for (const unit of order) {
+      if (remaining <= 0) break;
+      const points = Math.min(remaining, this.lethalDamageFor(unit));
+      if (points > 0) {
+        assignment[unit.instanceId] = points;
+        remaining -= points;
+      }
+    }
+    const last = order[order.length - 1];
+    if (remaining > 0 && last) {
+      assignment[last.instanceId] = (assignment[last.instanceId] ?? 0) + remaining;
+    }
+    return assignment;
+  }
+
+  /**
+   * Whether splitting `pool` across `defenders` involves a real decision. It
+   * does not when everything dies anyway, or when Tank-first and
+   * lethal-before-next leave only one legal split.
+   */
+  private hasDamageAssignmentChoice(pool: number, defenders: BoardCard[]): boolean {
+    if (pool <= 0 || defenders.length < 2) {
+      return false;
+    }
+    const tanks = defenders.filter((u) => this.cardHasMechanic(u, 'Tank'));
+    const others = defenders.filter((u) => !this.cardHasMechanic(u, 'Tank'));
+    const lethalSum = (units: BoardCard[]) =>
+      units.reduce((sum, unit) => sum + this.lethalDamageFor(unit), 0);
+    if (pool >= lethalSum(defenders)) {
+      return false;
+    }
+    if (tanks.length > 0 && pool <= lethalSum(tanks)) {
+      return tanks.length > 1;
+    }
+    return others.length > 1;
+  }
 
-    const units = this.getUnitsOnBattlefield(battlefield.battlefieldId);
-    // Group by player so each "side" is resolved together.
+  /**
+   * Check a player's damage split against the assignment rules and return it
+   * without zero entries: the whole pool must be assigned, Tank units take
+   * lethal before anything else, a unit takes lethal before the next one is
+   * damaged, and excess only goes out once every unit has lethal.
+   */
+  private validateDamageAssignment(
+    pool: number,
+    defenders: BoardCard[],
+    assignments: Record<string, number>
+  ): Record<string, number> {
+    const defenderIds = new Set(defenders.map((unit) => unit.instanceId));
+    const normalized: Record<string, number> = {};
+    let total = 0;
+    for (const [instanceId, raw] of Object.entries(assignments ?? {})) {
+      if (!defenderIds.has(instanceId)) {
+        throw new Error(`Unit ${instanceId} is not an enemy unit in this combat`);
+      }
+      const amount = Number(raw);
+      if (!Number.isInteger(amount) || amount < 0) {
+        throw new Error('Damage amounts must be whole numbers of zero or more');
+      }
+      if (amount > 0) {
+        normalized[instanceId] = amount;
+        total += amount;
+      }
+    }
+    if (total !== pool) {
+      throw new Error(`Assign exactly ${pool} damage (got ${total})`);
+    }
+    const assigned = (unit: BoardCard) => normalized[unit.instanceId] ?? 0;
+    const isLethal = (unit: BoardCard) => assigned(unit) >= this.lethalDamageFor(unit);
+    const partial = defenders.filter((unit) => assigned(unit) > 0 && !isLethal(unit));
+    if (partial.length > 1) {
+      throw new Error('Assign lethal damage to a unit before damaging the next one');
+    }
+    const overkill = defenders.some((unit) => assigned(unit) > this.lethalDamageFor(unit));
+    if (overkill && !defenders.every(isLethal)) {
+      throw new Error('Excess damage can only be assigned once every enemy unit has lethal damage');
+    }
+    const tanks = defenders.filter((unit) => this.cardHasMechanic(unit, 'Tank'));
+    const damagesNonTank = defenders.some(
+      (unit) => !this.cardHasMechanic(unit, 'Tank') && assigned(unit) > 0
+    );
+    if (damagesNonTank && !tanks.every(isLethal)) {
+      throw new Error('Tank units must be assigned lethal damage first');
+    }
+    return normalized;
+  }
+
+  /**
+   * Turn a validated split into dealt damage, applying Deflect and Tank to
+   * each unit's share the same way `assignCombatDamage` does.
+   */
+  private applyDamageAssignment(
+    assignment: Record<string, number>,
+    defenders: BoardCard[]
+  ): { perUnit: Map<string, number>; redirected: number } {
+    const perUnit = new Map<string, number>();
+    let redirected = 0;
+    for (const unit of defenders) {
+      let remaining = assignment[unit.instanceId] ?? 0;
+      if (remaining > 0 && this.cardHasMechanic(unit, 'Deflect')) {
+        redirected += 1;
+        remaining -= 1;
+      }
+      if (remaining > 0 && this.cardHasMechanic(unit, 'Tank')) {
+        remaining -= 1;
+      }
+      const toughness = Math.max(0, unit.currentToughness ?? unit.toughness ?? 0);
+      const damageToUnit = Math.min(remaining, toughness);
+      if (damageToUnit > 0) {
+        perUnit.set(unit.instanceId, damageToUnit);
+      }
+    }
+    return { perUnit, redirected };
+  }
+
+  /**
+   * Group the units on a battlefield by controller, each side carrying the
+   * total combat damage it deals.
+   */
+  private collectCombatSides(
+    battlefield: BattlefieldState
+  ): Array<{ player: PlayerState; units: BoardCard[]; damagePool: number }> {
+    const context = this.gameState.combatContext;
     const presence = new Map<
       string,
       {
@@ -8629,7 +10611,7 @@ export class RiftboundGameEngine {
         damagePool: number;
       }
     >();
-    units.forEach((unit) => {
+    this.getUnitsOnBattlefield(battlefield.battlefieldId).forEach((unit) => {
       const owner = this.getPlayerByCard(unit.instanceId);
       const entry =
         presence.get(owner.playerId) ??
@@ -8640,15 +10622,100 @@ export class RiftboundGameEngine {
       entry.damagePool += this.effectiveCombatPower(unit, { isAttacking, isDefending });
       presence.set(owner.playerId, entry);
     });
+    // APNAP, so deaths and combat triggers are handled turn player first.
+    const order = this.getApnapOrder().map((p) => p.playerId);
+    return Array.from(presence.values()).sort(
+      (a, b) => order.indexOf(a.player.playerId) - order.indexOf(b.player.playerId)
+    );
+  }
+
+  /** Units at the battlefield that `side` fights: everyone else's, in board order. */
+  private getEnemyCombatUnits(battlefield: BattlefieldState, side: { player: PlayerState }): BoardCard[] {
+    return this.getUnitsOnBattlefield(battlefield.battlefieldId).filter(
+      (unit) => this.getPlayerByCard(unit.instanceId).playerId !== side.player.playerId
+    );
+  }
+
+  /**
+   * Ask each opted-in player with a real choice how to split their damage.
+   * Returns false (resolve now) when nobody needs asking.
+   */
+  private requestDamageAssignments(battlefield: BattlefieldState): boolean {
+    const context = this.gameState.combatContext;
+    const choosers = this.gameState.damageAssignmentPlayerIds ?? [];
+    const sides = this.collectCombatSides(battlefield);
+    if (!context || choosers.length === 0 || sides.length < 2) {
+      return false;
+    }
+    let prompted = false;
+    sides.forEach((side) => {
+      const enemyUnits = this.getEnemyCombatUnits(battlefield, side);
+      if (
+        !choosers.includes(side.player.playerId) ||
+        !this.hasDamageAssignmentChoice(side.damagePool, enemyUnits)
+      ) {
+        return;
+      }
+      this.enqueuePrompt('damage_assignment', side.player.playerId, {
+        battlefieldId: battlefield.battlefieldId,
+        damagePool: side.damagePool,
+        units: enemyUnits.map((unit) => ({
+          instanceId: unit.instanceId,
+          name: unit.name ?? null,
+          lethal: this.lethalDamageFor(unit),
+          tank: this.cardHasMechanic(unit, 'Tank'),
+          deflect: this.cardHasMechanic(unit, 'Deflect')
+        })),
+        suggested: this.defaultDamageAssignment(side.damagePool, enemyUnits)
+      });
+      prompted = true;
+    });
+    if (!prompted) {
+      return false;
+    }
+    context.damageAssignments = {};
+    if (this.gameState.priorityWindow?.type === 'combat') {
+      this.closePriorityWindow();
+    }
+    this.addDuelLogEntry({
+      message: `Combat damage at ${battlefield.name} is being assigned.`,
+      tone: 'info'
+    });
+    return true;
+  }
+
+  /**
+   * Resolve a contested battlefield via per-unit combat damage assignment.
+   *
+   * Previous implementation summed might on each side and wiped every losing
+   * unit regardless of individual stats; that made Tank, Deflect, and excess
+   * power irrelevant, and caused lopsided games that ended via burnout. The
+   * new flow:
+   *   1. Each side computes a total damage pool (sum of each unit's
+   *      effectiveCombatPower).
+   *   2. Each side assigns its damage to the other sides' units (Tank-first).
+   *      Deflect on a defender redirects one point back to the side that
+   *      dealt it. Damage is applied simultaneously.
+   *   3. Units whose currentToughness drops to 0 are destroyed.
+   *   4. Controller is the only side with surviving units. If several sides
+   *      survive, the battlefield remains contested (no controller). If every
+   *      side wipes, the battlefield is left uncontrolled (stalemate).
+   */
+  private resolveBattlefieldOutcome(battlefield: BattlefieldState): void {
+    const context = this.gameState.combatContext;
+    const attackInitiator = context?.initiatedBy ?? null;
+    const defendersPresent = Boolean(context?.defendingUnitIds?.length);
+    const didInitiateAttack = (playerId: string): boolean =>
+      Boolean(defendersPresent && attackInitiator && attackInitiator === playerId);
+
+    const groups = this.collectCombatSides(battlefield);
 
-    if (presence.size === 0) {
+    if (groups.length === 0) {
       battlefield.controller = undefined;
       battlefield.contestedBy = [];
       return;
     }
 
-    const groups = Array.from(presence.values());
-
     // Uncontested: a single side holds the field.
     if (groups.length === 1) {
       const uncontested = groups[0];
@@ -8667,19 +10734,26 @@ export class RiftboundGameEngine {
       return;
     }
 
-    // Two-sided (ignore unusual 3+ player cases; only first two sides fight).
-    const sideA = groups[0];
-    const sideB = groups[1];
-
-    // Assign damage simultaneously (compute assignments first, then mutate).
-    const aToB = this.assignCombatDamage(sideA.damagePool, sideB.units);
-    const bToA = this.assignCombatDamage(sideB.damagePool, sideA.units);
+    // Every side deals its damage to the units of all the other sides at
+    // once. With two sides this is the usual one-on-one fight; in
+    // free-for-all a side's pool is spread across every enemy present.
+    // Assignments are computed first, then applied together.
+    // A side whose controller answered a damage_assignment prompt uses that
+    // split; everyone else gets the automatic Tank-first assignment.
+    const chosen = context?.damageAssignments ?? {};
+    const dealt = groups.map((side) => {
+      const enemyUnits = this.getEnemyCombatUnits(battlefield, side);
+      return chosen[side.player.playerId]
+        ? this.applyDamageAssignment(chosen[side.player.playerId], enemyUnits)
+        : this.assignCombatDamage(side.damagePool, enemyUnits);
+    });
 
-    // Deflect redirects damage back to the OTHER side's attackers. Distribute
+    // Deflect redirects damage back to the side that dealt it. Distribute
     // the redirected damage across that side's units (Tank-first too, since
     // Tank applies regardless of source).
-    const redirectedToA = this.assignCombatDamage(aToB.redirected, sideA.units);
-    const redirectedToB = this.assignCombatDamage(bToA.redirected, sideB.units);
+    const redirected = groups.map((side, index) =>
+      this.assignCombatDamage(dealt[index].redirected, side.units)
+    );
 
     const applyDamage = (
       side: { units: BoardCard[] },
@@ -8695,8 +10769,10 @@ export class RiftboundGameEngine {
         }
       }
     };
-    applyDamage(sideA, [bToA.perUnit, redirectedToA.perUnit]);
-    applyDamage(sideB, [aToB.perUnit, redirectedToB.perUnit]);
+    groups.forEach((side, index) => {
+      const incoming = dealt.filter((_, other) => other !== index).map((entry) => entry.perUnit);
+      applyDamage(side, [...incoming, redirected[index].perUnit]);
+    });
 
     // Destroy any unit whose toughness is now <= 0.
     const destroyDead = (side: { units: BoardCard[] }): BoardCard[] => {
@@ -8710,14 +10786,10 @@ export class RiftboundGameEngine {
       }
       return survivors;
     };
-    const sideASurvivors = destroyDead(sideA);
-    const sideBSurvivors = destroyDead(sideB);
-
-    const sideAWins = sideASurvivors.length > 0 && sideBSurvivors.length === 0;
-    const sideBWins = sideBSurvivors.length > 0 && sideASurvivors.length === 0;
-    const mutualWipe = sideASurvivors.length === 0 && sideBSurvivors.length === 0;
+    const survivorsBySide = groups.map((side) => destroyDead(side));
+    const survivingSides = groups.filter((_, index) => survivorsBySide[index].length > 0);
 
-    if (mutualWipe) {
+    if (survivingSides.length === 0) {
       battlefield.controller = undefined;
       battlefield.contestedBy = [];
       this.addDuelLogEntry({
@@ -8727,16 +10799,19 @@ export class RiftboundGameEngine {
       return;
     }
 
-    if (sideAWins || sideBWins) {
-      const winnerSide = sideAWins ? sideA : sideB;
-      const winnerSurvivors = sideAWins ? sideASurvivors : sideBSurvivors;
-      const loserSide = sideAWins ? sideB : sideA;
+    if (survivingSides.length === 1) {
+      const winnerSide = survivingSides[0];
+      const winnerSurvivors = survivorsBySide[groups.indexOf(winnerSide)];
+      const loserPools = groups
+        .filter((side) => side !== winnerSide)
+        .map((side) => side.damagePool)
+        .join(' / ');
       const winnerName =
         this.resolvePlayerName(winnerSide.player.playerId) ?? 'Player';
       const winnerUnits = this.describeUnitList(winnerSurvivors);
       this.addDuelLogEntry({
         playerId: winnerSide.player.playerId,
-        message: `${winnerName}'s ${winnerUnits} prevail at ${battlefield.name} (${winnerSide.damagePool} vs ${loserSide.damagePool} might).`,
+        message: `${winnerName}'s ${winnerUnits} prevail at ${battlefield.name} (${winnerSide.damagePool} vs ${loserPools} might).`,
         tone: 'success'
       });
       this.triggerUnits(winnerSurvivors, 'combat_win');
@@ -8747,11 +10822,13 @@ export class RiftboundGameEngine {
       return;
     }
 
-    // Both sides have survivors: battlefield remains contested, no controller.
+    // Several sides have survivors: battlefield remains contested, no controller.
     battlefield.controller = undefined;
-    battlefield.contestedBy = [sideA.player.playerId, sideB.player.playerId];
+    battlefield.contestedBy = survivingSides.map((side) => side.player.playerId);
     this.addDuelLogEntry({
-      message: `${battlefield.name} remains contested; both sides have surviving units.`,
+      message: `${battlefield.name} remains contested; ${
+        survivingSides.length === 2 ? 'both' : 'several'
+      } sides have surviving units.`,
       tone: 'info'
     });
   }
@@ -8766,7 +10843,15 @@ export class RiftboundGameEngine {
       message: `${this.resolvePlayerName(player.playerId) ?? 'Player'} passes priority.`,
       tone: 'info'
     });
+    const combatants = this.getCombatPlayerIds();
     if (context.priorityStage === 'reaction') {
+      const nextReactor = context.lastActionPlayerId
+        ? this.getNextResponder(context.lastActionPlayerId, player.playerId, combatants)
+        : null;
+      if (nextReactor) {
+        this.openPriorityWindow('combat', nextReactor.playerId, 'battlefield-engagement');
+        return;
+      }
       const nextHolder =
         context.lastActionPlayerId ?? this.getOtherPlayer(player).playerId;
       context.priorityStage = 'action';
@@ -8775,13 +10860,33 @@ export class RiftboundGameEngine {
       return;
     }
     context.actionPasses += 1;
-    if (context.actionPasses >= 2) {
+    if (context.actionPasses >= combatants.length) {
       this.completeCombatEngagement();
       return;
     }
-    const opponent = this.getOtherPlayer(player);
-    this.gameState.focusPlayerId = opponent.playerId;
-    this.openPriorityWindow('combat', opponent.playerId, 'battlefield-engagement');
+    const nextHolder =
+      this.getPlayersAfter(player.playerId).find((p) => combatants.includes(p.playerId)) ??
+      this.getOtherPlayer(player);
+    this.gameState.focusPlayerId = nextHolder.playerId;
+    this.openPriorityWindow('combat', nextHolder.playerId, 'battlefield-engagement');
+  }
+
+  /**
+   * Players who take part in the current combat's priority passes, in APNAP
+   * order. Two-player combat always involves both players; in free-for-all
+   * only the attacker and the defending players pass priority.
+   */
+  private getCombatPlayerIds(): string[] {
+    const context = this.gameState.combatContext;
+    const order = this.getApnapOrder().map((p) => p.playerId);
+    if (!context || !this.isFreeForAll()) {
+      return order;
+    }
+    const involved = [
+      context.initiatedBy,
+      ...(context.defendingPlayerIds ?? (context.defendingPlayerId ? [context.defendingPlayerId] : []))
+    ];
+    return order.filter((playerId) => involved.includes(playerId));
   }
 
   private advanceCombatPriorityAfterPlay(
@@ -8802,9 +10907,16 @@ export class RiftboundGameEngine {
       this.gameState.combatContext.lastActionPlayerId = player.playerId;
       this.gameState.combatContext.priorityStage = 'reaction';
       this.gameState.combatContext.actionPasses = 0;
-      const opponent = this.getOtherPlayer(player);
+      const combatants = this.getCombatPlayerIds();
+      const reactor = this.getOpponents(player).find((p) => combatants.includes(p.playerId));
       this.gameState.focusPlayerId = player.playerId;
-      this.openPriorityWindow('combat', opponent.playerId, 'battlefield-engagement');
+      if (!reactor) {
+        // Nobody else is in this fight: the actor keeps priority.
+        this.gameState.combatContext.priorityStage = 'action';
+        this.openPriorityWindow('combat', player.playerId, 'battlefield-engagement');
+        return;
+      }
+      this.openPriorityWindow('combat', reactor.playerId, 'battlefield-engagement');
       return;
     }
     const lastActor =
@@ -8848,7 +10960,7 @@ export class RiftboundGameEngine {
       action,
       cardId: cardIdOrIndex,
       targetId,
-      timestamp: Date.now()
+      timestamp: this.now()
     });
   }
 
@@ -8866,6 +10978,220 @@ export class RiftboundGameEngine {
     this.recordSnapshot('match-end');
   }
 
+  // ========================================================================
+  // MATCH CLOCK
+  // ========================================================================
+
+  private static readonly MAX_CLOCK_EXPIRIES_PER_CHECK = 20;
+
+  /**
+   * The player the engine is waiting on once the match is under way, i.e.
+   * whose bank should be draining. Setup prompts are answered
+   * simultaneously, so they only run on their own deadlines.
+   */
+  public getClockHolder(): string | null {
+    if (this.gameState.status !== GameStatus.IN_PROGRESS) {
+      return null;
+    }
+    const chain = this.gameState.reactionChain;
+    if (chain?.awaitingResponse && chain.items.length > 0) {
+      return chain.currentReactorId;
+    }
+    const pendingPrompt = this.gameState.prompts.find((prompt) => !prompt.resolved);
+    if (pendingPrompt) {
+      return pendingPrompt.playerId;
+    }
+    if (this.gameState.priorityWindow) {
+      return this.gameState.priorityWindow.holder;
+    }
+    return this.getCurrentPlayer().playerId;
+  }
+
+  /**
+   * Charge elapsed time to whoever the clock was running for, then start it
+   * for the current holder. Call after every state change that is saved.
+   */
+  public syncClock(now: number = this.now()): void {
+    const clock = this.gameState.clock;
+    if (!clock) {
+      return;
+    }
+    this.chargeClock(now);
+    const holder = this.getClockHolder();
+    clock.runningFor = holder;
+    clock.runningSince = holder ? now : null;
+  }
+
+  /**
+   * Apply every deadline that has passed: a player whose bank is empty loses
+   * on time, and expired prompts and priority windows are answered with
+   * their defaults. Returns true when anything was auto-resolved.
+   */
+  public enforceClock(now: number = this.now()): boolean {
+    const clock = this.gameState.clock;
+    if (!clock || this.gameState.status === GameStatus.WINNER_DETERMINED) {
+      return false;
+    }
+    this.chargeClock(now);
+    const flagged = clock.runningFor;
+    if (flagged && (clock.banks[flagged] ?? 0) <= 0) {
+      this.declareTimeoutLoss(flagged);
+      this.syncClock(now);
+      return true;
+    }
+
+    let changed = false;
+    for (let i = 0; i < RiftboundGameEngine.MAX_CLOCK_EXPIRIES_PER_CHECK; i++) {
+      if (this.status === GameStatus.WINNER_DETERMINED || !this.resolveExpiredDeadline(now)) {
+        break;
+      }
+      changed = true;
+    }
+    this.syncClock(now);
+    return changed;
+  }
+
+  /** Earliest time at which `enforceClock` would have something to do. */
+  public getNextClockDeadline(): number | null {
+    const clock = this.gameState.clock;
+    if (!clock || this.gameState.status === GameStatus.WINNER_DETERMINED) {
+      return null;
+    }
+    const deadlines = this.gameState.prompts
+      .filter((prompt) => !prompt.resolved && typeof prompt.expiresAt === 'number')
+      .map((prompt) => prompt.expiresAt as number);
+    if (this.gameState.priorityWindow?.expiresAt) {
+      deadlines.push(this.gameState.priorityWindow.expiresAt);
+    }
+    if (clock.runningFor && clock.runningSince !== null) {
+      deadlines.push(clock.runningSince + Math.max(0, clock.banks[clock.runningFor] ?? 0));
+    }
+    return deadlines.length ? Math.min(...deadlines) : null;
+  }
+
+  private chargeClock(now: number): void {
+    const clock = this.gameState.clock;
+    if (!clock || !clock.runningFor || clock.runningSince === null) {
+      return;
+    }
+    const elapsed = Math.max(0, now - clock.runningSince);
+    clock.banks[clock.runningFor] = Math.max(0, (clock.banks[clock.runningFor] ?? 0) - elapsed);
+    clock.runningSince = now;
+  }
+
+  private declareTimeoutLoss(playerId: string): void {
+    const player = this.getPlayerById(playerId);
+    const opponent = this.getOtherPlayer(player);
+    this.addDuelLogEntry({
+      playerId,
+      message: `${this.resolvePlayerName(playerId) ?? 'Player'} has run out of time.`,
+      tone: 'error'
+    });
+    if (this.eliminatePlayer(player)) {
+      return;
+    }
+    this.endGame(opponent, player, 'timeout');
+  }
+
+  /** Resolve the oldest expired prompt, else an expired priority window. */
+  private resolveExpiredDeadline(now: number): boolean {
+    const prompt = this.gameState.prompts.find(
+      (entry) => !entry.resolved && typeof entry.expiresAt === 'number' && entry.expiresAt <= now
+    );
+    if (prompt) {
+      this.applyPromptDefault(prompt);
+      return true;
+    }
+    const window = this.gameState.priorityWindow;
+    if (window?.expiresAt && window.expiresAt <= now) {
+      this.addDuelLogEntry({
+        playerId: window.holder,
+        message: `${this.resolvePlayerName(window.holder) ?? 'Player'} ran out of time to respond.`,
+        tone: 'warning'
+      });
+      try {
+        this.passPriority(window.holder);
+      } catch (error) {
+        logger.warn('[game-engine] automatic priority pass failed', {
+          matchId: this.gameState.matchId,
+          windowId: window.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        this.closePriorityWindow();
+      }
+      return true;
+    }
+    return false;
+  }
+
+  private applyPromptDefault(prompt: GamePrompt): void {
+    const playerName = this.resolvePlayerName(prompt.playerId) ?? 'Player';
+    this.addDuelLogEntry({
+      playerId: prompt.playerId,
+      message: `${playerName} ran out of time; the default choice was applied.`,
+      tone: 'warning'
+    });
+    try {
+      switch (prompt.type) {
+        case 'coin_flip':
+          this.submitInitiativeChoice(prompt.playerId, this.rng.nextInt(0, INITIATIVE_CHOICES.length));
+          return;
+        case 'battlefield': {
+          const options = (prompt.data?.options as Array<{ cardId: string }> | undefined) ?? [];
+          const fallback = options[0]?.cardId ?? this.ensureBattlefieldOptions(this.getPlayerById(prompt.playerId))[0]?.id;
+          if (!fallback) {
+            break;
+          }
+          this.selectBattlefield(prompt.playerId, fallback);
+          return;
+        }
+        case 'mulligan':
+          this.submitMulligan(prompt.playerId, []);
+          return;
+        case 'discard':
+          this.submitDiscardSelection(prompt.playerId, prompt.id, []);
+          return;
+        case 'target':
+          this.submitTargetSelection(prompt.playerId, prompt.id, []);
+          return;
+        case 'damage_assignment':
+          this.submitDamageAssignment(
+            prompt.playerId,
+            prompt.id,
+            (prompt.data?.suggested as Record<string, number> | undefined) ?? {}
+          );
+          return;
+        case 'chain_reaction':
+        case 'spell_reaction':
+          this.respondToChainReaction(prompt.playerId, true);
+          return;
+        case 'take_back':
+          this.respondToTakeBack(prompt.playerId, false);
+          return;
+        default:
+          break;
+      }
+    } catch (error) {
+      logger.warn('[game-engine] default prompt resolution failed', {
+        matchId: this.gameState.matchId,
+        promptId: prompt.id,
+        type: prompt.type,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    // No usable default: close the prompt (and any effect waiting on it) so
+    // the match can continue.
+    if (!prompt.resolved) {
+      this.gameState.pendingEffects = this.gameState.pendingEffects.filter(
+        (effect) => effect.id !== prompt.id
+      );
+      this.resolvePrompt(prompt, { timedOut: true });
+      if (prompt.type === 'damage_assignment' && this.promptsResolved('damage_assignment')) {
+        this.completeCombatEngagement();
+      }
+    }
+  }
+
   // ========================================================================
   // PUBLIC GETTERS
   // ========================================================================
@@ -8907,9 +11233,10 @@ export class RiftboundGameEngine {
       winner: winner.playerId,
       loser: loser.playerId,
       reason: this.gameState.endReason ?? 'victory_points',
-      duration: Date.now() - this.gameState.timestamp,
+      duration: this.now() - this.gameState.timestamp,
       turns: this.turnNumber,
-      moves: this.gameState.moveHistory
+      moves: this.gameState.moveHistory,
+      ...this.describeFreeForAllLosers(winner.playerId)
     };
   }
 
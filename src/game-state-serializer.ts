@@ -10,15 +10,18 @@ import type {
   GameState,
   GameStateSnapshot,
   HiddenCard,
+  MatchClockState,
   PendingSpellResolution,
   ReactionChain,
   PlayerState,
+  Restriction,
   PlayerBoard,
   PriorityWindow,
   RuneCard,
   TemporaryEffect,
   ChampionAbilityRuntimeState
 } from './game-engine';
+import type { RuleProfile } from './rule-profiles';
 import {
   findCardById,
   findCardByName,
@@ -291,9 +294,39 @@ const serializePrompt = (prompt: GamePrompt) => ({
   resolved: prompt.resolved,
   createdAt: toDate(prompt.createdAt),
   resolvedAt: toDate(prompt.resolvedAt),
-  resolution: prompt.resolution ?? null
+  resolution: prompt.resolution ?? null,
+  expiresAt: toDate(prompt.expiresAt ?? null)
 });
 
+const serializeRestriction = (restriction: Restriction) => ({
+  id: restriction.id,
+  kind: restriction.kind,
+  instanceId: restriction.instanceId ?? null,
+  playerIds: restriction.playerIds ?? null,
+  cardTypes: restriction.cardTypes ?? null,
+  duration: restriction.duration,
+  sourceCardId: restriction.sourceCardId ?? null,
+  sourceName: restriction.sourceName ?? null
+});
+
+const serializeRuleProfile = (profile: RuleProfile | null | undefined) =>
+  profile ? { ...profile } : null;
+
+const serializeMatchClock = (clock: MatchClockState | null | undefined) => {
+  if (!clock) {
+    return null;
+  }
+  return {
+    bankMs: clock.config.bankMs,
+    incrementMs: clock.config.incrementMs,
+    priorityWindowMs: clock.config.priorityWindowMs,
+    promptMs: clock.config.promptMs,
+    banks: { ...clock.banks },
+    runningFor: clock.runningFor ?? null,
+    runningSince: toDate(clock.runningSince ?? null)
+  };
+};
+
 const serializePriorityWindow = (window: PriorityWindow | null) => {
   if (!window) {
     return null;
@@ -426,6 +459,7 @@ export const serializePlayerState = (player: PlayerState, visibility: PlayerVisi
     board: serializePlayerBoard(player.board),
     graveyard: serializeCardZone(player.graveyard),
     exile: serializeCardZone(player.exile),
+    banishment: serializeCardZone(player.banishment),
     resources: {
       energy: player.resources.energy,
       universalPower: player.resources.universalPower,
@@ -445,7 +479,9 @@ export const serializePlayerState = (player: PlayerState, visibility: PlayerVisi
     // Informational flag: true once the player's main deck has ever been
     // emptied. Does NOT imply loss; loss only fires when a REQUIRED draw is
     // attempted against an empty deck. See drawCards() in game-engine.ts.
-    burnedOut: Boolean(player.burnedOut)
+    burnedOut: Boolean(player.burnedOut),
+    // Free-for-all: the player conceded or ran out of time and is out.
+    eliminated: Boolean(player.eliminated)
   };
 };
 
@@ -455,6 +491,7 @@ export const serializeGameState = (state: GameState, options?: SerializeGameStat
   const chatLogEntries = Array.isArray(state.chatLog) ? state.chatLog : [];
   return {
     matchId: state.matchId,
+    version: state.version ?? 0,
     players: state.players.map((player) =>
       serializePlayerState(
         player,
@@ -488,6 +525,8 @@ export const serializeGameState = (state: GameState, options?: SerializeGameStat
     endReason: state.endReason ?? null,
     prompts: state.prompts.map(serializePrompt),
     priorityWindow: serializePriorityWindow(state.priorityWindow),
+    clock: serializeMatchClock(state.clock),
+    ruleProfile: serializeRuleProfile(state.ruleProfile),
     snapshots: state.snapshots.map(serializeSnapshot),
     battlefields: state.battlefields.map((battlefield) =>
       serializeBattlefieldState(state, battlefield, viewerId)
@@ -506,12 +545,27 @@ export const serializeGameState = (state: GameState, options?: SerializeGameStat
         }
       : null,
     pendingSpellResolution: serializePendingSpellResolution(state.pendingSpellResolution),
-    reactionChain: serializeReactionChain(state.reactionChain)
+    reactionChain: serializeReactionChain(state.reactionChain),
+    restrictions: (state.restrictions ?? []).map(serializeRestriction)
   };
 };
 
-export const buildOpponentView = (state: GameState, playerId: string) => {
-  const opponent = state.players.find((p) => p.playerId !== playerId);
+export const buildOpponentView = (state: GameState, playerId: string) =>
+  describeOpponent(state, state.players.find((p) => p.playerId !== playerId));
+
+/**
+ * Every other seat, in turn order starting after `playerId`. Two-player
+ * views get a one-element list matching `buildOpponentView`.
+ */
+export const buildOpponentViews = (state: GameState, playerId: string) => {
+  const seat = state.players.findIndex((p) => p.playerId === playerId);
+  const ordered = seat < 0 ? state.players : [...state.players.slice(seat + 1), ...state.players.slice(0, seat)];
+  return ordered
+    .filter((p) => p.playerId !== playerId)
+    .map((opponent) => describeOpponent(state, opponent));
+};
+
+const describeOpponent = (state: GameState, opponent: PlayerState | undefined) => {
   if (!opponent) {
     return {
       playerId: null,
@@ -540,6 +594,165 @@ export const buildOpponentView = (state: GameState, playerId: string) => {
       enchantments: []
     },
     championLegend: snapshot.championLegend ?? null,
-    championLeader: snapshot.championLeader ?? null
+    championLeader: snapshot.championLeader ?? null,
+    eliminated: Boolean(opponent.eliminated)
+  };
+};
+
+export type SerializedGameState = ReturnType<typeof serializeGameState>;
+type SerializedPlayerState = ReturnType<typeof serializePlayerState>;
+type SerializedPrompt = ReturnType<typeof serializePrompt>;
+type SerializedHiddenCard = ReturnType<typeof serializeHiddenCard>;
+
+const BOT_PLAYER_ID_PREFIX = 'bot-';
+
+/**
+ * Bot-vs-bot matches have no human owner whose hidden information could
+ * leak, so spectators and replays of them keep full visibility.
+ */
+export const isOpenInformationMatch = (
+  playerIds: Array<string | null | undefined>
+): boolean =>
+  playerIds.length > 0 &&
+  playerIds.every((id) => typeof id === 'string' && id.startsWith(BOT_PLAYER_ID_PREFIX));
+
+export const resolveVisibility = (
+  ownerId: string | null | undefined,
+  viewerId: string | null | undefined
+): PlayerVisibility => {
+  if (!viewerId) {
+    return 'spectator';
+  }
+  return ownerId === viewerId ? 'self' : 'opponent';
+};
+
+const redactPlayerState = (
+  player: SerializedPlayerState,
+  viewerId: string | null | undefined
+): SerializedPlayerState => {
+  if (resolveVisibility(player.playerId, viewerId) === 'self') {
+    return player;
+  }
+  return {
+    ...player,
+    hand: [],
+    runeDeck: [],
+    championLegendState: null,
+    championLeaderState: null
+  };
+};
+
+const redactHiddenCard = (
+  hiddenCard: SerializedHiddenCard,
+  index: number,
+  viewerId: string | null | undefined
+): SerializedHiddenCard => {
+  if (resolveVisibility(hiddenCard.ownerId, viewerId) === 'self') {
+    return hiddenCard;
+  }
+  // Engine instance ids embed the card id, so non-owners get a positional handle.
+  return {
+    ...hiddenCard,
+    instanceId: `hidden-${hiddenCard.battlefieldId}-${index}`,
+    card: null,
+    isRevealed: false
+  };
+};
+
+const redactPrompt = (
+  prompt: SerializedPrompt,
+  viewerId: string | null | undefined
+): SerializedPrompt => {
+  if (resolveVisibility(prompt.playerId, viewerId) === 'self') {
+    return prompt;
+  }
+  return { ...prompt, data: {}, resolution: null };
+};
+
+/**
+ * Strip everything a viewer is not entitled to see from a serialized match
+ * state: other players' hands and rune decks, face-down cards they do not
+ * own (including which card was hidden in the move history) and the
+ * contents of other players' prompts. A missing viewer is a spectator and
+ * owns nothing. Works on live snapshots and on stored replay frames alike.
+ */
+export const redactGameStateForViewer = (
+  state: SerializedGameState,
+  viewerId?: string | null
+): SerializedGameState => {
+  if (!state || !Array.isArray(state.players)) {
+    return state;
+  }
+  const playerIds = state.players.map((player) => player.playerId);
+  if (isOpenInformationMatch(playerIds)) {
+    return state;
+  }
+  return {
+    ...state,
+    players: state.players.map((player) => redactPlayerState(player, viewerId)),
+    prompts: (state.prompts ?? []).map((prompt) => redactPrompt(prompt, viewerId)),
+    battlefields: (state.battlefields ?? []).map((battlefield) => ({
+      ...battlefield,
+      hiddenCards: (battlefield.hiddenCards ?? []).map((hiddenCard, index) =>
+        redactHiddenCard(hiddenCard, index, viewerId)
+      )
+    })),
+    moveHistory: (state.moveHistory ?? []).map((move) =>
+      move.action === 'hide_card' &&
+      resolveVisibility(playerIds[move.playerIndex], viewerId) !== 'self'
+        ? { ...move, cardId: undefined }
+        : move
+    )
   };
 };
+
+/**
+ * A PlayerView is only ever meant for its own player. Anyone else listening
+ * on that player's channel gets the public parts of it.
+ */
+export const redactPlayerViewForViewer = <
+  T extends {
+    currentPlayer?: SerializedPlayerState | null;
+    opponent?: { playerId?: string | null } | null;
+    legalActions?: unknown[];
+  }
+>(
+  view: T,
+  viewerId?: string | null
+): T => {
+  const current = view?.currentPlayer;
+  if (!current) {
+    return view;
+  }
+  if (
+    resolveVisibility(current.playerId, viewerId) === 'self' ||
+    isOpenInformationMatch([current.playerId, view.opponent?.playerId])
+  ) {
+    return view;
+  }
+  const redacted = { ...view, currentPlayer: redactPlayerState(current, viewerId) };
+  // Legal actions are worked out from the hand.
+  if (redacted.legalActions) {
+    redacted.legalActions = [];
+  }
+  return redacted;
+};
+
+/**
+ * Per-action match events (card played, attack declared, phase changed) may
+ * carry the acting player's PlayerView; only that player receives it.
+ */
+export const redactMatchEventForViewer = <
+  T extends { playerId?: string | null; playerView?: unknown }
+>(
+  event: T,
+  viewerId?: string | null
+): T => {
+  if (!event || event.playerView == null) {
+    return event;
+  }
+  if (resolveVisibility(event.playerId, viewerId) === 'self') {
+    return event;
+  }
+  return { ...event, playerView: null };
+};
@@ -0,0 +1,457 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'node:crypto';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import AWS from 'aws-sdk';
+import { PubSub, PubSubEngine } from 'graphql-subscriptions';
+import logger from '../logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One publish as it travels between instances. `origin` lets an instance
+ * recognise (and skip) its own messages when the transport echoes them back.
+ */
+export interface PubSubEnvelope {
+  origin: string;
+  trigger: string;
+  payload: any;
+}
+
+/**
+ * The cross-instance leg of the pub/sub layer. Each adapter only moves
+ * envelopes between processes; local subscriber bookkeeping stays in
+ * {@link DistributedPubSub}.
+ */
+export interface PubSubTransport {
+  readonly name: string;
+  send(envelope: PubSubEnvelope): Promise<void>;
+  start(deliver: (envelope: PubSubEnvelope) => void): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export type PubSubBackend = 'memory' | 'redis' | 'dynamodb';
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+/**
+ * `PubSubEngine` that serves this process's subscribers from a local
+ * `PubSub` and fans every publish out to the other instances through a
+ * transport. Messages arriving from other instances are replayed into the
+ * local `PubSub` after `onRemoteMessage` listeners have seen them.
+ */
+export class DistributedPubSub extends PubSubEngine {
+  readonly instanceId = randomUUID();
+  private readonly local = new PubSub();
+  private transport: PubSubTransport;
+  private started = false;
+  private readonly remoteListeners: Array<(envelope: PubSubEnvelope) => void> = [];
+
+  constructor(transport: PubSubTransport) {
+    super();
+    this.transport = transport;
+  }
+
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  async publish(triggerName: string, payload: any): Promise<void> {
+    await this.local.publish(triggerName, payload);
+    try {
+      await this.transport.send({ origin: this.instanceId, trigger: triggerName, payload });
+    } catch (error) {
+      // Local subscribers already have the event; other instances will
+      // recover it through sinceSeq resync on their clients' next reconnect.
+      logger.error('[PUBSUB] Fan-out publish failed', {
+        transport: this.transport.name,
+        trigger: triggerName,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  subscribe(triggerName: string, onMessage: (...args: any[]) => void): Promise<number> {
+    return this.local.subscribe(triggerName, onMessage);
+  }
+
+  unsubscribe(subId: number): void {
+    this.local.unsubscribe(subId);
+  }
+
+  onRemoteMessage(listener: (envelope: PubSubEnvelope) => void): void {
+    this.remoteListeners.push(listener);
+  }
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    await this.transport.start((envelope) => this.receive(envelope));
+    this.started = true;
+    logger.info('[PUBSUB] Transport started', { transport: this.transport.name, instanceId: this.instanceId });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+    this.started = false;
+    await this.transport.stop();
+  }
+
+  /**
+   * Swap the transport, e.g. at boot once configuration is known. Stops the
+   * previous transport first; the caller starts the new one.
+   */
+  async useTransport(transport: PubSubTransport): Promise<void> {
+    await this.stop();
+    this.transport = transport;
+  }
+
+  private receive(envelope: PubSubEnvelope): void {
+    if (!envelope || envelope.origin === this.instanceId || typeof envelope.trigger !== 'string') {
+      return;
+    }
+    for (const listener of this.remoteListeners) {
+      try {
+        listener(envelope);
+      } catch (error) {
+        logger.warn('[PUBSUB] Remote message listener failed', {
+          trigger: envelope.trigger,
+          error: (error as Error).message
+        });
+      }
+    }
+    void this.local.publish(envelope.trigger, envelope.payload);
+  }
+}
+
+// ============================================================================
+// IN-MEMORY ADAPTER
+// ============================================================================
+
+/**
+ * Shared in-process bus. Attach several {@link InMemoryTransport}s to one bus
+ * to simulate multiple instances in a single test process.
+ */
+export class InMemoryBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  emit(envelope: PubSubEnvelope): void {
+    // Round-trip through JSON so tests see exactly what a network hop delivers.
+    this.emitter.emit('message', JSON.parse(JSON.stringify(envelope)));
+  }
+
+  on(listener: (envelope: PubSubEnvelope) => void): () => void {
+    this.emitter.on('message', listener);
+    return () => this.emitter.off('message', listener);
+  }
+}
+
+export class InMemoryTransport implements PubSubTransport {
+  readonly name = 'memory';
+  private detach: (() => void) | null = null;
+
+  constructor(private readonly bus: InMemoryBus = new InMemoryBus()) {}
+
+  async send(envelope: PubSubEnvelope): Promise<void> {
+    this.bus.emit(envelope);
+  }
+
+  async start(deliver: (envelope: PubSubEnvelope) => void): Promise<void> {
+    this.detach?.();
+    this.detach = this.bus.on(deliver);
+  }
+
+  async stop(): Promise<void> {
+    this.detach?.();
+    this.detach = null;
+  }
+}
+
+// ============================================================================
+// REDIS ADAPTER
+// ============================================================================
+
+/**
+ * The subset of a Redis client the adapter needs. node-redis v4 clients fit
+ * as-is; Redis requires a dedicated connection for the subscriber side.
+ */
+export interface RedisPubSubClients {
+  publisher: {
+    publish(channel: string, message: string): Promise<unknown>;
+  };
+  subscriber: {
+    subscribe(channel: string, listener: (message: string) => void): Promise<unknown>;
+    unsubscribe(channel: string): Promise<unknown>;
+  };
+}
+
+export class RedisTransport implements PubSubTransport {
+  readonly name = 'redis';
+
+  constructor(
+    private readonly clients: RedisPubSubClients,
+    private readonly channel = process.env.PUBSUB_REDIS_CHANNEL || 'riftbound:pubsub'
+  ) {}
+
+  async send(envelope: PubSubEnvelope): Promise<void> {
+    await this.clients.publisher.publish(this.channel, JSON.stringify(envelope));
+  }
+
+  async start(deliver: (envelope: PubSubEnvelope) => void): Promise<void> {
+    await this.clients.subscriber.subscribe(this.channel, (message) => {
+      try {
+        deliver(JSON.parse(message));
+      } catch (error) {
+        logger.warn('[PUBSUB] Dropping malformed Redis message', {
+          channel: this.channel,
+          error: (error as Error).message
+        });
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    await this.clients.subscriber.unsubscribe(this.channel);
+  }
+}
+
+// ============================================================================
+// DYNAMODB STREAMS ADAPTER
+// ============================================================================
+
+const DEFAULT_STREAM_POLL_INTERVAL_MS = 250;
+const MAX_STREAM_POLL_BACKOFF_MS = 5_000;
+const SHARD_REFRESH_INTERVAL_MS = 60_000;
+const STREAM_THROTTLE_CODES = new Set(['LimitExceededException', 'ThrottlingException']);
+const EVENT_TTL_SECONDS = 60 * 60;
+
+export interface DynamoDbStreamTransportOptions {
+  tableName: string;
+  streamArn?: string | null;
+  pollIntervalMs?: number;
+  documentClient?: AWS.DynamoDB.DocumentClient;
+  dynamodb?: AWS.DynamoDB;
+  streams?: AWS.DynamoDBStreams;
+}
+
+/**
+ * Writes each envelope as an item in a TTL'd events table and tails that
+ * table's stream. Payloads are gzipped so full match snapshots stay well
+ * under the 400 KB item limit. Every instance reads every shard from the
+ * point it started, so delivery latency is roughly one poll interval.
+ *
+ * DynamoDB Streams supports about two concurrent readers per shard; past
+ * that, GetRecords calls are throttled. Polls back off on throttling, so a
+ * fleet above two tasks still gets every message, only later. Deployments
+ * that scale further need {@link RedisTransport}, which the server does not
+ * wire up yet.
+ */
+export class DynamoDbStreamTransport implements PubSubTransport {
+  readonly name = 'dynamodb';
+  private readonly documentClient: AWS.DynamoDB.DocumentClient;
+  private readonly dynamodb: AWS.DynamoDB;
+  private readonly streams: AWS.DynamoDBStreams;
+  private readonly pollIntervalMs: number;
+  private streamArn: string | null;
+  private shardIterators = new Map<string, string>();
+  private finishedShards = new Set<string>();
+  private lastShardRefresh = 0;
+  private backoffMs = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private deliver: ((envelope: PubSubEnvelope) => void) | null = null;
+
+  constructor(private readonly options: DynamoDbStreamTransportOptions) {
+    const region = process.env.AWS_REGION || 'us-east-1';
+    this.documentClient = options.documentClient ?? new AWS.DynamoDB.DocumentClient({ region });
+    this.dynamodb = options.dynamodb ?? new AWS.DynamoDB({ region });
+    this.streams = options.streams ?? new AWS.DynamoDBStreams({ region });
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_STREAM_POLL_INTERVAL_MS;
+    this.streamArn = options.streamArn ?? null;
+  }
+
+  async send(envelope: PubSubEnvelope): Promise<void> {
+    await this.documentClient
+      .put({
+        TableName: this.options.tableName,
+        Item: {
+          MessageId: randomUUID(),
+          Origin: envelope.origin,
+          Body: gzipSync(JSON.stringify(envelope)),
+          ExpiresAt: Math.floor(Date.now() / 1000) + EVENT_TTL_SECONDS
+        }
+      })
+      .promise();
+  }
+
+  async start(deliver: (envelope: PubSubEnvelope) => void): Promise<void> {
+    this.deliver = deliver;
+    if (!this.streamArn) {
+      const table = await this.dynamodb.describeTable({ TableName: this.options.tableName }).promise();
+      this.streamArn = table.Table?.LatestStreamArn ?? null;
+    }
+    if (!this.streamArn) {
+      throw new Error(`Table ${this.options.tableName} has no stream enabled`);
+    }
+    // Only messages published after this instance came up are of interest.
+    await this.refreshShards('LATEST');
+    this.running = true;
+    this.schedulePoll();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.shardIterators.clear();
+  }
+
+  private schedulePoll(): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.poll()
+        .then(() => {
+          this.backoffMs = 0;
+        })
+        .catch((error) => {
+          if (STREAM_THROTTLE_CODES.has((error as AWS.AWSError).code)) {
+            this.backoffMs = Math.min(
+              Math.max(this.backoffMs * 2, this.pollIntervalMs),
+              MAX_STREAM_POLL_BACKOFF_MS
+            );
+          }
+          logger.warn('[PUBSUB] DynamoDB stream poll failed', { error: (error as Error).message });
+        })
+        .finally(() => this.schedulePoll());
+    }, this.pollIntervalMs + this.backoffMs);
+    this.timer.unref?.();
+  }
+
+  /** Read one batch from every open shard. Exposed for tests. */
+  async poll(): Promise<void> {
+    if (Date.now() - this.lastShardRefresh >= SHARD_REFRESH_INTERVAL_MS) {
+      // Shards discovered after start are children of ones we were already
+      // reading, so they are read from the beginning.
+      await this.refreshShards('TRIM_HORIZON');
+    }
+    for (const [shardId, iterator] of Array.from(this.shardIterators)) {
+      const result = await this.streams.getRecords({ ShardIterator: iterator }).promise();
+      for (const record of result.Records ?? []) {
+        this.handleRecord(record);
+      }
+      if (result.NextShardIterator) {
+        this.shardIterators.set(shardId, result.NextShardIterator);
+      } else {
+        this.shardIterators.delete(shardId);
+        this.finishedShards.add(shardId);
+        this.lastShardRefresh = 0;
+      }
+    }
+  }
+
+  private async refreshShards(iteratorType: 'LATEST' | 'TRIM_HORIZON'): Promise<void> {
+    this.lastShardRefresh = Date.now();
+    const description = await this.streams
+      .describeStream({ StreamArn: this.streamArn! })
+      .promise();
+    for (const shard of description.StreamDescription?.Shards ?? []) {
+      const shardId = shard.ShardId;
+      if (!shardId || this.shardIterators.has(shardId) || this.finishedShards.has(shardId)) {
+        continue;
+      }
+      if (iteratorType === 'LATEST' && shard.SequenceNumberRange?.EndingSequenceNumber) {
+        // Closed before we started; nothing new will ever land there.
+        this.finishedShards.add(shardId);
+        continue;
+      }
+      const iterator = await this.streams
+        .getShardIterator({ StreamArn: this.streamArn!, ShardId: shardId, ShardIteratorType: iteratorType })
+        .promise();
+      if (iterator.ShardIterator) {
+        this.shardIterators.set(shardId, iterator.ShardIterator);
+      }
+    }
+  }
+
+  private handleRecord(record: AWS.DynamoDBStreams.Record): void {
+    const image = record.dynamodb?.NewImage;
+    if (record.eventName !== 'INSERT' || !image) {
+      return;
+    }
+    try {
+      const item = AWS.DynamoDB.Converter.unmarshall(image as AWS.DynamoDB.AttributeMap);
+      const body = Buffer.isBuffer(item.Body) ? item.Body : Buffer.from(item.Body as Uint8Array);
+      this.deliver?.(JSON.parse(gunzipSync(body).toString('utf8')));
+    } catch (error) {
+      logger.warn('[PUBSUB] Dropping malformed stream record', {
+        eventId: record.eventID,
+        error: (error as Error).message
+      });
+    }
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * The backend named by `PUBSUB_BACKEND`. `redis` is not selectable yet:
+ * nothing at boot creates Redis clients, so it falls back to `memory`.
+ */
+export const resolvePubSubBackend = (): Exclude<PubSubBackend, 'redis'> => {
+  const raw = (process.env.PUBSUB_BACKEND || 'memory').trim().toLowerCase();
+  if (raw === 'dynamodb') {
+    return raw;
+  }
+  if (raw === 'redis') {
+    logger.warn('[PUBSUB] PUBSUB_BACKEND=redis is not supported by the server yet; using memory');
+  }
+  return 'memory';
+};
+
+/**
+ * Build a transport for `backend`. The Redis adapter needs connected
+ * clients, which the caller supplies; the DynamoDB adapter is
+ * configured from `PUBSUB_TABLE` and optionally `PUBSUB_STREAM_ARN`.
+ */
+export const createPubSubTransport = (
+  backend: PubSubBackend = resolvePubSubBackend(),
+  redisClients?: RedisPubSubClients
+): PubSubTransport => {
+  switch (backend) {
+    case 'redis':
+      if (!redisClients) {
+        throw new Error('PUBSUB_BACKEND=redis requires Redis publisher and subscriber clients');
+      }
+      return new RedisTransport(redisClients);
+    case 'dynamodb': {
+      const tableName = process.env.PUBSUB_TABLE;
+      if (!tableName) {
+        throw new Error('PUBSUB_BACKEND=dynamodb requires PUBSUB_TABLE');
+      }
+      const pollIntervalMs = Number(process.env.PUBSUB_POLL_INTERVAL_MS);
+      return new DynamoDbStreamTransport({
+        tableName,
+        streamArn: process.env.PUBSUB_STREAM_ARN || null,
+        pollIntervalMs: Number.isFinite(pollIntervalMs) && pollIntervalMs > 0 ? pollIntervalMs : undefined
+      });
+    }
+    default:
+      return new InMemoryTransport();
+  }
+};
@@ -1,7 +1,15 @@
-import { PubSub } from 'graphql-subscriptions';
+import logger from '../logger';
+import {
+  DistributedPubSub,
+  PubSubEnvelope,
+  createPubSubTransport,
+  resolvePubSubBackend,
+} from './pubsub-adapters';
 
-// Create a singleton PubSub instance
-export const pubSub = new PubSub();
+// Singleton PubSub. Subscribers are always served in-process; publishes fan
+// out to other instances through the transport picked by PUBSUB_BACKEND
+// (in-memory until startPubSub() runs).
+export const pubSub = new DistributedPubSub(createPubSubTransport('memory'));
 
 // Define subscription event names
 export enum SubscriptionEvents {
@@ -15,23 +23,220 @@ export enum SubscriptionEvents {
   MATCHMAKING_STATUS_UPDATED = 'MATCHMAKING_STATUS_UPDATED',
 }
 
+// Every match-scoped publish is stamped with the next sequence number for its
+// match and kept in a bounded per-match buffer, so a client that reconnects
+// with `sinceSeq` can be sent what it missed instead of silently drifting.
+export const MATCH_EVENT_BUFFER_SIZE = 256;
+export const MAX_TRACKED_MATCHES = 500;
+
+// Publishes that name the match-state version they describe are numbered
+// from it: `version * SEQ_PER_VERSION` plus their order within the version.
+// Only the task that saved a version publishes its events, so every task
+// agrees on the numbers and they follow the order of the saves. Publishes
+// without a version (bot matches and replay sessions, which each live on
+// one task) count on from the latest seq this process has seen.
+export const SEQ_PER_VERSION = 1000;
+
+// Channels whose payload is a complete state rather than a delta. The latest
+// payload on each is retained past the buffer so a client that has fallen
+// too far behind can be resynced from a snapshot.
+const SNAPSHOT_EVENTS = new Set<string>([
+  SubscriptionEvents.GAME_STATE_CHANGED,
+  SubscriptionEvents.PLAYER_GAME_STATE_CHANGED,
+  SubscriptionEvents.MATCH_COMPLETED,
+]);
+
+export interface MatchEvent {
+  seq: number;
+  trigger: string;
+  payload: Record<string, any>;
+}
+
+interface MatchEventLog {
+  seq: number;
+  /** Latest version this process published for, and how many events it had. */
+  version: number | null;
+  versionEvents: number;
+  events: MatchEvent[];
+  snapshots: Map<string, MatchEvent>;
+}
+
+const MATCH_EVENT_LOGS = new Map<string, MatchEventLog>();
+
+const isSnapshotTrigger = (trigger: string) => SNAPSHOT_EVENTS.has(trigger.split(':')[0]);
+
+const touchMatchEventLog = (matchId: string): MatchEventLog => {
+  const log = MATCH_EVENT_LOGS.get(matchId) ?? {
+    seq: 0,
+    version: null,
+    versionEvents: 0,
+    events: [],
+    snapshots: new Map()
+  };
+  // Re-insert to keep the Map in least-recently-published order.
+  MATCH_EVENT_LOGS.delete(matchId);
+  MATCH_EVENT_LOGS.set(matchId, log);
+  while (MATCH_EVENT_LOGS.size > MAX_TRACKED_MATCHES) {
+    const oldest = MATCH_EVENT_LOGS.keys().next().value as string;
+    MATCH_EVENT_LOGS.delete(oldest);
+  }
+  return log;
+};
+
+const recordMatchEvent = (matchId: string, event: MatchEvent) => {
+  const log = touchMatchEventLog(matchId);
+  log.seq = Math.max(log.seq, event.seq);
+  log.events.push(event);
+  if (log.events.length > MATCH_EVENT_BUFFER_SIZE) {
+    log.events.splice(0, log.events.length - MATCH_EVENT_BUFFER_SIZE);
+  }
+  if (isSnapshotTrigger(event.trigger)) {
+    log.snapshots.set(event.trigger, event);
+  }
+};
+
+const nextMatchSeq = (log: MatchEventLog, version?: number | null): number => {
+  if (typeof version !== 'number') {
+    return log.seq + 1;
+  }
+  const offset = log.version === version ? log.versionEvents : 0;
+  log.version = version;
+  log.versionEvents = offset + 1;
+  return version * SEQ_PER_VERSION + offset;
+};
+
+const publishMatchEvent = (
+  matchId: string,
+  trigger: string,
+  field: string,
+  data: any,
+  version?: number | null
+) => {
+  const seq = nextMatchSeq(touchMatchEventLog(matchId), version);
+  const stamped = data && typeof data === 'object' && !Array.isArray(data) ? { ...data, seq } : data;
+  const event: MatchEvent = { seq, trigger, payload: { [field]: stamped } };
+  recordMatchEvent(matchId, event);
+  pubSub.publish(trigger, event.payload);
+};
+
+// Match events published on another instance keep that instance's sequence
+// number, so a client can resync against whichever task it reconnects to.
+const recordRemoteMatchEvent = ({ trigger, payload }: PubSubEnvelope) => {
+  const [event, matchId] = trigger.split(':');
+  if (!matchId || !Object.values(SubscriptionEvents).includes(event as SubscriptionEvents)) {
+    return;
+  }
+  const seq = Object.values(payload ?? {})
+    .map((data: any) => data?.seq)
+    .find((candidate) => typeof candidate === 'number');
+  if (typeof seq === 'number') {
+    recordMatchEvent(matchId, { seq, trigger, payload });
+  }
+};
+
+pubSub.onRemoteMessage(recordRemoteMatchEvent);
+
+/**
+ * Switch to the transport configured for this deployment and start
+ * receiving other instances' publishes. Called once at boot. A transport
+ * that cannot be built or started (no table, empty stream ARN, missing
+ * permissions) is logged and replaced by the in-memory one, so the server
+ * still boots and serves its own subscribers.
+ */
+export const startPubSub = async () => {
+  const backend = resolvePubSubBackend();
+  try {
+    if (backend !== pubSub.transportName) {
+      await pubSub.useTransport(createPubSubTransport(backend));
+    }
+    await pubSub.start();
+  } catch (error) {
+    logger.error('[PUBSUB] Transport failed to start; falling back to in-memory', {
+      transport: backend,
+      error: (error as Error).message
+    });
+    await pubSub.useTransport(createPubSubTransport('memory'));
+    await pubSub.start();
+  }
+};
+
+export const stopPubSub = () => pubSub.stop();
+
+/**
+ * Events on `triggers` that a client which last saw `sinceSeq` has missed,
+ * oldest first. When the buffer no longer reaches back that far (or the
+ * client is ahead of this process, e.g. after a restart), snapshot channels
+ * are answered with their latest snapshot and delta channels with whatever
+ * is still buffered.
+ */
+export const getMatchEventsSince = (
+  matchId: string,
+  triggers: string[],
+  sinceSeq: number
+): MatchEvent[] => {
+  const log = MATCH_EVENT_LOGS.get(matchId);
+  if (!log) {
+    return [];
+  }
+  const oldestSeq = log.events[0]?.seq ?? log.seq + 1;
+  const tooFarBehind = sinceSeq < oldestSeq - 1 || sinceSeq > log.seq;
+  if (!tooFarBehind) {
+    return log.events.filter((event) => event.seq > sinceSeq && triggers.includes(event.trigger));
+  }
+  const resync: MatchEvent[] = [];
+  for (const trigger of triggers) {
+    if (isSnapshotTrigger(trigger)) {
+      const snapshot = log.snapshots.get(trigger);
+      if (snapshot) {
+        resync.push(snapshot);
+      }
+    } else {
+      resync.push(...log.events.filter((event) => event.trigger === trigger));
+    }
+  }
+  return resync.sort((a, b) => a.seq - b.seq);
+};
+
+export const clearMatchEventLogs = () => {
+  MATCH_EVENT_LOGS.clear();
+};
+
 // Helper functions to publish events
-export const publishGameStateChange = (matchId: string, gameState: any) => {
-  pubSub.publish(`${SubscriptionEvents.GAME_STATE_CHANGED}:${matchId}`, {
-    gameStateChanged: gameState,
-  });
+// Match publishers pass the saved match-state version when there is one; see
+// SEQ_PER_VERSION.
+export const publishGameStateChange = (matchId: string, gameState: any, version?: number | null) => {
+  publishMatchEvent(
+    matchId,
+    `${SubscriptionEvents.GAME_STATE_CHANGED}:${matchId}`,
+    'gameStateChanged',
+    gameState,
+    version
+  );
 };
 
-export const publishPlayerGameStateChange = (matchId: string, playerId: string, playerView: any) => {
-  pubSub.publish(`${SubscriptionEvents.PLAYER_GAME_STATE_CHANGED}:${matchId}:${playerId}`, {
-    playerGameStateChanged: playerView,
-  });
+export const publishPlayerGameStateChange = (
+  matchId: string,
+  playerId: string,
+  playerView: any,
+  version?: number | null
+) => {
+  publishMatchEvent(
+    matchId,
+    `${SubscriptionEvents.PLAYER_GAME_STATE_CHANGED}:${matchId}:${playerId}`,
+    'playerGameStateChanged',
+    playerView,
+    version
+  );
 };
 
-export const publishMatchCompletion = (matchId: string, matchResult: any) => {
-  pubSub.publish(`${SubscriptionEvents.MATCH_COMPLETED}:${matchId}`, {
-    matchCompleted: matchResult,
-  });
+export const publishMatchCompletion = (matchId: string, matchResult: any, version?: number | null) => {
+  publishMatchEvent(
+    matchId,
+    `${SubscriptionEvents.MATCH_COMPLETED}:${matchId}`,
+    'matchCompleted',
+    matchResult,
+    version
+  );
 };
 
 export const publishLeaderboardUpdate = (leaderboardData: any) => {
@@ -40,20 +245,26 @@ export const publishLeaderboardUpdate = (leaderboardData: any) => {
   });
 };
 
-export const publishCardPlayed = (matchId: string, event: any) => {
-  pubSub.publish(`${SubscriptionEvents.CARD_PLAYED}:${matchId}`, {
-    cardPlayed: event,
-  });
+export const publishCardPlayed = (matchId: string, event: any, version?: number | null) => {
+  publishMatchEvent(matchId, `${SubscriptionEvents.CARD_PLAYED}:${matchId}`, 'cardPlayed', event, version);
 };
 
-export const publishAttackDeclared = (matchId: string, event: any) => {
-  pubSub.publish(`${SubscriptionEvents.ATTACK_DECLARED}:${matchId}`, {
-    attackDeclared: event,
-  });
+export const publishAttackDeclared = (matchId: string, event: any, version?: number | null) => {
+  publishMatchEvent(
+    matchId,
+    `${SubscriptionEvents.ATTACK_DECLARED}:${matchId}`,
+    'attackDeclared',
+    event,
+    version
+  );
 };
 
-export const publishPhaseChange = (matchId: string, event: any) => {
-  pubSub.publish(`${SubscriptionEvents.PHASE_CHANGED}:${matchId}`, {
-    phaseChanged: event,
-  });
+export const publishPhaseChange = (matchId: string, event: any, version?: number | null) => {
+  publishMatchEvent(
+    matchId,
+    `${SubscriptionEvents.PHASE_CHANGED}:${matchId}`,
+    'phaseChanged',
+    event,
+    version
+  );
 };
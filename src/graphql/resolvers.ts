@@ -5,21 +5,43 @@ import logger from '../logger';
 import {
   pubSub,
   SubscriptionEvents,
-  publishGameStateChange,
-  publishPlayerGameStateChange,
-  publishMatchCompletion,
   publishLeaderboardUpdate,
-  publishCardPlayed,
-  publishAttackDeclared,
-  publishPhaseChange,
+  getMatchEventsSince,
+  MatchEvent,
 } from './pubsub';
 import {
   findCardById as findCatalogCardById,
+  findCardByName as findCatalogCardByName,
   findCardBySlug as findCatalogCardBySlug,
   getImageManifest,
   buildActivationStateIndex
 } from '../card-catalog';
 import { TABLE_NAMES } from '../config/tableNames';
+import { MatchCommandType, parseMatchCommand } from '../match-commands';
+import {
+  DeckFormat,
+  DeckValidationInput,
+  IllegalDeckError,
+  getQueueDeckFormat,
+  listDeckFormats,
+  resolveDeckFormat,
+  validateDecklist
+} from '../deck-validation';
+import { analyzeDeck } from '../deck-analysis';
+import { RULE_PROFILES, resolveRuleProfile } from '../rule-profiles';
+import {
+  DeckCodeDeck,
+  DeckCodeEntry,
+  decodeDeckCode,
+  encodeDeckCode,
+  parseDecklistText,
+  toDeckCodeDeck
+} from '../deck-codes';
+import {
+  redactGameStateForViewer,
+  redactMatchEventForViewer,
+  redactPlayerViewForViewer
+} from '../game-state-serializer';
 import {
   startBotMatch,
   listActiveBotMatches,
@@ -45,6 +67,15 @@ import {
   buildMatchReplayFromJsonl,
   listBotMatchesFromJsonl
 } from '../replay-reconstructor';
+import {
+  DEFAULT_RATING,
+  DEFAULT_RATING_DEVIATION,
+  fetchLadderUsers,
+  getPlayerRating,
+  isProvisionalRating,
+  ratingFromUserItem
+} from '../rating';
+import { buildInternalApiHeaders } from '../auth-utils';
 
 // Initialize AWS SDK
 const dynamodb = new AWS.DynamoDB.DocumentClient({
@@ -159,36 +190,77 @@ const ensureGameStateDefaults = (state: any) => {
   return state;
 };
 
-const fetchSpectatorState = async (matchId: string, authToken?: string | null) => {
-  const state = await internalApiRequest<any>(`/matches/${matchId}`, undefined, authToken);
-  return ensureGameStateDefaults(state);
+/**
+ * The match as the caller may see it. The match service already scopes it
+ * to the token's user; redacting again here keeps other players' hands out
+ * of GraphQL responses however the service was reached.
+ */
+const fetchSpectatorState = async (matchId: string, context: ResolverContext) => {
+  const state = await internalApiRequest<any>(`/matches/${matchId}`, undefined, context.authToken);
+  return redactGameStateForViewer(ensureGameStateDefaults(state), context.userId);
 };
 
 const fetchPlayerView = (matchId: string, playerId: string, authToken?: string | null) =>
   internalApiRequest<any>(`/matches/${matchId}/player/${playerId}`, undefined, authToken);
 
+/**
+ * POST a match action. The client's Idempotency-Key is forwarded so the
+ * match service can replay its first response, which also makes the
+ * retries in internalApiRequest safe.
+ */
 const postMatchAction = (
   matchId: string,
   action: string,
   body: Record<string, unknown>,
-  authToken?: string | null
+  authToken?: string | null,
+  idempotencyKey?: string | null
 ) =>
   internalApiRequest<any>(
     `/matches/${matchId}/actions/${action}`,
     {
       method: 'POST',
-      body: JSON.stringify(body)
+      body: JSON.stringify(body),
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
     },
     authToken
   );
 
+/**
+ * Send a match command to the match service, which authorizes, applies,
+ * saves and publishes it. The arguments are parsed the same way as a REST
+ * body, so bad input is turned away here with the same message.
+ */
+const runMatchCommand = async (
+  matchId: string,
+  type: MatchCommandType,
+  input: Record<string, unknown>,
+  context: ResolverContext
+) => {
+  try {
+    const command = parseMatchCommand(type, input);
+    const response = await postMatchAction(matchId, type, command, context.authToken, context.idempotencyKey);
+    const gameState = redactGameStateForViewer(ensureGameStateDefaults(response?.gameState ?? null), context.userId);
+    return {
+      success: true,
+      gameState,
+      currentPhase: gameState?.currentPhase ?? null,
+      playerView: response?.playerView ?? null,
+      runePayment: response?.runePayment ?? null
+    };
+  } catch (error) {
+    logger.error(`[${type.toUpperCase()}] Error:`, error);
+    return rethrowGraphQLError(error, `Failed to run ${type}`);
+  }
+};
+
 const postChatMessage = async (
   matchId: string,
   payload: { playerId: string; message: string; playerName?: string | null },
-  authToken?: string | null
+  authToken?: string | null,
+  idempotencyKey?: string | null
 ) => {
   try {
-    return await postMatchAction(matchId, 'chat', payload, authToken);
+    return await postMatchAction(matchId, 'chat', payload, authToken, idempotencyKey);
   } catch (error: any) {
     if (error?.statusCode === 404) {
       return internalApiRequest(
@@ -204,27 +276,6 @@ const postChatMessage = async (
   }
 };
 
-const syncMatchStateFromService = async (matchId: string, authToken?: string | null) => {
-  const spectatorState = await fetchSpectatorState(matchId, authToken);
-  publishGameStateChange(matchId, spectatorState);
-  const players = spectatorState?.players ?? [];
-  await Promise.all(
-    players.map(async (player: { playerId: string }) => {
-      try {
-        const playerView = await fetchPlayerView(matchId, player.playerId, authToken);
-        publishPlayerGameStateChange(matchId, player.playerId, playerView);
-      } catch (error) {
-        logger.warn('[MATCH-SYNC] Failed to publish player snapshot', {
-          matchId,
-          playerId: player.playerId,
-          error
-        });
-      }
-    })
-  );
-  return spectatorState;
-};
-
 const spawnMatchService = async ({
   matchId,
   player1,
@@ -232,6 +283,9 @@ const spawnMatchService = async ({
   decks,
   authToken,
   playerProfiles,
+  mode,
+  ruleProfile,
+  format,
 }: {
   matchId: string;
   player1: string;
@@ -239,17 +293,26 @@ const spawnMatchService = async ({
   decks: any;
   authToken?: string | null;
   playerProfiles?: PlayerProfileMap;
+  mode?: MatchMode | null;
+  ruleProfile?: unknown;
+  format?: string | null;
 }) => {
   const payload = await internalApiRequest<any>(
     '/matches/init',
     {
       method: 'POST',
+      // Only the matchmaking worker passes a mode; the match service
+      // ignores it unless the call carries the internal key.
+      headers: mode ? buildInternalApiHeaders() : undefined,
       body: JSON.stringify({
         matchId,
         player1,
         player2,
         decks,
-        playerProfiles
+        playerProfiles,
+        mode: mode ?? null,
+        ruleProfile: ruleProfile ?? null,
+        format: format ?? null
       })
     },
     authToken
@@ -279,15 +342,10 @@ interface LeaderboardEntry {
   wins: number;
   totalMatches: number;
   winRate: number;
-}
-
-interface PublishedCard {
-  cardId: string;
-  name: string;
-  cost: number;
-  power?: number;
-  toughness?: number;
-  type: string;
+  rating: number;
+  ratingDeviation: number;
+  ratedGames: number;
+  provisional: boolean;
 }
 
 interface CardAssetInfoInput {
@@ -356,6 +414,17 @@ type DeckCardRecord = {
 
 const decklistsTableName = TABLE_NAMES.DECKLISTS;
 const deckIdIndexName = 'DeckIdIndex';
+// Sparse indexes: only public decks carry PublicListing. One is sorted by
+// UpdatedAt, the other by ForkCount.
+const publicDeckIndexName = 'PublicDeckIndex';
+const popularDeckIndexName = 'PublicDeckPopularityIndex';
+const PUBLIC_DECK_LISTING = 'public';
+// Filters run in memory over index pages, so bound how many public decks
+// one request reads; the cursor picks up where it stopped.
+const PUBLIC_DECK_QUERY_PAGE = 100;
+const MAX_PUBLIC_DECKS_SCANNED = 1000;
+const DEFAULT_PUBLIC_DECK_PAGE = 20;
+const MAX_PUBLIC_DECK_PAGE = 50;
 const MIN_DECK_SIZE = 39;
 const MAX_DECK_SIZE = 39;
 const MAX_CARD_COPIES = 3;
@@ -389,6 +458,8 @@ const MATCHMAKING_STATE = {
 export interface ResolverContext {
   userId?: string | null;
   authToken?: string | null;
+  /** Idempotency-Key header of the GraphQL request, forwarded to match actions. */
+  idempotencyKey?: string | null;
 }
 
 const requireUser = (context: ResolverContext, targetUserId?: string | null): string => {
@@ -498,6 +569,49 @@ const sanitizeSingleDeckCard = (card?: DeckCardInput | null): DeckCardRecord | n
   };
 };
 
+/**
+ * Legality of a stored deck under its own format, checked on every read so
+ * it tracks the current rules. Null for decks saved under a format that no
+ * longer exists.
+ */
+const getStoredDeckLegality = (
+  item: AWS.DynamoDB.DocumentClient.AttributeMap,
+  format: string = item.Format ?? 'standard'
+) => {
+  try {
+    return validateDecklist(
+      {
+        cards: item.Cards || [],
+        runeDeck: item.RuneDeck || [],
+        battlefields: item.Battlefields || [],
+        sideDeck: item.SideDeck || [],
+        championLegend: item.ChampionLegend || null,
+        championLeader: item.ChampionLeader || null
+      },
+      format
+    );
+  } catch (error) {
+    logger.warn('[DECKS] Could not check deck legality', {
+      deckId: item.DeckId,
+      format,
+      error: (error as Error).message
+    });
+    return null;
+  }
+};
+
+/**
+ * The deck a queued player will play: the one they queued with, else their
+ * default, else their first.
+ */
+const selectMatchDeck = (
+  userDecks: AWS.DynamoDB.DocumentClient.ItemList,
+  preferredDeckId: string | null
+): AWS.DynamoDB.DocumentClient.AttributeMap | undefined =>
+  (preferredDeckId ? userDecks.find((deck) => deck.DeckId === preferredDeckId) : undefined) ||
+  userDecks.find((deck) => deck.IsDefault) ||
+  userDecks[0];
+
 const mapDecklistItem = (
   item?: AWS.DynamoDB.DocumentClient.AttributeMap | null
 ): Record<string, any> | null => {
@@ -521,45 +635,303 @@ const mapDecklistItem = (
     sideDeck: item.SideDeck || [],
     championLegend: item.ChampionLegend || null,
     championLeader: item.ChampionLeader || null,
+    legality: getStoredDeckLegality(item),
+    forkCount: item.ForkCount ?? 0,
+    forkedFrom: item.ForkedFrom
+      ? { deckId: item.ForkedFrom.DeckId, userId: item.ForkedFrom.UserId, name: item.ForkedFrom.Name ?? null }
+      : null,
+    forkLineage: item.ForkLineage || [],
     createdAt: toIsoString(item.CreatedAt),
     updatedAt: toIsoString(item.UpdatedAt)
   };
 };
 
-const normalizeMatchMode = (mode?: string): MatchMode => {
-  const normalized = (mode || '').toLowerCase();
-  if (!MATCHMAKING_MODES.includes(normalized as MatchMode)) {
-    throw new Error('Invalid matchmaking mode');
+type PublicDecklistSort = 'recent' | 'popular';
+
+interface PublicDecklistFilter {
+  /** Champion Legend by card id, slug or name. */
+  legend?: string | null;
+  domain?: string | null;
+  format?: string | null;
+  /** Cards (id, slug or name) the deck must include, in any zone. */
+  cards?: string[] | null;
+}
+
+/** Every way a stored entry can be named: its id, slug and snapshot name. */
+const deckEntryKeys = (entry: DeckCardRecord | null | undefined): string[] =>
+  [entry?.cardId, entry?.slug, entry?.cardSnapshot?.cardId, entry?.cardSnapshot?.slug, entry?.cardSnapshot?.name]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => value.toLowerCase());
+
+/** A filter reference plus the catalog's id, slug and name for it. */
+const cardRefKeys = (ref: string): Set<string> => {
+  const record = findCatalogCardById(ref) ?? findCatalogCardBySlug(ref) ?? findCatalogCardByName(ref);
+  return new Set(
+    [ref, record?.id, record?.slug, record?.name]
+      .filter((value): value is string => Boolean(value))
+      .map((value) => value.toLowerCase())
+  );
+};
+
+const deckEntryMatches = (entry: DeckCardRecord | null | undefined, keys: Set<string>): boolean =>
+  deckEntryKeys(entry).some((key) => keys.has(key));
+
+/** The legend's domains, from the catalog or else the saved snapshot. */
+const deckDomains = (item: AWS.DynamoDB.DocumentClient.AttributeMap): string[] => {
+  const legend = item.ChampionLegend as DeckCardRecord | undefined;
+  if (!legend) {
+    return [];
   }
-  return normalized as MatchMode;
+  const record =
+    (legend.cardId ? findCatalogCardById(legend.cardId) : undefined) ??
+    (legend.slug ? findCatalogCardBySlug(legend.slug) : undefined);
+  return (record?.colors ?? legend.cardSnapshot?.colors ?? []).map((color) => color.toLowerCase());
+};
+
+const matchesPublicDeckFilter = (filter: PublicDecklistFilter) => {
+  const legendKeys = filter.legend ? cardRefKeys(filter.legend) : null;
+  const cardKeys = (filter.cards ?? []).filter(Boolean).map(cardRefKeys);
+  const domain = filter.domain?.toLowerCase() ?? null;
+  return (item: AWS.DynamoDB.DocumentClient.AttributeMap): boolean => {
+    if (filter.format && item.Format !== filter.format) {
+      return false;
+    }
+    if (legendKeys && !deckEntryMatches(item.ChampionLegend, legendKeys)) {
+      return false;
+    }
+    if (domain && !deckDomains(item).includes(domain)) {
+      return false;
+    }
+    if (cardKeys.length) {
+      const entries: DeckCardRecord[] = [
+        ...(item.Cards || []),
+        ...(item.RuneDeck || []),
+        ...(item.Battlefields || []),
+        ...(item.SideDeck || []),
+        ...(item.ChampionLegend ? [item.ChampionLegend] : []),
+        ...(item.ChampionLeader ? [item.ChampionLeader] : [])
+      ];
+      return cardKeys.every((keys) => entries.some((entry) => deckEntryMatches(entry, keys)));
+    }
+    return true;
+  };
+};
+
+const PUBLIC_DECK_SORT_KEYS: Record<PublicDecklistSort, { indexName: string; attribute: string }> = {
+  recent: { indexName: publicDeckIndexName, attribute: 'UpdatedAt' },
+  popular: { indexName: popularDeckIndexName, attribute: 'ForkCount' }
 };
 
-const defaultMmr = 1200;
+const encodePublicDeckCursor = (key: AWS.DynamoDB.DocumentClient.Key): string =>
+  Buffer.from(JSON.stringify(key), 'utf8').toString('base64');
 
-const getUserMmr = async (userId: string): Promise<number> => {
+const decodePublicDeckCursor = (raw: string): AWS.DynamoDB.DocumentClient.Key => {
   try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64').toString('utf8'));
+    if (parsed && typeof parsed === 'object' && parsed.PublicListing === PUBLIC_DECK_LISTING) {
+      return parsed;
+    }
+  } catch {
+    // Fall through to the same error as a well-formed but foreign cursor.
+  }
+  throw new GraphQLError('Invalid cursor', { extensions: { code: 'BAD_USER_INPUT' } });
+};
+
+/**
+ * One page of public decks in index order, filtered as it is read. Reads
+ * stop once the page is full or MAX_PUBLIC_DECKS_SCANNED decks were looked
+ * at; `nextCursor` resumes after the last deck read and is null at the end
+ * of the listing. `matched` counts the decks that passed the filter,
+ * skipped ones included.
+ */
+const fetchPublicDeckPage = async (
+  filter: PublicDecklistFilter,
+  sort: PublicDecklistSort,
+  skip: number,
+  pageSize: number,
+  after?: string | null
+) => {
+  const { indexName, attribute } = PUBLIC_DECK_SORT_KEYS[sort];
+  const matches = matchesPublicDeckFilter(filter);
+  const items: AWS.DynamoDB.DocumentClient.ItemList = [];
+  let startKey = after ? decodePublicDeckCursor(after) : undefined;
+  let lastKey = startKey;
+  let matched = 0;
+  let scanned = 0;
+  let exhausted = false;
+  while (items.length < pageSize && scanned < MAX_PUBLIC_DECKS_SCANNED) {
     const result = await dynamodb
-      .get({
-        TableName: process.env.USERS_TABLE || 'riftbound-online-users-dev',
-        Key: { UserId: userId },
-        ProjectionExpression: 'MatchmakingRating, Wins, TotalMatches'
+      .query({
+        TableName: decklistsTableName,
+        IndexName: indexName,
+        KeyConditionExpression: 'PublicListing = :public',
+        ExpressionAttributeValues: { ':public': PUBLIC_DECK_LISTING },
+        ScanIndexForward: false,
+        Limit: Math.min(PUBLIC_DECK_QUERY_PAGE, MAX_PUBLIC_DECKS_SCANNED - scanned),
+        ExclusiveStartKey: startKey
       })
       .promise();
+    const page = result.Items || [];
+    let read = 0;
+    while (read < page.length && items.length < pageSize) {
+      const item = page[read++];
+      lastKey = {
+        UserId: item.UserId,
+        DeckId: item.DeckId,
+        PublicListing: item.PublicListing,
+        [attribute]: item[attribute]
+      };
+      if (matches(item)) {
+        matched++;
+        if (matched > skip) {
+          items.push(item);
+        }
+      }
+    }
+    scanned += read;
+    if (read < page.length) {
+      break;
+    }
+    if (!result.LastEvaluatedKey) {
+      exhausted = true;
+      break;
+    }
+    startKey = result.LastEvaluatedKey;
+  }
+  return {
+    items,
+    matched,
+    nextCursor: exhausted || !lastKey ? null : encodePublicDeckCursor(lastKey),
+    exhausted
+  };
+};
+
+const fetchDeckById = async (deckId: string): Promise<AWS.DynamoDB.DocumentClient.AttributeMap | undefined> => {
+  const result = await dynamodb
+    .query({
+      TableName: decklistsTableName,
+      IndexName: deckIdIndexName,
+      KeyConditionExpression: 'DeckId = :deckId',
+      ExpressionAttributeValues: {
+        ':deckId': deckId
+      },
+      Limit: 1
+    })
+    .promise();
+  return result.Items?.[0];
+};
+
+/** GraphQL shape of a format; copy limits become a list. */
+const mapDeckFormat = (format: DeckFormat) => ({
+  ...format,
+  copyLimits: Object.entries(format.copyLimits).map(([card, limit]) => ({ card, limit }))
+});
 
-    if (result.Item && typeof result.Item.MatchmakingRating === 'number') {
-      return result.Item.MatchmakingRating;
+/** A decoded or parsed deck entry as a saveable DeckCard; null when unknown. */
+const toImportedDeckCard = (entry: DeckCodeEntry) => {
+  const record = findCatalogCardById(entry.cardId) ?? findCatalogCardBySlug(entry.cardId);
+  if (!record) {
+    return null;
+  }
+  return {
+    cardId: record.id,
+    slug: record.slug,
+    quantity: entry.quantity,
+    cardSnapshot: {
+      cardId: record.id,
+      slug: record.slug,
+      name: record.name,
+      type: record.type,
+      rarity: record.rarity,
+      colors: record.colors,
+      keywords: record.keywords,
+      effect: record.effect,
+      assets: { remote: record.assets.remote, localPath: record.assets.localPath }
     }
+  };
+};
 
-    const wins = Number(result.Item?.Wins ?? 0);
-    const totalMatches = Number(result.Item?.TotalMatches ?? 0);
-    if (!totalMatches) return defaultMmr;
-    const winRate = wins / totalMatches;
-    return Math.round(defaultMmr + (winRate - 0.5) * 400);
-  } catch {
-    return defaultMmr;
+/**
+ * Resolve an imported deck against the catalog. Unknown cards are dropped
+ * and listed in `unresolved` alongside any the parser already gave up on.
+ */
+const buildDeckImport = (deck: DeckCodeDeck, unresolved: string[], format?: string | null) => {
+  const missing = [...unresolved];
+  const resolveZone = (entries: DeckCodeEntry[]) =>
+    entries.flatMap((entry) => {
+      const card = toImportedDeckCard(entry);
+      if (!card) {
+        missing.push(entry.cardId);
+        return [];
+      }
+      return [card];
+    });
+  const resolveSingle = (entry: DeckCodeEntry | null) => (entry ? resolveZone([entry])[0] ?? null : null);
+  const imported = {
+    championLegend: resolveSingle(deck.championLegend),
+    championLeader: resolveSingle(deck.championLeader),
+    cards: resolveZone(deck.cards),
+    runeDeck: resolveZone(deck.runeDeck),
+    battlefields: resolveZone(deck.battlefields),
+    sideDeck: resolveZone(deck.sideDeck)
+  };
+  return {
+    ...imported,
+    code: encodeDeckCode(toDeckCodeDeck(imported)),
+    unresolved: missing,
+    legality: validateDecklist(imported, format)
+  };
+};
+
+const normalizeMatchMode = (mode?: string): MatchMode => {
+  const normalized = (mode || '').toLowerCase();
+  if (!MATCHMAKING_MODES.includes(normalized as MatchMode)) {
+    throw new Error('Invalid matchmaking mode');
+  }
+  return normalized as MatchMode;
+};
+
+/**
+ * Refuse to queue a player whose match deck isn't legal for the mode, so
+ * they hear about it now rather than when the match fails to start.
+ * Players without a saved deck are left to the sweep, which requeues them.
+ */
+const assertQueueDeckLegal = async (
+  userId: string,
+  mode: MatchMode,
+  deckId: string | null
+): Promise<void> => {
+  const result = await dynamodb
+    .query({
+      TableName: decklistsTableName,
+      KeyConditionExpression: 'UserId = :userId',
+      ExpressionAttributeValues: {
+        ':userId': userId
+      }
+    })
+    .promise();
+  const deck = selectMatchDeck(result.Items || [], deckId);
+  if (!deck) {
+    return;
+  }
+  const legality = getStoredDeckLegality(deck, getQueueDeckFormat(mode));
+  if (legality && !legality.legal) {
+    const error = new IllegalDeckError(legality);
+    throw new GraphQLError(error.message, {
+      extensions: {
+        code: 'BAD_USER_INPUT',
+        deckId: deck.DeckId,
+        violations: error.violations
+      }
+    });
   }
 };
 
+const getUserMmr = async (userId: string, mode: MatchMode): Promise<number> => {
+  const rating = await getPlayerRating(userId, mode);
+  return Math.round(rating.rating);
+};
+
 const getUserProfileSummary = async (
   userId: string
 ): Promise<{ userId: string; username?: string | null } | null> => {
@@ -686,7 +1058,8 @@ const listQueuedEntries = async (mode: MatchMode) => {
   return (result.Items || []).map((item) => ({
     userId: item.UserId as string,
     deckId: item.DeckId ?? null,
-    mmr: Number(item.MMR ?? defaultMmr),
+    mmr: Number(item.MMR ?? DEFAULT_RATING),
+    ratingDeviation: Number(item.RatingDeviation ?? DEFAULT_RATING_DEVIATION),
     queuedAt: Number(item.QueuedAt ?? Date.now()),
     state: item.State as string,
     authToken: item.AuthToken ?? null
@@ -812,7 +1185,7 @@ const buildMatchmakingStatusPayload = async (userId: string, mode: MatchMode) =>
   const estimatedWaitSeconds = getEstimatedWaitSeconds(mode, queueLength);
 
   if (!entry) {
-    const mmr = await getUserMmr(userId);
+    const mmr = await getUserMmr(userId, mode);
     return {
       mode,
       state: 'idle',
@@ -833,7 +1206,7 @@ const buildMatchmakingStatusPayload = async (userId: string, mode: MatchMode) =>
     mode,
     state: entry.State || MATCHMAKING_STATE.QUEUED,
     queued: entry.State === MATCHMAKING_STATE.QUEUED,
-    mmr: entry.MMR ?? (await getUserMmr(userId)),
+    mmr: entry.MMR ?? (await getUserMmr(userId, mode)),
     queuedAt: entry.QueuedAt ? new Date(entry.QueuedAt) : null,
     estimatedWaitSeconds,
     matchId: entry.MatchId ?? null,
@@ -935,12 +1308,18 @@ const removePlayersFromMatchmaking = async (playerIds: string[], reason: string)
   );
 };
 
-const getMmrTolerance = (mode: MatchMode, waitMs: number): number => {
+/**
+ * Widest rating gap we accept for a pairing. Widens with queue time, and
+ * with the larger of the two rating deviations so players whose rating is
+ * still uncertain (newcomers, long absences) are not held to a band their
+ * rating cannot yet justify.
+ */
+const getMmrTolerance = (mode: MatchMode, waitMs: number, ratingDeviation = 0): number => {
   if (mode === 'free') {
     return 5000;
   }
   const increments = Math.floor(waitMs / 30000); // widen every 30s
-  return Math.min(800, 150 + increments * 75);
+  return Math.min(800, 150 + increments * 75 + Math.round(ratingDeviation / 2));
 };
 
 const getEstimatedWaitSeconds = (mode: MatchMode, queueLength: number): number => {
@@ -964,7 +1343,10 @@ const attemptMatch = async (mode: MatchMode) => {
       const a = queued[i];
       const b = queued[j];
       const waitMs = Math.max(now - a.queuedAt, now - b.queuedAt);
-      const tolerance = mode === 'free' ? Number.POSITIVE_INFINITY : getMmrTolerance(mode, waitMs);
+      const tolerance =
+        mode === 'free'
+          ? Number.POSITIVE_INFINITY
+          : getMmrTolerance(mode, waitMs, Math.max(a.ratingDeviation, b.ratingDeviation));
       if (mode === 'free' || Math.abs(a.mmr - b.mmr) <= tolerance) {
         const matchId = uuidv4();
         const opponentForA = b.userId;
@@ -1103,10 +1485,7 @@ const attemptMatch = async (mode: MatchMode) => {
               if (!userDecks.length) {
                 return;
               }
-              const chosenDeck =
-                (preferredDeckId
-                  ? userDecks.find((deck) => deck.DeckId === preferredDeckId)
-                  : undefined) || userDecks.find((deck) => deck.IsDefault) || userDecks[0];
+              const chosenDeck = selectMatchDeck(userDecks, preferredDeckId);
               if (!chosenDeck) {
                 return;
               }
@@ -1184,7 +1563,9 @@ const attemptMatch = async (mode: MatchMode) => {
               player2: playerIds[1],
               decks: decksPayload,
               authToken: authTokenForInit,
-              playerProfiles
+              playerProfiles,
+              mode,
+              format: getQueueDeckFormat(mode)
             });
             await extendMatchedPlayersTtl();
             await Promise.all(
@@ -1246,6 +1627,11 @@ const mapMatchReplayItem = (
   };
 };
 
+// Recorded frames are full-information snapshots; every frame API hands them
+// out through the same per-viewer redaction as the live subscriptions.
+const redactFrames = (frames: any[], viewerId?: string | null) =>
+  frames.map((frame) => redactGameStateForViewer(frame, viewerId));
+
 const getMatchReplayRecord = async (matchId: string) => {
   try {
     const result = await dynamodb
@@ -1446,6 +1832,50 @@ const buildMatchStatus = async (matchId: string) => {
 // QUERY RESOLVERS
 // ============================================================================
 
+const mapSeriesPayload = (series: any) => {
+  if (!series) {
+    return null;
+  }
+  return {
+    ...series,
+    games: (series.games || []).map((game: any) => ({
+      ...game,
+      completedAt: game.completedAt ? new Date(game.completedAt) : null
+    })),
+    createdAt: series.createdAt ? new Date(series.createdAt) : null,
+    updatedAt: series.updatedAt ? new Date(series.updatedAt) : null
+  };
+};
+
+const postSeriesAction = async (
+  seriesId: string,
+  action: 'first-player' | 'sideboard',
+  body: Record<string, unknown>,
+  context: ResolverContext
+) => {
+  // A completed sideboarding window starts the next game; the match service
+  // publishes it to any client already subscribed.
+  const response = await internalApiRequest<{
+    success: boolean;
+    matchId: string | null;
+    series: any;
+    gameState: any;
+  }>(
+    `/series/${encodeURIComponent(seriesId)}/${action}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(body)
+    },
+    context.authToken
+  );
+  return {
+    success: response.success,
+    matchId: response.matchId ?? null,
+    series: mapSeriesPayload(response.series),
+    gameState: redactGameStateForViewer(response.gameState ?? null, context.userId)
+  };
+};
+
 export const queryResolvers = {
   // User Queries
   async user(_parent: any, { userId }: { userId: string }) {
@@ -1475,9 +1905,9 @@ export const queryResolvers = {
     }
   },
 
-  async leaderboard(_parent: any, { limit = 100 }: { limit?: number }) {
+  async leaderboard(_parent: any, { limit = 100, mode }: { limit?: number; mode?: MatchMode }) {
     try {
-      return await fetchLeaderboardEntries(limit);
+      return await fetchLeaderboardEntries(limit, mode ? normalizeMatchMode(mode) : 'ranked');
     } catch (error) {
       logger.error('Error fetching leaderboard:', error);
       throw error;
@@ -1508,7 +1938,7 @@ export const queryResolvers = {
       return state;
     }
     try {
-      const state = await fetchSpectatorState(matchId, context.authToken);
+      const state = await fetchSpectatorState(matchId, context);
       if (state?.players?.length) {
         await Promise.all(state.players.map((player: MatchPlayerLike) => hydratePlayerName(player)));
       }
@@ -1552,32 +1982,34 @@ export const queryResolvers = {
       // the local user id during spectate mount).
       const currentPlayer =
         players.find((p: any) => p?.playerId === playerId) ?? players[0] ?? null;
-      const opponentRaw = players.find((p: any) => p !== currentPlayer) ?? null;
-      const opponent = opponentRaw
-        ? {
-            playerId: opponentRaw.playerId ?? null,
-            victoryPoints: opponentRaw.victoryPoints ?? 0,
-            victoryScore: opponentRaw.victoryScore ?? (frame as any).victoryScore ?? 0,
-            handSize: opponentRaw.handSize ?? 0,
-            runeDeckSize: opponentRaw.runeDeckSize ?? 0,
-            board: opponentRaw.board ?? { creatures: [], artifacts: [], enchantments: [] },
-            championLegend: opponentRaw.championLegend ?? null,
-            championLeader: opponentRaw.championLeader ?? null
-          }
-        : {
-            playerId: null,
-            victoryPoints: 0,
-            victoryScore: (frame as any).victoryScore ?? 0,
-            handSize: 0,
-            runeDeckSize: 0,
-            board: { creatures: [], artifacts: [], enchantments: [] },
-            championLegend: null,
-            championLeader: null
-          };
+      const opponents = players
+        .filter((p: any) => p && p !== currentPlayer)
+        .map((opponentRaw: any) => ({
+          playerId: opponentRaw.playerId ?? null,
+          victoryPoints: opponentRaw.victoryPoints ?? 0,
+          victoryScore: opponentRaw.victoryScore ?? (frame as any).victoryScore ?? 0,
+          handSize: opponentRaw.handSize ?? 0,
+          runeDeckSize: opponentRaw.runeDeckSize ?? 0,
+          board: opponentRaw.board ?? { creatures: [], artifacts: [], enchantments: [] },
+          championLegend: opponentRaw.championLegend ?? null,
+          championLeader: opponentRaw.championLeader ?? null
+        }));
+      const opponent = opponents[0] ?? {
+        playerId: null,
+        victoryPoints: 0,
+        victoryScore: (frame as any).victoryScore ?? 0,
+        handSize: 0,
+        runeDeckSize: 0,
+        board: { creatures: [], artifacts: [], enchantments: [] },
+        championLegend: null,
+        championLeader: null
+      };
       const view = {
         matchId,
         currentPlayer,
         opponent,
+        opponents,
+        legalActions: [],
         gameState: {
           matchId,
           currentPhase: (frame as any).currentPhase ?? 'unknown',
@@ -1594,7 +2026,10 @@ export const queryResolvers = {
       return view;
     }
     try {
-      const view = await fetchPlayerView(matchId, playerId, context.authToken);
+      const view = redactPlayerViewForViewer(
+        await fetchPlayerView(matchId, playerId, context.authToken),
+        context.userId
+      );
       await hydratePlayerName(view?.currentPlayer);
       return view;
     } catch (error) {
@@ -1603,6 +2038,25 @@ export const queryResolvers = {
     }
   },
 
+  async matchSeries(
+    _parent: any,
+    { seriesId }: { seriesId: string },
+    context: ResolverContext
+  ) {
+    const viewerId = requireUser(context);
+    try {
+      const series = await internalApiRequest<any>(
+        `/series/${encodeURIComponent(seriesId)}?playerId=${encodeURIComponent(viewerId)}`,
+        { method: 'GET' },
+        context.authToken
+      );
+      return mapSeriesPayload(series);
+    } catch (error) {
+      logger.error('Error fetching match series:', error);
+      throw error;
+    }
+  },
+
   async matchHistory(
     _parent: any,
     { userId, limit = 10 }: { userId: string; limit?: number },
@@ -1698,24 +2152,9 @@ export const queryResolvers = {
       return null;
     }
     try {
-      const result = await dynamodb
-        .query({
-          TableName: decklistsTableName,
-          IndexName: deckIdIndexName,
-          KeyConditionExpression: 'DeckId = :deckId',
-          ExpressionAttributeValues: {
-            ':deckId': deckId
-          },
-          Limit: 1
-        })
-        .promise();
-
-      const item = result.Items?.[0];
-      if (item) {
-        requireUser(context, item.UserId);
-      } else {
-        requireUser(context);
-      }
+      const item = await fetchDeckById(deckId);
+      // Public decks are readable by anyone signed in; private ones by their owner.
+      requireUser(context, item && !item.IsPublic ? item.UserId : undefined);
 
       return mapDecklistItem(item);
     } catch (error) {
@@ -1724,6 +2163,108 @@ export const queryResolvers = {
     }
   },
 
+  async publicDecklists(
+    _parent: any,
+    {
+      filter,
+      sort = 'recent',
+      offset = 0,
+      limit = DEFAULT_PUBLIC_DECK_PAGE,
+      after
+    }: {
+      filter?: PublicDecklistFilter | null;
+      sort?: PublicDecklistSort | null;
+      offset?: number | null;
+      limit?: number | null;
+      after?: string | null;
+    }
+  ) {
+    try {
+      const pageSize = Math.max(1, Math.min(MAX_PUBLIC_DECK_PAGE, limit ?? DEFAULT_PUBLIC_DECK_PAGE));
+      const page = await fetchPublicDeckPage(
+        filter ?? {},
+        sort === 'popular' ? 'popular' : 'recent',
+        Math.max(0, offset ?? 0),
+        pageSize,
+        after
+      );
+      return {
+        items: page.items.map((item) => mapDecklistItem(item)),
+        // Only known when this request read the whole listing.
+        total: !after && page.exhausted ? page.matched : null,
+        nextCursor: page.nextCursor
+      };
+    } catch (error) {
+      logger.error('Error fetching public decklists:', error);
+      throw error;
+    }
+  },
+
+  validateDecklist(
+    _parent: any,
+    { input, format }: { input: DeckValidationInput; format?: string | null }
+  ) {
+    return validateDecklist(input, format);
+  },
+
+  async exportDeckCode(_parent: any, { deckId }: { deckId: string }, context: ResolverContext) {
+    const item = await fetchDeckById(deckId);
+    // Public decks are shareable by anyone signed in; private ones by their owner.
+    requireUser(context, item && !item.IsPublic ? item.UserId : undefined);
+    if (!item) {
+      throw new Error('Deck not found');
+    }
+    return encodeDeckCode(
+      toDeckCodeDeck({
+        cards: item.Cards,
+        runeDeck: item.RuneDeck,
+        battlefields: item.Battlefields,
+        sideDeck: item.SideDeck,
+        championLegend: item.ChampionLegend,
+        championLeader: item.ChampionLeader
+      })
+    );
+  },
+
+  async deckAnalysis(
+    _parent: any,
+    { deckId, turns, ruleProfile }: { deckId: string; turns?: number | null; ruleProfile?: string | null },
+    context: ResolverContext
+  ) {
+    const item = await fetchDeckById(deckId);
+    requireUser(context, item && !item.IsPublic ? item.UserId : undefined);
+    if (!item) {
+      throw new Error('Deck not found');
+    }
+    // Odds follow the rule profile the deck's format plays under.
+    const profileId = ruleProfile ?? (item.Format && item.Format in RULE_PROFILES ? item.Format : 'standard');
+    return analyzeDeck(
+      { cards: item.Cards || [], championLegend: item.ChampionLegend || null },
+      { ruleProfile: resolveRuleProfile(profileId), turns: turns ?? undefined }
+    );
+  },
+
+  importDeckCode(_parent: any, { code, format }: { code: string; format?: string | null }) {
+    try {
+      return buildDeckImport(decodeDeckCode(code), [], format);
+    } catch (error) {
+      return rethrowGraphQLError(error, 'Failed to import deck code');
+    }
+  },
+
+  parseDecklistText(_parent: any, { text, format }: { text: string; format?: string | null }) {
+    try {
+      const { deck, unresolved } = parseDecklistText(text);
+      return buildDeckImport(deck, unresolved, format);
+    } catch (error) {
+      return rethrowGraphQLError(error, 'Failed to parse decklist');
+    }
+  },
+
+  deckFormats(_parent: any, { at }: { at?: string | null }) {
+    return listDeckFormats(at ?? Date.now()).map(mapDeckFormat);
+  },
+
   async matchmakingStatus(
     _parent: any,
     { userId, mode }: { userId: string; mode: MatchMode },
@@ -1735,10 +2276,17 @@ export const queryResolvers = {
     return buildMatchmakingStatusPayload(targetUserId, normalizedMode);
   },
 
-  async matchReplay(_parent: any, { matchId }: { matchId: string }) {
+  async matchReplay(_parent: any, { matchId }: { matchId: string }, context: ResolverContext) {
     try {
       const record = await getMatchReplayRecord(matchId);
-      return mapMatchReplayItem(record);
+      const replay = mapMatchReplayItem(record);
+      if (replay) {
+        replay.finalState = replay.finalState
+          ? redactGameStateForViewer(replay.finalState, context.userId)
+          : null;
+        replay.frames = redactFrames(replay.frames, context.userId);
+      }
+      return replay;
     } catch (error) {
       logger.error('Error fetching replay:', error);
       throw error;
@@ -1755,7 +2303,8 @@ export const queryResolvers = {
       matchId,
       offset,
       limit
-    }: { matchId: string; offset?: number | null; limit?: number | null }
+    }: { matchId: string; offset?: number | null; limit?: number | null },
+    context: ResolverContext
   ) {
     const safeOffset = Math.max(0, Math.floor(offset ?? 0));
     const safeLimit =
@@ -1763,15 +2312,16 @@ export const queryResolvers = {
         ? Math.min(Math.floor(limit), 1000)
         : undefined;
     try {
+      const viewerId = context.userId;
       const live = listMatchFrames(matchId, safeOffset, safeLimit);
       if (live && live.length > 0) {
-        return live;
+        return redactFrames(live, viewerId);
       }
       // Persistent JSONL store. Covers the restart-survives case for both
       // in-progress matches (finalize() never ran) and finished matches
       // whose REGISTRY entry was pruned after FINISHED_TTL_MS.
       if (readPersistedReplayFrameCount(matchId) > 0) {
-        return readPersistedReplayFrames(matchId, safeOffset, safeLimit);
+        return redactFrames(readPersistedReplayFrames(matchId, safeOffset, safeLimit), viewerId);
       }
       const record = await getMatchReplayRecord(matchId);
       const persisted = Array.isArray(record?.Frames) ? (record!.Frames as any[]) : [];
@@ -1779,7 +2329,7 @@ export const queryResolvers = {
         safeOffset,
         safeLimit !== undefined ? safeOffset + safeLimit : persisted.length
       );
-      return window;
+      return redactFrames(window, viewerId);
     } catch (error) {
       logger.error('Error fetching match frames:', error);
       throw error;
@@ -1916,11 +2466,13 @@ export const mutationResolvers = {
       player1,
       player2,
       decks,
+      ruleProfile,
     }: {
       matchId: string;
       player1: string;
       player2: string;
       decks: any;
+      ruleProfile?: unknown;
     },
     context: ResolverContext
   ) {
@@ -1932,7 +2484,8 @@ export const mutationResolvers = {
         player2,
         decks,
         authToken: context.authToken,
-        playerProfiles
+        playerProfiles,
+        ruleProfile
       });
     } catch (error) {
       logger.error('[MATCH-INIT] Error:', error);
@@ -1940,61 +2493,118 @@ export const mutationResolvers = {
     }
   },
 
-  async submitInitiativeChoice(
+  async initMatchSeries(
     _parent: any,
-    { matchId, playerId, choice }: { matchId: string; playerId: string; choice: number },
+    {
+      seriesId,
+      player1,
+      player2,
+      decks,
+      bestOf,
+    }: {
+      seriesId: string;
+      player1: string;
+      player2: string;
+      decks: any;
+      bestOf?: number | null;
+    },
     context: ResolverContext
   ) {
-    const targetUser = requireUser(context, playerId);
+    const callerId = requireUser(context);
+    if (callerId !== player1 && callerId !== player2) {
+      throw new Error('Forbidden');
+    }
     try {
-      await postMatchAction(
-        matchId,
-        'initiative',
+      const playerProfiles = await buildPlayerProfileMap([player1, player2]);
+      const response = await internalApiRequest<any>(
+        '/series/init',
         {
-          playerId,
-          choice
+          method: 'POST',
+          body: JSON.stringify({
+            seriesId,
+            player1,
+            player2,
+            decks,
+            playerProfiles,
+            bestOf: bestOf ?? undefined
+          })
         },
         context.authToken
       );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      logger.info(
-        `[INITIATIVE] Player ${playerId} (${targetUser}) locked initiative choice ${choice} for match ${matchId}`
-      );
-
-      return spectatorState;
+      logger.info(`[SERIES-INIT] Series ${seriesId} started between ${player1} and ${player2}`);
+      return {
+        ...response,
+        series: mapSeriesPayload(response.series)
+      };
     } catch (error) {
-      logger.error('[INITIATIVE] Error:', error);
+      logger.error('[SERIES-INIT] Error:', error);
       throw error;
     }
   },
 
-  async submitMulligan(
+  async chooseSeriesFirstPlayer(
     _parent: any,
-    { matchId, playerId, indices }: { matchId: string; playerId: string; indices?: number[] },
+    { seriesId, playerId, goFirst }: { seriesId: string; playerId: string; goFirst: boolean },
     context: ResolverContext
   ) {
-    const targetUser = requireUser(context, playerId);
+    requireUser(context, playerId);
     try {
-      await postMatchAction(matchId, 'mulligan', {
-        playerId,
-        indices: Array.isArray(indices) ? indices : []
-      }, context.authToken);
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
+      return await postSeriesAction(seriesId, 'first-player', { playerId, goFirst }, context);
+    } catch (error) {
+      logger.error('[SERIES-FIRST-PLAYER] Error:', error);
+      return rethrowGraphQLError(error, 'Failed to choose first player');
+    }
+  },
 
-      logger.info(
-        `[MULLIGAN] Player ${playerId} (${targetUser}) submitted mulligan for match ${matchId}`
+  async submitSideboard(
+    _parent: any,
+    {
+      seriesId,
+      playerId,
+      swapIn,
+      swapOut,
+    }: {
+      seriesId: string;
+      playerId: string;
+      swapIn?: Array<{ cardId?: string; slug?: string; quantity: number }> | null;
+      swapOut?: Array<{ cardId?: string; slug?: string; quantity: number }> | null;
+    },
+    context: ResolverContext
+  ) {
+    requireUser(context, playerId);
+    try {
+      return await postSeriesAction(
+        seriesId,
+        'sideboard',
+        { playerId, swapIn: swapIn ?? [], swapOut: swapOut ?? [] },
+        context
       );
-
-      return spectatorState;
     } catch (error) {
-      logger.error('[MULLIGAN] Error:', error);
-      throw error;
+      logger.error('[SERIES-SIDEBOARD] Error:', error);
+      return rethrowGraphQLError(error, 'Failed to submit sideboard');
     }
   },
 
+  async submitInitiativeChoice(
+    _parent: any,
+    { matchId, playerId, choice }: { matchId: string; playerId: string; choice: number },
+    context: ResolverContext
+  ) {
+    requireUser(context, playerId);
+    const { gameState } = await runMatchCommand(matchId, 'initiative', { playerId, choice }, context);
+    return gameState;
+  },
+
+  async submitMulligan(
+    _parent: any,
+    { matchId, playerId, indices }: { matchId: string; playerId: string; indices?: number[] },
+    context: ResolverContext
+  ) {
+    requireUser(context, playerId);
+    const { gameState } = await runMatchCommand(matchId, 'mulligan', { playerId, indices }, context);
+    return gameState;
+  },
+
   async submitDiscardSelection(
     _parent: any,
     {
@@ -2005,30 +2615,14 @@ export const mutationResolvers = {
     }: { matchId: string; playerId: string; promptId: string; cardInstanceIds: string[] },
     context: ResolverContext
   ) {
-    const targetUser = requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'discard',
-        {
-          playerId,
-          promptId,
-          cardInstanceIds: Array.isArray(cardInstanceIds) ? cardInstanceIds : []
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      logger.info(
-        `[DISCARD] Player ${playerId} (${targetUser}) resolved discard prompt ${promptId} for match ${matchId}`
-      );
-
-      return spectatorState;
-    } catch (error) {
-      logger.error('[DISCARD] Error:', error);
-      throw error;
-    }
+    requireUser(context, playerId);
+    const { gameState } = await runMatchCommand(
+      matchId,
+      'discard',
+      { playerId, promptId, cardInstanceIds },
+      context
+    );
+    return gameState;
   },
 
   async submitTargetSelection(
@@ -2041,30 +2635,39 @@ export const mutationResolvers = {
     }: { matchId: string; playerId: string; promptId: string; selectionIds: string[] },
     context: ResolverContext
   ) {
-    const targetUser = requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'target',
-        {
-          playerId,
-          promptId,
-          selectionIds: Array.isArray(selectionIds) ? selectionIds : []
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      logger.info(
-        `[TARGET] Player ${playerId} (${targetUser}) resolved target prompt ${promptId} for match ${matchId}`
-      );
+    requireUser(context, playerId);
+    const { gameState } = await runMatchCommand(matchId, 'target', { playerId, promptId, selectionIds }, context);
+    return gameState;
+  },
 
-      return spectatorState;
-    } catch (error) {
-      logger.error('[TARGET] Error:', error);
-      throw error;
-    }
+  async assignCombatDamage(
+    _parent: any,
+    {
+      matchId,
+      playerId,
+      promptId,
+      assignments
+    }: {
+      matchId: string;
+      playerId: string;
+      promptId: string;
+      assignments: Array<{ instanceId: string; amount: number }>;
+    },
+    context: ResolverContext
+  ) {
+    requireUser(context, playerId);
+    // The match service takes the split keyed by unit.
+    const byUnit: Record<string, number> = {};
+    (Array.isArray(assignments) ? assignments : []).forEach(({ instanceId, amount }) => {
+      byUnit[instanceId] = (byUnit[instanceId] ?? 0) + amount;
+    });
+    const { gameState } = await runMatchCommand(
+      matchId,
+      'assign-damage',
+      { playerId, promptId, assignments: byUnit },
+      context
+    );
+    return gameState;
   },
 
   async selectBattlefield(
@@ -2072,24 +2675,9 @@ export const mutationResolvers = {
     { matchId, playerId, battlefieldId }: { matchId: string; playerId: string; battlefieldId: string },
     context: ResolverContext
   ) {
-    const targetUser = requireUser(context, playerId);
-    try {
-      await postMatchAction(matchId, 'select-battlefield', {
-        playerId,
-        battlefieldId
-      }, context.authToken);
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      logger.info(
-        `[BATTLEFIELD] Player ${playerId} (${targetUser}) selected battlefield ${battlefieldId} for match ${matchId}`
-      );
-
-      return spectatorState;
-    } catch (error) {
-      logger.error('[SELECT-BATTLEFIELD] Error:', error);
-      rethrowGraphQLError(error, 'Unable to lock battlefield selection.');
-    }
+    requireUser(context, playerId);
+    const { gameState } = await runMatchCommand(matchId, 'select-battlefield', { playerId, battlefieldId }, context);
+    return gameState;
   },
 
   async playCard(
@@ -2112,70 +2700,12 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      let cardSnapshot: PublishedCard | null = null;
-      try {
-        const playerView = await fetchPlayerView(matchId, playerId, context.authToken);
-        const selectedCard = playerView?.currentPlayer?.hand?.[cardIndex];
-        cardSnapshot = selectedCard
-          ? {
-              cardId: selectedCard.cardId ?? selectedCard.id ?? null,
-              name: selectedCard.name ?? 'Card',
-              cost: selectedCard.cost ?? selectedCard.energyCost ?? 0,
-              power: selectedCard.power ?? 0,
-              toughness: selectedCard.toughness ?? 0,
-              type: selectedCard.type ?? 'Unknown',
-            }
-          : null;
-      } catch (error) {
-        logger.warn('[PLAY-CARD] Unable to snapshot card before action', {
-          matchId,
-          playerId,
-          error,
-        });
-      }
-
-      const actionResult = await postMatchAction(
-        matchId,
-        'play-card',
-        {
-          playerId,
-          cardIndex,
-          targets: targets ?? [],
-          destinationId,
-          useAccelerate: Boolean(useAccelerate),
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-      const playerView = actionResult?.playerView ?? null;
-      const runePayment = actionResult?.runePayment ?? null;
-
-      if (cardSnapshot) {
-        publishCardPlayed(matchId, {
-          matchId,
-          playerId,
-          card: cardSnapshot,
-          timestamp: new Date(),
-          playerView,
-          runePayment,
-        });
-      }
-
-      logger.info(`[PLAY-CARD] Player ${playerId} played card in match ${matchId}`);
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-        playerView,
-        runePayment,
-      };
-    } catch (error: any) {
-      logger.error('[PLAY-CARD] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(
+      matchId,
+      'play-card',
+      { playerId, cardIndex, targets, destinationId, useAccelerate },
+      context
+    );
   },
 
   async attack(
@@ -2194,44 +2724,7 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      if (!destinationId) {
-        throw new Error('Battlefield destination required');
-      }
-      if (destinationId === 'base') {
-        throw new Error('Use moveUnit to return to base');
-      }
-      await postMatchAction(
-        matchId,
-        'attack',
-        {
-          playerId,
-          creatureInstanceId,
-          destinationId,
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-      publishAttackDeclared(matchId, {
-        matchId,
-        playerId,
-        creatureInstanceId,
-        destinationId,
-        timestamp: new Date(),
-      });
-
-      logger.info(`[ATTACK] Player ${playerId} declared attack in match ${matchId}`);
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-      };
-    } catch (error: any) {
-      logger.error('[ATTACK] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(matchId, 'attack', { playerId, creatureInstanceId, destinationId }, context);
   },
 
   async moveUnit(
@@ -2250,29 +2743,7 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'move',
-        {
-          playerId,
-          creatureInstanceId,
-          destinationId,
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-      };
-    } catch (error: any) {
-      logger.error('[MOVE-UNIT] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(matchId, 'move', { playerId, creatureInstanceId, destinationId }, context);
   },
 
   async hideCard(
@@ -2291,29 +2762,7 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'hide-card',
-        {
-          playerId,
-          cardIndex,
-          battlefieldId,
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-      };
-    } catch (error: any) {
-      logger.error('[HIDE-CARD] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(matchId, 'hide-card', { playerId, cardIndex, battlefieldId }, context);
   },
 
   async activateHiddenCard(
@@ -2332,29 +2781,7 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'activate-hidden',
-        {
-          playerId,
-          hiddenInstanceId,
-          targets: targets ?? [],
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-      };
-    } catch (error: any) {
-      logger.error('[ACTIVATE-HIDDEN] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(matchId, 'activate-hidden', { playerId, hiddenInstanceId, targets }, context);
   },
 
   async commenceBattle(
@@ -2371,28 +2798,7 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'commence-battle',
-        {
-          playerId,
-          battlefieldId
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase
-      };
-    } catch (error: any) {
-      logger.error('[COMMENCE-BATTLE] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(matchId, 'commence-battle', { playerId, battlefieldId }, context);
   },
 
   async activateChampionAbility(
@@ -2411,36 +2817,7 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'activate-legend',
-        {
-          playerId,
-          target,
-          destinationId,
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      logger.info('[ACTIVATE-LEGEND] Player activated champion ability', {
-        matchId,
-        playerId,
-        target: target ?? 'legend',
-        destinationId: destinationId ?? null,
-      });
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-      };
-    } catch (error: any) {
-      logger.error('[ACTIVATE-LEGEND] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(matchId, 'activate-legend', { playerId, target, destinationId }, context);
   },
 
   async passPriority(
@@ -2455,32 +2832,7 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'pass-priority',
-        {
-          playerId,
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      logger.info('[PASS-PRIORITY] Player passed priority', {
-        matchId,
-        playerId,
-      });
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-      };
-    } catch (error: any) {
-      logger.error('[PASS-PRIORITY] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(matchId, 'pass-priority', { playerId }, context);
   },
 
   async respondToSpellReaction(
@@ -2497,34 +2849,7 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'respond-to-spell-reaction',
-        {
-          playerId,
-          pass,
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-
-      logger.info('[RESPOND-TO-SPELL-REACTION] Player responded to spell reaction', {
-        matchId,
-        playerId,
-        pass,
-      });
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-      };
-    } catch (error: any) {
-      logger.error('[RESPOND-TO-SPELL-REACTION] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(matchId, 'respond-to-spell-reaction', { playerId, pass }, context);
   },
 
   async respondToChainReaction(
@@ -2541,34 +2866,25 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'respond-to-chain-reaction',
-        {
-          playerId,
-          pass,
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
+    return runMatchCommand(matchId, 'respond-to-chain-reaction', { playerId, pass }, context);
+  },
 
-      logger.info('[RESPOND-TO-CHAIN-REACTION] Player responded to chain reaction', {
-        matchId,
-        playerId,
-        pass,
-      });
+  async requestTakeBack(
+    _parent: any,
+    { matchId, playerId }: { matchId: string; playerId: string },
+    context: ResolverContext
+  ) {
+    requireUser(context, playerId);
+    return runMatchCommand(matchId, 'request-take-back', { playerId }, context);
+  },
 
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-      };
-    } catch (error: any) {
-      logger.error('[RESPOND-TO-CHAIN-REACTION] Error:', error);
-      throw error;
-    }
+  async respondToTakeBack(
+    _parent: any,
+    { matchId, playerId, accept }: { matchId: string; playerId: string; accept: boolean },
+    context: ResolverContext
+  ) {
+    requireUser(context, playerId);
+    return runMatchCommand(matchId, 'respond-to-take-back', { playerId, accept }, context);
   },
 
   async recordDuelLogEntry(
@@ -2594,7 +2910,7 @@ export const mutationResolvers = {
     if (!normalizedMessage) {
       throw new GraphQLError('Log message is required.');
     }
-    requireUser(context);
+    requireUser(context, playerId);
     try {
       await postMatchAction(
         matchId,
@@ -2606,10 +2922,11 @@ export const mutationResolvers = {
           entryId,
           actorName
         },
-        context.authToken
+        context.authToken,
+        context.idempotencyKey
       );
 
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
+      const spectatorState = await fetchSpectatorState(matchId, context);
 
       return {
         success: true,
@@ -2647,10 +2964,11 @@ export const mutationResolvers = {
           playerId,
           message: normalizedMessage
         },
-        context.authToken
+        context.authToken,
+        context.idempotencyKey
       );
 
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
+      const spectatorState = await fetchSpectatorState(matchId, context);
 
       return {
         success: true,
@@ -2669,42 +2987,15 @@ export const mutationResolvers = {
     context: ResolverContext
   ) {
     requireUser(context, playerId);
-    try {
-      await postMatchAction(
-        matchId,
-        'next-phase',
-        {
-          playerId,
-        },
-        context.authToken
-      );
-
-      const spectatorState = await syncMatchStateFromService(matchId, context.authToken);
-      publishPhaseChange(matchId, {
-        matchId,
-        newPhase: spectatorState.currentPhase,
-        turnNumber: spectatorState.turnNumber,
-        timestamp: new Date(),
-      });
-
-      logger.info(`[NEXT-PHASE] Player ${playerId} advanced phase in match ${matchId}`);
-
-      return {
-        success: true,
-        gameState: spectatorState,
-        currentPhase: spectatorState.currentPhase,
-      };
-    } catch (error: any) {
-      logger.error('[NEXT-PHASE] Error:', error);
-      throw error;
-    }
+    return runMatchCommand(matchId, 'next-phase', { playerId }, context);
   },
 
   async reportMatchResult(
     _parent: any,
-    { matchId, winner, reason }: { matchId: string; winner: string; reason: string },
+    { matchId, winner, note }: { matchId: string; winner?: string | null; reason?: string | null; note?: string | null },
     context: ResolverContext
   ) {
+    requireUser(context);
     try {
       const response = await internalApiRequest<{
         success: boolean;
@@ -2714,21 +3005,21 @@ export const mutationResolvers = {
         `/matches/${matchId}/result`,
         {
           method: 'POST',
-          body: JSON.stringify({ winner, reason }),
+          body: JSON.stringify({ winner: winner ?? null, note: note ?? null }),
         },
         context.authToken
       );
 
-      publishMatchCompletion(matchId, response.matchResult);
+      // The match service publishes the result with the state it saved.
       const resolvedPlayers = resolveMatchPlayerIds(response.gameState, response.matchResult);
       await removePlayersFromMatchmaking(resolvedPlayers, 'match_completed');
 
-      logger.info(`[MATCH-COMPLETE] Match ${matchId} completed. Winner: ${winner}`);
+      logger.info(`[MATCH-COMPLETE] Match ${matchId} completed. Winner: ${response.matchResult.winner}`);
 
       return {
         success: response.success,
         matchResult: response.matchResult,
-        gameState: response.gameState ?? null,
+        gameState: redactGameStateForViewer(response.gameState ?? null, context.userId),
       };
     } catch (error) {
       logger.error('[RESULT] Error:', error);
@@ -2741,6 +3032,7 @@ export const mutationResolvers = {
     { matchId, playerId }: { matchId: string; playerId: string },
     context: ResolverContext
   ) {
+    requireUser(context, playerId);
     try {
       const response = await internalApiRequest<{
         success: boolean;
@@ -2755,7 +3047,14 @@ export const mutationResolvers = {
         context.authToken
       );
 
-      publishMatchCompletion(matchId, response.matchResult);
+      if (!response.matchResult) {
+        // Free-for-all: the conceding player is out and the match goes on.
+        const gameState = await fetchSpectatorState(matchId, context);
+        await removePlayersFromMatchmaking([playerId], 'match_conceded');
+        logger.info(`[MATCH-CONCEDE] Player ${playerId} left match ${matchId}`);
+        return { success: response.success, matchResult: null, gameState };
+      }
+
       const resolvedPlayers = resolveMatchPlayerIds(response.gameState, response.matchResult);
       await removePlayersFromMatchmaking(resolvedPlayers, 'match_conceded');
 
@@ -2766,7 +3065,7 @@ export const mutationResolvers = {
       return {
         success: response.success,
         matchResult: response.matchResult,
-        gameState: response.gameState ?? null,
+        gameState: redactGameStateForViewer(response.gameState ?? null, context.userId),
       };
     } catch (error) {
       logger.error('[CONCEDE] Error:', error);
@@ -2788,6 +3087,7 @@ export const mutationResolvers = {
         throw new Error('Deck must include at least one card');
       }
 
+      const format = resolveDeckFormat(input.format).id;
       const normalizedCards = sanitizeDeckCards(input.cards);
       const cardCount = normalizedCards.reduce((sum, card) => sum + card.quantity, 0);
 
@@ -2837,6 +3137,7 @@ export const mutationResolvers = {
       const deckId = input.deckId ?? uuidv4();
 
       let createdAt = now;
+      let existingItem: AWS.DynamoDB.DocumentClient.AttributeMap | undefined;
       if (input.deckId) {
         const existing = await dynamodb
           .get({
@@ -2844,6 +3145,7 @@ export const mutationResolvers = {
             Key: { UserId: input.userId, DeckId: deckId }
           })
           .promise();
+        existingItem = existing.Item;
         if (existing.Item && existing.Item.CreatedAt) {
           createdAt = existing.Item.CreatedAt;
         }
@@ -2857,7 +3159,7 @@ export const mutationResolvers = {
         Name: input.name,
         Description: input.description ?? '',
         HeroSlug: input.heroSlug ?? null,
-        Format: input.format ?? 'standard',
+        Format: format,
         Tags: input.tags ?? [],
         IsPublic: Boolean(input.isPublic),
         IsDefault: isDefaultDeck,
@@ -2875,6 +3177,17 @@ export const mutationResolvers = {
       if (sanitizedLeader) {
         item.ChampionLeader = sanitizedLeader;
       }
+      if (item.IsPublic) {
+        item.PublicListing = PUBLIC_DECK_LISTING;
+      }
+      // Edits keep the deck's place in the fork graph. Every deck carries a
+      // ForkCount so public ones appear in the popularity index.
+      item.ForkCount = existingItem?.ForkCount ?? 0;
+      for (const key of ['ForkedFrom', 'ForkLineage']) {
+        if (existingItem?.[key] !== undefined) {
+          item[key] = existingItem[key];
+        }
+      }
 
       await dynamodb
         .put({
@@ -2944,6 +3257,85 @@ export const mutationResolvers = {
     }
   },
 
+  async forkDecklist(
+    _parent: any,
+    { userId, deckId, name }: { userId: string; deckId: string; name?: string | null },
+    context: ResolverContext
+  ) {
+    try {
+      requireUser(context, userId);
+      const source = await fetchDeckById(deckId);
+      if (!source) {
+        throw new Error('Deck not found');
+      }
+      if (!source.IsPublic && source.UserId !== userId) {
+        throw new Error('Forbidden');
+      }
+
+      const now = Date.now();
+      const item: Record<string, any> = {
+        UserId: userId,
+        DeckId: uuidv4(),
+        Name: name?.trim() || source.Name,
+        Description: source.Description ?? '',
+        HeroSlug: source.HeroSlug ?? null,
+        Format: source.Format ?? 'standard',
+        Tags: source.Tags ?? [],
+        IsPublic: false,
+        IsDefault: false,
+        CardCount: source.CardCount ?? 0,
+        Cards: source.Cards ?? [],
+        RuneDeck: source.RuneDeck ?? [],
+        Battlefields: source.Battlefields ?? [],
+        SideDeck: source.SideDeck ?? [],
+        ForkCount: 0,
+        ForkedFrom: { DeckId: source.DeckId, UserId: source.UserId, Name: source.Name ?? null },
+        // Ancestor deck ids, root first, so a fork of a fork still credits the original.
+        ForkLineage: [...(source.ForkLineage ?? []), source.DeckId],
+        CreatedAt: now,
+        UpdatedAt: now
+      };
+      if (source.ChampionLegend) {
+        item.ChampionLegend = source.ChampionLegend;
+      }
+      if (source.ChampionLeader) {
+        item.ChampionLeader = source.ChampionLeader;
+      }
+
+      await dynamodb
+        .put({
+          TableName: decklistsTableName,
+          Item: item
+        })
+        .promise();
+
+      // Popularity counts copies made by other players.
+      if (source.UserId !== userId) {
+        await dynamodb
+          .update({
+            TableName: decklistsTableName,
+            Key: { UserId: source.UserId, DeckId: source.DeckId },
+            UpdateExpression: 'ADD #forkCount :one',
+            // A source deleted since it was read must not come back as a stub.
+            ConditionExpression: 'attribute_exists(DeckId)',
+            ExpressionAttributeNames: { '#forkCount': 'ForkCount' },
+            ExpressionAttributeValues: { ':one': 1 }
+          })
+          .promise()
+          .catch((error: AWS.AWSError) => {
+            if (error?.code !== 'ConditionalCheckFailedException') {
+              throw error;
+            }
+          });
+      }
+
+      return mapDecklistItem(item);
+    } catch (error) {
+      logger.error('Error forking decklist:', error);
+      throw error;
+    }
+  },
+
   async joinMatchmakingQueue(
     _parent: any,
     { input }: { input: { userId: string; mode: MatchMode; deckId?: string } },
@@ -2980,13 +3372,16 @@ export const mutationResolvers = {
             matchId: existingMatchId,
             opponentId: existingOpponentId,
             opponentName: existingOpponentName,
-            mmr: existing.MMR ?? (await getUserMmr(userId)),
+            mmr: existing.MMR ?? (await getUserMmr(userId, normalizedMode)),
             estimatedWaitSeconds: getEstimatedWaitSeconds(normalizedMode, await getQueueLength(normalizedMode))
           };
         }
       }
 
-      const mmr = await getUserMmr(userId);
+      await assertQueueDeckLegal(userId, normalizedMode, input.deckId ?? null);
+
+      const rating = await getPlayerRating(userId, normalizedMode);
+      const mmr = Math.round(rating.rating);
       const now = Date.now();
 
       await dynamodb
@@ -2998,6 +3393,7 @@ export const mutationResolvers = {
             DeckId: input.deckId ?? null,
             State: MATCHMAKING_STATE.QUEUED,
             MMR: mmr,
+            RatingDeviation: Math.round(rating.ratingDeviation),
             QueuedAt: now,
             Ranked: normalizedMode === 'ranked',
             AuthToken: context.authToken ?? null,
@@ -3167,35 +3563,95 @@ async function* withInitialFrame(
   }
 }
 
+/**
+ * Catch a reconnecting subscriber up before handing it the live stream. The
+ * first `next()` on a graphql-subscriptions iterator is what registers its
+ * listeners, so it is issued before the backlog is read; anything published
+ * in between shows up on the live side and is dropped by sequence number.
+ */
+async function* withMissedEvents(
+  iter: AsyncIterator<any>,
+  readBacklog: () => MatchEvent[]
+): AsyncGenerator<any, void, undefined> {
+  let pending = iter.next();
+  let lastSeq = 0;
+  try {
+    for (const event of readBacklog()) {
+      lastSeq = event.seq;
+      yield event.payload;
+    }
+    while (true) {
+      const { value, done } = await pending;
+      if (done) return;
+      pending = iter.next();
+      const seq = Object.values(value ?? {})
+        .map((data: any) => data?.seq)
+        .find((candidate) => typeof candidate === 'number');
+      if (typeof seq === 'number' && seq <= lastSeq) continue;
+      yield value;
+    }
+  } finally {
+    try {
+      await iter.return?.(undefined);
+    } catch {
+      // ignore
+    }
+  }
+}
+
+const subscribeToMatchEvents = (matchId: string, trigger: string, sinceSeq?: number | null) => {
+  const iter = pubSub.asyncIterator([trigger]);
+  if (typeof sinceSeq !== 'number') {
+    return iter;
+  }
+  return withMissedEvents(iter as AsyncIterator<any>, () =>
+    getMatchEventsSince(matchId, [trigger], sinceSeq)
+  );
+};
+
 export const subscriptionResolvers = {
   gameStateChanged: {
-    subscribe: (_parent: any, { matchId }: { matchId: string }) => {
-      const iter = pubSub.asyncIterator([
-        `${SubscriptionEvents.GAME_STATE_CHANGED}:${matchId}`
-      ]);
+    subscribe: (
+      _parent: any,
+      { matchId, sinceSeq }: { matchId: string; sinceSeq?: number | null }
+    ) => {
+      const trigger = `${SubscriptionEvents.GAME_STATE_CHANGED}:${matchId}`;
       // For replay sessions, seed the subscriber with the most recent frame
       // so late-mounting GameBoards (match already ended before React
       // subscribed) still have something to render instead of an empty
       // channel. Live matches keep the original behaviour byte-for-byte.
       if (typeof matchId === 'string' && matchId.startsWith('replay-')) {
+        const iter = pubSub.asyncIterator([trigger]);
         const initial = getReplaySessionLastFrame(matchId);
         return withInitialFrame(iter as AsyncIterator<any>, initial);
       }
-      return iter;
+      return subscribeToMatchEvents(matchId, trigger, sinceSeq);
     },
+    resolve: (payload: any, _args: any, context: ResolverContext) =>
+      redactGameStateForViewer(payload?.gameStateChanged, context?.userId),
   },
 
   playerGameStateChanged: {
-    subscribe: (_parent: any, { matchId, playerId }: { matchId: string; playerId: string }) => {
-      return pubSub.asyncIterator([
+    subscribe: (
+      _parent: any,
+      { matchId, playerId, sinceSeq }: { matchId: string; playerId: string; sinceSeq?: number | null }
+    ) => {
+      return subscribeToMatchEvents(
+        matchId,
         `${SubscriptionEvents.PLAYER_GAME_STATE_CHANGED}:${matchId}:${playerId}`,
-      ]);
+        sinceSeq
+      );
     },
+    resolve: (payload: any, _args: any, context: ResolverContext) =>
+      redactPlayerViewForViewer(payload?.playerGameStateChanged, context?.userId),
   },
 
   matchCompleted: {
-    subscribe: (_parent: any, { matchId }: { matchId: string }) => {
-      return pubSub.asyncIterator([`${SubscriptionEvents.MATCH_COMPLETED}:${matchId}`]);
+    subscribe: (
+      _parent: any,
+      { matchId, sinceSeq }: { matchId: string; sinceSeq?: number | null }
+    ) => {
+      return subscribeToMatchEvents(matchId, `${SubscriptionEvents.MATCH_COMPLETED}:${matchId}`, sinceSeq);
     },
   },
 
@@ -3206,21 +3662,36 @@ export const subscriptionResolvers = {
   },
 
   cardPlayed: {
-    subscribe: (_parent: any, { matchId }: { matchId: string }) => {
-      return pubSub.asyncIterator([`${SubscriptionEvents.CARD_PLAYED}:${matchId}`]);
+    subscribe: (
+      _parent: any,
+      { matchId, sinceSeq }: { matchId: string; sinceSeq?: number | null }
+    ) => {
+      return subscribeToMatchEvents(matchId, `${SubscriptionEvents.CARD_PLAYED}:${matchId}`, sinceSeq);
     },
+    resolve: (payload: any, _args: any, context: ResolverContext) =>
+      redactMatchEventForViewer(payload?.cardPlayed, context?.userId),
   },
 
   attackDeclared: {
-    subscribe: (_parent: any, { matchId }: { matchId: string }) => {
-      return pubSub.asyncIterator([`${SubscriptionEvents.ATTACK_DECLARED}:${matchId}`]);
+    subscribe: (
+      _parent: any,
+      { matchId, sinceSeq }: { matchId: string; sinceSeq?: number | null }
+    ) => {
+      return subscribeToMatchEvents(matchId, `${SubscriptionEvents.ATTACK_DECLARED}:${matchId}`, sinceSeq);
     },
+    resolve: (payload: any, _args: any, context: ResolverContext) =>
+      redactMatchEventForViewer(payload?.attackDeclared, context?.userId),
   },
 
   phaseChanged: {
-    subscribe: (_parent: any, { matchId }: { matchId: string }) => {
-      return pubSub.asyncIterator([`${SubscriptionEvents.PHASE_CHANGED}:${matchId}`]);
+    subscribe: (
+      _parent: any,
+      { matchId, sinceSeq }: { matchId: string; sinceSeq?: number | null }
+    ) => {
+      return subscribeToMatchEvents(matchId, `${SubscriptionEvents.PHASE_CHANGED}:${matchId}`, sinceSeq);
     },
+    resolve: (payload: any, _args: any, context: ResolverContext) =>
+      redactMatchEventForViewer(payload?.phaseChanged, context?.userId),
   },
 
   matchmakingStatusUpdated: {
@@ -3237,22 +3708,26 @@ export const subscriptionResolvers = {
 // HELPER FUNCTIONS
 // ============================================================================
 
-async function fetchLeaderboardEntries(limit = 100): Promise<LeaderboardEntry[]> {
-  const result = await dynamodb.scan({
-    TableName: process.env.USERS_TABLE || 'riftbound-online-users-dev',
-    Limit: limit
-  }).promise();
+async function fetchLeaderboardEntries(
+  limit = 100,
+  mode: MatchMode = 'ranked'
+): Promise<LeaderboardEntry[]> {
+  const users = await fetchLadderUsers(mode, limit);
 
-  return (result.Items || [])
-    .map((item: any) => ({
+  return users.map((item: any) => {
+    const rating = ratingFromUserItem(item, mode);
+    return {
       userId: item.UserId,
       username: item.Username,
       wins: item.Wins || 0,
       totalMatches: item.TotalMatches || 0,
       winRate: item.TotalMatches ? ((item.Wins || 0) / item.TotalMatches) : 0,
-    }))
-    .sort((a, b) => b.wins - a.wins)
-    .slice(0, limit);
+      rating: Math.round(rating.rating),
+      ratingDeviation: Math.round(rating.ratingDeviation),
+      ratedGames: rating.gamesPlayed,
+      provisional: isProvisionalRating(rating)
+    };
+  });
 }
 
 async function broadcastLeaderboardUpdate(limit = 100): Promise<void> {
@@ -232,10 +232,151 @@ export const typeDefs = `#graphql
     sideDeck: [DeckCard!]
     championLegend: DeckCard
     championLeader: DeckCard
+    # Checked against the deck's format on every read; null for retired formats
+    legality: DeckLegality
+    # Copies other players have forked from this deck
+    forkCount: Int!
+    forkedFrom: DeckForkSource
+    # Ancestor deck ids, the original first
+    forkLineage: [ID!]!
     createdAt: DateTime
     updatedAt: DateTime
   }
 
+  type DeckForkSource {
+    deckId: ID!
+    userId: ID!
+    name: String
+  }
+
+  enum PublicDecklistSort {
+    recent
+    popular
+  }
+
+  type PublicDecklistPage {
+    items: [Decklist!]!
+    # Matching decks in all, when this request read the whole listing.
+    total: Int
+    # Pass as after to get the next page; null at the end of the listing.
+    nextCursor: String
+  }
+
+  type DeckViolation {
+    # unknown_card, wrong_card_type, deck_size, copy_limit, banned,
+    # set_not_legal, rune_deck_size, battlefield_count, duplicate_battlefield,
+    # side_deck_size, missing_legend, missing_champion, champion_mismatch,
+    # off_domain
+    code: String!
+    message: String!
+    # main, rune, battlefield, side, legend or champion
+    zone: String!
+    cardId: ID
+  }
+
+  type DeckLegality {
+    legal: Boolean!
+    format: String!
+    # Format version the deck was checked against
+    version: String!
+    violations: [DeckViolation!]!
+  }
+
+  # A deck read from a share code or pasted text, ready for saveDecklist
+  type DeckImport {
+    # Canonical share code for the resolved cards
+    code: String!
+    cards: [DeckCard!]!
+    runeDeck: [DeckCard!]!
+    battlefields: [DeckCard!]!
+    sideDeck: [DeckCard!]!
+    championLegend: DeckCard
+    championLeader: DeckCard
+    # Card ids or text lines that matched no catalog card
+    unresolved: [String!]!
+    legality: DeckLegality!
+  }
+
+  type DeckCurveBucket {
+    cost: Int!
+    # "3", or "7+" for the last bucket
+    label: String!
+    count: Int!
+  }
+
+  type DeckDomainShare {
+    domain: String!
+    count: Int!
+    inIdentity: Boolean!
+  }
+
+  type DeckTypeShare {
+    type: String!
+    count: Int!
+  }
+
+  type DeckTurnOdds {
+    # 0 is the opening hand
+    turn: Int!
+    cardsSeen: Int!
+    probability: Float!
+    # Mulliganing away cards that are not the target
+    withMulligan: Float!
+  }
+
+  type DeckDrawOdds {
+    label: String!
+    cardId: ID
+    energyCost: Int
+    copies: Int!
+    byTurn: [DeckTurnOdds!]!
+  }
+
+  type DeckAnalysis {
+    ruleProfile: String!
+    openingHandSize: Int!
+    mulliganMax: Int!
+    librarySize: Int!
+    turns: Int!
+    energyCurve: [DeckCurveBucket!]!
+    powerCurve: [DeckCurveBucket!]!
+    averageEnergyCost: Float
+    legendDomains: [String!]!
+    domains: [DeckDomainShare!]!
+    colorlessCount: Int!
+    offIdentityCount: Int!
+    typeMix: [DeckTypeShare!]!
+    # Odds of at least one copy of each card, and one card of each energy cost
+    cardOdds: [DeckDrawOdds!]!
+    costOdds: [DeckDrawOdds!]!
+    unknownCards: [String!]!
+  }
+
+  type DeckCopyLimit {
+    # Card id, slug or name
+    card: String!
+    limit: Int!
+  }
+
+  type DeckFormat {
+    id: ID!
+    name: String!
+    version: String!
+    effectiveFrom: String!
+    minDeckSize: Int!
+    maxDeckSize: Int
+    maxCopies: Int
+    runeDeckSize: Int
+    battlefieldCount: Int
+    maxSideDeckSize: Int!
+    requireChampions: Boolean!
+    domainIdentity: Boolean!
+    # Null when every set is legal
+    legalSets: [String!]
+    banned: [String!]!
+    copyLimits: [DeckCopyLimit!]!
+  }
+
   enum MatchMode {
     ranked
     free
@@ -377,6 +518,7 @@ export const typeDefs = `#graphql
     createdAt: DateTime
     resolvedAt: DateTime
     resolution: JSON
+    expiresAt: DateTime
   }
 
   type PriorityWindow {
@@ -388,6 +530,30 @@ export const typeDefs = `#graphql
     event: String
   }
 
+  # Chess clock for timed matches. A player's remaining time is
+  # banks[playerId], minus time elapsed since runningSince when runningFor
+  # is that player.
+  type MatchClock {
+    bankMs: Int!
+    incrementMs: Int!
+    priorityWindowMs: Int!
+    promptMs: Int!
+    banks: JSON!
+    runningFor: ID
+    runningSince: DateTime
+  }
+
+  # The numbers a match is played by; see RULE_PROFILES in the engine.
+  type RuleProfile {
+    id: ID!
+    name: String!
+    victoryScore: Int!
+    initialHandSize: Int!
+    minDeckSize: Int!
+    runesPerTurn: Int!
+    battlefieldCount: Int!
+  }
+
   type GameStateSnapshot {
     turn: Int!
     phase: String!
@@ -424,6 +590,7 @@ export const typeDefs = `#graphql
     board: PlayerBoardState!
     graveyard: [Card!]!
     exile: [Card!]!
+    banishment: [Card!]!
     channeledRunes: [RuneCardState!]!
     runeDeck: [RuneCardState!]!
     resources: ResourcePoolState!
@@ -432,6 +599,8 @@ export const typeDefs = `#graphql
     championLeader: CardSnapshot
     championLegendState: ChampionAbilityState
     championLeaderState: ChampionAbilityState
+    # Free-for-all: out of the match after conceding or timing out.
+    eliminated: Boolean!
   }
 
   type ScoreEvent {
@@ -461,6 +630,10 @@ export const typeDefs = `#graphql
 
   type GameState {
     matchId: ID!
+    # Increments with every saved change to the match.
+    version: Int
+    # Match event sequence number; only set on subscription payloads.
+    seq: Int
     players: [PlayerState!]!
     currentPhase: String!
     turnNumber: Int!
@@ -479,6 +652,8 @@ export const typeDefs = `#graphql
     endReason: String
     prompts: [GamePrompt!]!
     priorityWindow: PriorityWindow
+    clock: MatchClock
+    ruleProfile: RuleProfile
     snapshots: [GameStateSnapshot!]!
     battlefields: [BattlefieldState!]!
     duelLog: [DuelLogEntry!]!
@@ -487,6 +662,23 @@ export const typeDefs = `#graphql
     combatContext: CombatContext
     pendingSpellResolution: PendingSpellResolution
     reactionChain: ReactionChain
+    restrictions: [Restriction!]!
+  }
+
+  # A "can't" effect in play: cannot_be_targeted, cannot_move or cannot_play.
+  type Restriction {
+    id: ID!
+    kind: String!
+    # Unit the restriction sits on, if any.
+    instanceId: ID
+    # Players it binds; null binds everyone.
+    playerIds: [ID!]
+    # cannot_play only; null covers every card type.
+    cardTypes: [String!]
+    # this_turn, while_source_on_board or permanent.
+    duration: String!
+    sourceCardId: ID
+    sourceName: String
   }
 
   type PendingSpellResolution {
@@ -533,8 +725,11 @@ export const typeDefs = `#graphql
 
   type MatchResult {
     matchId: ID!
+    seq: Int
     winner: ID!
     loser: ID!
+    # Free-for-all only: every seat other than the winner's.
+    losers: [ID!]
     reason: String!
     duration: Int!
     turns: Int!
@@ -543,11 +738,42 @@ export const typeDefs = `#graphql
 
   type PlayerView {
     matchId: ID!
+    seq: Int
     currentPlayer: PlayerState!
     opponent: OpponentView!
+    # Every opponent in turn order; more than one in free-for-all matches.
+    opponents: [OpponentView!]!
+    # Everything this player may do right now; empty for spectators.
+    legalActions: [LegalAction!]!
     gameState: GameStateView!
   }
 
+  # One action a player may take. Which fields are set depends on kind, which
+  # names the matching mutation (play_card, move_unit, pass_priority, ...).
+  type LegalAction {
+    kind: String!
+    promptId: ID
+    cardIndex: Int
+    cardId: ID
+    instanceId: ID
+    battlefieldId: ID
+    # Initiative choices for submit_initiative.
+    choices: [Int!]
+    # Battlefield card ids for select_battlefield, hand instance ids for discard.
+    options: [ID!]
+    # 'base' or battlefield ids a card or unit can go to.
+    destinations: [ID!]
+    targets: [TargetCandidate!]
+    min: Int
+    max: Int
+  }
+
+  type TargetCandidate {
+    targetId: ID!
+    kind: String!
+    label: String
+  }
+
   type OpponentView {
     playerId: ID
     victoryPoints: Int
@@ -557,6 +783,7 @@ export const typeDefs = `#graphql
     board: PlayerBoardState
     championLegend: CardSnapshot
     championLeader: CardSnapshot
+    eliminated: Boolean
   }
 
   type GameStateView {
@@ -579,6 +806,68 @@ export const typeDefs = `#graphql
     wins: Int!
     totalMatches: Int!
     winRate: Float!
+    # Glicko-2 rating for the requested mode (ranked unless specified).
+    rating: Int!
+    ratingDeviation: Int!
+    ratedGames: Int!
+    # True until the player has enough rated games for a stable rating.
+    provisional: Boolean!
+  }
+
+  # ============================================================================
+  # MATCH SERIES TYPES
+  # ============================================================================
+  type MatchSeriesGame {
+    gameNumber: Int!
+    matchId: ID!
+    firstPlayerId: ID!
+    winner: ID
+    loser: ID
+    reason: String
+    completedAt: DateTime
+  }
+
+  type SeriesSideboardWindow {
+    # Loser of the previous game; picks who plays first next.
+    chooserId: ID!
+    firstPlayerId: ID
+    # playerId -> whether that player has locked in their sideboard.
+    ready: JSON!
+  }
+
+  type MatchSeries {
+    seriesId: ID!
+    bestOf: Int!
+    players: [ID!]!
+    mode: MatchMode
+    # Deck format every game and sideboard is checked against
+    format: String!
+    status: String!
+    wins: JSON!
+    winsNeeded: Int!
+    games: [MatchSeriesGame!]!
+    currentMatchId: ID
+    sideboarding: SeriesSideboardWindow
+    winner: ID
+    # Own lists in full; opponent's lists as card counts only.
+    decks: JSON!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type MatchSeriesResponse {
+    success: Boolean!
+    # Match id of the next game when this action started it.
+    matchId: ID
+    series: MatchSeries!
+    gameState: GameState
+  }
+
+  type MatchSeriesInitResponse {
+    seriesId: ID!
+    matchId: ID!
+    series: MatchSeries!
+    gameState: GameState!
   }
 
   # ============================================================================
@@ -587,7 +876,7 @@ export const typeDefs = `#graphql
   type Query {
     # User queries
     user(userId: ID!): User
-    leaderboard(limit: Int): [LeaderboardEntry!]!
+    leaderboard(limit: Int, mode: MatchMode): [LeaderboardEntry!]!
 
     # Match queries
     match(matchId: ID!): GameState
@@ -598,6 +887,7 @@ export const typeDefs = `#graphql
     playerMatch(matchId: ID!, playerId: ID!): PlayerView
     matchHistory(userId: ID!, limit: Int): [MatchHistory!]!
     matchResult(matchId: ID!): MatchResult
+    matchSeries(seriesId: ID!): MatchSeries
 
     # Card catalog queries (full-catalog browsing lives at REST /api/cards)
     cardById(id: ID!): CatalogCard
@@ -608,6 +898,22 @@ export const typeDefs = `#graphql
     # Deckbuilder
     decklists(userId: ID!): [Decklist!]!
     decklist(deckId: ID!): Decklist
+    publicDecklists(
+      filter: PublicDecklistFilter
+      sort: PublicDecklistSort
+      offset: Int
+      limit: Int
+      after: String
+    ): PublicDecklistPage!
+    validateDecklist(input: DeckValidationInput!, format: String): DeckLegality!
+    # Curve, domains, type mix and draw odds (turns defaults to 4, at most 10)
+    deckAnalysis(deckId: ID!, turns: Int, ruleProfile: String): DeckAnalysis!
+    # Deck share codes and pasted "3x Card Name" lists
+    exportDeckCode(deckId: ID!): String!
+    importDeckCode(code: String!, format: String): DeckImport!
+    parseDecklistText(text: String!, format: String): DeckImport!
+    # Formats in effect on the given ISO date (default now)
+    deckFormats(at: String): [DeckFormat!]!
 
     # Matchmaking
     matchmakingStatus(userId: ID!, mode: MatchMode!): MatchmakingStatus!
@@ -662,6 +968,11 @@ export const typeDefs = `#graphql
     availableStrategies: [String!]!
   }
 
+  input DamageAssignmentInput {
+    instanceId: ID!
+    amount: Int!
+  }
+
   input DeckCardInput {
     cardId: ID
     slug: String
@@ -704,6 +1015,24 @@ export const typeDefs = `#graphql
     championLeader: DeckCardInput
   }
 
+  input DeckValidationInput {
+    cards: [DeckCardInput!]!
+    runeDeck: [DeckCardInput!]
+    battlefields: [DeckCardInput!]
+    sideDeck: [DeckCardInput!]
+    championLegend: DeckCardInput
+    championLeader: DeckCardInput
+  }
+
+  input PublicDecklistFilter {
+    # Champion Legend by card id, slug or name
+    legend: String
+    domain: String
+    format: String
+    # Cards the deck must include, by id, slug or name
+    cards: [String!]
+  }
+
   input MatchmakingQueueInput {
     userId: ID!
     mode: MatchMode!
@@ -724,13 +1053,36 @@ export const typeDefs = `#graphql
     ): User!
 
     # Match mutations
+    # ruleProfile: a profile id ("standard", "quick_play", "sandbox") or
+    # { base, ...overrides }.
     initMatch(
       matchId: ID!
       player1: ID!
       player2: ID!
       decks: JSON!
+      ruleProfile: JSON
     ): MatchInitResponse!
 
+    # Best-of series: sideboard swaps are one-for-one between main and side deck.
+    initMatchSeries(
+      seriesId: ID!
+      player1: ID!
+      player2: ID!
+      decks: JSON!
+      bestOf: Int
+    ): MatchSeriesInitResponse!
+    chooseSeriesFirstPlayer(
+      seriesId: ID!
+      playerId: ID!
+      goFirst: Boolean!
+    ): MatchSeriesResponse!
+    submitSideboard(
+      seriesId: ID!
+      playerId: ID!
+      swapIn: JSON
+      swapOut: JSON
+    ): MatchSeriesResponse!
+
     startBotMatch(
       strategyA: String
       strategyB: String
@@ -776,6 +1128,13 @@ export const typeDefs = `#graphql
       selectionIds: [ID!]!
     ): GameState!
 
+    assignCombatDamage(
+      matchId: ID!
+      playerId: ID!
+      promptId: ID!
+      assignments: [DamageAssignmentInput!]!
+    ): GameState!
+
     selectBattlefield(
       matchId: ID!
       playerId: ID!
@@ -849,6 +1208,19 @@ export const typeDefs = `#graphql
       pass: Boolean!
     ): ActionResponse!
 
+    # Casual matches only: asks the opponents to undo this player's last
+    # action. Refused once the action has revealed hidden information.
+    requestTakeBack(
+      matchId: ID!
+      playerId: ID!
+    ): ActionResponse!
+
+    respondToTakeBack(
+      matchId: ID!
+      playerId: ID!
+      accept: Boolean!
+    ): ActionResponse!
+
     recordDuelLogEntry(
       matchId: ID!
       playerId: ID
@@ -869,10 +1241,13 @@ export const typeDefs = `#graphql
       playerId: ID!
     ): ActionResponse!
 
+    # Confirms the engine's outcome. A winner that differs from it is only
+    # accepted from an admin, with a note explaining the ruling.
     reportMatchResult(
       matchId: ID!
-      winner: ID!
-      reason: String!
+      winner: ID
+      reason: String
+      note: String
     ): MatchResultResponse!
 
     concedeMatch(
@@ -883,6 +1258,8 @@ export const typeDefs = `#graphql
     # Deckbuilding
     saveDecklist(input: DecklistInput!): Decklist!
     deleteDecklist(userId: ID!, deckId: ID!): Boolean!
+    # Copy a public deck (or one of your own) into your list
+    forkDecklist(userId: ID!, deckId: ID!, name: String): Decklist!
 
     # Matchmaking
     joinMatchmakingQueue(input: MatchmakingQueueInput!): MatchmakingResult!
@@ -893,29 +1270,35 @@ export const typeDefs = `#graphql
   # SUBSCRIPTIONS
   # ============================================================================
   type Subscription {
+    # Match-scoped subscriptions share one per-match event sequence. Every
+    # payload carries its seq; resubscribe with the last one seen as
+    # sinceSeq to receive the missed events first, or the latest snapshot
+    # when the server no longer buffers that far back.
+
     # Real-time game state updates
-    gameStateChanged(matchId: ID!): GameState!
+    gameStateChanged(matchId: ID!, sinceSeq: Int): GameState!
     
     # Player-specific updates
     playerGameStateChanged(
       matchId: ID!
       playerId: ID!
+      sinceSeq: Int
     ): PlayerView!
 
     # Match completion
-    matchCompleted(matchId: ID!): MatchResult!
+    matchCompleted(matchId: ID!, sinceSeq: Int): MatchResult!
 
     # Leaderboard updates
     leaderboardUpdated: [LeaderboardEntry!]!
 
     # Real-time card played notification
-    cardPlayed(matchId: ID!): CardPlayedEvent!
+    cardPlayed(matchId: ID!, sinceSeq: Int): CardPlayedEvent!
 
     # Real-time attack declaration
-    attackDeclared(matchId: ID!): AttackEvent!
+    attackDeclared(matchId: ID!, sinceSeq: Int): AttackEvent!
 
     # Real-time phase change
-    phaseChanged(matchId: ID!): PhaseChangeEvent!
+    phaseChanged(matchId: ID!, sinceSeq: Int): PhaseChangeEvent!
 
     # Matchmaking status updates for a specific user/mode
     matchmakingStatusUpdated(userId: ID!, mode: MatchMode!): MatchmakingStatus!
@@ -939,14 +1322,17 @@ export const typeDefs = `#graphql
     runePayment: RunePaymentSummary
   }
 
+# matchResult is null when a free-for-all carries on without the
+# conceding player.
 type MatchResultResponse {
   success: Boolean!
-  matchResult: MatchResult!
+  matchResult: MatchResult
   gameState: GameState
 }
 
   type CardPlayedEvent {
     matchId: ID!
+    seq: Int
     playerId: ID!
     card: Card!
     timestamp: DateTime!
@@ -956,6 +1342,7 @@ type MatchResultResponse {
 
   type AttackEvent {
     matchId: ID!
+    seq: Int
     playerId: ID!
     creatureInstanceId: String!
     destinationId: String!
@@ -964,6 +1351,7 @@ type MatchResultResponse {
 
   type PhaseChangeEvent {
     matchId: ID!
+    seq: Int
     newPhase: String!
     turnNumber: Int!
     timestamp: DateTime!
@@ -0,0 +1,314 @@
+/**
+ * Match commands: one typed description of every in-game action.
+ *
+ * The REST action routes and the GraphQL mutations both turn their input
+ * into a `MatchCommand` through `parseMatchCommand`, so defaults and input
+ * checks are the same whichever transport a client uses. The match service
+ * then runs the command through `executeMatchCommand` (match-routes.ts),
+ * which loads the match, authorizes the caller, applies the command here,
+ * saves and publishes. GraphQL reaches it through the action routes.
+ *
+ * Chat and duel-log entries are table talk rather than game actions and keep
+ * their own handlers, but pass the same caller check as commands.
+ *
+ * This module is pure; persistence, HTTP and pubsub live in match-routes.ts.
+ */
+import type { RiftboundGameEngine } from './game-engine';
+import { allowsUnverifiedIdentity, isAdminUser } from './auth-utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** `type` is also the command's REST slug: `/matches/:matchId/actions/<type>`. */
+export type MatchCommand =
+  | { type: 'initiative'; playerId: string; choice: number }
+  | { type: 'select-battlefield'; playerId: string; battlefieldId: string }
+  | { type: 'mulligan'; playerId: string; indices: number[] }
+  | { type: 'discard'; playerId: string; promptId: string; cardInstanceIds: string[] }
+  | { type: 'target'; playerId: string; promptId: string; selectionIds: string[] }
+  | { type: 'assign-damage'; playerId: string; promptId: string; assignments: Record<string, number> }
+  | {
+      type: 'play-card';
+      playerId: string;
+      cardIndex: number;
+      targets?: string[];
+      destinationId?: string | null;
+      useAccelerate: boolean;
+    }
+  | { type: 'attack'; playerId: string; creatureInstanceId: string; destinationId: string }
+  | { type: 'move'; playerId: string; creatureInstanceId: string; destinationId: string }
+  | { type: 'hide-card'; playerId: string; cardIndex: number; battlefieldId: string }
+  | { type: 'activate-hidden'; playerId: string; hiddenInstanceId: string; targets?: string[] }
+  | { type: 'commence-battle'; playerId: string; battlefieldId: string }
+  | { type: 'activate-legend'; playerId: string; target: 'legend' | 'leader'; destinationId: string | null }
+  | { type: 'pass-priority'; playerId: string }
+  | { type: 'respond-to-spell-reaction'; playerId: string; pass: boolean }
+  | { type: 'respond-to-chain-reaction'; playerId: string; pass: boolean }
+  | { type: 'request-take-back'; playerId: string }
+  | { type: 'respond-to-take-back'; playerId: string; accept: boolean }
+  | { type: 'next-phase'; playerId: string };
+
+export type MatchCommandType = MatchCommand['type'];
+
+export interface MatchCommandCaller {
+  userId?: string | null;
+  authPayload?: Record<string, any> | null;
+}
+
+/**
+ * A command rejected before it reached the engine. `statusCode` matches the
+ * internal API errors so GraphQL can rethrow both the same way.
+ */
+export class MatchCommandError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'MatchCommandError';
+    this.statusCode = statusCode;
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MATCH_COMMAND_TYPES: readonly MatchCommandType[] = [
+  'initiative',
+  'select-battlefield',
+  'mulligan',
+  'discard',
+  'target',
+  'assign-damage',
+  'play-card',
+  'attack',
+  'move',
+  'hide-card',
+  'activate-hidden',
+  'commence-battle',
+  'activate-legend',
+  'pass-priority',
+  'respond-to-spell-reaction',
+  'respond-to-chain-reaction',
+  'request-take-back',
+  'respond-to-take-back',
+  'next-phase'
+];
+
+/**
+ * Commands only the player holding the turn may issue. Prompts, priority
+ * passes, reactions and hidden activations are answered out of turn, and the
+ * engine checks who may answer them.
+ */
+const TURN_COMMANDS = new Set<MatchCommandType>([
+  'play-card',
+  'attack',
+  'move',
+  'hide-card',
+  'commence-battle',
+  'next-phase'
+]);
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const isCommandType = (value: string): value is MatchCommandType =>
+  (MATCH_COMMAND_TYPES as readonly string[]).includes(value);
+
+const listOrEmpty = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+const listOrUndefined = <T>(value: unknown): T[] | undefined =>
+  Array.isArray(value) ? (value as T[]) : undefined;
+
+const requireBoolean = (value: unknown, field: string): boolean => {
+  if (typeof value !== 'boolean') {
+    throw new MatchCommandError(`${field} (boolean) is required`);
+  }
+  return value;
+};
+
+/**
+ * Build a command from a request body or mutation arguments, applying the
+ * defaults both transports share. Throws `MatchCommandError` for input no
+ * engine call could accept.
+ */
+export const parseMatchCommand = (type: string, input: Record<string, any>): MatchCommand => {
+  if (!isCommandType(type)) {
+    throw new MatchCommandError(`Unknown match command ${type}`, 404);
+  }
+  const { playerId } = input;
+  if (!playerId || typeof playerId !== 'string') {
+    throw new MatchCommandError('playerId is required');
+  }
+
+  switch (type) {
+    case 'initiative':
+      return { type, playerId, choice: Number(input.choice) };
+    case 'select-battlefield':
+      return { type, playerId, battlefieldId: input.battlefieldId };
+    case 'mulligan':
+      return { type, playerId, indices: listOrEmpty<number>(input.indices) };
+    case 'discard':
+      return {
+        type,
+        playerId,
+        promptId: input.promptId,
+        cardInstanceIds: listOrEmpty<string>(input.cardInstanceIds)
+      };
+    case 'target':
+      return { type, playerId, promptId: input.promptId, selectionIds: listOrEmpty<string>(input.selectionIds) };
+    case 'assign-damage': {
+      const { assignments } = input;
+      return {
+        type,
+        playerId,
+        promptId: input.promptId,
+        assignments: assignments && typeof assignments === 'object' && !Array.isArray(assignments) ? assignments : {}
+      };
+    }
+    case 'play-card':
+      return {
+        type,
+        playerId,
+        cardIndex: input.cardIndex,
+        targets: listOrUndefined<string>(input.targets),
+        destinationId: input.destinationId,
+        useAccelerate: Boolean(input.useAccelerate)
+      };
+    case 'attack':
+      if (!input.destinationId) {
+        throw new MatchCommandError('Battlefield destination required');
+      }
+      if (input.destinationId === 'base') {
+        throw new MatchCommandError('Use move to return to base');
+      }
+      return { type, playerId, creatureInstanceId: input.creatureInstanceId, destinationId: input.destinationId };
+    case 'move':
+      return { type, playerId, creatureInstanceId: input.creatureInstanceId, destinationId: input.destinationId };
+    case 'hide-card':
+      return { type, playerId, cardIndex: input.cardIndex, battlefieldId: input.battlefieldId };
+    case 'activate-hidden':
+      return {
+        type,
+        playerId,
+        hiddenInstanceId: input.hiddenInstanceId,
+        targets: listOrUndefined<string>(input.targets)
+      };
+    case 'commence-battle':
+      return { type, playerId, battlefieldId: input.battlefieldId };
+    case 'activate-legend':
+      return {
+        type,
+        playerId,
+        target: input.target === 'leader' ? 'leader' : 'legend',
+        destinationId: input.destinationId ?? null
+      };
+    case 'pass-priority':
+      return { type, playerId };
+    case 'respond-to-spell-reaction':
+    case 'respond-to-chain-reaction':
+      return { type, playerId, pass: requireBoolean(input.pass, 'pass') };
+    case 'request-take-back':
+      return { type, playerId };
+    case 'respond-to-take-back':
+      return { type, playerId, accept: requireBoolean(input.accept, 'accept') };
+    case 'next-phase':
+      return { type, playerId };
+  }
+};
+
+// ============================================================================
+// AUTHORIZATION
+// ============================================================================
+
+/**
+ * Players act only for their own seat; admins may act for anyone. Callers
+ * without an identity are in-process, and when identities are unverified
+ * (local bypass) any seat can be claimed anyway, so neither is checked.
+ * Conceding, chat and duel-log entries go through the same check, so it
+ * only needs the seat.
+ */
+export const authorizeMatchCommand = (
+  command: Pick<MatchCommand, 'playerId'>,
+  caller: MatchCommandCaller
+): void => {
+  const { userId, authPayload } = caller;
+  if (!userId || userId === command.playerId || allowsUnverifiedIdentity()) {
+    return;
+  }
+  if (!isAdminUser(userId, authPayload)) {
+    throw new MatchCommandError('Players can only act for themselves', 403);
+  }
+};
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/** Run the command against a loaded engine. Engine rule errors propagate. */
+export const applyMatchCommand = (engine: RiftboundGameEngine, command: MatchCommand): void => {
+  if (TURN_COMMANDS.has(command.type) && !engine.canPlayerAct(command.playerId)) {
+    throw new MatchCommandError('Not your turn', 403);
+  }
+
+  switch (command.type) {
+    case 'initiative':
+      engine.submitInitiativeChoice(command.playerId, command.choice);
+      return;
+    case 'select-battlefield':
+      engine.selectBattlefield(command.playerId, command.battlefieldId);
+      return;
+    case 'mulligan':
+      engine.submitMulligan(command.playerId, command.indices);
+      return;
+    case 'discard':
+      engine.submitDiscardSelection(command.playerId, command.promptId, command.cardInstanceIds);
+      return;
+    case 'target':
+      engine.submitTargetSelection(command.playerId, command.promptId, command.selectionIds);
+      return;
+    case 'assign-damage':
+      engine.submitDamageAssignment(command.playerId, command.promptId, command.assignments);
+      return;
+    case 'play-card':
+      engine.playCard(command.playerId, command.cardIndex, command.targets, command.destinationId, {
+        useAccelerate: command.useAccelerate
+      });
+      return;
+    case 'attack':
+    case 'move':
+      engine.moveUnit(command.playerId, command.creatureInstanceId, command.destinationId);
+      return;
+    case 'hide-card':
+      engine.hideCard(command.playerId, command.cardIndex, command.battlefieldId);
+      return;
+    case 'activate-hidden':
+      engine.activateHiddenCard(command.playerId, command.hiddenInstanceId, command.targets);
+      return;
+    case 'commence-battle':
+      engine.commenceBattle(command.playerId, command.battlefieldId);
+      return;
+    case 'activate-legend':
+      engine.activateChampionAbility(command.playerId, command.target, command.destinationId);
+      return;
+    case 'pass-priority':
+      engine.passPriority(command.playerId);
+      return;
+    case 'respond-to-spell-reaction':
+      engine.respondToSpellReaction(command.playerId, command.pass);
+      return;
+    case 'respond-to-chain-reaction':
+      engine.respondToChainReaction(command.playerId, command.pass);
+      return;
+    case 'request-take-back':
+      engine.requestTakeBack(command.playerId);
+      return;
+    case 'respond-to-take-back':
+      engine.respondToTakeBack(command.playerId, command.accept);
+      return;
+    case 'next-phase':
+      engine.proceedToNextPhase();
+      return;
+  }
+};
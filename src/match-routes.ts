@@ -1,6 +1,7 @@
 import 'dotenv/config';
 import express, { type Express, Request, Response, NextFunction } from 'express';
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID } from 'node:crypto';
+import { gunzipSync, gzipSync } from 'node:zlib';
 import fs from 'node:fs';
 import path from 'node:path';
 import AWS from 'aws-sdk';
@@ -12,10 +13,60 @@ import {
   CardType,
   PlayerState,
   BoardCard,
-  MatchResult
+  MatchResult,
+  MatchMode,
+  MatchClockConfig,
+  MatchCommandLog,
+  DEFAULT_MATCH_CLOCK
 } from './game-engine';
-import { serializeGameState, serializePlayerState, buildOpponentView } from './game-state-serializer';
+import { RuleProfile, RuleProfileId, resolveRuleProfile } from './rule-profiles';
+import {
+  IllegalDeckError,
+  deckFormatForRuleProfile,
+  getQueueDeckFormat,
+  resolveDeckFormat,
+  validateDecklist
+} from './deck-validation';
+import {
+  serializeGameState,
+  serializePlayerState,
+  buildOpponentView,
+  buildOpponentViews,
+  isOpenInformationMatch,
+  redactGameStateForViewer
+} from './game-state-serializer';
 import { TABLE_NAMES } from './config/tableNames';
+import {
+  publishGameStateChange,
+  publishPlayerGameStateChange,
+  publishMatchCompletion,
+  publishCardPlayed,
+  publishAttackDeclared,
+  publishPhaseChange
+} from './graphql/pubsub';
+import { recordRatedMatchResult } from './rating';
+import { allowsUnverifiedIdentity, isAdminUser, isInternalRequest } from './auth-utils';
+import { checkReplayDivergence } from './replay-divergence';
+import {
+  MatchCommand,
+  MatchCommandCaller,
+  MatchCommandError,
+  MatchCommandType,
+  applyMatchCommand,
+  authorizeMatchCommand,
+  parseMatchCommand
+} from './match-commands';
+import {
+  MatchSeries,
+  SideboardSwap,
+  createMatchSeries,
+  beginNextSeriesGame,
+  recordSeriesGameResult,
+  chooseSeriesFirstPlayer,
+  submitSeriesSideboard,
+  isReadyForNextGame,
+  serializeSeriesForViewer
+} from './match-series';
 import {
   readFrames as readPersistedReplayFrames,
   readFrameCount as readPersistedReplayFrameCount,
@@ -30,7 +81,6 @@ const MATCH_TABLE = TABLE_NAMES.MATCHES;
 const MATCH_HISTORY_TABLE = TABLE_NAMES.MATCH_HISTORY;
 const STATE_TABLE = TABLE_NAMES.MATCH_STATES;
 const MATCHMAKING_QUEUE_TABLE = TABLE_NAMES.MATCHMAKING_QUEUE;
-type MatchMode = 'ranked' | 'free';
 const MATCHMAKING_MODES: MatchMode[] = ['ranked', 'free'];
 
 const dynamodb = new AWS.DynamoDB.DocumentClient({
@@ -39,6 +89,29 @@ const dynamodb = new AWS.DynamoDB.DocumentClient({
 
 const LOCAL_BYPASS = process.env.ALLOW_LOCAL_BYPASS === 'true';
 const LOCAL_STATE_STORE = new Map<string, GameState>();
+const LOCAL_SERIES_STORE = new Map<string, MatchSeries>();
+// Series records share the match-state table under a prefixed key.
+const SERIES_KEY_PREFIX = 'series#';
+
+// Clock deadlines are checked lazily whenever a match is loaded, and by a
+// per-match timer armed on save so an idle match still times out. Timers are
+// process-local; after a restart the next load re-arms them.
+const CLOCK_TIMERS = new Map<string, ReturnType<typeof setTimeout>>();
+const CLOCK_CHECK_GRACE_MS = 250;
+const MAX_CLOCK_TIMER_DELAY_MS = 5 * 60 * 1000;
+
+// Action responses are remembered per (match, player, Idempotency-Key) so a
+// client retry replays the first result instead of applying the action twice.
+// Records live in the match-state table and expire through its TTL.
+const IDEMPOTENCY_KEY_PREFIX = 'idem#';
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+const IDEMPOTENCY_REPLAY_HEADER = 'Idempotent-Replayed';
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+const IDEMPOTENCY_RECORD_TTL_SECONDS = 24 * 60 * 60;
+// A claim whose request never finished (crash, lost connection) can be
+// retaken after this long.
+const IDEMPOTENCY_PENDING_TTL_SECONDS = 30;
+const LOCAL_IDEMPOTENCY_STORE = new Map<string, IdempotencyRecord>();
 
 // ============================================================================
 // BOT DECK PRESETS
@@ -218,6 +291,40 @@ const recordMatchHistoryEntries = async (
   }
 };
 
+const recordMatchRatings = async (
+  matchId: string,
+  rawState: GameState,
+  matchResult: MatchResult
+) => {
+  const mode = rawState.matchMode;
+  if (!mode || !MATCHMAKING_MODES.includes(mode)) {
+    return;
+  }
+  // Ratings are one-on-one; a free-for-all result has no single loser.
+  if (rawState.players.length > 2) {
+    logger.warn('[RATING] Not rating a free-for-all match', {
+      matchId,
+      mode,
+      players: rawState.players.length
+    });
+    return;
+  }
+  try {
+    await recordRatedMatchResult({
+      matchId,
+      mode,
+      winnerId: matchResult.winner,
+      loserId: matchResult.loser
+    });
+  } catch (error) {
+    logger.error('[RATING] Failed to apply match result to ratings', {
+      error,
+      matchId,
+      mode
+    });
+  }
+};
+
 export const persistMatchFinalState = async (
   matchId: string,
   rawState: GameState,
@@ -309,6 +416,7 @@ export const persistMatchFinalState = async (
         DuelLog: spectatorState.duelLog ?? [],
         ChatLog: spectatorState.chatLog ?? [],
         FinalState: spectatorState,
+        Adjudications: rawState.adjudications ?? [],
         CreatedAt: timestamp,
         Status: 'completed'
       }
@@ -319,6 +427,8 @@ export const persistMatchFinalState = async (
     ...matchResult,
     moves: moveHistory
   });
+  await recordMatchRatings(matchId, rawState, matchResult);
+  await recordSeriesOutcome(matchId, rawState, matchResult);
   
   // Use the helper that was defined at the top of the function
   await ensureQueueCleanup();
@@ -500,6 +610,8 @@ const buildPlayerViewSnapshot = (
     matchId: snapshot.matchId,
     currentPlayer: serializePlayerState(playerState, 'self'),
     opponent: buildOpponentView(snapshot, playerId),
+    opponents: buildOpponentViews(snapshot, playerId),
+    legalActions: engine.getLegalActions(playerId),
     gameState: {
       matchId: snapshot.matchId,
       currentPhase: snapshot.currentPhase,
@@ -529,7 +641,8 @@ const buildPlayerViewSnapshot = (
  *     that a subscription consumer couldn't already see via
  *     `serializeGameState`. A later task can tighten perspective rules for
  *     human-vs-human spectators (see bot-v-bot-flow-spec §9 open question 1).
- *   - `gameState.canAct` is forced to `false` — a non-participant can never act.
+ *   - `gameState.canAct` is forced to `false` and `legalActions` is empty — a
+ *     non-participant can never act.
  */
 const buildSpectatorViewSnapshot = (
   _engine: RiftboundGameEngine,
@@ -567,6 +680,8 @@ const buildSpectatorViewSnapshot = (
     matchId: snapshot.matchId,
     currentPlayer,
     opponent: opponentView,
+    opponents: primary ? buildOpponentViews(snapshot, primary.playerId) : [],
+    legalActions: [],
     gameState: {
       matchId: snapshot.matchId,
       currentPhase: snapshot.currentPhase,
@@ -630,6 +745,9 @@ const loadGameStateSnapshot = async (
       })
       .promise();
     const snapshot = (result.Item?.GameState as GameState) ?? null;
+    if (snapshot && result.Item?.CommandLog) {
+      snapshot.commandLog = unpackCommandLog(result.Item.CommandLog);
+    }
     if (!snapshot) {
       logger.debug('[STATE-LOAD] No snapshot record found', logMeta);
     } else {
@@ -657,6 +775,15 @@ class MatchStateUnavailableError extends Error {
   }
 }
 
+class MatchStateConflictError extends Error {
+  constructor(matchId: string, expectedVersion: number) {
+    super(`Match ${matchId} changed since version ${expectedVersion}; reload and retry`);
+    this.name = 'MatchStateConflictError';
+  }
+}
+
+const MAX_CONFLICT_RETRIES = 3;
+
 const loadSnapshotOrThrow = async (matchId: string, context?: RequestContextMeta): Promise<GameState> => {
   const snapshot = await loadGameStateSnapshot(matchId, context);
   if (!snapshot) {
@@ -679,8 +806,24 @@ const loadEngineState = async (
     requestId: context?.requestId ?? null,
     operation: context?.operation ?? null
   });
-  const snapshot = await loadSnapshotOrThrow(matchId, context);
-  const engine = RiftboundGameEngine.fromSerializedState(snapshot);
+  let snapshot = await loadSnapshotOrThrow(matchId, context);
+  let engine = RiftboundGameEngine.fromSerializedState(snapshot);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      if (await applyClockDeadlines(matchId, engine, context)) {
+        snapshot = engine.getGameState();
+      }
+      break;
+    } catch (error) {
+      // Another writer saved first; its state already reflects (or will
+      // re-check) the same deadlines, so start from there.
+      if (!(error instanceof MatchStateConflictError) || attempt >= MAX_CONFLICT_RETRIES) {
+        throw error;
+      }
+      snapshot = await loadSnapshotOrThrow(matchId, context);
+      engine = RiftboundGameEngine.fromSerializedState(snapshot);
+    }
+  }
   logger.debug('[MATCH-ENGINE] Snapshot loaded', {
     matchId,
     turnNumber: snapshot.turnNumber,
@@ -691,6 +834,427 @@ const loadEngineState = async (
   return { engine, snapshot };
 };
 
+/**
+ * Resolve any clock deadlines that passed while the match sat in storage and
+ * persist the result before the caller acts on it. Returns true when the
+ * engine changed.
+ */
+const applyClockDeadlines = async (
+  matchId: string,
+  engine: RiftboundGameEngine,
+  context?: RequestContextMeta
+): Promise<boolean> => {
+  if (!engine.enforceClock()) {
+    return false;
+  }
+  const state = engine.getGameState();
+  logger.info('[MATCH-CLOCK] Applied expired deadlines', {
+    matchId,
+    status: state.status,
+    endReason: state.endReason ?? null,
+    requestId: context?.requestId ?? null,
+    operation: context?.operation ?? null
+  });
+  await saveGameState(matchId, engine);
+  return true;
+};
+
+/**
+ * Load, apply and save an action, re-running it against the latest snapshot
+ * when another write lands first. Only for actions that do not depend on
+ * what the caller last saw (simultaneous setup choices, chat, concede);
+ * everything else surfaces the conflict as a 409.
+ */
+const applyWithConflictRetry = async <T>(
+  matchId: string,
+  context: RequestContextMeta,
+  apply: (engine: RiftboundGameEngine) => T
+): Promise<{ engine: RiftboundGameEngine; result: T }> => {
+  for (let attempt = 1; ; attempt++) {
+    const { engine } = await loadEngineState(matchId, context);
+    const result = apply(engine);
+    try {
+      await saveGameState(matchId, engine);
+      return { engine, result };
+    } catch (error) {
+      if (!(error instanceof MatchStateConflictError) || attempt >= MAX_CONFLICT_RETRIES) {
+        throw error;
+      }
+      logger.warn('[STATE-SAVE] Version conflict, retrying action', {
+        matchId,
+        attempt,
+        requestId: context.requestId ?? null,
+        operation: context.operation ?? null
+      });
+    }
+  }
+};
+
+/**
+ * Publish the spectator state, every player's view and, once decided, the
+ * match result. Sent after anything the service changes on its own or on a
+ * player's command, once saved: events are numbered from the saved version.
+ */
+const publishMatchState = (matchId: string, engine: RiftboundGameEngine) => {
+  const rawState = engine.getGameState();
+  const version = rawState.version ?? 0;
+  publishGameStateChange(matchId, serializeGameState(rawState), version);
+  for (const player of rawState.players) {
+    publishPlayerGameStateChange(
+      matchId,
+      player.playerId,
+      buildPlayerViewSnapshot(engine, rawState, player.playerId),
+      version
+    );
+  }
+  const matchResult = engine.getMatchResult();
+  if (matchResult) {
+    publishMatchCompletion(matchId, matchResult, version);
+  }
+};
+
+const runClockCheck = async (matchId: string): Promise<void> => {
+  const context: RequestContextMeta = { operation: 'clock-check' };
+  try {
+    const snapshot = await loadGameStateSnapshot(matchId, context);
+    if (!snapshot) {
+      return;
+    }
+    const engine = RiftboundGameEngine.fromSerializedState(snapshot);
+    if (await applyClockDeadlines(matchId, engine, context)) {
+      publishMatchState(matchId, engine);
+    } else {
+      scheduleClockCheck(matchId, engine);
+    }
+  } catch (error) {
+    if (error instanceof MatchStateConflictError) {
+      // A concurrent action saved first and re-armed the timer.
+      return;
+    }
+    logger.error('[MATCH-CLOCK] Error:', {
+      error,
+      matchId
+    });
+  }
+};
+
+const scheduleClockCheck = (matchId: string, engine: RiftboundGameEngine) => {
+  const existing = CLOCK_TIMERS.get(matchId);
+  if (existing) {
+    clearTimeout(existing);
+    CLOCK_TIMERS.delete(matchId);
+  }
+  const deadline = engine.getNextClockDeadline();
+  if (deadline === null) {
+    return;
+  }
+  const delay = Math.min(
+    Math.max(0, deadline - Date.now()) + CLOCK_CHECK_GRACE_MS,
+    MAX_CLOCK_TIMER_DELAY_MS
+  );
+  const timer = setTimeout(() => {
+    CLOCK_TIMERS.delete(matchId);
+    void runClockCheck(matchId);
+  }, delay);
+  if (typeof (timer as any).unref === 'function') {
+    (timer as any).unref();
+  }
+  CLOCK_TIMERS.set(matchId, timer);
+};
+
+/**
+ * Merge a caller-supplied clock over the defaults. `false` or `null` makes
+ * the match untimed; anything invalid throws.
+ */
+const resolveMatchClock = (
+  requested?: Partial<MatchClockConfig> | boolean | null
+): MatchClockConfig | null => {
+  if (requested === false || requested === null) {
+    return null;
+  }
+  if (requested === undefined || requested === true) {
+    return { ...DEFAULT_MATCH_CLOCK };
+  }
+  const clock = { ...DEFAULT_MATCH_CLOCK, ...requested };
+  for (const [key, value] of Object.entries(clock)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid clock setting: ${key}`);
+    }
+  }
+  if (clock.bankMs <= 0 || clock.priorityWindowMs <= 0 || clock.promptMs <= 0) {
+    throw new Error('Clock time limits must be positive');
+  }
+  return clock;
+};
+
+// ============================================================================
+// MATCH COMMANDS
+// ============================================================================
+
+/**
+ * Setup choices both players make at once. Neither depends on what the other
+ * chose, so a lost save race is re-run against the fresh state.
+ */
+const SIMULTANEOUS_COMMANDS = new Set<MatchCommandType>(['initiative', 'select-battlefield', 'mulligan']);
+
+interface RunePayment {
+  energySpent: number;
+  powerSpent: Record<string, number>;
+  tappedRunes: number;
+  recycledRunes: number;
+}
+
+/** The acting player just before a card is played, to work out what it cost. */
+interface CardPlayBaseline {
+  card: PlayerState['hand'][number] | undefined;
+  boardCounts: { creatures: number; artifacts: number; enchantments: number };
+  tappedRunes: number;
+  channeledRunes: number;
+}
+
+/** What a command's events are measured against. */
+interface CommandBaseline {
+  phase: GameState['currentPhase'];
+  turnNumber: number;
+  play: CardPlayBaseline | null;
+}
+
+interface MatchCommandOutcome {
+  engine: RiftboundGameEngine;
+  spectatorState: ReturnType<typeof serializeGameState>;
+  /** Play-card only: the acting player's view and what the card cost. */
+  playerView?: ReturnType<typeof buildPlayerViewSnapshot>;
+  runePayment?: RunePayment;
+}
+
+const captureCardPlayBaseline = (state: GameState, playerId: string, cardIndex: number): CardPlayBaseline | null => {
+  const player = state.players.find((candidate) => candidate.playerId === playerId);
+  if (!player) {
+    return null;
+  }
+  return {
+    card: player.hand?.[cardIndex],
+    boardCounts: {
+      creatures: player.board.creatures.length,
+      artifacts: player.board.artifacts.length,
+      enchantments: player.board.enchantments.length
+    },
+    tappedRunes: player.channeledRunes.filter((rune) => rune.isTapped).length,
+    channeledRunes: player.channeledRunes.length
+  };
+};
+
+/** Work out where a played card landed and what it cost, and log both. */
+const summarizeCardPlay = (
+  matchId: string,
+  engine: RiftboundGameEngine,
+  command: Extract<MatchCommand, { type: 'play-card' }>,
+  baseline: CardPlayBaseline,
+  context: RequestContextMeta
+): { playerView: ReturnType<typeof buildPlayerViewSnapshot>; runePayment: RunePayment } => {
+  const { playerId } = command;
+  const cardInHand = baseline.card;
+  const rawState = engine.getGameState();
+  const updatedPlayer = engine.getPlayerState(playerId);
+  const normalizedType = (cardInHand?.type ?? '').toLowerCase() as CardType | string;
+  let deployedCard: BoardCard | null = null;
+  switch (normalizedType) {
+    case CardType.CREATURE:
+      if (updatedPlayer.board.creatures.length > baseline.boardCounts.creatures) {
+        deployedCard = updatedPlayer.board.creatures[updatedPlayer.board.creatures.length - 1];
+      }
+      break;
+    case CardType.ARTIFACT:
+      if (updatedPlayer.board.artifacts.length > baseline.boardCounts.artifacts) {
+        deployedCard = updatedPlayer.board.artifacts[updatedPlayer.board.artifacts.length - 1];
+      }
+      break;
+    case CardType.ENCHANTMENT:
+      if (updatedPlayer.board.enchantments.length > baseline.boardCounts.enchantments) {
+        deployedCard = updatedPlayer.board.enchantments[updatedPlayer.board.enchantments.length - 1];
+      }
+      break;
+    default:
+      deployedCard = null;
+      break;
+  }
+  const tappedRunesAfter = updatedPlayer.channeledRunes.filter((rune) => rune.isTapped).length;
+  const channeledRunesAfter = updatedPlayer.channeledRunes.length;
+  const powerSpent: Record<string, number> = { ...(cardInHand?.powerCost ?? {}) };
+  const runePayment: RunePayment = {
+    energySpent: cardInHand?.energyCost ?? cardInHand?.manaCost ?? 0,
+    powerSpent,
+    tappedRunes: Math.max(tappedRunesAfter - baseline.tappedRunes, 0),
+    recycledRunes: Math.max(baseline.channeledRunes - channeledRunesAfter, 0)
+  };
+  if (command.useAccelerate) {
+    const accelerateMeta = extractAccelerateMetadata(cardInHand);
+    if (accelerateMeta) {
+      runePayment.energySpent += accelerateMeta.energy;
+      if (accelerateMeta.rune) {
+        const domainKey = accelerateMeta.rune.toLowerCase();
+        powerSpent[domainKey] = (powerSpent[domainKey] ?? 0) + 1;
+      }
+    }
+  }
+  const playerView = buildPlayerViewSnapshot(engine, rawState, playerId);
+  const gameStateDetail = {
+    phase: rawState.currentPhase,
+    turnNumber: rawState.turnNumber,
+    currentPlayerIndex: rawState.currentPlayerIndex,
+    player: {
+      playerId: updatedPlayer.playerId,
+      handSize: updatedPlayer.hand.length,
+      deckCount: updatedPlayer.deck.length,
+      graveyardSize: updatedPlayer.graveyard.length,
+      exileSize: updatedPlayer.exile.length,
+      banishmentSize: updatedPlayer.banishment.length,
+      board: {
+        creatures: updatedPlayer.board.creatures.map((card) => summarizeBoardCard(card)),
+        artifacts: updatedPlayer.board.artifacts.map((card) => summarizeBoardCard(card)),
+        enchantments: updatedPlayer.board.enchantments.map((card) => summarizeBoardCard(card))
+      },
+      resources: summarizePlayerResources(updatedPlayer),
+      channeledRunes: updatedPlayer.channeledRunes.map((rune) => ({
+        runeId: rune.id,
+        name: rune.name,
+        domain: rune.domain ?? null,
+        energyValue: rune.energyValue ?? null,
+        powerValue: rune.powerValue ?? null,
+        isTapped: rune.isTapped ?? false
+      })),
+      runeDeckSize: updatedPlayer.runeDeck.length
+    }
+  };
+  logger.info('[MATCH] Played card', {
+    matchId,
+    playerId,
+    cardId: cardInHand?.id ?? (cardInHand as any)?.cardId ?? null,
+    name: cardInHand?.name ?? 'Unknown card',
+    type: normalizedType || cardInHand?.type || 'unknown',
+    placement: summarizeBoardCard(deployedCard ?? undefined),
+    runesSpent: runePayment.tappedRunes + runePayment.recycledRunes,
+    playerResources: summarizePlayerResources(updatedPlayer),
+    runePayment,
+    gameStateDetail,
+    requestId: context.requestId ?? null
+  });
+  return { playerView, runePayment };
+};
+
+/**
+ * Publish what a command changed: the new state for every subscriber, then
+ * the events it raised. The command is already saved, so a failure here is
+ * logged rather than returned.
+ */
+const publishCommandEvents = (
+  matchId: string,
+  engine: RiftboundGameEngine,
+  command: MatchCommand,
+  baseline: CommandBaseline,
+  outcome: MatchCommandOutcome
+) => {
+  try {
+    publishMatchState(matchId, engine);
+    const state = engine.getGameState();
+    const version = state.version ?? 0;
+    const timestamp = new Date();
+    const playedCard = baseline.play?.card;
+    if (command.type === 'play-card' && playedCard) {
+      publishCardPlayed(matchId, {
+        matchId,
+        playerId: command.playerId,
+        card: {
+          cardId: playedCard.id,
+          name: playedCard.name,
+          cost: playedCard.energyCost ?? playedCard.manaCost ?? 0,
+          power: playedCard.power ?? 0,
+          toughness: playedCard.toughness ?? 0,
+          type: playedCard.type
+        },
+        timestamp,
+        playerView: outcome.playerView ?? null,
+        runePayment: outcome.runePayment ?? null
+      }, version);
+    }
+    if (command.type === 'attack') {
+      publishAttackDeclared(matchId, {
+        matchId,
+        playerId: command.playerId,
+        creatureInstanceId: command.creatureInstanceId,
+        destinationId: command.destinationId,
+        timestamp
+      }, version);
+    }
+    if (state.currentPhase !== baseline.phase || state.turnNumber !== baseline.turnNumber) {
+      publishPhaseChange(matchId, {
+        matchId,
+        newPhase: state.currentPhase,
+        turnNumber: state.turnNumber,
+        timestamp
+      }, version);
+    }
+  } catch (error) {
+    logger.warn('[MATCH-PUBLISH] Failed to publish command events', {
+      matchId,
+      command: command.type,
+      error
+    });
+  }
+};
+
+/**
+ * Run a player's command against the stored match: authorize the caller,
+ * apply it (turn checks included), save, and publish the new state and any
+ * events it raised. The REST action routes call this directly and the
+ * GraphQL mutations reach it through them.
+ */
+export const executeMatchCommand = async (
+  matchId: string,
+  command: MatchCommand,
+  caller: MatchCommandCaller,
+  context: RequestContextMeta = {}
+): Promise<MatchCommandOutcome> => {
+  authorizeMatchCommand(command, caller);
+
+  const apply = (engine: RiftboundGameEngine): CommandBaseline => {
+    const state = engine.getGameState();
+    const baseline: CommandBaseline = {
+      phase: state.currentPhase,
+      turnNumber: state.turnNumber,
+      play: command.type === 'play-card' ? captureCardPlayBaseline(state, command.playerId, command.cardIndex) : null
+    };
+    applyMatchCommand(engine, command);
+    return baseline;
+  };
+  const applyAndSave = async () => {
+    const { engine } = await loadEngineState(matchId, context);
+    const result = apply(engine);
+    await saveGameState(matchId, engine);
+    return { engine, result };
+  };
+  const { engine, result: baseline } = SIMULTANEOUS_COMMANDS.has(command.type)
+    ? await applyWithConflictRetry(matchId, context, apply)
+    : await applyAndSave();
+
+  const outcome: MatchCommandOutcome = {
+    engine,
+    spectatorState: serializeGameState(engine.getGameState())
+  };
+  if (command.type === 'play-card' && baseline.play) {
+    Object.assign(outcome, summarizeCardPlay(matchId, engine, command, baseline.play, context));
+  }
+
+  logger.info(`[MATCH] Player ${command.playerId} ran ${command.type} in match ${matchId}`, {
+    matchId,
+    command,
+    requestId: context.requestId ?? null
+  });
+
+  publishCommandEvents(matchId, engine, command, baseline, outcome);
+  return outcome;
+};
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -699,23 +1263,74 @@ interface MatchConfig {
   matchId: string;
   player1: string;
   player2: string;
+  /** Seat order for a 3-4 player free-for-all; replaces player1/player2. */
+  players?: string[];
   decks: Record<string, any>;
   playerProfiles?: Record<string, { username?: string | null }>;
+  /** Rated mode; honoured only on internal calls from the matchmaking worker. */
+  mode?: MatchMode | null;
+  /** Clock overrides; `false` for an untimed match. Defaults apply otherwise. */
+  clock?: Partial<MatchClockConfig> | boolean | null;
+  /** Rule profile id, or `{ base, ...overrides }`. Defaults to `standard`. */
+  ruleProfile?: RuleProfileId | (Partial<RuleProfile> & { base?: string }) | null;
+  /** Deck format the decks are checked against. Defaults to the rule profile's. */
+  format?: string | null;
   createdAt?: number;
 }
 
+interface SeriesConfig {
+  seriesId: string;
+  player1: string;
+  player2: string;
+  decks: Record<string, any>;
+  playerProfiles?: Record<string, { username?: string | null }>;
+  /** Rated mode; honoured only on internal calls from the matchmaking worker. */
+  mode?: MatchMode | null;
+  /** Deck format for every game and sideboard. Defaults to standard. */
+  format?: string | null;
+  bestOf?: number;
+}
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  status: 'pending' | 'completed';
+  responseStatus?: number;
+  responseBody?: unknown;
+  /** Epoch seconds, matching the table's TTL attribute. */
+  expiresAt: number;
+}
+
 interface AuthedRequest extends Request {
   userId?: string;
+  authPayload?: Record<string, any>;
   requestId?: string;
 }
 
 const getOperationLabel = (req: Request) => `${req.method} ${req.route?.path ?? req.path}`;
 
+const getCommandCaller = (req: Request): MatchCommandCaller => ({
+  userId: (req as AuthedRequest).userId,
+  authPayload: (req as AuthedRequest).authPayload
+});
+
 const buildRequestContext = (req: Request): RequestContextMeta => ({
   requestId: (req as AuthedRequest).requestId,
   operation: getOperationLabel(req)
 });
 
+const respondWithStateConflict = (
+  res: Response,
+  error: MatchStateConflictError,
+  meta: { matchId: string; action: string; requestId?: string; playerId?: string | null }
+) => {
+  logger.warn(`[${meta.action}] Match state conflict`, {
+    matchId: meta.matchId,
+    playerId: meta.playerId ?? null,
+    requestId: meta.requestId ?? null
+  });
+  res.status(409).json({ error: error.message });
+};
+
 const respondWithStateUnavailable = (
   res: Response,
   error: MatchStateUnavailableError,
@@ -748,6 +1363,75 @@ matchRouter.use((req: Request, _res: Response, next: NextFunction) => {
   next();
 });
 
+/**
+ * Replay match actions sent with an Idempotency-Key. The first request claims
+ * the key and its response is stored once sent; duplicates get that response
+ * back without touching the match. Conflicts and server errors release the
+ * claim so the client can retry them for real.
+ */
+matchRouter.post('/matches/:matchId/actions/*', async (req: Request, res: Response, next: NextFunction) => {
+  const idempotencyKey = req.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!idempotencyKey) {
+    next();
+    return;
+  }
+  if (idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    res.status(400).json({ error: `${IDEMPOTENCY_HEADER} must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+    return;
+  }
+  // Scope keys to the signed-in caller so nobody can replay or claim another
+  // player's responses; in-process callers are scoped by the body's player.
+  const playerId = (req as AuthedRequest).userId ?? normalizePlayerId(req.body?.playerId) ?? null;
+  if (!playerId) {
+    next();
+    return;
+  }
+
+  const { matchId } = req.params;
+  const recordKey = `${IDEMPOTENCY_KEY_PREFIX}${matchId}#${playerId}#${idempotencyKey}`;
+  const fingerprint = createHash('sha256')
+    .update(`${req.path}\n${JSON.stringify(req.body ?? {})}`)
+    .digest('hex');
+  const meta = { matchId, playerId, requestId: (req as AuthedRequest).requestId ?? null };
+
+  try {
+    const existing = await claimIdempotencyKey(recordKey, fingerprint);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        res.status(422).json({ error: `${IDEMPOTENCY_HEADER} was already used for a different request` });
+        return;
+      }
+      if (existing.status !== 'completed') {
+        res.status(409).json({ error: `A request with this ${IDEMPOTENCY_HEADER} is still in progress` });
+        return;
+      }
+      logger.info('[IDEMPOTENCY] Replaying stored response', meta);
+      res.set(IDEMPOTENCY_REPLAY_HEADER, 'true');
+      res.status(existing.responseStatus ?? 200).json(existing.responseBody ?? { success: true });
+      return;
+    }
+  } catch (error) {
+    logger.error('[IDEMPOTENCY] Failed to claim key', { ...meta, error: serializeError(error) });
+    res.status(503).json({ error: 'Unable to process request, please retry' });
+    return;
+  }
+
+  const sendJson = res.json.bind(res);
+  res.json = ((body: unknown) => {
+    const status = res.statusCode;
+    const settle = status >= 500 || status === 409
+      ? releaseIdempotencyKey(recordKey)
+      : storeIdempotentResponse(recordKey, fingerprint, status, body);
+    void settle
+      .catch((error) => {
+        logger.warn('[IDEMPOTENCY] Failed to settle key', { ...meta, error: serializeError(error) });
+      })
+      .finally(() => sendJson(body));
+    return res;
+  }) as Response['json'];
+  next();
+});
+
 // ============================================================================
 // ENDPOINTS
 // ============================================================================
@@ -756,20 +1440,119 @@ matchRouter.use((req: Request, _res: Response, next: NextFunction) => {
  * Health check - helps ECS determine if container is healthy
  */
 /**
- * Initialize a new match
+ * Build a fresh engine for a new match and run game setup. Shared by
+ * `/matches/init` and series games; throws when the decks are invalid, with
+ * an IllegalDeckError when a player deck breaks the format's rules.
+ */
+const createInitializedEngine = (
+  config: {
+    matchId: string;
+    player1: string;
+    player2: string;
+    /** Full seat order when there are more than two players. */
+    players?: string[];
+    decks: Record<string, any>;
+    playerProfiles?: Record<string, { username?: string | null }>;
+    matchMode?: MatchMode | null;
+    seriesId?: string | null;
+    firstPlayerId?: string | null;
+    clock?: MatchClockConfig | null;
+    ruleProfile?: RuleProfile | null;
+    format?: string | null;
+  },
+  requestId?: string
+): RiftboundGameEngine => {
+  const { matchId, player1, player2, playerProfiles } = config;
+  const seats = config.players ?? [player1, player2];
+  const format = config.format ?? deckFormatForRuleProfile(config.ruleProfile);
+  for (const playerId of seats) {
+    const deck = config.decks?.[playerId];
+    if (!deck || isPendingBotDeck(deck)) {
+      continue;
+    }
+    const legality = validateDecklist(Array.isArray(deck) ? { mainDeck: deck } : deck, format);
+    if (!legality.legal) {
+      throw new IllegalDeckError(legality, playerId);
+    }
+  }
+  const playerMetadata = seats.map((playerId) => ({
+    playerId,
+    name: playerProfiles?.[playerId]?.username ?? null
+  }));
+
+  // Replace pending / empty bot deck slots with legal presets so the engine
+  // never falls through to an unsafe color-mixed fallback.
+  const resolvedDecks = resolveDecksForBots(config.decks, matchId, requestId);
+
+  const engine = new RiftboundGameEngine(matchId, playerMetadata, {
+    matchMode: config.matchMode ?? null,
+    seriesId: config.seriesId ?? null,
+    clock: config.clock ?? null,
+    ruleProfile: config.ruleProfile ?? null,
+    // Bot seats keep the automatic combat damage assignment.
+    damageAssignmentPlayerIds: seats.filter(
+      (playerId) => !isPendingBotDeck(config.decks?.[playerId])
+    )
+  });
+  engine.initializeGame(resolvedDecks, { firstPlayerId: config.firstPlayerId ?? null });
+  return engine;
+};
+
+/**
+ * The rated mode a new match or series is created with. Players cannot rate
+ * their own games: only internal calls (the matchmaking worker) may set one,
+ * and any other request gets an unrated match.
+ */
+const resolveRatedMode = (req: Request, mode?: MatchMode | null): MatchMode | null => {
+  if (!mode || !MATCHMAKING_MODES.includes(mode)) {
+    return null;
+  }
+  if (!isInternalRequest(req)) {
+    logger.warn('[MATCH-INIT] Ignoring match mode from a non-internal caller', {
+      mode,
+      userId: (req as AuthedRequest).userId ?? null
+    });
+    return null;
+  }
+  return mode;
+};
+
+/**
+ * Initialize a new match. Rated matches always use the queue's deck format
+ * and the standard rule profile, whatever the body asks for.
  * POST /matches/init
- * Body: { matchId, player1, player2, decks }
+ * Body: { matchId, player1, player2, decks, playerProfiles?, mode?, clock?, ruleProfile?, format? }
+ *    or { matchId, players: [...3-4 ids], decks, ... } for a free-for-all
  */
 matchRouter.post('/matches/init', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { matchId, player1, player2, decks, playerProfiles }: MatchConfig = req.body;
+    const { matchId, players, decks, playerProfiles, mode, clock, ruleProfile, format }: MatchConfig = req.body;
     const context = buildRequestContext(req);
     const requestId = context.requestId;
+    const player1 = players?.[0] ?? req.body.player1;
+    const player2 = players?.[1] ?? req.body.player2;
+    const matchMode = resolveRatedMode(req, mode);
 
     if (!matchId || !player1 || !player2 || !decks) {
       res.status(400).json({ error: 'Missing required fields' });
       return;
     }
+    if (players !== undefined) {
+      const invalidSeats =
+        !Array.isArray(players) ||
+        players.length < 2 ||
+        players.length > 4 ||
+        players.some((playerId) => typeof playerId !== 'string' || !playerId) ||
+        new Set(players).size !== players.length;
+      if (invalidSeats) {
+        res.status(400).json({ error: 'players must list 2 to 4 distinct player ids' });
+        return;
+      }
+      if (players.length > 2 && matchMode) {
+        res.status(400).json({ error: 'Rated matches are one-on-one' });
+        return;
+      }
+    }
 
     const existingSnapshot = await loadGameStateSnapshot(matchId, context);
     if (existingSnapshot) {
@@ -777,25 +1560,23 @@ matchRouter.post('/matches/init', async (req: Request, res: Response): Promise<v
       return;
     }
 
-    const playerMetadata = [
-      {
-        playerId: player1,
-        name: playerProfiles?.[player1]?.username ?? null
-      },
-      {
-        playerId: player2,
-        name: playerProfiles?.[player2]?.username ?? null
-      }
-    ];
-
-    // Replace pending / empty bot deck slots with legal presets so the engine
-    // never falls through to an unsafe color-mixed fallback.
-    const resolvedDecks = resolveDecksForBots(decks, matchId, requestId);
-
-    // Create and initialize game engine
-    const engine = new RiftboundGameEngine(matchId, playerMetadata);
+    let engine: RiftboundGameEngine;
     try {
-      engine.initializeGame(resolvedDecks);
+      engine = createInitializedEngine(
+        {
+          matchId,
+          player1,
+          player2,
+          players,
+          decks,
+          playerProfiles,
+          matchMode,
+          clock: resolveMatchClock(clock),
+          ruleProfile: resolveRuleProfile(matchMode ? 'standard' : ruleProfile),
+          format: matchMode ? getQueueDeckFormat(matchMode) : format ? resolveDeckFormat(format).id : null
+        },
+        requestId
+      );
     } catch (error) {
       logger.error('[MATCH-INIT] Engine initialization failed', {
         matchId,
@@ -804,6 +1585,10 @@ matchRouter.post('/matches/init', async (req: Request, res: Response): Promise<v
         error: serializeError(error),
         requestId
       });
+      if (error instanceof IllegalDeckError) {
+        res.status(400).json({ error: error.message, playerId: error.playerId, violations: error.violations });
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Invalid deck configuration';
       res.status(400).json({ error: message });
       return;
@@ -822,7 +1607,7 @@ matchRouter.post('/matches/init', async (req: Request, res: Response): Promise<v
     res.status(201).json({
       matchId,
       status: 'initialized',
-      players: [player1, player2],
+      players: players ?? [player1, player2],
       gameState: serializeGameState(engine.getGameState())
     });
   } catch (error) {
@@ -840,15 +1625,18 @@ matchRouter.post('/matches/init', async (req: Request, res: Response): Promise<v
 /**
  * Get current game state
  * GET /matches/:matchId
+ * Scoped to the caller: other players' hands and face-down cards are
+ * stripped, and an anonymous caller sees only what a spectator may.
  */
 matchRouter.get('/matches/:matchId', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
   const operation = context.operation ?? getOperationLabel(req);
   try {
     const { matchId } = req.params;
+    const { userId, authPayload } = req as AuthedRequest;
     const snapshot = await loadSnapshotOrThrow(matchId, context);
     const gameState = serializeGameState(snapshot);
-    res.json(gameState);
+    res.json(isAdminUser(userId, authPayload) ? gameState : redactGameStateForViewer(gameState, userId ?? null));
   } catch (error) {
     if (error instanceof MatchStateUnavailableError) {
       respondWithStateUnavailable(res, error, {
@@ -858,6 +1646,14 @@ matchRouter.get('/matches/:matchId', async (req: Request, res: Response): Promis
       });
       return;
     }
+    if (error instanceof MatchStateConflictError) {
+      respondWithStateConflict(res, error, {
+        action: operation,
+        matchId: req.params.matchId,
+        requestId: context.requestId
+      });
+      return;
+    }
     res.status(500).json({ error: 'Failed to fetch match' });
   }
 });
@@ -865,14 +1661,28 @@ matchRouter.get('/matches/:matchId', async (req: Request, res: Response): Promis
 /**
  * Get specific player's view of the game
  * GET /matches/:matchId/player/:playerId
+ * A seat's view (hand and legal actions included) goes only to that player
+ * or an admin, except in bot-only matches. Non-participant ids still get the
+ * spectator envelope.
  */
 matchRouter.get('/matches/:matchId/player/:playerId', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
   const operation = context.operation ?? getOperationLabel(req);
+  const callerId = (req as AuthedRequest).userId ?? null;
   try {
     const { matchId, playerId } = req.params;
     const { engine, snapshot } = await loadEngineState(matchId, context);
-
+    const seatIds = snapshot.players.map((player) => player.playerId);
+    if (
+      callerId !== playerId &&
+      !isAdminUser(callerId, (req as AuthedRequest).authPayload) &&
+      seatIds.includes(playerId) &&
+      !isOpenInformationMatch(seatIds)
+    ) {
+      res.status(403).json({ error: 'Players can only view their own seat' });
+      return;
+    }
+
     let playerView;
     try {
       playerView = buildPlayerViewSnapshot(engine, snapshot, playerId);
@@ -898,6 +1708,15 @@ matchRouter.get('/matches/:matchId/player/:playerId', async (req: Request, res:
       });
       return;
     }
+    if (error instanceof MatchStateConflictError) {
+      respondWithStateConflict(res, error, {
+        action: operation,
+        matchId: req.params.matchId,
+        playerId: req.params.playerId,
+        requestId: context.requestId
+      });
+      return;
+    }
     const { matchId, playerId } = req.params;
     const err = error as Error;
     logger.error('[playerView] fetch failed', {
@@ -915,295 +1734,189 @@ matchRouter.get('/matches/:matchId/player/:playerId', async (req: Request, res:
 });
 
 /**
- * Play a card from hand
- * POST /matches/:matchId/actions/play-card
- * Body: { playerId, cardIndex, targets? }
+ * List everything a player may do right now
+ * GET /matches/:matchId/player/:playerId/legal-actions
+ * Only the player (or an admin) may ask: the list reveals their hand.
  */
-matchRouter.post('/matches/:matchId/actions/play-card', async (req: Request, res: Response): Promise<void> => {
+matchRouter.get('/matches/:matchId/player/:playerId/legal-actions', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
   const operation = context.operation ?? getOperationLabel(req);
+  const callerId = (req as AuthedRequest).userId ?? null;
   try {
-    const { matchId } = req.params;
-    const { playerId, cardIndex, targets, destinationId, useAccelerate } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    if (!engine.canPlayerAct(playerId)) {
-      res.status(403).json({ error: 'Not your turn' });
+    const { matchId, playerId } = req.params;
+    if (callerId !== playerId && !isAdminUser(callerId, (req as AuthedRequest).authPayload)) {
+      res.status(403).json({ error: 'Players can only list their own legal actions' });
       return;
     }
-
-    const actingPlayer = engine.getPlayerState(playerId);
-    const cardInHand = actingPlayer.hand?.[cardIndex];
-    const boardCountsBefore = {
-      creatures: actingPlayer.board.creatures.length,
-      artifacts: actingPlayer.board.artifacts.length,
-      enchantments: actingPlayer.board.enchantments.length
-    };
-    const tappedRunesBefore = actingPlayer.channeledRunes.filter((rune) => rune.isTapped).length;
-    const channeledRunesBefore = actingPlayer.channeledRunes.length;
-
-    engine.playCard(playerId, cardIndex, targets, destinationId, {
-      useAccelerate: Boolean(useAccelerate)
-    });
-
-    await saveGameState(matchId, engine);
-
-    const rawState = engine.getGameState();
-    const spectatorState = serializeGameState(rawState);
-
-    const updatedPlayer = engine.getPlayerState(playerId);
-    const normalizedType = (cardInHand?.type ?? '').toLowerCase() as CardType | string;
-    let deployedCard: BoardCard | null = null;
-    switch (normalizedType) {
-      case CardType.CREATURE:
-        if (updatedPlayer.board.creatures.length > boardCountsBefore.creatures) {
-          deployedCard = updatedPlayer.board.creatures[updatedPlayer.board.creatures.length - 1];
-        }
-        break;
-      case CardType.ARTIFACT:
-        if (updatedPlayer.board.artifacts.length > boardCountsBefore.artifacts) {
-          deployedCard = updatedPlayer.board.artifacts[updatedPlayer.board.artifacts.length - 1];
-        }
-        break;
-      case CardType.ENCHANTMENT:
-        if (updatedPlayer.board.enchantments.length > boardCountsBefore.enchantments) {
-          deployedCard = updatedPlayer.board.enchantments[updatedPlayer.board.enchantments.length - 1];
-        }
-        break;
-      default:
-        deployedCard = null;
-        break;
-    }
-    const tappedRunesAfter = updatedPlayer.channeledRunes.filter((rune) => rune.isTapped).length;
-    const channeledRunesAfter = updatedPlayer.channeledRunes.length;
-    const powerSpent: Record<string, number> = { ...(cardInHand?.powerCost ?? {}) };
-    const runePayment = {
-      energySpent: cardInHand?.energyCost ?? cardInHand?.manaCost ?? 0,
-      powerSpent,
-      tappedRunes: Math.max(tappedRunesAfter - tappedRunesBefore, 0),
-      recycledRunes: Math.max(channeledRunesBefore - channeledRunesAfter, 0)
-    };
-    if (useAccelerate) {
-      const accelerateMeta = extractAccelerateMetadata(cardInHand);
-      if (accelerateMeta) {
-        runePayment.energySpent += accelerateMeta.energy;
-        if (accelerateMeta.rune) {
-          const domainKey = accelerateMeta.rune.toLowerCase();
-          powerSpent[domainKey] = (powerSpent[domainKey] ?? 0) + 1;
-        }
-      }
+    const { engine, snapshot } = await loadEngineState(matchId, context);
+    if (!snapshot.players.some((player) => player.playerId === playerId)) {
+      res.status(404).json({ error: `Player ${playerId} not found in match ${matchId}` });
+      return;
     }
-    const playerView = buildPlayerViewSnapshot(engine, rawState, playerId);
-    const gameStateDetail = {
-      phase: rawState.currentPhase,
-      turnNumber: rawState.turnNumber,
-      currentPlayerIndex: rawState.currentPlayerIndex,
-      player: {
-        playerId: updatedPlayer.playerId,
-        handSize: updatedPlayer.hand.length,
-        deckCount: updatedPlayer.deck.length,
-        graveyardSize: updatedPlayer.graveyard.length,
-        exileSize: updatedPlayer.exile.length,
-        board: {
-          creatures: updatedPlayer.board.creatures.map((card) => summarizeBoardCard(card)),
-          artifacts: updatedPlayer.board.artifacts.map((card) => summarizeBoardCard(card)),
-          enchantments: updatedPlayer.board.enchantments.map((card) => summarizeBoardCard(card))
-        },
-        resources: summarizePlayerResources(updatedPlayer),
-        channeledRunes: updatedPlayer.channeledRunes.map((rune) => ({
-          runeId: rune.id,
-          name: rune.name,
-          domain: rune.domain ?? null,
-          energyValue: rune.energyValue ?? null,
-          powerValue: rune.powerValue ?? null,
-          isTapped: rune.isTapped ?? false
-        })),
-        runeDeckSize: updatedPlayer.runeDeck.length
-      }
-    };
-    const deployedSummary = summarizeBoardCard(deployedCard ?? undefined);
-    logger.info('[MATCH] Played card', {
-      matchId,
-      playerId,
-      cardId: cardInHand?.id ?? (cardInHand as any)?.cardId ?? null,
-      name: cardInHand?.name ?? 'Unknown card',
-      type: normalizedType || cardInHand?.type || 'unknown',
-      placement: deployedSummary,
-      runesSpent: Math.max(tappedRunesAfter - tappedRunesBefore, 0) + runePayment.recycledRunes,
-      playerResources: summarizePlayerResources(updatedPlayer),
-      runePayment,
-      gameStateDetail,
-      requestId: context.requestId ?? null
-    });
-
-    logger.info(`[MATCH] Player ${playerId} played card in match ${matchId}`, {
-      matchId,
-      playerId,
-      requestId: context.requestId ?? null
-    });
-
-    res.json({
-      success: true,
-      gameState: spectatorState,
-      currentPhase: spectatorState.currentPhase,
-      playerView,
-      runePayment
-    });
-  } catch (error: any) {
+    res.json({ matchId, playerId, legalActions: engine.getLegalActions(playerId) });
+  } catch (error) {
     if (error instanceof MatchStateUnavailableError) {
       respondWithStateUnavailable(res, error, {
         action: operation,
         matchId: req.params.matchId,
-        playerId: req.body?.playerId,
+        playerId: req.params.playerId,
+        requestId: context.requestId
+      });
+      return;
+    }
+    if (error instanceof MatchStateConflictError) {
+      respondWithStateConflict(res, error, {
+        action: operation,
+        matchId: req.params.matchId,
+        playerId: req.params.playerId,
         requestId: context.requestId
       });
       return;
     }
-    logger.error('[PLAY-CARD] Error:', {
+    logger.error('[LEGAL-ACTIONS] Error:', {
       error,
       matchId: req.params.matchId,
-      playerId: req.body?.playerId,
+      playerId: req.params.playerId,
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to play card' });
+    res.status(500).json({ error: 'Failed to list legal actions' });
   }
 });
 
 /**
- * Select a battlefield during setup
- * POST /matches/:matchId/actions/select-battlefield
- * Body: { playerId, battlefieldId }
+ * Serve a match command from its action route: parse the body, run it
+ * through executeMatchCommand and answer with the new spectator state.
  */
-matchRouter.post('/matches/:matchId/actions/select-battlefield', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const { playerId, battlefieldId } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    engine.selectBattlefield(playerId, battlefieldId);
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    logger.info(
-      `[MATCH] Player ${playerId} selected battlefield ${battlefieldId} for match ${matchId}`,
-      {
-        matchId,
-        playerId,
-        battlefieldId,
-        requestId: context.requestId ?? null
+const matchCommandHandler = (type: MatchCommandType, failureMessage: string) =>
+  async (req: Request, res: Response): Promise<void> => {
+    const context = buildRequestContext(req);
+    const operation = context.operation ?? getOperationLabel(req);
+    try {
+      const command = parseMatchCommand(type, req.body ?? {});
+      const { spectatorState, playerView, runePayment } = await executeMatchCommand(
+        req.params.matchId,
+        command,
+        getCommandCaller(req),
+        context
+      );
+      res.json({
+        success: true,
+        gameState: spectatorState,
+        currentPhase: spectatorState.currentPhase,
+        ...(playerView ? { playerView, runePayment } : {})
+      });
+    } catch (error: any) {
+      if (error instanceof MatchStateUnavailableError) {
+        respondWithStateUnavailable(res, error, {
+          action: operation,
+          matchId: req.params.matchId,
+          playerId: req.body?.playerId,
+          requestId: context.requestId
+        });
+        return;
       }
-    );
-
-    res.json({
-      success: true,
-      gameState: spectatorState
-    });
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
+      if (error instanceof MatchStateConflictError) {
+        respondWithStateConflict(res, error, {
+          action: operation,
+          matchId: req.params.matchId,
+          playerId: req.body?.playerId,
+          requestId: context.requestId
+        });
+        return;
+      }
+      if (error instanceof MatchCommandError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      logger.error(`[${type.toUpperCase()}] Error:`, {
+        error,
         matchId: req.params.matchId,
         playerId: req.body?.playerId,
-        requestId: context.requestId
+        requestId: context.requestId ?? null
       });
-      return;
+      res.status(400).json({ error: error.message || failureMessage });
     }
-    logger.error('[BATTLEFIELD-SELECT] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
-      requestId: context.requestId ?? null
-    });
-    res.status(400).json({ error: error.message || 'Failed to select battlefield' });
-  }
-});
+  };
+
+/**
+ * Play a card from hand
+ * POST /matches/:matchId/actions/play-card
+ * Body: { playerId, cardIndex, targets?, destinationId?, useAccelerate? }
+ * Also returns the player's view and the rune payment.
+ */
+matchRouter.post('/matches/:matchId/actions/play-card', matchCommandHandler('play-card', 'Failed to play card'));
+
+/**
+ * Select a battlefield during setup
+ * POST /matches/:matchId/actions/select-battlefield
+ * Body: { playerId, battlefieldId }
+ */
+matchRouter.post('/matches/:matchId/actions/select-battlefield', matchCommandHandler('select-battlefield', 'Failed to select battlefield'));
 
 /**
  * Submit mulligan choices
  * POST /matches/:matchId/actions/mulligan
  * Body: { playerId, indices }
  */
-matchRouter.post('/matches/:matchId/actions/mulligan', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const { playerId, indices } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    engine.submitMulligan(playerId, Array.isArray(indices) ? indices : []);
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    logger.info(`[MATCH] Player ${playerId} submitted mulligan for match ${matchId}`, {
-      matchId,
-      playerId,
-      requestId: context.requestId ?? null
-    });
-
-    res.json({
-      success: true,
-      gameState: spectatorState
-    });
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
-      return;
-    }
-    logger.error('[MULLIGAN] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
-      requestId: context.requestId ?? null
-    });
-    res.status(400).json({ error: error.message || 'Failed to submit mulligan' });
-  }
-});
+matchRouter.post('/matches/:matchId/actions/mulligan', matchCommandHandler('mulligan', 'Failed to submit mulligan'));
 
 /**
  * Resolve discard selection prompts
  * POST /matches/:matchId/actions/discard
  * Body: { playerId, promptId, cardInstanceIds }
  */
-matchRouter.post('/matches/:matchId/actions/discard', async (req: Request, res: Response): Promise<void> => {
+matchRouter.post('/matches/:matchId/actions/discard', matchCommandHandler('discard', 'Failed to resolve discard selection'));
+
+/**
+ * Resolve generic target selection prompts
+ * POST /matches/:matchId/actions/target
+ * Body: { playerId, promptId, selectionIds }
+ */
+matchRouter.post('/matches/:matchId/actions/target', matchCommandHandler('target', 'Failed to resolve target selection'));
+
+/**
+ * Resolve combat damage assignment prompts
+ * POST /matches/:matchId/actions/assign-damage
+ * Body: { playerId, promptId, assignments: { [instanceId]: amount } }
+ */
+matchRouter.post('/matches/:matchId/actions/assign-damage', matchCommandHandler('assign-damage', 'Failed to assign combat damage'));
+
+const appendDuelLogHandler = async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
   const operation = context.operation ?? getOperationLabel(req);
   try {
     const { matchId } = req.params;
-    const { playerId, promptId, cardInstanceIds } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    engine.submitDiscardSelection(
-      playerId,
-      promptId,
-      Array.isArray(cardInstanceIds) ? cardInstanceIds : []
+    const { playerId, message, tone, entryId, actorName } = req.body ?? {};
+    // Entries without a player are narration; entries for a seat are the
+    // seat's own, like any match command.
+    if (typeof playerId === 'string') {
+      authorizeMatchCommand({ playerId }, getCommandCaller(req));
+    }
+
+    const { engine, result: entry } = await applyWithConflictRetry(matchId, context, (current) =>
+      current.addDuelLogEntry({
+        id: typeof entryId === 'string' ? entryId : undefined,
+        playerId: typeof playerId === 'string' ? playerId : null,
+        actorName: typeof actorName === 'string' ? actorName : undefined,
+        message,
+        tone
+      })
     );
-    await saveGameState(matchId, engine);
-
+    publishMatchState(matchId, engine);
     const spectatorState = serializeGameState(engine.getGameState());
 
-    logger.info(`[MATCH] Player ${playerId} resolved discard prompt ${promptId} for match ${matchId}`, {
+    logger.info(`[MATCH] Logged duel entry ${entry.id} for match ${matchId}`, {
       matchId,
       playerId,
-      promptId,
       requestId: context.requestId ?? null
     });
 
     res.json({
       success: true,
+      entry: {
+        ...entry,
+        timestamp: new Date(entry.timestamp).toISOString()
+      },
       gameState: spectatorState
     });
   } catch (error: any) {
@@ -1216,48 +1929,64 @@ matchRouter.post('/matches/:matchId/actions/discard', async (req: Request, res:
       });
       return;
     }
-    logger.error('[DISCARD] Error:', {
+    if (error instanceof MatchStateConflictError) {
+      respondWithStateConflict(res, error, {
+        action: operation,
+        matchId: req.params.matchId,
+        playerId: req.body?.playerId,
+        requestId: context.requestId
+      });
+      return;
+    }
+    if (error instanceof MatchCommandError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    logger.error('[DUEL-LOG] Error:', {
       error,
       matchId: req.params.matchId,
       playerId: req.body?.playerId,
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to resolve discard selection' });
+    res.status(400).json({ error: error.message || 'Failed to record duel log entry' });
   }
-});
+};
 
-/**
- * Resolve generic target selection prompts
- * POST /matches/:matchId/actions/target
- * Body: { playerId, promptId, selectionIds }
- */
-matchRouter.post('/matches/:matchId/actions/target', async (req: Request, res: Response): Promise<void> => {
+const appendChatHandler = async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
   const operation = context.operation ?? getOperationLabel(req);
   try {
     const { matchId } = req.params;
-    const { playerId, promptId, selectionIds } = req.body;
+    const { playerId, message, playerName } = req.body ?? {};
 
-    const { engine } = await loadEngineState(matchId, context);
+    if (!playerId || typeof playerId !== 'string') {
+      res.status(400).json({ error: 'Player ID is required' });
+      return;
+    }
+    authorizeMatchCommand({ playerId }, getCommandCaller(req));
 
-    engine.submitTargetSelection(
-      playerId,
-      promptId,
-      Array.isArray(selectionIds) ? selectionIds : []
+    const { engine, result: chatEntry } = await applyWithConflictRetry(matchId, context, (current) =>
+      current.addChatMessage({
+        playerId,
+        playerName,
+        message
+      })
     );
-    await saveGameState(matchId, engine);
-
+    publishMatchState(matchId, engine);
     const spectatorState = serializeGameState(engine.getGameState());
 
-    logger.info(`[MATCH] Player ${playerId} resolved target prompt ${promptId} for match ${matchId}`, {
+    logger.info(`[MATCH] Player ${playerId} sent chat message in match ${matchId}`, {
       matchId,
       playerId,
-      promptId,
       requestId: context.requestId ?? null
     });
 
     res.json({
       success: true,
+      message: {
+        ...chatEntry,
+        timestamp: new Date(chatEntry.timestamp).toISOString()
+      },
       gameState: spectatorState
     });
   } catch (error: any) {
@@ -1270,242 +1999,303 @@ matchRouter.post('/matches/:matchId/actions/target', async (req: Request, res: R
       });
       return;
     }
-    logger.error('[TARGET] Error:', {
+    if (error instanceof MatchStateConflictError) {
+      respondWithStateConflict(res, error, {
+        action: operation,
+        matchId: req.params.matchId,
+        playerId: req.body?.playerId,
+        requestId: context.requestId
+      });
+      return;
+    }
+    if (error instanceof MatchCommandError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    logger.error('[CHAT] Error:', {
       error,
       matchId: req.params.matchId,
       playerId: req.body?.playerId,
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to resolve target selection' });
+    res.status(400).json({ error: error.message || 'Failed to send chat message' });
   }
-});
+};
 
-const appendDuelLogHandler = async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const { playerId, message, tone, entryId, actorName } = req.body ?? {};
+matchRouter.post('/matches/:matchId/logs', appendDuelLogHandler);
+matchRouter.post('/matches/:matchId/actions/duel-log', appendDuelLogHandler);
 
-    const { engine } = await loadEngineState(matchId, context);
+matchRouter.post('/matches/:matchId/chat', appendChatHandler);
+matchRouter.post('/matches/:matchId/actions/chat', appendChatHandler);
 
-    const entry = engine.addDuelLogEntry({
-      id: typeof entryId === 'string' ? entryId : undefined,
-      playerId: typeof playerId === 'string' ? playerId : null,
-      actorName: typeof actorName === 'string' ? actorName : undefined,
-      message,
-      tone
-    });
+/**
+ * Submit initiative choice (coin flip)
+ * POST /matches/:matchId/actions/initiative
+ * Body: { playerId, choice }
+ */
+matchRouter.post('/matches/:matchId/actions/initiative', matchCommandHandler('initiative', 'Failed to submit initiative choice'));
 
-    await saveGameState(matchId, engine);
-    const spectatorState = serializeGameState(engine.getGameState());
+/**
+ * Attack with a creature
+ * POST /matches/:matchId/actions/attack
+ * Body: { playerId, creatureInstanceId, destinationId }
+ */
+matchRouter.post('/matches/:matchId/actions/attack', matchCommandHandler('attack', 'Failed to attack'));
 
-    logger.info(`[MATCH] Logged duel entry ${entry.id} for match ${matchId}`, {
-      matchId,
-      playerId,
-      requestId: context.requestId ?? null
-    });
+/**
+ * Move a unit between locations
+ * POST /matches/:matchId/actions/move
+ * Body: { playerId, creatureInstanceId, destinationId }
+ */
+matchRouter.post('/matches/:matchId/actions/move', matchCommandHandler('move', 'Failed to move unit'));
 
-    res.json({
-      success: true,
-      entry: {
-        ...entry,
-        timestamp: new Date(entry.timestamp).toISOString()
-      },
-      gameState: spectatorState
-    });
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
-      return;
-    }
-    logger.error('[DUEL-LOG] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
-      requestId: context.requestId ?? null
-    });
-    res.status(400).json({ error: error.message || 'Failed to record duel log entry' });
-  }
-};
+/**
+ * Hide a card with [Hidden] keyword on a controlled battlefield
+ * POST /matches/:matchId/actions/hide-card
+ * Body: { playerId, cardIndex, battlefieldId }
+ */
+matchRouter.post('/matches/:matchId/actions/hide-card', matchCommandHandler('hide-card', 'Failed to hide card'));
 
-const appendChatHandler = async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const { playerId, message, playerName } = req.body ?? {};
+/**
+ * Activate a hidden card at reaction speed
+ * POST /matches/:matchId/actions/activate-hidden
+ * Body: { playerId, hiddenInstanceId, targets? }
+ */
+matchRouter.post('/matches/:matchId/actions/activate-hidden', matchCommandHandler('activate-hidden', 'Failed to activate hidden card'));
 
-    if (!playerId || typeof playerId !== 'string') {
-      res.status(400).json({ error: 'Player ID is required' });
-      return;
-    }
+/**
+ * Commence combat on a battlefield
+ * POST /matches/:matchId/actions/commence-battle
+ * Body: { playerId, battlefieldId }
+ */
+matchRouter.post('/matches/:matchId/actions/commence-battle', matchCommandHandler('commence-battle', 'Failed to commence battle'));
 
-    const { engine } = await loadEngineState(matchId, context);
-    const chatEntry = engine.addChatMessage({
-      playerId,
-      playerName,
-      message
-    });
+/**
+ * Activate champion legend/leader ability
+ * POST /matches/:matchId/actions/activate-legend
+ * Body: { playerId, target, destinationId }
+ */
+matchRouter.post('/matches/:matchId/actions/activate-legend', matchCommandHandler('activate-legend', 'Failed to activate champion ability'));
 
-    await saveGameState(matchId, engine);
-    const spectatorState = serializeGameState(engine.getGameState());
+/**
+ * Pass priority in the current window
+ * POST /matches/:matchId/actions/pass-priority
+ * Body: { playerId }
+ */
+matchRouter.post('/matches/:matchId/actions/pass-priority', matchCommandHandler('pass-priority', 'Failed to pass priority'));
 
-    logger.info(`[MATCH] Player ${playerId} sent chat message in match ${matchId}`, {
-      matchId,
-      playerId,
-      requestId: context.requestId ?? null
-    });
+/**
+ * Respond to a spell reaction prompt (pass or react)
+ * POST /matches/:matchId/actions/respond-to-spell-reaction
+ * Body: { playerId, pass }
+ */
+matchRouter.post('/matches/:matchId/actions/respond-to-spell-reaction', matchCommandHandler('respond-to-spell-reaction', 'Failed to respond to spell reaction'));
 
-    res.json({
-      success: true,
-      message: {
-        ...chatEntry,
-        timestamp: new Date(chatEntry.timestamp).toISOString()
-      },
-      gameState: spectatorState
-    });
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
-      return;
-    }
-    logger.error('[CHAT] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
-      requestId: context.requestId ?? null
-    });
-    res.status(400).json({ error: error.message || 'Failed to send chat message' });
-  }
-};
+/**
+ * Respond to a chain reaction prompt (pass or play a reaction)
+ * POST /matches/:matchId/actions/respond-to-chain-reaction
+ * Body: { playerId, pass }
+ */
+matchRouter.post('/matches/:matchId/actions/respond-to-chain-reaction', matchCommandHandler('respond-to-chain-reaction', 'Failed to respond to chain reaction'));
 
-matchRouter.post('/matches/:matchId/logs', appendDuelLogHandler);
-matchRouter.post('/matches/:matchId/actions/duel-log', appendDuelLogHandler);
+/**
+ * Ask the opponents to undo the player's last action (casual matches only)
+ * POST /matches/:matchId/actions/request-take-back
+ * Body: { playerId }
+ */
+matchRouter.post('/matches/:matchId/actions/request-take-back', matchCommandHandler('request-take-back', 'Failed to request take-back'));
 
-matchRouter.post('/matches/:matchId/chat', appendChatHandler);
-matchRouter.post('/matches/:matchId/actions/chat', appendChatHandler);
+/**
+ * Accept or decline an opponent's take-back request
+ * POST /matches/:matchId/actions/respond-to-take-back
+ * Body: { playerId, accept }
+ */
+matchRouter.post('/matches/:matchId/actions/respond-to-take-back', matchCommandHandler('respond-to-take-back', 'Failed to respond to take-back'));
 
 /**
- * Submit initiative choice (coin flip)
- * POST /matches/:matchId/actions/initiative
- * Body: { playerId, choice }
+ * End current phase and proceed to next
+ * POST /matches/:matchId/actions/next-phase
+ * Body: { playerId }
+ */
+matchRouter.post('/matches/:matchId/actions/next-phase', matchCommandHandler('next-phase', 'Failed to advance phase'));
+
+/**
+ * Report match result
+ * POST /matches/:matchId/result
+ * Body: { winner?, note? }
+ * Players can only confirm the outcome the engine reached. Admins may rule a
+ * different winner (with a note) while the result is not yet final; rulings
+ * are recorded on the match state and in the match record.
  */
-matchRouter.post('/matches/:matchId/actions/initiative', async (req: Request, res: Response): Promise<void> => {
+matchRouter.post('/matches/:matchId/result', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
   const operation = context.operation ?? getOperationLabel(req);
+  const callerId = (req as AuthedRequest).userId ?? null;
   try {
     const { matchId } = req.params;
-    const { playerId, choice } = req.body;
+    const winner = normalizePlayerId(req.body?.winner);
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() : '';
+    const isAdmin = isAdminUser(callerId, (req as AuthedRequest).authPayload);
 
     const { engine } = await loadEngineState(matchId, context);
+    const rawState = engine.getGameState();
+    const engineResult = engine.getMatchResult();
+    const participants = rawState.players.map((p) => p.playerId);
 
-    engine.submitInitiativeChoice(playerId, Number(choice));
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
+    if (!isAdmin && (!callerId || !participants.includes(callerId))) {
+      res.status(403).json({ error: 'Only match participants can report a result' });
+      return;
+    }
+    if (winner && !participants.includes(winner)) {
+      res.status(400).json({ error: `Player ${winner} is not in match ${matchId}` });
+      return;
+    }
 
-    logger.info(
-      `[MATCH] Player ${playerId} submitted initiative choice ${choice} for match ${matchId}`,
-      {
+    let matchResult: MatchResult;
+    let spectatorState;
+    if (!winner || engineResult?.winner === winner) {
+      if (!engineResult) {
+        res.status(409).json({ error: 'Match has not been decided yet' });
+        return;
+      }
+      matchResult = engineResult;
+      spectatorState = await persistMatchFinalState(matchId, rawState, matchResult, 'match_completed');
+    } else if (!isAdmin) {
+      logger.warn('[RESULT] Rejected result that contradicts the engine', {
         matchId,
-        playerId,
-        choice,
+        callerId,
+        reportedWinner: winner,
+        engineWinner: engineResult?.winner ?? null,
         requestId: context.requestId ?? null
+      });
+      res.status(409).json({
+        error: engineResult
+          ? 'Reported winner does not match the match outcome'
+          : 'Match has not been decided yet'
+      });
+      return;
+    } else {
+      if (!note) {
+        res.status(400).json({ error: 'A note is required to adjudicate a match' });
+        return;
       }
-    );
+      if (rawState.outcomePersisted) {
+        res.status(409).json({ error: 'Match result is already final' });
+        return;
+      }
+      matchResult = engine.adjudicateResult(winner, { adjudicatorId: callerId!, note });
+      await saveGameState(matchId, engine);
+      publishMatchState(matchId, engine);
+      spectatorState = serializeGameState(engine.getGameState());
+      logger.warn('[MATCH-ADJUDICATED] Admin ruled match outcome', {
+        matchId,
+        adjudicatorId: callerId,
+        winner: matchResult.winner,
+        previousWinner: engineResult?.winner ?? null,
+        previousReason: engineResult?.reason ?? null,
+        note,
+        requestId: context.requestId ?? null
+      });
+    }
+
+    logger.info(`[MATCH-COMPLETE] Match ${matchId} completed. Winner: ${matchResult.winner}`, {
+      matchId,
+      winner: matchResult.winner,
+      requestId: context.requestId ?? null
+    });
 
     res.json({
       success: true,
+      matchResult,
       gameState: spectatorState
     });
+
   } catch (error: any) {
     if (error instanceof MatchStateUnavailableError) {
       respondWithStateUnavailable(res, error, {
         action: operation,
         matchId: req.params.matchId,
-        playerId: req.body?.playerId,
         requestId: context.requestId
       });
       return;
     }
-    logger.error('[INITIATIVE] Error:', {
+    if (error instanceof MatchStateConflictError) {
+      respondWithStateConflict(res, error, {
+        action: operation,
+        matchId: req.params.matchId,
+        requestId: context.requestId
+      });
+      return;
+    }
+    logger.error('[RESULT] Error:', {
       error,
       matchId: req.params.matchId,
-      playerId: req.body?.playerId,
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to submit initiative choice' });
+    res.status(500).json({ error: 'Failed to report match result' });
   }
 });
 
 /**
- * Attack with a creature
- * POST /matches/:matchId/actions/attack
- * Body: { playerId, creatureInstanceId, destinationId }
+ * Concede match
+ * POST /matches/:matchId/concede
+ * Body: { playerId }
+ * Players can only concede their own seat; admins may concede for anyone.
  */
-matchRouter.post('/matches/:matchId/actions/attack', async (req: Request, res: Response): Promise<void> => {
+matchRouter.post('/matches/:matchId/concede', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
   const operation = context.operation ?? getOperationLabel(req);
   try {
     const { matchId } = req.params;
-    const { playerId, creatureInstanceId, destinationId } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
+    const { playerId } = req.body;
 
-    if (!engine.canPlayerAct(playerId)) {
-      res.status(403).json({ error: 'Not your turn' });
+    if (!playerId) {
+      res.status(400).json({ error: 'playerId is required' });
       return;
     }
+    authorizeMatchCommand({ playerId }, getCommandCaller(req));
 
-    if (!destinationId) {
-      res.status(400).json({ error: 'Destination required' });
-      return;
-    }
-    if (destinationId === 'base') {
-      res.status(400).json({ error: 'Use move endpoint to return to base' });
+    const { engine, result: matchResult } = await applyWithConflictRetry(matchId, context, (current) =>
+      current.concedeMatch(playerId)
+    );
+
+    const rawState = engine.getGameState();
+    if (!matchResult) {
+      // Free-for-all: the player is out, the others play on.
+      publishMatchState(matchId, engine);
+      logger.info(`[MATCH-CONCEDE] Player ${playerId} left match ${matchId}`, {
+        matchId,
+        playerId,
+        requestId: context.requestId ?? null
+      });
+      res.json({
+        success: true,
+        matchResult: null,
+        gameState: serializeGameState(rawState)
+      });
       return;
     }
+    publishMatchState(matchId, engine);
+    const spectatorState = await persistMatchFinalState(
+      matchId,
+      rawState,
+      matchResult,
+      'match_conceded'
+    );
 
-    const playerState = engine.getPlayerState(playerId);
-    const attackerBefore = playerState.board.creatures.find((card) => card.instanceId === creatureInstanceId);
-    const locationBefore = attackerBefore ? summarizeLocation(attackerBefore.location) : null;
-
-    engine.moveUnit(playerId, creatureInstanceId, destinationId);
-
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    const attackerAfter = playerState.board.creatures.find((card) => card.instanceId === creatureInstanceId);
-    const attackerSummary = summarizeBoardCard(attackerAfter ?? undefined);
-    logger.info('[MATCH] Player declared attack', {
+    logger.info(`[MATCH-CONCEDE] Match ${matchId} ended. Winner: ${matchResult.winner}`, {
       matchId,
       playerId,
-      creatureInstanceId,
-      cardId: attackerBefore?.id ?? attackerAfter?.id ?? null,
-      name: attackerBefore?.name ?? attackerAfter?.name ?? null,
-      from: locationBefore,
-      to: summarizeLocation(attackerAfter?.location),
-      tappedAfter: attackerAfter?.isTapped ?? null,
-      unit: attackerSummary,
+      winner: matchResult.winner,
       requestId: context.requestId ?? null
     });
 
     res.json({
       success: true,
+      matchResult,
       gameState: spectatorState
     });
+
   } catch (error: any) {
     if (error instanceof MatchStateUnavailableError) {
       respondWithStateUnavailable(res, error, {
@@ -1516,852 +2306,788 @@ matchRouter.post('/matches/:matchId/actions/attack', async (req: Request, res: R
       });
       return;
     }
-    logger.error('[ATTACK] Error:', {
-      error,
+    if (error instanceof MatchStateConflictError) {
+      respondWithStateConflict(res, error, {
+        action: operation,
+        matchId: req.params.matchId,
+        playerId: req.body?.playerId,
+        requestId: context.requestId
+      });
+      return;
+    }
+    if (error instanceof MatchCommandError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    
+    // Log full error details for debugging
+    logger.error('[CONCEDE] Error:', {
+      error: {
+        message: error?.message,
+        name: error?.name,
+        stack: error?.stack,
+        code: error?.code
+      },
       matchId: req.params.matchId,
       playerId: req.body?.playerId,
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to attack' });
+    
+    // Return more specific error message
+    const errorMessage = error?.message || 'Failed to concede match';
+    res.status(500).json({ 
+      error: errorMessage,
+      details: process.env.NODE_ENV === 'development' ? error?.stack : undefined
+    });
   }
 });
 
 /**
- * Move a unit between locations
- * POST /matches/:matchId/actions/move
- * Body: { playerId, creatureInstanceId, destinationId }
+ * Get match history (moves only - for replay)
+ * GET /matches/:matchId/history
+ */
+/**
+ * Replay deep link. Returns ordered per-move frames from the persistent
+ * replay-frame store so a user who opens /replays/<matchId> after a server
+ * restart still sees the same battlefield state progression they would have
+ * seen live. Falls through to the legacy MATCH_TABLE.Frames list for matches
+ * that predate the persistent store.
+ *
+ * Shape matches the matchFrames GraphQL query plus the matchId echo and
+ * frameCount so thin clients can read it without a second request.
  */
-matchRouter.post('/matches/:matchId/actions/move', async (req: Request, res: Response): Promise<void> => {
+matchRouter.get('/replays/:matchId', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const { playerId, creatureInstanceId, destinationId } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
+  const { matchId } = req.params;
+  if (!matchId) {
+    res.status(400).json({ error: 'matchId is required' });
+    return;
+  }
+  const rawOffset = Number(req.query.offset ?? 0);
+  const rawLimit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+  const offset = Number.isFinite(rawOffset) ? Math.max(0, Math.floor(rawOffset)) : 0;
+  const limit =
+    typeof rawLimit === 'number' && Number.isFinite(rawLimit) && rawLimit > 0
+      ? Math.min(Math.floor(rawLimit), 1000)
+      : undefined;
 
-    if (!engine.canPlayerAct(playerId)) {
-      res.status(403).json({ error: 'Not your turn' });
+  try {
+    const persistedCount = readPersistedReplayFrameCount(matchId);
+    if (persistedCount > 0) {
+      const frames = readPersistedReplayFrames(matchId, offset, limit);
+      res.json({
+        matchId,
+        source: 'persistent',
+        frameCount: persistedCount,
+        offset,
+        limit: limit ?? null,
+        frames
+      });
       return;
     }
-
-    const playerState = engine.getPlayerState(playerId);
-    const unitBefore = playerState.board.creatures.find((card) => card.instanceId === creatureInstanceId);
-    const locationBefore = unitBefore ? summarizeLocation(unitBefore.location) : null;
-    const tappedBefore = unitBefore?.isTapped ?? null;
-
-    engine.moveUnit(playerId, creatureInstanceId, destinationId);
-
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    const updatedUnit = playerState.board.creatures.find((card) => card.instanceId === creatureInstanceId);
-    const unitSummary = summarizeBoardCard(updatedUnit ?? undefined);
-    logger.info('[MATCH] Player moved unit', {
-      matchId,
-      playerId,
-      creatureInstanceId,
-      cardId: unitBefore?.id ?? updatedUnit?.id ?? null,
-      name: unitBefore?.name ?? updatedUnit?.name ?? null,
-      from: locationBefore,
-      to: updatedUnit ? summarizeLocation(updatedUnit.location) : destinationId ?? null,
-      tappedBefore,
-      tappedAfter: updatedUnit?.isTapped ?? null,
-      unit: unitSummary,
-      requestId: context.requestId ?? null
-    });
-
-    res.json({
-      success: true,
-      gameState: spectatorState
-    });
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
+    if (LOCAL_BYPASS) {
+      res.status(404).json({ matchId, error: 'Replay not found' });
+      return;
+    }
+    const record = await dynamodb
+      .query({
+        TableName: MATCH_TABLE,
+        KeyConditionExpression: 'MatchId = :matchId',
+        ExpressionAttributeValues: { ':matchId': matchId },
+        Limit: 1
+      })
+      .promise();
+    const item = record.Items?.[0];
+    const legacy: any[] = Array.isArray(item?.Frames) ? (item!.Frames as any[]) : [];
+    if (legacy.length === 0) {
+      res.status(404).json({ matchId, error: 'Replay not found' });
       return;
     }
-    logger.error('[MOVE] Error:', {
+    const end = limit !== undefined ? offset + limit : legacy.length;
+    res.json({
+      matchId,
+      source: 'dynamodb',
+      frameCount: legacy.length,
+      offset,
+      limit: limit ?? null,
+      frames: legacy.slice(offset, end)
+    });
+  } catch (error) {
+    logger.error('[REPLAYS] Failed to load replay', {
       error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
+      matchId,
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to move unit' });
+    res.status(500).json({ error: 'Failed to fetch replay' });
   }
 });
 
 /**
- * Hide a card with [Hidden] keyword on a controlled battlefield
- * POST /matches/:matchId/actions/hide-card
- * Body: { playerId, cardIndex, battlefieldId }
+ * List matchIds that have persisted frames available on disk. Primarily for
+ * debugging and for UIs that want to surface recent replays without a full
+ * DynamoDB scan. Not paged - the persistent store caps itself at practical
+ * sizes via the bot-match TTL pruning path.
  */
-matchRouter.post('/matches/:matchId/actions/hide-card', async (req: Request, res: Response): Promise<void> => {
+matchRouter.get('/replays', (_req: Request, res: Response): void => {
+  const matches = listPersistedReplayMatches();
+  res.json({ count: matches.length, matches });
+});
+
+matchRouter.get('/matches/:matchId/history', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
   const operation = context.operation ?? getOperationLabel(req);
   try {
     const { matchId } = req.params;
-    const { playerId, cardIndex, battlefieldId } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    if (!engine.canPlayerAct(playerId)) {
-      res.status(403).json({ error: 'Not your turn' });
-      return;
-    }
-
-    const playerState = engine.getPlayerState(playerId);
-    const cardToHide = playerState.hand[cardIndex];
-
-    engine.hideCard(playerId, cardIndex, battlefieldId);
-
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    logger.info('[MATCH] Player hid card', {
-      matchId,
-      playerId,
-      cardId: cardToHide?.id ?? null,
-      cardName: cardToHide?.name ?? null,
-      battlefieldId,
-      requestId: context.requestId ?? null
-    });
+    const snapshot = await loadSnapshotOrThrow(matchId, context);
 
     res.json({
-      success: true,
-      gameState: spectatorState
+      matchId,
+      moves: snapshot.moveHistory,
+      turnCount: snapshot.turnNumber,
+      status: snapshot.status
     });
-  } catch (error: any) {
+  } catch (error) {
     if (error instanceof MatchStateUnavailableError) {
       respondWithStateUnavailable(res, error, {
         action: operation,
         matchId: req.params.matchId,
-        playerId: req.body?.playerId,
         requestId: context.requestId
       });
       return;
     }
-    logger.error('[HIDE-CARD] Error:', {
+    if (error instanceof MatchStateConflictError) {
+      respondWithStateConflict(res, error, {
+        action: operation,
+        matchId: req.params.matchId,
+        requestId: context.requestId
+      });
+      return;
+    }
+    logger.error('[HISTORY] Error:', {
       error,
       matchId: req.params.matchId,
-      playerId: req.body?.playerId,
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to hide card' });
+    res.status(500).json({ error: 'Failed to fetch match history' });
   }
 });
 
 /**
- * Activate a hidden card at reaction speed
- * POST /matches/:matchId/actions/activate-hidden
- * Body: { playerId, hiddenInstanceId, targets? }
+ * Re-simulate a match from its command log and diff it against what was stored
+ * GET /matches/:matchId/replay-check
+ * Admin only: the log carries every player's hidden choices and the RNG seed.
  */
-matchRouter.post('/matches/:matchId/actions/activate-hidden', async (req: Request, res: Response): Promise<void> => {
+matchRouter.get('/matches/:matchId/replay-check', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
   const operation = context.operation ?? getOperationLabel(req);
+  const callerId = (req as AuthedRequest).userId ?? null;
   try {
+    if (!isAdminUser(callerId, (req as AuthedRequest).authPayload)) {
+      res.status(403).json({ error: 'Only admins can check match replays' });
+      return;
+    }
     const { matchId } = req.params;
-    const { playerId, hiddenInstanceId, targets } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    // Hidden cards can be activated at reaction speed, even when not player's turn
-    // But only if they own the hidden card
-    
-    engine.activateHiddenCard(playerId, hiddenInstanceId, targets);
-
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    logger.info('[MATCH] Player activated hidden card', {
-      matchId,
-      playerId,
-      hiddenInstanceId,
-      targets: targets ?? [],
-      requestId: context.requestId ?? null
-    });
-
-    res.json({
-      success: true,
-      gameState: spectatorState
-    });
-  } catch (error: any) {
+    const snapshot = await loadSnapshotOrThrow(matchId, context);
+    const check = checkReplayDivergence(snapshot);
+    if (!check.consistent) {
+      logger.warn('[REPLAY-CHECK] Replay diverges from stored state', {
+        matchId,
+        commands: check.commands,
+        error: check.error,
+        firstPath: check.divergences[0]?.path ?? null,
+        requestId: context.requestId ?? null
+      });
+    }
+    res.json(check);
+  } catch (error) {
     if (error instanceof MatchStateUnavailableError) {
       respondWithStateUnavailable(res, error, {
         action: operation,
         matchId: req.params.matchId,
-        playerId: req.body?.playerId,
         requestId: context.requestId
       });
       return;
     }
-    logger.error('[ACTIVATE-HIDDEN] Error:', {
+    logger.error('[REPLAY-CHECK] Error:', {
       error,
       matchId: req.params.matchId,
-      playerId: req.body?.playerId,
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to activate hidden card' });
+    res.status(500).json({ error: 'Failed to check match replay' });
   }
 });
 
 /**
- * Commence combat on a battlefield
- * POST /matches/:matchId/actions/commence-battle
- * Body: { playerId, battlefieldId }
+ * Start a best-of series and its first game. As with matches, only internal
+ * calls may rate a series, and rated series use the queue's deck format.
+ * POST /series/init
+ * Body: { seriesId, player1, player2, decks, playerProfiles?, mode?, format?, bestOf? }
  */
-matchRouter.post('/matches/:matchId/actions/commence-battle', async (req: Request, res: Response): Promise<void> => {
+matchRouter.post('/series/init', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
   try {
-    const { matchId } = req.params;
-    const { playerId, battlefieldId } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    if (!engine.canPlayerAct(playerId)) {
-      res.status(403).json({ error: 'Not your turn' });
+    const { seriesId, player1, player2, decks, playerProfiles, mode, format, bestOf }: SeriesConfig = req.body;
+    const seriesMode = resolveRatedMode(req, mode);
+    if (!seriesId || !player1 || !player2 || !decks) {
+      res.status(400).json({ error: 'Missing required fields' });
+      return;
+    }
+    if (await loadSeries(seriesId)) {
+      res.status(409).json({ error: 'Series already exists' });
       return;
     }
 
-    engine.commenceBattle(playerId, battlefieldId);
-
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
+    let series: MatchSeries;
+    let engine: RiftboundGameEngine;
+    try {
+      series = createMatchSeries({
+        seriesId,
+        players: [player1, player2],
+        decks,
+        mode: seriesMode,
+        format: seriesMode ? getQueueDeckFormat(seriesMode) : format,
+        bestOf,
+        playerProfiles
+      });
+      engine = await startNextSeriesGame(series, context.requestId);
+    } catch (error) {
+      if (error instanceof MatchSeriesConflictError) {
+        res.status(409).json({ error: 'Series already exists' });
+        return;
+      }
+      logger.error('[SERIES-INIT] Series setup failed', {
+        seriesId,
+        error: serializeError(error),
+        requestId: context.requestId ?? null
+      });
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid series' });
+      return;
+    }
 
-    logger.info('[MATCH] Player commenced battle', {
-      matchId,
-      playerId,
-      battlefieldId,
+    logger.info('[SERIES] Initialized series', {
+      seriesId,
+      bestOf: series.bestOf,
+      matchId: series.currentMatchId,
       requestId: context.requestId ?? null
     });
 
-    res.json({
-      success: true,
-      gameState: spectatorState
+    res.status(201).json({
+      seriesId,
+      matchId: series.currentMatchId,
+      series: serializeSeriesForViewer(series),
+      gameState: serializeGameState(engine.getGameState())
     });
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
-      return;
-    }
-    logger.error('[COMMENCE-BATTLE] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
+  } catch (error) {
+    logger.error('[SERIES-INIT] Error:', {
+      seriesId: req.body?.seriesId ?? null,
+      error: serializeError(error),
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to commence battle' });
+    res.status(500).json({ error: 'Failed to initialize series' });
   }
 });
 
 /**
- * Activate champion legend/leader ability
- * POST /matches/:matchId/actions/activate-legend
- * Body: { playerId, target, destinationId }
+ * Get series standings. Decklists are only included for the caller; admins
+ * (and the local bypass) may view the series as `playerId`.
+ * GET /series/:seriesId?playerId=
  */
-matchRouter.post('/matches/:matchId/actions/activate-legend', async (req: Request, res: Response): Promise<void> => {
+matchRouter.get('/series/:seriesId', async (req: Request, res: Response): Promise<void> => {
   const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
   try {
-    const { matchId } = req.params;
-    const { playerId, target, destinationId } = req.body;
-
-    if (!playerId) {
-      res.status(400).json({ error: 'playerId is required' });
+    const { seriesId } = req.params;
+    const series = await loadSeriesOrThrow(seriesId);
+    const { userId, authPayload } = getCommandCaller(req);
+    const requestedId = typeof req.query.playerId === 'string' ? req.query.playerId : null;
+    const viewerId =
+      requestedId && (allowsUnverifiedIdentity() || isAdminUser(userId ?? null, authPayload))
+        ? requestedId
+        : userId ?? null;
+    res.json(serializeSeriesForViewer(series, viewerId));
+  } catch (error) {
+    if (error instanceof MatchSeriesUnavailableError) {
+      res.status(404).json({ error: error.message });
       return;
     }
+    logger.error('[SERIES-GET] Error:', {
+      seriesId: req.params.seriesId,
+      error: serializeError(error),
+      requestId: context.requestId ?? null
+    });
+    res.status(500).json({ error: 'Failed to fetch series' });
+  }
+});
 
-    const { engine } = await loadEngineState(matchId, context);
-    const normalizedTarget = target === 'leader' ? 'leader' : 'legend';
+/**
+ * Previous game's loser picks who plays first in the next game
+ * POST /series/:seriesId/first-player
+ * Body: { playerId, goFirst }
+ */
+matchRouter.post('/series/:seriesId/first-player', async (req: Request, res: Response): Promise<void> => {
+  await handleSeriesSideboardAction(req, res, 'SERIES-FIRST-PLAYER', (series, playerId) =>
+    chooseSeriesFirstPlayer(series, playerId, req.body?.goFirst !== false)
+  );
+});
 
-    engine.activateChampionAbility(playerId, normalizedTarget, destinationId ?? null);
-    await saveGameState(matchId, engine);
+/**
+ * Submit sideboard swaps for the next game (empty swaps keep the deck)
+ * POST /series/:seriesId/sideboard
+ * Body: { playerId, swapIn?: [{ cardId|slug, quantity }], swapOut?: [...] }
+ */
+matchRouter.post('/series/:seriesId/sideboard', async (req: Request, res: Response): Promise<void> => {
+  await handleSeriesSideboardAction(req, res, 'SERIES-SIDEBOARD', (series, playerId) => {
+    const swap: SideboardSwap = {
+      swapIn: Array.isArray(req.body?.swapIn) ? req.body.swapIn : [],
+      swapOut: Array.isArray(req.body?.swapOut) ? req.body.swapOut : []
+    };
+    submitSeriesSideboard(series, playerId, swap);
+  });
+});
 
-    const spectatorState = serializeGameState(engine.getGameState());
+const handleSeriesSideboardAction = async (
+  req: Request,
+  res: Response,
+  tag: string,
+  apply: (series: MatchSeries, playerId: string) => void
+): Promise<void> => {
+  const context = buildRequestContext(req);
+  const { seriesId } = req.params;
+  const playerId = req.body?.playerId;
+  try {
+    if (!playerId || typeof playerId !== 'string') {
+      res.status(400).json({ error: 'playerId is required' });
+      return;
+    }
+    authorizeMatchCommand({ playerId }, getCommandCaller(req));
+    const { series, result: engine } = await updateSeriesWithConflictRetry(seriesId, context, async (current) => {
+      apply(current, playerId);
+      if (isReadyForNextGame(current)) {
+        return startNextSeriesGame(current, context.requestId);
+      }
+      await writeSeries(current);
+      return null;
+    });
+    if (engine) {
+      publishMatchState(engine.getGameState().matchId, engine);
+    }
+    const gameState = engine ? serializeGameState(engine.getGameState()) : null;
 
-    logger.info('[MATCH] Champion ability activated', {
-      matchId,
+    logger.info(`[${tag}] Series updated`, {
+      seriesId,
       playerId,
-      target: normalizedTarget,
+      status: series.status,
+      matchId: series.currentMatchId,
       requestId: context.requestId ?? null
     });
 
     res.json({
       success: true,
-      gameState: spectatorState,
-      currentPhase: spectatorState.currentPhase
+      matchId: series.currentMatchId,
+      series: serializeSeriesForViewer(series, playerId),
+      gameState
     });
   } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
+    if (error instanceof MatchSeriesUnavailableError) {
+      res.status(404).json({ error: error.message });
       return;
     }
-    logger.error('[ACTIVATE-LEGEND] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
-      requestId: context.requestId ?? null
-    });
-    res.status(400).json({ error: error.message || 'Failed to activate champion ability' });
-  }
-});
-
-/**
- * Pass priority in the current window
- * POST /matches/:matchId/actions/pass-priority
- * Body: { playerId }
- */
-matchRouter.post('/matches/:matchId/actions/pass-priority', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const { playerId } = req.body;
-
-    if (!playerId) {
-      res.status(400).json({ error: 'playerId is required' });
+    if (error instanceof MatchCommandError) {
+      res.status(error.statusCode).json({ error: error.message });
       return;
     }
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    engine.passPriority(playerId);
-
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    logger.info('[MATCH] Player passed priority', {
-      matchId,
-      playerId,
-      requestId: context.requestId ?? null
-    });
-
-    res.json({
-      success: true,
-      gameState: spectatorState,
-      currentPhase: spectatorState.currentPhase
-    });
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
+    if (error instanceof MatchSeriesConflictError) {
+      res.status(409).json({ error: error.message });
       return;
     }
-    logger.error('[PASS-PRIORITY] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
+    logger.error(`[${tag}] Error:`, {
+      seriesId,
+      playerId: playerId ?? null,
+      error: serializeError(error),
       requestId: context.requestId ?? null
     });
-    res.status(400).json({ error: error.message || 'Failed to pass priority' });
+    res.status(400).json({ error: error?.message || 'Failed to update series' });
   }
-});
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
 
 /**
- * Respond to a spell reaction prompt (pass or react)
- * POST /matches/:matchId/actions/respond-to-spell-reaction
- * Body: { playerId, pass }
+ * The command log grows with every command, so it is stored beside the
+ * snapshot as gzipped JSON instead of inside the GameState map. A log that
+ * would still crowd the 400 KB item limit is dropped rather than failing
+ * the save; the match plays on without take-backs or replay checks.
  */
-matchRouter.post('/matches/:matchId/actions/respond-to-spell-reaction', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const { playerId, pass } = req.body;
-
-    if (!playerId) {
-      res.status(400).json({ error: 'playerId is required' });
-      return;
-    }
+export const MAX_STORED_COMMAND_LOG_BYTES = 256 * 1024;
 
-    if (typeof pass !== 'boolean') {
-      res.status(400).json({ error: 'pass (boolean) is required' });
-      return;
-    }
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    engine.respondToSpellReaction(playerId, pass);
-
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    logger.info('[MATCH] Player responded to spell reaction', {
+const packCommandLog = (matchId: string, log: MatchCommandLog | undefined): Buffer | null => {
+  if (!log) {
+    return null;
+  }
+  const packed = gzipSync(JSON.stringify(log));
+  if (packed.length > MAX_STORED_COMMAND_LOG_BYTES) {
+    logger.error('[STATE-SAVE] Command log too large to store; dropping it', {
       matchId,
-      playerId,
-      pass,
-      requestId: context.requestId ?? null
-    });
-
-    res.json({
-      success: true,
-      gameState: spectatorState,
-      currentPhase: spectatorState.currentPhase
+      commands: log.commands.length,
+      bytes: packed.length
     });
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
-      return;
-    }
-    logger.error('[RESPOND-TO-SPELL-REACTION] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
-      requestId: context.requestId ?? null
-    });
-    res.status(400).json({ error: error.message || 'Failed to respond to spell reaction' });
+    return null;
   }
-});
+  return packed;
+};
+
+const unpackCommandLog = (body: unknown): MatchCommandLog =>
+  JSON.parse(
+    gunzipSync(Buffer.isBuffer(body) ? body : Buffer.from(body as Uint8Array)).toString('utf8')
+  ) as MatchCommandLog;
 
 /**
- * Respond to a chain reaction prompt (pass or play a reaction)
- * POST /matches/:matchId/actions/respond-to-chain-reaction
- * Body: { playerId, pass }
+ * Write a snapshot on top of the version it was loaded at. Bumps
+ * `gameState.version` on success; throws MatchStateConflictError when the
+ * stored version has moved on. Snapshots from before versioning count as 0.
  */
-matchRouter.post('/matches/:matchId/actions/respond-to-chain-reaction', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const { playerId, pass } = req.body;
-
-    if (!playerId) {
-      res.status(400).json({ error: 'playerId is required' });
-      return;
-    }
-
-    if (typeof pass !== 'boolean') {
-      res.status(400).json({ error: 'pass (boolean) is required' });
-      return;
-    }
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    engine.respondToChainReaction(playerId, pass);
-
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    logger.info('[MATCH] Player responded to chain reaction', {
-      matchId,
-      playerId,
-      pass,
-      chainLength: spectatorState.reactionChain?.items?.length ?? 0,
-      requestId: context.requestId ?? null
-    });
-
-    res.json({
-      success: true,
-      gameState: spectatorState,
-      currentPhase: spectatorState.currentPhase
-    });
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
-      return;
+const writeSnapshot = async (matchId: string, gameState: GameState): Promise<void> => {
+  const expectedVersion = gameState.version ?? 0;
+  const nextVersion = expectedVersion + 1;
+  if (LOCAL_BYPASS) {
+    const stored = LOCAL_STATE_STORE.get(matchId);
+    if (stored && (stored.version ?? 0) !== expectedVersion) {
+      throw new MatchStateConflictError(matchId, expectedVersion);
     }
-    logger.error('[RESPOND-TO-CHAIN-REACTION] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
-      requestId: context.requestId ?? null
-    });
-    res.status(400).json({ error: error.message || 'Failed to respond to chain reaction' });
+    gameState.version = nextVersion;
+    LOCAL_STATE_STORE.set(matchId, gameState);
+    return;
   }
-});
-
-/**
- * End current phase and proceed to next
- * POST /matches/:matchId/actions/next-phase
- * Body: { playerId }
- */
-matchRouter.post('/matches/:matchId/actions/next-phase', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
+  const { commandLog, ...snapshot } = gameState;
+  const packedLog = packCommandLog(matchId, commandLog);
   try {
-    const { matchId } = req.params;
-    const { playerId } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    if (!engine.canPlayerAct(playerId)) {
-      res.status(403).json({ error: 'Not your turn' });
-      return;
-    }
-
-    engine.proceedToNextPhase();
-
-    await saveGameState(matchId, engine);
-
-    const spectatorState = serializeGameState(engine.getGameState());
-
-    logger.info(`[MATCH] Player ${playerId} advanced phase in match ${matchId}`, {
-      matchId,
-      playerId,
-      requestId: context.requestId ?? null
-    });
-
-    res.json({
-      success: true,
-      currentPhase: spectatorState.currentPhase,
-      gameState: spectatorState
-    });
+    await dynamodb
+      .put({
+        TableName: STATE_TABLE,
+        Item: {
+          MatchId: matchId,
+          GameState: { ...snapshot, version: nextVersion },
+          ...(packedLog ? { CommandLog: packedLog } : {}),
+          Version: nextVersion,
+          Timestamp: Date.now(),
+          Status: gameState.status,
+          TurnNumber: gameState.turnNumber,
+          CurrentPhase: gameState.currentPhase
+        },
+        ConditionExpression:
+          expectedVersion === 0
+            ? 'attribute_not_exists(#version) OR #version = :expected'
+            : '#version = :expected',
+        ExpressionAttributeNames: { '#version': 'Version' },
+        ExpressionAttributeValues: { ':expected': expectedVersion }
+      })
+      .promise();
   } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
-      return;
+    if (error?.code === 'ConditionalCheckFailedException') {
+      throw new MatchStateConflictError(matchId, expectedVersion);
     }
-    logger.error('[NEXT-PHASE] Error:', {
-      error,
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
-      requestId: context.requestId ?? null
-    });
-    res.status(400).json({ error: error.message || 'Failed to advance phase' });
+    throw error;
   }
-});
+  gameState.version = nextVersion;
+};
+
+const idempotencyExpiry = (ttlSeconds: number) => Math.floor(Date.now() / 1000) + ttlSeconds;
 
 /**
- * Report match result
- * POST /matches/:matchId/result
- * Body: { winner, reason }
- * This ends the match and the container gracefully shuts down
+ * Claim an idempotency key for a new request. Returns null when the claim
+ * succeeded, otherwise the live record already holding the key.
  */
-matchRouter.post('/matches/:matchId/result', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const { winner, reason } = req.body;
-
-    const { engine } = await loadEngineState(matchId, context);
-
-    if (!winner) {
-      res.status(400).json({ error: 'Winner must be specified' });
-      return;
+const claimIdempotencyKey = async (
+  recordKey: string,
+  fingerprint: string
+): Promise<IdempotencyRecord | null> => {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const claim: IdempotencyRecord = {
+    fingerprint,
+    status: 'pending',
+    expiresAt: idempotencyExpiry(IDEMPOTENCY_PENDING_TTL_SECONDS)
+  };
+  if (LOCAL_BYPASS) {
+    const stored = LOCAL_IDEMPOTENCY_STORE.get(recordKey);
+    if (stored && stored.expiresAt >= nowSeconds) {
+      return stored;
     }
-
-    const rawState = engine.getGameState();
-
-    // Get final game state
-    const fallbackLoser =
-      rawState.players.find((p) => p.playerId !== winner)?.playerId ?? winner;
-    const matchResult = engine.getMatchResult() || {
-      matchId,
-      winner,
-      loser: fallbackLoser,
-      reason: reason || 'victory_points',
-      duration: Date.now() - rawState.timestamp,
-      turns: rawState.turnNumber,
-      moves: rawState.moveHistory
-    };
-
-    const spectatorState = await persistMatchFinalState(
-      matchId,
-      rawState,
-      matchResult,
-      'match_completed'
-    );
-
-    logger.info(`[MATCH-COMPLETE] Match ${matchId} completed. Winner: ${winner}`, {
-      matchId,
-      winner,
-      requestId: context.requestId ?? null
-    });
-
-    res.json({
-      success: true,
-      matchResult,
-      gameState: spectatorState
-    });
-
+    LOCAL_IDEMPOTENCY_STORE.set(recordKey, claim);
+    return null;
+  }
+  try {
+    await dynamodb
+      .put({
+        TableName: STATE_TABLE,
+        Item: {
+          MatchId: recordKey,
+          Idempotency: claim,
+          ExpiresAt: claim.expiresAt
+        },
+        // TTL deletion lags, so an expired record counts as free.
+        ConditionExpression: 'attribute_not_exists(MatchId) OR ExpiresAt < :now',
+        ExpressionAttributeValues: { ':now': nowSeconds }
+      })
+      .promise();
+    return null;
   } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        requestId: context.requestId
-      });
-      return;
+    if (error?.code !== 'ConditionalCheckFailedException') {
+      throw error;
     }
-    logger.error('[RESULT] Error:', {
-      error,
-      matchId: req.params.matchId,
-      requestId: context.requestId ?? null
-    });
-    res.status(500).json({ error: 'Failed to report match result' });
   }
-});
+  const result = await dynamodb
+    .get({
+      TableName: STATE_TABLE,
+      Key: { MatchId: recordKey },
+      ConsistentRead: true
+    })
+    .promise();
+  // Gone between the put and the read: report it as in flight so the client retries.
+  return (result.Item?.Idempotency as IdempotencyRecord) ?? { ...claim };
+};
 
-/**
- * Concede match
- * POST /matches/:matchId/concede
- * Body: { playerId }
- */
-matchRouter.post('/matches/:matchId/concede', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
+const storeIdempotentResponse = async (
+  recordKey: string,
+  fingerprint: string,
+  responseStatus: number,
+  responseBody: unknown
+): Promise<void> => {
+  const record: IdempotencyRecord = {
+    fingerprint,
+    status: 'completed',
+    responseStatus,
+    responseBody,
+    expiresAt: idempotencyExpiry(IDEMPOTENCY_RECORD_TTL_SECONDS)
+  };
+  if (LOCAL_BYPASS) {
+    LOCAL_IDEMPOTENCY_STORE.set(recordKey, JSON.parse(JSON.stringify(record)));
+    return;
+  }
+  const write = (item: IdempotencyRecord) =>
+    dynamodb
+      .put({
+        TableName: STATE_TABLE,
+        Item: { MatchId: recordKey, Idempotency: item, ExpiresAt: item.expiresAt }
+      })
+      .promise();
   try {
-    const { matchId } = req.params;
-    const { playerId } = req.body;
-
-    if (!playerId) {
-      res.status(400).json({ error: 'playerId is required' });
-      return;
+    await write(record);
+  } catch (error: any) {
+    if (error?.code !== 'ValidationException') {
+      throw error;
     }
+    // Body too large for one item: keep the outcome so duplicates are still
+    // suppressed; the replay carries no game state.
+    await write({ ...record, responseBody: null });
+  }
+};
 
-    const { engine } = await loadEngineState(matchId, context);
-    const matchResult = engine.concedeMatch(playerId);
-    await saveGameState(matchId, engine);
+const releaseIdempotencyKey = async (recordKey: string): Promise<void> => {
+  if (LOCAL_BYPASS) {
+    LOCAL_IDEMPOTENCY_STORE.delete(recordKey);
+    return;
+  }
+  await dynamodb
+    .delete({
+      TableName: STATE_TABLE,
+      Key: { MatchId: recordKey }
+    })
+    .promise();
+};
 
-    const rawState = engine.getGameState();
-    const spectatorState = await persistMatchFinalState(
-      matchId,
-      rawState,
-      matchResult,
-      'match_conceded'
-    );
+class MatchSeriesUnavailableError extends Error {
+  constructor(seriesId: string) {
+    super(`Series ${seriesId} is not available`);
+    this.name = 'MatchSeriesUnavailableError';
+  }
+}
 
-    logger.info(`[MATCH-CONCEDE] Match ${matchId} ended. Winner: ${matchResult.winner}`, {
-      matchId,
-      playerId,
-      winner: matchResult.winner,
-      requestId: context.requestId ?? null
-    });
+class MatchSeriesConflictError extends Error {
+  constructor(seriesId: string, expectedVersion: number) {
+    super(`Series ${seriesId} changed since version ${expectedVersion}; reload and retry`);
+    this.name = 'MatchSeriesConflictError';
+  }
+}
 
-    res.json({
-      success: true,
-      matchResult,
-      gameState: spectatorState
-    });
+const loadSeries = async (seriesId: string): Promise<MatchSeries | null> => {
+  if (LOCAL_BYPASS) {
+    const stored = LOCAL_SERIES_STORE.get(seriesId);
+    return stored ? (JSON.parse(JSON.stringify(stored)) as MatchSeries) : null;
+  }
+  const result = await dynamodb
+    .get({
+      TableName: STATE_TABLE,
+      Key: { MatchId: `${SERIES_KEY_PREFIX}${seriesId}` },
+      ConsistentRead: true
+    })
+    .promise();
+  return (result.Item?.Series as MatchSeries) ?? null;
+};
 
-  } catch (error: any) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        playerId: req.body?.playerId,
-        requestId: context.requestId
-      });
-      return;
-    }
-    
-    // Log full error details for debugging
-    logger.error('[CONCEDE] Error:', {
-      error: {
-        message: error?.message,
-        name: error?.name,
-        stack: error?.stack,
-        code: error?.code
-      },
-      matchId: req.params.matchId,
-      playerId: req.body?.playerId,
-      requestId: context.requestId ?? null
-    });
-    
-    // Return more specific error message
-    const errorMessage = error?.message || 'Failed to concede match';
-    res.status(500).json({ 
-      error: errorMessage,
-      details: process.env.NODE_ENV === 'development' ? error?.stack : undefined
-    });
+const loadSeriesOrThrow = async (seriesId: string): Promise<MatchSeries> => {
+  const series = await loadSeries(seriesId);
+  if (!series) {
+    throw new MatchSeriesUnavailableError(seriesId);
   }
-});
+  return series;
+};
 
 /**
- * Get match history (moves only - for replay)
- * GET /matches/:matchId/history
- */
-/**
- * Replay deep link. Returns ordered per-move frames from the persistent
- * replay-frame store so a user who opens /replays/<matchId> after a server
- * restart still sees the same battlefield state progression they would have
- * seen live. Falls through to the legacy MATCH_TABLE.Frames list for matches
- * that predate the persistent store.
- *
- * Shape matches the matchFrames GraphQL query plus the matchId echo and
- * frameCount so thin clients can read it without a second request.
+ * Write a series on top of the version it was loaded at, like
+ * `writeSnapshot` does for match state. Bumps `series.version` on success;
+ * throws MatchSeriesConflictError when another write got there first.
  */
-matchRouter.get('/replays/:matchId', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const { matchId } = req.params;
-  if (!matchId) {
-    res.status(400).json({ error: 'matchId is required' });
+const writeSeries = async (series: MatchSeries): Promise<void> => {
+  const expectedVersion = series.version ?? 0;
+  const nextVersion = expectedVersion + 1;
+  if (LOCAL_BYPASS) {
+    const stored = LOCAL_SERIES_STORE.get(series.seriesId);
+    if (stored && (stored.version ?? 0) !== expectedVersion) {
+      throw new MatchSeriesConflictError(series.seriesId, expectedVersion);
+    }
+    LOCAL_SERIES_STORE.set(series.seriesId, JSON.parse(JSON.stringify({ ...series, version: nextVersion })));
+    series.version = nextVersion;
     return;
   }
-  const rawOffset = Number(req.query.offset ?? 0);
-  const rawLimit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
-  const offset = Number.isFinite(rawOffset) ? Math.max(0, Math.floor(rawOffset)) : 0;
-  const limit =
-    typeof rawLimit === 'number' && Number.isFinite(rawLimit) && rawLimit > 0
-      ? Math.min(Math.floor(rawLimit), 1000)
-      : undefined;
-
   try {
-    const persistedCount = readPersistedReplayFrameCount(matchId);
-    if (persistedCount > 0) {
-      const frames = readPersistedReplayFrames(matchId, offset, limit);
-      res.json({
-        matchId,
-        source: 'persistent',
-        frameCount: persistedCount,
-        offset,
-        limit: limit ?? null,
-        frames
-      });
-      return;
-    }
-    if (LOCAL_BYPASS) {
-      res.status(404).json({ matchId, error: 'Replay not found' });
-      return;
-    }
-    const record = await dynamodb
-      .query({
-        TableName: MATCH_TABLE,
-        KeyConditionExpression: 'MatchId = :matchId',
-        ExpressionAttributeValues: { ':matchId': matchId },
-        Limit: 1
+    await dynamodb
+      .put({
+        TableName: STATE_TABLE,
+        Item: {
+          MatchId: `${SERIES_KEY_PREFIX}${series.seriesId}`,
+          Series: { ...series, version: nextVersion },
+          Version: nextVersion,
+          Timestamp: Date.now(),
+          Status: series.status
+        },
+        ConditionExpression:
+          expectedVersion === 0
+            ? 'attribute_not_exists(#version) OR #version = :expected'
+            : '#version = :expected',
+        ExpressionAttributeNames: { '#version': 'Version' },
+        ExpressionAttributeValues: { ':expected': expectedVersion }
       })
       .promise();
-    const item = record.Items?.[0];
-    const legacy: any[] = Array.isArray(item?.Frames) ? (item!.Frames as any[]) : [];
-    if (legacy.length === 0) {
-      res.status(404).json({ matchId, error: 'Replay not found' });
-      return;
+  } catch (error: any) {
+    if (error?.code === 'ConditionalCheckFailedException') {
+      throw new MatchSeriesConflictError(series.seriesId, expectedVersion);
     }
-    const end = limit !== undefined ? offset + limit : legacy.length;
-    res.json({
-      matchId,
-      source: 'dynamodb',
-      frameCount: legacy.length,
-      offset,
-      limit: limit ?? null,
-      frames: legacy.slice(offset, end)
-    });
-  } catch (error) {
-    logger.error('[REPLAYS] Failed to load replay', {
-      error,
-      matchId,
-      requestId: context.requestId ?? null
-    });
-    res.status(500).json({ error: 'Failed to fetch replay' });
+    throw error;
   }
-});
+  series.version = nextVersion;
+};
 
 /**
- * List matchIds that have persisted frames available on disk. Primarily for
- * debugging and for UIs that want to surface recent replays without a full
- * DynamoDB scan. Not paged - the persistent store caps itself at practical
- * sizes via the bot-match TTL pruning path.
+ * Load the series and run `update` on it; `update` makes its own writes.
+ * When one of them loses a race the series is reloaded and `update` runs
+ * again on the fresh copy.
  */
-matchRouter.get('/replays', (_req: Request, res: Response): void => {
-  const matches = listPersistedReplayMatches();
-  res.json({ count: matches.length, matches });
-});
+const updateSeriesWithConflictRetry = async <T>(
+  seriesId: string,
+  context: RequestContextMeta,
+  update: (series: MatchSeries) => Promise<T>
+): Promise<{ series: MatchSeries; result: T }> => {
+  for (let attempt = 1; ; attempt++) {
+    const series = await loadSeriesOrThrow(seriesId);
+    try {
+      return { series, result: await update(series) };
+    } catch (error) {
+      if (!(error instanceof MatchSeriesConflictError) || attempt >= MAX_CONFLICT_RETRIES) {
+        throw error;
+      }
+      logger.warn('[SERIES-SAVE] Version conflict, retrying update', {
+        seriesId,
+        attempt,
+        requestId: context.requestId ?? null,
+        operation: context.operation ?? null
+      });
+    }
+  }
+};
 
-matchRouter.get('/matches/:matchId/history', async (req: Request, res: Response): Promise<void> => {
-  const context = buildRequestContext(req);
-  const operation = context.operation ?? getOperationLabel(req);
-  try {
-    const { matchId } = req.params;
-    const snapshot = await loadSnapshotOrThrow(matchId, context);
+/**
+ * Reserve the series' next game, build its engine and persist both. The
+ * series write claims the game, so of two callers racing to start it only
+ * one gets to create the match.
+ */
+const startNextSeriesGame = async (
+  series: MatchSeries,
+  requestId?: string
+): Promise<RiftboundGameEngine> => {
+  const setup = beginNextSeriesGame(series);
+  const engine = createInitializedEngine(
+    {
+      matchId: setup.matchId,
+      player1: series.players[0],
+      player2: series.players[1],
+      decks: setup.decks,
+      playerProfiles: series.playerProfiles,
+      matchMode: series.mode,
+      seriesId: series.seriesId,
+      firstPlayerId: setup.firstPlayerId,
+      clock: resolveMatchClock(),
+      format: series.format
+    },
+    requestId
+  );
+  await writeSeries(series);
+  await saveGameState(setup.matchId, engine);
+  return engine;
+};
 
-    res.json({
+const recordSeriesOutcome = async (
+  matchId: string,
+  rawState: GameState,
+  matchResult: MatchResult
+) => {
+  const seriesId = rawState.seriesId;
+  if (!seriesId) {
+    return;
+  }
+  try {
+    const { series, result: recorded } = await updateSeriesWithConflictRetry(seriesId, {}, async (current) => {
+      if (!recordSeriesGameResult(current, matchId, matchResult)) {
+        return false;
+      }
+      await writeSeries(current);
+      return true;
+    });
+    if (!recorded) {
+      return;
+    }
+    logger.info('[SERIES] Recorded game result', {
+      seriesId,
       matchId,
-      moves: snapshot.moveHistory,
-      turnCount: snapshot.turnNumber,
-      status: snapshot.status
+      winner: matchResult.winner,
+      wins: series.wins,
+      status: series.status
     });
   } catch (error) {
-    if (error instanceof MatchStateUnavailableError) {
-      respondWithStateUnavailable(res, error, {
-        action: operation,
-        matchId: req.params.matchId,
-        requestId: context.requestId
-      });
+    if (error instanceof MatchSeriesUnavailableError) {
       return;
     }
-    logger.error('[HISTORY] Error:', {
+    logger.error('[SERIES] Failed to record game result', {
       error,
-      matchId: req.params.matchId,
-      requestId: context.requestId ?? null
+      seriesId,
+      matchId
     });
-    res.status(500).json({ error: 'Failed to fetch match history' });
-  }
-});
-
-// ============================================================================
-// HELPERS
-// ============================================================================
-
-const writeSnapshot = async (matchId: string, gameState: GameState): Promise<void> => {
-  if (LOCAL_BYPASS) {
-    LOCAL_STATE_STORE.set(matchId, gameState);
-    return;
   }
-  await dynamodb
-    .put({
-      TableName: STATE_TABLE,
-      Item: {
-        MatchId: matchId,
-        GameState: gameState,
-        Timestamp: Date.now(),
-        Status: gameState.status,
-        TurnNumber: gameState.turnNumber,
-        CurrentPhase: gameState.currentPhase
-      }
-    })
-    .promise();
 };
 
 /**
  * Save game state snapshot to DynamoDB for persistence
  */
 async function saveGameState(matchId: string, engine: RiftboundGameEngine): Promise<void> {
+  const liveState = engine.getGameState();
   try {
-    const gameState = JSON.parse(JSON.stringify(engine.getGameState())) as GameState;
-    if (gameState.status === GameStatus.WINNER_DETERMINED) {
+    engine.syncClock();
+    const gameState = JSON.parse(JSON.stringify(liveState)) as GameState;
+    // Claim the write before any side effects so a losing racer never
+    // records a match outcome.
+    await writeSnapshot(matchId, gameState);
+    liveState.version = gameState.version;
+    if (gameState.status === GameStatus.WINNER_DETERMINED && !gameState.outcomePersisted) {
       const matchResult = engine.getMatchResult();
       if (matchResult) {
         try {
@@ -2372,10 +3098,22 @@ async function saveGameState(matchId: string, engine: RiftboundGameEngine): Prom
             matchId
           });
         }
+        if (gameState.outcomePersisted) {
+          await writeSnapshot(matchId, gameState);
+          liveState.version = gameState.version;
+          liveState.outcomePersisted = true;
+        }
       }
     }
-    await writeSnapshot(matchId, gameState);
+    scheduleClockCheck(matchId, engine);
   } catch (error) {
+    if (error instanceof MatchStateConflictError) {
+      logger.warn('[STATE-SAVE] Stale write rejected', {
+        matchId,
+        version: liveState.version ?? 0
+      });
+      throw error;
+    }
     logger.error('[STATE-SAVE] Failed to save game state:', {
       error,
       matchId,
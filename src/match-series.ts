@@ -0,0 +1,515 @@
+/**
+ * Best-of-N match series (Bo3 by default) layered above single games.
+ *
+ * A series owns both players' decklists for its whole lifetime. Each game is
+ * an ordinary match created through the same engine path as `/matches/init`;
+ * when a game ends, `persistMatchFinalState` reports the result here. Between
+ * games the series opens a sideboarding window:
+ *   - the previous game's loser chooses whether to go first or second,
+ *   - each player submits main/side swaps (an empty submission keeps the
+ *     current configuration).
+ * The next game starts once both are in. Sideboarding only ever swaps cards
+ * one-for-one between the main deck and the side deck, so deck size is
+ * preserved, and every submission is re-checked against the copy and side
+ * deck limits of the series' deck format (src/config/deck-formats.json).
+ *
+ * This module is pure state manipulation; persistence and HTTP live in
+ * match-routes.ts.
+ */
+import type { DeckCardEntry, MatchMode, MatchResult, PlayerDeckConfig } from './game-engine';
+import { DeckFormat, copyLimitForCardRef, resolveDeckFormat } from './deck-validation';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DEFAULT_SERIES_BEST_OF = 3;
+export const MAX_SERIES_BEST_OF = 7;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SeriesStatus = 'in_game' | 'sideboarding' | 'completed';
+
+export interface SeriesCardCount {
+  cardId?: string;
+  slug?: string;
+  quantity: number;
+}
+
+export interface SeriesPlayerDeck {
+  /** Rune deck, battlefields and champions, passed through unchanged. */
+  base: Omit<PlayerDeckConfig, 'mainDeck' | 'cards' | 'sideDeck'>;
+  mainDeck: SeriesCardCount[];
+  sideDeck: SeriesCardCount[];
+}
+
+export interface SeriesGameRecord {
+  gameNumber: number;
+  matchId: string;
+  firstPlayerId: string | null;
+  winner: string | null;
+  loser: string | null;
+  reason: MatchResult['reason'] | null;
+  completedAt: number | null;
+}
+
+export interface SideboardWindow {
+  /** Loser of the previous game; only they may pick who goes first. */
+  chooserId: string;
+  firstPlayerId: string | null;
+  ready: Record<string, boolean>;
+}
+
+export interface MatchSeries {
+  seriesId: string;
+  bestOf: number;
+  players: string[];
+  playerProfiles?: Record<string, { username?: string | null }>;
+  mode: MatchMode | null;
+  /** Deck format id; every game and sideboard is checked against it. */
+  format: string;
+  status: SeriesStatus;
+  wins: Record<string, number>;
+  games: SeriesGameRecord[];
+  currentMatchId: string | null;
+  decks: Record<string, SeriesPlayerDeck>;
+  sideboarding: SideboardWindow | null;
+  winner: string | null;
+  createdAt: number;
+  updatedAt: number;
+  /** Bumped on every stored write; writes made on top of an older one fail. */
+  version?: number;
+}
+
+export interface SideboardSwap {
+  /** Side-deck cards moving into the main deck. */
+  swapIn?: SeriesCardCount[];
+  /** Main-deck cards moving out to the side deck. */
+  swapOut?: SeriesCardCount[];
+}
+
+export interface SeriesGameSetup {
+  matchId: string;
+  gameNumber: number;
+  firstPlayerId: string | null;
+  decks: Record<string, PlayerDeckConfig>;
+}
+
+// ============================================================================
+// DECK HELPERS
+// ============================================================================
+
+const cardKey = (entry: { cardId?: string; slug?: string }): string =>
+  (entry.cardId || entry.slug || '').toLowerCase();
+
+const toCardCount = (entry: DeckCardEntry): SeriesCardCount | null => {
+  if (typeof entry === 'string') {
+    const trimmed = entry.trim();
+    return trimmed ? { cardId: trimmed, quantity: 1 } : null;
+  }
+  if (!entry || typeof entry !== 'object') {
+    return null;
+  }
+  const reference = entry as { id?: string; cardId?: string; slug?: string; quantity?: number };
+  const cardId = reference.cardId ?? reference.id;
+  const slug = reference.slug;
+  if (!cardId && !slug) {
+    return null;
+  }
+  const quantity = Math.max(1, Math.floor(Number(reference.quantity ?? 1)) || 1);
+  return { ...(cardId ? { cardId } : {}), ...(slug ? { slug } : {}), quantity };
+};
+
+/** Collapse a deck list into one count per card, preserving first-seen order. */
+export const normalizeCardCounts = (entries?: DeckCardEntry[] | null): SeriesCardCount[] => {
+  const merged = new Map<string, SeriesCardCount>();
+  for (const entry of entries ?? []) {
+    const count = toCardCount(entry);
+    if (!count) continue;
+    const key = cardKey(count);
+    const existing = merged.get(key);
+    if (existing) {
+      existing.quantity += count.quantity;
+    } else {
+      merged.set(key, { ...count });
+    }
+  }
+  return Array.from(merged.values());
+};
+
+const totalCards = (counts: SeriesCardCount[]): number =>
+  counts.reduce((sum, entry) => sum + entry.quantity, 0);
+
+const countsByKey = (counts: SeriesCardCount[]): Map<string, number> => {
+  const map = new Map<string, number>();
+  for (const entry of counts) {
+    const key = cardKey(entry);
+    map.set(key, (map.get(key) ?? 0) + entry.quantity);
+  }
+  return map;
+};
+
+/** The series' deck format as currently in effect; series stored before formats play standard. */
+export const seriesDeckFormat = (series: Pick<MatchSeries, 'format'>): DeckFormat =>
+  resolveDeckFormat(series.format ?? null);
+
+/**
+ * Throw if the deck breaks the format's copy limits (counted across main and
+ * side deck together) or carries an oversized side deck.
+ */
+export const assertSeriesDeckLegal = (playerId: string, deck: SeriesPlayerDeck, format: DeckFormat): void => {
+  const sideCount = totalCards(deck.sideDeck);
+  if (sideCount > format.maxSideDeckSize) {
+    throw new Error(
+      `Side deck for ${playerId} cannot include more than ${format.maxSideDeckSize} cards (currently ${sideCount})`
+    );
+  }
+  const combined = countsByKey([...deck.mainDeck, ...deck.sideDeck]);
+  for (const [key, quantity] of combined) {
+    const limit = copyLimitForCardRef(key, format);
+    if (limit !== null && quantity > limit) {
+      throw new Error(
+        `Deck for ${playerId} includes ${quantity} copies of ${key} (max ${limit} across main and side deck)`
+      );
+    }
+  }
+};
+
+const toSeriesDeck = (config: PlayerDeckConfig | DeckCardEntry[]): SeriesPlayerDeck => {
+  if (Array.isArray(config)) {
+    return { base: {}, mainDeck: normalizeCardCounts(config), sideDeck: [] };
+  }
+  const { mainDeck, cards, sideDeck, ...base } = config;
+  return {
+    base,
+    mainDeck: normalizeCardCounts(mainDeck ?? cards ?? []),
+    sideDeck: normalizeCardCounts(sideDeck ?? [])
+  };
+};
+
+const toEngineDeck = (deck: SeriesPlayerDeck): PlayerDeckConfig => ({
+  ...deck.base,
+  mainDeck: deck.mainDeck.map((entry) => ({ ...entry })),
+  sideDeck: deck.sideDeck.map((entry) => ({ ...entry }))
+});
+
+const moveCards = (
+  from: SeriesCardCount[],
+  to: SeriesCardCount[],
+  moving: SeriesCardCount[],
+  fromLabel: string
+): { from: SeriesCardCount[]; to: SeriesCardCount[] } => {
+  const nextFrom = from.map((entry) => ({ ...entry }));
+  const nextTo = to.map((entry) => ({ ...entry }));
+  for (const request of moving) {
+    const key = cardKey(request);
+    const quantity = Math.floor(Number(request.quantity));
+    if (!key || !Number.isFinite(quantity) || quantity <= 0) {
+      throw new Error('Sideboard swaps require a card and a positive quantity');
+    }
+    const source = nextFrom.find((entry) => cardKey(entry) === key);
+    if (!source || source.quantity < quantity) {
+      throw new Error(`Not enough copies of ${key} in ${fromLabel} to swap ${quantity}`);
+    }
+    source.quantity -= quantity;
+    const target = nextTo.find((entry) => cardKey(entry) === key);
+    if (target) {
+      target.quantity += quantity;
+    } else {
+      const { cardId, slug } = source;
+      nextTo.push({ ...(cardId ? { cardId } : {}), ...(slug ? { slug } : {}), quantity });
+    }
+  }
+  return {
+    from: nextFrom.filter((entry) => entry.quantity > 0),
+    to: nextTo
+  };
+};
+
+/**
+ * Apply one-for-one swaps between main and side deck. Returns a new deck;
+ * throws without touching the input when the swap is not legal.
+ */
+export const applySideboardSwap = (
+  playerId: string,
+  deck: SeriesPlayerDeck,
+  swap: SideboardSwap,
+  format: DeckFormat
+): SeriesPlayerDeck => {
+  const swapIn = swap.swapIn ?? [];
+  const swapOut = swap.swapOut ?? [];
+  const inCount = totalCards(swapIn);
+  const outCount = totalCards(swapOut);
+  if (inCount !== outCount) {
+    throw new Error(
+      `Sideboarding must swap cards one-for-one (in: ${inCount}, out: ${outCount})`
+    );
+  }
+
+  const out = moveCards(deck.mainDeck, deck.sideDeck, swapOut, 'main deck');
+  const into = moveCards(out.to, out.from, swapIn, 'side deck');
+  const next: SeriesPlayerDeck = {
+    base: deck.base,
+    mainDeck: into.to,
+    sideDeck: into.from
+  };
+
+  const mainCounts = countsByKey(next.mainDeck);
+  for (const [key, quantity] of mainCounts) {
+    const limit = copyLimitForCardRef(key, format);
+    if (limit !== null && quantity > limit) {
+      throw new Error(`Main deck cannot include more than ${limit} copies of ${key}`);
+    }
+  }
+  assertSeriesDeckLegal(playerId, next, format);
+  return next;
+};
+
+// ============================================================================
+// SERIES LIFECYCLE
+// ============================================================================
+
+export const seriesGameMatchId = (seriesId: string, gameNumber: number): string =>
+  `${seriesId}-game-${gameNumber}`;
+
+export const winsNeeded = (series: Pick<MatchSeries, 'bestOf'>): number =>
+  Math.floor(series.bestOf / 2) + 1;
+
+export const createMatchSeries = (config: {
+  seriesId: string;
+  players: [string, string];
+  decks: Record<string, PlayerDeckConfig | DeckCardEntry[]>;
+  mode?: MatchMode | null;
+  /** Deck format id; defaults to standard. */
+  format?: string | null;
+  bestOf?: number;
+  playerProfiles?: Record<string, { username?: string | null }>;
+  now?: number;
+}): MatchSeries => {
+  const bestOf = config.bestOf ?? DEFAULT_SERIES_BEST_OF;
+  if (!Number.isInteger(bestOf) || bestOf < 1 || bestOf % 2 === 0 || bestOf > MAX_SERIES_BEST_OF) {
+    throw new Error(`Series length must be an odd number of games up to ${MAX_SERIES_BEST_OF}`);
+  }
+  const [player1, player2] = config.players;
+  if (!player1 || !player2 || player1 === player2) {
+    throw new Error('A series requires two distinct players');
+  }
+
+  const format = resolveDeckFormat(config.format ?? null);
+  const decks: Record<string, SeriesPlayerDeck> = {};
+  for (const playerId of config.players) {
+    const deckConfig = config.decks?.[playerId];
+    if (!deckConfig) {
+      throw new Error(`Missing deck for player ${playerId}`);
+    }
+    decks[playerId] = toSeriesDeck(deckConfig);
+    assertSeriesDeckLegal(playerId, decks[playerId], format);
+  }
+
+  const now = config.now ?? Date.now();
+  return {
+    seriesId: config.seriesId,
+    bestOf,
+    players: [player1, player2],
+    playerProfiles: config.playerProfiles,
+    mode: config.mode ?? null,
+    format: format.id,
+    status: 'in_game',
+    wins: { [player1]: 0, [player2]: 0 },
+    games: [],
+    currentMatchId: null,
+    decks,
+    sideboarding: null,
+    winner: null,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Reserve the next game of the series and return what the engine needs to
+ * create it. Game one has no `firstPlayerId` and runs the normal initiative
+ * duel; later games use the chooser's pick from the sideboarding window.
+ */
+export const beginNextSeriesGame = (series: MatchSeries, now: number = Date.now()): SeriesGameSetup => {
+  if (series.status === 'completed') {
+    throw new Error('Series is already complete');
+  }
+  if (series.currentMatchId) {
+    throw new Error('A series game is already in progress');
+  }
+  if (series.games.length > 0 && !isReadyForNextGame(series)) {
+    throw new Error('Sideboarding is still in progress');
+  }
+
+  const gameNumber = series.games.length + 1;
+  const matchId = seriesGameMatchId(series.seriesId, gameNumber);
+  const firstPlayerId = series.sideboarding?.firstPlayerId ?? null;
+  series.games.push({
+    gameNumber,
+    matchId,
+    firstPlayerId,
+    winner: null,
+    loser: null,
+    reason: null,
+    completedAt: null
+  });
+  series.currentMatchId = matchId;
+  series.status = 'in_game';
+  series.sideboarding = null;
+  series.updatedAt = now;
+
+  const decks: Record<string, PlayerDeckConfig> = {};
+  for (const playerId of series.players) {
+    decks[playerId] = toEngineDeck(series.decks[playerId]);
+  }
+  return { matchId, gameNumber, firstPlayerId, decks };
+};
+
+/**
+ * Record the result of a series game. Returns false when the match is not
+ * the series' current game or was already recorded, so repeated
+ * finalization is harmless.
+ */
+export const recordSeriesGameResult = (
+  series: MatchSeries,
+  matchId: string,
+  result: Pick<MatchResult, 'winner' | 'loser' | 'reason'>,
+  now: number = Date.now()
+): boolean => {
+  const game = series.games.find((entry) => entry.matchId === matchId);
+  if (!game || game.completedAt !== null || series.currentMatchId !== matchId) {
+    return false;
+  }
+  if (!series.players.includes(result.winner) || !series.players.includes(result.loser)) {
+    throw new Error(`Result for ${matchId} does not match the series players`);
+  }
+
+  game.winner = result.winner;
+  game.loser = result.loser;
+  game.reason = result.reason;
+  game.completedAt = now;
+  series.wins[result.winner] = (series.wins[result.winner] ?? 0) + 1;
+  series.currentMatchId = null;
+  series.updatedAt = now;
+
+  if (series.wins[result.winner] >= winsNeeded(series)) {
+    series.status = 'completed';
+    series.winner = result.winner;
+    series.sideboarding = null;
+    return true;
+  }
+
+  series.status = 'sideboarding';
+  series.sideboarding = {
+    chooserId: result.loser,
+    firstPlayerId: null,
+    ready: Object.fromEntries(series.players.map((playerId) => [playerId, false]))
+  };
+  return true;
+};
+
+const requireSideboardWindow = (series: MatchSeries, playerId: string): SideboardWindow => {
+  if (series.status !== 'sideboarding' || !series.sideboarding) {
+    throw new Error('Series is not between games');
+  }
+  if (!series.players.includes(playerId)) {
+    throw new Error('Player is not part of this series');
+  }
+  return series.sideboarding;
+};
+
+/** The previous game's loser decides whether they play first or second. */
+export const chooseSeriesFirstPlayer = (
+  series: MatchSeries,
+  playerId: string,
+  goFirst: boolean,
+  now: number = Date.now()
+): void => {
+  const window = requireSideboardWindow(series, playerId);
+  if (window.chooserId !== playerId) {
+    throw new Error('Only the loser of the previous game chooses who goes first');
+  }
+  window.firstPlayerId = goFirst
+    ? playerId
+    : series.players.find((candidate) => candidate !== playerId) ?? null;
+  series.updatedAt = now;
+};
+
+/** Apply a player's swaps (possibly none) and mark them ready. */
+export const submitSeriesSideboard = (
+  series: MatchSeries,
+  playerId: string,
+  swap: SideboardSwap,
+  now: number = Date.now()
+): void => {
+  const window = requireSideboardWindow(series, playerId);
+  if (window.ready[playerId]) {
+    throw new Error('Sideboard already submitted for this game');
+  }
+  series.decks[playerId] = applySideboardSwap(playerId, series.decks[playerId], swap, seriesDeckFormat(series));
+  window.ready[playerId] = true;
+  series.updatedAt = now;
+};
+
+export const isReadyForNextGame = (series: MatchSeries): boolean => {
+  const window = series.sideboarding;
+  if (series.status !== 'sideboarding' || !window) {
+    return false;
+  }
+  return Boolean(window.firstPlayerId) && series.players.every((playerId) => window.ready[playerId]);
+};
+
+/**
+ * Client-facing copy of the series. Decklists are private: a viewer only
+ * sees their own main/side deck; the opponent's is reduced to card totals.
+ */
+export const serializeSeriesForViewer = (series: MatchSeries, viewerId?: string | null) => ({
+  seriesId: series.seriesId,
+  bestOf: series.bestOf,
+  players: series.players,
+  mode: series.mode,
+  format: series.format ?? 'standard',
+  status: series.status,
+  wins: series.wins,
+  winsNeeded: winsNeeded(series),
+  games: series.games.map((game) => ({ ...game })),
+  currentMatchId: series.currentMatchId,
+  sideboarding: series.sideboarding
+    ? {
+        chooserId: series.sideboarding.chooserId,
+        firstPlayerId: series.sideboarding.firstPlayerId,
+        ready: { ...series.sideboarding.ready }
+      }
+    : null,
+  winner: series.winner,
+  decks: Object.fromEntries(
+    series.players.map((playerId) => {
+      const deck = series.decks[playerId];
+      if (viewerId && viewerId === playerId) {
+        return [
+          playerId,
+          {
+            mainDeck: deck.mainDeck.map((entry) => ({ ...entry })),
+            sideDeck: deck.sideDeck.map((entry) => ({ ...entry })),
+            mainDeckCount: totalCards(deck.mainDeck),
+            sideDeckCount: totalCards(deck.sideDeck)
+          }
+        ];
+      }
+      return [
+        playerId,
+        {
+          mainDeck: null,
+          sideDeck: null,
+          mainDeckCount: totalCards(deck.mainDeck),
+          sideDeckCount: totalCards(deck.sideDeck)
+        }
+      ];
+    })
+  ),
+  createdAt: series.createdAt,
+  updatedAt: series.updatedAt
+});
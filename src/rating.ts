@@ -0,0 +1,489 @@
+/**
+ * Glicko-2 player ratings, kept per matchmaking mode on the users table.
+ *
+ * Each user item carries one map attribute per mode (`RankedRating`,
+ * `FreeRating`) holding rating, rating deviation (RD), volatility and the
+ * id of the last match applied to it. A finished match updates both
+ * participants in a single `transactWrite`, conditioned on the games-played
+ * counters read beforehand, so concurrent finalizations of the same player
+ * can never interleave and a replayed finalization of the same match is a
+ * no-op.
+ *
+ * The ladder lives in its own table: one item per rated player and mode,
+ * written in the same transaction, whose `LadderScoreIndex` lists a mode's
+ * players best first so the leaderboard is read in order instead of sorted
+ * from a scan.
+ *
+ * Reference: Mark Glickman, "Example of the Glicko-2 system" (2013). Each
+ * match is treated as its own rating period; inactivity widens RD via
+ * {@link RATING_PERIOD_MS}.
+ */
+import AWS from 'aws-sdk';
+import logger from './logger';
+import { TABLE_NAMES } from './config/tableNames';
+import type { MatchMode } from './game-engine';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_RATING_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+/** Players below this many rated games are shown as provisional. */
+export const PROVISIONAL_GAMES = 10;
+/** Idle time that counts as one empty rating period for RD growth. */
+export const RATING_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+const GLICKO2_SCALE = 173.7178;
+const SYSTEM_TAU = 0.5;
+const CONVERGENCE_EPSILON = 0.000001;
+const MIN_RATING_DEVIATION = 30;
+const MAX_UPDATE_ATTEMPTS = 3;
+
+const USERS_TABLE = TABLE_NAMES.USERS;
+const LEADERBOARD_TABLE = TABLE_NAMES.LEADERBOARD;
+
+/** Local index on the leaderboard table ordering a mode's players by LadderScore. */
+export const LADDER_SCORE_INDEX = 'LadderScoreIndex';
+/** Lifts every established player's LadderScore above all provisional ones. */
+const ESTABLISHED_LADDER_OFFSET = 100000;
+const BATCH_GET_LIMIT = 100;
+
+const RATING_ATTRIBUTES: Record<MatchMode, string> = {
+  ranked: 'RankedRating',
+  free: 'FreeRating'
+};
+
+const dynamodb = new AWS.DynamoDB.DocumentClient({
+  region: process.env.AWS_REGION || 'us-east-1'
+});
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PlayerRating {
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+  gamesPlayed: number;
+  lastMatchId: string | null;
+  updatedAt: number | null;
+}
+
+export interface RatingOutcome {
+  opponent: PlayerRating;
+  /** 1 for a win, 0.5 for a draw, 0 for a loss. */
+  score: number;
+}
+
+export interface RatedMatch {
+  matchId: string;
+  mode: MatchMode;
+  winnerId: string;
+  loserId: string;
+}
+
+// ============================================================================
+// GLICKO-2
+// ============================================================================
+
+export const createDefaultRating = (): PlayerRating => ({
+  rating: DEFAULT_RATING,
+  ratingDeviation: DEFAULT_RATING_DEVIATION,
+  volatility: DEFAULT_VOLATILITY,
+  gamesPlayed: 0,
+  lastMatchId: null,
+  updatedAt: null
+});
+
+export const isProvisionalRating = (rating: PlayerRating): boolean =>
+  rating.gamesPlayed < PROVISIONAL_GAMES;
+
+const toGlicko2Scale = (rating: PlayerRating) => ({
+  mu: (rating.rating - DEFAULT_RATING) / GLICKO2_SCALE,
+  phi: rating.ratingDeviation / GLICKO2_SCALE
+});
+
+const gFactor = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expectedScore = (mu: number, opponentMu: number, opponentPhi: number) =>
+  1 / (1 + Math.exp(-gFactor(opponentPhi) * (mu - opponentMu)));
+
+/**
+ * Step 5 of the Glicko-2 procedure: solve for the new volatility with the
+ * Illinois variant of regula falsi.
+ */
+const solveVolatility = (phi: number, sigma: number, variance: number, delta: number): number => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denominator = 2 * Math.pow(phi * phi + variance + ex, 2);
+    return (ex * (delta * delta - phi * phi - variance - ex)) / denominator - (x - a) / (SYSTEM_TAU * SYSTEM_TAU);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + variance) {
+    upper = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * SYSTEM_TAU) < 0) {
+      k += 1;
+    }
+    upper = a - k * SYSTEM_TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE_EPSILON) {
+    const candidate = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fCandidate = f(candidate);
+    if (fCandidate * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = candidate;
+    fUpper = fCandidate;
+  }
+  return Math.exp(lower / 2);
+};
+
+/**
+ * Widen RD for the rating periods a player sat out. Glicko-2 treats an idle
+ * period as `phi' = sqrt(phi^2 + sigma^2)`; RD never exceeds the default.
+ */
+export const applyInactivity = (rating: PlayerRating, now: number = Date.now()): PlayerRating => {
+  if (!rating.updatedAt || now <= rating.updatedAt) {
+    return rating;
+  }
+  const idlePeriods = Math.floor((now - rating.updatedAt) / RATING_PERIOD_MS);
+  if (idlePeriods <= 0) {
+    return rating;
+  }
+  const { phi } = toGlicko2Scale(rating);
+  const widened = Math.sqrt(phi * phi + idlePeriods * rating.volatility * rating.volatility);
+  return {
+    ...rating,
+    ratingDeviation: Math.min(DEFAULT_RATING_DEVIATION, widened * GLICKO2_SCALE)
+  };
+};
+
+/**
+ * Run one Glicko-2 rating period for `player` against the supplied outcomes.
+ * Returns a new record; the input is not mutated. An empty outcome list only
+ * widens RD, as the algorithm prescribes for idle periods.
+ */
+export const updateGlicko2Rating = (
+  player: PlayerRating,
+  outcomes: RatingOutcome[]
+): PlayerRating => {
+  const { mu, phi } = toGlicko2Scale(player);
+
+  if (!outcomes.length) {
+    const idlePhi = Math.sqrt(phi * phi + player.volatility * player.volatility);
+    return {
+      ...player,
+      ratingDeviation: Math.min(DEFAULT_RATING_DEVIATION, idlePhi * GLICKO2_SCALE)
+    };
+  }
+
+  let inverseVariance = 0;
+  let improvement = 0;
+  for (const outcome of outcomes) {
+    const opponent = toGlicko2Scale(outcome.opponent);
+    const g = gFactor(opponent.phi);
+    const expected = expectedScore(mu, opponent.mu, opponent.phi);
+    inverseVariance += g * g * expected * (1 - expected);
+    improvement += g * (outcome.score - expected);
+  }
+  const variance = 1 / inverseVariance;
+  const delta = variance * improvement;
+
+  const volatility = solveVolatility(phi, player.volatility, variance, delta);
+  const preRatingPhi = Math.sqrt(phi * phi + volatility * volatility);
+  const nextPhi = 1 / Math.sqrt(1 / (preRatingPhi * preRatingPhi) + 1 / variance);
+  const nextMu = mu + nextPhi * nextPhi * improvement;
+
+  return {
+    ...player,
+    rating: nextMu * GLICKO2_SCALE + DEFAULT_RATING,
+    ratingDeviation: Math.max(MIN_RATING_DEVIATION, nextPhi * GLICKO2_SCALE),
+    volatility,
+    gamesPlayed: player.gamesPlayed + outcomes.length
+  };
+};
+
+/**
+ * Rate a single decisive game. Both sides are updated from the pre-game
+ * ratings so the result does not depend on argument order.
+ */
+export const rateHeadToHead = (
+  winner: PlayerRating,
+  loser: PlayerRating
+): { winner: PlayerRating; loser: PlayerRating } => ({
+  winner: updateGlicko2Rating(winner, [{ opponent: loser, score: 1 }]),
+  loser: updateGlicko2Rating(loser, [{ opponent: winner, score: 0 }])
+});
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+const finiteOr = (value: unknown, fallback: number): number => {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : fallback;
+};
+
+export const ratingAttributeForMode = (mode: MatchMode): string => RATING_ATTRIBUTES[mode];
+
+/** Decode the stored per-mode map, falling back to a fresh default rating. */
+export const parseStoredRating = (raw: any): PlayerRating => {
+  if (!raw || typeof raw !== 'object') {
+    return createDefaultRating();
+  }
+  return {
+    rating: finiteOr(raw.Rating, DEFAULT_RATING),
+    ratingDeviation: finiteOr(raw.RatingDeviation, DEFAULT_RATING_DEVIATION),
+    volatility: finiteOr(raw.Volatility, DEFAULT_VOLATILITY),
+    gamesPlayed: finiteOr(raw.GamesPlayed, 0),
+    lastMatchId: typeof raw.LastMatchId === 'string' ? raw.LastMatchId : null,
+    updatedAt: raw.UpdatedAt == null ? null : finiteOr(raw.UpdatedAt, 0)
+  };
+};
+
+const toStoredRating = (rating: PlayerRating) => ({
+  Rating: rating.rating,
+  RatingDeviation: rating.ratingDeviation,
+  Volatility: rating.volatility,
+  GamesPlayed: rating.gamesPlayed,
+  LastMatchId: rating.lastMatchId,
+  UpdatedAt: rating.updatedAt
+});
+
+const readStoredRating = async (userId: string, mode: MatchMode): Promise<any> => {
+  const attribute = ratingAttributeForMode(mode);
+  const result = await dynamodb
+    .get({
+      TableName: USERS_TABLE,
+      Key: { UserId: userId },
+      ProjectionExpression: '#rating',
+      ExpressionAttributeNames: { '#rating': attribute },
+      ConsistentRead: true
+    })
+    .promise();
+  return result.Item?.[attribute] ?? null;
+};
+
+/**
+ * Current rating for `userId` in `mode`, with RD widened for inactivity.
+ * Unknown users and read failures yield the default rating.
+ */
+export const getPlayerRating = async (userId: string, mode: MatchMode): Promise<PlayerRating> => {
+  try {
+    return applyInactivity(parseStoredRating(await readStoredRating(userId, mode)));
+  } catch (error) {
+    logger.warn('[RATING] Failed to read rating, using default', { userId, mode, error });
+    return createDefaultRating();
+  }
+};
+
+const buildRatingUpdate = (
+  userId: string,
+  attribute: string,
+  previous: any,
+  next: PlayerRating
+): AWS.DynamoDB.DocumentClient.TransactWriteItem => {
+  const hasPrevious = previous && typeof previous === 'object';
+  return {
+    Update: {
+      TableName: USERS_TABLE,
+      Key: { UserId: userId },
+      UpdateExpression: 'SET #rating = :next',
+      ConditionExpression: hasPrevious
+        ? '#rating.GamesPlayed = :previousGames AND #rating.LastMatchId <> :matchId'
+        : 'attribute_not_exists(#rating)',
+      ExpressionAttributeNames: { '#rating': attribute },
+      ExpressionAttributeValues: {
+        ':next': toStoredRating(next),
+        ...(hasPrevious
+          ? {
+              ':previousGames': finiteOr(previous.GamesPlayed, 0),
+              ':matchId': next.lastMatchId
+            }
+          : {})
+      }
+    }
+  };
+};
+
+/**
+ * Leaderboard-table item for `userId` in `mode`. LadderScore follows
+ * {@link compareLadderStanding} up to its wins tie-break.
+ */
+export const buildLadderItem = (userId: string, mode: MatchMode, rating: PlayerRating) => ({
+  Mode: mode,
+  UserId: userId,
+  LadderScore: rating.rating + (isProvisionalRating(rating) ? 0 : ESTABLISHED_LADDER_OFFSET),
+  UpdatedAt: rating.updatedAt
+});
+
+const buildLadderPut = (
+  userId: string,
+  mode: MatchMode,
+  rating: PlayerRating
+): AWS.DynamoDB.DocumentClient.TransactWriteItem => ({
+  Put: {
+    TableName: LEADERBOARD_TABLE,
+    Item: buildLadderItem(userId, mode, rating)
+  }
+});
+
+const isConditionalConflict = (error: any): boolean =>
+  error?.code === 'TransactionCanceledException' ||
+  error?.code === 'ConditionalCheckFailedException';
+
+/**
+ * Apply a decisive match result to both players' ratings for `mode`.
+ *
+ * Returns the updated ratings, or `null` when the match had already been
+ * applied (both records carry its id). Conflicting concurrent writes are
+ * retried from a fresh read; other errors propagate to the caller.
+ */
+export const recordRatedMatchResult = async (
+  match: RatedMatch
+): Promise<{ winner: PlayerRating; loser: PlayerRating } | null> => {
+  const { matchId, mode, winnerId, loserId } = match;
+  if (!winnerId || !loserId || winnerId === loserId) {
+    throw new Error('Rated matches require two distinct players');
+  }
+  const attribute = ratingAttributeForMode(mode);
+
+  for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+    const [storedWinner, storedLoser] = await Promise.all([
+      readStoredRating(winnerId, mode),
+      readStoredRating(loserId, mode)
+    ]);
+    const winner = parseStoredRating(storedWinner);
+    const loser = parseStoredRating(storedLoser);
+    if (winner.lastMatchId === matchId && loser.lastMatchId === matchId) {
+      return null;
+    }
+
+    const now = Date.now();
+    const rated = rateHeadToHead(applyInactivity(winner, now), applyInactivity(loser, now));
+    const stamp = (rating: PlayerRating): PlayerRating => ({
+      ...rating,
+      lastMatchId: matchId,
+      updatedAt: now
+    });
+    const nextWinner = stamp(rated.winner);
+    const nextLoser = stamp(rated.loser);
+
+    try {
+      await dynamodb
+        .transactWrite({
+          TransactItems: [
+            buildRatingUpdate(winnerId, attribute, storedWinner, nextWinner),
+            buildRatingUpdate(loserId, attribute, storedLoser, nextLoser),
+            buildLadderPut(winnerId, mode, nextWinner),
+            buildLadderPut(loserId, mode, nextLoser)
+          ]
+        })
+        .promise();
+      logger.info('[RATING] Applied match result', {
+        matchId,
+        mode,
+        winnerId,
+        loserId,
+        winnerRating: Math.round(nextWinner.rating),
+        loserRating: Math.round(nextLoser.rating)
+      });
+      return { winner: nextWinner, loser: nextLoser };
+    } catch (error) {
+      if (!isConditionalConflict(error) || attempt === MAX_UPDATE_ATTEMPTS) {
+        throw error;
+      }
+      logger.warn('[RATING] Rating update conflicted, retrying', { matchId, mode, attempt });
+    }
+  }
+  return null;
+};
+
+// ============================================================================
+// LEADERBOARD
+// ============================================================================
+
+export interface LadderStanding {
+  rating: PlayerRating;
+  wins: number;
+}
+
+/** Stored rating for `mode` on a raw users-table item, RD widened for inactivity. */
+export const ratingFromUserItem = (item: any, mode: MatchMode): PlayerRating =>
+  applyInactivity(parseStoredRating(item?.[ratingAttributeForMode(mode)]));
+
+/**
+ * Ladder order: established players before provisional ones, then by rating,
+ * then by total wins so unrated users still rank sensibly among themselves.
+ */
+export const compareLadderStanding = (a: LadderStanding, b: LadderStanding): number => {
+  const provisionalDelta =
+    Number(isProvisionalRating(a.rating)) - Number(isProvisionalRating(b.rating));
+  if (provisionalDelta !== 0) {
+    return provisionalDelta;
+  }
+  if (b.rating.rating !== a.rating.rating) {
+    return b.rating.rating - a.rating.rating;
+  }
+  return b.wins - a.wins;
+};
+
+const batchGetUsers = async (userIds: string[]): Promise<Map<string, any>> => {
+  const users = new Map<string, any>();
+  for (let start = 0; start < userIds.length; start += BATCH_GET_LIMIT) {
+    let request: AWS.DynamoDB.DocumentClient.BatchGetRequestMap | undefined = {
+      [USERS_TABLE]: { Keys: userIds.slice(start, start + BATCH_GET_LIMIT).map((UserId) => ({ UserId })) }
+    };
+    for (let attempt = 1; request && attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      const result: AWS.DynamoDB.DocumentClient.BatchGetItemOutput = await dynamodb
+        .batchGet({ RequestItems: request })
+        .promise();
+      for (const item of result.Responses?.[USERS_TABLE] ?? []) {
+        users.set(item.UserId, item);
+      }
+      const unprocessed = result.UnprocessedKeys?.[USERS_TABLE];
+      request = unprocessed?.Keys?.length ? { [USERS_TABLE]: unprocessed } : undefined;
+    }
+  }
+  return users;
+};
+
+/**
+ * Users-table items of the top `limit` players on `mode`'s ladder, best
+ * first. Only players with a rated game in `mode` are on the ladder.
+ */
+export const fetchLadderUsers = async (mode: MatchMode, limit: number): Promise<any[]> => {
+  const result = await dynamodb
+    .query({
+      TableName: LEADERBOARD_TABLE,
+      IndexName: LADDER_SCORE_INDEX,
+      KeyConditionExpression: '#mode = :mode',
+      ExpressionAttributeNames: { '#mode': 'Mode' },
+      ExpressionAttributeValues: { ':mode': mode },
+      ScanIndexForward: false,
+      Limit: limit
+    })
+    .promise();
+  const userIds = (result.Items || []).map((item) => String(item.UserId));
+  const users = await batchGetUsers(userIds);
+  return userIds
+    .map((userId) => users.get(userId))
+    .filter((user) => user !== undefined)
+    .map((user) => ({ user, standing: { rating: ratingFromUserItem(user, mode), wins: user.Wins || 0 } }))
+    .sort((a, b) => compareLadderStanding(a.standing, b.standing))
+    .map(({ user }) => user);
+};
@@ -0,0 +1,107 @@
+/**
+ * Divergence checker for the match command log.
+ *
+ * Every accepted engine command is appended to `GameState.commandLog`, and
+ * `RiftboundGameEngine.replayCommands` re-simulates a match from that log
+ * and its RNG seed. Re-simulating a stored match and diffing the result
+ * against what was stored shows whether the match can be reproduced; the
+ * first differing paths point at whatever the log failed to capture.
+ */
+import { GameState, RiftboundGameEngine } from './game-engine';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReplayDivergence {
+  /** Dotted path into GameState, e.g. `players[0].hand.length`. */
+  path: string;
+  stored: unknown;
+  replayed: unknown;
+}
+
+export interface ReplayCheck {
+  matchId: string;
+  commands: number;
+  consistent: boolean;
+  /** Set when the log itself could not be replayed. */
+  error: string | null;
+  divergences: ReplayDivergence[];
+}
+
+/** Bookkeeping owned by the store rather than the engine. */
+const IGNORED_PATHS = new Set(['version', 'outcomePersisted']);
+const DEFAULT_DIVERGENCE_LIMIT = 25;
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+/**
+ * Replay `stored.commandLog` in full and diff the result against `stored`.
+ * Reports at most `limit` differing paths.
+ */
+export const checkReplayDivergence = (
+  stored: GameState,
+  limit: number = DEFAULT_DIVERGENCE_LIMIT
+): ReplayCheck => {
+  const log = stored.commandLog;
+  const base = { matchId: stored.matchId, commands: log?.commands.length ?? 0 };
+  if (!log) {
+    return { ...base, consistent: false, error: 'Match has no command log', divergences: [] };
+  }
+
+  let replayed: GameState;
+  try {
+    replayed = RiftboundGameEngine.replayCommands(log).getGameState();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ...base, consistent: false, error: message, divergences: [] };
+  }
+
+  const divergences: ReplayDivergence[] = [];
+  diffValues(toPlain(stored), toPlain(replayed), '', divergences, limit);
+  return { ...base, consistent: divergences.length === 0, error: null, divergences };
+};
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/** Compare as stored: JSON drops undefined fields the live object may carry. */
+const toPlain = (state: GameState): unknown => JSON.parse(JSON.stringify(state));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const diffValues = (
+  stored: unknown,
+  replayed: unknown,
+  path: string,
+  out: ReplayDivergence[],
+  limit: number
+): void => {
+  if (out.length >= limit || IGNORED_PATHS.has(path)) {
+    return;
+  }
+  if (Array.isArray(stored) && Array.isArray(replayed)) {
+    if (stored.length !== replayed.length) {
+      out.push({ path: `${path}.length`, stored: stored.length, replayed: replayed.length });
+    }
+    const shared = Math.min(stored.length, replayed.length);
+    for (let i = 0; i < shared; i++) {
+      diffValues(stored[i], replayed[i], `${path}[${i}]`, out, limit);
+    }
+    return;
+  }
+  if (isRecord(stored) && isRecord(replayed)) {
+    const keys = new Set([...Object.keys(stored), ...Object.keys(replayed)]);
+    for (const key of keys) {
+      diffValues(stored[key], replayed[key], path ? `${path}.${key}` : key, out, limit);
+    }
+    return;
+  }
+  if (stored !== replayed) {
+    out.push({ path: path || '(root)', stored, replayed });
+  }
+};
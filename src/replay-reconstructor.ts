@@ -230,6 +230,7 @@ const enrichFrameWithCatalog = (frame: unknown): void => {
       enrichCardList(p.hand, index);
       enrichCardList(p.graveyard, index);
       enrichCardList(p.exile, index);
+      enrichCardList(p.banishment, index);
       if (p.board && typeof p.board === 'object') {
         enrichCardList(p.board.creatures, index);
         enrichCardList(p.board.artifacts, index);
@@ -0,0 +1,106 @@
+/**
+ * Match rule profiles: the numbers that vary between match formats.
+ *
+ * The engine resolves a profile once, when the match is created, and keeps
+ * it on `GameState.ruleProfile`, so a restored engine keeps playing by the
+ * rules the match started with.
+ *
+ * This module is pure configuration; the engine and `/matches/init` both
+ * validate caller input through `resolveRuleProfile`.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RuleProfile {
+  id: string;
+  name: string;
+  victoryScore: number;
+  initialHandSize: number;
+  minDeckSize: number;
+  runesPerTurn: number;
+  battlefieldCount: number;
+}
+
+export type RuleProfileId = 'standard' | 'quick_play' | 'sandbox';
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+export const RULE_PROFILES: Record<RuleProfileId, RuleProfile> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    victoryScore: 8,
+    initialHandSize: 4,
+    minDeckSize: 40,
+    runesPerTurn: 2,
+    battlefieldCount: 2
+  },
+  // Shorter casual games: fewer points to win, faster ramp.
+  quick_play: {
+    id: 'quick_play',
+    name: 'Quick Play',
+    victoryScore: 5,
+    initialHandSize: 5,
+    minDeckSize: 40,
+    runesPerTurn: 3,
+    battlefieldCount: 2
+  },
+  // Testing formats: any non-empty deck is accepted.
+  sandbox: {
+    id: 'sandbox',
+    name: 'Sandbox',
+    victoryScore: 8,
+    initialHandSize: 4,
+    minDeckSize: 1,
+    runesPerTurn: 2,
+    battlefieldCount: 2
+  }
+};
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Resolve a profile id, or a built-in profile with overrides
+ * (`{ base: 'quick_play', victoryScore: 6 }`), into a full RuleProfile.
+ * Throws on unknown ids and out-of-range numbers.
+ */
+export const resolveRuleProfile = (
+  requested?: RuleProfileId | string | (Partial<RuleProfile> & { base?: string }) | null
+): RuleProfile => {
+  if (requested === undefined || requested === null) {
+    return { ...RULE_PROFILES.standard };
+  }
+  if (typeof requested !== 'string' && (typeof requested !== 'object' || Array.isArray(requested))) {
+    throw new Error('Rule profile must be a profile id or an object');
+  }
+  const baseId = typeof requested === 'string' ? requested : requested.base ?? requested.id ?? 'standard';
+  const base = (RULE_PROFILES as Record<string, RuleProfile | undefined>)[baseId];
+  if (!base) {
+    throw new Error(`Unknown rule profile: ${baseId}`);
+  }
+  if (typeof requested === 'string') {
+    return { ...base };
+  }
+  const { base: _base, ...overrides } = requested;
+  const profile: RuleProfile = { ...base, ...overrides, id: overrides.id ?? base.id, name: overrides.name ?? base.name };
+  const limits: Array<[keyof RuleProfile, number, number]> = [
+    ['victoryScore', 1, 50],
+    ['initialHandSize', 0, 20],
+    ['minDeckSize', 1, 200],
+    ['runesPerTurn', 0, 12],
+    ['battlefieldCount', 1, 2]
+  ];
+  for (const [key, min, max] of limits) {
+    const value = profile[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid rule profile setting: ${key}`);
+    }
+  }
+  return profile;
+};
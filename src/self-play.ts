@@ -60,6 +60,7 @@ type BotAction =
   | { kind: 'deploy_leader'; destinationId: string | null }
   | { kind: 'activate_legend' }
   | { kind: 'hide_card'; cardIndex: number; battlefieldId: string }
+  | { kind: 'activate_hidden'; instanceId: string }
   | { kind: 'move_unit'; creatureInstanceId: string; destinationId: string }
   | { kind: 'commence_battle'; battlefieldId: string }
   | { kind: 'pass_priority' }
@@ -603,298 +604,138 @@ function resolveSpellTargets(
   }
 }
 
-function enumerateLegalActions(engine: RiftboundGameEngine, playerId: string): BotAction[] {
-  const actions: BotAction[] = [];
-  const status = engine.status;
+/**
+ * Expand the engine's legal actions (`getLegalActions`) into concrete bot
+ * moves: one per initiative choice, battlefield option and destination, with
+ * spell targets picked by resolveSpellTargets. Kinds a bot never takes
+ * (conceding, take-backs, manual damage splits) are dropped.
+ */
+function listBotActions(engine: RiftboundGameEngine, playerId: string): BotAction[] {
   const state = engine.getGameState();
   const player = state.players.find((p) => p.playerId === playerId);
-  if (!player) return actions;
-
-  // Setup sub-phases (spec §1.1)
-  if (status === GameStatus.COIN_FLIP) {
-    const prompt = state.prompts.find(
-      (p) => p.type === 'coin_flip' && p.playerId === playerId && !p.resolved
-    );
-    if (prompt) {
-      for (const choice of [0, 1, 2] as const) {
-        actions.push({ kind: 'submit_initiative', choice });
-      }
-    }
-    return actions;
-  }
-  if (status === GameStatus.BATTLEFIELD_SELECTION) {
-    const prompt = state.prompts.find(
-      (p) => p.type === 'battlefield' && p.playerId === playerId && !p.resolved
-    );
-    if (prompt) {
-      const data = prompt.data as { options?: Array<{ id?: string; battlefieldId?: string }> };
-      for (const opt of data?.options ?? []) {
-        const id = opt.id ?? opt.battlefieldId;
-        if (id) actions.push({ kind: 'select_battlefield', battlefieldId: id });
-      }
-    }
-    return actions;
-  }
-  if (status === GameStatus.MULLIGAN) {
-    const prompt = state.prompts.find(
-      (p) => p.type === 'mulligan' && p.playerId === playerId && !p.resolved
-    );
-    if (prompt) {
-      actions.push({ kind: 'mulligan', indices: [] });
-    }
-    return actions;
-  }
-  if (status !== GameStatus.IN_PROGRESS) return actions;
-
-  // Prompt-driven responses
-  const discardPrompt = state.prompts.find(
-    (p) => p.type === 'discard' && p.playerId === playerId && !p.resolved
-  );
-  if (discardPrompt) {
-    const data = discardPrompt.data as { discardCount?: number };
-    const want = Math.max(0, Math.min(player.hand.length, data?.discardCount ?? 1));
-    const ids = player.hand
-      .slice(0, want)
-      .map((c) => (c as any).instanceId || c.id)
-      .filter(Boolean) as string[];
-    actions.push({
-      kind: 'resolve_prompt_discard',
-      promptId: discardPrompt.id,
-      instanceIds: ids
-    });
-    return actions;
-  }
-  const targetPrompt = state.prompts.find(
-    (p) => p.type === 'target' && p.playerId === playerId && !p.resolved
-  );
-  if (targetPrompt) {
-    const data = targetPrompt.data as {
-      candidates?: Array<{ id?: string; targetId?: string }>;
-      minTargets?: number;
-    };
-    const want = Math.max(0, data?.minTargets ?? 1);
-    const ids = (data?.candidates ?? [])
-      .map((c) => c.id ?? c.targetId)
-      .filter(Boolean)
-      .slice(0, want) as string[];
-    actions.push({
-      kind: 'resolve_prompt_target',
-      promptId: targetPrompt.id,
-      selectionIds: ids
-    });
-    return actions;
-  }
-
-  // Reaction / priority windows
-  const rx = engine.needsReaction(playerId);
-  const chain = state.reactionChain;
-  if (rx.required && rx.windowType === 'trigger') {
-    actions.push({ kind: 'respond_chain', pass: true });
-    for (let i = 0; i < player.hand.length; i++) {
-      if (!engine.canPlayCard(playerId, i).ok) continue;
-      const card = player.hand[i];
-      const resolved = resolveSpellTargets(engine, playerId, i, card, player);
-      if (!resolved.ok) continue;
-      actions.push({
-        kind: 'play_card',
-        cardIndex: i,
-        destinationId: null,
-        targets: resolved.targets
-      });
-    }
-    return actions;
-  }
-  if (rx.required && rx.windowType === 'combat') {
-    actions.push({ kind: 'pass_priority' });
-    for (let i = 0; i < player.hand.length; i++) {
-      if (!engine.canPlayCard(playerId, i).ok) continue;
-      const card = player.hand[i];
-      const resolved = resolveSpellTargets(engine, playerId, i, card, player);
-      if (!resolved.ok) continue;
-      actions.push({
-        kind: 'play_card',
-        cardIndex: i,
-        destinationId: null,
-        targets: resolved.targets
-      });
-    }
-    return actions;
-  }
-  if (rx.required && rx.windowType === 'priority') {
-    actions.push({ kind: 'pass_priority' });
-    // fall through to main actions below
-  }
-  if (chain && chain.currentReactorId === playerId && chain.awaitingResponse) {
-    actions.push({ kind: 'respond_chain', pass: true });
-  }
-
-  // Own-turn main actions
-  const current = engine.getCurrentPlayerState();
-  if (current.playerId !== playerId) {
-    return actions; // opponent's turn, no priority window for me
-  }
-  const phase = engine.currentPhase;
+  if (!player) return [];
 
-  // advance_phase is always legal fallback on own turn (engine no-ops if blocked)
-  actions.push({ kind: 'advance_phase' });
-
-  if (phase === GamePhase.MAIN_1 || phase === GamePhase.MAIN_2) {
-    // play_card for each hand card that passes canPlayCard
-    for (let i = 0; i < player.hand.length; i++) {
-      const res = engine.canPlayCard(playerId, i);
-      if (!res.ok) continue;
-      const card = player.hand[i];
-      const type = (card.type ?? '').toLowerCase();
-      if (type === 'spell') {
-        const resolved = resolveSpellTargets(engine, playerId, i, card, player);
-        if (!resolved.ok) continue;
-        actions.push({
-          kind: 'play_card',
-          cardIndex: i,
-          destinationId: null,
-          targets: resolved.targets
-        });
-      } else {
-        // Permanent: emit base deploy + per-battlefield deploy for every
-        // battlefield the engine's resolveDeploymentLocation will accept:
-        //   - battlefields we already control (classic case)
-        //   - open battlefields (controller==null) if the card has
-        //     "canPlayToOpenBattlefield" text OR an ally on board grants
-        //     "friendly units may be played to open battlefields"
-        //   - enemy-occupied battlefields if the card has
-        //     "canPlayToOccupiedEnemyBattlefield" text
-        actions.push({
-          kind: 'play_card',
-          cardIndex: i,
-          destinationId: 'base',
-          targets: []
-        });
-        const perms = engine.getCardDeploymentPermissions(card);
-        const hasAllyGrant = engine.playerHasAllyGrantingOpenBattlefieldDeploy(playerId);
-        for (const bf of state.battlefields) {
-          const bfController = bf.controller;
-          const isOwn = bfController === playerId;
-          const isOpen = bfController == null;
-          const isEnemyOccupied = bfController != null && bfController !== playerId;
-          const canDeployHere =
-            isOwn ||
-            (isOpen && (perms.canPlayToOpenBattlefield || hasAllyGrant)) ||
-            (isEnemyOccupied && perms.canPlayToOccupiedEnemyBattlefield);
-          if (!canDeployHere) continue;
-          actions.push({
-            kind: 'play_card',
-            cardIndex: i,
-            destinationId: bf.battlefieldId,
-            targets: []
-          });
+  const actions: BotAction[] = [];
+  for (const legal of engine.getLegalActions(playerId)) {
+    switch (legal.kind) {
+      case 'submit_initiative':
+        for (const choice of legal.choices) {
+          actions.push({ kind: 'submit_initiative', choice: choice as 0 | 1 | 2 });
         }
-      }
-    }
-
-    // deploy_leader (uses new predicate). Leader deployment goes through the
-    // same resolveDeploymentLocation rules, so we mirror the same destination
-    // set logic: owned battlefields always; open battlefields if the champion
-    // card grants it or an ally grants it to friendlies; enemy-occupied if
-    // the champion itself grants it.
-    const leaderRes = engine.canDeployChampionLeader(playerId);
-    if (leaderRes.ok) {
-      actions.push({ kind: 'deploy_leader', destinationId: 'base' });
-      const championCard: Card | null =
-        (player as any).championLeader ?? null;
-      const leaderPerms = championCard
-        ? engine.getCardDeploymentPermissions(championCard)
-        : {
-            canPlayToOpenBattlefield: false,
-            canPlayToOccupiedEnemyBattlefield: false,
-            grantsOpenBattlefieldPlayToAllies: false
-          };
-      const leaderAllyGrant = engine.playerHasAllyGrantingOpenBattlefieldDeploy(playerId);
-      for (const bf of state.battlefields) {
-        const bfController = bf.controller;
-        const isOwn = bfController === playerId;
-        const isOpen = bfController == null;
-        const isEnemyOccupied = bfController != null && bfController !== playerId;
-        const canDeployHere =
-          isOwn ||
-          (isOpen && (leaderPerms.canPlayToOpenBattlefield || leaderAllyGrant)) ||
-          (isEnemyOccupied && leaderPerms.canPlayToOccupiedEnemyBattlefield);
-        if (canDeployHere) {
-          actions.push({ kind: 'deploy_leader', destinationId: bf.battlefieldId });
+        break;
+      case 'select_battlefield':
+        for (const battlefieldId of legal.options) {
+          actions.push({ kind: 'select_battlefield', battlefieldId });
         }
-      }
-    }
-
-    // activate_legend
-    const legend = player.championLegend;
-    if (legend && (legend as any).canActivate === true) {
-      actions.push({ kind: 'activate_legend' });
-    }
-  }
-
-  // move_unit during MAIN_1 / COMBAT. Skip destinations where the unit
-  // already lives — the engine rejects "move to same location" which would
-  // otherwise make the legality gate disagree with engine behaviour.
-  if (phase === GamePhase.MAIN_1 || phase === GamePhase.COMBAT) {
-    for (const creature of player.board.creatures) {
-      if (creature.isTapped) continue;
-      if ((creature as any).summoned) continue;
-      const curZone = (creature.location as any)?.zone;
-      const curBf = (creature.location as any)?.battlefieldId ?? null;
-      for (const bf of state.battlefields) {
-        if (curZone === 'battlefield' && curBf === bf.battlefieldId) continue;
+        break;
+      case 'mulligan':
+        actions.push({ kind: 'mulligan', indices: [] });
+        break;
+      case 'discard':
         actions.push({
-          kind: 'move_unit',
-          creatureInstanceId: creature.instanceId,
-          destinationId: bf.battlefieldId
+          kind: 'resolve_prompt_discard',
+          promptId: legal.promptId,
+          instanceIds: legal.options.slice(0, legal.min)
         });
-      }
-      if (curZone === 'battlefield') {
+        break;
+      case 'select_targets':
         actions.push({
-          kind: 'move_unit',
-          creatureInstanceId: creature.instanceId,
-          destinationId: 'base'
+          kind: 'resolve_prompt_target',
+          promptId: legal.promptId,
+          selectionIds: pickPromptTargets(state, playerId, legal.promptId, legal.min)
         });
-      }
-    }
-  }
-
-  // commence_battle — legal any time the current player is on own turn with
-  // a unit on the battlefield and they haven't already resolved combat there
-  // this turn. The engine (`commenceBattle`, game-engine.ts:712) doesn't
-  // require a specific phase, only that the player has a friendly unit at
-  // the battlefield and no active combatContext. Historically we only emitted
-  // this in COMBAT, but `proceedToNextPhase` auto-advances MAIN_1 → COMBAT →
-  // MAIN_2 → END in a single call, so the bot NEVER saw a COMBAT-phase tick
-  // to fire on. Emitting during MAIN_1/COMBAT (own turn) fixes the
-  // "games always end in burn_out / never capture" bug.
-  if (phase === GamePhase.MAIN_1 || phase === GamePhase.COMBAT) {
-    const combatInProgress = Boolean((state as any).combatContext);
-    if (!combatInProgress) {
-      const currentTurn = engine.turnNumber;
-      for (const bf of state.battlefields) {
-        // Skip battlefields where this player already resolved combat this
-        // turn — the engine tracks that on `combatTurnByPlayer` and rejects
-        // `commenceBattle` if we ignore it, producing an infinite
-        // dispatchAction-throws-retry loop (see bot-match.ts driver).
-        const battledRecord = (bf as any).combatTurnByPlayer?.[playerId];
-        if (typeof battledRecord === 'number' && battledRecord === currentTurn) {
-          continue;
+        break;
+      case 'play_card': {
+        if (legal.destinations.length === 0) {
+          // Spells: the engine says the card is playable; pick its targets.
+          const card = player.hand[legal.cardIndex];
+          const resolved = resolveSpellTargets(engine, playerId, legal.cardIndex, card, player);
+          if (resolved.ok) {
+            actions.push({
+              kind: 'play_card',
+              cardIndex: legal.cardIndex,
+              destinationId: null,
+              targets: resolved.targets
+            });
+          }
+          break;
         }
-        const hasMyUnit = player.board.creatures.some(
-          (c) =>
-            c.location && (c.location as any).zone === 'battlefield' &&
-            (c.location as any).battlefieldId === bf.battlefieldId
-        );
-        if (hasMyUnit) {
-          actions.push({ kind: 'commence_battle', battlefieldId: bf.battlefieldId });
+        for (const destinationId of legal.destinations) {
+          actions.push({ kind: 'play_card', cardIndex: legal.cardIndex, destinationId, targets: [] });
         }
+        break;
       }
+      case 'hide_card':
+        for (const battlefieldId of legal.destinations) {
+          actions.push({ kind: 'hide_card', cardIndex: legal.cardIndex, battlefieldId });
+        }
+        break;
+      case 'activate_hidden':
+        actions.push({ kind: 'activate_hidden', instanceId: legal.instanceId });
+        break;
+      case 'deploy_leader':
+        for (const destinationId of legal.destinations) {
+          actions.push({ kind: 'deploy_leader', destinationId });
+        }
+        break;
+      case 'activate_legend':
+        actions.push({ kind: 'activate_legend' });
+        break;
+      case 'move_unit':
+        for (const destinationId of legal.destinations) {
+          actions.push({ kind: 'move_unit', creatureInstanceId: legal.instanceId, destinationId });
+        }
+        break;
+      case 'commence_battle':
+        actions.push({ kind: 'commence_battle', battlefieldId: legal.battlefieldId });
+        break;
+      case 'pass_priority':
+        actions.push({ kind: 'pass_priority' });
+        break;
+      case 'respond_chain':
+        actions.push({ kind: 'respond_chain', pass: true });
+        break;
+      case 'advance_phase':
+        actions.push({ kind: 'advance_phase' });
+        break;
+      case 'assign_damage':
+      case 'request_take_back':
+      case 'respond_take_back':
+      case 'concede':
+        break;
     }
   }
-
   return actions;
 }
 
+/**
+ * Answer a target prompt with the first `min` units its scope allows.
+ * Non-unit scopes are answered empty.
+ */
+function pickPromptTargets(
+  state: GameState,
+  playerId: string,
+  promptId: string,
+  min: number
+): string[] {
+  const prompt = state.prompts.find((p) => p.id === promptId);
+  const data = (prompt?.data ?? {}) as {
+    scope?: string;
+    allowFriendly?: boolean;
+    allowOpponent?: boolean;
+  };
+  if (data.scope !== 'unit') return [];
+  const ids: string[] = [];
+  for (const p of state.players) {
+    const friendly = p.playerId === playerId;
+    if (friendly ? data.allowFriendly === false : data.allowOpponent === false) continue;
+    for (const unit of p.board.creatures) {
+      ids.push(unit.instanceId);
+    }
+  }
+  return ids.slice(0, min);
+}
+
 // ---------------------------------------------------------------------------
 // Legality gate (spec §4.1)
 // ---------------------------------------------------------------------------
@@ -904,7 +745,7 @@ function actionIsLegal(
   playerId: string,
   action: BotAction
 ): boolean {
-  const legal = enumerateLegalActions(engine, playerId);
+  const legal = listBotActions(engine, playerId);
   if (legal.length === 0) return false;
   return legal.some((l) => actionsEqual(l, action));
 }
@@ -940,6 +781,8 @@ function actionsEqual(a: BotAction, b: BotAction): boolean {
       const bb = b as typeof a;
       return bb.cardIndex === a.cardIndex && bb.battlefieldId === a.battlefieldId;
     }
+    case 'activate_hidden':
+      return (b as typeof a).instanceId === a.instanceId;
     case 'move_unit': {
       const bb = b as typeof a;
       return (
@@ -1015,6 +858,9 @@ function dispatchAction(
     case 'hide_card':
       engine.hideCard(playerId, action.cardIndex, action.battlefieldId);
       return;
+    case 'activate_hidden':
+      engine.activateHiddenCard(playerId, action.instanceId, []);
+      return;
     case 'move_unit':
       engine.moveUnit(playerId, action.creatureInstanceId, action.destinationId);
       return;
@@ -1043,23 +889,23 @@ function dispatchAction(
 type Bot = (engine: RiftboundGameEngine, playerId: string, rng: Rng) => BotAction | null;
 
 const baselineBot: Bot = (engine, playerId, rng) => {
-  const actions = enumerateLegalActions(engine, playerId);
+  const actions = listBotActions(engine, playerId);
   if (actions.length === 0) return null;
-  // Drop concede (spec §2.1 step 2). Our enumerator never emits it anyway.
+  // Drop concede (spec §2.1 step 2). listBotActions never emits it anyway.
   const choices = actions.filter((a) => a.kind !== 'concede');
   if (choices.length === 0) return { kind: 'advance_phase' };
   return rng.pick(choices) ?? null;
 };
 
 const heuristicBot: Bot = (engine, playerId, rng) => {
-  const actions = enumerateLegalActions(engine, playerId);
+  const actions = listBotActions(engine, playerId);
   if (actions.length === 0) return null;
 
   const state = engine.getGameState();
   const player = state.players.find((p) => p.playerId === playerId);
   if (!player) return rng.pick(actions) ?? null;
 
-  // Tier 0: prompt resolution (discard / target) — our enumerator returns only
+  // Tier 0: prompt resolution (discard / target) — listBotActions returns only
   // that action if a prompt is open for this player, so any discard/target
   // action short-circuits here.
   const promptAction =
@@ -1513,6 +1359,8 @@ function describeAction(event: EventLogLine): string {
       return `${actor} activates their legend ability.`;
     case 'hide_card':
       return `${actor} hides a card on ${htmlEscape(a.battlefieldId)}.`;
+    case 'activate_hidden':
+      return `${actor} reveals a hidden card.`;
     case 'move_unit':
       return a.destinationId === 'base'
         ? `${actor} recalls a unit to base.`
@@ -1693,6 +1541,7 @@ function assertInvariants(
     for (const c of player.deck) register('deck', (c as any).instanceId ?? c.id);
     for (const c of player.graveyard) register('graveyard', (c as any).instanceId ?? c.id);
     for (const c of player.exile) register('exile', (c as any).instanceId ?? c.id);
+    for (const c of player.banishment) register('banishment', (c as any).instanceId ?? c.id);
     for (const c of player.board.creatures) register('board_creatures', c.instanceId ?? c.id);
     for (const c of player.board.artifacts) register('board_artifacts', (c as any).instanceId ?? c.id);
     for (const c of player.board.enchantments) register('board_enchantments', (c as any).instanceId ?? c.id);
@@ -1859,7 +1708,7 @@ function playOneGame(
   ) {
     let madeProgress = false;
     for (const pid of [p1, p2]) {
-      const legals = enumerateLegalActions(engine, pid);
+      const legals = listBotActions(engine, pid);
       if (legals.length === 0) continue;
       const bot = getBot(pid === p1 ? cfg.strategyA : cfg.strategyB);
       const action = bot(engine, pid, pickRng(pid));
@@ -2155,7 +2004,7 @@ function playOneGame(
   const resultField: 'P1_wins' | 'P2_wins' | 'draw' =
     winnerLabel === 'P1' ? 'P1_wins' : winnerLabel === 'P2' ? 'P2_wins' : 'draw';
   const winReason =
-    record.terminator === 'victory_points'
+    record.terminator === 'victory_points' || record.terminator === 'support'
       ? `reached ${engine.getGameState().victoryScore ?? 8} VP`
       : record.terminator === 'burn_out'
       ? 'opponent deck out'
@@ -2366,7 +2215,7 @@ export {
   // server-side bot-vs-bot driver that powers the live spectator flow.
   BotAction,
   describeAction,
-  enumerateLegalActions,
+  listBotActions,
   actionIsLegal,
   actionsEqual,
   dispatchAction,
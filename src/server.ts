@@ -13,11 +13,19 @@ import { expressMiddleware } from '@apollo/server/express4';
 import { typeDefs } from './graphql/schema';
 import { queryResolvers, mutationResolvers, subscriptionResolvers } from './graphql/resolvers';
 import { startMatchmakingQueueWorker } from './matchmaking-queue-worker';
-import { decodeJwtPayload, requireAuthenticatedUser } from './auth-utils';
+import {
+  allowsUnverifiedIdentity,
+  decodeJwtPayload,
+  requireAuthenticatedUser,
+  verifyToken
+} from './auth-utils';
 import { registerMatchRoutes } from './match-routes';
 import { cardCatalogRouter } from './card-catalog-routes';
+import { deckRouter } from './deck-routes';
 import { TABLE_NAMES } from './config/tableNames';
+import { fetchLadderUsers, ratingFromUserItem, isProvisionalRating } from './rating';
 import { bootstrap as bootstrapReplayFrameStore } from './replay/replay-frame-store';
+import { startPubSub, stopPubSub } from './graphql/pubsub';
 
 const awsRegion = process.env.AWS_REGION || 'us-east-1';
 const environment = process.env.ENVIRONMENT || 'dev';
@@ -67,14 +75,15 @@ const allowedHeadersList = [
   'Authorization',
   'x-id-token',
   'x-user-id',
-  'x-requested-with'
+  'x-requested-with',
+  'Idempotency-Key'
 ];
 
 const baseCorsOptions: cors.CorsOptions = {
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: allowedHeadersList,
-  exposedHeaders: ['Content-Type'],
+  exposedHeaders: ['Content-Type', 'Idempotent-Replayed'],
 };
 
 const corsOptions: cors.CorsOptions = {
@@ -254,7 +263,7 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   if (isPublicRoute(req.path)) {
     return next();
   }
-  if (process.env.ALLOW_LOCAL_BYPASS === 'true') {
+  if (allowsUnverifiedIdentity()) {
     (req as any).userId = (req.headers['x-user-id'] as string) || 'local-dev';
     return next();
   }
@@ -333,7 +342,8 @@ async function startApolloServer() {
     const graphqlHandler = expressMiddleware(server, {
       context: async ({ req }) => ({
         userId: (req as AuthedRequest).userId,
-        authToken: (req as AuthedRequest).authToken || null
+        authToken: (req as AuthedRequest).authToken || null,
+        idempotencyKey: req.get('Idempotency-Key')?.trim() || null
       })
     });
 
@@ -676,17 +686,24 @@ app.get('/api/users/:userId/matches', async (req: Request, res: Response) => {
 // Leaderboard endpoint
 app.get('/api/leaderboard', async (req: Request, res: Response) => {
   try {
-    const { limit = '100' } = req.query;
-
-    const result = await dynamodb.scan({
-      TableName: USERS_TABLE,
-      Limit: parseInt(limit as string)
-    }).promise();
+    const { limit = '100', mode = 'ranked' } = req.query;
+    if (mode !== 'ranked' && mode !== 'free') {
+      res.status(400).json({ error: 'Invalid leaderboard mode' });
+      return;
+    }
 
-    // Sort by wins
-    const leaderboard = (result.Items as LeaderboardUser[])
-      .sort((a, b) => (b.Wins || 0) - (a.Wins || 0))
-      .slice(0, parseInt(limit as string));
+    // Per-mode Glicko-2 ladder, read best first from the leaderboard table
+    const users = (await fetchLadderUsers(mode, parseInt(limit as string))) as LeaderboardUser[];
+    const leaderboard = users.map((user) => {
+      const rating = ratingFromUserItem(user, mode);
+      return {
+        ...user,
+        Rating: Math.round(rating.rating),
+        RatingDeviation: Math.round(rating.ratingDeviation),
+        RatedGames: rating.gamesPlayed,
+        Provisional: isProvisionalRating(rating)
+      };
+    });
 
     res.json(leaderboard);
   } catch (error) {
@@ -738,8 +755,11 @@ export async function createServer(port: number | string = PORT): Promise<Create
       error: (error as Error).message
     });
   }
+  // Subscribers on this task must see publishes made on every other task.
+  await startPubSub();
   registerMatchRoutes(app);
   app.use('/api/cards', cardCatalogRouter);
+  app.use('/api/decks', deckRouter);
 
   // 404 handler (registered after GraphQL middleware to avoid intercepting it)
   app.use((_req: Request, res: Response): void => {
@@ -769,7 +789,7 @@ export async function createServer(port: number | string = PORT): Promise<Create
   const wsCleanup = useServer(
     {
       schema: executableSchema,
-      context: (ctx) => {
+      context: async (ctx) => {
         const params = (ctx.connectionParams || {}) as Record<string, unknown>;
         const rawAuth =
           (params.Authorization as string | undefined) ||
@@ -782,14 +802,13 @@ export async function createServer(port: number | string = PORT): Promise<Create
           (params['x-id-token'] as string | undefined) ||
           bearer ||
           null;
-        const payload = token ? decodeJwtPayload(token) : null;
-        const userId =
-          (params['x-user-id'] as string | undefined) ||
-          (payload?.sub as string | undefined) ||
-          null;
+        const auth = token ? await verifyToken(token) : null;
+        const claimedUserId = allowsUnverifiedIdentity()
+          ? (params['x-user-id'] as string | undefined)
+          : undefined;
         return {
-          userId: userId || null,
-          authToken: token,
+          userId: auth?.userId || claimedUserId || null,
+          authToken: auth ? token : null,
         };
       },
     },
@@ -797,6 +816,9 @@ export async function createServer(port: number | string = PORT): Promise<Create
   );
 
   httpServer.on('close', () => {
+    stopPubSub().catch((err: unknown) => {
+      logger.warn('[PUBSUB] stop error', { err });
+    });
     try {
       const disposed = wsCleanup.dispose();
       if (disposed && typeof (disposed as Promise<void>).catch === 'function') {
@@ -831,6 +853,9 @@ export async function createServer(port: number | string = PORT): Promise<Create
     typeof address === 'object' && address !== null ? address.port : listenPort;
 
   logger.info(`Server running on port ${boundPort}`);
+  if (process.env.ALLOW_LOCAL_BYPASS === 'true' && !allowsUnverifiedIdentity()) {
+    logger.warn('[AUTH] ALLOW_LOCAL_BYPASS is ignored outside local stages; tokens are still verified');
+  }
   logger.info(`GraphQL endpoint available at http://localhost:${boundPort}/graphql`);
   logger.info(`GraphQL subscriptions available at ws://localhost:${boundPort}/graphql`);
 